@@ -25,6 +25,7 @@ import {
   CommentOutlined,
   EnvironmentOutlined,
   ThunderboltOutlined,
+  ClockCircleOutlined,
   CarOutlined,
   PictureOutlined,
   NotificationOutlined,
@@ -36,6 +37,11 @@ import {
   CrownOutlined,
   CalendarOutlined,
   BookOutlined,
+  SolutionOutlined,
+  FileDoneOutlined,
+  SwapOutlined,
+  WalletOutlined,
+  HistoryOutlined,
 } from "@ant-design/icons";
 
 import "@refinedev/antd/dist/reset.css";
@@ -99,8 +105,11 @@ import { DeliverySlotList } from "./pages/delivery-slots/list";
 import { LoyaltySettings } from "./pages/loyalty/settings";
 import { LoyaltyCustomers } from "./pages/loyalty/customers";
 import { ExpressDeliveryConfig } from "./pages/express-delivery/config";
+import { StoreCalendarPage } from "./pages/store-calendar/calendar";
 import { DeliveryBoard } from "./pages/delivery-board";
 import { RidersList } from "./pages/riders/list";
+import { RiderStatement } from "./pages/riders/statement";
+import { CodReconciliation } from "./pages/cod-reconciliation";
 import { BannerList } from "./pages/banners/list";
 import { BannerCreate } from "./pages/banners/create";
 import { BannerEdit } from "./pages/banners/edit";
@@ -119,6 +128,7 @@ import { ReturnRequestList } from "./pages/return-requests/list";
 import { ReturnRequestShow } from "./pages/return-requests/show";
 import { StoreIntelligencePage } from "./pages/store-intelligence";
 import { CustomerInsightsPage } from "./pages/customer-insights";
+import { JobHistory } from "./pages/jobs";
 import { MembershipPlans } from "./pages/memberships/plans";
 import { MembershipSubscribers } from "./pages/memberships/subscribers";
 import { SubscriptionConfig } from "./pages/subscription-config/index";
@@ -127,6 +137,16 @@ import { SubscriptionShow } from "./pages/subscriptions/show";
 import { RecipeList } from "./pages/recipes/list";
 import { RecipeCreate } from "./pages/recipes/create";
 import { RecipeEdit } from "./pages/recipes/edit";
+import { SupplierList } from "./pages/suppliers/list";
+import { SupplierCreate } from "./pages/suppliers/create";
+import { SupplierEdit } from "./pages/suppliers/edit";
+import { PurchaseOrderList } from "./pages/purchase-orders/list";
+import { PurchaseOrderCreate } from "./pages/purchase-orders/create";
+import { PurchaseOrderEdit } from "./pages/purchase-orders/edit";
+import { PurchaseOrderShow } from "./pages/purchase-orders/show";
+import { StockTransferList } from "./pages/stock-transfers/list";
+import { StockTransferCreate } from "./pages/stock-transfers/create";
+import { StockTransferShow } from "./pages/stock-transfers/show";
 import { OrgSwitcher } from "./components/OrgSwitcher";
 
 const { Text } = Typography;
@@ -392,8 +412,14 @@ export default function App() {
               {
                 name: "riders",
                 list: "/riders",
+                show: "/riders/show/:id",
                 meta: { label: "Riders", icon: <TeamOutlined />, parent: "delivery" },
               },
+              {
+                name: "cod-reconciliation",
+                list: "/cod-reconciliation",
+                meta: { label: "COD Cash", icon: <WalletOutlined />, parent: "delivery" },
+              },
               {
                 name: "delivery-zones",
                 list: "/delivery-zones",
@@ -416,6 +442,11 @@ export default function App() {
                 list: "/express-delivery",
                 meta: { label: "Express Config", icon: <ThunderboltOutlined />, parent: "delivery" },
               },
+              {
+                name: "store-calendar",
+                list: "/store-calendar",
+                meta: { label: "Store Hours", icon: <ClockCircleOutlined />, parent: "delivery" },
+              },
               {
                 name: "store-products",
                 create: "/store-products/create",
@@ -426,6 +457,28 @@ export default function App() {
                 list: "/stock",
                 meta: { label: "Stock Management", icon: <ContainerOutlined />, parent: "inventory" },
               },
+              {
+                name: "purchase-orders",
+                list: "/purchase-orders",
+                create: "/purchase-orders/create",
+                edit: "/purchase-orders/edit/:id",
+                show: "/purchase-orders/show/:id",
+                meta: { label: "Purchase Orders", icon: <FileDoneOutlined />, parent: "inventory" },
+              },
+              {
+                name: "stock-transfers",
+                list: "/stock-transfers",
+                create: "/stock-transfers/create",
+                show: "/stock-transfers/show/:id",
+                meta: { label: "Stock Transfers", icon: <SwapOutlined />, parent: "inventory" },
+              },
+              {
+                name: "suppliers",
+                list: "/suppliers",
+                create: "/suppliers/create",
+                edit: "/suppliers/edit/:id",
+                meta: { label: "Suppliers", icon: <SolutionOutlined />, parent: "inventory" },
+              },
               {
                 name: "orders",
                 list: "/orders",
@@ -458,6 +511,11 @@ export default function App() {
                 list: "/customer-insights",
                 meta: { label: "Customer Insights", icon: <TeamOutlined />, parent: "operations" },
               },
+              {
+                name: "jobs",
+                list: "/jobs",
+                meta: { label: "Job History", icon: <HistoryOutlined />, parent: "operations" },
+              },
             ]}
           >
             <Routes>
@@ -573,12 +631,32 @@ export default function App() {
                 <Route path="/delivery-tiers" element={<DeliveryTierList />} />
                 <Route path="/delivery-slots" element={<DeliverySlotList />} />
                 <Route path="/express-delivery" element={<ExpressDeliveryConfig />} />
+                <Route path="/store-calendar" element={<StoreCalendarPage />} />
                 <Route path="/delivery-board" element={<DeliveryBoard />} />
                 <Route path="/riders" element={<RidersList />} />
+                <Route path="/riders/show/:id" element={<RiderStatement />} />
+                <Route path="/cod-reconciliation" element={<CodReconciliation />} />
                 <Route path="/stock" element={<StockPage />} />
+                <Route path="/purchase-orders">
+                  <Route index element={<PurchaseOrderList />} />
+                  <Route path="create" element={<PurchaseOrderCreate />} />
+                  <Route path="edit/:id" element={<PurchaseOrderEdit />} />
+                  <Route path="show/:id" element={<PurchaseOrderShow />} />
+                </Route>
+                <Route path="/stock-transfers">
+                  <Route index element={<StockTransferList />} />
+                  <Route path="create" element={<StockTransferCreate />} />
+                  <Route path="show/:id" element={<StockTransferShow />} />
+                </Route>
+                <Route path="/suppliers">
+                  <Route index element={<SupplierList />} />
+                  <Route path="create" element={<SupplierCreate />} />
+                  <Route path="edit/:id" element={<SupplierEdit />} />
+                </Route>
                 <Route path="/featured-products" element={<FeaturedProductsPage />} />
                 <Route path="/store-intelligence" element={<StoreIntelligencePage />} />
                 <Route path="/customer-insights" element={<CustomerInsightsPage />} />
+                <Route path="/jobs" element={<JobHistory />} />
                 <Route path="/membership-plans" element={<MembershipPlans />} />
                 <Route path="/membership-subscribers" element={<MembershipSubscribers />} />
                 <Route path="/recipes">
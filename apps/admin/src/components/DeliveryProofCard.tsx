@@ -0,0 +1,53 @@
+import { Card, Descriptions, Image, Tag } from "antd";
+import { SafetyCertificateOutlined } from "@ant-design/icons";
+
+import { sectionTitle } from "../theme";
+
+export interface DeliveryProof {
+  otpVerifiedAt: string | null;
+  photoUrl: string | null;
+  deliveredAt: string | null;
+  deliveredLat: number | null;
+  deliveredLng: number | null;
+  rider?: { id: string; name: string } | null;
+}
+
+interface DeliveryProofCardProps {
+  proof: DeliveryProof;
+  style?: React.CSSProperties;
+}
+
+/** Handoff evidence recorded by the rider — shown on orders and return requests */
+export const DeliveryProofCard = ({ proof, style }: DeliveryProofCardProps) => (
+  <Card title={sectionTitle(<SafetyCertificateOutlined />, "Proof of Delivery")} size="small" style={style}>
+    <Descriptions column={1} size="small" bordered>
+      <Descriptions.Item label="Delivered">
+        {proof.deliveredAt ? new Date(proof.deliveredAt).toLocaleString() : "—"}
+        {proof.rider && <span style={{ marginLeft: 8 }}>by {proof.rider.name}</span>}
+      </Descriptions.Item>
+      <Descriptions.Item label="Delivery Code">
+        {proof.otpVerifiedAt ? (
+          <Tag color="green">Verified {new Date(proof.otpVerifiedAt).toLocaleTimeString()}</Tag>
+        ) : (
+          <Tag>Not used</Tag>
+        )}
+      </Descriptions.Item>
+      {proof.deliveredLat != null && proof.deliveredLng != null && (
+        <Descriptions.Item label="Rider Location">
+          <a
+            href={`https://www.google.com/maps?q=${proof.deliveredLat},${proof.deliveredLng}`}
+            target="_blank"
+            rel="noreferrer"
+          >
+            {proof.deliveredLat.toFixed(5)}, {proof.deliveredLng.toFixed(5)}
+          </a>
+        </Descriptions.Item>
+      )}
+      {proof.photoUrl && (
+        <Descriptions.Item label="Photo">
+          <Image src={proof.photoUrl} width={160} style={{ borderRadius: 8, objectFit: "cover" }} />
+        </Descriptions.Item>
+      )}
+    </Descriptions>
+  </Card>
+);
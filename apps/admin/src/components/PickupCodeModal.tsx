@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { Input, Modal, message } from "antd";
+
+import { axiosInstance } from "../providers/data-provider";
+
+interface PickupCodeModalProps {
+  /** Pickup order being handed over; the modal is open while set */
+  orderId: string | null;
+  onClose: () => void;
+  onHandedOver: () => void;
+}
+
+/** Asks for the customer's pickup code before a pickup order is marked collected */
+export const PickupCodeModal = ({ orderId, onClose, onHandedOver }: PickupCodeModalProps) => {
+  const [code, setCode] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const close = () => {
+    setCode("");
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!orderId) return;
+    setSubmitting(true);
+    try {
+      await axiosInstance.patch(`/orders/${orderId}/status`, {
+        status: "DELIVERED",
+        ...(code ? { pickupCode: code } : {}),
+      });
+      message.success("Order picked up");
+      setCode("");
+      onHandedOver();
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { message?: string } } };
+      message.error(e?.response?.data?.message ?? "Failed to hand over order");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      title={`Hand Over #${orderId?.slice(0, 8) ?? ""}`}
+      open={!!orderId}
+      onCancel={close}
+      onOk={handleSubmit}
+      okText="Hand Over"
+      confirmLoading={submitting}
+      destroyOnClose
+    >
+      <div style={{ marginBottom: 8 }}>Ask the customer for the pickup code shown in their app.</div>
+      <Input
+        value={code}
+        onChange={(e) => setCode(e.target.value.replace(/\D/g, "").slice(0, 4))}
+        onPressEnter={handleSubmit}
+        placeholder="4-digit code"
+        maxLength={4}
+        size="large"
+        autoFocus
+        style={{ fontFamily: "monospace", fontSize: 24, letterSpacing: 8, textAlign: "center" }}
+      />
+    </Modal>
+  );
+};
@@ -53,6 +53,19 @@ export const PAYMENT_STATUS_CONFIG: Record<string, { color: string; label: strin
   PENDING: { color: "orange", label: "Pending" },
   PAID: { color: "green", label: "Paid" },
   FAILED: { color: "red", label: "Failed" },
+  PARTIALLY_REFUNDED: { color: "geekblue", label: "Partially Refunded" },
+  REFUNDED: { color: "blue", label: "Refunded" },
+};
+
+export const REFUND_STATUS_CONFIG: Record<string, { color: string; label: string }> = {
+  INITIATED: { color: "orange", label: "Initiated" },
+  PROCESSED: { color: "green", label: "Processed" },
+  FAILED: { color: "red", label: "Failed" },
+};
+
+export const REFUND_DESTINATION_CONFIG: Record<string, { color: string; label: string }> = {
+  WALLET: { color: "purple", label: "Wallet" },
+  SOURCE: { color: "cyan", label: "Original Payment" },
 };
 
 export const STORE_STATUS_CONFIG: Record<string, { color: string; label: string }> = {
@@ -94,6 +107,39 @@ export const LOYALTY_TRANSACTION_TYPE_CONFIG: Record<string, { color: string; la
   ADJUSTMENT: { color: "blue", label: "Adjustment" },
 };
 
+export const STOCK_MOVEMENT_TYPE_CONFIG: Record<string, { color: string; label: string }> = {
+  RECEIPT: { color: "green", label: "Receipt" },
+  SALE: { color: "blue", label: "Sale" },
+  RETURN: { color: "cyan", label: "Return" },
+  ADJUSTMENT: { color: "geekblue", label: "Adjustment" },
+  DAMAGE: { color: "red", label: "Damage" },
+  EXPIRY: { color: "volcano", label: "Expiry" },
+  TRANSFER: { color: "purple", label: "Transfer" },
+  RESERVATION: { color: "orange", label: "Reserved" },
+  RELEASE: { color: "default", label: "Released" },
+};
+
+// Reasons staff can pick when editing stock by hand
+export const STOCK_REASON_OPTIONS = ["ADJUSTMENT", "RECEIPT", "RETURN", "DAMAGE", "EXPIRY"].map((value) => ({
+  label: STOCK_MOVEMENT_TYPE_CONFIG[value].label,
+  value,
+}));
+
+export const PURCHASE_ORDER_STATUS_CONFIG: Record<string, { color: string; label: string }> = {
+  DRAFT: { color: "default", label: "Draft" },
+  SENT: { color: "blue", label: "Sent" },
+  PARTIALLY_RECEIVED: { color: "orange", label: "Partially Received" },
+  RECEIVED: { color: "green", label: "Received" },
+  CANCELLED: { color: "red", label: "Cancelled" },
+};
+
+export const STOCK_TRANSFER_STATUS_CONFIG: Record<string, { color: string; label: string }> = {
+  REQUESTED: { color: "gold", label: "Requested" },
+  DISPATCHED: { color: "blue", label: "Dispatched" },
+  RECEIVED: { color: "green", label: "Received" },
+  CANCELLED: { color: "red", label: "Cancelled" },
+};
+
 export const BANNER_PLACEMENT_CONFIG: Record<string, { color: string; label: string }> = {
   HERO_CAROUSEL: { color: "blue", label: "Hero Carousel" },
   CATEGORY_STRIP: { color: "cyan", label: "Category Strip" },
@@ -126,6 +172,7 @@ export const NOTIFICATION_TYPE_CONFIG: Record<string, { color: string; label: st
   PROMOTIONAL: { color: "magenta", label: "Promotional" },
   WELCOME: { color: "blue", label: "Welcome" },
   REVIEW_REQUEST: { color: "orange", label: "Review Request" },
+  SLOT_AVAILABLE: { color: "lime", label: "Slot Available" },
 };
 
 export const TRIP_STATUS_CONFIG: Record<string, { color: string; label: string }> = {
@@ -135,6 +182,18 @@ export const TRIP_STATUS_CONFIG: Record<string, { color: string; label: string }
   CANCELLED: { color: "red", label: "Cancelled" },
 };
 
+export const COD_HANDOVER_STATUS_CONFIG: Record<string, { color: string; label: string }> = {
+  BALANCED: { color: "green", label: "Balanced" },
+  SHORT: { color: "red", label: "Short" },
+  EXCESS: { color: "orange", label: "Excess" },
+};
+
+export const JOB_RUN_STATUS_CONFIG: Record<string, { color: string; label: string }> = {
+  RUNNING: { color: "processing", label: "Running" },
+  SUCCEEDED: { color: "green", label: "Succeeded" },
+  FAILED: { color: "red", label: "Failed" },
+};
+
 export const CAMPAIGN_STATUS_CONFIG: Record<string, { color: string; label: string }> = {
   DRAFT: { color: "default", label: "Draft" },
   SCHEDULED: { color: "blue", label: "Scheduled" },
@@ -193,6 +252,18 @@ export const SUBSCRIPTION_STATUS_CONFIG: Record<string, { color: string; label:
   CANCELLED: { color: "red", label: "Cancelled" },
 };
 
+export const SUBSCRIPTION_DELIVERY_OUTCOME_CONFIG: Record<string, { color: string; label: string }> = {
+  PLACED: { color: "green", label: "Delivered" },
+  PARTIAL: { color: "gold", label: "Partial" },
+  SKIPPED: { color: "default", label: "Skipped" },
+  VACATION: { color: "cyan", label: "Vacation" },
+  STORE_CLOSED: { color: "default", label: "Store Closed" },
+  LOW_BALANCE: { color: "red", label: "Low Balance" },
+  OUT_OF_STOCK: { color: "volcano", label: "Out of Stock" },
+  NOTHING_TO_ORDER: { color: "default", label: "Nothing to Order" },
+  MISSED: { color: "purple", label: "Missed" },
+};
+
 export const SUBSCRIPTION_FREQUENCY_CONFIG: Record<string, { color: string; label: string }> = {
   DAILY: { color: "blue", label: "Daily" },
   ALTERNATE_DAYS: { color: "purple", label: "Alternate Days" },
@@ -4,6 +4,14 @@ const API_URL = import.meta.env.VITE_API_URL ?? "http://localhost:7001";
 const WS_URL = API_URL.replace(/^http/, "ws");
 const MAX_BACKOFF = 30000;
 
+export interface PickupArrival {
+  orderId: string;
+  storeId: string;
+  customerName: string;
+  parkingNote: string | null;
+  arrivedAt: string;
+}
+
 interface UseOrderWebSocketOptions {
   /** Subscribe to a specific order's full updates (show page) */
   orderId?: string;
@@ -11,6 +19,8 @@ interface UseOrderWebSocketOptions {
   onOrderUpdated?: (orderId: string, data: unknown) => void;
   /** Called when any order changes (lightweight hint for list pages) */
   onOrdersChanged?: (orderId: string, status: string) => void;
+  /** Called when a pickup customer checks in at the store */
+  onPickupArrived?: (arrival: PickupArrival) => void;
   /** Whether the hook should be active */
   enabled?: boolean;
 }
@@ -19,6 +29,7 @@ export function useOrderWebSocket({
   orderId,
   onOrderUpdated,
   onOrdersChanged,
+  onPickupArrived,
   enabled = true,
 }: UseOrderWebSocketOptions) {
   const wsRef = useRef<WebSocket | null>(null);
@@ -27,8 +38,10 @@ export function useOrderWebSocket({
   const mountedRef = useRef(true);
   const onOrderUpdatedRef = useRef(onOrderUpdated);
   const onOrdersChangedRef = useRef(onOrdersChanged);
+  const onPickupArrivedRef = useRef(onPickupArrived);
   onOrderUpdatedRef.current = onOrderUpdated;
   onOrdersChangedRef.current = onOrdersChanged;
+  onPickupArrivedRef.current = onPickupArrived;
 
   const connect = useCallback(() => {
     if (!mountedRef.current) return;
@@ -58,6 +71,8 @@ export function useOrderWebSocket({
           onOrderUpdatedRef.current(msg.orderId, msg.data);
         } else if (msg.type === "orders:changed" && onOrdersChangedRef.current) {
           onOrdersChangedRef.current(msg.orderId, msg.status);
+        } else if (msg.type === "pickup:arrived" && onPickupArrivedRef.current) {
+          onPickupArrivedRef.current(msg.data);
         }
       } catch {
         // Ignore malformed messages
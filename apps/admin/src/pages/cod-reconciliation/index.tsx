@@ -0,0 +1,482 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  Row,
+  Col,
+  Statistic,
+  Table,
+  Tag,
+  Button,
+  Modal,
+  Form,
+  Input,
+  InputNumber,
+  DatePicker,
+  Select,
+  Space,
+  Typography,
+  Empty,
+  Spin,
+  Alert,
+  Progress,
+  message,
+} from "antd";
+import {
+  ShopOutlined,
+  WalletOutlined,
+  HistoryOutlined,
+  BarChartOutlined,
+  DollarOutlined,
+} from "@ant-design/icons";
+import dayjs, { type Dayjs } from "dayjs";
+import { CASH_NOTE_DENOMINATIONS } from "@martly/shared/constants";
+import { axiosInstance } from "../../providers/data-provider";
+import { sectionTitle } from "../../theme";
+import { COD_HANDOVER_STATUS_CONFIG } from "../../constants/tag-colors";
+
+const { Text } = Typography;
+
+interface Store {
+  id: string;
+  name: string;
+}
+
+interface RiderCash {
+  id: string;
+  name: string;
+  phone: string | null;
+  cashInHand: number;
+  pendingOrders: number;
+  overLimit: boolean;
+  lastHandoverAt: string | null;
+}
+
+interface PendingCollection {
+  id: string;
+  orderId: string;
+  expectedAmount: number;
+  collectedAmount: number;
+  note: string | null;
+  createdAt: string;
+  order: { id: string; deliveryAddress: string | null; user: { name: string } };
+}
+
+interface Handover {
+  id: string;
+  rider: { id: string; name: string };
+  receivedBy: { id: string; name: string };
+  expectedAmount: number;
+  countedAmount: number;
+  variance: number;
+  status: string;
+  denominations: Record<string, number>;
+  note: string | null;
+  orders: number;
+  createdAt: string;
+}
+
+interface ReportRow {
+  riderId: string;
+  name: string;
+  orders: number;
+  expected: number;
+  collected: number;
+  doorstepMismatches: number;
+  handovers: number;
+  handedOver: number;
+  variance: number;
+  flagged: number;
+}
+
+interface Report {
+  totals: Omit<ReportRow, "riderId" | "name">;
+  riders: ReportRow[];
+}
+
+const rupees = (v: number) => `₹${v.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const varianceText = (v: number) =>
+  v === 0 ? <Text type="secondary">—</Text> : <Text type={v < 0 ? "danger" : "warning"}>{v > 0 ? "+" : ""}{rupees(v)}</Text>;
+
+export const CodReconciliation = () => {
+  const [stores, setStores] = useState<Store[]>([]);
+  const [storeId, setStoreId] = useState<string | null>(null);
+  const [range, setRange] = useState<[Dayjs, Dayjs]>([dayjs().subtract(6, "day"), dayjs()]);
+  const [cashLimit, setCashLimit] = useState<number | null>(null);
+  const [riders, setRiders] = useState<RiderCash[]>([]);
+  const [handovers, setHandovers] = useState<Handover[]>([]);
+  const [report, setReport] = useState<Report | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const [handoverRider, setHandoverRider] = useState<RiderCash | null>(null);
+  const [pending, setPending] = useState<PendingCollection[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [form] = Form.useForm();
+  const counts: Record<string, number | null> | undefined = Form.useWatch("denominations", form);
+  const coins: number | null | undefined = Form.useWatch("coins", form);
+
+  useEffect(() => {
+    axiosInstance.get("/stores?pageSize=100").then((res) => {
+      const list = res?.data?.data ?? [];
+      setStores(list);
+      if (list.length > 0) setStoreId(list[0].id);
+    });
+  }, []);
+
+  const fetchAll = useCallback(async () => {
+    if (!storeId) return;
+    setLoading(true);
+    const from = range[0].format("YYYY-MM-DD");
+    const to = range[1].format("YYYY-MM-DD");
+    try {
+      const [ridersRes, handoversRes, reportRes] = await Promise.all([
+        axiosInstance.get(`/cod/riders?storeId=${storeId}`),
+        axiosInstance.get(`/cod/handovers?storeId=${storeId}&from=${from}&to=${to}`),
+        axiosInstance.get(`/cod/report?storeId=${storeId}&from=${from}&to=${to}`),
+      ]);
+      setCashLimit(ridersRes?.data?.data?.cashLimit ?? null);
+      setRiders(ridersRes?.data?.data?.riders ?? []);
+      setHandovers(handoversRes?.data?.data ?? []);
+      setReport(reportRes?.data?.data ?? null);
+    } catch {
+      message.error("Failed to load COD data");
+    } finally {
+      setLoading(false);
+    }
+  }, [storeId, range]);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  const openHandover = async (rider: RiderCash) => {
+    form.resetFields();
+    setPending([]);
+    setHandoverRider(rider);
+    try {
+      const res = await axiosInstance.get(`/cod/riders/${rider.id}/pending?storeId=${storeId}`);
+      setPending(res?.data?.data ?? []);
+    } catch {
+      message.error("Failed to load the rider's COD orders");
+    }
+  };
+
+  const counted =
+    CASH_NOTE_DENOMINATIONS.reduce((sum, value) => sum + value * (counts?.[String(value)] ?? 0), 0) + (coins ?? 0);
+  const expected = handoverRider?.cashInHand ?? 0;
+  const variance = Math.round((counted - expected) * 100) / 100;
+
+  const handleHandover = async () => {
+    if (!handoverRider) return;
+    const values = await form.validateFields();
+    const denominations: Record<string, number> = {};
+    for (const value of CASH_NOTE_DENOMINATIONS) {
+      const n = values.denominations?.[String(value)];
+      if (n) denominations[String(value)] = n;
+    }
+    setSaving(true);
+    try {
+      const res = await axiosInstance.post(`/cod/handovers?storeId=${storeId}`, {
+        riderId: handoverRider.id,
+        denominations,
+        coins: values.coins ?? 0,
+        note: values.note || undefined,
+      });
+      const handover = res?.data?.data;
+      if (handover?.status === "BALANCED") message.success(`Received ${rupees(handover.countedAmount)} from ${handoverRider.name}`);
+      else message.warning(`Handover recorded — ${handover?.status === "SHORT" ? "short" : "excess"} by ${rupees(Math.abs(handover?.variance ?? 0))}`);
+      setHandoverRider(null);
+      fetchAll();
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { message?: string } } };
+      message.error(e?.response?.data?.message ?? "Failed to record handover");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const riderColumns = [
+    {
+      title: "Rider",
+      key: "name",
+      render: (_: unknown, rec: RiderCash) => (
+        <Space direction="vertical" size={0}>
+          <Text strong>{rec.name}</Text>
+          {rec.phone && <Text type="secondary" style={{ fontSize: 12 }}>{rec.phone}</Text>}
+        </Space>
+      ),
+    },
+    {
+      title: "Cash in Hand",
+      key: "cashInHand",
+      width: 260,
+      render: (_: unknown, rec: RiderCash) => (
+        <Space direction="vertical" size={0} style={{ width: "100%" }}>
+          <Space size={6}>
+            <Text strong>{rupees(rec.cashInHand)}</Text>
+            {rec.overLimit && <Tag color="error">Over limit</Tag>}
+          </Space>
+          {cashLimit != null && cashLimit > 0 && (
+            <Progress
+              percent={Math.min(100, Math.round((rec.cashInHand / cashLimit) * 100))}
+              size="small"
+              showInfo={false}
+              status={rec.overLimit ? "exception" : "normal"}
+            />
+          )}
+        </Space>
+      ),
+    },
+    { title: "COD Orders", dataIndex: "pendingOrders", key: "pendingOrders", width: 110 },
+    {
+      title: "Last Handover",
+      dataIndex: "lastHandoverAt",
+      key: "lastHandoverAt",
+      width: 160,
+      render: (v: string | null) => (v ? dayjs(v).format("DD MMM, h:mm A") : <Text type="secondary">Never</Text>),
+    },
+    {
+      title: "",
+      key: "actions",
+      width: 140,
+      render: (_: unknown, rec: RiderCash) => (
+        <Button size="small" type="primary" icon={<DollarOutlined />} disabled={rec.pendingOrders === 0} onClick={() => openHandover(rec)}>
+          Receive Cash
+        </Button>
+      ),
+    },
+  ];
+
+  const handoverColumns = [
+    { title: "Date", dataIndex: "createdAt", key: "createdAt", render: (v: string) => dayjs(v).format("DD MMM, h:mm A") },
+    { title: "Rider", key: "rider", render: (_: unknown, rec: Handover) => rec.rider.name },
+    { title: "Orders", dataIndex: "orders", key: "orders", width: 80 },
+    { title: "Expected", dataIndex: "expectedAmount", key: "expectedAmount", render: rupees },
+    { title: "Counted", dataIndex: "countedAmount", key: "countedAmount", render: rupees },
+    { title: "Variance", dataIndex: "variance", key: "variance", render: varianceText },
+    {
+      title: "Status",
+      dataIndex: "status",
+      key: "status",
+      render: (s: string) => {
+        const config = COD_HANDOVER_STATUS_CONFIG[s];
+        return <Tag color={config?.color}>{config?.label ?? s}</Tag>;
+      },
+    },
+    {
+      title: "Notes",
+      key: "denominations",
+      render: (_: unknown, rec: Handover) => (
+        <Text type="secondary" style={{ fontSize: 12 }}>
+          {Object.entries(rec.denominations)
+            .filter(([key, n]) => key !== "coins" && n > 0)
+            .map(([key, n]) => `₹${key}×${n}`)
+            .join(", ")}
+          {rec.denominations.coins ? ` + ₹${rec.denominations.coins} coins` : ""}
+        </Text>
+      ),
+    },
+    { title: "Received By", key: "receivedBy", render: (_: unknown, rec: Handover) => rec.receivedBy.name },
+    { title: "Note", dataIndex: "note", key: "note", render: (v: string | null) => v ?? "—" },
+  ];
+
+  const reportColumns = [
+    { title: "Rider", dataIndex: "name", key: "name", render: (v: string) => <Text strong>{v}</Text> },
+    { title: "COD Orders", dataIndex: "orders", key: "orders" },
+    { title: "Order Value", dataIndex: "expected", key: "expected", render: rupees },
+    { title: "Collected", dataIndex: "collected", key: "collected", render: rupees },
+    {
+      title: "Doorstep Mismatches",
+      dataIndex: "doorstepMismatches",
+      key: "doorstepMismatches",
+      render: (v: number) => (v > 0 ? <Tag color="warning">{v}</Tag> : <Text type="secondary">0</Text>),
+    },
+    { title: "Handed Over", dataIndex: "handedOver", key: "handedOver", render: rupees },
+    { title: "Variance", dataIndex: "variance", key: "variance", render: varianceText },
+    {
+      title: "Flagged Handovers",
+      dataIndex: "flagged",
+      key: "flagged",
+      render: (v: number) => (v > 0 ? <Tag color="error">{v}</Tag> : <Text type="secondary">0</Text>),
+    },
+  ];
+
+  const totals = report?.totals;
+
+  return (
+    <div>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: 16,
+          flexWrap: "wrap",
+          gap: 12,
+        }}
+      >
+        <h2 style={{ margin: 0, fontSize: 22, fontWeight: 700 }}>COD Cash</h2>
+        <Space size={8}>
+          <Select
+            placeholder="Select store"
+            value={storeId}
+            onChange={(v) => setStoreId(v)}
+            style={{ minWidth: 200 }}
+            options={stores.map((s) => ({ label: s.name, value: s.id }))}
+            suffixIcon={<ShopOutlined />}
+          />
+          <DatePicker.RangePicker
+            value={range}
+            onChange={(v) => {
+              if (v?.[0] && v?.[1]) setRange([v[0], v[1]]);
+            }}
+            allowClear={false}
+            disabledDate={(d) => d.isAfter(dayjs(), "day")}
+          />
+        </Space>
+      </div>
+
+      {!storeId ? (
+        <Empty description="Select a store" />
+      ) : (
+        <Spin spinning={loading}>
+          <Row gutter={[16, 16]} style={{ marginBottom: 16 }}>
+            <Col xs={12} md={6}>
+              <Card size="small">
+                <Statistic title="With Riders Now" value={riders.reduce((s, r) => s + r.cashInHand, 0)} precision={2} prefix="₹" />
+              </Card>
+            </Col>
+            <Col xs={12} md={6}>
+              <Card size="small">
+                <Statistic title="Collected in Period" value={totals?.collected ?? 0} precision={2} prefix="₹" />
+              </Card>
+            </Col>
+            <Col xs={12} md={6}>
+              <Card size="small">
+                <Statistic title="Handed Over in Period" value={totals?.handedOver ?? 0} precision={2} prefix="₹" />
+              </Card>
+            </Col>
+            <Col xs={12} md={6}>
+              <Card size="small">
+                <Statistic
+                  title="Net Variance"
+                  value={totals?.variance ?? 0}
+                  precision={2}
+                  prefix="₹"
+                  valueStyle={{ color: (totals?.variance ?? 0) < 0 ? "#dc2626" : undefined }}
+                />
+              </Card>
+            </Col>
+          </Row>
+
+          <Card
+            title={sectionTitle(<WalletOutlined />, "Cash with Riders")}
+            size="small"
+            style={{ marginBottom: 16 }}
+            extra={
+              <Text type="secondary">
+                {cashLimit != null ? `Limit ${rupees(cashLimit)} per rider` : "No cash limit — set one in the store's settings"}
+              </Text>
+            }
+          >
+            <Table
+              dataSource={riders}
+              columns={riderColumns}
+              rowKey="id"
+              size="small"
+              pagination={false}
+              locale={{ emptyText: <Empty description="No riders at this store" /> }}
+            />
+          </Card>
+
+          <Card title={sectionTitle(<HistoryOutlined />, "Handovers")} size="small" style={{ marginBottom: 16 }}>
+            <Table
+              dataSource={handovers}
+              columns={handoverColumns}
+              rowKey="id"
+              size="small"
+              pagination={{ pageSize: 20, hideOnSinglePage: true }}
+              locale={{ emptyText: <Empty description="No handovers in this period" /> }}
+            />
+          </Card>
+
+          <Card title={sectionTitle(<BarChartOutlined />, "Rider Report")} size="small">
+            <Table
+              dataSource={report?.riders ?? []}
+              columns={reportColumns}
+              rowKey="riderId"
+              size="small"
+              pagination={false}
+              locale={{ emptyText: <Empty description="No COD activity in this period" /> }}
+            />
+          </Card>
+        </Spin>
+      )}
+
+      <Modal
+        title={handoverRider ? `Receive Cash — ${handoverRider.name}` : "Receive Cash"}
+        open={!!handoverRider}
+        onCancel={() => setHandoverRider(null)}
+        onOk={handleHandover}
+        okText="Record Handover"
+        confirmLoading={saving}
+        width={560}
+        destroyOnClose
+      >
+        <Table
+          dataSource={pending}
+          rowKey="id"
+          size="small"
+          pagination={false}
+          scroll={{ y: 180 }}
+          style={{ marginBottom: 16 }}
+          columns={[
+            { title: "Order", key: "order", render: (_: unknown, rec: PendingCollection) => `#${rec.orderId.slice(0, 8)} · ${rec.order.user.name}` },
+            { title: "Total", dataIndex: "expectedAmount", key: "expectedAmount", render: rupees },
+            {
+              title: "Collected",
+              key: "collectedAmount",
+              render: (_: unknown, rec: PendingCollection) => (
+                <Text type={rec.collectedAmount !== rec.expectedAmount ? "warning" : undefined}>{rupees(rec.collectedAmount)}</Text>
+              ),
+            },
+          ]}
+        />
+
+        <Form form={form} layout="vertical">
+          <Row gutter={12}>
+            {CASH_NOTE_DENOMINATIONS.map((value) => (
+              <Col span={8} key={value}>
+                <Form.Item label={`₹${value} notes`} name={["denominations", String(value)]} style={{ marginBottom: 12 }}>
+                  <InputNumber min={0} max={10000} precision={0} style={{ width: "100%" }} placeholder="0" />
+                </Form.Item>
+              </Col>
+            ))}
+            <Col span={8}>
+              <Form.Item label="Coins" name="coins" style={{ marginBottom: 12 }}>
+                <InputNumber min={0} prefix="₹" style={{ width: "100%" }} placeholder="0" />
+              </Form.Item>
+            </Col>
+          </Row>
+          <Alert
+            type={variance === 0 ? "success" : variance < 0 ? "error" : "warning"}
+            showIcon
+            style={{ marginBottom: 12 }}
+            message={
+              <Space size={16}>
+                <span>Expected <strong>{rupees(expected)}</strong></span>
+                <span>Counted <strong>{rupees(counted)}</strong></span>
+                <span>
+                  {variance === 0 ? "Balanced" : variance < 0 ? `Short ${rupees(-variance)}` : `Excess ${rupees(variance)}`}
+                </span>
+              </Space>
+            }
+          />
+          <Form.Item label="Note" name="note" rules={[{ required: variance !== 0, message: "Explain the difference" }]}>
+            <Input.TextArea rows={2} maxLength={500} placeholder={variance !== 0 ? "Why doesn't the cash match?" : "Optional"} />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+};
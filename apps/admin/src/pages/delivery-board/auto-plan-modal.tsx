@@ -0,0 +1,299 @@
+import { useEffect, useState } from "react";
+import { Modal, Card, Select, InputNumber, Button, Space, Tag, Empty, Spin, Alert, message, theme as antTheme } from "antd";
+import { CarOutlined, ThunderboltOutlined, CheckOutlined } from "@ant-design/icons";
+
+import { axiosInstance } from "../../providers/data-provider";
+
+interface PlanOrder {
+  id: string;
+  totalAmount: number;
+  deliveryAddress: string | null;
+  deliveryPincode: string | null;
+  slotStartTime: string | null;
+  slotEndTime: string | null;
+  user: { id: string; name: string };
+  sequence?: number;
+  legKm?: number;
+}
+
+interface PlannedTrip {
+  key: string;
+  riderId: string | null;
+  distanceKm: number;
+  orders: PlanOrder[];
+  /** Stops were moved after planning — the server re-sequences on accept */
+  modified: boolean;
+}
+
+interface Rider {
+  id: string;
+  name: string;
+  phone: string | null;
+  online: boolean;
+}
+
+interface AutoPlanModalProps {
+  open: boolean;
+  storeId: string;
+  riders: Rider[];
+  /** Plan only these orders (the board selection); empty plans every ready order */
+  orderIds: string[];
+  onClose: () => void;
+  onAccepted: () => void;
+}
+
+/**
+ * Proposes trips from POST /delivery-trips/auto-plan. Staff can swap riders, move or
+ * drop stops, then accept trips one at a time or all at once.
+ */
+export const AutoPlanModal = ({ open, storeId, riders, orderIds, onClose, onAccepted }: AutoPlanModalProps) => {
+  const { token } = antTheme.useToken();
+  const [maxStops, setMaxStops] = useState(8);
+  const [maxDistanceKm, setMaxDistanceKm] = useState(15);
+  const [planning, setPlanning] = useState(false);
+  const [trips, setTrips] = useState<PlannedTrip[]>([]);
+  const [unassigned, setUnassigned] = useState<{ order: PlanOrder; reason: string }[]>([]);
+  const [accepting, setAccepting] = useState<string | null>(null);
+
+  const runPlan = async () => {
+    setPlanning(true);
+    try {
+      const res = await axiosInstance.post("/delivery-trips/auto-plan", {
+        storeId,
+        maxStops,
+        maxDistanceKm,
+        ...(orderIds.length > 0 ? { orderIds } : {}),
+      });
+      const data = res.data.data as {
+        trips: { rider: Rider; distanceKm: number; orders: PlanOrder[] }[];
+        unassigned: { order: PlanOrder; reason: string }[];
+      };
+      setTrips(data.trips.map((t, i) => ({
+        key: `trip-${i}`,
+        riderId: t.rider.id,
+        distanceKm: t.distanceKm,
+        orders: t.orders,
+        modified: false,
+      })));
+      setUnassigned(data.unassigned);
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { message?: string } } };
+      message.error(e?.response?.data?.message ?? "Failed to plan trips");
+      setTrips([]);
+      setUnassigned([]);
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) runPlan();
+    // Re-plan only when the modal opens; setting changes use the Re-plan button
+  }, [open]);
+
+  const moveOrder = (fromKey: string, orderId: string, toKey: string) => {
+    const order = trips.find((t) => t.key === fromKey)?.orders.find((o) => o.id === orderId);
+    if (!order) return;
+    setTrips(
+      trips
+        .map((t) => {
+          if (t.key === fromKey) return { ...t, orders: t.orders.filter((o) => o.id !== orderId), modified: true };
+          if (t.key === toKey) return { ...t, orders: [...t.orders, order], modified: true };
+          return t;
+        })
+        .filter((t) => t.orders.length > 0),
+    );
+    if (toKey === "remove") {
+      setUnassigned((prev) => [...prev, { order, reason: "Removed from plan" }]);
+    }
+  };
+
+  const acceptTrip = async (trip: PlannedTrip) => {
+    if (!trip.riderId) return false;
+    await axiosInstance.post("/delivery-trips", {
+      storeId,
+      riderId: trip.riderId,
+      orderIds: trip.orders.map((o) => o.id),
+      optimizeSequence: true,
+    });
+    setTrips((prev) => prev.filter((t) => t.key !== trip.key));
+    return true;
+  };
+
+  const handleAccept = async (trip: PlannedTrip) => {
+    setAccepting(trip.key);
+    try {
+      await acceptTrip(trip);
+      message.success("Trip created");
+      onAccepted();
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { message?: string } } };
+      message.error(e?.response?.data?.message ?? "Failed to create trip");
+    } finally {
+      setAccepting(null);
+    }
+  };
+
+  const handleAcceptAll = async () => {
+    setAccepting("all");
+    let created = 0;
+    try {
+      for (const trip of trips) {
+        if (await acceptTrip(trip)) created++;
+      }
+      message.success(`${created} trip${created === 1 ? "" : "s"} created`);
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { message?: string } } };
+      message.error(e?.response?.data?.message ?? "Failed to create trips");
+    } finally {
+      setAccepting(null);
+      onAccepted();
+    }
+  };
+
+  const usedRiders = new Set(trips.map((t) => t.riderId));
+  const duplicateRider = trips.some((t, i) => t.riderId && trips.findIndex((o) => o.riderId === t.riderId) !== i);
+
+  return (
+    <Modal
+      title={<Space><ThunderboltOutlined />Auto-plan Trips</Space>}
+      open={open}
+      onCancel={onClose}
+      width={860}
+      destroyOnClose
+      footer={[
+        <Button key="close" onClick={onClose}>Close</Button>,
+        <Button
+          key="all"
+          type="primary"
+          icon={<CheckOutlined />}
+          disabled={trips.length === 0 || duplicateRider || trips.some((t) => !t.riderId)}
+          loading={accepting === "all"}
+          onClick={handleAcceptAll}
+        >
+          Accept All ({trips.length})
+        </Button>,
+      ]}
+    >
+      <Space wrap style={{ marginBottom: 16 }}>
+        <span>Max stops</span>
+        <InputNumber min={1} max={30} value={maxStops} onChange={(v) => setMaxStops(v ?? 8)} />
+        <span>Max route</span>
+        <InputNumber min={1} max={100} value={maxDistanceKm} addonAfter="km" onChange={(v) => setMaxDistanceKm(v ?? 15)} />
+        <Button onClick={runPlan} loading={planning}>Re-plan</Button>
+      </Space>
+
+      {duplicateRider && (
+        <Alert type="warning" showIcon style={{ marginBottom: 12 }} message="Each rider can only take one trip" />
+      )}
+
+      <Spin spinning={planning}>
+        {trips.length === 0 && !planning && (
+          <Empty description="No trips to propose — no ready orders with a location, or no free riders on shift" />
+        )}
+        {trips.map((trip, i) => (
+          <Card
+            key={trip.key}
+            size="small"
+            style={{ marginBottom: 12 }}
+            title={
+              <Space>
+                <CarOutlined />
+                Trip {i + 1}
+                <Tag>{trip.orders.length} stop{trip.orders.length === 1 ? "" : "s"}</Tag>
+                {trip.modified ? (
+                  <Tag color="orange">Stop order recalculated on accept</Tag>
+                ) : (
+                  <Tag color="blue">{trip.distanceKm} km</Tag>
+                )}
+              </Space>
+            }
+            extra={
+              <Space>
+                <Select
+                  size="small"
+                  placeholder="Rider"
+                  value={trip.riderId}
+                  style={{ width: 180 }}
+                  onChange={(riderId: string) =>
+                    setTrips((prev) => prev.map((t) => (t.key === trip.key ? { ...t, riderId } : t)))
+                  }
+                  options={riders.filter((r) => r.online).map((r) => ({
+                    label: r.name,
+                    value: r.id,
+                    disabled: usedRiders.has(r.id) && r.id !== trip.riderId,
+                  }))}
+                />
+                <Button
+                  size="small"
+                  type="primary"
+                  disabled={!trip.riderId || accepting === "all"}
+                  loading={accepting === trip.key}
+                  onClick={() => handleAccept(trip)}
+                >
+                  Accept
+                </Button>
+              </Space>
+            }
+          >
+            {trip.orders.map((order, index) => (
+              <div
+                key={order.id}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 12,
+                  padding: "6px 0",
+                  borderTop: index > 0 ? `1px solid ${token.colorBorderSecondary}` : undefined,
+                }}
+              >
+                <Tag color="default" style={{ minWidth: 28, textAlign: "center" }}>{index + 1}</Tag>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ fontWeight: 500 }}>
+                    #{order.id.slice(0, 8)} · {order.user.name}
+                    {order.slotStartTime && (
+                      <span style={{ color: token.colorTextSecondary, fontWeight: 400, marginLeft: 8, fontSize: 12 }}>
+                        {order.slotStartTime}–{order.slotEndTime}
+                      </span>
+                    )}
+                  </div>
+                  <div style={{ color: token.colorTextSecondary, fontSize: 12, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                    {order.deliveryAddress ?? order.deliveryPincode ?? "—"}
+                  </div>
+                </div>
+                {!trip.modified && order.legKm != null && (
+                  <span style={{ color: token.colorTextSecondary, fontSize: 12 }}>+{order.legKm} km</span>
+                )}
+                <Select
+                  size="small"
+                  placeholder="Move"
+                  value={null}
+                  style={{ width: 120 }}
+                  onChange={(to: string) => moveOrder(trip.key, order.id, to)}
+                  options={[
+                    ...trips.filter((t) => t.key !== trip.key).map((t) => ({
+                      label: `To trip ${trips.indexOf(t) + 1}`,
+                      value: t.key,
+                    })),
+                    { label: "Remove", value: "remove" },
+                  ]}
+                />
+              </div>
+            ))}
+          </Card>
+        ))}
+
+        {unassigned.length > 0 && (
+          <Card size="small" title={`Not planned (${unassigned.length})`} style={{ marginTop: 4 }}>
+            {unassigned.map(({ order, reason }) => (
+              <div key={order.id} style={{ display: "flex", justifyContent: "space-between", padding: "4px 0", fontSize: 13 }}>
+                <span>#{order.id.slice(0, 8)} · {order.user.name}</span>
+                <span style={{ color: token.colorTextSecondary }}>{reason}</span>
+              </div>
+            ))}
+          </Card>
+        )}
+      </Spin>
+    </Modal>
+  );
+};
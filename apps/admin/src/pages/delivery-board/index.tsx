@@ -13,6 +13,7 @@ import {
   Col,
   Spin,
   message,
+  notification,
   Badge,
   Popconfirm,
   Modal,
@@ -36,14 +37,18 @@ import {
   WarningOutlined,
   PlayCircleOutlined,
   StopOutlined,
+  HistoryOutlined,
 } from "@ant-design/icons";
 import dayjs from "dayjs";
 
 import { axiosInstance } from "../../providers/data-provider";
-import { useOrderWebSocket } from "../../hooks/useOrderWebSocket";
+import { useOrderWebSocket, type PickupArrival } from "../../hooks/useOrderWebSocket";
+import { PickupCodeModal } from "../../components/PickupCodeModal";
 import { ORDER_STATUS_CONFIG, TRIP_STATUS_CONFIG } from "../../constants/tag-colors";
 import { DELIVERY_TRANSITIONS, PICKUP_TRANSITIONS, NEXT_ACTION } from "../../constants/order-transitions";
 import { BRAND } from "../../theme";
+import { AutoPlanModal } from "./auto-plan-modal";
+import { TripReplayModal } from "./trip-replay-modal";
 
 /* ── Types ─────────────────────────────────────────────── */
 
@@ -70,6 +75,7 @@ interface BoardOrder {
     status: string;
     rider: { id: string; name: string; phone: string | null };
   } | null;
+  pickup?: { arrivedAt: string | null; parkingNote: string | null; verifiedAt: string | null } | null;
 }
 
 interface SlotGroup {
@@ -130,6 +136,11 @@ interface Rider {
   name: string;
   phone: string | null;
   email: string;
+  /** On shift — only online riders can take trips */
+  online: boolean;
+  cashInHand: number;
+  /** Holding the store's cash limit or more — can't take COD orders */
+  overCashLimit: boolean;
 }
 
 /* ── Helpers ───────────────────────────────────────────── */
@@ -171,6 +182,7 @@ export const DeliveryBoard = () => {
   const [bulkUpdating, setBulkUpdating] = useState(false);
   const [updatingOrderId, setUpdatingOrderId] = useState<string | null>(null);
   const [activeSlot, setActiveSlot] = useState<string | null>(null);
+  const [handoverOrderId, setHandoverOrderId] = useState<string | null>(null);
 
   // Trip state
   const [trips, setTrips] = useState<Trip[]>([]);
@@ -178,7 +190,9 @@ export const DeliveryBoard = () => {
   const [createTripModalOpen, setCreateTripModalOpen] = useState(false);
   const [selectedRider, setSelectedRider] = useState<string | null>(null);
   const [creatingTrip, setCreatingTrip] = useState(false);
+  const [autoPlanOpen, setAutoPlanOpen] = useState(false);
   const [tripActionLoading, setTripActionLoading] = useState<string | null>(null);
+  const [replayTripId, setReplayTripId] = useState<string | null>(null);
 
   // Fetch stores on mount
   useEffect(() => {
@@ -228,6 +242,14 @@ export const DeliveryBoard = () => {
     onOrdersChanged: useCallback(() => {
       fetchBoard();
     }, [fetchBoard]),
+    onPickupArrived: useCallback((arrival: PickupArrival) => {
+      if (arrival.storeId !== storeId) return;
+      notification.info({
+        message: `${arrival.customerName} is here`,
+        description: `Pickup #${arrival.orderId.slice(0, 8)}${arrival.parkingNote ? ` · ${arrival.parkingNote}` : ""}`,
+        duration: 0,
+      });
+    }, [storeId]),
   });
 
   // Clear selection on tab/date/store change
@@ -241,6 +263,11 @@ export const DeliveryBoard = () => {
   const handleQuickAction = async (order: BoardOrder) => {
     const nextStatus = getNextStatus(order);
     if (!nextStatus) return;
+    // Pickup handover is confirmed with the customer's code
+    if (order.fulfillmentType === "PICKUP" && nextStatus === "DELIVERED") {
+      setHandoverOrderId(order.id);
+      return;
+    }
     setUpdatingOrderId(order.id);
     try {
       await axiosInstance.patch(`/orders/${order.id}/status`, { status: nextStatus });
@@ -543,7 +570,31 @@ export const DeliveryBoard = () => {
   ];
 
   const expressColumns = baseColumns(true);
-  const pickupColumns = baseColumns(false);
+  const pickupColumns = baseColumns(false).flatMap((c) =>
+    c.key === "action"
+      ? [
+          {
+            title: "Arrival",
+            key: "arrival",
+            width: 150,
+            render: (_: unknown, rec: BoardOrder) => {
+              if (!rec.pickup?.arrivedAt || rec.status === "DELIVERED" || rec.status === "CANCELLED") {
+                return <span style={{ color: token.colorTextQuaternary }}>{"\u2014"}</span>;
+              }
+              return (
+                <div>
+                  <Tag color="green" icon={<UserOutlined />}>Here {timeAgo(rec.pickup.arrivedAt)}</Tag>
+                  {rec.pickup.parkingNote && (
+                    <div style={{ fontSize: 11, color: token.colorTextSecondary, marginTop: 2 }}>{rec.pickup.parkingNote}</div>
+                  )}
+                </div>
+              );
+            },
+          },
+          c,
+        ]
+      : [c],
+  );
 
   // Compact columns for pipeline table (no action column)
   const pipelineColumns = baseColumns(true).filter((c) => c.key !== "action");
@@ -767,10 +818,15 @@ export const DeliveryBoard = () => {
             </>
           )}
           {isInProgress && (
-            <span style={{ fontSize: 12, color: token.colorTextSecondary }}>
-              {delivered}/{total} delivered
-              {cancelled > 0 ? ` \u2022 ${cancelled} cancelled` : ""}
-            </span>
+            <>
+              <span style={{ fontSize: 12, color: token.colorTextSecondary, marginRight: "auto", alignSelf: "center" }}>
+                {delivered}/{total} delivered
+                {cancelled > 0 ? ` \u2022 ${cancelled} cancelled` : ""}
+              </span>
+              <Button size="small" icon={<HistoryOutlined />} onClick={() => setReplayTripId(trip.id)}>
+                Track
+              </Button>
+            </>
           )}
         </div>
       </Card>
@@ -834,15 +890,22 @@ export const DeliveryBoard = () => {
             </span>
             <Badge count={expressUnassigned.length} style={{ backgroundColor: "#f59e0b" }} size="small" />
           </div>
-          {canCreateTrip && riders.length > 0 && (
-            <Button
-              type="primary"
-              size="small"
-              icon={<CarOutlined />}
-              onClick={() => setCreateTripModalOpen(true)}
-            >
-              Create Trip ({selectedRowKeys.length})
-            </Button>
+          {riders.length > 0 && expressUnassigned.length > 0 && (
+            <Space size={8}>
+              <Button size="small" icon={<ThunderboltOutlined />} onClick={() => setAutoPlanOpen(true)}>
+                Auto-plan{selectedRowKeys.length > 0 ? ` (${selectedRowKeys.length})` : ""}
+              </Button>
+              {canCreateTrip && (
+                <Button
+                  type="primary"
+                  size="small"
+                  icon={<CarOutlined />}
+                  onClick={() => setCreateTripModalOpen(true)}
+                >
+                  Create Trip ({selectedRowKeys.length})
+                </Button>
+              )}
+            </Space>
           )}
         </div>
 
@@ -968,6 +1031,11 @@ export const DeliveryBoard = () => {
                             <span style={{ fontSize: 12, color: token.colorTextQuaternary, marginLeft: "auto" }}>
                               {timeAgo(trip.createdAt)}
                             </span>
+                            {trip.startedAt && (
+                              <Button size="small" type="link" icon={<HistoryOutlined />} onClick={() => setReplayTripId(trip.id)}>
+                                Replay
+                              </Button>
+                            )}
                           </div>
                           <div style={{ display: "flex", gap: 6, marginTop: 6, marginLeft: 28, flexWrap: "wrap" }}>
                             {trip.orders.map((order) => {
@@ -1314,15 +1382,22 @@ export const DeliveryBoard = () => {
                             </span>
                             <Badge count={scheduledUnassigned.length} style={{ backgroundColor: "#6366f1" }} size="small" />
                           </div>
-                          {canCreateTrip && riders.length > 0 && (
-                            <Button
-                              type="primary"
-                              size="small"
-                              icon={<CarOutlined />}
-                              onClick={() => setCreateTripModalOpen(true)}
-                            >
-                              Create Trip ({selectedRowKeys.length})
-                            </Button>
+                          {riders.length > 0 && (
+                            <Space size={8}>
+                              <Button size="small" icon={<ThunderboltOutlined />} onClick={() => setAutoPlanOpen(true)}>
+                                Auto-plan{selectedRowKeys.length > 0 ? ` (${selectedRowKeys.length})` : ""}
+                              </Button>
+                              {canCreateTrip && (
+                                <Button
+                                  type="primary"
+                                  size="small"
+                                  icon={<CarOutlined />}
+                                  onClick={() => setCreateTripModalOpen(true)}
+                                >
+                                  Create Trip ({selectedRowKeys.length})
+                                </Button>
+                              )}
+                            </Space>
                           )}
                         </div>
                         <Table
@@ -1465,17 +1540,51 @@ export const DeliveryBoard = () => {
               <span>
                 {r.name}
                 {r.phone && <span style={{ color: token.colorTextSecondary, marginLeft: 8 }}>{r.phone}</span>}
+                {!r.online && <Tag style={{ marginLeft: 8 }}>Offline</Tag>}
+                {r.overCashLimit && (
+                  <Tag color="red" style={{ marginLeft: 8 }}>Cash limit · {"\u20B9"}{r.cashInHand.toLocaleString("en-IN")}</Tag>
+                )}
               </span>
             ),
             value: r.id,
+            disabled: !r.online,
           }))}
         />
         {riders.length === 0 && (
           <div style={{ marginTop: 8, color: token.colorTextSecondary, fontSize: 12 }}>
-            No staff assigned to this store. Add staff via the Stores page first.
+            No riders assigned to this store. Add riders via the Riders page first.
+          </div>
+        )}
+        {riders.length > 0 && !riders.some((r) => r.online) && (
+          <div style={{ marginTop: 8, color: token.colorTextSecondary, fontSize: 12 }}>
+            No rider is online. Riders clock in from the rider app to take trips.
           </div>
         )}
       </Modal>
+
+      {storeId && (
+        <AutoPlanModal
+          open={autoPlanOpen}
+          storeId={storeId}
+          riders={riders}
+          orderIds={selectedRowKeys}
+          onClose={() => setAutoPlanOpen(false)}
+          onAccepted={() => {
+            setSelectedRowKeys([]);
+            fetchBoard();
+          }}
+        />
+      )}
+
+      <TripReplayModal tripId={replayTripId} onClose={() => setReplayTripId(null)} />
+      <PickupCodeModal
+        orderId={handoverOrderId}
+        onClose={() => setHandoverOrderId(null)}
+        onHandedOver={() => {
+          setHandoverOrderId(null);
+          fetchBoard();
+        }}
+      />
     </div>
   );
 };
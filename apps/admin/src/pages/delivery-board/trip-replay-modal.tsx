@@ -0,0 +1,362 @@
+import { useEffect, useMemo, useState } from "react";
+import { Modal, Button, Slider, Select, Space, Statistic, Row, Col, Table, Tag, Empty, Spin, message, theme as antTheme } from "antd";
+import { PlayCircleOutlined, PauseCircleOutlined, HistoryOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+
+import { axiosInstance } from "../../providers/data-provider";
+import { BRAND } from "../../theme";
+
+interface TrackPoint {
+  lat: number;
+  lng: number;
+  speed: number | null;
+  at: string;
+}
+
+interface IdlePeriod {
+  startedAt: string;
+  endedAt: string;
+  minutes: number;
+  lat: number;
+  lng: number;
+  location: "STORE" | "STOP" | "EN_ROUTE";
+  orderId: string | null;
+}
+
+interface TrackStop {
+  id: string;
+  status: string;
+  deliverySequence: number | null;
+  deliveryAddress: string | null;
+  deliveryLat: number | null;
+  deliveryLng: number | null;
+  scheduledDate: string | null;
+  slotStartTime: string | null;
+  slotEndTime: string | null;
+  user: { id: string; name: string };
+  arrivedAt: string | null;
+  deliveredAt: string | null;
+  dwellMinutes: number | null;
+}
+
+interface TripTrack {
+  trip: {
+    id: string;
+    status: string;
+    startedAt: string | null;
+    completedAt: string | null;
+    rider: { id: string; name: string; phone: string | null };
+    store: { id: string; name: string; latitude: number | null; longitude: number | null };
+  };
+  polyline: TrackPoint[];
+  distanceKm: number;
+  durationMinutes: number | null;
+  idleMinutes: number;
+  idlePeriods: IdlePeriod[];
+  stops: TrackStop[];
+}
+
+interface TripReplayModalProps {
+  tripId: string | null;
+  onClose: () => void;
+}
+
+const MAP_WIDTH = 760;
+const MAP_HEIGHT = 360;
+const MAP_PADDING = 24;
+const TICK_MS = 100;
+
+const IDLE_LABELS: Record<IdlePeriod["location"], string> = {
+  STORE: "At store",
+  STOP: "At drop-off",
+  EN_ROUTE: "En route",
+};
+
+/** Deadline for a scheduled stop, from its slot end on the scheduled day */
+function slotDeadline(stop: TrackStop): dayjs.Dayjs | null {
+  if (!stop.scheduledDate || !stop.slotEndTime) return null;
+  return dayjs(`${dayjs(stop.scheduledDate).format("YYYY-MM-DD")}T${stop.slotEndTime}`);
+}
+
+/**
+ * Replays a trip's recorded GPS track from GET /delivery-trips/:id/track — the
+ * path, stops and idle spots drawn to scale, with a playback cursor, plus
+ * per-stop arrival and delivery times for investigating late deliveries.
+ */
+export const TripReplayModal = ({ tripId, onClose }: TripReplayModalProps) => {
+  const { token } = antTheme.useToken();
+  const [track, setTrack] = useState<TripTrack | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [cursor, setCursor] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(60);
+
+  useEffect(() => {
+    if (!tripId) return;
+    setLoading(true);
+    setTrack(null);
+    setPlaying(false);
+    axiosInstance
+      .get(`/delivery-trips/${tripId}/track`)
+      .then((res) => {
+        const data = res.data.data as TripTrack;
+        setTrack(data);
+        setCursor(data.polyline.length > 0 ? new Date(data.polyline[0].at).getTime() : 0);
+      })
+      .catch((err: unknown) => {
+        const e = err as { response?: { data?: { message?: string } } };
+        message.error(e?.response?.data?.message ?? "Failed to load trip track");
+      })
+      .finally(() => setLoading(false));
+  }, [tripId]);
+
+  const points = track?.polyline ?? [];
+  const startMs = points.length > 0 ? new Date(points[0].at).getTime() : 0;
+  const endMs = points.length > 0 ? new Date(points[points.length - 1].at).getTime() : 0;
+
+  // Advance the cursor in trip time: `speed` trip-seconds per real second
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setInterval(() => setCursor((c) => Math.min(c + speed * TICK_MS, endMs)), TICK_MS);
+    return () => clearInterval(timer);
+  }, [playing, speed, endMs]);
+
+  useEffect(() => {
+    if (playing && cursor >= endMs) setPlaying(false);
+  }, [playing, cursor, endMs]);
+
+  // Equirectangular projection fitted to everything on the trip
+  const project = useMemo(() => {
+    const coords: { lat: number; lng: number }[] = [...points];
+    if (track?.trip.store.latitude != null && track.trip.store.longitude != null) {
+      coords.push({ lat: track.trip.store.latitude, lng: track.trip.store.longitude });
+    }
+    for (const s of track?.stops ?? []) {
+      if (s.deliveryLat != null && s.deliveryLng != null) coords.push({ lat: s.deliveryLat, lng: s.deliveryLng });
+    }
+    if (coords.length === 0) return null;
+
+    const lats = coords.map((c) => c.lat);
+    const lngs = coords.map((c) => c.lng);
+    const minLat = Math.min(...lats);
+    const maxLat = Math.max(...lats);
+    const minLng = Math.min(...lngs);
+    const maxLng = Math.max(...lngs);
+    const lngScale = Math.cos(((minLat + maxLat) / 2) * (Math.PI / 180));
+    const spanX = Math.max((maxLng - minLng) * lngScale, 1e-4);
+    const spanY = Math.max(maxLat - minLat, 1e-4);
+    const scale = Math.min((MAP_WIDTH - 2 * MAP_PADDING) / spanX, (MAP_HEIGHT - 2 * MAP_PADDING) / spanY);
+    const offsetX = (MAP_WIDTH - spanX * scale) / 2;
+    const offsetY = (MAP_HEIGHT - spanY * scale) / 2;
+
+    return (lat: number, lng: number) => ({
+      x: offsetX + (lng - minLng) * lngScale * scale,
+      y: MAP_HEIGHT - (offsetY + (lat - minLat) * scale),
+    });
+  }, [track]);
+
+  const cursorIndex = useMemo(() => {
+    let idx = 0;
+    for (let i = 0; i < points.length; i++) {
+      if (new Date(points[i].at).getTime() <= cursor) idx = i;
+      else break;
+    }
+    return idx;
+  }, [points, cursor]);
+
+  const toPath = (pts: TrackPoint[]) =>
+    project
+      ? pts.map((p, i) => {
+          const { x, y } = project(p.lat, p.lng);
+          return `${i === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`;
+        }).join(" ")
+      : "";
+
+  const rider = points[cursorIndex];
+  const riderXY = rider && project ? project(rider.lat, rider.lng) : null;
+
+  return (
+    <Modal
+      title={
+        <Space>
+          <HistoryOutlined />
+          Trip Replay{track ? ` — ${track.trip.rider.name}` : ""}
+        </Space>
+      }
+      open={!!tripId}
+      onCancel={onClose}
+      footer={null}
+      width={820}
+      destroyOnClose
+    >
+      <Spin spinning={loading}>
+        {track && (
+          <>
+            <Row gutter={16} style={{ marginBottom: 12 }}>
+              <Col span={6}><Statistic title="Distance driven" value={track.distanceKm} suffix="km" /></Col>
+              <Col span={6}><Statistic title="Duration" value={track.durationMinutes ?? "—"} suffix={track.durationMinutes != null ? "min" : undefined} /></Col>
+              <Col span={6}><Statistic title="Idle" value={track.idleMinutes} suffix="min" /></Col>
+              <Col span={6}><Statistic title="GPS points" value={points.length} /></Col>
+            </Row>
+
+            {points.length === 0 ? (
+              <Empty description="No GPS points were recorded for this trip" style={{ margin: "24px 0" }} />
+            ) : (
+              <>
+                <svg
+                  width="100%"
+                  viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+                  style={{ background: token.colorFillQuaternary, borderRadius: 8, display: "block" }}
+                >
+                  <path d={toPath(points)} fill="none" stroke={token.colorBorder} strokeWidth={3} strokeLinejoin="round" />
+                  <path
+                    d={toPath(points.slice(0, cursorIndex + 1))}
+                    fill="none"
+                    stroke={BRAND.primary}
+                    strokeWidth={3}
+                    strokeLinejoin="round"
+                  />
+                  {project && track.idlePeriods.map((p) => {
+                    const { x, y } = project(p.lat, p.lng);
+                    return (
+                      <circle key={p.startedAt} cx={x} cy={y} r={8 + Math.min(p.minutes, 20) / 2} fill="#f59e0b" fillOpacity={0.25} stroke="#f59e0b">
+                        <title>{`${IDLE_LABELS[p.location]} — idle ${p.minutes} min from ${dayjs(p.startedAt).format("h:mm A")}`}</title>
+                      </circle>
+                    );
+                  })}
+                  {project && track.trip.store.latitude != null && track.trip.store.longitude != null && (() => {
+                    const { x, y } = project(track.trip.store.latitude, track.trip.store.longitude);
+                    return (
+                      <rect x={x - 7} y={y - 7} width={14} height={14} rx={3} fill={token.colorText}>
+                        <title>{track.trip.store.name}</title>
+                      </rect>
+                    );
+                  })()}
+                  {project && track.stops.map((s, i) => {
+                    if (s.deliveryLat == null || s.deliveryLng == null) return null;
+                    const { x, y } = project(s.deliveryLat, s.deliveryLng);
+                    const done = s.deliveredAt != null && new Date(s.deliveredAt).getTime() <= cursor;
+                    return (
+                      <g key={s.id}>
+                        <circle cx={x} cy={y} r={10} fill={done ? "#16a34a" : token.colorBgContainer} stroke={done ? "#16a34a" : token.colorTextSecondary} strokeWidth={2} />
+                        <text x={x} y={y + 4} textAnchor="middle" fontSize={11} fontWeight={600} fill={done ? "#fff" : token.colorText}>
+                          {i + 1}
+                        </text>
+                        <title>{`${s.user.name}${s.deliveryAddress ? ` — ${s.deliveryAddress}` : ""}`}</title>
+                      </g>
+                    );
+                  })}
+                  {riderXY && (
+                    <circle cx={riderXY.x} cy={riderXY.y} r={7} fill={BRAND.primary} stroke="#fff" strokeWidth={2} />
+                  )}
+                </svg>
+
+                <div style={{ display: "flex", alignItems: "center", gap: 12, marginTop: 8 }}>
+                  <Button
+                    type="text"
+                    icon={playing ? <PauseCircleOutlined /> : <PlayCircleOutlined />}
+                    onClick={() => {
+                      if (!playing && cursor >= endMs) setCursor(startMs);
+                      setPlaying(!playing);
+                    }}
+                  />
+                  <Slider
+                    style={{ flex: 1 }}
+                    min={startMs}
+                    max={endMs}
+                    value={cursor}
+                    step={1000}
+                    tooltip={{ formatter: (v) => (v ? dayjs(v).format("h:mm:ss A") : "") }}
+                    onChange={(v: number) => {
+                      setPlaying(false);
+                      setCursor(v);
+                    }}
+                  />
+                  <span style={{ fontVariantNumeric: "tabular-nums", minWidth: 80, color: token.colorTextSecondary }}>
+                    {dayjs(cursor).format("h:mm A")}
+                  </span>
+                  <Select
+                    size="small"
+                    value={speed}
+                    onChange={setSpeed}
+                    style={{ width: 80 }}
+                    options={[30, 60, 120, 300].map((s) => ({ label: `${s}×`, value: s }))}
+                  />
+                </div>
+              </>
+            )}
+
+            <Table<TrackStop>
+              style={{ marginTop: 16 }}
+              size="small"
+              rowKey="id"
+              pagination={false}
+              dataSource={track.stops}
+              columns={[
+                { title: "#", key: "seq", width: 40, render: (_, __, i) => i + 1 },
+                { title: "Customer", key: "customer", render: (_, s) => s.user.name },
+                {
+                  title: "Slot",
+                  key: "slot",
+                  render: (_, s) => (s.slotStartTime ? `${s.slotStartTime}–${s.slotEndTime}` : "—"),
+                },
+                {
+                  title: "Arrived",
+                  dataIndex: "arrivedAt",
+                  render: (v: string | null) => (v ? dayjs(v).format("h:mm A") : "—"),
+                },
+                {
+                  title: "Delivered",
+                  key: "deliveredAt",
+                  render: (_, s) => {
+                    if (!s.deliveredAt) return <Tag>{s.status.replace(/_/g, " ")}</Tag>;
+                    const deadline = slotDeadline(s);
+                    const late = deadline && dayjs(s.deliveredAt).isAfter(deadline);
+                    return (
+                      <Space size={4}>
+                        {dayjs(s.deliveredAt).format("h:mm A")}
+                        {late && <Tag color="red">Late {dayjs(s.deliveredAt).diff(deadline, "minute")}m</Tag>}
+                      </Space>
+                    );
+                  },
+                },
+                {
+                  title: "At door",
+                  dataIndex: "dwellMinutes",
+                  render: (v: number | null) => (v != null ? `${v} min` : "—"),
+                },
+              ]}
+            />
+
+            {track.idlePeriods.length > 0 && (
+              <div style={{ marginTop: 12 }}>
+                <div style={{ fontWeight: 600, marginBottom: 6 }}>Idle periods</div>
+                {track.idlePeriods.map((p) => {
+                  const stopIndex = p.orderId ? track.stops.findIndex((s) => s.id === p.orderId) : -1;
+                  return (
+                    <div
+                      key={p.startedAt}
+                      style={{ display: "flex", gap: 12, fontSize: 13, padding: "2px 0", cursor: "pointer" }}
+                      onClick={() => {
+                        setPlaying(false);
+                        setCursor(new Date(p.startedAt).getTime());
+                      }}
+                    >
+                      <span style={{ fontVariantNumeric: "tabular-nums", width: 150 }}>
+                        {dayjs(p.startedAt).format("h:mm A")} – {dayjs(p.endedAt).format("h:mm A")}
+                      </span>
+                      <span style={{ width: 60 }}>{p.minutes} min</span>
+                      <Tag color={p.location === "EN_ROUTE" ? "orange" : "default"}>
+                        {IDLE_LABELS[p.location]}{stopIndex >= 0 ? ` ${stopIndex + 1}` : ""}
+                      </Tag>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </Spin>
+    </Modal>
+  );
+};
@@ -21,6 +21,8 @@ import {
 import { PlusOutlined } from "@ant-design/icons";
 import dayjs from "dayjs";
 
+import { SlotOverrides } from "./slot-overrides";
+
 const { Text } = Typography;
 
 const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
@@ -237,6 +239,8 @@ export const DeliverySlotList = () => {
             />
           </Table>
         )}
+
+        {storeId && <SlotOverrides storeId={storeId} slots={slots.filter((s) => s.isActive)} />}
       </Space>
 
       <Modal
@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useState } from "react";
+import { Table, Button, Modal, Form, DatePicker, Select, InputNumber, Input, Space, Typography, Tag, Popconfirm, message } from "antd";
+import { CalendarOutlined, PlusOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+
+import { axiosInstance } from "../../providers/data-provider";
+
+const { Text } = Typography;
+
+interface SlotSummary {
+  id: string;
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  maxOrders: number;
+}
+
+interface SlotOverride {
+  id: string;
+  slotId: string;
+  date: string;
+  capacity: number;
+  note: string | null;
+  booked: number;
+  waiting: number;
+  slot: SlotSummary;
+}
+
+interface SlotOverridesProps {
+  storeId: string;
+  slots: SlotSummary[];
+}
+
+/**
+ * Per-date capacity for delivery slots — extra room for festivals, or 0 to
+ * close a slot on a holiday. Raising capacity notifies the slot's waitlist.
+ */
+export const SlotOverrides = ({ storeId, slots }: SlotOverridesProps) => {
+  const [overrides, setOverrides] = useState<SlotOverride[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form] = Form.useForm();
+  const pickedDate: dayjs.Dayjs | undefined = Form.useWatch("date", form);
+
+  const load = useCallback(() => {
+    setLoading(true);
+    axiosInstance
+      .get("/delivery-slots/overrides", { params: { storeId } })
+      .then((res) => setOverrides(res.data.data))
+      .catch((err: unknown) => {
+        const e = err as { response?: { data?: { message?: string } } };
+        message.error(e?.response?.data?.message ?? "Failed to load date overrides");
+      })
+      .finally(() => setLoading(false));
+  }, [storeId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const slotsForDay = pickedDate ? slots.filter((s) => s.dayOfWeek === pickedDate.day()) : [];
+
+  const save = async (slotId: string, date: string, capacity: number | null, note?: string) => {
+    setSaving(true);
+    try {
+      await axiosInstance.put(`/delivery-slots/${slotId}/overrides/${date}`, { capacity, note: note || null });
+      message.success(capacity == null ? "Override removed" : "Override saved");
+      setModalOpen(false);
+      load();
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { message?: string } } };
+      message.error(e?.response?.data?.message ?? "Failed to save override");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const values = await form.validateFields();
+    await save(values.slotId, values.date.format("YYYY-MM-DD"), values.capacity, values.note);
+  };
+
+  return (
+    <div>
+      <Space style={{ width: "100%", justifyContent: "space-between", marginBottom: 8 }}>
+        <Text strong><CalendarOutlined /> Date Overrides</Text>
+        <Button
+          size="small"
+          icon={<PlusOutlined />}
+          disabled={slots.length === 0}
+          onClick={() => { form.resetFields(); setModalOpen(true); }}
+        >
+          Add Date Override
+        </Button>
+      </Space>
+
+      <Table dataSource={overrides} rowKey="id" size="small" pagination={false} loading={loading}
+        locale={{ emptyText: "No upcoming overrides — every date uses the slot's max orders" }}
+      >
+        <Table.Column dataIndex="date" title="Date" render={(v: string) => dayjs(v).format("ddd, D MMM YYYY")} />
+        <Table.Column title="Slot" render={(_: unknown, r: SlotOverride) => `${r.slot.startTime} – ${r.slot.endTime}`} />
+        <Table.Column title="Capacity" render={(_: unknown, r: SlotOverride) =>
+          r.capacity === 0
+            ? <Tag color="red">Closed</Tag>
+            : <span>{r.capacity} <Text type="secondary">(usually {r.slot.maxOrders})</Text></span>
+        } />
+        <Table.Column dataIndex="booked" title="Booked" render={(v: number, r: SlotOverride) =>
+          v > r.capacity ? <Text type="warning">{v}</Text> : v
+        } />
+        <Table.Column dataIndex="waiting" title="Waitlist" render={(v: number) => (v > 0 ? <Tag color="blue">{v}</Tag> : "—")} />
+        <Table.Column dataIndex="note" title="Note" render={(v: string | null) => v ?? "—"} />
+        <Table.Column title="" render={(_: unknown, r: SlotOverride) => (
+          <Popconfirm title="Go back to the slot's usual capacity?" onConfirm={() => save(r.slotId, r.date, null)}>
+            <Button size="small" type="link" danger>Remove</Button>
+          </Popconfirm>
+        )} />
+      </Table>
+
+      <Modal
+        title="Date Override"
+        open={modalOpen}
+        onCancel={() => setModalOpen(false)}
+        onOk={handleSubmit}
+        confirmLoading={saving}
+      >
+        <Form form={form} layout="vertical">
+          <Form.Item label="Date" name="date" rules={[{ required: true, message: "Required" }]}>
+            <DatePicker
+              style={{ width: "100%" }}
+              disabledDate={(d) => d.isBefore(dayjs(), "day")}
+              onChange={() => form.setFieldValue("slotId", undefined)}
+            />
+          </Form.Item>
+          <Form.Item label="Slot" name="slotId" rules={[{ required: true, message: "Required" }]}>
+            <Select
+              placeholder={pickedDate ? "Select a slot" : "Pick a date first"}
+              notFoundContent={pickedDate ? "No slots on this day of the week" : null}
+              options={slotsForDay.map((s) => ({ label: `${s.startTime} – ${s.endTime} (max ${s.maxOrders})`, value: s.id }))}
+            />
+          </Form.Item>
+          <Form.Item
+            label="Capacity"
+            name="capacity"
+            rules={[{ required: true, message: "Required" }]}
+            help="0 closes the slot for the date. Orders already booked keep their place."
+          >
+            <InputNumber min={0} style={{ width: "100%" }} />
+          </Form.Item>
+          <Form.Item label="Note" name="note">
+            <Input placeholder="e.g. Diwali" maxLength={200} />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+};
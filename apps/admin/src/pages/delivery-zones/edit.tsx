@@ -2,11 +2,14 @@ import { Edit, useForm } from "@refinedev/antd";
 import { Form, Input, InputNumber, Select, Switch } from "antd";
 import { useList } from "@refinedev/core";
 
+import { ZonePolygonEditor } from "./zone-polygon-editor";
+
 export const DeliveryZoneEdit = () => {
   const { formProps, saveButtonProps, queryResult } = useForm({ resource: "delivery-zones", action: "edit" });
   const record = queryResult?.data?.data;
   const { data: storesData } = useList({ resource: "stores", pagination: { pageSize: 100 } });
   const stores = storesData?.data ?? [];
+  const storeIds: string[] = Form.useWatch("storeIds", formProps.form) ?? [];
 
   return (
     <Edit saveButtonProps={saveButtonProps}>
@@ -19,7 +22,7 @@ export const DeliveryZoneEdit = () => {
         <Form.Item label="Zone Name" name="name" rules={[{ required: true }]}>
           <Input />
         </Form.Item>
-        <Form.Item label="Pincodes" name="pincodes" help="Enter pincodes as comma-separated values">
+        <Form.Item label="Pincodes" name="pincodes" help="Enter pincodes as comma-separated values. Ignored for addresses with a location once the store has polygon zones.">
           <Select mode="tags" tokenSeparators={[","]} placeholder="Enter pincodes" />
         </Form.Item>
         <Form.Item label="Delivery Fee" name="deliveryFee" rules={[{ required: true }]}>
@@ -28,11 +31,17 @@ export const DeliveryZoneEdit = () => {
         <Form.Item label="Estimated Minutes" name="estimatedMinutes">
           <InputNumber min={1} style={{ width: "100%" }} />
         </Form.Item>
+        <Form.Item label="Priority" name="priority" help="Where polygons overlap, the zone with the highest priority sets the fee and ETA">
+          <InputNumber style={{ width: "100%" }} />
+        </Form.Item>
         <Form.Item label="Stores" name="storeIds">
           <Select mode="multiple" placeholder="Select stores"
             options={stores.map((s: any) => ({ label: s.name, value: s.id }))}
           />
         </Form.Item>
+        <Form.Item label="Delivery Area" name="polygon" help="Once a store has an active polygon zone, it only delivers inside its polygons — its radius and distance tiers no longer apply">
+          <ZonePolygonEditor storeIds={storeIds} zoneId={record?.id as string | undefined} />
+        </Form.Item>
         <Form.Item label="Active" name="isActive" valuePropName="checked">
           <Switch />
         </Form.Item>
@@ -13,6 +13,10 @@ export const DeliveryZoneList = () => {
         <Table.Column dataIndex="pincodes" title="Pincodes" render={(v: string[]) =>
           v?.length ? v.map((p) => <Tag key={p}>{p}</Tag>) : "—"
         } />
+        <Table.Column dataIndex="polygon" title="Area" render={(v: { coordinates: number[][][] } | null) =>
+          v ? <Tag color="blue">Polygon · {v.coordinates[0].length - 1} corners</Tag> : "—"
+        } />
+        <Table.Column dataIndex="priority" title="Priority" />
         <Table.Column dataIndex="deliveryFee" title="Fee" render={(v: number) => `₹${v}`} />
         <Table.Column dataIndex="estimatedMinutes" title="Est. Time" render={(v: number) => `${v} min`} />
         <Table.Column dataIndex="stores" title="Stores" render={(v: any[]) =>
@@ -0,0 +1,254 @@
+import { useRef, useState } from "react";
+import { Button, Empty, Input, Space, Typography, message, theme as antTheme } from "antd";
+import { UndoOutlined, DeleteOutlined, ImportOutlined } from "@ant-design/icons";
+import { useList } from "@refinedev/core";
+
+import { BRAND } from "../../theme";
+
+interface GeoJsonPolygon {
+  type: "Polygon";
+  coordinates: number[][][];
+}
+
+interface StoreRecord {
+  id: string;
+  name: string;
+  latitude: number | null;
+  longitude: number | null;
+  deliveryRadius: number;
+}
+
+interface ZoneRecord {
+  id: string;
+  name: string;
+  priority: number;
+  isActive: boolean;
+  polygon: GeoJsonPolygon | null;
+  stores: { store: { id: string } }[];
+}
+
+interface ZonePolygonEditorProps {
+  /** Form.Item injects value/onChange */
+  value?: GeoJsonPolygon | null;
+  onChange?: (value: GeoJsonPolygon | null) => void;
+  /** Stores the zone is assigned to — drawn as reference, with their other polygon zones */
+  storeIds: string[];
+  /** The zone being edited, left out of the reference zones */
+  zoneId?: string;
+}
+
+const MAP_WIDTH = 760;
+const MAP_HEIGHT = 420;
+const MAP_PADDING = 24;
+const KM_PER_DEG_LAT = 110.574;
+
+/** Outer ring without the closing position, as editable vertices */
+function outerVertices(polygon: GeoJsonPolygon | null | undefined): number[][] {
+  const ring = polygon?.coordinates[0] ?? [];
+  return ring.length > 1 ? ring.slice(0, -1) : [];
+}
+
+/** Equirectangular projection fitted to the given points, with its inverse for clicks */
+function fitProjection(coords: { lat: number; lng: number }[]) {
+  if (coords.length === 0) return null;
+
+  const lats = coords.map((c) => c.lat);
+  const lngs = coords.map((c) => c.lng);
+  const minLat = Math.min(...lats);
+  const maxLat = Math.max(...lats);
+  const minLng = Math.min(...lngs);
+  const maxLng = Math.max(...lngs);
+  const lngScale = Math.cos(((minLat + maxLat) / 2) * (Math.PI / 180));
+  const spanX = Math.max((maxLng - minLng) * lngScale, 1e-4);
+  const spanY = Math.max(maxLat - minLat, 1e-4);
+  const scale = Math.min((MAP_WIDTH - 2 * MAP_PADDING) / spanX, (MAP_HEIGHT - 2 * MAP_PADDING) / spanY);
+  const offsetX = (MAP_WIDTH - spanX * scale) / 2;
+  const offsetY = (MAP_HEIGHT - spanY * scale) / 2;
+
+  return {
+    /** Pixels per km, for radius circles */
+    kmScale: scale / KM_PER_DEG_LAT,
+    project: (lat: number, lng: number) => ({
+      x: offsetX + (lng - minLng) * lngScale * scale,
+      y: MAP_HEIGHT - (offsetY + (lat - minLat) * scale),
+    }),
+    unproject: (x: number, y: number) => ({
+      lat: minLat + (MAP_HEIGHT - y - offsetY) / scale,
+      lng: minLng + (x - offsetX) / (lngScale * scale),
+    }),
+  };
+}
+
+/**
+ * Draws a zone's GeoJSON polygon to scale around its stores. Clicking the map
+ * adds a corner; the store's delivery radius and its other zones are shown for
+ * reference. GeoJSON from other tools can be pasted in instead.
+ */
+export const ZonePolygonEditor = ({ value, onChange, storeIds, zoneId }: ZonePolygonEditorProps) => {
+  const { token } = antTheme.useToken();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [geoJsonText, setGeoJsonText] = useState<string | null>(null);
+
+  const { data: storesData } = useList<StoreRecord>({ resource: "stores", pagination: { pageSize: 100 } });
+  const { data: zonesData } = useList<ZoneRecord>({ resource: "delivery-zones", pagination: { pageSize: 100 } });
+
+  const stores = (storesData?.data ?? []).filter(
+    (s) => storeIds.includes(s.id) && s.latitude != null && s.longitude != null,
+  );
+  const otherZones = (zonesData?.data ?? []).filter(
+    (z) => z.id !== zoneId && z.isActive && z.polygon && z.stores?.some((s) => storeIds.includes(s.store.id)),
+  );
+
+  // Corners placed before there are enough for a polygon; the field stays empty until then
+  const [draft, setDraft] = useState<number[][]>([]);
+  const vertices = value ? outerVertices(value) : draft;
+  const holes = value?.coordinates.slice(1) ?? [];
+
+  const setVertices = (next: number[][]) => {
+    if (next.length >= 3) {
+      setDraft([]);
+      onChange?.({ type: "Polygon", coordinates: [[...next, next[0]], ...holes] });
+    } else {
+      setDraft(next);
+      if (value) onChange?.(null);
+    }
+  };
+
+  // Fitted to the stores' delivery circles and every polygon in view
+  const coords: { lat: number; lng: number }[] = [];
+  for (const s of stores) {
+    const dLat = s.deliveryRadius / KM_PER_DEG_LAT;
+    const dLng = dLat / Math.cos((s.latitude! * Math.PI) / 180);
+    coords.push({ lat: s.latitude! - dLat, lng: s.longitude! - dLng }, { lat: s.latitude! + dLat, lng: s.longitude! + dLng });
+  }
+  for (const ring of [...(value?.coordinates ?? []), ...otherZones.flatMap((z) => z.polygon!.coordinates)]) {
+    for (const [lng, lat] of ring) coords.push({ lat, lng });
+  }
+  const projection = fitProjection(coords);
+
+  const ringPath = (ring: number[][]) =>
+    projection
+      ? ring.map(([lng, lat], i) => {
+          const { x, y } = projection.project(lat, lng);
+          return `${i === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`;
+        }).join(" ") + " Z"
+      : "";
+
+  const handleMapClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!projection || !svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) * MAP_WIDTH) / rect.width;
+    const y = ((e.clientY - rect.top) * MAP_HEIGHT) / rect.height;
+    const { lat, lng } = projection.unproject(x, y);
+    setVertices([...vertices, [Number(lng.toFixed(6)), Number(lat.toFixed(6))]]);
+  };
+
+  const applyGeoJson = () => {
+    try {
+      const parsed = JSON.parse(geoJsonText ?? "");
+      // Accept a bare Polygon, a Feature, or the first feature of a FeatureCollection (as exported by geojson.io)
+      const geometry = parsed.type === "FeatureCollection" ? parsed.features?.[0]?.geometry
+        : parsed.type === "Feature" ? parsed.geometry
+        : parsed;
+      if (geometry?.type !== "Polygon" || !Array.isArray(geometry.coordinates?.[0])) {
+        message.error("Expected a GeoJSON Polygon");
+        return;
+      }
+      onChange?.({ type: "Polygon", coordinates: geometry.coordinates });
+      setGeoJsonText(null);
+    } catch (err: unknown) {
+      message.error(err instanceof Error ? err.message : "Invalid JSON");
+    }
+  };
+
+  if (storeIds.length === 0) {
+    return <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="Select stores to draw the zone around them" />;
+  }
+
+  return (
+    <div>
+      {projection ? (
+        <svg
+          ref={svgRef}
+          width="100%"
+          viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+          onClick={handleMapClick}
+          style={{ background: token.colorFillQuaternary, borderRadius: 8, display: "block", cursor: "crosshair" }}
+        >
+          {stores.map((s) => {
+            const { x, y } = projection.project(s.latitude!, s.longitude!);
+            return (
+              <circle
+                key={`radius-${s.id}`}
+                cx={x}
+                cy={y}
+                r={s.deliveryRadius * projection.kmScale}
+                fill="none"
+                stroke={token.colorBorder}
+                strokeDasharray="6 4"
+              />
+            );
+          })}
+          {otherZones.map((z) => (
+            <path key={z.id} d={z.polygon!.coordinates.map(ringPath).join(" ")} fill={token.colorTextQuaternary} fillOpacity={0.15} fillRule="evenodd" stroke={token.colorTextTertiary}>
+              <title>{`${z.name} (priority ${z.priority})`}</title>
+            </path>
+          ))}
+          {vertices.length >= 3 && (
+            <path d={[vertices, ...holes].map(ringPath).join(" ")} fill={BRAND.primary} fillOpacity={0.2} fillRule="evenodd" stroke={BRAND.primary} strokeWidth={2} />
+          )}
+          {vertices.length === 2 && (
+            <path d={ringPath(vertices)} fill="none" stroke={BRAND.primary} strokeWidth={2} />
+          )}
+          {vertices.map(([lng, lat], i) => {
+            const { x, y } = projection.project(lat, lng);
+            return <circle key={i} cx={x} cy={y} r={4} fill="#fff" stroke={BRAND.primary} strokeWidth={2} />;
+          })}
+          {stores.map((s) => {
+            const { x, y } = projection.project(s.latitude!, s.longitude!);
+            return (
+              <rect key={s.id} x={x - 7} y={y - 7} width={14} height={14} rx={3} fill={token.colorText}>
+                <title>{`${s.name} — ${s.deliveryRadius} km radius`}</title>
+              </rect>
+            );
+          })}
+        </svg>
+      ) : (
+        <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="The selected stores have no location set" />
+      )}
+
+      <Space style={{ marginTop: 8 }} wrap>
+        <Button size="small" icon={<UndoOutlined />} disabled={vertices.length === 0} onClick={() => setVertices(vertices.slice(0, -1))}>
+          Undo Corner
+        </Button>
+        <Button size="small" icon={<DeleteOutlined />} disabled={vertices.length === 0} onClick={() => { setDraft([]); onChange?.(null); }}>
+          Clear
+        </Button>
+        <Button size="small" icon={<ImportOutlined />} onClick={() => setGeoJsonText(value ? JSON.stringify(value) : "")}>
+          Paste GeoJSON
+        </Button>
+        <Typography.Text type="secondary" style={{ fontSize: 12 }}>
+          {vertices.length >= 3
+            ? `${vertices.length} corners${holes.length ? `, ${holes.length} hole(s)` : ""}`
+            : "Click the map to add corners (at least 3). Dashed circles are each store's delivery radius."}
+        </Typography.Text>
+      </Space>
+
+      {geoJsonText != null && (
+        <div style={{ marginTop: 8 }}>
+          <Input.TextArea
+            rows={5}
+            value={geoJsonText}
+            onChange={(e) => setGeoJsonText(e.target.value)}
+            placeholder='{"type":"Polygon","coordinates":[[[77.59,12.97],[77.61,12.97],[77.61,12.99],[77.59,12.97]]]}'
+            style={{ fontFamily: "monospace", fontSize: 12 }}
+          />
+          <Space style={{ marginTop: 8 }}>
+            <Button size="small" type="primary" onClick={applyGeoJson}>Apply</Button>
+            <Button size="small" onClick={() => setGeoJsonText(null)}>Cancel</Button>
+          </Space>
+        </div>
+      )}
+    </div>
+  );
+};
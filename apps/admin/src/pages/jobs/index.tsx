@@ -0,0 +1,269 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, Row, Col, Table, Tag, Select, Space, Typography, Empty, Spin, Button, Descriptions, message } from "antd";
+import { HistoryOutlined, ReloadOutlined, ScheduleOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+import { axiosInstance } from "../../providers/data-provider";
+import { sectionTitle } from "../../theme";
+import { JOB_RUN_STATUS_CONFIG } from "../../constants/tag-colors";
+
+const { Text } = Typography;
+
+interface JobRun {
+  id: string;
+  job: string;
+  key: string;
+  store: { id: string; name: string } | null;
+  runDate: string | null;
+  status: string;
+  attempts: number;
+  catchUp: boolean;
+  processed: number;
+  failed: number;
+  summary: Record<string, unknown> | null;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+interface JobSummary {
+  job: string;
+  lastRun: JobRun | null;
+  lastSucceededAt: string | null;
+  recentFailures: number;
+  running: number;
+}
+
+const JOB_LABELS: Record<string, string> = {
+  "subscription-orders": "Subscription Orders",
+  "notification-campaigns": "Scheduled Campaigns",
+  "reorder-nudges": "Reorder Nudges",
+  "wallet-auto-topup": "Wallet Auto Top-up",
+  "low-balance-alerts": "Low-Balance Alerts",
+  "near-expiry-batches": "Near-Expiry Batches",
+  "eta-model": "Delivery ETA Model",
+};
+
+const jobLabel = (job: string) => JOB_LABELS[job] ?? job;
+
+function timeAgo(dateStr: string): string {
+  const diff = Date.now() - new Date(dateStr).getTime();
+  const mins = Math.floor(diff / 60000);
+  if (mins < 1) return "just now";
+  if (mins < 60) return `${mins}m ago`;
+  const hrs = Math.floor(mins / 60);
+  if (hrs < 24) return `${hrs}h ago`;
+  return `${Math.floor(hrs / 24)}d ago`;
+}
+
+const duration = (run: JobRun) => {
+  if (!run.finishedAt) return null;
+  const ms = dayjs(run.finishedAt).diff(dayjs(run.startedAt));
+  return ms < 1000 ? `${ms}ms` : `${Math.round(ms / 100) / 10}s`;
+};
+
+export const JobHistory = () => {
+  const [summary, setSummary] = useState<JobSummary[]>([]);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [job, setJob] = useState<string | undefined>();
+  const [status, setStatus] = useState<string | undefined>();
+  const [loading, setLoading] = useState(false);
+
+  const fetchAll = useCallback(async () => {
+    setLoading(true);
+    const params = new URLSearchParams({ page: String(page), pageSize: "20" });
+    if (job) params.set("job", job);
+    if (status) params.set("status", status);
+    try {
+      const [summaryRes, runsRes] = await Promise.all([
+        axiosInstance.get("/jobs/summary"),
+        axiosInstance.get(`/jobs/runs?${params.toString()}`),
+      ]);
+      setSummary(summaryRes?.data?.data ?? []);
+      setRuns(runsRes?.data?.data ?? []);
+      setTotal(runsRes?.data?.meta?.total ?? 0);
+    } catch {
+      message.error("Failed to load job history");
+    } finally {
+      setLoading(false);
+    }
+  }, [page, job, status]);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  const columns = [
+    {
+      title: "Job",
+      dataIndex: "job",
+      render: (v: string, r: JobRun) => (
+        <Space size={4}>
+          <Text strong>{jobLabel(v)}</Text>
+          {r.catchUp && <Tag color="gold">Catch-up</Tag>}
+        </Space>
+      ),
+    },
+    {
+      title: "Store",
+      key: "store",
+      render: (_: unknown, r: JobRun) => r.store?.name ?? <Text type="secondary">—</Text>,
+    },
+    {
+      title: "For",
+      dataIndex: "runDate",
+      render: (v: string | null) => (v ? dayjs(v).format("DD MMM YYYY") : <Text type="secondary">—</Text>),
+    },
+    {
+      title: "Status",
+      dataIndex: "status",
+      render: (v: string) => {
+        const cfg = JOB_RUN_STATUS_CONFIG[v] ?? { color: "default", label: v };
+        return <Tag color={cfg.color}>{cfg.label}</Tag>;
+      },
+    },
+    {
+      title: "Processed",
+      dataIndex: "processed",
+      align: "right" as const,
+      render: (v: number, r: JobRun) => (
+        <span>
+          {v}
+          {r.failed > 0 && <Text type="danger"> · {r.failed} failed</Text>}
+        </span>
+      ),
+    },
+    {
+      title: "Attempts",
+      dataIndex: "attempts",
+      align: "right" as const,
+    },
+    {
+      title: "Started",
+      dataIndex: "startedAt",
+      render: (v: string, r: JobRun) => (
+        <div>
+          <div>{dayjs(v).format("DD MMM, HH:mm")}</div>
+          {duration(r) && <Text type="secondary" style={{ fontSize: 12 }}>took {duration(r)}</Text>}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: 16,
+          flexWrap: "wrap",
+          gap: 12,
+        }}
+      >
+        <h2 style={{ margin: 0, fontSize: 22, fontWeight: 700 }}>Job History</h2>
+        <Button icon={<ReloadOutlined />} onClick={fetchAll}>
+          Refresh
+        </Button>
+      </div>
+
+      <Spin spinning={loading}>
+        <Row gutter={[16, 16]} style={{ marginBottom: 16 }}>
+          {summary.map((s) => {
+            const last = s.lastRun ? JOB_RUN_STATUS_CONFIG[s.lastRun.status] : null;
+            return (
+              <Col xs={24} md={8} key={s.job}>
+                <Card size="small" title={sectionTitle(<ScheduleOutlined />, jobLabel(s.job))}>
+                  <Space direction="vertical" size={4} style={{ width: "100%" }}>
+                    <div>
+                      <Text type="secondary">Last run: </Text>
+                      {s.lastRun ? (
+                        <>
+                          {timeAgo(s.lastRun.startedAt)} {last && <Tag color={last.color}>{last.label}</Tag>}
+                        </>
+                      ) : (
+                        <Text type="secondary">never</Text>
+                      )}
+                    </div>
+                    <div>
+                      <Text type="secondary">Last success: </Text>
+                      {s.lastSucceededAt ? timeAgo(s.lastSucceededAt) : <Text type="secondary">never</Text>}
+                    </div>
+                    <div>
+                      <Text type="secondary">Failures (7 days): </Text>
+                      {s.recentFailures > 0 ? <Text type="danger" strong>{s.recentFailures}</Text> : "0"}
+                      {s.running > 0 && <Tag color="processing" style={{ marginLeft: 8 }}>{s.running} running</Tag>}
+                    </div>
+                  </Space>
+                </Card>
+              </Col>
+            );
+          })}
+        </Row>
+
+        <Card
+          title={sectionTitle(<HistoryOutlined />, "Runs")}
+          size="small"
+          extra={
+            <Space size={8}>
+              <Select
+                placeholder="All jobs"
+                allowClear
+                value={job}
+                onChange={(v) => {
+                  setJob(v);
+                  setPage(1);
+                }}
+                style={{ minWidth: 180 }}
+                options={summary.map((s) => ({ label: jobLabel(s.job), value: s.job }))}
+              />
+              <Select
+                placeholder="Any status"
+                allowClear
+                value={status}
+                onChange={(v) => {
+                  setStatus(v);
+                  setPage(1);
+                }}
+                style={{ minWidth: 140 }}
+                options={Object.entries(JOB_RUN_STATUS_CONFIG).map(([value, cfg]) => ({ label: cfg.label, value }))}
+              />
+            </Space>
+          }
+        >
+          <Table
+            dataSource={runs}
+            columns={columns}
+            rowKey="id"
+            size="small"
+            pagination={{ current: page, pageSize: 20, total, onChange: setPage, hideOnSinglePage: true }}
+            expandable={{
+              rowExpandable: (r) => !!r.error || !!r.summary,
+              expandedRowRender: (r) => (
+                <Descriptions size="small" column={1}>
+                  <Descriptions.Item label="Key">
+                    <Text code>{r.key}</Text>
+                  </Descriptions.Item>
+                  {r.error && (
+                    <Descriptions.Item label="Error">
+                      <Text type="danger">{r.error}</Text>
+                    </Descriptions.Item>
+                  )}
+                  {r.summary &&
+                    Object.entries(r.summary).map(([k, v]) => (
+                      <Descriptions.Item key={k} label={k}>
+                        {String(v)}
+                      </Descriptions.Item>
+                    ))}
+                </Descriptions>
+              ),
+            }}
+            locale={{ emptyText: <Empty description="No job runs yet" /> }}
+          />
+        </Card>
+      </Spin>
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+import { useEffect, useMemo, useState } from "react";
+import { Modal, Table, Select, InputNumber, Input, Button, Row, Col, Typography, message } from "antd";
+import { PlusOutlined, MinusCircleOutlined } from "@ant-design/icons";
+
+import { axiosInstance } from "../../providers/data-provider";
+
+const { Text } = Typography;
+
+interface EditableItem {
+  id: string;
+  storeProductId: string;
+  product?: { name?: string };
+  variant?: { name?: string };
+  quantity: number;
+  unitPrice: number;
+}
+
+interface StoreProductOption {
+  id: string;
+  price: number;
+  stock: number;
+  reservedStock: number;
+  isActive: boolean;
+  product?: { name: string };
+  variant?: { name?: string };
+}
+
+interface LineEdit {
+  quantity: number;
+  substituteId?: string;
+}
+
+interface AddedLine {
+  storeProductId?: string;
+  quantity: number;
+}
+
+interface EditItemsModalProps {
+  open: boolean;
+  orderId: string;
+  storeId: string;
+  items: EditableItem[];
+  /** Offer a refund to the original payment for a lower total */
+  onlinePaid: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+/**
+ * Change quantities (0 removes the line), substitute or add products on an open order.
+ * Pricing, stock and settlement happen server-side in PATCH /orders/:id/items.
+ */
+export const EditItemsModal = ({ open, orderId, storeId, items, onlinePaid, onClose, onSaved }: EditItemsModalProps) => {
+  const [storeProducts, setStoreProducts] = useState<StoreProductOption[]>([]);
+  const [edits, setEdits] = useState<Record<string, LineEdit>>({});
+  const [added, setAdded] = useState<AddedLine[]>([]);
+  const [note, setNote] = useState("");
+  const [refundDestination, setRefundDestination] = useState<"WALLET" | "SOURCE">("WALLET");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setEdits(Object.fromEntries(items.map((i) => [i.id, { quantity: i.quantity }])));
+    setAdded([]);
+    setNote("");
+    setRefundDestination("WALLET");
+    axiosInstance
+      .get("/store-products", { params: { storeId, pageSize: 500 } })
+      .then((res) => setStoreProducts(res.data.data))
+      .catch(() => setStoreProducts([]));
+    // Seed from the items as they were when the modal opened; live refetches must not reset edits
+  }, [open, storeId]);
+
+  const options = useMemo(
+    () =>
+      storeProducts
+        .filter((sp) => sp.isActive)
+        .map((sp) => ({
+          label: `${sp.variant?.name ? `${sp.product?.name} — ${sp.variant.name}` : sp.product?.name ?? sp.id} · ₹${Number(sp.price)} · ${sp.stock - sp.reservedStock} available`,
+          value: sp.id,
+        })),
+    [storeProducts],
+  );
+
+  const setEdit = (id: string, patch: Partial<LineEdit>) =>
+    setEdits((prev) => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+
+  const buildPayload = () => {
+    const payload = {
+      add: added.filter((a) => a.storeProductId && a.quantity > 0) as { storeProductId: string; quantity: number }[],
+      remove: [] as string[],
+      update: [] as { orderItemId: string; quantity: number }[],
+      substitute: [] as { orderItemId: string; storeProductId: string; quantity: number }[],
+      ...(note.trim() ? { note: note.trim() } : {}),
+      ...(onlinePaid ? { refundDestination } : {}),
+    };
+    for (const item of items) {
+      const edit = edits[item.id];
+      if (!edit) continue;
+      if (edit.substituteId) {
+        payload.substitute.push({ orderItemId: item.id, storeProductId: edit.substituteId, quantity: edit.quantity || item.quantity });
+      } else if (edit.quantity === 0) {
+        payload.remove.push(item.id);
+      } else if (edit.quantity !== item.quantity) {
+        payload.update.push({ orderItemId: item.id, quantity: edit.quantity });
+      }
+    }
+    return payload;
+  };
+
+  const payload = buildPayload();
+  const hasChanges = payload.add.length + payload.remove.length + payload.update.length + payload.substitute.length > 0;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await axiosInstance.patch(`/orders/${orderId}/items`, payload);
+      message.success("Order items updated");
+      onSaved();
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { message?: string } } };
+      message.error(e?.response?.data?.message ?? "Failed to update items");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      title="Edit Order Items"
+      open={open}
+      onCancel={onClose}
+      onOk={handleSave}
+      okText="Save Changes"
+      okButtonProps={{ disabled: !hasChanges, loading: saving }}
+      width={820}
+      destroyOnClose
+    >
+      <Table<EditableItem>
+        dataSource={items}
+        rowKey="id"
+        pagination={false}
+        size="small"
+        columns={[
+          {
+            title: "Item",
+            key: "item",
+            render: (_, item) => (
+              <>
+                {item.product?.name}
+                {item.variant?.name && <Text type="secondary"> — {item.variant.name}</Text>}
+                <div><Text type="secondary" style={{ fontSize: 12 }}>₹{Number(item.unitPrice).toFixed(0)} each</Text></div>
+              </>
+            ),
+          },
+          {
+            title: "Qty",
+            key: "quantity",
+            width: 100,
+            render: (_, item) => (
+              <InputNumber
+                min={0}
+                value={edits[item.id]?.quantity}
+                onChange={(v) => setEdit(item.id, { quantity: v ?? 0 })}
+                style={{ width: "100%" }}
+              />
+            ),
+          },
+          {
+            title: "Substitute With",
+            key: "substitute",
+            width: 320,
+            render: (_, item) => (
+              <Select
+                allowClear
+                showSearch
+                placeholder="Out of stock? Pick a replacement"
+                options={options.filter((o) => o.value !== item.storeProductId)}
+                optionFilterProp="label"
+                value={edits[item.id]?.substituteId}
+                onChange={(v?: string) => setEdit(item.id, { substituteId: v })}
+                style={{ width: "100%" }}
+              />
+            ),
+          },
+        ]}
+      />
+      <Text type="secondary" style={{ fontSize: 12 }}>Set quantity to 0 to remove an item.</Text>
+
+      <div style={{ marginTop: 16 }}>
+        {added.map((line, index) => (
+          <Row key={index} gutter={12} align="middle" style={{ marginBottom: 8 }}>
+            <Col flex="auto">
+              <Select
+                showSearch
+                placeholder="Select product"
+                options={options}
+                optionFilterProp="label"
+                value={line.storeProductId}
+                onChange={(v: string) => setAdded((prev) => prev.map((a, i) => (i === index ? { ...a, storeProductId: v } : a)))}
+                style={{ width: "100%" }}
+              />
+            </Col>
+            <Col>
+              <InputNumber
+                min={1}
+                value={line.quantity}
+                onChange={(v) => setAdded((prev) => prev.map((a, i) => (i === index ? { ...a, quantity: v ?? 1 } : a)))}
+              />
+            </Col>
+            <Col>
+              <MinusCircleOutlined
+                onClick={() => setAdded((prev) => prev.filter((_, i) => i !== index))}
+                style={{ color: "#ff4d4f" }}
+              />
+            </Col>
+          </Row>
+        ))}
+        <Button type="dashed" icon={<PlusOutlined />} onClick={() => setAdded((prev) => [...prev, { quantity: 1 }])}>
+          Add Product
+        </Button>
+      </div>
+
+      <Input.TextArea
+        placeholder="Note for the customer (optional), e.g. reason for substitution"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        maxLength={500}
+        autoSize={{ minRows: 2 }}
+        style={{ marginTop: 16 }}
+      />
+
+      {onlinePaid && (
+        <div style={{ marginTop: 16 }}>
+          <span style={{ marginRight: 8 }}>If the total goes down, refund to:</span>
+          <Select
+            size="small"
+            value={refundDestination}
+            onChange={setRefundDestination}
+            style={{ width: 180 }}
+            options={[
+              { label: "Customer Wallet", value: "WALLET" },
+              { label: "Original Payment", value: "SOURCE" },
+            ]}
+          />
+        </div>
+      )}
+    </Modal>
+  );
+};
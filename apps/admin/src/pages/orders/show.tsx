@@ -12,15 +12,31 @@ import {
   DollarOutlined,
   StarOutlined,
   ClockCircleOutlined,
+  DownloadOutlined,
+  EditOutlined,
 } from "@ant-design/icons";
 
-import { ORDER_STATUS_CONFIG, PAYMENT_STATUS_CONFIG, FULFILLMENT_TYPE_CONFIG, RETURN_REQUEST_STATUS_CONFIG } from "../../constants/tag-colors";
+import {
+  ORDER_STATUS_CONFIG,
+  PAYMENT_STATUS_CONFIG,
+  FULFILLMENT_TYPE_CONFIG,
+  RETURN_REQUEST_STATUS_CONFIG,
+  REFUND_STATUS_CONFIG,
+  REFUND_DESTINATION_CONFIG,
+} from "../../constants/tag-colors";
 import { DELIVERY_TRANSITIONS, PICKUP_TRANSITIONS, NEXT_ACTION } from "../../constants/order-transitions";
 import { sectionTitle } from "../../theme";
+import { EditItemsModal } from "./edit-items-modal";
+import { DeliveryProofCard } from "../../components/DeliveryProofCard";
+import { PickupCodeModal } from "../../components/PickupCodeModal";
+
+// Staff can change items until the order is packed
+const ITEMS_EDITABLE_STATUSES = ["PENDING", "CONFIRMED", "PREPARING"];
 
 interface OrderItem {
   id: string;
   productId: string;
+  storeProductId: string;
   product?: { name?: string };
   variant?: { name?: string; unitValue?: string; unitType?: string };
   quantity: number;
@@ -36,6 +52,10 @@ export const OrderShow = () => {
   const [updatingPayment, setUpdatingPayment] = useState(false);
   const [selectedPaymentStatus, setSelectedPaymentStatus] = useState<string | null>(null);
   const [paymentNote, setPaymentNote] = useState("");
+  const [refundDestination, setRefundDestination] = useState<"WALLET" | "SOURCE">("WALLET");
+  const [downloadingInvoice, setDownloadingInvoice] = useState(false);
+  const [editingItems, setEditingItems] = useState(false);
+  const [handingOver, setHandingOver] = useState(false);
 
   // Real-time updates via WebSocket
   const recordId = record?.id as string | undefined;
@@ -60,11 +80,20 @@ export const OrderShow = () => {
   const transitions = validTransitions[record.status] ?? [];
   const forwardTransition = transitions.find((t) => t !== "CANCELLED");
   const canCancel = transitions.includes("CANCELLED");
+  // An item edit's refund leaves an open order PARTIALLY_REFUNDED
+  const isOnlinePaid = record.paymentMethod === "ONLINE"
+    && (record.paymentStatus === "PAID" || record.paymentStatus === "PARTIALLY_REFUNDED");
+  const isRefunded = record.paymentStatus === "REFUNDED" || record.paymentStatus === "PARTIALLY_REFUNDED";
+  const canEditItems = ITEMS_EDITABLE_STATUSES.includes(record.status)
+    && !(record.paymentMethod === "ONLINE" && !isOnlinePaid);
 
   const handleStatusChange = async (newStatus: string) => {
     setUpdating(true);
     try {
-      await axiosInstance.patch(`/orders/${record.id}/status`, { status: newStatus });
+      await axiosInstance.patch(`/orders/${record.id}/status`, {
+        status: newStatus,
+        ...(newStatus === "CANCELLED" && isOnlinePaid ? { refundDestination } : {}),
+      });
       message.success(`Order ${ORDER_STATUS_CONFIG[newStatus]?.label ?? newStatus}`);
       invalidate({ resource: "orders", invalidates: ["detail", "list"], id: record.id });
     } catch (err: any) {
@@ -93,8 +122,38 @@ export const OrderShow = () => {
     }
   };
 
+  const handleDownloadInvoice = async () => {
+    setDownloadingInvoice(true);
+    try {
+      const res = await axiosInstance.get(`/orders/${record.id}/invoice`, { responseType: "blob" });
+      const url = URL.createObjectURL(res.data as Blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${record.invoiceNumber ?? `invoice-${String(record.id).slice(0, 8)}`}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+      // First download of an older order assigns its invoice number
+      if (!record.invoiceNumber) invalidate({ resource: "orders", invalidates: ["detail"], id: record.id });
+    } catch {
+      message.error("Failed to download invoice");
+    } finally {
+      setDownloadingInvoice(false);
+    }
+  };
+
   return (
-    <Show>
+    <Show
+      headerButtons={({ defaultButtons }) => (
+        <>
+          {defaultButtons}
+          {record.status === "DELIVERED" && (
+            <Button icon={<DownloadOutlined />} loading={downloadingInvoice} onClick={handleDownloadInvoice}>
+              Invoice
+            </Button>
+          )}
+        </>
+      )}
+    >
       <Row gutter={[16, 16]}>
         {/* Status Actions */}
         {transitions.length > 0 && (
@@ -113,7 +172,9 @@ export const OrderShow = () => {
                       type="primary"
                       icon={NEXT_ACTION[forwardTransition]?.icon}
                       loading={updating}
-                      onClick={() => handleStatusChange(forwardTransition)}
+                      onClick={() =>
+                        isPickup && forwardTransition === "DELIVERED" ? setHandingOver(true) : handleStatusChange(forwardTransition)
+                      }
                       style={{ backgroundColor: NEXT_ACTION[forwardTransition]?.color, borderColor: NEXT_ACTION[forwardTransition]?.color }}
                     >
                       {(isPickup && NEXT_ACTION[forwardTransition]?.pickupLabel) || NEXT_ACTION[forwardTransition]?.label}
@@ -122,7 +183,26 @@ export const OrderShow = () => {
                   {canCancel && (
                     <Popconfirm
                       title="Cancel this order?"
-                      description="This will release reserved stock and cannot be undone."
+                      description={
+                        <div>
+                          <div>This will release reserved stock and cannot be undone.</div>
+                          {isOnlinePaid && (
+                            <div style={{ marginTop: 8 }}>
+                              <span style={{ marginRight: 8 }}>Refund to:</span>
+                              <Select
+                                size="small"
+                                value={refundDestination}
+                                onChange={setRefundDestination}
+                                style={{ width: 180 }}
+                                options={[
+                                  { label: "Customer Wallet", value: "WALLET" },
+                                  { label: "Original Payment", value: "SOURCE" },
+                                ]}
+                              />
+                            </div>
+                          )}
+                        </div>
+                      }
                       onConfirm={() => handleStatusChange("CANCELLED")}
                       okText="Yes, cancel"
                       cancelText="No"
@@ -140,7 +220,7 @@ export const OrderShow = () => {
         )}
 
         {/* Payment Status Actions */}
-        {record.paymentStatus !== "REFUNDED" && (
+        {!isRefunded && (
           <Col xs={24}>
             <Card size="small">
               <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", flexWrap: "wrap", gap: 12 }}>
@@ -206,6 +286,12 @@ export const OrderShow = () => {
               <Descriptions.Item label="Fulfillment">
                 <Tag color={fulfillmentConfig.color}>{fulfillmentConfig.label}</Tag>
               </Descriptions.Item>
+              {record.invoiceNumber && (
+                <Descriptions.Item label="Invoice">
+                  {record.invoiceNumber}
+                  {record.invoicedAt && ` · ${new Date(record.invoicedAt).toLocaleDateString()}`}
+                </Descriptions.Item>
+              )}
               {record.scheduledDate && record.slotStartTime && (
                 <Descriptions.Item label="Scheduled Slot">
                   <Tag color="purple" icon={<ClockCircleOutlined />}>
@@ -267,9 +353,12 @@ export const OrderShow = () => {
               <Descriptions.Item label="Payment Status">
                 <Tag color={paymentConfig.color}>{paymentConfig.label}</Tag>
               </Descriptions.Item>
-              {record.razorpayPaymentId && (
-                <Descriptions.Item label="Razorpay Payment ID">
-                  {record.razorpayPaymentId}
+              {record.providerPaymentId && (
+                <Descriptions.Item label="Payment ID">
+                  {record.providerPaymentId}
+                  {record.paymentProvider && (
+                    <Tag style={{ marginLeft: 8 }}>{record.paymentProvider}</Tag>
+                  )}
                 </Descriptions.Item>
               )}
               <Descriptions.Item label={isPickup ? "Pickup Location" : "Delivery Address"}>
@@ -280,12 +369,35 @@ export const OrderShow = () => {
                   {record.deliveryNotes}
                 </Descriptions.Item>
               )}
+              {record.pickup?.arrivedAt && (
+                <Descriptions.Item label="Customer Arrived">
+                  {new Date(record.pickup.arrivedAt).toLocaleString()}
+                  {record.pickup.parkingNote && <div style={{ color: "#64748b" }}>{record.pickup.parkingNote}</div>}
+                </Descriptions.Item>
+              )}
+              {record.pickup?.verifiedAt && (
+                <Descriptions.Item label="Pickup Code">
+                  <Tag color="green">Verified {new Date(record.pickup.verifiedAt).toLocaleTimeString()}</Tag>
+                  {record.pickup.verifiedBy && <span>by {record.pickup.verifiedBy.name}</span>}
+                </Descriptions.Item>
+              )}
             </Descriptions>
           </Card>
+          {record.deliveryProof?.deliveredAt && (
+            <DeliveryProofCard proof={record.deliveryProof} style={{ marginTop: 16 }} />
+          )}
         </Col>
 
         <Col xs={24}>
-          <Card title={sectionTitle(<ShoppingOutlined />, "Items")} size="small">
+          <Card
+            title={sectionTitle(<ShoppingOutlined />, "Items")}
+            size="small"
+            extra={canEditItems && (
+              <Button size="small" icon={<EditOutlined />} onClick={() => setEditingItems(true)}>
+                Edit Items
+              </Button>
+            )}
+          >
             <Table<OrderItem>
               dataSource={record.items ?? []}
               rowKey="id"
@@ -393,6 +505,69 @@ export const OrderShow = () => {
           </Card>
         </Col>
 
+        {/* Refunds */}
+        {record.refunds && record.refunds.length > 0 && (
+          <Col xs={24}>
+            <Card title={sectionTitle(<DollarOutlined />, "Refunds")} size="small">
+              <Table
+                dataSource={record.refunds}
+                rowKey="id"
+                pagination={false}
+                size="small"
+                columns={[
+                  {
+                    title: "Amount",
+                    dataIndex: "amount",
+                    key: "amount",
+                    width: 110,
+                    render: (v: number) => `₹${Number(v).toFixed(0)}`,
+                  },
+                  {
+                    title: "Destination",
+                    dataIndex: "destination",
+                    key: "destination",
+                    width: 160,
+                    render: (d: string) => {
+                      const cfg = REFUND_DESTINATION_CONFIG[d] ?? { color: "default", label: d };
+                      return <Tag color={cfg.color}>{cfg.label}</Tag>;
+                    },
+                  },
+                  {
+                    title: "Status",
+                    dataIndex: "status",
+                    key: "status",
+                    width: 120,
+                    render: (s: string) => {
+                      const cfg = REFUND_STATUS_CONFIG[s] ?? { color: "default", label: s };
+                      return <Tag color={cfg.color}>{cfg.label}</Tag>;
+                    },
+                  },
+                  {
+                    title: "Provider Refund",
+                    dataIndex: "providerRefundId",
+                    key: "providerRefundId",
+                    render: (v: string | null, r: { status: string; lastError: string | null; attempts: number }) => (
+                      <span>
+                        {v ? <span style={{ fontFamily: "monospace" }}>{v}</span> : "—"}
+                        {r.status === "FAILED" && r.lastError && (
+                          <div style={{ fontSize: 12, color: "#ef4444" }}>{r.lastError} (attempt {r.attempts})</div>
+                        )}
+                      </span>
+                    ),
+                  },
+                  {
+                    title: "Time",
+                    dataIndex: "createdAt",
+                    key: "createdAt",
+                    width: 200,
+                    render: (v: string) => new Date(v).toLocaleString(),
+                  },
+                ]}
+              />
+            </Card>
+          </Col>
+        )}
+
         {/* Status Timeline */}
         {record.statusLogs && record.statusLogs.length > 0 && (
           <Col xs={24}>
@@ -432,6 +607,27 @@ export const OrderShow = () => {
           </Col>
         )}
       </Row>
+
+      <EditItemsModal
+        open={editingItems}
+        orderId={record.id as string}
+        storeId={record.storeId as string}
+        items={record.items ?? []}
+        onlinePaid={isOnlinePaid}
+        onClose={() => setEditingItems(false)}
+        onSaved={() => {
+          setEditingItems(false);
+          invalidate({ resource: "orders", invalidates: ["detail", "list"], id: record.id });
+        }}
+      />
+      <PickupCodeModal
+        orderId={handingOver ? (record.id as string) : null}
+        onClose={() => setHandingOver(false)}
+        onHandedOver={() => {
+          setHandingOver(false);
+          invalidate({ resource: "orders", invalidates: ["detail", "list"], id: record.id });
+        }}
+      />
     </Show>
   );
 };
@@ -1,6 +1,6 @@
 import { Edit, useForm } from "@refinedev/antd";
-import { Form, Input, Card, Row, Col } from "antd";
-import { BankOutlined } from "@ant-design/icons";
+import { Form, Input, InputNumber, Card, Row, Col } from "antd";
+import { BankOutlined, CreditCardOutlined, FieldTimeOutlined } from "@ant-design/icons";
 
 import { sectionTitle } from "../../theme";
 
@@ -21,6 +21,37 @@ export const OrganizationEdit = () => {
               </Form.Item>
             </Card>
           </Col>
+          <Col xs={24} lg={12}>
+            <Card title={sectionTitle(<CreditCardOutlined />, "Payments")} size="small">
+              <Form.Item
+                label="Payment Timeout (minutes)"
+                name="paymentTimeoutMinutes"
+                extra="Unpaid online orders are cancelled and their stock released after this long"
+                rules={[{ required: true }]}
+              >
+                <InputNumber min={5} max={1440} style={{ width: "100%" }} />
+              </Form.Item>
+            </Card>
+          </Col>
+          <Col xs={24} lg={12}>
+            <Card title={sectionTitle(<FieldTimeOutlined />, "Expiry")} size="small">
+              <Form.Item
+                label="Near-Expiry Window (days)"
+                name="nearExpiryDays"
+                extra="Batches expiring within this many days are flagged each day and shown in Store Intelligence"
+                rules={[{ required: true }]}
+              >
+                <InputNumber min={0} max={30} style={{ width: "100%" }} />
+              </Form.Item>
+              <Form.Item
+                label="Auto Markdown (%)"
+                name="nearExpiryDiscountPercent"
+                extra="Applied as a store-product discount until the batch expires. Leave empty to only alert. Existing discounts are never overridden."
+              >
+                <InputNumber min={1} max={90} style={{ width: "100%" }} placeholder="Alert only" />
+              </Form.Item>
+            </Card>
+          </Col>
         </Row>
       </Form>
     </Edit>
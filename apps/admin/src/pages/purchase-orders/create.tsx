@@ -0,0 +1,88 @@
+import { Create, useForm, useSelect } from "@refinedev/antd";
+import { Form, Input, Select, DatePicker, Card, Row, Col } from "antd";
+import { FileTextOutlined, UnorderedListOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+
+import { sectionTitle } from "../../theme";
+import { PurchaseOrderLineItems, type LineItemValues } from "./line-items";
+
+export const PurchaseOrderCreate = () => {
+  const { formProps, saveButtonProps } = useForm({ resource: "purchase-orders", redirect: "show" });
+  const storeId = Form.useWatch("storeId", formProps.form) as string | undefined;
+
+  const { selectProps: storeSelectProps } = useSelect({
+    resource: "stores",
+    optionLabel: "name",
+    optionValue: "id",
+  });
+  const { selectProps: supplierSelectProps } = useSelect({
+    resource: "suppliers",
+    optionLabel: "name",
+    optionValue: "id",
+    filters: [{ field: "isActive", operator: "eq", value: "true" }],
+  });
+
+  const originalOnFinish = formProps.onFinish;
+  const enhancedFormProps = {
+    ...formProps,
+    onFinish: (values: Record<string, unknown>) => {
+      return originalOnFinish?.({
+        storeId: values.storeId,
+        supplierId: values.supplierId,
+        expectedDate: values.expectedDate ? (values.expectedDate as dayjs.Dayjs).toISOString() : undefined,
+        notes: values.notes || undefined,
+        items: ((values.items as LineItemValues[]) ?? []).map((i) => ({
+          storeProductId: i.storeProductId,
+          quantity: Number(i.quantity),
+          costPrice: Number(i.costPrice),
+        })),
+      });
+    },
+  };
+
+  return (
+    <Create saveButtonProps={saveButtonProps} title="Create Purchase Order">
+      <Form {...enhancedFormProps} layout="vertical" initialValues={{ items: [{ quantity: 1 }] }}>
+        <Row gutter={[16, 16]}>
+          <Col xs={24}>
+            <Card title={sectionTitle(<FileTextOutlined />, "Purchase Order")} size="small">
+              <Row gutter={16}>
+                <Col xs={24} md={6}>
+                  <Form.Item label="Store" name="storeId" rules={[{ required: true }]}>
+                    <Select
+                      {...storeSelectProps}
+                      placeholder="Select store"
+                      onChange={(value) => {
+                        formProps.form?.setFieldsValue({ storeId: value, items: [{ quantity: 1 }] });
+                      }}
+                    />
+                  </Form.Item>
+                </Col>
+                <Col xs={24} md={6}>
+                  <Form.Item label="Supplier" name="supplierId" rules={[{ required: true }]}>
+                    <Select {...supplierSelectProps} placeholder="Select supplier" />
+                  </Form.Item>
+                </Col>
+                <Col xs={24} md={6}>
+                  <Form.Item label="Expected Delivery" name="expectedDate">
+                    <DatePicker style={{ width: "100%" }} />
+                  </Form.Item>
+                </Col>
+                <Col xs={24} md={6}>
+                  <Form.Item label="Notes" name="notes">
+                    <Input placeholder="Optional" />
+                  </Form.Item>
+                </Col>
+              </Row>
+            </Card>
+          </Col>
+          <Col xs={24}>
+            <Card title={sectionTitle(<UnorderedListOutlined />, "Products")} size="small">
+              <PurchaseOrderLineItems storeId={storeId} />
+            </Card>
+          </Col>
+        </Row>
+      </Form>
+    </Create>
+  );
+};
@@ -0,0 +1,98 @@
+import { Edit, useForm, useSelect } from "@refinedev/antd";
+import { Form, Input, Select, DatePicker, Card, Row, Col, Alert } from "antd";
+import { FileTextOutlined, UnorderedListOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+
+import { sectionTitle } from "../../theme";
+import { PurchaseOrderLineItems, type LineItemValues } from "./line-items";
+
+interface PurchaseOrderRecord {
+  storeId: string;
+  status: string;
+  supplierId: string;
+  expectedDate: string | null;
+  notes: string | null;
+  store?: { name: string };
+  items: { storeProductId: string; quantityOrdered: number; costPrice: number }[];
+}
+
+export const PurchaseOrderEdit = () => {
+  const { formProps, saveButtonProps, query } = useForm({ resource: "purchase-orders", redirect: "show" });
+  const record = query?.data?.data as PurchaseOrderRecord | undefined;
+
+  const { selectProps: supplierSelectProps } = useSelect({
+    resource: "suppliers",
+    optionLabel: "name",
+    optionValue: "id",
+    filters: [{ field: "isActive", operator: "eq", value: "true" }],
+  });
+
+  const originalOnFinish = formProps.onFinish;
+  const enhancedFormProps = {
+    ...formProps,
+    initialValues: record
+      ? {
+          supplierId: record.supplierId,
+          expectedDate: record.expectedDate ? dayjs(record.expectedDate) : null,
+          notes: record.notes,
+          items: record.items.map((i) => ({
+            storeProductId: i.storeProductId,
+            quantity: i.quantityOrdered,
+            costPrice: i.costPrice,
+          })),
+        }
+      : undefined,
+    onFinish: (values: Record<string, unknown>) => {
+      return originalOnFinish?.({
+        supplierId: values.supplierId,
+        expectedDate: values.expectedDate ? (values.expectedDate as dayjs.Dayjs).toISOString() : null,
+        notes: values.notes || null,
+        items: ((values.items as LineItemValues[]) ?? []).map((i) => ({
+          storeProductId: i.storeProductId,
+          quantity: Number(i.quantity),
+          costPrice: Number(i.costPrice),
+        })),
+      });
+    },
+  };
+
+  const isDraft = !record || record.status === "DRAFT";
+
+  return (
+    <Edit saveButtonProps={{ ...saveButtonProps, disabled: !isDraft }} title="Edit Purchase Order">
+      {!isDraft && (
+        <Alert type="info" showIcon message="Only draft purchase orders can be edited." style={{ marginBottom: 16 }} />
+      )}
+      <Form {...enhancedFormProps} layout="vertical" disabled={!isDraft}>
+        <Row gutter={[16, 16]}>
+          <Col xs={24}>
+            <Card title={sectionTitle(<FileTextOutlined />, `Purchase Order · ${record?.store?.name ?? ""}`)} size="small">
+              <Row gutter={16}>
+                <Col xs={24} md={8}>
+                  <Form.Item label="Supplier" name="supplierId" rules={[{ required: true }]}>
+                    <Select {...supplierSelectProps} placeholder="Select supplier" />
+                  </Form.Item>
+                </Col>
+                <Col xs={24} md={8}>
+                  <Form.Item label="Expected Delivery" name="expectedDate">
+                    <DatePicker style={{ width: "100%" }} />
+                  </Form.Item>
+                </Col>
+                <Col xs={24} md={8}>
+                  <Form.Item label="Notes" name="notes">
+                    <Input placeholder="Optional" />
+                  </Form.Item>
+                </Col>
+              </Row>
+            </Card>
+          </Col>
+          <Col xs={24}>
+            <Card title={sectionTitle(<UnorderedListOutlined />, "Products")} size="small">
+              <PurchaseOrderLineItems storeId={record?.storeId} />
+            </Card>
+          </Col>
+        </Row>
+      </Form>
+    </Edit>
+  );
+};
@@ -0,0 +1,122 @@
+import { useEffect, useMemo, useState } from "react";
+import { Form, Select, InputNumber, Button, Row, Col, Typography, theme } from "antd";
+import { PlusOutlined, MinusCircleOutlined } from "@ant-design/icons";
+
+import { axiosInstance } from "../../providers/data-provider";
+
+const { Text } = Typography;
+
+interface StoreProductOption {
+  id: string;
+  price: number;
+  costPrice: number | null;
+  product?: { name: string };
+  variant?: { name?: string };
+}
+
+export interface LineItemValues {
+  storeProductId?: string;
+  quantity?: number;
+  costPrice?: number;
+}
+
+/** Margin on the current selling price, e.g. 18.5 for 18.5% */
+export function marginPercent(sellingPrice: number, costPrice: number) {
+  if (sellingPrice <= 0) return null;
+  return Math.round(((sellingPrice - costPrice) / sellingPrice) * 1000) / 10;
+}
+
+/** Form.List of PO lines (product, quantity, cost) for the products of one store */
+export const PurchaseOrderLineItems = ({ storeId }: { storeId?: string }) => {
+  const { token } = theme.useToken();
+  const form = Form.useFormInstance();
+  const items = (Form.useWatch("items", form) ?? []) as LineItemValues[];
+  const [storeProducts, setStoreProducts] = useState<StoreProductOption[]>([]);
+
+  useEffect(() => {
+    if (!storeId) {
+      setStoreProducts([]);
+      return;
+    }
+    axiosInstance
+      .get("/store-products", { params: { storeId, pageSize: 500 } })
+      .then((res) => setStoreProducts(res.data.data))
+      .catch(() => setStoreProducts([]));
+  }, [storeId]);
+
+  const byId = useMemo(() => new Map(storeProducts.map((sp) => [sp.id, sp])), [storeProducts]);
+  const options = storeProducts.map((sp) => ({
+    label: sp.variant?.name ? `${sp.product?.name} — ${sp.variant.name}` : sp.product?.name ?? sp.id,
+    value: sp.id,
+  }));
+
+  const total = items.reduce((sum, i) => sum + (i?.quantity ?? 0) * (i?.costPrice ?? 0), 0);
+
+  return (
+    <Form.List name="items" rules={[{ validator: async (_, value) => { if (!value?.length) throw new Error("Add at least one product"); } }]}>
+      {(fields, { add, remove }, { errors }) => (
+        <>
+          {fields.map(({ key, name, ...restField }) => {
+            const line = items[name];
+            const sp = line?.storeProductId ? byId.get(line.storeProductId) : undefined;
+            const margin = sp && line?.costPrice != null ? marginPercent(Number(sp.price), line.costPrice) : null;
+            return (
+              <Row key={key} gutter={12} align="middle" style={{ marginBottom: 8, padding: 8, background: token.colorFillAlter, borderRadius: 6 }}>
+                <Col xs={24} md={10}>
+                  <Form.Item {...restField} name={[name, "storeProductId"]} rules={[{ required: true, message: "Select a product" }]} style={{ marginBottom: 0 }}>
+                    <Select
+                      showSearch
+                      placeholder={storeId ? "Select product" : "Select a store first"}
+                      disabled={!storeId}
+                      options={options}
+                      optionFilterProp="label"
+                      onChange={(id: string) => {
+                        // Prefill cost with the last price paid
+                        const picked = byId.get(id);
+                        if (picked?.costPrice != null) {
+                          form.setFieldValue(["items", name, "costPrice"], Number(picked.costPrice));
+                        }
+                      }}
+                    />
+                  </Form.Item>
+                </Col>
+                <Col xs={8} md={4}>
+                  <Form.Item {...restField} name={[name, "quantity"]} rules={[{ required: true, message: "Qty" }]} style={{ marginBottom: 0 }}>
+                    <InputNumber min={1} step={1} placeholder="Qty" style={{ width: "100%" }} />
+                  </Form.Item>
+                </Col>
+                <Col xs={8} md={4}>
+                  <Form.Item {...restField} name={[name, "costPrice"]} rules={[{ required: true, message: "Cost" }]} style={{ marginBottom: 0 }}>
+                    <InputNumber min={0} step={0.01} prefix="₹" placeholder="Unit cost" style={{ width: "100%" }} />
+                  </Form.Item>
+                </Col>
+                <Col xs={6} md={5}>
+                  {sp && (
+                    <Text type="secondary" style={{ fontSize: 12 }}>
+                      Sells ₹{Number(sp.price)}
+                      {margin != null && (
+                        <Text style={{ fontSize: 12, marginLeft: 6, color: margin < 0 ? token.colorError : token.colorSuccess }}>
+                          {margin}%
+                        </Text>
+                      )}
+                    </Text>
+                  )}
+                </Col>
+                <Col xs={2} md={1}>
+                  <MinusCircleOutlined onClick={() => remove(name)} style={{ color: "#ff4d4f" }} />
+                </Col>
+              </Row>
+            );
+          })}
+          <Form.ErrorList errors={errors} />
+          <Row justify="space-between" align="middle" style={{ marginTop: 8 }}>
+            <Button type="dashed" onClick={() => add({ quantity: 1 })} icon={<PlusOutlined />} disabled={!storeId}>
+              Add Product
+            </Button>
+            <Text strong>Total: ₹{total.toLocaleString("en-IN", { maximumFractionDigits: 2 })}</Text>
+          </Row>
+        </>
+      )}
+    </Form.List>
+  );
+};
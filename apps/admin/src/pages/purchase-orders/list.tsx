@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { List, useTable, useSelect, ShowButton, CreateButton } from "@refinedev/antd";
+import { useNavigation } from "@refinedev/core";
+import { Table, Tag, Select, Card, Row, Col, Button, Modal, Form, InputNumber, message } from "antd";
+import { BulbOutlined } from "@ant-design/icons";
+
+import { axiosInstance } from "../../providers/data-provider";
+import { PURCHASE_ORDER_STATUS_CONFIG } from "../../constants/tag-colors";
+
+const statusOptions = Object.entries(PURCHASE_ORDER_STATUS_CONFIG).map(([value, { label }]) => ({ label, value }));
+
+interface PurchaseOrderRow {
+  id: string;
+  status: string;
+  totalCost: number;
+  expectedDate: string | null;
+  createdAt: string;
+  store?: { name: string };
+  supplier?: { name: string };
+  _count?: { items: number };
+}
+
+export const PurchaseOrderList = () => {
+  const { show } = useNavigation();
+  const [draftOpen, setDraftOpen] = useState(false);
+  const [drafting, setDrafting] = useState(false);
+  const [draftForm] = Form.useForm();
+
+  const { tableProps, setFilters, filters } = useTable<PurchaseOrderRow>({
+    resource: "purchase-orders",
+    syncWithLocation: true,
+  });
+
+  const { selectProps: storeSelectProps } = useSelect({
+    resource: "stores",
+    optionLabel: "name",
+    optionValue: "id",
+  });
+  const { selectProps: supplierSelectProps } = useSelect({
+    resource: "suppliers",
+    optionLabel: "name",
+    optionValue: "id",
+    filters: [{ field: "isActive", operator: "eq", value: "true" }],
+  });
+
+  const currentFilters = filters ?? [];
+  const getFilterValue = (field: string) => {
+    const f = currentFilters.find((f) => "field" in f && f.field === field);
+    return f && "value" in f ? f.value : undefined;
+  };
+
+  const handleFilter = (field: string, value: string | undefined) => {
+    setFilters([
+      { field, operator: "eq", value: value || undefined },
+    ], "merge");
+  };
+
+  const handleDraft = async (values: { storeId: string; supplierId: string; threshold: number }) => {
+    setDrafting(true);
+    try {
+      const { data: res } = await axiosInstance.post("/purchase-orders/from-suggestions", values);
+      message.success(`Drafted purchase order with ${res.data.items.length} product(s)`);
+      setDraftOpen(false);
+      show("purchase-orders", res.data.id);
+    } catch (err: unknown) {
+      message.error((err as { response?: { data?: { message?: string } } })?.response?.data?.message ?? "Failed to draft purchase order");
+    } finally {
+      setDrafting(false);
+    }
+  };
+
+  return (
+    <List
+      headerButtons={() => (
+        <>
+          <Button icon={<BulbOutlined />} onClick={() => { draftForm.resetFields(); setDraftOpen(true); }}>
+            Draft from Suggestions
+          </Button>
+          <CreateButton />
+        </>
+      )}
+    >
+      <Card size="small" style={{ marginBottom: 16 }}>
+        <Row gutter={[12, 12]}>
+          <Col xs={12} md={5}>
+            <Select
+              {...(storeSelectProps as object)}
+              placeholder="Store"
+              value={getFilterValue("storeId")}
+              onChange={(v: string) => handleFilter("storeId", v)}
+              allowClear
+              style={{ width: "100%" }}
+            />
+          </Col>
+          <Col xs={12} md={5}>
+            <Select
+              {...(supplierSelectProps as object)}
+              placeholder="Supplier"
+              value={getFilterValue("supplierId")}
+              onChange={(v: string) => handleFilter("supplierId", v)}
+              allowClear
+              style={{ width: "100%" }}
+            />
+          </Col>
+          <Col xs={12} md={4}>
+            <Select
+              placeholder="Status"
+              options={statusOptions}
+              value={getFilterValue("status")}
+              onChange={(v) => handleFilter("status", v)}
+              allowClear
+              style={{ width: "100%" }}
+            />
+          </Col>
+        </Row>
+      </Card>
+
+      <Table {...tableProps} rowKey="id" size="small">
+        <Table.Column
+          dataIndex="id"
+          title="PO"
+          width={100}
+          render={(v: string) => <span style={{ fontFamily: "monospace" }}>{v.slice(0, 8)}</span>}
+        />
+        <Table.Column dataIndex={["supplier", "name"]} title="Supplier" />
+        <Table.Column dataIndex={["store", "name"]} title="Store" />
+        <Table.Column dataIndex={["_count", "items"]} title="Lines" width={70} align="right" />
+        <Table.Column
+          dataIndex="totalCost"
+          title="Total"
+          width={120}
+          align="right"
+          render={(v: number) => <strong>{"₹"}{Number(v).toLocaleString("en-IN", { maximumFractionDigits: 2 })}</strong>}
+        />
+        <Table.Column
+          dataIndex="status"
+          title="Status"
+          width={150}
+          render={(value: string) => {
+            const cfg = PURCHASE_ORDER_STATUS_CONFIG[value] ?? { color: "default", label: value };
+            return <Tag color={cfg.color}>{cfg.label}</Tag>;
+          }}
+        />
+        <Table.Column
+          dataIndex="expectedDate"
+          title="Expected"
+          width={120}
+          render={(v: string | null) => v ? new Date(v).toLocaleDateString(undefined, { month: "short", day: "numeric" }) : "—"}
+        />
+        <Table.Column
+          dataIndex="createdAt"
+          title="Created"
+          width={160}
+          render={(v: string) => new Date(v).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}
+        />
+        <Table.Column
+          title=""
+          width={50}
+          render={(_: unknown, record: { id: string }) => (
+            <ShowButton hideText size="small" recordItemId={record.id} />
+          )}
+        />
+      </Table>
+
+      <Modal
+        title="Draft from Reorder Suggestions"
+        open={draftOpen}
+        onCancel={() => setDraftOpen(false)}
+        onOk={() => draftForm.submit()}
+        okText="Create Draft"
+        confirmLoading={drafting}
+      >
+        <Form form={draftForm} layout="vertical" onFinish={handleDraft} initialValues={{ threshold: 7 }}>
+          <Form.Item label="Store" name="storeId" rules={[{ required: true }]}>
+            <Select {...storeSelectProps} placeholder="Select store" />
+          </Form.Item>
+          <Form.Item label="Supplier" name="supplierId" rules={[{ required: true }]}>
+            <Select {...supplierSelectProps} placeholder="Select supplier" />
+          </Form.Item>
+          <Form.Item
+            label="Runs out within (days)"
+            name="threshold"
+            extra="Products already on an open purchase order are skipped. Quantities cover 14 days of demand."
+          >
+            <InputNumber min={1} max={60} style={{ width: "100%" }} />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </List>
+  );
+};
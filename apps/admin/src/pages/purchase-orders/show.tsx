@@ -0,0 +1,379 @@
+import { useState } from "react";
+import { Show, EditButton } from "@refinedev/antd";
+import { useShow, useInvalidate } from "@refinedev/core";
+import {
+  Tag,
+  Table,
+  Card,
+  Descriptions,
+  Row,
+  Col,
+  Button,
+  Space,
+  Modal,
+  InputNumber,
+  Input,
+  Progress,
+  DatePicker,
+  message,
+} from "antd";
+import {
+  FileTextOutlined,
+  UnorderedListOutlined,
+  InboxOutlined,
+  SendOutlined,
+  CloseCircleOutlined,
+} from "@ant-design/icons";
+import type dayjs from "dayjs";
+
+import { axiosInstance } from "../../providers/data-provider";
+import { PURCHASE_ORDER_STATUS_CONFIG } from "../../constants/tag-colors";
+import { sectionTitle } from "../../theme";
+
+interface PurchaseOrderLine {
+  id: string;
+  storeProductId: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  costPrice: number;
+  sellingPrice: number;
+  lineTotal: number;
+  marginPercent: number | null;
+  storeProduct: {
+    stock: number;
+    product?: { name: string };
+    variant?: { name?: string; sku?: string | null };
+  };
+}
+
+interface GoodsReceipt {
+  id: string;
+  invoiceNumber: string | null;
+  note: string | null;
+  createdAt: string;
+  receivedBy: { name: string } | null;
+  items: { purchaseOrderItemId: string; quantity: number }[];
+}
+
+const formatINR = (v: number) => `₹${Number(v).toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+const lineName = (line: PurchaseOrderLine) =>
+  line.storeProduct.variant?.name
+    ? `${line.storeProduct.product?.name} — ${line.storeProduct.variant.name}`
+    : line.storeProduct.product?.name ?? "—";
+
+export const PurchaseOrderShow = () => {
+  const { query } = useShow({ resource: "purchase-orders" });
+  const record = query?.data?.data;
+  const invalidate = useInvalidate();
+
+  const [receiveOpen, setReceiveOpen] = useState(false);
+  const [receiveQty, setReceiveQty] = useState<Record<string, number>>({});
+  const [receiveBatch, setReceiveBatch] = useState<Record<string, { lotNumber?: string; expiryDate?: dayjs.Dayjs | null }>>({});
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [receiveNote, setReceiveNote] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  if (!record) return null;
+
+  const lines = (record.items ?? []) as PurchaseOrderLine[];
+  const receipts = (record.receipts ?? []) as GoodsReceipt[];
+  const statusCfg = PURCHASE_ORDER_STATUS_CONFIG[record.status] ?? { color: "default", label: record.status };
+  const openLines = lines.filter((l) => l.quantityReceived < l.quantityOrdered);
+  const canReceive = record.status === "SENT" || record.status === "PARTIALLY_RECEIVED";
+  const canCancel = ["DRAFT", "SENT", "PARTIALLY_RECEIVED"].includes(record.status);
+
+  const totalOrdered = lines.reduce((s, l) => s + l.quantityOrdered, 0);
+  const totalReceived = lines.reduce((s, l) => s + l.quantityReceived, 0);
+
+  const refresh = () => invalidate({ resource: "purchase-orders", invalidates: ["detail", "list"], id: record.id });
+
+  const runAction = async (action: "send" | "cancel", successMessage: string) => {
+    setBusy(true);
+    try {
+      await axiosInstance.post(`/purchase-orders/${record.id}/${action}`);
+      message.success(successMessage);
+      refresh();
+    } catch (err: unknown) {
+      message.error((err as { response?: { data?: { message?: string } } })?.response?.data?.message ?? "Action failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openReceiveModal = () => {
+    setReceiveQty(Object.fromEntries(openLines.map((l) => [l.id, l.quantityOrdered - l.quantityReceived])));
+    setReceiveBatch({});
+    setInvoiceNumber("");
+    setReceiveNote("");
+    setReceiveOpen(true);
+  };
+
+  const handleReceive = async () => {
+    const items = Object.entries(receiveQty)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([purchaseOrderItemId, quantity]) => ({
+        purchaseOrderItemId,
+        quantity,
+        lotNumber: receiveBatch[purchaseOrderItemId]?.lotNumber?.trim() || undefined,
+        expiryDate: receiveBatch[purchaseOrderItemId]?.expiryDate?.toISOString() ?? undefined,
+      }));
+    if (items.length === 0) {
+      message.warning("Enter a quantity for at least one product");
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await axiosInstance.post(`/purchase-orders/${record.id}/receive`, {
+        items,
+        invoiceNumber: invoiceNumber.trim() || undefined,
+        note: receiveNote.trim() || undefined,
+      });
+      message.success("Goods received — stock updated");
+      setReceiveOpen(false);
+      refresh();
+    } catch (err: unknown) {
+      message.error((err as { response?: { data?: { message?: string } } })?.response?.data?.message ?? "Failed to record receipt");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Show headerButtons={() => (record.status === "DRAFT" ? <EditButton recordItemId={record.id} /> : null)}>
+      <Row gutter={[16, 16]}>
+        <Col xs={24}>
+          <Card size="small">
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+              <Space>
+                <span style={{ color: "#64748b", fontSize: 14 }}>Status:</span>
+                <Tag color={statusCfg.color} style={{ fontSize: 14, padding: "2px 12px" }}>
+                  {statusCfg.label}
+                </Tag>
+                {totalOrdered > 0 && record.status !== "DRAFT" && (
+                  <Progress
+                    percent={Math.round((totalReceived / totalOrdered) * 100)}
+                    size="small"
+                    style={{ width: 160, marginBottom: 0 }}
+                  />
+                )}
+              </Space>
+              <Space>
+                {record.status === "DRAFT" && (
+                  <Button type="primary" icon={<SendOutlined />} loading={busy} onClick={() => runAction("send", "Marked as sent")}>
+                    Mark as Sent
+                  </Button>
+                )}
+                {canReceive && (
+                  <Button type="primary" icon={<InboxOutlined />} onClick={openReceiveModal}>
+                    Receive Goods
+                  </Button>
+                )}
+                {canCancel && (
+                  <Button
+                    danger
+                    icon={<CloseCircleOutlined />}
+                    loading={busy}
+                    onClick={() =>
+                      Modal.confirm({
+                        title: record.status === "PARTIALLY_RECEIVED" ? "Close this purchase order?" : "Cancel this purchase order?",
+                        content: record.status === "PARTIALLY_RECEIVED"
+                          ? "Stock already received stays. Remaining quantities will no longer be expected."
+                          : undefined,
+                        okButtonProps: { danger: true },
+                        onOk: () => runAction("cancel", "Purchase order cancelled"),
+                      })
+                    }
+                  >
+                    {record.status === "PARTIALLY_RECEIVED" ? "Close" : "Cancel"}
+                  </Button>
+                )}
+              </Space>
+            </div>
+          </Card>
+        </Col>
+
+        <Col xs={24} lg={12}>
+          <Card title={sectionTitle(<FileTextOutlined />, "Purchase Order")} size="small">
+            <Descriptions column={1} size="small" bordered>
+              <Descriptions.Item label="PO">
+                <span style={{ fontFamily: "monospace" }}>{String(record.id).slice(0, 8)}</span>
+              </Descriptions.Item>
+              <Descriptions.Item label="Store">{record.store?.name}</Descriptions.Item>
+              <Descriptions.Item label="Supplier">
+                {record.supplier?.name}
+                {record.supplier?.phone && <span style={{ color: "#94a3b8", marginLeft: 8 }}>{record.supplier.phone}</span>}
+              </Descriptions.Item>
+              <Descriptions.Item label="Total Cost">
+                <strong>{formatINR(record.totalCost)}</strong>
+              </Descriptions.Item>
+              {record.expectedDate && (
+                <Descriptions.Item label="Expected">{new Date(record.expectedDate).toLocaleDateString()}</Descriptions.Item>
+              )}
+              {record.notes && <Descriptions.Item label="Notes">{record.notes}</Descriptions.Item>}
+              <Descriptions.Item label="Created">
+                {new Date(record.createdAt).toLocaleString()}
+                {record.createdBy?.name && <span style={{ color: "#94a3b8" }}> by {record.createdBy.name}</span>}
+              </Descriptions.Item>
+              {record.sentAt && <Descriptions.Item label="Sent">{new Date(record.sentAt).toLocaleString()}</Descriptions.Item>}
+              {record.receivedAt && (
+                <Descriptions.Item label="Received">{new Date(record.receivedAt).toLocaleString()}</Descriptions.Item>
+              )}
+            </Descriptions>
+          </Card>
+        </Col>
+
+        <Col xs={24} lg={12}>
+          <Card title={sectionTitle(<InboxOutlined />, "Goods Receipts")} size="small">
+            <Table
+              dataSource={receipts}
+              rowKey="id"
+              size="small"
+              pagination={false}
+              locale={{ emptyText: "Nothing received yet" }}
+              columns={[
+                {
+                  title: "Date",
+                  dataIndex: "createdAt",
+                  render: (v: string) => new Date(v).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }),
+                },
+                { title: "Invoice", dataIndex: "invoiceNumber", render: (v: string | null) => v ?? "—" },
+                {
+                  title: "Units",
+                  key: "units",
+                  align: "right" as const,
+                  render: (_: unknown, r: GoodsReceipt) => r.items.reduce((s, i) => s + i.quantity, 0),
+                },
+                { title: "By", key: "by", render: (_: unknown, r: GoodsReceipt) => r.receivedBy?.name ?? "—" },
+                { title: "Note", dataIndex: "note", ellipsis: true, render: (v: string | null) => v ?? "" },
+              ]}
+            />
+          </Card>
+        </Col>
+
+        <Col xs={24}>
+          <Card title={sectionTitle(<UnorderedListOutlined />, "Products")} size="small">
+            <Table
+              dataSource={lines}
+              rowKey="id"
+              size="small"
+              pagination={false}
+              columns={[
+                {
+                  title: "Product",
+                  key: "product",
+                  render: (_: unknown, l: PurchaseOrderLine) => (
+                    <div>
+                      <div style={{ fontWeight: 500 }}>{lineName(l)}</div>
+                      {l.storeProduct.variant?.sku && (
+                        <div style={{ fontSize: 12, color: "#94a3b8" }}>SKU {l.storeProduct.variant.sku}</div>
+                      )}
+                    </div>
+                  ),
+                },
+                { title: "Ordered", dataIndex: "quantityOrdered", align: "right" as const, width: 90 },
+                {
+                  title: "Received",
+                  dataIndex: "quantityReceived",
+                  align: "right" as const,
+                  width: 90,
+                  render: (v: number, l: PurchaseOrderLine) => (
+                    <span style={{ color: v >= l.quantityOrdered ? "#16a34a" : undefined }}>{v}</span>
+                  ),
+                },
+                { title: "Unit Cost", dataIndex: "costPrice", align: "right" as const, width: 110, render: formatINR },
+                { title: "Sells At", dataIndex: "sellingPrice", align: "right" as const, width: 110, render: formatINR },
+                {
+                  title: "Margin",
+                  dataIndex: "marginPercent",
+                  align: "right" as const,
+                  width: 90,
+                  render: (v: number | null) =>
+                    v == null ? "—" : <Tag color={v < 0 ? "red" : v < 10 ? "orange" : "green"}>{v}%</Tag>,
+                },
+                { title: "Line Total", dataIndex: "lineTotal", align: "right" as const, width: 120, render: formatINR },
+              ]}
+            />
+          </Card>
+        </Col>
+      </Row>
+
+      <Modal
+        title="Receive Goods"
+        open={receiveOpen}
+        onCancel={() => setReceiveOpen(false)}
+        onOk={handleReceive}
+        okText="Record Receipt"
+        confirmLoading={busy}
+        width={860}
+      >
+        <Space direction="vertical" style={{ width: "100%" }} size="middle">
+          <Row gutter={12}>
+            <Col span={12}>
+              <Input placeholder="Supplier invoice no. (optional)" value={invoiceNumber} onChange={(e) => setInvoiceNumber(e.target.value)} />
+            </Col>
+            <Col span={12}>
+              <Input placeholder="Note (optional)" value={receiveNote} onChange={(e) => setReceiveNote(e.target.value)} />
+            </Col>
+          </Row>
+          <Table
+            dataSource={openLines}
+            rowKey="id"
+            size="small"
+            pagination={false}
+            columns={[
+              { title: "Product", key: "product", render: (_: unknown, l: PurchaseOrderLine) => lineName(l) },
+              {
+                title: "Outstanding",
+                key: "outstanding",
+                align: "right" as const,
+                width: 110,
+                render: (_: unknown, l: PurchaseOrderLine) => l.quantityOrdered - l.quantityReceived,
+              },
+              {
+                title: "Receiving",
+                key: "receiving",
+                width: 120,
+                render: (_: unknown, l: PurchaseOrderLine) => (
+                  <InputNumber
+                    min={0}
+                    max={l.quantityOrdered - l.quantityReceived}
+                    value={receiveQty[l.id] ?? 0}
+                    onChange={(v) => setReceiveQty((prev) => ({ ...prev, [l.id]: Number(v ?? 0) }))}
+                    style={{ width: "100%" }}
+                  />
+                ),
+              },
+              {
+                title: "Lot",
+                key: "lot",
+                width: 120,
+                render: (_: unknown, l: PurchaseOrderLine) => (
+                  <Input
+                    placeholder="Optional"
+                    value={receiveBatch[l.id]?.lotNumber ?? ""}
+                    onChange={(e) => setReceiveBatch((prev) => ({ ...prev, [l.id]: { ...prev[l.id], lotNumber: e.target.value } }))}
+                  />
+                ),
+              },
+              {
+                title: "Expiry",
+                key: "expiry",
+                width: 150,
+                render: (_: unknown, l: PurchaseOrderLine) => (
+                  <DatePicker
+                    placeholder="Shelf life"
+                    value={receiveBatch[l.id]?.expiryDate ?? null}
+                    onChange={(d) => setReceiveBatch((prev) => ({ ...prev, [l.id]: { ...prev[l.id], expiryDate: d } }))}
+                    style={{ width: "100%" }}
+                  />
+                ),
+              },
+            ]}
+          />
+        </Space>
+      </Modal>
+    </Show>
+  );
+};
@@ -14,6 +14,8 @@ import {
   InputNumber,
   Input,
   Image,
+  Radio,
+  Checkbox,
   message,
 } from "antd";
 import {
@@ -26,8 +28,9 @@ import {
   CloseCircleOutlined,
 } from "@ant-design/icons";
 import { axiosInstance } from "../../providers/data-provider";
-import { RETURN_REQUEST_STATUS_CONFIG } from "../../constants/tag-colors";
+import { RETURN_REQUEST_STATUS_CONFIG, REFUND_STATUS_CONFIG, REFUND_DESTINATION_CONFIG } from "../../constants/tag-colors";
 import { sectionTitle } from "../../theme";
+import { DeliveryProofCard } from "../../components/DeliveryProofCard";
 
 const { TextArea } = Input;
 
@@ -53,6 +56,8 @@ export const ReturnRequestShow = () => {
   const [rejectOpen, setRejectOpen] = useState(false);
   const [approvedAmount, setApprovedAmount] = useState<number>(0);
   const [adminNote, setAdminNote] = useState("");
+  const [refundDestination, setRefundDestination] = useState<"WALLET" | "SOURCE">("WALLET");
+  const [restock, setRestock] = useState(false);
   const [resolving, setResolving] = useState(false);
 
   if (!record) return null;
@@ -62,6 +67,8 @@ export const ReturnRequestShow = () => {
   const openApproveModal = () => {
     setApprovedAmount(Number(record.requestedAmount));
     setAdminNote("");
+    setRefundDestination("WALLET");
+    setRestock(false);
     setApproveOpen(true);
   };
 
@@ -76,6 +83,8 @@ export const ReturnRequestShow = () => {
       const body: any = { status };
       if (status === "APPROVED") {
         body.approvedAmount = approvedAmount;
+        body.refundDestination = refundDestination;
+        body.restock = restock;
         if (adminNote.trim()) body.adminNote = adminNote.trim();
       } else {
         body.adminNote = adminNote.trim();
@@ -151,6 +160,19 @@ export const ReturnRequestShow = () => {
               {record.adminNote && (
                 <Descriptions.Item label="Admin Note">{record.adminNote}</Descriptions.Item>
               )}
+              {record.refunds?.map((refund: { id: string; amount: number; destination: string; status: string }) => (
+                <Descriptions.Item key={refund.id} label="Refund">
+                  <Space size={4}>
+                    {"\u20B9"}{Number(refund.amount).toLocaleString("en-IN", { maximumFractionDigits: 0 })}
+                    <Tag color={REFUND_DESTINATION_CONFIG[refund.destination]?.color ?? "default"}>
+                      {REFUND_DESTINATION_CONFIG[refund.destination]?.label ?? refund.destination}
+                    </Tag>
+                    <Tag color={REFUND_STATUS_CONFIG[refund.status]?.color ?? "default"}>
+                      {REFUND_STATUS_CONFIG[refund.status]?.label ?? refund.status}
+                    </Tag>
+                  </Space>
+                </Descriptions.Item>
+              ))}
               <Descriptions.Item label="Created">
                 {record.createdAt ? new Date(record.createdAt).toLocaleString() : "\u2014"}
               </Descriptions.Item>
@@ -185,6 +207,9 @@ export const ReturnRequestShow = () => {
               </Descriptions.Item>
             </Descriptions>
           </Card>
+          {record.order?.deliveryProof?.deliveredAt && (
+            <DeliveryProofCard proof={record.order.deliveryProof} style={{ marginTop: 16 }} />
+          )}
         </Col>
 
         {record.images && record.images.length > 0 && (
@@ -281,6 +306,30 @@ export const ReturnRequestShow = () => {
             Requested: {"\u20B9"}{Number(record.requestedAmount).toLocaleString("en-IN", { maximumFractionDigits: 0 })}. Adjust for partial refunds.
           </div>
         </div>
+        <div style={{ marginBottom: 16 }}>
+          <label style={{ display: "block", marginBottom: 4, fontWeight: 500 }}>
+            Refund To
+          </label>
+          <Radio.Group value={refundDestination} onChange={(e) => setRefundDestination(e.target.value)}>
+            <Radio value="WALLET">Customer Wallet</Radio>
+            <Radio value="SOURCE" disabled={record.order?.paymentMethod !== "ONLINE"}>
+              Original Payment
+            </Radio>
+          </Radio.Group>
+          <div style={{ fontSize: 12, color: "#64748b", marginTop: 4 }}>
+            {record.order?.paymentMethod === "ONLINE"
+              ? "Any amount beyond what was paid online is credited to the wallet."
+              : "COD orders can only be refunded to the wallet."}
+          </div>
+        </div>
+        <div style={{ marginBottom: 16 }}>
+          <Checkbox checked={restock} onChange={(e) => setRestock(e.target.checked)}>
+            Put returned items back in stock
+          </Checkbox>
+          <div style={{ fontSize: 12, color: "#64748b", marginTop: 4 }}>
+            Only if the items came back in a condition the store can sell again.
+          </div>
+        </div>
         <div>
           <label style={{ display: "block", marginBottom: 4, fontWeight: 500 }}>
             Admin Note (optional)
@@ -6,6 +6,7 @@ import {
   Modal,
   Form,
   Input,
+  InputNumber,
   Space,
   Typography,
   Tag,
@@ -21,7 +22,11 @@ import {
   ShopOutlined,
   PhoneOutlined,
   MailOutlined,
+  FileTextOutlined,
+  DollarOutlined,
 } from "@ant-design/icons";
+import { useGetIdentity } from "@refinedev/core";
+import { useNavigate } from "react-router";
 import dayjs from "dayjs";
 
 import { axiosInstance } from "../../providers/data-provider";
@@ -46,6 +51,13 @@ interface Rider {
   email: string;
   createdAt: string;
   tripStats: TripStats;
+  online: boolean;
+  shiftStartedAt: string | null;
+  unpaidEarnings: number;
+}
+
+interface Identity {
+  role: string;
 }
 
 export const RidersList = () => {
@@ -57,6 +69,13 @@ export const RidersList = () => {
   const [editingRider, setEditingRider] = useState<Rider | null>(null);
   const [saving, setSaving] = useState(false);
   const [form] = Form.useForm();
+  const [ruleModalOpen, setRuleModalOpen] = useState(false);
+  const [savingRule, setSavingRule] = useState(false);
+  const [ruleForm] = Form.useForm();
+  const navigate = useNavigate();
+  const { data: identity } = useGetIdentity<Identity>();
+
+  const canSetPay = identity?.role === "SUPER_ADMIN" || identity?.role === "ORG_ADMIN";
 
   // Fetch stores on mount
   useEffect(() => {
@@ -85,6 +104,31 @@ export const RidersList = () => {
     fetchRiders();
   }, [fetchRiders]);
 
+  const openPayRates = async () => {
+    try {
+      const res = await axiosInstance.get(`/riders/earnings-rule?storeId=${storeId}`);
+      ruleForm.setFieldsValue(res?.data?.data ?? { baseFee: 0, perKm: 0, perDrop: 0 });
+      setRuleModalOpen(true);
+    } catch {
+      message.error("Failed to load pay rates");
+    }
+  };
+
+  const handleSaveRule = async () => {
+    const values = await ruleForm.validateFields();
+    setSavingRule(true);
+    try {
+      await axiosInstance.put(`/riders/earnings-rule?storeId=${storeId}`, values);
+      message.success("Pay rates updated");
+      setRuleModalOpen(false);
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { message?: string } } };
+      message.error(e?.response?.data?.message ?? "Failed to save pay rates");
+    } finally {
+      setSavingRule(false);
+    }
+  };
+
   const openCreate = () => {
     setEditingRider(null);
     form.resetFields();
@@ -144,6 +188,24 @@ export const RidersList = () => {
       key: "name",
       render: (name: string) => <Text strong>{name}</Text>,
     },
+    {
+      title: "Status",
+      key: "online",
+      width: 150,
+      render: (_: unknown, rec: Rider) =>
+        rec.online ? (
+          <Space size={4}>
+            <Tag color="success">Online</Tag>
+            {rec.shiftStartedAt && (
+              <Text type="secondary" style={{ fontSize: 12 }}>
+                since {dayjs(rec.shiftStartedAt).format("h:mm A")}
+              </Text>
+            )}
+          </Space>
+        ) : (
+          <Tag>Offline</Tag>
+        ),
+    },
     {
       title: "Phone",
       dataIndex: "phone",
@@ -185,6 +247,14 @@ export const RidersList = () => {
         </Space>
       ),
     },
+    {
+      title: "Unpaid",
+      dataIndex: "unpaidEarnings",
+      key: "unpaidEarnings",
+      width: 100,
+      render: (v: number) =>
+        v > 0 ? <Text strong>{"\u20B9"}{v.toFixed(2)}</Text> : <Text type="secondary">{"\u2014"}</Text>,
+    },
     {
       title: "Added On",
       dataIndex: "createdAt",
@@ -199,9 +269,15 @@ export const RidersList = () => {
     {
       title: "Actions",
       key: "actions",
-      width: 120,
+      width: 150,
       render: (_: unknown, rec: Rider) => (
         <Space size={4}>
+          <Button
+            size="small"
+            icon={<FileTextOutlined />}
+            title="Payout statement"
+            onClick={() => navigate(`/riders/show/${rec.id}?storeId=${storeId}`)}
+          />
           <Button
             size="small"
             icon={<EditOutlined />}
@@ -252,6 +328,11 @@ export const RidersList = () => {
             options={stores.map((s) => ({ label: s.name, value: s.id }))}
             suffixIcon={<ShopOutlined />}
           />
+          {storeId && canSetPay && (
+            <Button icon={<DollarOutlined />} onClick={openPayRates}>
+              Pay Rates
+            </Button>
+          )}
           {storeId && (
             <Button type="primary" icon={<PlusOutlined />} onClick={openCreate}>
               Add Rider
@@ -334,6 +415,31 @@ export const RidersList = () => {
           </Form.Item>
         </Form>
       </Modal>
+
+      <Modal
+        title="Rider Pay Rates"
+        open={ruleModalOpen}
+        onCancel={() => setRuleModalOpen(false)}
+        onOk={handleSaveRule}
+        confirmLoading={savingRule}
+        destroyOnClose
+      >
+        <Text type="secondary">
+          Each completed trip earns the base fee, plus the per-km rate for the distance driven and the
+          per-drop rate for each delivered order. New rates apply to trips completed from now on.
+        </Text>
+        <Form form={ruleForm} layout="vertical" style={{ marginTop: 16 }}>
+          <Form.Item label="Base fee per trip" name="baseFee" rules={[{ required: true, message: "Required" }]}>
+            <InputNumber min={0} max={10000} step={5} prefix={"\u20B9"} style={{ width: "100%" }} />
+          </Form.Item>
+          <Form.Item label="Per km" name="perKm" rules={[{ required: true, message: "Required" }]}>
+            <InputNumber min={0} max={1000} step={0.5} prefix={"\u20B9"} style={{ width: "100%" }} />
+          </Form.Item>
+          <Form.Item label="Per drop" name="perDrop" rules={[{ required: true, message: "Required" }]}>
+            <InputNumber min={0} max={1000} step={1} prefix={"\u20B9"} style={{ width: "100%" }} />
+          </Form.Item>
+        </Form>
+      </Modal>
     </div>
   );
 };
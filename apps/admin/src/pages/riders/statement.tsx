@@ -0,0 +1,326 @@
+import { useState, useEffect, useCallback } from "react";
+import { useParams, useNavigate, useSearchParams } from "react-router";
+import { useGetIdentity } from "@refinedev/core";
+import {
+  Card,
+  Row,
+  Col,
+  Statistic,
+  Table,
+  Tag,
+  Button,
+  Modal,
+  Form,
+  Input,
+  DatePicker,
+  Space,
+  Typography,
+  Empty,
+  Spin,
+  message,
+} from "antd";
+import {
+  ArrowLeftOutlined,
+  CarOutlined,
+  ClockCircleOutlined,
+  WalletOutlined,
+  DollarOutlined,
+} from "@ant-design/icons";
+import dayjs, { type Dayjs } from "dayjs";
+import { axiosInstance } from "../../providers/data-provider";
+import { sectionTitle } from "../../theme";
+
+const { Text } = Typography;
+
+interface Identity {
+  role: string;
+}
+
+interface ShiftRow {
+  id: string;
+  startedAt: string;
+  endedAt: string | null;
+  minutes: number;
+}
+
+interface TripEarningRow {
+  id: string;
+  tripId: string;
+  completedAt: string | null;
+  distanceKm: number;
+  drops: number;
+  baseAmount: number;
+  distanceAmount: number;
+  dropAmount: number;
+  totalAmount: number;
+  paid: boolean;
+}
+
+interface PayoutRow {
+  id: string;
+  amount: number;
+  reference: string | null;
+  note: string | null;
+  createdAt: string;
+  paidBy: { id: string; name: string };
+}
+
+interface Statement {
+  rider: { id: string; name: string; phone: string | null; email: string };
+  shifts: ShiftRow[];
+  trips: TripEarningRow[];
+  payouts: PayoutRow[];
+  totals: {
+    onlineMinutes: number;
+    trips: number;
+    drops: number;
+    distanceKm: number;
+    earned: number;
+    paidOut: number;
+    unpaidBalance: number;
+  };
+}
+
+const rupees = (v: number) => `₹${v.toFixed(2)}`;
+
+const formatMinutes = (minutes: number) => {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return h > 0 ? `${h}h ${m}m` : `${m}m`;
+};
+
+export const RiderStatement = () => {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const storeId = searchParams.get("storeId");
+  const navigate = useNavigate();
+  const { data: identity } = useGetIdentity<Identity>();
+  const canPay = identity?.role === "SUPER_ADMIN" || identity?.role === "ORG_ADMIN";
+
+  const [range, setRange] = useState<[Dayjs, Dayjs]>([dayjs().subtract(6, "day"), dayjs()]);
+  const [statement, setStatement] = useState<Statement | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [payModalOpen, setPayModalOpen] = useState(false);
+  const [paying, setPaying] = useState(false);
+  const [form] = Form.useForm();
+
+  const fetchStatement = useCallback(async () => {
+    if (!id || !storeId) return;
+    setLoading(true);
+    try {
+      const from = range[0].format("YYYY-MM-DD");
+      const to = range[1].format("YYYY-MM-DD");
+      const res = await axiosInstance.get(`/riders/${id}/statement?storeId=${storeId}&from=${from}&to=${to}`);
+      setStatement(res?.data?.data ?? null);
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { message?: string } } };
+      message.error(e?.response?.data?.message ?? "Failed to load statement");
+      setStatement(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [id, storeId, range]);
+
+  useEffect(() => {
+    fetchStatement();
+  }, [fetchStatement]);
+
+  const handlePayout = async () => {
+    const values = await form.validateFields();
+    setPaying(true);
+    try {
+      const res = await axiosInstance.post(`/riders/${id}/payouts?storeId=${storeId}`, values);
+      const payout = res?.data?.data;
+      message.success(`Paid ${rupees(payout?.amount ?? 0)} for ${payout?.trips ?? 0} trip(s)`);
+      setPayModalOpen(false);
+      fetchStatement();
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { message?: string } } };
+      message.error(e?.response?.data?.message ?? "Failed to record payout");
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  if (!storeId) return <Empty description="Open a statement from the Riders list" />;
+
+  const totals = statement?.totals;
+
+  const tripColumns = [
+    {
+      title: "Completed",
+      dataIndex: "completedAt",
+      key: "completedAt",
+      render: (v: string | null) => (v ? dayjs(v).format("DD MMM, h:mm A") : "—"),
+    },
+    { title: "Trip", dataIndex: "tripId", key: "tripId", render: (v: string) => <Text code>{v.slice(0, 8)}</Text> },
+    { title: "Distance", dataIndex: "distanceKm", key: "distanceKm", render: (v: number) => `${v.toFixed(1)} km` },
+    { title: "Drops", dataIndex: "drops", key: "drops" },
+    { title: "Base", dataIndex: "baseAmount", key: "baseAmount", render: rupees },
+    { title: "Distance Pay", dataIndex: "distanceAmount", key: "distanceAmount", render: rupees },
+    { title: "Drop Pay", dataIndex: "dropAmount", key: "dropAmount", render: rupees },
+    { title: "Total", dataIndex: "totalAmount", key: "totalAmount", render: (v: number) => <Text strong>{rupees(v)}</Text> },
+    {
+      title: "Status",
+      dataIndex: "paid",
+      key: "paid",
+      render: (paid: boolean) => (paid ? <Tag color="success">Paid</Tag> : <Tag color="warning">Unpaid</Tag>),
+    },
+  ];
+
+  const shiftColumns = [
+    { title: "Clocked In", dataIndex: "startedAt", key: "startedAt", render: (v: string) => dayjs(v).format("DD MMM, h:mm A") },
+    {
+      title: "Clocked Out",
+      dataIndex: "endedAt",
+      key: "endedAt",
+      render: (v: string | null) => (v ? dayjs(v).format("DD MMM, h:mm A") : <Tag color="success">On shift</Tag>),
+    },
+    { title: "Online", dataIndex: "minutes", key: "minutes", render: formatMinutes },
+  ];
+
+  const payoutColumns = [
+    { title: "Paid On", dataIndex: "createdAt", key: "createdAt", render: (v: string) => dayjs(v).format("DD MMM YYYY, h:mm A") },
+    { title: "Amount", dataIndex: "amount", key: "amount", render: (v: number) => <Text strong>{rupees(v)}</Text> },
+    { title: "Reference", dataIndex: "reference", key: "reference", render: (v: string | null) => v ?? "—" },
+    { title: "Paid By", key: "paidBy", render: (_: unknown, rec: PayoutRow) => rec.paidBy.name },
+    { title: "Note", dataIndex: "note", key: "note", render: (v: string | null) => v ?? "—" },
+  ];
+
+  return (
+    <div>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: 16,
+          flexWrap: "wrap",
+          gap: 12,
+        }}
+      >
+        <Space size={12}>
+          <Button icon={<ArrowLeftOutlined />} onClick={() => navigate("/riders")} />
+          <div>
+            <h2 style={{ margin: 0, fontSize: 22, fontWeight: 700 }}>{statement?.rider.name ?? "Rider"} — Statement</h2>
+            {statement?.rider.phone && <Text type="secondary">{statement.rider.phone}</Text>}
+          </div>
+        </Space>
+        <Space size={8}>
+          <DatePicker.RangePicker
+            value={range}
+            onChange={(v) => {
+              if (v?.[0] && v?.[1]) setRange([v[0], v[1]]);
+            }}
+            allowClear={false}
+            disabledDate={(d) => d.isAfter(dayjs(), "day")}
+          />
+          {canPay && (
+            <Button
+              type="primary"
+              icon={<DollarOutlined />}
+              disabled={!totals || totals.unpaidBalance <= 0}
+              onClick={() => {
+                form.resetFields();
+                setPayModalOpen(true);
+              }}
+            >
+              Record Payout
+            </Button>
+          )}
+        </Space>
+      </div>
+
+      <Spin spinning={loading}>
+        <Row gutter={[16, 16]} style={{ marginBottom: 16 }}>
+          <Col xs={12} md={4}>
+            <Card size="small"><Statistic title="Online" value={formatMinutes(totals?.onlineMinutes ?? 0)} /></Card>
+          </Col>
+          <Col xs={12} md={4}>
+            <Card size="small"><Statistic title="Trips" value={totals?.trips ?? 0} /></Card>
+          </Col>
+          <Col xs={12} md={4}>
+            <Card size="small"><Statistic title="Drops" value={totals?.drops ?? 0} /></Card>
+          </Col>
+          <Col xs={12} md={4}>
+            <Card size="small"><Statistic title="Distance" value={totals?.distanceKm ?? 0} precision={1} suffix="km" /></Card>
+          </Col>
+          <Col xs={12} md={4}>
+            <Card size="small"><Statistic title="Earned" value={totals?.earned ?? 0} precision={2} prefix={"₹"} /></Card>
+          </Col>
+          <Col xs={12} md={4}>
+            <Card size="small">
+              <Statistic
+                title="Unpaid Balance"
+                value={totals?.unpaidBalance ?? 0}
+                precision={2}
+                prefix={"₹"}
+                valueStyle={{ color: (totals?.unpaidBalance ?? 0) > 0 ? "#d97706" : undefined }}
+              />
+            </Card>
+          </Col>
+        </Row>
+
+        <Card title={sectionTitle(<CarOutlined />, "Trip Earnings")} size="small" style={{ marginBottom: 16 }}>
+          <Table
+            dataSource={statement?.trips ?? []}
+            columns={tripColumns}
+            rowKey="id"
+            size="small"
+            pagination={{ pageSize: 20, hideOnSinglePage: true }}
+            locale={{ emptyText: <Empty description="No completed trips in this period" /> }}
+          />
+        </Card>
+
+        <Row gutter={16}>
+          <Col xs={24} lg={10}>
+            <Card title={sectionTitle(<ClockCircleOutlined />, "Shifts")} size="small" style={{ marginBottom: 16 }}>
+              <Table
+                dataSource={statement?.shifts ?? []}
+                columns={shiftColumns}
+                rowKey="id"
+                size="small"
+                pagination={{ pageSize: 10, hideOnSinglePage: true }}
+                locale={{ emptyText: <Empty description="No shifts in this period" /> }}
+              />
+            </Card>
+          </Col>
+          <Col xs={24} lg={14}>
+            <Card title={sectionTitle(<WalletOutlined />, "Payouts")} size="small" style={{ marginBottom: 16 }}>
+              <Table
+                dataSource={statement?.payouts ?? []}
+                columns={payoutColumns}
+                rowKey="id"
+                size="small"
+                pagination={{ pageSize: 10, hideOnSinglePage: true }}
+                locale={{ emptyText: <Empty description="No payouts in this period" /> }}
+              />
+            </Card>
+          </Col>
+        </Row>
+      </Spin>
+
+      <Modal
+        title="Record Payout"
+        open={payModalOpen}
+        onCancel={() => setPayModalOpen(false)}
+        onOk={handlePayout}
+        okText={`Pay ${rupees(totals?.unpaidBalance ?? 0)}`}
+        confirmLoading={paying}
+        destroyOnClose
+      >
+        <Text type="secondary">
+          Settles every unpaid trip for this rider at this store. Record how the money was sent.
+        </Text>
+        <Form form={form} layout="vertical" style={{ marginTop: 16 }}>
+          <Form.Item label="Reference" name="reference">
+            <Input placeholder="UPI / bank transaction ID" maxLength={100} />
+          </Form.Item>
+          <Form.Item label="Note" name="note">
+            <Input.TextArea rows={2} maxLength={500} />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import { useEffect, useMemo, useState } from "react";
+import { Create, useForm, useSelect } from "@refinedev/antd";
+import { Form, Input, Select, InputNumber, Button, Card, Row, Col, Typography, theme } from "antd";
+import { SwapOutlined, UnorderedListOutlined, PlusOutlined, MinusCircleOutlined } from "@ant-design/icons";
+
+import { axiosInstance } from "../../providers/data-provider";
+import { sectionTitle } from "../../theme";
+
+const { Text } = Typography;
+
+interface SourceProductOption {
+  id: string;
+  variantId: string;
+  stock: number;
+  reservedStock: number;
+  product?: { name: string };
+  variant?: { name?: string };
+}
+
+interface TransferLineValues {
+  variantId?: string;
+  quantity?: number;
+}
+
+export const StockTransferCreate = () => {
+  const { token } = theme.useToken();
+  const { formProps, saveButtonProps } = useForm({ resource: "stock-transfers", redirect: "show" });
+  const sourceStoreId = Form.useWatch("sourceStoreId", formProps.form) as string | undefined;
+  const items = (Form.useWatch("items", formProps.form) ?? []) as TransferLineValues[];
+  const [sourceProducts, setSourceProducts] = useState<SourceProductOption[]>([]);
+
+  const { selectProps: storeSelectProps } = useSelect({
+    resource: "stores",
+    optionLabel: "name",
+    optionValue: "id",
+  });
+
+  useEffect(() => {
+    if (!sourceStoreId) {
+      setSourceProducts([]);
+      return;
+    }
+    axiosInstance
+      .get("/store-products", { params: { storeId: sourceStoreId, pageSize: 500 } })
+      .then((res) => setSourceProducts(res.data.data))
+      .catch(() => setSourceProducts([]));
+  }, [sourceStoreId]);
+
+  const byVariant = useMemo(() => new Map(sourceProducts.map((sp) => [sp.variantId, sp])), [sourceProducts]);
+  const options = sourceProducts.map((sp) => ({
+    label: sp.variant?.name ? `${sp.product?.name} — ${sp.variant.name}` : sp.product?.name ?? sp.id,
+    value: sp.variantId,
+  }));
+
+  const originalOnFinish = formProps.onFinish;
+  const enhancedFormProps = {
+    ...formProps,
+    onFinish: (values: Record<string, unknown>) => {
+      return originalOnFinish?.({
+        sourceStoreId: values.sourceStoreId,
+        destinationStoreId: values.destinationStoreId,
+        note: values.note || undefined,
+        items: ((values.items as TransferLineValues[]) ?? []).map((i) => ({
+          variantId: i.variantId,
+          quantity: Number(i.quantity),
+        })),
+      });
+    },
+  };
+
+  return (
+    <Create saveButtonProps={saveButtonProps} title="Request Stock Transfer">
+      <Form {...enhancedFormProps} layout="vertical" initialValues={{ items: [{ quantity: 1 }] }}>
+        <Row gutter={[16, 16]}>
+          <Col xs={24}>
+            <Card title={sectionTitle(<SwapOutlined />, "Transfer")} size="small">
+              <Row gutter={16}>
+                <Col xs={24} md={8}>
+                  <Form.Item label="From Store" name="sourceStoreId" rules={[{ required: true }]}>
+                    <Select
+                      {...storeSelectProps}
+                      placeholder="Select source store"
+                      onChange={(value) => {
+                        formProps.form?.setFieldsValue({ sourceStoreId: value, items: [{ quantity: 1 }] });
+                      }}
+                    />
+                  </Form.Item>
+                </Col>
+                <Col xs={24} md={8}>
+                  <Form.Item
+                    label="To Store"
+                    name="destinationStoreId"
+                    dependencies={["sourceStoreId"]}
+                    rules={[
+                      { required: true },
+                      ({ getFieldValue }) => ({
+                        validator: async (_, value) => {
+                          if (value && value === getFieldValue("sourceStoreId")) {
+                            throw new Error("Must differ from the source store");
+                          }
+                        },
+                      }),
+                    ]}
+                  >
+                    <Select {...storeSelectProps} placeholder="Select destination store" />
+                  </Form.Item>
+                </Col>
+                <Col xs={24} md={8}>
+                  <Form.Item label="Note" name="note">
+                    <Input placeholder="Optional" />
+                  </Form.Item>
+                </Col>
+              </Row>
+            </Card>
+          </Col>
+          <Col xs={24}>
+            <Card title={sectionTitle(<UnorderedListOutlined />, "Products")} size="small">
+              <Form.List name="items" rules={[{ validator: async (_, value) => { if (!value?.length) throw new Error("Add at least one product"); } }]}>
+                {(fields, { add, remove }, { errors }) => (
+                  <>
+                    {fields.map(({ key, name, ...restField }) => {
+                      const line = items[name];
+                      const sp = line?.variantId ? byVariant.get(line.variantId) : undefined;
+                      const available = sp ? sp.stock - sp.reservedStock : undefined;
+                      return (
+                        <Row key={key} gutter={12} align="middle" style={{ marginBottom: 8, padding: 8, background: token.colorFillAlter, borderRadius: 6 }}>
+                          <Col xs={24} md={12}>
+                            <Form.Item {...restField} name={[name, "variantId"]} rules={[{ required: true, message: "Select a product" }]} style={{ marginBottom: 0 }}>
+                              <Select
+                                showSearch
+                                placeholder={sourceStoreId ? "Select product" : "Select a source store first"}
+                                disabled={!sourceStoreId}
+                                options={options}
+                                optionFilterProp="label"
+                              />
+                            </Form.Item>
+                          </Col>
+                          <Col xs={10} md={5}>
+                            <Form.Item {...restField} name={[name, "quantity"]} rules={[{ required: true, message: "Qty" }]} style={{ marginBottom: 0 }}>
+                              <InputNumber min={1} step={1} placeholder="Qty" style={{ width: "100%" }} />
+                            </Form.Item>
+                          </Col>
+                          <Col xs={12} md={6}>
+                            {available !== undefined && (
+                              <Text
+                                type="secondary"
+                                style={{ fontSize: 12, color: (line?.quantity ?? 0) > available ? token.colorError : undefined }}
+                              >
+                                {available} available at source
+                              </Text>
+                            )}
+                          </Col>
+                          <Col xs={2} md={1}>
+                            <MinusCircleOutlined onClick={() => remove(name)} style={{ color: "#ff4d4f" }} />
+                          </Col>
+                        </Row>
+                      );
+                    })}
+                    <Form.ErrorList errors={errors} />
+                    <Button type="dashed" onClick={() => add({ quantity: 1 })} icon={<PlusOutlined />} disabled={!sourceStoreId} style={{ marginTop: 8 }}>
+                      Add Product
+                    </Button>
+                  </>
+                )}
+              </Form.List>
+            </Card>
+          </Col>
+        </Row>
+      </Form>
+    </Create>
+  );
+};
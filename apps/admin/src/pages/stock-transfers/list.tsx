@@ -0,0 +1,132 @@
+import { List, useTable, useSelect, ShowButton } from "@refinedev/antd";
+import { Table, Tag, Select, Card, Row, Col } from "antd";
+import { ArrowRightOutlined } from "@ant-design/icons";
+
+import { STOCK_TRANSFER_STATUS_CONFIG } from "../../constants/tag-colors";
+
+const statusOptions = Object.entries(STOCK_TRANSFER_STATUS_CONFIG).map(([value, { label }]) => ({ label, value }));
+
+const directionOptions = [
+  { label: "Outgoing", value: "out" },
+  { label: "Incoming", value: "in" },
+];
+
+interface StockTransferRow {
+  id: string;
+  status: string;
+  note: string | null;
+  createdAt: string;
+  sourceStore?: { name: string };
+  destinationStore?: { name: string };
+  requestedBy?: { name: string } | null;
+  _count?: { items: number };
+}
+
+export const StockTransferList = () => {
+  const { tableProps, setFilters, filters } = useTable<StockTransferRow>({
+    resource: "stock-transfers",
+    syncWithLocation: true,
+  });
+
+  const { selectProps: storeSelectProps } = useSelect({
+    resource: "stores",
+    optionLabel: "name",
+    optionValue: "id",
+  });
+
+  const currentFilters = filters ?? [];
+  const getFilterValue = (field: string) => {
+    const f = currentFilters.find((f) => "field" in f && f.field === field);
+    return f && "value" in f ? f.value : undefined;
+  };
+
+  const handleFilter = (field: string, value: string | undefined) => {
+    setFilters([
+      { field, operator: "eq", value: value || undefined },
+    ], "merge");
+  };
+
+  return (
+    <List>
+      <Card size="small" style={{ marginBottom: 16 }}>
+        <Row gutter={[12, 12]}>
+          <Col xs={12} md={5}>
+            <Select
+              {...(storeSelectProps as object)}
+              placeholder="Store"
+              value={getFilterValue("storeId")}
+              onChange={(v: string) => handleFilter("storeId", v)}
+              allowClear
+              style={{ width: "100%" }}
+            />
+          </Col>
+          <Col xs={12} md={4}>
+            <Select
+              placeholder="Direction"
+              options={directionOptions}
+              value={getFilterValue("direction")}
+              onChange={(v) => handleFilter("direction", v)}
+              disabled={!getFilterValue("storeId")}
+              allowClear
+              style={{ width: "100%" }}
+            />
+          </Col>
+          <Col xs={12} md={4}>
+            <Select
+              placeholder="Status"
+              options={statusOptions}
+              value={getFilterValue("status")}
+              onChange={(v) => handleFilter("status", v)}
+              allowClear
+              style={{ width: "100%" }}
+            />
+          </Col>
+        </Row>
+      </Card>
+
+      <Table {...tableProps} rowKey="id" size="small">
+        <Table.Column
+          dataIndex="id"
+          title="Transfer"
+          width={100}
+          render={(v: string) => <span style={{ fontFamily: "monospace" }}>{v.slice(0, 8)}</span>}
+        />
+        <Table.Column
+          key="route"
+          title="From → To"
+          render={(_: unknown, r: StockTransferRow) => (
+            <span>
+              {r.sourceStore?.name}
+              <ArrowRightOutlined style={{ margin: "0 8px", color: "#94a3b8" }} />
+              {r.destinationStore?.name}
+            </span>
+          )}
+        />
+        <Table.Column dataIndex={["_count", "items"]} title="Lines" width={70} align="right" />
+        <Table.Column
+          dataIndex="status"
+          title="Status"
+          width={120}
+          render={(value: string) => {
+            const cfg = STOCK_TRANSFER_STATUS_CONFIG[value] ?? { color: "default", label: value };
+            return <Tag color={cfg.color}>{cfg.label}</Tag>;
+          }}
+        />
+        <Table.Column dataIndex={["requestedBy", "name"]} title="Requested By" render={(v?: string) => v ?? "—"} />
+        <Table.Column
+          dataIndex="createdAt"
+          title="Created"
+          width={160}
+          render={(v: string) => new Date(v).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}
+        />
+        <Table.Column
+          title=""
+          width={50}
+          render={(_: unknown, record: { id: string }) => (
+            <ShowButton hideText size="small" recordItemId={record.id} />
+          )}
+        />
+      </Table>
+    </List>
+  );
+};
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { Show } from "@refinedev/antd";
+import { useShow, useInvalidate } from "@refinedev/core";
+import { Tag, Table, Card, Descriptions, Row, Col, Button, Space, Modal, message } from "antd";
+import {
+  SwapOutlined,
+  UnorderedListOutlined,
+  SendOutlined,
+  InboxOutlined,
+  CloseCircleOutlined,
+  ArrowRightOutlined,
+} from "@ant-design/icons";
+
+import { axiosInstance } from "../../providers/data-provider";
+import { STOCK_TRANSFER_STATUS_CONFIG } from "../../constants/tag-colors";
+import { sectionTitle } from "../../theme";
+
+interface StockTransferLine {
+  id: string;
+  quantity: number;
+  variant: { name: string; sku: string | null };
+  sourceStoreProduct: {
+    stock: number;
+    reservedStock: number;
+    product?: { name: string };
+  };
+  destinationStoreProduct: { stock: number } | null;
+}
+
+const lineName = (line: StockTransferLine) =>
+  line.variant?.name
+    ? `${line.sourceStoreProduct.product?.name} — ${line.variant.name}`
+    : line.sourceStoreProduct.product?.name ?? "—";
+
+export const StockTransferShow = () => {
+  const { query } = useShow({ resource: "stock-transfers" });
+  const record = query?.data?.data;
+  const invalidate = useInvalidate();
+  const [busy, setBusy] = useState(false);
+
+  if (!record) return null;
+
+  const lines = (record.items ?? []) as StockTransferLine[];
+  const statusCfg = STOCK_TRANSFER_STATUS_CONFIG[record.status] ?? { color: "default", label: record.status };
+  const totalUnits = lines.reduce((s, l) => s + l.quantity, 0);
+
+  const runAction = async (action: "dispatch" | "receive" | "cancel", successMessage: string) => {
+    setBusy(true);
+    try {
+      await axiosInstance.post(`/stock-transfers/${record.id}/${action}`);
+      message.success(successMessage);
+      invalidate({ resource: "stock-transfers", invalidates: ["detail", "list"], id: record.id });
+    } catch (err: unknown) {
+      message.error((err as { response?: { data?: { message?: string } } })?.response?.data?.message ?? "Action failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Show headerButtons={() => null}>
+      <Row gutter={[16, 16]}>
+        <Col xs={24}>
+          <Card size="small">
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+              <Space>
+                <span style={{ color: "#64748b", fontSize: 14 }}>Status:</span>
+                <Tag color={statusCfg.color} style={{ fontSize: 14, padding: "2px 12px" }}>
+                  {statusCfg.label}
+                </Tag>
+              </Space>
+              <Space>
+                {record.status === "REQUESTED" && (
+                  <Button
+                    type="primary"
+                    icon={<SendOutlined />}
+                    loading={busy}
+                    onClick={() =>
+                      Modal.confirm({
+                        title: "Dispatch this transfer?",
+                        content: `${totalUnits} unit(s) will be taken out of ${record.sourceStore?.name}'s stock.`,
+                        onOk: () => runAction("dispatch", "Dispatched — source stock updated"),
+                      })
+                    }
+                  >
+                    Dispatch
+                  </Button>
+                )}
+                {record.status === "DISPATCHED" && (
+                  <Button
+                    type="primary"
+                    icon={<InboxOutlined />}
+                    loading={busy}
+                    onClick={() =>
+                      Modal.confirm({
+                        title: "Receive this transfer?",
+                        content: `${totalUnits} unit(s) will be added to ${record.destinationStore?.name}'s stock.`,
+                        onOk: () => runAction("receive", "Received — destination stock updated"),
+                      })
+                    }
+                  >
+                    Receive
+                  </Button>
+                )}
+                {record.status === "REQUESTED" && (
+                  <Button
+                    danger
+                    icon={<CloseCircleOutlined />}
+                    loading={busy}
+                    onClick={() =>
+                      Modal.confirm({
+                        title: "Cancel this transfer?",
+                        okButtonProps: { danger: true },
+                        onOk: () => runAction("cancel", "Transfer cancelled"),
+                      })
+                    }
+                  >
+                    Cancel
+                  </Button>
+                )}
+              </Space>
+            </div>
+          </Card>
+        </Col>
+
+        <Col xs={24} lg={10}>
+          <Card title={sectionTitle(<SwapOutlined />, "Transfer")} size="small">
+            <Descriptions column={1} size="small" bordered>
+              <Descriptions.Item label="Transfer">
+                <span style={{ fontFamily: "monospace" }}>{String(record.id).slice(0, 8)}</span>
+              </Descriptions.Item>
+              <Descriptions.Item label="Route">
+                {record.sourceStore?.name}
+                <ArrowRightOutlined style={{ margin: "0 8px", color: "#94a3b8" }} />
+                {record.destinationStore?.name}
+              </Descriptions.Item>
+              {record.note && <Descriptions.Item label="Note">{record.note}</Descriptions.Item>}
+              <Descriptions.Item label="Requested">
+                {new Date(record.createdAt).toLocaleString()}
+                {record.requestedBy?.name && <span style={{ color: "#94a3b8" }}> by {record.requestedBy.name}</span>}
+              </Descriptions.Item>
+              {record.dispatchedAt && (
+                <Descriptions.Item label="Dispatched">
+                  {new Date(record.dispatchedAt).toLocaleString()}
+                  {record.dispatchedBy?.name && <span style={{ color: "#94a3b8" }}> by {record.dispatchedBy.name}</span>}
+                </Descriptions.Item>
+              )}
+              {record.receivedAt && (
+                <Descriptions.Item label="Received">
+                  {new Date(record.receivedAt).toLocaleString()}
+                  {record.receivedBy?.name && <span style={{ color: "#94a3b8" }}> by {record.receivedBy.name}</span>}
+                </Descriptions.Item>
+              )}
+              {record.cancelledAt && (
+                <Descriptions.Item label="Cancelled">{new Date(record.cancelledAt).toLocaleString()}</Descriptions.Item>
+              )}
+            </Descriptions>
+          </Card>
+        </Col>
+
+        <Col xs={24} lg={14}>
+          <Card title={sectionTitle(<UnorderedListOutlined />, "Products")} size="small">
+            <Table
+              dataSource={lines}
+              rowKey="id"
+              size="small"
+              pagination={false}
+              columns={[
+                {
+                  title: "Product",
+                  key: "product",
+                  render: (_: unknown, l: StockTransferLine) => (
+                    <div>
+                      <div style={{ fontWeight: 500 }}>{lineName(l)}</div>
+                      {l.variant?.sku && <div style={{ fontSize: 12, color: "#94a3b8" }}>SKU {l.variant.sku}</div>}
+                    </div>
+                  ),
+                },
+                { title: "Qty", dataIndex: "quantity", align: "right" as const, width: 70 },
+                {
+                  title: "Available at Source",
+                  key: "available",
+                  align: "right" as const,
+                  width: 150,
+                  render: (_: unknown, l: StockTransferLine) => {
+                    const available = l.sourceStoreProduct.stock - l.sourceStoreProduct.reservedStock;
+                    const short = record.status === "REQUESTED" && available < l.quantity;
+                    return <span style={{ color: short ? "#dc2626" : undefined }}>{available}</span>;
+                  },
+                },
+                {
+                  title: "Destination Stock",
+                  key: "destination",
+                  align: "right" as const,
+                  width: 140,
+                  render: (_: unknown, l: StockTransferLine) => l.destinationStoreProduct?.stock ?? "—",
+                },
+              ]}
+            />
+          </Card>
+        </Col>
+      </Row>
+    </Show>
+  );
+};
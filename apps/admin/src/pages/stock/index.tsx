@@ -13,6 +13,9 @@ import {
   Table,
   Tag,
   Segmented,
+  Popconfirm,
+  message,
+  Tooltip as AntTooltip,
 } from "antd";
 import {
   InboxOutlined,
@@ -21,6 +24,9 @@ import {
   CloseCircleOutlined,
   EditOutlined,
   BarChartOutlined,
+  HistoryOutlined,
+  FieldTimeOutlined,
+  DeleteOutlined,
 } from "@ant-design/icons";
 import {
   BarChart,
@@ -33,8 +39,10 @@ import {
   Legend,
 } from "recharts";
 import axios from "axios";
+import dayjs from "dayjs";
 
 import { BRAND, CHART_COLORS, sectionTitle } from "../../theme";
+import { STOCK_MOVEMENT_TYPE_CONFIG } from "../../constants/tag-colors";
 
 const { Title } = Typography;
 
@@ -66,7 +74,40 @@ interface StockSummaryData {
   recentChanges: RecentChange[];
 }
 
+interface StockMovement {
+  id: string;
+  storeProductId: string;
+  productName: string;
+  storeName: string;
+  type: string;
+  quantity: number;
+  stockBefore: number;
+  stockAfter: number;
+  reservedBefore: number;
+  reservedAfter: number;
+  orderId: string | null;
+  actor: { id: string; name: string } | null;
+  note: string | null;
+  createdAt: string;
+}
+
+interface InventoryBatch {
+  id: string;
+  storeProductId: string;
+  productName: string;
+  storeName: string;
+  lotNumber: string | null;
+  receivedAt: string;
+  expiryDate: string | null;
+  quantityReceived: number;
+  quantity: number;
+  nearExpiryFlaggedAt: string | null;
+}
+
 type StockFilter = "all" | "in_stock" | "low_stock" | "out_of_stock";
+type BatchFilter = "expiring" | "all";
+
+const EXPIRING_WITHIN_DAYS = 7;
 
 export const StockPage = () => {
   const { data: identity } = useGetIdentity<{ role: string }>();
@@ -77,6 +118,9 @@ export const StockPage = () => {
   const [selectedStoreId, setSelectedStoreId] = useState<string | undefined>();
   const [selectedOrgId, setSelectedOrgId] = useState<string | undefined>();
   const [stockFilter, setStockFilter] = useState<StockFilter>("all");
+  const [movementType, setMovementType] = useState<string | undefined>();
+  const [historyProduct, setHistoryProduct] = useState<{ id: string; name: string } | undefined>();
+  const [batchFilter, setBatchFilter] = useState<BatchFilter>("expiring");
 
   // Organization dropdown (SUPER_ADMIN only)
   const { selectProps: orgSelectProps } = useSelect({
@@ -134,6 +178,64 @@ export const StockPage = () => {
     },
   });
 
+  // Stock ledger — same org/store scope, optionally narrowed to one store-product
+  const { tableProps: movementTableProps } = useTable<StockMovement>({
+    resource: "stock/movements",
+    syncWithLocation: false,
+    pagination: { pageSize: 10 },
+    filters: {
+      permanent: [
+        ...(selectedStoreId
+          ? [{ field: "storeId", operator: "eq" as const, value: selectedStoreId }]
+          : []),
+        ...(selectedOrgId
+          ? [{ field: "organizationId", operator: "eq" as const, value: selectedOrgId }]
+          : []),
+        ...(historyProduct
+          ? [{ field: "storeProductId", operator: "eq" as const, value: historyProduct.id }]
+          : []),
+        ...(movementType
+          ? [{ field: "type", operator: "eq" as const, value: movementType }]
+          : []),
+      ],
+    },
+  });
+
+  // Inventory batches — earliest expiry first
+  const { tableProps: batchTableProps, tableQuery: batchQuery } = useTable<InventoryBatch>({
+    resource: "stock/batches",
+    syncWithLocation: false,
+    pagination: { pageSize: 10 },
+    filters: {
+      permanent: [
+        ...(selectedStoreId
+          ? [{ field: "storeId", operator: "eq" as const, value: selectedStoreId }]
+          : []),
+        ...(selectedOrgId
+          ? [{ field: "organizationId", operator: "eq" as const, value: selectedOrgId }]
+          : []),
+        ...(batchFilter === "expiring"
+          ? [{ field: "expiringWithinDays", operator: "eq" as const, value: EXPIRING_WITHIN_DAYS }]
+          : []),
+      ],
+    },
+  });
+
+  const writeOffBatch = async (batch: InventoryBatch) => {
+    const token = localStorage.getItem(TOKEN_KEY);
+    try {
+      const res = await axios.post(
+        `${API_URL}/api/v1/stock/batches/${batch.id}/write-off`,
+        {},
+        { headers: { Authorization: `Bearer ${token}` } },
+      );
+      message.success(`Wrote off ${res.data.data.quantity} unit(s)`);
+      batchQuery?.refetch();
+    } catch (err: unknown) {
+      message.error((err as { response?: { data?: { message?: string } } })?.response?.data?.message ?? "Write-off failed");
+    }
+  };
+
   // Chart data — "All Stores" aggregate bar + per-store bars
   const chartData = useMemo(() => {
     const byStore = summary?.byStore ?? [];
@@ -185,6 +287,7 @@ export const StockPage = () => {
               onChange={(val: string) => {
                 setSelectedOrgId(val ?? undefined);
                 setSelectedStoreId(undefined);
+                setHistoryProduct(undefined);
               }}
             />
           </Col>
@@ -196,7 +299,10 @@ export const StockPage = () => {
             placeholder="Filter by store"
             style={{ width: "100%" }}
             value={selectedStoreId}
-            onChange={(val: string) => setSelectedStoreId(val ?? undefined)}
+            onChange={(val: string) => {
+              setSelectedStoreId(val ?? undefined);
+              setHistoryProduct(undefined);
+            }}
           />
         </Col>
       </Row>
@@ -339,16 +445,210 @@ export const StockPage = () => {
                 );
               },
             },
+            {
+              title: "",
+              key: "actions",
+              width: 80,
+              render: (_: unknown, record: Record<string, unknown>) => {
+                const product = record.product as { name: string } | undefined;
+                const variant = record.variant as { name?: string } | undefined;
+                const name = variant?.name ? `${product?.name} — ${variant.name}` : product?.name ?? "—";
+                return (
+                  <span style={{ display: "inline-flex", gap: 12 }}>
+                    <Link to={`/store-products/edit/${record.id}`}>
+                      <EditOutlined />
+                    </Link>
+                    <AntTooltip title="Stock history">
+                      <a onClick={() => setHistoryProduct({ id: record.id as string, name })}>
+                        <HistoryOutlined />
+                      </a>
+                    </AntTooltip>
+                  </span>
+                );
+              },
+            },
+          ]}
+        />
+      </Card>
+
+      {/* Batches & Expiry */}
+      <Card
+        title={sectionTitle(<FieldTimeOutlined />, "Batches & Expiry")}
+        style={{ marginTop: 24 }}
+        extra={
+          <Segmented
+            value={batchFilter}
+            onChange={(val) => setBatchFilter(val as BatchFilter)}
+            options={[
+              { label: `Expiring in ${EXPIRING_WITHIN_DAYS} days`, value: "expiring" },
+              { label: "All batches", value: "all" },
+            ]}
+          />
+        }
+      >
+        <Table
+          {...batchTableProps}
+          rowKey="id"
+          size="small"
+          columns={[
+            { title: "Product", dataIndex: "productName" },
+            { title: "Store", dataIndex: "storeName" },
+            { title: "Lot", dataIndex: "lotNumber", width: 120, render: (value: string | null) => value ?? "—" },
+            {
+              title: "Received",
+              dataIndex: "receivedAt",
+              width: 120,
+              render: (value: string) => dayjs(value).format("DD MMM YYYY"),
+            },
+            {
+              title: "Expiry",
+              dataIndex: "expiryDate",
+              width: 150,
+              render: (value: string | null) => {
+                if (!value) return <span style={{ color: "#999" }}>—</span>;
+                const daysLeft = dayjs(value).startOf("day").diff(dayjs().startOf("day"), "day");
+                const color = daysLeft < 0 ? "red" : daysLeft <= 2 ? "orange" : undefined;
+                return (
+                  <span>
+                    {dayjs(value).format("DD MMM YYYY")}
+                    {color && <Tag color={color} style={{ marginLeft: 6 }}>{daysLeft < 0 ? "Expired" : `${daysLeft}d`}</Tag>}
+                  </span>
+                );
+              },
+            },
+            {
+              title: "Left",
+              key: "left",
+              width: 90,
+              align: "right" as const,
+              render: (_: unknown, record: InventoryBatch) => (
+                <span>
+                  <span style={{ fontWeight: 600 }}>{record.quantity}</span>
+                  <span style={{ color: "#999" }}> / {record.quantityReceived}</span>
+                </span>
+              ),
+            },
             {
               title: "",
               key: "actions",
               width: 50,
-              render: (_: unknown, record: Record<string, unknown>) => (
-                <Link to={`/store-products/edit/${record.id}`}>
-                  <EditOutlined />
-                </Link>
+              render: (_: unknown, record: InventoryBatch) =>
+                record.quantity > 0 && (
+                  <Popconfirm
+                    title="Write off this batch?"
+                    description={`${record.quantity} unit(s) will be removed from stock as expired.`}
+                    okButtonProps={{ danger: true }}
+                    onConfirm={() => writeOffBatch(record)}
+                  >
+                    <AntTooltip title="Write off">
+                      <a style={{ color: BRAND.error }}>
+                        <DeleteOutlined />
+                      </a>
+                    </AntTooltip>
+                  </Popconfirm>
+                ),
+            },
+          ]}
+        />
+      </Card>
+
+      {/* Stock History */}
+      <Card
+        title={sectionTitle(<HistoryOutlined />, "Stock History")}
+        style={{ marginTop: 24 }}
+        extra={
+          <Row gutter={8} wrap={false}>
+            {historyProduct && (
+              <Col>
+                <Tag closable onClose={() => setHistoryProduct(undefined)} style={{ lineHeight: "30px" }}>
+                  {historyProduct.name}
+                </Tag>
+              </Col>
+            )}
+            <Col>
+              <Select
+                allowClear
+                placeholder="All movements"
+                style={{ width: 160 }}
+                value={movementType}
+                onChange={(val: string) => setMovementType(val ?? undefined)}
+                options={Object.entries(STOCK_MOVEMENT_TYPE_CONFIG).map(([value, { label }]) => ({ label, value }))}
+              />
+            </Col>
+          </Row>
+        }
+      >
+        <Table
+          {...movementTableProps}
+          rowKey="id"
+          size="small"
+          columns={[
+            {
+              title: "When",
+              dataIndex: "createdAt",
+              width: 150,
+              render: (value: string) => dayjs(value).format("DD MMM YYYY, HH:mm"),
+            },
+            { title: "Product", dataIndex: "productName" },
+            { title: "Store", dataIndex: "storeName" },
+            {
+              title: "Type",
+              dataIndex: "type",
+              width: 120,
+              render: (value: string) => {
+                const config = STOCK_MOVEMENT_TYPE_CONFIG[value];
+                return <Tag color={config?.color}>{config?.label ?? value}</Tag>;
+              },
+            },
+            {
+              title: "Change",
+              key: "change",
+              width: 90,
+              align: "right" as const,
+              render: (_: unknown, record: StockMovement) => {
+                // Reservations leave on-hand stock alone — show the reserved delta instead
+                const delta = record.quantity !== 0 ? record.quantity : record.reservedAfter - record.reservedBefore;
+                const reservedOnly = record.quantity === 0 && delta !== 0;
+                return (
+                  <span style={{ color: reservedOnly ? "#999" : delta < 0 ? BRAND.error : BRAND.success, fontWeight: 600 }}>
+                    {delta > 0 ? `+${delta}` : delta}
+                  </span>
+                );
+              },
+            },
+            {
+              title: "Stock",
+              key: "stock",
+              width: 110,
+              align: "right" as const,
+              render: (_: unknown, record: StockMovement) => `${record.stockBefore} → ${record.stockAfter}`,
+            },
+            {
+              title: "Reserved",
+              key: "reserved",
+              width: 110,
+              align: "right" as const,
+              render: (_: unknown, record: StockMovement) => `${record.reservedBefore} → ${record.reservedAfter}`,
+            },
+            {
+              title: "Reference",
+              key: "reference",
+              render: (_: unknown, record: StockMovement) => (
+                <>
+                  {record.orderId && (
+                    <Link to={`/orders/show/${record.orderId}`}>#{record.orderId.slice(0, 8)}</Link>
+                  )}
+                  {record.orderId && record.note && " · "}
+                  {record.note}
+                </>
               ),
             },
+            {
+              title: "By",
+              key: "actor",
+              width: 140,
+              render: (_: unknown, record: StockMovement) => record.actor?.name ?? <span style={{ color: "#999" }}>System</span>,
+            },
           ]}
         />
       </Card>
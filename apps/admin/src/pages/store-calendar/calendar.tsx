@@ -0,0 +1,381 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  Form,
+  Switch,
+  Button,
+  Select,
+  Space,
+  message,
+  Spin,
+  Typography,
+  TimePicker,
+  DatePicker,
+  Alert,
+  Table,
+  Tag,
+  Modal,
+  Radio,
+  Input,
+  Popconfirm,
+} from "antd";
+import { ClockCircleOutlined, CalendarOutlined, PlusOutlined, ShopOutlined } from "@ant-design/icons";
+import { useCustom, useApiUrl } from "@refinedev/core";
+import { axiosInstance } from "../../providers/data-provider";
+import { sectionTitle } from "../../theme";
+import dayjs from "dayjs";
+
+const { Text } = Typography;
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+// Monday first, as on a shop sign
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+interface Store {
+  id: string;
+  name: string;
+}
+
+interface DayRow {
+  open: boolean;
+  openTime: string;
+  closeTime: string;
+}
+
+interface HoursOverride {
+  id: string;
+  date: string;
+  isClosed: boolean;
+  openTime: string | null;
+  closeTime: string | null;
+  note: string | null;
+}
+
+interface OpenStatus {
+  isOpen: boolean;
+  closesAt: string | null;
+  message: string | null;
+}
+
+const DEFAULT_ROW: DayRow = { open: true, openTime: "07:00", closeTime: "22:00" };
+
+const formatTime = (t: string) => dayjs(t, "HH:mm").format("h:mm A");
+
+export const StoreCalendarPage = () => {
+  const apiUrl = useApiUrl();
+  const [storeId, setStoreId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [savingHours, setSavingHours] = useState(false);
+  const [restricted, setRestricted] = useState(false);
+  const [week, setWeek] = useState<DayRow[]>(() => DAY_NAMES.map(() => ({ ...DEFAULT_ROW })));
+  const [overrides, setOverrides] = useState<HoursOverride[]>([]);
+  const [status, setStatus] = useState<OpenStatus | null>(null);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [savingOverride, setSavingOverride] = useState(false);
+  const [form] = Form.useForm();
+  const overrideClosed: boolean | undefined = Form.useWatch("isClosed", form);
+
+  const { data: storesData } = useCustom<{ data: Store[] }>({
+    url: `${apiUrl}/stores`,
+    method: "get",
+    config: { query: { pageSize: 100 } },
+  });
+  const stores = storesData?.data?.data ?? [];
+
+  // Auto-select first store
+  useEffect(() => {
+    if (stores.length > 0 && !storeId) {
+      setStoreId(stores[0].id);
+    }
+  }, [stores, storeId]);
+
+  const load = useCallback(() => {
+    if (!storeId) return;
+    setLoading(true);
+    axiosInstance
+      .get(`/store-calendar?storeId=${storeId}`)
+      .then((res) => {
+        const data = res?.data?.data;
+        const weekly: { dayOfWeek: number; openTime: string; closeTime: string }[] = data?.weekly ?? [];
+        setRestricted(weekly.length > 0);
+        setWeek(DAY_NAMES.map((_, day) => {
+          const row = weekly.find((w) => w.dayOfWeek === day);
+          return row
+            ? { open: true, openTime: row.openTime, closeTime: row.closeTime }
+            : { ...DEFAULT_ROW, open: weekly.length === 0 };
+        }));
+        setOverrides(data?.overrides ?? []);
+        setStatus(data?.status ?? null);
+      })
+      .catch((err: unknown) => {
+        const e = err as { response?: { data?: { message?: string } } };
+        message.error(e?.response?.data?.message ?? "Failed to load store calendar");
+      })
+      .finally(() => setLoading(false));
+  }, [storeId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const updateDay = (day: number, patch: Partial<DayRow>) => {
+    setWeek((prev) => prev.map((row, i) => (i === day ? { ...row, ...patch } : row)));
+  };
+
+  const handleSaveHours = async () => {
+    if (!storeId) return;
+    const days = restricted
+      ? week
+          .map((row, dayOfWeek) => ({ ...row, dayOfWeek }))
+          .filter((row) => row.open)
+          .map(({ dayOfWeek, openTime, closeTime }) => ({ dayOfWeek, openTime, closeTime }))
+      : [];
+    if (restricted && days.length === 0) {
+      message.error("Open the store on at least one day, or turn off opening hours");
+      return;
+    }
+    setSavingHours(true);
+    try {
+      await axiosInstance.put(`/store-calendar/hours?storeId=${storeId}`, { days });
+      message.success("Opening hours saved");
+      load();
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { message?: string } } };
+      message.error(e?.response?.data?.message ?? "Failed to save opening hours");
+    } finally {
+      setSavingHours(false);
+    }
+  };
+
+  const handleSaveOverride = async () => {
+    if (!storeId) return;
+    const values = await form.validateFields();
+    setSavingOverride(true);
+    try {
+      await axiosInstance.put(`/store-calendar/overrides/${values.date.format("YYYY-MM-DD")}?storeId=${storeId}`, {
+        isClosed: values.isClosed,
+        openTime: values.isClosed ? null : values.hours[0].format("HH:mm"),
+        closeTime: values.isClosed ? null : values.hours[1].format("HH:mm"),
+        note: values.note || null,
+      });
+      message.success("Date saved");
+      setModalOpen(false);
+      load();
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { message?: string } } };
+      message.error(e?.response?.data?.message ?? "Failed to save date");
+    } finally {
+      setSavingOverride(false);
+    }
+  };
+
+  const handleRemoveOverride = async (date: string) => {
+    if (!storeId) return;
+    try {
+      await axiosInstance.delete(`/store-calendar/overrides/${date.slice(0, 10)}?storeId=${storeId}`);
+      load();
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { message?: string } } };
+      message.error(e?.response?.data?.message ?? "Failed to remove date");
+    }
+  };
+
+  return (
+    <div style={{ maxWidth: 800, margin: "0 auto" }}>
+      <div style={{ marginBottom: 24 }}>
+        <h2 style={{ margin: 0 }}>
+          <Space>
+            <ShopOutlined />
+            Store Hours & Holidays
+          </Space>
+        </h2>
+        <Text type="secondary">
+          One calendar per store — checkout, delivery slots, express delivery and subscriptions all follow it
+        </Text>
+      </div>
+
+      <Card size="small" style={{ marginBottom: 16 }}>
+        <Form.Item label="Store" style={{ marginBottom: 0 }}>
+          <Select
+            value={storeId}
+            onChange={setStoreId}
+            placeholder="Select store"
+            style={{ width: 300 }}
+            options={stores.map((s) => ({ label: s.name, value: s.id }))}
+          />
+        </Form.Item>
+      </Card>
+
+      {loading ? (
+        <div style={{ display: "flex", justifyContent: "center", padding: 80 }}>
+          <Spin size="large" />
+        </div>
+      ) : storeId ? (
+        <>
+          {status && (
+            <Alert
+              type={status.isOpen ? "success" : "warning"}
+              showIcon
+              message={status.isOpen
+                ? `Open now${status.closesAt ? ` · closes at ${formatTime(status.closesAt)}` : " · around the clock"}`
+                : status.message}
+              style={{ marginBottom: 16 }}
+            />
+          )}
+
+          <Card
+            title={sectionTitle(<ClockCircleOutlined />, "Weekly Hours")}
+            size="small"
+            style={{ marginBottom: 16 }}
+            extra={
+              <Space>
+                <Text type="secondary" style={{ fontSize: 12 }}>Set opening hours</Text>
+                <Switch size="small" checked={restricted} onChange={setRestricted} />
+              </Space>
+            }
+          >
+            {restricted ? (
+              <Table
+                dataSource={WEEK_ORDER.map((day) => ({ day, ...week[day] }))}
+                rowKey="day"
+                size="small"
+                pagination={false}
+                showHeader={false}
+              >
+                <Table.Column dataIndex="day" width={140} render={(day: number) => <Text strong>{DAY_NAMES[day]}</Text>} />
+                <Table.Column
+                  dataIndex="open"
+                  width={110}
+                  render={(open: boolean, r: DayRow & { day: number }) => (
+                    <Switch
+                      size="small"
+                      checked={open}
+                      checkedChildren="Open"
+                      unCheckedChildren="Closed"
+                      onChange={(checked) => updateDay(r.day, { open: checked })}
+                    />
+                  )}
+                />
+                <Table.Column
+                  render={(_: unknown, r: DayRow & { day: number }) =>
+                    r.open ? (
+                      <TimePicker.RangePicker
+                        format="HH:mm"
+                        minuteStep={15}
+                        allowClear={false}
+                        value={[dayjs(r.openTime, "HH:mm"), dayjs(r.closeTime, "HH:mm")]}
+                        onChange={(range) => {
+                          if (range?.[0] && range[1]) {
+                            updateDay(r.day, { openTime: range[0].format("HH:mm"), closeTime: range[1].format("HH:mm") });
+                          }
+                        }}
+                      />
+                    ) : (
+                      <Text type="secondary">Closed all day</Text>
+                    )
+                  }
+                />
+              </Table>
+            ) : (
+              <Text type="secondary">
+                No opening hours set — the store takes orders around the clock. Turn on to set hours per day.
+              </Text>
+            )}
+            <div style={{ marginTop: 12 }}>
+              <Button type="primary" onClick={handleSaveHours} loading={savingHours}>
+                Save Hours
+              </Button>
+            </div>
+          </Card>
+
+          <Card
+            title={sectionTitle(<CalendarOutlined />, "Holidays & Special Hours")}
+            size="small"
+            style={{ marginBottom: 16 }}
+            extra={
+              <Button
+                size="small"
+                icon={<PlusOutlined />}
+                onClick={() => {
+                  form.resetFields();
+                  setModalOpen(true);
+                }}
+              >
+                Add Date
+              </Button>
+            }
+          >
+            <Table
+              dataSource={overrides}
+              rowKey="id"
+              size="small"
+              pagination={false}
+              locale={{ emptyText: "No upcoming holidays or special hours" }}
+            >
+              <Table.Column dataIndex="date" title="Date" render={(v: string) => dayjs(v.slice(0, 10)).format("ddd, D MMM YYYY")} />
+              <Table.Column
+                title="Hours"
+                render={(_: unknown, r: HoursOverride) =>
+                  r.isClosed
+                    ? <Tag color="red">Closed</Tag>
+                    : <Tag color="blue">{formatTime(r.openTime!)} – {formatTime(r.closeTime!)}</Tag>
+                }
+              />
+              <Table.Column dataIndex="note" title="Note" render={(v: string | null) => v ?? "—"} />
+              <Table.Column
+                title=""
+                render={(_: unknown, r: HoursOverride) => (
+                  <Popconfirm title="Use the weekly hours on this date?" onConfirm={() => handleRemoveOverride(r.date)}>
+                    <Button size="small" type="link" danger>Remove</Button>
+                  </Popconfirm>
+                )}
+              />
+            </Table>
+          </Card>
+
+          <Alert
+            type="info"
+            showIcon
+            message="How it works"
+            description={
+              <ul style={{ margin: "8px 0 0", paddingLeft: 20 }}>
+                <li>While the store is <strong>closed</strong>, express and pickup checkout are blocked and customers see when it opens next</li>
+                <li>Delivery slots on closed days, or outside the day's hours, show as closed</li>
+                <li>Subscriptions due on a closed day are <strong>skipped automatically</strong> and the customer is notified</li>
+                <li>A date here replaces the weekly hours for that day. Express operating hours still narrow when express is offered.</li>
+              </ul>
+            }
+          />
+
+          <Modal
+            title="Holiday or Special Hours"
+            open={modalOpen}
+            onCancel={() => setModalOpen(false)}
+            onOk={handleSaveOverride}
+            confirmLoading={savingOverride}
+          >
+            <Form form={form} layout="vertical" initialValues={{ isClosed: true }}>
+              <Form.Item label="Date" name="date" rules={[{ required: true, message: "Required" }]}>
+                <DatePicker style={{ width: "100%" }} disabledDate={(d) => d.isBefore(dayjs(), "day")} />
+              </Form.Item>
+              <Form.Item name="isClosed">
+                <Radio.Group>
+                  <Radio value={true}>Closed all day</Radio>
+                  <Radio value={false}>Special hours</Radio>
+                </Radio.Group>
+              </Form.Item>
+              {overrideClosed === false && (
+                <Form.Item label="Hours" name="hours" rules={[{ required: true, message: "Required" }]}>
+                  <TimePicker.RangePicker format="HH:mm" minuteStep={15} style={{ width: "100%" }} />
+                </Form.Item>
+              )}
+              <Form.Item label="Note" name="note" extra="Shown to customers, e.g. “Store closed for Diwali”">
+                <Input placeholder="e.g. Diwali" maxLength={200} />
+              </Form.Item>
+            </Form>
+          </Modal>
+        </>
+      ) : null}
+    </div>
+  );
+};
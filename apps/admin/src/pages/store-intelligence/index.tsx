@@ -31,6 +31,8 @@ import {
   FallOutlined,
   InboxOutlined,
   BugOutlined,
+  FieldTimeOutlined,
+  StopOutlined,
 } from "@ant-design/icons";
 import { useNavigate } from "react-router";
 import { axiosInstance } from "../../providers/data-provider";
@@ -63,7 +65,7 @@ interface ReorderRow extends DemandRow {
 }
 
 interface AnomalyRow {
-  type: "demand_spike" | "demand_drop" | "stock_mismatch" | "dead_stock";
+  type: "demand_spike" | "demand_drop" | "stock_mismatch" | "dead_stock" | "near_expiry" | "expired_stock";
   severity: "high" | "medium" | "low";
   storeProductId: string;
   productName: string;
@@ -101,6 +103,8 @@ const ANOMALY_TYPE_CONFIG: Record<string, { color: string; label: string; icon:
   demand_drop: { color: "blue", label: "Demand Drop", icon: <FallOutlined /> },
   stock_mismatch: { color: "red", label: "Stock Mismatch", icon: <BugOutlined /> },
   dead_stock: { color: "default", label: "Dead Stock", icon: <InboxOutlined /> },
+  near_expiry: { color: "gold", label: "Near Expiry", icon: <FieldTimeOutlined /> },
+  expired_stock: { color: "magenta", label: "Expired Stock", icon: <StopOutlined /> },
 };
 
 const SEVERITY_CONFIG = {
@@ -1,10 +1,10 @@
 import { Edit, useForm } from "@refinedev/antd";
-import { Form, InputNumber, Switch, Card, Row, Col, Descriptions, Select, DatePicker, Tag } from "antd";
+import { Form, Input, InputNumber, Switch, Card, Row, Col, Descriptions, Select, DatePicker, Tag } from "antd";
 import { InfoCircleOutlined, DollarOutlined, TagOutlined } from "@ant-design/icons";
 import dayjs from "dayjs";
 
 import { sectionTitle } from "../../theme";
-import { DISCOUNT_TYPE_OPTIONS } from "../../constants/tag-colors";
+import { DISCOUNT_TYPE_OPTIONS, STOCK_REASON_OPTIONS } from "../../constants/tag-colors";
 
 export const StoreProductEdit = () => {
   const { formProps, saveButtonProps, query } = useForm({
@@ -20,6 +20,10 @@ export const StoreProductEdit = () => {
   } | undefined;
 
   const discountType = Form.useWatch("discountType", formProps.form);
+  const stock = Form.useWatch("stock", formProps.form);
+  const stockChanged = record?.stock != null && stock != null && Number(stock) !== record.stock;
+  const stockReason = Form.useWatch("stockReason", formProps.form);
+  const receivingStock = stockChanged && stockReason === "RECEIPT" && Number(stock) > (record?.stock ?? 0);
 
   // Convert date strings to dayjs for DatePicker
   const originalOnFinish = formProps.onFinish;
@@ -34,6 +38,10 @@ export const StoreProductEdit = () => {
       return originalOnFinish?.({
         price: values.price != null ? Number(values.price) : undefined,
         stock: values.stock != null ? Number(values.stock) : undefined,
+        stockReason: values.stockReason || undefined,
+        stockNote: values.stockNote || undefined,
+        stockLotNumber: values.stockLotNumber || undefined,
+        stockExpiryDate: values.stockExpiryDate ? (values.stockExpiryDate as dayjs.Dayjs).toISOString() : undefined,
         isActive: values.isActive,
         isFeatured: values.isFeatured,
         memberPrice: values.memberPrice != null ? Number(values.memberPrice) : null,
@@ -102,6 +110,34 @@ export const StoreProductEdit = () => {
                     <InputNumber min={0} step={1} style={{ width: "100%" }} />
                   </Form.Item>
                 </Col>
+                {stockChanged && (
+                  <>
+                    <Col xs={24} sm={12}>
+                      <Form.Item label="Reason" name="stockReason" initialValue="ADJUSTMENT" extra="Recorded in the stock history.">
+                        <Select options={STOCK_REASON_OPTIONS} />
+                      </Form.Item>
+                    </Col>
+                    <Col xs={24} sm={12}>
+                      <Form.Item label="Note" name="stockNote">
+                        <Input maxLength={500} placeholder="Optional, e.g. supplier invoice no." />
+                      </Form.Item>
+                    </Col>
+                  </>
+                )}
+                {receivingStock && (
+                  <>
+                    <Col xs={24} sm={12}>
+                      <Form.Item label="Lot Number" name="stockLotNumber">
+                        <Input maxLength={100} placeholder="Optional" />
+                      </Form.Item>
+                    </Col>
+                    <Col xs={24} sm={12}>
+                      <Form.Item label="Expiry Date" name="stockExpiryDate" extra="Defaults to today plus the product's shelf life.">
+                        <DatePicker style={{ width: "100%" }} />
+                      </Form.Item>
+                    </Col>
+                  </>
+                )}
                 <Col xs={12}>
                   <Form.Item label="Active" name="isActive" valuePropName="checked">
                     <Switch />
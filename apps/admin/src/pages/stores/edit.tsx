@@ -1,6 +1,15 @@
 import { Edit, useForm } from "@refinedev/antd";
 import { Form, Input, InputNumber, Select, Card, Row, Col, Slider, Switch, Radio } from "antd";
-import { ShopOutlined, EnvironmentOutlined, ShoppingCartOutlined, CalendarOutlined } from "@ant-design/icons";
+import {
+  ShopOutlined,
+  EnvironmentOutlined,
+  ShoppingCartOutlined,
+  CalendarOutlined,
+  FileTextOutlined,
+  SafetyCertificateOutlined,
+  WalletOutlined,
+} from "@ant-design/icons";
+import { GST_STATES } from "@martly/shared/constants";
 
 import { sectionTitle } from "../../theme";
 
@@ -52,6 +61,35 @@ export const StoreEdit = () => {
                 </Col>
               </Row>
             </Card>
+
+            <Card title={sectionTitle(<FileTextOutlined />, "Tax & Invoicing")} size="small" style={{ marginTop: 16 }}>
+              <Form.Item label="State" name="stateCode" tooltip="Decides CGST + SGST (same state) or IGST (other state) on orders">
+                <Select
+                  allowClear
+                  showSearch
+                  optionFilterProp="label"
+                  placeholder="Select state"
+                  options={Object.entries(GST_STATES).map(([code, name]) => ({ label: `${name} (${code})`, value: code }))}
+                />
+              </Form.Item>
+              <Form.Item
+                label="GSTIN"
+                name="gstin"
+                normalize={(v: string) => v?.toUpperCase() || null}
+                rules={[{ pattern: /^\d{2}[A-Z0-9]{13}$/, message: "Enter a 15-character GSTIN" }]}
+              >
+                <Input placeholder="e.g. 27AAAAA0000A1Z5" maxLength={15} />
+              </Form.Item>
+              <Form.Item
+                label="Invoice Prefix"
+                name="invoicePrefix"
+                normalize={(v: string) => v?.toUpperCase() || null}
+                tooltip="Invoice numbers are <prefix>-000001, numbered per store. Defaults to INV"
+                rules={[{ pattern: /^[A-Z0-9/-]{1,8}$/, message: "Up to 8 letters, digits, / or -" }]}
+              >
+                <Input placeholder="INV" maxLength={8} />
+              </Form.Item>
+            </Card>
           </Col>
 
           {/* Right column: Operational settings */}
@@ -71,6 +109,34 @@ export const StoreEdit = () => {
               </Form.Item>
             </Card>
 
+            <Card title={sectionTitle(<SafetyCertificateOutlined />, "Proof of Delivery")} size="small" style={{ marginTop: 16 }}>
+              <Form.Item
+                label="Require Delivery Code Above"
+                name="deliveryOtpMinAmount"
+                tooltip="Delivery orders at or above this total need the customer's 4-digit code at handoff. Leave empty to not require it by amount."
+              >
+                <InputNumber style={{ width: "100%" }} min={0} addonBefore={"\u20B9"} placeholder="Not required" />
+              </Form.Item>
+              <Form.Item
+                label="Require Delivery Code for Prepaid Orders"
+                name="deliveryOtpOnlinePaid"
+                valuePropName="checked"
+                tooltip="Online-paid delivery orders always need the customer's code"
+              >
+                <Switch />
+              </Form.Item>
+            </Card>
+
+            <Card title={sectionTitle(<WalletOutlined />, "Cash on Delivery")} size="small" style={{ marginTop: 16 }}>
+              <Form.Item
+                label="Rider Cash Limit"
+                name="riderCashLimit"
+                tooltip="Riders holding this much COD cash or more can't take new COD trips until they hand it over. Leave empty for no limit."
+              >
+                <InputNumber style={{ width: "100%" }} min={0} addonBefore={"\u20B9"} placeholder="No limit" />
+              </Form.Item>
+            </Card>
+
             <Card title={sectionTitle(<CalendarOutlined />, "Subscriptions")} size="small" style={{ marginTop: 16 }}>
               <Form.Item label="Enable Subscriptions" name="subscriptionEnabled" valuePropName="checked">
                 <Switch />
@@ -1,5 +1,5 @@
 import { List, useTable, ShowButton } from "@refinedev/antd";
-import { Table, Tag, Select, Card, Row, Col } from "antd";
+import { Table, Tag, Select, Card, Row, Col, Space, Typography } from "antd";
 import { useState, useEffect } from "react";
 import dayjs from "dayjs";
 import { axiosInstance } from "../../providers/data-provider";
@@ -13,8 +13,26 @@ interface Store {
   name: string;
 }
 
+interface UpcomingVacation {
+  id: string;
+  startDate: string;
+  endDate: string;
+  note: string | null;
+  user: { id: string; name: string; phone: string | null };
+  stores: Store[];
+  skippedDeliveries: number;
+}
+
+interface VacationSummary {
+  from: string;
+  to: string;
+  vacations: UpcomingVacation[];
+  daily: { date: string; skippedDeliveries: number }[];
+}
+
 export const SubscriptionList = () => {
   const [stores, setStores] = useState<Store[]>([]);
+  const [vacations, setVacations] = useState<VacationSummary | null>(null);
 
   const { tableProps, setFilters, filters } = useTable({
     resource: "subscriptions/admin",
@@ -33,6 +51,15 @@ export const SubscriptionList = () => {
     return f && "value" in f ? f.value : undefined;
   };
 
+  // Deliveries skipped for customer vacations over the next two weeks, for demand planning
+  const storeFilter = getFilterValue("storeId") as string | undefined;
+  useEffect(() => {
+    axiosInstance
+      .get(`/subscriptions/admin/vacations${storeFilter ? `?storeId=${storeFilter}` : ""}`)
+      .then((res) => setVacations(res?.data?.data ?? null))
+      .catch(() => setVacations(null));
+  }, [storeFilter]);
+
   const handleFilter = (field: string, value: string | undefined) => {
     setFilters([{ field, operator: "eq", value: value || undefined }], "merge");
   };
@@ -74,6 +101,53 @@ export const SubscriptionList = () => {
         </Row>
       </Card>
 
+      {vacations && vacations.vacations.length > 0 && (
+        <Card
+          size="small"
+          title="Upcoming Vacations"
+          extra={
+            <Typography.Text type="secondary" style={{ fontSize: 12 }}>
+              {dayjs(vacations.from).format("DD MMM")} – {dayjs(vacations.to).format("DD MMM")}
+            </Typography.Text>
+          }
+          style={{ marginBottom: 16 }}
+        >
+          <Space size={[4, 8]} wrap style={{ marginBottom: 12 }}>
+            {vacations.daily.map((d) => (
+              <Tag key={d.date} color="blue">
+                {dayjs(d.date).format("ddd DD MMM")}: {d.skippedDeliveries} fewer
+              </Tag>
+            ))}
+          </Space>
+          <Table dataSource={vacations.vacations} rowKey="id" size="small" pagination={false}>
+            <Table.Column
+              dataIndex={["user", "name"]}
+              title="Customer"
+              render={(name: string, record: UpcomingVacation) => (
+                <div>
+                  <div style={{ fontWeight: 500 }}>{name}</div>
+                  {record.user.phone && (
+                    <div style={{ fontSize: 12, color: "#94a3b8" }}>{record.user.phone}</div>
+                  )}
+                </div>
+              )}
+            />
+            <Table.Column
+              title="Away"
+              render={(_, record: UpcomingVacation) =>
+                `${dayjs(record.startDate).format("DD MMM")} – ${dayjs(record.endDate).format("DD MMM YYYY")}`
+              }
+            />
+            <Table.Column
+              dataIndex="stores"
+              title="Stores"
+              render={(list: Store[]) => list.map((s) => s.name).join(", ")}
+            />
+            <Table.Column dataIndex="skippedDeliveries" title="Skipped Deliveries" width={150} />
+          </Table>
+        </Card>
+      )}
+
       <Table {...tableProps} rowKey="id" size="small">
         <Table.Column
           dataIndex={["user", "name"]}
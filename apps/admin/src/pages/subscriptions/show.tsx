@@ -35,6 +35,7 @@ import {
   SUBSCRIPTION_STATUS_CONFIG,
   SUBSCRIPTION_FREQUENCY_CONFIG,
   ORDER_STATUS_CONFIG,
+  SUBSCRIPTION_DELIVERY_OUTCOME_CONFIG,
 } from "../../constants/tag-colors";
 
 const { Text } = Typography;
@@ -49,6 +50,17 @@ const DAY_LABELS: Record<number, string> = {
   6: "Saturday",
 };
 
+interface DeliveryRow {
+  id: string;
+  deliveryDate: string;
+  outcome: string;
+  orderId: string | null;
+  amount: string | null;
+  autoPay: boolean;
+  droppedItems: { storeProductId: string; name: string; quantity: number; reason: "LOW_BALANCE" | "OUT_OF_STOCK" }[];
+  note: string | null;
+}
+
 export const SubscriptionShow = () => {
   const { id } = useParams();
   const [data, setData] = useState<any>(null);
@@ -267,6 +279,30 @@ export const SubscriptionShow = () => {
                   {data.autoPayWithWallet ? "Yes" : "No"}
                 </Tag>
               </Descriptions.Item>
+              <Descriptions.Item label="UPI / Card Mandate">
+                {data.mandates?.[0] ? (
+                  <Space size={4} wrap>
+                    <Tag color="green">{data.mandates[0].method === "UPI" ? "UPI AutoPay" : "Card"}</Tag>
+                    {data.mandates[0].label && <Text>{data.mandates[0].label}</Text>}
+                    <Text type="secondary" style={{ fontSize: 12 }}>
+                      up to {"\u20B9"}{Number(data.mandates[0].maxAmount).toLocaleString("en-IN")}
+                    </Text>
+                  </Space>
+                ) : (
+                  <Text type="secondary">None</Text>
+                )}
+                {data.mandateCharges?.[0] &&
+                  !data.mandateCharges[0].orderId &&
+                  data.mandateCharges[0].status !== "CAPTURED" && (
+                    <div>
+                      <Text type="danger" style={{ fontSize: 12 }}>
+                        {dayjs(data.mandateCharges[0].deliveryDate).format("DD MMM")}: {data.mandateCharges[0].status.toLowerCase()}
+                        {data.mandateCharges[0].failureReason ? ` \u2014 ${data.mandateCharges[0].failureReason}` : ""}
+                        {` (${data.mandateCharges[0].attempts} attempt${data.mandateCharges[0].attempts === 1 ? "" : "s"})`}
+                      </Text>
+                    </div>
+                  )}
+              </Descriptions.Item>
               <Descriptions.Item label="Created">
                 {data.createdAt ? new Date(data.createdAt).toLocaleString() : "\u2014"}
               </Descriptions.Item>
@@ -364,6 +400,65 @@ export const SubscriptionShow = () => {
           </Card>
         </Col>
 
+        {/* Delivery History — what the scheduler did on each recent delivery day */}
+        {data.deliveries?.length > 0 && (
+          <Col xs={24}>
+            <Card title={sectionTitle(<CalendarOutlined />, "Delivery History")} size="small">
+              <Table<DeliveryRow>
+                dataSource={data.deliveries}
+                rowKey="id"
+                pagination={false}
+                size="small"
+                columns={[
+                  {
+                    title: "Date",
+                    dataIndex: "deliveryDate",
+                    key: "deliveryDate",
+                    width: 160,
+                    render: (v: string) => dayjs(v).format("ddd, DD MMM YYYY"),
+                  },
+                  {
+                    title: "Outcome",
+                    dataIndex: "outcome",
+                    key: "outcome",
+                    width: 150,
+                    render: (value: string) => {
+                      const config = SUBSCRIPTION_DELIVERY_OUTCOME_CONFIG[value];
+                      return <Tag color={config?.color ?? "default"}>{config?.label ?? value}</Tag>;
+                    },
+                  },
+                  {
+                    title: "Order",
+                    dataIndex: "orderId",
+                    key: "orderId",
+                    width: 100,
+                    render: (v: string | null) =>
+                      v ? <span style={{ fontFamily: "monospace", fontSize: 12 }}>{v.slice(0, 8)}</span> : "\u2014",
+                  },
+                  {
+                    title: "Amount",
+                    dataIndex: "amount",
+                    key: "amount",
+                    width: 120,
+                    render: (v: string | null, row) =>
+                      v != null ? `\u20B9${Number(v).toFixed(0)}${row.autoPay ? " (auto-pay)" : ""}` : "\u2014",
+                  },
+                  {
+                    title: "Dropped Items / Note",
+                    key: "details",
+                    render: (_: unknown, row) =>
+                      row.droppedItems.length > 0
+                        ? row.droppedItems
+                            .map((i) => `${i.name} \u00D7${i.quantity} (${i.reason === "OUT_OF_STOCK" ? "out of stock" : "low balance"})`)
+                            .join(", ")
+                        : row.note ?? "\u2014",
+                  },
+                ]}
+              />
+            </Card>
+          </Col>
+        )}
+
         {/* Skip History */}
         {data.skippedDates?.length > 0 && (
           <Col xs={24}>
@@ -0,0 +1,74 @@
+import { Create, useForm, useSelect } from "@refinedev/antd";
+import { useGetIdentity } from "@refinedev/core";
+import { Form, Input, InputNumber, Select, Card, Row, Col } from "antd";
+import { ShopOutlined, PhoneOutlined } from "@ant-design/icons";
+
+import { sectionTitle } from "../../theme";
+
+export const SupplierCreate = () => {
+  const { formProps, saveButtonProps } = useForm({ resource: "suppliers" });
+  const { data: identity } = useGetIdentity<{ role: string }>();
+  const isSuperAdmin = identity?.role === "SUPER_ADMIN";
+
+  const { selectProps: orgSelectProps } = useSelect({
+    resource: "organizations",
+    optionLabel: "name",
+    optionValue: "id",
+    queryOptions: { enabled: isSuperAdmin },
+  });
+
+  return (
+    <Create saveButtonProps={saveButtonProps}>
+      <Form {...formProps} layout="vertical">
+        <Row gutter={[16, 16]}>
+          <Col xs={24} lg={12}>
+            <Card title={sectionTitle(<ShopOutlined />, "Supplier Details")} size="small">
+              {isSuperAdmin && (
+                <Form.Item label="Organization" name="organizationId" rules={[{ required: true }]}>
+                  <Select {...orgSelectProps} placeholder="Select organization" />
+                </Form.Item>
+              )}
+              <Form.Item label="Name" name="name" rules={[{ required: true }]}>
+                <Input />
+              </Form.Item>
+              <Row gutter={16}>
+                <Col xs={24} sm={12}>
+                  <Form.Item label="GST Number" name="gstNumber">
+                    <Input placeholder="Optional" />
+                  </Form.Item>
+                </Col>
+                <Col xs={24} sm={12}>
+                  <Form.Item label="Lead Time (days)" name="leadTimeDays" extra="Typical days from sending a PO to delivery">
+                    <InputNumber min={0} max={365} style={{ width: "100%" }} />
+                  </Form.Item>
+                </Col>
+              </Row>
+            </Card>
+          </Col>
+          <Col xs={24} lg={12}>
+            <Card title={sectionTitle(<PhoneOutlined />, "Contact")} size="small">
+              <Form.Item label="Contact Name" name="contactName">
+                <Input />
+              </Form.Item>
+              <Row gutter={16}>
+                <Col xs={24} sm={12}>
+                  <Form.Item label="Phone" name="phone">
+                    <Input />
+                  </Form.Item>
+                </Col>
+                <Col xs={24} sm={12}>
+                  <Form.Item label="Email" name="email" rules={[{ type: "email" }]} normalize={(v: string) => v || undefined}>
+                    <Input />
+                  </Form.Item>
+                </Col>
+              </Row>
+              <Form.Item label="Address" name="address">
+                <Input.TextArea rows={2} />
+              </Form.Item>
+            </Card>
+          </Col>
+        </Row>
+      </Form>
+    </Create>
+  );
+};
@@ -0,0 +1,62 @@
+import { Edit, useForm } from "@refinedev/antd";
+import { Form, Input, InputNumber, Switch, Card, Row, Col } from "antd";
+import { ShopOutlined, PhoneOutlined } from "@ant-design/icons";
+
+import { sectionTitle } from "../../theme";
+
+export const SupplierEdit = () => {
+  const { formProps, saveButtonProps } = useForm({ resource: "suppliers" });
+
+  return (
+    <Edit saveButtonProps={saveButtonProps}>
+      <Form {...formProps} layout="vertical">
+        <Row gutter={[16, 16]}>
+          <Col xs={24} lg={12}>
+            <Card title={sectionTitle(<ShopOutlined />, "Supplier Details")} size="small">
+              <Form.Item label="Name" name="name" rules={[{ required: true }]}>
+                <Input />
+              </Form.Item>
+              <Row gutter={16}>
+                <Col xs={24} sm={12}>
+                  <Form.Item label="GST Number" name="gstNumber">
+                    <Input placeholder="Optional" />
+                  </Form.Item>
+                </Col>
+                <Col xs={24} sm={12}>
+                  <Form.Item label="Lead Time (days)" name="leadTimeDays" extra="Typical days from sending a PO to delivery">
+                    <InputNumber min={0} max={365} style={{ width: "100%" }} />
+                  </Form.Item>
+                </Col>
+              </Row>
+              <Form.Item label="Active" name="isActive" valuePropName="checked">
+                <Switch />
+              </Form.Item>
+            </Card>
+          </Col>
+          <Col xs={24} lg={12}>
+            <Card title={sectionTitle(<PhoneOutlined />, "Contact")} size="small">
+              <Form.Item label="Contact Name" name="contactName">
+                <Input />
+              </Form.Item>
+              <Row gutter={16}>
+                <Col xs={24} sm={12}>
+                  <Form.Item label="Phone" name="phone">
+                    <Input />
+                  </Form.Item>
+                </Col>
+                <Col xs={24} sm={12}>
+                  <Form.Item label="Email" name="email" rules={[{ type: "email" }]} normalize={(v: string) => v || null}>
+                    <Input />
+                  </Form.Item>
+                </Col>
+              </Row>
+              <Form.Item label="Address" name="address">
+                <Input.TextArea rows={2} />
+              </Form.Item>
+            </Card>
+          </Col>
+        </Row>
+      </Form>
+    </Edit>
+  );
+};
@@ -0,0 +1,88 @@
+import { List, useTable, EditButton, DeleteButton } from "@refinedev/antd";
+import { Table, Space, Input, Tag } from "antd";
+import { SearchOutlined } from "@ant-design/icons";
+import type { HttpError } from "@refinedev/core";
+
+import { ACTIVE_STATUS_CONFIG } from "../../constants/tag-colors";
+
+interface SupplierRecord {
+  id: string;
+  name: string;
+  contactName: string | null;
+  phone: string | null;
+  email: string | null;
+  leadTimeDays: number | null;
+  isActive: boolean;
+  organization?: { name: string };
+  _count?: { purchaseOrders: number };
+}
+
+export const SupplierList = () => {
+  const { tableProps, searchFormProps } = useTable<SupplierRecord, HttpError, { q: string }>({
+    resource: "suppliers",
+    onSearch: (values: { q: string }) => [
+      { field: "q", operator: "eq", value: values.q },
+    ],
+  });
+
+  return (
+    <List>
+      <div style={{ marginBottom: 16 }}>
+        <Input.Search
+          placeholder="Search suppliers..."
+          allowClear
+          prefix={<SearchOutlined />}
+          onSearch={(value) => searchFormProps.onFinish?.({ q: value })}
+          onChange={(e) => {
+            if (!e.target.value) searchFormProps.onFinish?.({ q: "" });
+          }}
+          style={{ maxWidth: 360 }}
+        />
+      </div>
+      <Table {...tableProps} rowKey="id">
+        <Table.Column dataIndex="name" title="Name" />
+        <Table.Column
+          dataIndex="contactName"
+          title="Contact"
+          render={(v: string | null, record: SupplierRecord) => (
+            <div>
+              <div>{v ?? "—"}</div>
+              {(record.phone || record.email) && (
+                <div style={{ fontSize: 12, color: "#94a3b8" }}>
+                  {[record.phone, record.email].filter(Boolean).join(" · ")}
+                </div>
+              )}
+            </div>
+          )}
+        />
+        <Table.Column
+          dataIndex="leadTimeDays"
+          title="Lead Time"
+          render={(v: number | null) => (v != null ? `${v} day${v !== 1 ? "s" : ""}` : "—")}
+        />
+        <Table.Column
+          dataIndex={["_count", "purchaseOrders"]}
+          title="POs"
+          align="right"
+        />
+        <Table.Column
+          dataIndex="isActive"
+          title="Status"
+          render={(v: boolean) => {
+            const cfg = ACTIVE_STATUS_CONFIG[String(v)];
+            return <Tag color={cfg?.color}>{cfg?.label}</Tag>;
+          }}
+        />
+        <Table.Column
+          title="Actions"
+          render={(_, record: SupplierRecord) => (
+            <Space>
+              <EditButton hideText size="small" recordItemId={record.id} />
+              <DeleteButton hideText size="small" recordItemId={record.id} />
+            </Space>
+          )}
+        />
+      </Table>
+    </List>
+  );
+};
@@ -53,6 +53,28 @@ export const accessControlProvider: AccessControlProvider = {
       return { can: false };
     }
 
+    // Purchase orders: ORG_ADMIN and STORE_MANAGER (API scopes to their stores)
+    if (resource === "purchase-orders") {
+      if (["ORG_ADMIN", "STORE_MANAGER"].includes(role)) return { can: true };
+      return { can: false, reason: "Only Super Admin, Org Admin, or Store Manager can manage purchase orders" };
+    }
+
+    // Stock transfers: ORG_ADMIN and STORE_MANAGER (API checks which side of the transfer they're on)
+    if (resource === "stock-transfers") {
+      if (["ORG_ADMIN", "STORE_MANAGER"].includes(role)) return { can: true };
+      return { can: false, reason: "Only Super Admin, Org Admin, or Store Manager can manage stock transfers" };
+    }
+
+    // Suppliers: ORG_ADMIN full access, STORE_MANAGER read-only
+    if (resource === "suppliers") {
+      if (role === "ORG_ADMIN") return { can: true };
+      if (role === "STORE_MANAGER") {
+        if (action === "list" || action === "show") return { can: true };
+        return { can: false };
+      }
+      return { can: false, reason: "Only Super Admin or Org Admin can manage suppliers" };
+    }
+
     // Products: read OK, write for SUPER_ADMIN and ORG_ADMIN (API enforces ownership)
     if (resource === "products") {
       if (action === "list" || action === "show") {
@@ -114,12 +136,24 @@ export const accessControlProvider: AccessControlProvider = {
       return { can: false, reason: "Only Super Admin or Org Admin can manage express delivery config" };
     }
 
+    // Store Hours: ORG_ADMIN, STORE_MANAGER
+    if (resource === "store-calendar") {
+      if (["ORG_ADMIN", "STORE_MANAGER"].includes(role)) return { can: true };
+      return { can: false, reason: "Only Org Admins and Store Managers can manage store hours" };
+    }
+
     // Riders: ORG_ADMIN, STORE_MANAGER
     if (resource === "riders") {
       if (["SUPER_ADMIN", "ORG_ADMIN", "STORE_MANAGER"].includes(role)) return { can: true };
       return { can: false, reason: "Access denied" };
     }
 
+    // COD Cash: ORG_ADMIN, STORE_MANAGER, STAFF
+    if (resource === "cod-reconciliation") {
+      if (["ORG_ADMIN", "STORE_MANAGER", "STAFF"].includes(role)) return { can: true };
+      return { can: false, reason: "Access denied" };
+    }
+
     // Delivery Board: ORG_ADMIN, STORE_MANAGER, STAFF, RIDER
     if (resource === "delivery-board") {
       if (["ORG_ADMIN", "STORE_MANAGER", "STAFF", "RIDER"].includes(role)) return { can: true };
@@ -172,6 +206,12 @@ export const accessControlProvider: AccessControlProvider = {
       return { can: false, reason: "Only Super Admin, Org Admin, or Store Manager can access customer insights" };
     }
 
+    // Job History: ORG_ADMIN (API scopes runs to their organization)
+    if (resource === "jobs") {
+      if (role === "ORG_ADMIN") return { can: true };
+      return { can: false, reason: "Only Super Admin or Org Admin can view job history" };
+    }
+
     // Return Requests: ORG_ADMIN full access, STORE_MANAGER read-only
     if (resource === "return-requests") {
       if (role === "ORG_ADMIN") return { can: true };
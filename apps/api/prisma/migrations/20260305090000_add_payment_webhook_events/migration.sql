@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "WebhookEventStatus" AS ENUM ('PROCESSED', 'IGNORED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "payment_webhook_events" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL DEFAULT 'razorpay',
+    "event_id" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "status" "WebhookEventStatus" NOT NULL DEFAULT 'PROCESSED',
+    "error" TEXT,
+    "payload" JSONB NOT NULL,
+    "processed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_webhook_events_event_id_key" ON "payment_webhook_events"("event_id");
+
+-- CreateIndex
+CREATE INDEX "payment_webhook_events_event_created_at_idx" ON "payment_webhook_events"("event", "created_at");
+
+-- CreateIndex
+CREATE INDEX "orders_razorpay_order_id_idx" ON "orders"("razorpay_order_id");
+
+-- CreateIndex
+CREATE INDEX "orders_razorpay_payment_id_idx" ON "orders"("razorpay_payment_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_memberships_razorpay_payment_id_key" ON "user_memberships"("razorpay_payment_id");
@@ -0,0 +1,30 @@
+-- Orders: razorpay_* → provider_*
+ALTER TABLE "orders" RENAME COLUMN "razorpay_order_id" TO "provider_order_id";
+ALTER TABLE "orders" RENAME COLUMN "razorpay_payment_id" TO "provider_payment_id";
+ALTER TABLE "orders" ADD COLUMN "payment_provider" TEXT;
+UPDATE "orders" SET "payment_provider" = 'razorpay' WHERE "provider_order_id" IS NOT NULL OR "provider_payment_id" IS NOT NULL;
+ALTER INDEX "orders_razorpay_order_id_idx" RENAME TO "orders_provider_order_id_idx";
+ALTER INDEX "orders_razorpay_payment_id_idx" RENAME TO "orders_provider_payment_id_idx";
+
+-- User memberships: razorpay_* → provider_*
+ALTER TABLE "user_memberships" RENAME COLUMN "razorpay_order_id" TO "provider_order_id";
+ALTER TABLE "user_memberships" RENAME COLUMN "razorpay_payment_id" TO "provider_payment_id";
+ALTER TABLE "user_memberships" ADD COLUMN "payment_provider" TEXT;
+UPDATE "user_memberships" SET "payment_provider" = 'razorpay' WHERE "provider_payment_id" IS NOT NULL;
+ALTER INDEX "user_memberships_razorpay_payment_id_key" RENAME TO "user_memberships_provider_payment_id_key";
+
+-- Refunds: razorpay_* → provider_*
+ALTER TABLE "refunds" RENAME COLUMN "razorpay_payment_id" TO "provider_payment_id";
+ALTER TABLE "refunds" RENAME COLUMN "razorpay_refund_id" TO "provider_refund_id";
+ALTER TABLE "refunds" ADD COLUMN "payment_provider" TEXT;
+UPDATE "refunds" SET "payment_provider" = 'razorpay' WHERE "provider_payment_id" IS NOT NULL;
+ALTER INDEX "refunds_razorpay_refund_id_key" RENAME TO "refunds_provider_refund_id_key";
+
+-- Wallet transactions: link top-ups to the captured payment
+ALTER TABLE "wallet_transactions" ADD COLUMN "payment_provider" TEXT;
+ALTER TABLE "wallet_transactions" ADD COLUMN "provider_payment_id" TEXT;
+CREATE UNIQUE INDEX "wallet_transactions_provider_payment_id_key" ON "wallet_transactions"("provider_payment_id");
+
+-- Webhook events: event ids are only unique per provider
+DROP INDEX "payment_webhook_events_event_id_key";
+CREATE UNIQUE INDEX "payment_webhook_events_provider_event_id_key" ON "payment_webhook_events"("provider", "event_id");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN "payment_timeout_minutes" INTEGER NOT NULL DEFAULT 15;
+
+-- CreateIndex
+CREATE INDEX "orders_payment_method_payment_status_status_created_at_idx" ON "orders"("payment_method", "payment_status", "status", "created_at");
@@ -0,0 +1,82 @@
+-- CreateEnum
+CREATE TYPE "StockTransferStatus" AS ENUM ('REQUESTED', 'DISPATCHED', 'RECEIVED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "stock_movements" ADD COLUMN "stock_transfer_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "stock_transfers" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "source_store_id" TEXT NOT NULL,
+    "destination_store_id" TEXT NOT NULL,
+    "status" "StockTransferStatus" NOT NULL DEFAULT 'REQUESTED',
+    "note" TEXT,
+    "requested_by_id" TEXT,
+    "dispatched_by_id" TEXT,
+    "received_by_id" TEXT,
+    "dispatched_at" TIMESTAMP(3),
+    "received_at" TIMESTAMP(3),
+    "cancelled_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stock_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "stock_transfer_items" (
+    "id" TEXT NOT NULL,
+    "transfer_id" TEXT NOT NULL,
+    "variant_id" TEXT NOT NULL,
+    "source_store_product_id" TEXT NOT NULL,
+    "destination_store_product_id" TEXT,
+    "quantity" INTEGER NOT NULL,
+
+    CONSTRAINT "stock_transfer_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stock_transfers_organization_id_status_created_at_idx" ON "stock_transfers"("organization_id", "status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "stock_transfers_source_store_id_status_idx" ON "stock_transfers"("source_store_id", "status");
+
+-- CreateIndex
+CREATE INDEX "stock_transfers_destination_store_id_status_idx" ON "stock_transfers"("destination_store_id", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_transfer_items_transfer_id_variant_id_key" ON "stock_transfer_items"("transfer_id", "variant_id");
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_stock_transfer_id_fkey" FOREIGN KEY ("stock_transfer_id") REFERENCES "stock_transfers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_source_store_id_fkey" FOREIGN KEY ("source_store_id") REFERENCES "stores"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_destination_store_id_fkey" FOREIGN KEY ("destination_store_id") REFERENCES "stores"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_requested_by_id_fkey" FOREIGN KEY ("requested_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_dispatched_by_id_fkey" FOREIGN KEY ("dispatched_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_received_by_id_fkey" FOREIGN KEY ("received_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfer_items" ADD CONSTRAINT "stock_transfer_items_transfer_id_fkey" FOREIGN KEY ("transfer_id") REFERENCES "stock_transfers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfer_items" ADD CONSTRAINT "stock_transfer_items_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfer_items" ADD CONSTRAINT "stock_transfer_items_source_store_product_id_fkey" FOREIGN KEY ("source_store_product_id") REFERENCES "store_products"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfer_items" ADD CONSTRAINT "stock_transfer_items_destination_store_product_id_fkey" FOREIGN KEY ("destination_store_product_id") REFERENCES "store_products"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN "near_expiry_days" INTEGER NOT NULL DEFAULT 2,
+ADD COLUMN "near_expiry_discount_percent" INTEGER;
+
+-- AlterTable
+ALTER TABLE "stock_transfer_items" ADD COLUMN "lot_number" TEXT,
+ADD COLUMN "expiry_date" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "inventory_batches" (
+    "id" TEXT NOT NULL,
+    "store_product_id" TEXT NOT NULL,
+    "store_id" TEXT NOT NULL,
+    "lot_number" TEXT,
+    "received_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiry_date" TIMESTAMP(3),
+    "quantity_received" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "goods_receipt_id" TEXT,
+    "stock_transfer_id" TEXT,
+    "near_expiry_flagged_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "inventory_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "inventory_batches_store_product_id_expiry_date_idx" ON "inventory_batches"("store_product_id", "expiry_date");
+
+-- CreateIndex
+CREATE INDEX "inventory_batches_store_id_expiry_date_idx" ON "inventory_batches"("store_id", "expiry_date");
+
+-- AddForeignKey
+ALTER TABLE "inventory_batches" ADD CONSTRAINT "inventory_batches_store_product_id_fkey" FOREIGN KEY ("store_product_id") REFERENCES "store_products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inventory_batches" ADD CONSTRAINT "inventory_batches_store_id_fkey" FOREIGN KEY ("store_id") REFERENCES "stores"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inventory_batches" ADD CONSTRAINT "inventory_batches_goods_receipt_id_fkey" FOREIGN KEY ("goods_receipt_id") REFERENCES "goods_receipts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inventory_batches" ADD CONSTRAINT "inventory_batches_stock_transfer_id_fkey" FOREIGN KEY ("stock_transfer_id") REFERENCES "stock_transfers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
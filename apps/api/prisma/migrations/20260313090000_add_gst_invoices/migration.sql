@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "stores" ADD COLUMN "state_code" TEXT,
+ADD COLUMN "gstin" TEXT,
+ADD COLUMN "invoice_prefix" TEXT,
+ADD COLUMN "invoice_sequence" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "user_addresses" ADD COLUMN "state_code" TEXT;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "place_of_supply" TEXT,
+ADD COLUMN "invoice_number" TEXT,
+ADD COLUMN "invoiced_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN "hsn_code" TEXT,
+ADD COLUMN "gst_percent" DECIMAL(4,2),
+ADD COLUMN "taxable_value" DECIMAL(10,2),
+ADD COLUMN "cgst_amount" DECIMAL(10,2),
+ADD COLUMN "sgst_amount" DECIMAL(10,2),
+ADD COLUMN "igst_amount" DECIMAL(10,2);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "orders_store_id_invoice_number_key" ON "orders"("store_id", "invoice_number");
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "stores" ADD COLUMN "delivery_otp_min_amount" DECIMAL(10,2),
+ADD COLUMN "delivery_otp_online_paid" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "delivery_proofs" (
+    "id" TEXT NOT NULL,
+    "order_id" TEXT NOT NULL,
+    "otp" TEXT,
+    "otp_attempts" INTEGER NOT NULL DEFAULT 0,
+    "otp_verified_at" TIMESTAMP(3),
+    "photo_url" TEXT,
+    "rider_id" TEXT,
+    "delivered_lat" DOUBLE PRECISION,
+    "delivered_lng" DOUBLE PRECISION,
+    "delivered_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "delivery_proofs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "delivery_proofs_order_id_key" ON "delivery_proofs"("order_id");
+
+-- AddForeignKey
+ALTER TABLE "delivery_proofs" ADD CONSTRAINT "delivery_proofs_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_proofs" ADD CONSTRAINT "delivery_proofs_rider_id_fkey" FOREIGN KEY ("rider_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "trip_location_pings" (
+    "id" TEXT NOT NULL,
+    "trip_id" TEXT NOT NULL,
+    "lat" DOUBLE PRECISION NOT NULL,
+    "lng" DOUBLE PRECISION NOT NULL,
+    "heading" DOUBLE PRECISION,
+    "speed" DOUBLE PRECISION,
+    "recorded_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "trip_location_pings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "trip_location_pings_trip_id_recorded_at_idx" ON "trip_location_pings"("trip_id", "recorded_at");
+
+-- AddForeignKey
+ALTER TABLE "trip_location_pings" ADD CONSTRAINT "trip_location_pings_trip_id_fkey" FOREIGN KEY ("trip_id") REFERENCES "delivery_trips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
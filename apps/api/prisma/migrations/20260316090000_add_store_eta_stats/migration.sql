@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "store_eta_stats" (
+    "id" TEXT NOT NULL,
+    "store_id" TEXT NOT NULL,
+    "hour" INTEGER NOT NULL,
+    "prep_minutes" DOUBLE PRECISION,
+    "prep_samples" INTEGER NOT NULL DEFAULT 0,
+    "minutes_per_km" DOUBLE PRECISION,
+    "stop_minutes" DOUBLE PRECISION,
+    "travel_samples" INTEGER NOT NULL DEFAULT 0,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "store_eta_stats_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "store_eta_stats_store_id_hour_key" ON "store_eta_stats"("store_id", "hour");
+
+-- AddForeignKey
+ALTER TABLE "store_eta_stats" ADD CONSTRAINT "store_eta_stats_store_id_fkey" FOREIGN KEY ("store_id") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "delivery_zones" ADD COLUMN     "polygon" JSONB,
+ADD COLUMN     "priority" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,69 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'SLOT_AVAILABLE';
+
+-- CreateTable
+CREATE TABLE "delivery_slot_days" (
+    "id" TEXT NOT NULL,
+    "slot_id" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "capacity" INTEGER,
+    "note" TEXT,
+    "booked" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "delivery_slot_days_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "delivery_slot_holds" (
+    "id" TEXT NOT NULL,
+    "slot_day_id" TEXT NOT NULL,
+    "order_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "released_at" TIMESTAMP(3),
+
+    CONSTRAINT "delivery_slot_holds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "delivery_slot_waitlist" (
+    "id" TEXT NOT NULL,
+    "slot_id" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "notified_at" TIMESTAMP(3),
+
+    CONSTRAINT "delivery_slot_waitlist_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "delivery_slot_days_slot_id_date_key" ON "delivery_slot_days"("slot_id", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "delivery_slot_holds_order_id_key" ON "delivery_slot_holds"("order_id");
+
+-- CreateIndex
+CREATE INDEX "delivery_slot_holds_slot_day_id_idx" ON "delivery_slot_holds"("slot_day_id");
+
+-- CreateIndex
+CREATE INDEX "delivery_slot_waitlist_slot_id_date_idx" ON "delivery_slot_waitlist"("slot_id", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "delivery_slot_waitlist_slot_id_date_user_id_key" ON "delivery_slot_waitlist"("slot_id", "date", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "delivery_slot_days" ADD CONSTRAINT "delivery_slot_days_slot_id_fkey" FOREIGN KEY ("slot_id") REFERENCES "delivery_slots"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_slot_holds" ADD CONSTRAINT "delivery_slot_holds_slot_day_id_fkey" FOREIGN KEY ("slot_day_id") REFERENCES "delivery_slot_days"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_slot_holds" ADD CONSTRAINT "delivery_slot_holds_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_slot_waitlist" ADD CONSTRAINT "delivery_slot_waitlist_slot_id_fkey" FOREIGN KEY ("slot_id") REFERENCES "delivery_slots"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_slot_waitlist" ADD CONSTRAINT "delivery_slot_waitlist_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "store_hours" (
+    "id" TEXT NOT NULL,
+    "store_id" TEXT NOT NULL,
+    "day_of_week" INTEGER NOT NULL,
+    "open_time" TEXT NOT NULL,
+    "close_time" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "store_hours_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "store_hours_overrides" (
+    "id" TEXT NOT NULL,
+    "store_id" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "is_closed" BOOLEAN NOT NULL DEFAULT false,
+    "open_time" TEXT,
+    "close_time" TEXT,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "store_hours_overrides_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "store_hours_store_id_day_of_week_key" ON "store_hours"("store_id", "day_of_week");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "store_hours_overrides_store_id_date_key" ON "store_hours_overrides"("store_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "store_hours" ADD CONSTRAINT "store_hours_store_id_fkey" FOREIGN KEY ("store_id") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "store_hours_overrides" ADD CONSTRAINT "store_hours_overrides_store_id_fkey" FOREIGN KEY ("store_id") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,106 @@
+-- CreateTable
+CREATE TABLE "rider_shifts" (
+    "id" TEXT NOT NULL,
+    "rider_id" TEXT NOT NULL,
+    "store_id" TEXT NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "ended_at" TIMESTAMP(3),
+
+    CONSTRAINT "rider_shifts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rider_earnings_rules" (
+    "id" TEXT NOT NULL,
+    "store_id" TEXT NOT NULL,
+    "base_fee" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "per_km" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "per_drop" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rider_earnings_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rider_trip_earnings" (
+    "id" TEXT NOT NULL,
+    "trip_id" TEXT NOT NULL,
+    "rider_id" TEXT NOT NULL,
+    "store_id" TEXT NOT NULL,
+    "distance_km" DOUBLE PRECISION NOT NULL,
+    "drops" INTEGER NOT NULL,
+    "base_amount" DECIMAL(10,2) NOT NULL,
+    "distance_amount" DECIMAL(10,2) NOT NULL,
+    "drop_amount" DECIMAL(10,2) NOT NULL,
+    "total_amount" DECIMAL(10,2) NOT NULL,
+    "payout_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rider_trip_earnings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rider_payouts" (
+    "id" TEXT NOT NULL,
+    "rider_id" TEXT NOT NULL,
+    "store_id" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "reference" TEXT,
+    "note" TEXT,
+    "paid_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rider_payouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rider_shifts_rider_id_ended_at_idx" ON "rider_shifts"("rider_id", "ended_at");
+
+-- CreateIndex
+CREATE INDEX "rider_shifts_store_id_ended_at_idx" ON "rider_shifts"("store_id", "ended_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rider_earnings_rules_store_id_key" ON "rider_earnings_rules"("store_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rider_trip_earnings_trip_id_key" ON "rider_trip_earnings"("trip_id");
+
+-- CreateIndex
+CREATE INDEX "rider_trip_earnings_rider_id_created_at_idx" ON "rider_trip_earnings"("rider_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "rider_trip_earnings_payout_id_idx" ON "rider_trip_earnings"("payout_id");
+
+-- CreateIndex
+CREATE INDEX "rider_payouts_rider_id_created_at_idx" ON "rider_payouts"("rider_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "rider_shifts" ADD CONSTRAINT "rider_shifts_rider_id_fkey" FOREIGN KEY ("rider_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rider_shifts" ADD CONSTRAINT "rider_shifts_store_id_fkey" FOREIGN KEY ("store_id") REFERENCES "stores"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rider_earnings_rules" ADD CONSTRAINT "rider_earnings_rules_store_id_fkey" FOREIGN KEY ("store_id") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rider_trip_earnings" ADD CONSTRAINT "rider_trip_earnings_trip_id_fkey" FOREIGN KEY ("trip_id") REFERENCES "delivery_trips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rider_trip_earnings" ADD CONSTRAINT "rider_trip_earnings_rider_id_fkey" FOREIGN KEY ("rider_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rider_trip_earnings" ADD CONSTRAINT "rider_trip_earnings_store_id_fkey" FOREIGN KEY ("store_id") REFERENCES "stores"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rider_trip_earnings" ADD CONSTRAINT "rider_trip_earnings_payout_id_fkey" FOREIGN KEY ("payout_id") REFERENCES "rider_payouts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rider_payouts" ADD CONSTRAINT "rider_payouts_rider_id_fkey" FOREIGN KEY ("rider_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rider_payouts" ADD CONSTRAINT "rider_payouts_store_id_fkey" FOREIGN KEY ("store_id") REFERENCES "stores"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rider_payouts" ADD CONSTRAINT "rider_payouts_paid_by_id_fkey" FOREIGN KEY ("paid_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "CodHandoverStatus" AS ENUM ('BALANCED', 'SHORT', 'EXCESS');
+
+-- AlterTable
+ALTER TABLE "stores" ADD COLUMN "rider_cash_limit" DECIMAL(10,2);
+
+-- CreateTable
+CREATE TABLE "cod_collections" (
+    "id" TEXT NOT NULL,
+    "order_id" TEXT NOT NULL,
+    "rider_id" TEXT NOT NULL,
+    "store_id" TEXT NOT NULL,
+    "trip_id" TEXT,
+    "expected_amount" DECIMAL(10,2) NOT NULL,
+    "collected_amount" DECIMAL(10,2) NOT NULL,
+    "note" TEXT,
+    "handover_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cod_collections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cod_handovers" (
+    "id" TEXT NOT NULL,
+    "rider_id" TEXT NOT NULL,
+    "store_id" TEXT NOT NULL,
+    "expected_amount" DECIMAL(10,2) NOT NULL,
+    "counted_amount" DECIMAL(10,2) NOT NULL,
+    "variance" DECIMAL(10,2) NOT NULL,
+    "status" "CodHandoverStatus" NOT NULL,
+    "denominations" JSONB NOT NULL,
+    "note" TEXT,
+    "received_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cod_handovers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cod_collections_order_id_key" ON "cod_collections"("order_id");
+
+-- CreateIndex
+CREATE INDEX "cod_collections_rider_id_store_id_handover_id_idx" ON "cod_collections"("rider_id", "store_id", "handover_id");
+
+-- CreateIndex
+CREATE INDEX "cod_collections_store_id_created_at_idx" ON "cod_collections"("store_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "cod_handovers_store_id_created_at_idx" ON "cod_handovers"("store_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "cod_handovers_rider_id_created_at_idx" ON "cod_handovers"("rider_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "cod_collections" ADD CONSTRAINT "cod_collections_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cod_collections" ADD CONSTRAINT "cod_collections_rider_id_fkey" FOREIGN KEY ("rider_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cod_collections" ADD CONSTRAINT "cod_collections_store_id_fkey" FOREIGN KEY ("store_id") REFERENCES "stores"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cod_collections" ADD CONSTRAINT "cod_collections_handover_id_fkey" FOREIGN KEY ("handover_id") REFERENCES "cod_handovers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cod_handovers" ADD CONSTRAINT "cod_handovers_rider_id_fkey" FOREIGN KEY ("rider_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cod_handovers" ADD CONSTRAINT "cod_handovers_store_id_fkey" FOREIGN KEY ("store_id") REFERENCES "stores"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cod_handovers" ADD CONSTRAINT "cod_handovers_received_by_id_fkey" FOREIGN KEY ("received_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
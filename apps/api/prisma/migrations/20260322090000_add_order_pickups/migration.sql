@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "order_pickups" (
+    "id" TEXT NOT NULL,
+    "order_id" TEXT NOT NULL,
+    "code" TEXT,
+    "code_attempts" INTEGER NOT NULL DEFAULT 0,
+    "verified_at" TIMESTAMP(3),
+    "verified_by_id" TEXT,
+    "arrived_at" TIMESTAMP(3),
+    "parking_note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "order_pickups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_pickups_order_id_key" ON "order_pickups"("order_id");
+
+-- AddForeignKey
+ALTER TABLE "order_pickups" ADD CONSTRAINT "order_pickups_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_pickups" ADD CONSTRAINT "order_pickups_verified_by_id_fkey" FOREIGN KEY ("verified_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "JobRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "job_runs" (
+    "id" TEXT NOT NULL,
+    "job" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "organization_id" TEXT,
+    "store_id" TEXT,
+    "run_date" TIMESTAMP(3),
+    "status" "JobRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "catch_up" BOOLEAN NOT NULL DEFAULT false,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "summary" JSONB,
+    "error" TEXT,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+
+    CONSTRAINT "job_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "job_runs_job_key_key" ON "job_runs"("job", "key");
+
+-- CreateIndex
+CREATE INDEX "job_runs_job_started_at_idx" ON "job_runs"("job", "started_at");
+
+-- CreateIndex
+CREATE INDEX "job_runs_status_started_at_idx" ON "job_runs"("status", "started_at");
+
+-- CreateIndex
+-- Fails if a subscription already has two orders for one date (the double-run this guards against); resolve those first.
+CREATE UNIQUE INDEX "orders_subscription_id_scheduled_date_key" ON "orders"("subscription_id", "scheduled_date");
+
+-- AddForeignKey
+ALTER TABLE "job_runs" ADD CONSTRAINT "job_runs_store_id_fkey" FOREIGN KEY ("store_id") REFERENCES "stores"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,80 @@
+-- CreateEnum
+CREATE TYPE "MandateMethod" AS ENUM ('UPI', 'CARD');
+
+-- CreateEnum
+CREATE TYPE "MandateStatus" AS ENUM ('PENDING', 'ACTIVE', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "MandateChargeStatus" AS ENUM ('PENDING', 'CAPTURED', 'FAILED', 'ABANDONED', 'REFUNDED');
+
+-- CreateTable
+CREATE TABLE "subscription_mandates" (
+    "id" TEXT NOT NULL,
+    "subscription_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "method" "MandateMethod" NOT NULL,
+    "status" "MandateStatus" NOT NULL DEFAULT 'PENDING',
+    "setup_order_id" TEXT NOT NULL,
+    "token" TEXT,
+    "label" TEXT,
+    "max_amount" DECIMAL(10,2) NOT NULL,
+    "authorized_at" TIMESTAMP(3),
+    "cancelled_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "subscription_mandates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "mandate_charges" (
+    "id" TEXT NOT NULL,
+    "mandate_id" TEXT NOT NULL,
+    "subscription_id" TEXT NOT NULL,
+    "delivery_date" TIMESTAMP(3) NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "status" "MandateChargeStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "provider_order_id" TEXT,
+    "provider_payment_id" TEXT,
+    "failure_reason" TEXT,
+    "order_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "mandate_charges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subscription_mandates_setup_order_id_key" ON "subscription_mandates"("setup_order_id");
+
+-- CreateIndex
+CREATE INDEX "subscription_mandates_subscription_id_status_idx" ON "subscription_mandates"("subscription_id", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mandate_charges_provider_payment_id_key" ON "mandate_charges"("provider_payment_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mandate_charges_order_id_key" ON "mandate_charges"("order_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mandate_charges_subscription_id_delivery_date_key" ON "mandate_charges"("subscription_id", "delivery_date");
+
+-- CreateIndex
+CREATE INDEX "mandate_charges_status_updated_at_idx" ON "mandate_charges"("status", "updated_at");
+
+-- AddForeignKey
+ALTER TABLE "subscription_mandates" ADD CONSTRAINT "subscription_mandates_subscription_id_fkey" FOREIGN KEY ("subscription_id") REFERENCES "subscriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subscription_mandates" ADD CONSTRAINT "subscription_mandates_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mandate_charges" ADD CONSTRAINT "mandate_charges_mandate_id_fkey" FOREIGN KEY ("mandate_id") REFERENCES "subscription_mandates"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mandate_charges" ADD CONSTRAINT "mandate_charges_subscription_id_fkey" FOREIGN KEY ("subscription_id") REFERENCES "subscriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mandate_charges" ADD CONSTRAINT "mandate_charges_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
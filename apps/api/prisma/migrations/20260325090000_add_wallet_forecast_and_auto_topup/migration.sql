@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "low_balance_alert_days" INTEGER DEFAULT 2,
+ADD COLUMN     "low_balance_alerted_for" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "wallet_auto_topups" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "threshold" DECIMAL(10,2) NOT NULL,
+    "topup_amount" DECIMAL(10,2) NOT NULL,
+    "provider" TEXT NOT NULL,
+    "method" "MandateMethod" NOT NULL,
+    "mandate_status" "MandateStatus" NOT NULL DEFAULT 'PENDING',
+    "setup_order_id" TEXT NOT NULL,
+    "token" TEXT,
+    "label" TEXT,
+    "max_amount" DECIMAL(10,2) NOT NULL,
+    "authorized_at" TIMESTAMP(3),
+    "last_topup_at" TIMESTAMP(3),
+    "last_failure_at" TIMESTAMP(3),
+    "last_failure_reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "wallet_auto_topups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wallet_auto_topups_user_id_key" ON "wallet_auto_topups"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wallet_auto_topups_setup_order_id_key" ON "wallet_auto_topups"("setup_order_id");
+
+-- CreateIndex
+CREATE INDEX "wallet_auto_topups_enabled_mandate_status_idx" ON "wallet_auto_topups"("enabled", "mandate_status");
+
+-- AddForeignKey
+ALTER TABLE "wallet_auto_topups" ADD CONSTRAINT "wallet_auto_topups_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "subscription_skips" ADD COLUMN     "vacation_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "customer_vacations" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "end_date" TIMESTAMP(3) NOT NULL,
+    "note" TEXT,
+    "cancelled_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "customer_vacations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "subscription_skips_vacation_id_date_idx" ON "subscription_skips"("vacation_id", "date");
+
+-- CreateIndex
+CREATE INDEX "customer_vacations_user_id_end_date_idx" ON "customer_vacations"("user_id", "end_date");
+
+-- CreateIndex
+CREATE INDEX "customer_vacations_start_date_end_date_idx" ON "customer_vacations"("start_date", "end_date");
+
+-- AddForeignKey
+ALTER TABLE "subscription_skips" ADD CONSTRAINT "subscription_skips_vacation_id_fkey" FOREIGN KEY ("vacation_id") REFERENCES "customer_vacations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "customer_vacations" ADD CONSTRAINT "customer_vacations_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "SubscriptionDeliveryOutcome" AS ENUM ('PLACED', 'PARTIAL', 'SKIPPED', 'VACATION', 'STORE_CLOSED', 'LOW_BALANCE', 'OUT_OF_STOCK', 'NOTHING_TO_ORDER', 'MISSED');
+
+-- CreateTable
+CREATE TABLE "subscription_deliveries" (
+    "id" TEXT NOT NULL,
+    "subscription_id" TEXT NOT NULL,
+    "delivery_date" TIMESTAMP(3) NOT NULL,
+    "outcome" "SubscriptionDeliveryOutcome" NOT NULL,
+    "order_id" TEXT,
+    "amount" DECIMAL(10,2),
+    "auto_pay" BOOLEAN NOT NULL DEFAULT false,
+    "dropped_items" JSONB NOT NULL DEFAULT '[]',
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "subscription_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subscription_deliveries_order_id_key" ON "subscription_deliveries"("order_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subscription_deliveries_subscription_id_delivery_date_key" ON "subscription_deliveries"("subscription_id", "delivery_date");
+
+-- AddForeignKey
+ALTER TABLE "subscription_deliveries" ADD CONSTRAINT "subscription_deliveries_subscription_id_fkey" FOREIGN KEY ("subscription_id") REFERENCES "subscriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subscription_deliveries" ADD CONSTRAINT "subscription_deliveries_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
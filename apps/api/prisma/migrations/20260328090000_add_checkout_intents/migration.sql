@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "CheckoutPurpose" AS ENUM ('WALLET', 'MEMBERSHIP');
+
+-- CreateTable
+CREATE TABLE "checkout_intents" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "purpose" "CheckoutPurpose" NOT NULL,
+    "provider" TEXT NOT NULL,
+    "provider_order_id" TEXT NOT NULL,
+    "amount_in_paise" INTEGER NOT NULL,
+    "notes" JSONB NOT NULL DEFAULT '{}',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "checkout_intents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "checkout_intents_provider_order_id_key" ON "checkout_intents"("provider_order_id");
+
+-- CreateIndex
+CREATE INDEX "checkout_intents_user_id_idx" ON "checkout_intents"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "checkout_intents" ADD CONSTRAINT "checkout_intents_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "refunds" ALTER COLUMN "order_id" DROP NOT NULL,
+ADD COLUMN "mandate_charge_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refunds_mandate_charge_id_provider_payment_id_key" ON "refunds"("mandate_charge_id", "provider_payment_id");
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_mandate_charge_id_fkey" FOREIGN KEY ("mandate_charge_id") REFERENCES "mandate_charges"("id") ON DELETE SET NULL ON UPDATE CASCADE;
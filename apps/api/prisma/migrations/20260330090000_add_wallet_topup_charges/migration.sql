@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "wallet_topup_charges" (
+    "id" TEXT NOT NULL,
+    "auto_topup_id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "status" "MandateChargeStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "provider_order_id" TEXT,
+    "provider_payment_id" TEXT,
+    "failure_reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "wallet_topup_charges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wallet_topup_charges_key_key" ON "wallet_topup_charges"("key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wallet_topup_charges_provider_payment_id_key" ON "wallet_topup_charges"("provider_payment_id");
+
+-- CreateIndex
+CREATE INDEX "wallet_topup_charges_auto_topup_id_idx" ON "wallet_topup_charges"("auto_topup_id");
+
+-- AddForeignKey
+ALTER TABLE "wallet_topup_charges" ADD CONSTRAINT "wallet_topup_charges_auto_topup_id_fkey" FOREIGN KEY ("auto_topup_id") REFERENCES "wallet_auto_topups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "refunds" ADD COLUMN "order_edit" BOOLEAN NOT NULL DEFAULT false;
@@ -30,6 +30,7 @@ import { deliverySlotRoutes } from "./routes/delivery-slots/index.js";
 import { walletRoutes } from "./routes/wallet/index.js";
 import { loyaltyRoutes } from "./routes/loyalty/index.js";
 import { expressDeliveryRoutes } from "./routes/express-delivery/index.js";
+import { storeCalendarRoutes } from "./routes/store-calendar/index.js";
 import { deliveryTripRoutes } from "./routes/delivery-trips/index.js";
 import { riderRoutes } from "./routes/riders/index.js";
 import { bannerRoutes } from "./routes/banners/index.js";
@@ -45,13 +46,26 @@ import { storeIntelligenceRoutes } from "./routes/store-intelligence/index.js";
 import { customerInsightsRoutes } from "./routes/customer-insights/index.js";
 import { returnRequestRoutes } from "./routes/return-requests/index.js";
 import { riderLocationRoutes } from "./routes/rider-location/index.js";
+import { riderShiftRoutes } from "./routes/rider-shifts/index.js";
+import { codRoutes } from "./routes/cod/index.js";
 import { membershipRoutes } from "./routes/memberships/index.js";
 import { subscriptionRoutes } from "./routes/subscriptions/index.js";
 import { recipeRoutes } from "./routes/recipes/index.js";
+import { paymentRoutes } from "./routes/payments/index.js";
+import { supplierRoutes } from "./routes/suppliers/index.js";
+import { purchaseOrderRoutes } from "./routes/purchase-orders/index.js";
+import { stockTransferRoutes } from "./routes/stock-transfers/index.js";
+import { jobRoutes } from "./routes/jobs/index.js";
 import { websocketPlugin } from "./plugins/websocket.js";
+import { jobRunnerPlugin } from "./plugins/job-runner.js";
 import notificationSchedulerPlugin from "./plugins/notification-scheduler.js";
 import reorderNudgeSchedulerPlugin from "./plugins/reorder-nudge-scheduler.js";
 import subscriptionSchedulerPlugin from "./plugins/subscription-scheduler.js";
+import refundRetrySchedulerPlugin from "./plugins/refund-retry-scheduler.js";
+import paymentTimeoutSchedulerPlugin from "./plugins/payment-timeout-scheduler.js";
+import expirySchedulerPlugin from "./plugins/expiry-scheduler.js";
+import etaModelSchedulerPlugin from "./plugins/eta-model-scheduler.js";
+import walletSchedulerPlugin from "./plugins/wallet-scheduler.js";
 
 export async function buildApp() {
   const app = Fastify({
@@ -76,9 +90,15 @@ export async function buildApp() {
   await app.register(prismaPlugin);
   await app.register(firebasePlugin);
   await app.register(websocketPlugin);
+  await app.register(jobRunnerPlugin);
   await app.register(notificationSchedulerPlugin);
   await app.register(reorderNudgeSchedulerPlugin);
   await app.register(subscriptionSchedulerPlugin);
+  await app.register(refundRetrySchedulerPlugin);
+  await app.register(paymentTimeoutSchedulerPlugin);
+  await app.register(expirySchedulerPlugin);
+  await app.register(etaModelSchedulerPlugin);
+  await app.register(walletSchedulerPlugin);
 
   // ── Error Handler ────────────────────────────────
   app.setErrorHandler((error, _request, reply) => {
@@ -133,6 +153,7 @@ export async function buildApp() {
       await api.register(walletRoutes, { prefix: "/wallet" });
       await api.register(loyaltyRoutes, { prefix: "/loyalty" });
       await api.register(expressDeliveryRoutes, { prefix: "/express-delivery" });
+      await api.register(storeCalendarRoutes, { prefix: "/store-calendar" });
       await api.register(deliveryTripRoutes, { prefix: "/delivery-trips" });
       await api.register(riderRoutes, { prefix: "/riders" });
       await api.register(bannerRoutes, { prefix: "/banners" });
@@ -148,9 +169,16 @@ export async function buildApp() {
       await api.register(customerInsightsRoutes, { prefix: "/customer-insights" });
       await api.register(returnRequestRoutes, { prefix: "/return-requests" });
       await api.register(riderLocationRoutes, { prefix: "/rider-location" });
+      await api.register(riderShiftRoutes, { prefix: "/rider-shifts" });
+      await api.register(codRoutes, { prefix: "/cod" });
       await api.register(membershipRoutes, { prefix: "/memberships" });
       await api.register(subscriptionRoutes, { prefix: "/subscriptions" });
       await api.register(recipeRoutes, { prefix: "/recipes" });
+      await api.register(paymentRoutes, { prefix: "/payments" });
+      await api.register(supplierRoutes, { prefix: "/suppliers" });
+      await api.register(purchaseOrderRoutes, { prefix: "/purchase-orders" });
+      await api.register(stockTransferRoutes, { prefix: "/stock-transfers" });
+      await api.register(jobRoutes, { prefix: "/jobs" });
     },
     { prefix: "/api/v1" },
   );
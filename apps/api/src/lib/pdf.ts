@@ -0,0 +1,93 @@
+/**
+ * Minimal PDF writer — A4 pages of Helvetica text and lines.
+ * Coordinates are in points from the top-left corner. Text is WinAnsi-encoded,
+ * so characters outside Latin-1 (e.g. ₹) are replaced with "?".
+ */
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export type PdfOp =
+  | { type: "text"; x: number; y: number; text: string; size?: number; bold?: boolean; align?: "left" | "right" }
+  | { type: "line"; x1: number; y1: number; x2: number; y2: number; width?: number };
+
+/** Approximate Helvetica advance width (1/1000 em). Digits and punctuation are exact. */
+function charWidth(ch: string, bold: boolean): number {
+  if (/[0-9]/.test(ch)) return 556;
+  if (/[ .,:;]/.test(ch)) return 278;
+  if (ch === "-" || ch === "(" || ch === ")") return 333;
+  if (ch === "%") return 889;
+  if (/[A-Z]/.test(ch)) return bold ? 722 : 667;
+  if (/[ilj]/.test(ch)) return bold ? 278 : 222;
+  return 556;
+}
+
+export function textWidth(text: string, size: number, bold = false): number {
+  let width = 0;
+  for (const ch of text) width += charWidth(ch, bold);
+  return (width * size) / 1000;
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+}
+
+function fmt(n: number): string {
+  return Number(n.toFixed(2)).toString();
+}
+
+function contentStream(ops: PdfOp[]): string {
+  const out: string[] = [];
+  for (const op of ops) {
+    if (op.type === "line") {
+      out.push(`${fmt(op.width ?? 0.5)} w ${fmt(op.x1)} ${fmt(PAGE_HEIGHT - op.y1)} m ${fmt(op.x2)} ${fmt(PAGE_HEIGHT - op.y2)} l S`);
+    } else {
+      const size = op.size ?? 10;
+      const x = op.align === "right" ? op.x - textWidth(op.text, size, op.bold) : op.x;
+      out.push(`BT /${op.bold ? "F2" : "F1"} ${size} Tf ${fmt(x)} ${fmt(PAGE_HEIGHT - op.y)} Td (${escapeText(op.text)}) Tj ET`);
+    }
+  }
+  return out.join("\n");
+}
+
+/**
+ * Render pages of drawing operations into a PDF file.
+ */
+export function renderPdf(pages: PdfOp[][]): Buffer {
+  // Object numbers: 1 catalog, 2 page tree, 3–4 fonts, then a page + content pair per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  pages.forEach((ops, i) => {
+    const pageId = pageIds[i];
+    const stream = contentStream(ops);
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let body = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(body, "latin1");
+    body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(body, "latin1");
+  body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    body += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  body += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(body, "latin1");
+}
@@ -1,11 +1,32 @@
 import type { FastifyRequest, FastifyReply } from "fastify";
 
+/**
+ * Access tokens carry the user in `sub` and no `type`. Everything else we sign with the
+ * JWT secret (refresh and org-select tokens) is marked with a `type` and must not be
+ * usable as a bearer token.
+ */
+function isAccessToken(payload: unknown, allowedType?: string) {
+  const { sub, type } = (payload ?? {}) as { sub?: unknown; type?: unknown };
+  return typeof sub === "string" && (type === undefined || type === allowedType);
+}
+
 export async function authenticate(request: FastifyRequest, reply: FastifyReply) {
   try {
     await request.jwtVerify();
   } catch {
-    reply.unauthorized("Invalid or expired token");
+    return reply.unauthorized("Invalid or expired token");
+  }
+  if (!isAccessToken(request.user)) reply.unauthorized("Invalid or expired token");
+}
+
+/** Like authenticate, but also accepts the temporary token issued for picking an organization */
+export async function authenticateOrgSelection(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    await request.jwtVerify();
+  } catch {
+    return reply.unauthorized("Invalid or expired token");
   }
+  if (!isAccessToken(request.user, "org-select")) reply.unauthorized("Invalid or expired token");
 }
 
 /** Try JWT verification but allow unauthenticated (guest) access */
@@ -14,5 +35,7 @@ export async function authenticateOptional(request: FastifyRequest) {
     await request.jwtVerify();
   } catch {
     // guest — request.user remains undefined
+    return;
   }
+  if (!isAccessToken(request.user)) request.user = undefined as unknown as FastifyRequest["user"];
 }
@@ -0,0 +1,47 @@
+import type { FastifyInstance } from "fastify";
+import fp from "fastify-plugin";
+import { rebuildEtaModel } from "../services/eta-model.js";
+import type { JobResult } from "../services/job-runner.js";
+import { formatDate, todayIST } from "../utils/timezone.js";
+
+const INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+const STARTUP_DELAY_MS = 15 * 60 * 1000; // 15 minutes after startup
+
+async function etaModelSchedulerPlugin(app: FastifyInstance) {
+  async function rebuildAllStores(): Promise<JobResult> {
+    const stores = await app.prisma.store.findMany({ where: { status: "ACTIVE" }, select: { id: true } });
+
+    let rebuilt = 0;
+    let failed = 0;
+    for (const store of stores) {
+      try {
+        await rebuildEtaModel(app.prisma, store.id);
+        rebuilt++;
+      } catch (err) {
+        failed++;
+        app.log.error(err, `Failed to rebuild ETA model for store ${store.id}`);
+      }
+    }
+
+    return { processed: stores.length, failed, summary: { stores: stores.length, rebuilt } };
+  }
+
+  app.jobs.register({
+    name: "eta-model",
+    intervalMs: INTERVAL_MS,
+    startupDelayMs: STARTUP_DELAY_MS,
+    maxAttempts: 3,
+
+    // Rebuilt once a day from the trips so far
+    async due() {
+      const today = todayIST();
+      return [{ key: formatDate(today), runDate: today }];
+    },
+
+    run: () => rebuildAllStores(),
+  });
+}
+
+export default fp(etaModelSchedulerPlugin, {
+  name: "eta-model-scheduler",
+});
@@ -0,0 +1,97 @@
+import type { FastifyInstance } from "fastify";
+import fp from "fastify-plugin";
+import { isDiscountActive } from "../services/pricing.js";
+import type { JobResult } from "../services/job-runner.js";
+import { formatDate, todayIST } from "../utils/timezone.js";
+
+const INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+const STARTUP_DELAY_MS = 10 * 60 * 1000; // 10 minutes after startup
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function expirySchedulerPlugin(app: FastifyInstance) {
+  async function flagNearExpiryBatches(): Promise<JobResult> {
+    const now = new Date();
+    const organizations = await app.prisma.organization.findMany({
+      select: { id: true, nearExpiryDays: true, nearExpiryDiscountPercent: true },
+    });
+
+    let processed = 0;
+    let flagged = 0;
+    let discounted = 0;
+    let failed = 0;
+    for (const org of organizations) {
+      const batches = await app.prisma.inventoryBatch.findMany({
+        where: {
+          quantity: { gt: 0 },
+          nearExpiryFlaggedAt: null,
+          expiryDate: { lte: new Date(now.getTime() + org.nearExpiryDays * DAY_MS) },
+          store: { organizationId: org.id },
+        },
+        include: {
+          storeProduct: {
+            select: { id: true, discountType: true, discountValue: true, discountStart: true, discountEnd: true },
+          },
+        },
+        orderBy: { expiryDate: "asc" },
+      });
+      processed += batches.length;
+
+      // Earliest-expiring batch decides the markdown window for its product
+      const markedDown = new Set<string>();
+      for (const batch of batches) {
+        try {
+          await app.prisma.inventoryBatch.update({
+            where: { id: batch.id },
+            data: { nearExpiryFlaggedAt: now },
+          });
+          flagged++;
+
+          // Mark down stock that can still be sold, but never override a discount someone set by hand
+          const sp = batch.storeProduct;
+          if (
+            org.nearExpiryDiscountPercent &&
+            batch.expiryDate! > now &&
+            !markedDown.has(sp.id) &&
+            !isDiscountActive(sp, now)
+          ) {
+            await app.prisma.storeProduct.update({
+              where: { id: sp.id },
+              data: {
+                discountType: "PERCENTAGE",
+                discountValue: org.nearExpiryDiscountPercent,
+                discountStart: now,
+                discountEnd: batch.expiryDate,
+              },
+            });
+            markedDown.add(sp.id);
+            discounted++;
+          }
+        } catch (err) {
+          failed++;
+          app.log.error(err, `Failed to flag near-expiry batch ${batch.id}`);
+        }
+      }
+    }
+
+    return { processed, failed, summary: { flagged, markedDown: discounted } };
+  }
+
+  app.jobs.register({
+    name: "near-expiry-batches",
+    intervalMs: INTERVAL_MS,
+    startupDelayMs: STARTUP_DELAY_MS,
+    maxAttempts: 3,
+
+    // Once a day. Batches are only flagged once, so a retry picks up the ones that failed.
+    async due() {
+      const today = todayIST();
+      return [{ key: formatDate(today), runDate: today }];
+    },
+
+    run: () => flagNearExpiryBatches(),
+  });
+}
+
+export default fp(expirySchedulerPlugin, {
+  name: "expiry-scheduler",
+});
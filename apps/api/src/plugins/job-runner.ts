@@ -0,0 +1,95 @@
+import type { FastifyInstance } from "fastify";
+import fp from "fastify-plugin";
+import {
+  claimJobRun,
+  createJobLockClient,
+  failJobRun,
+  finishJobRun,
+  withJobLock,
+  type JobDefinition,
+} from "../services/job-runner.js";
+
+export interface JobRunner {
+  register(job: JobDefinition): void;
+  /** Names of registered jobs, for the admin page */
+  names(): string[];
+}
+
+declare module "fastify" {
+  interface FastifyInstance {
+    jobs: JobRunner;
+  }
+}
+
+/**
+ * Runs scheduled jobs from DB-backed run records. Each tick takes the job's
+ * advisory lock, asks the job what is due (including anything missed while the
+ * API was down) and runs each unit that hasn't already succeeded.
+ */
+export const jobRunnerPlugin = fp(async (app: FastifyInstance) => {
+  const jobs = new Map<string, JobDefinition>();
+  const busy = new Set<string>();
+  const timers: ReturnType<typeof setTimeout>[] = [];
+  const lockClient = createJobLockClient();
+
+  async function tick(job: JobDefinition) {
+    // A slow tick in this process shouldn't overlap with the next one
+    if (busy.has(job.name)) return;
+    busy.add(job.name);
+    try {
+      const ran = await withJobLock(lockClient, job.name, async () => {
+        const units = await job.due();
+        let count = 0;
+        for (const unit of units) {
+          const run = await claimJobRun(app.prisma, job.name, unit, job.maxAttempts);
+          if (!run) continue;
+          count++;
+          try {
+            const result = await job.run(unit);
+            await finishJobRun(app.prisma, run.id, result);
+            app.log.info(
+              `Job ${job.name} [${unit.key}]${unit.catchUp ? " (catch-up)" : ""}: ${result.processed} processed, ${result.failed} failed`,
+            );
+          } catch (err) {
+            await failJobRun(app.prisma, run.id, err);
+            app.log.error(err, `Job ${job.name} [${unit.key}] failed`);
+          }
+        }
+        return count;
+      });
+      if (ran === undefined) app.log.debug(`Job ${job.name}: another instance holds the lock`);
+    } catch (err) {
+      app.log.error(err, `Job ${job.name}: tick failed`);
+    } finally {
+      busy.delete(job.name);
+    }
+  }
+
+  app.decorate("jobs", {
+    register(job: JobDefinition) {
+      jobs.set(job.name, job);
+    },
+    names() {
+      return [...jobs.keys()];
+    },
+  } satisfies JobRunner);
+
+  app.addHook("onReady", () => {
+    for (const job of jobs.values()) {
+      timers.push(
+        setTimeout(() => {
+          tick(job);
+          timers.push(setInterval(() => tick(job), job.intervalMs));
+        }, job.startupDelayMs),
+      );
+      app.log.info(
+        `Job ${job.name} registered (${Math.round(job.intervalMs / 1000)}s interval, ${Math.round(job.startupDelayMs / 1000)}s startup delay)`,
+      );
+    }
+  });
+
+  app.addHook("onClose", async () => {
+    for (const timer of timers) clearTimeout(timer);
+    await lockClient.$disconnect();
+  });
+});
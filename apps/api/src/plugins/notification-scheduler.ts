@@ -6,76 +6,77 @@ import { sendCampaignNotifications } from "../services/notification.js";
 async function notificationSchedulerPlugin(app: FastifyInstance) {
   const INTERVAL_MS = 60_000; // 60 seconds
 
-  async function processScheduledCampaigns() {
-    try {
-      const now = new Date();
+  app.jobs.register({
+    name: "notification-campaigns",
+    intervalMs: INTERVAL_MS,
+    startupDelayMs: 0,
+    // A half-sent campaign isn't resent; it's marked FAILED for an admin to look at
+    maxAttempts: 1,
 
-      // Find campaigns that are SCHEDULED and past due
+    // Campaigns that are SCHEDULED and past due, including any missed while the API was down
+    async due() {
+      const now = new Date();
       const campaigns = await app.prisma.notificationCampaign.findMany({
         where: {
           status: "SCHEDULED",
           scheduledAt: { lte: now },
         },
+        select: { id: true, organizationId: true, scheduledAt: true },
       });
+      return campaigns.map((campaign) => ({
+        key: campaign.id,
+        organizationId: campaign.organizationId,
+        runDate: campaign.scheduledAt ?? undefined,
+        catchUp: !!campaign.scheduledAt && now.getTime() - campaign.scheduledAt.getTime() > 2 * INTERVAL_MS,
+      }));
+    },
 
-      for (const campaign of campaigns) {
-        try {
-          // Mark as SENDING
-          await app.prisma.notificationCampaign.update({
-            where: { id: campaign.id },
-            data: { status: "SENDING" },
-          });
+    async run(unit) {
+      const campaign = await app.prisma.notificationCampaign.findUniqueOrThrow({ where: { id: unit.key } });
+      try {
+        // Mark as SENDING
+        await app.prisma.notificationCampaign.update({
+          where: { id: campaign.id },
+          data: { status: "SENDING" },
+        });
 
-          // Resolve audience
-          const userIds = await resolveAudience(
-            app.prisma,
-            campaign.organizationId,
-            campaign.audienceType,
-            campaign.audienceConfig as any,
-          );
+        // Resolve audience
+        const userIds = await resolveAudience(
+          app.prisma,
+          campaign.organizationId,
+          campaign.audienceType,
+          campaign.audienceConfig as any,
+        );
 
-          // Send notifications
-          await sendCampaignNotifications(app.fcm, app.prisma, campaign.id, userIds, {
-            type: campaign.type,
-            title: campaign.title,
-            body: campaign.body,
-            imageUrl: campaign.imageUrl ?? undefined,
-            data: campaign.data as Record<string, unknown> | undefined,
-          });
+        // Send notifications
+        await sendCampaignNotifications(app.fcm, app.prisma, campaign.id, userIds, {
+          type: campaign.type,
+          title: campaign.title,
+          body: campaign.body,
+          imageUrl: campaign.imageUrl ?? undefined,
+          data: campaign.data as Record<string, unknown> | undefined,
+        });
 
-          // Mark as SENT
-          await app.prisma.notificationCampaign.update({
-            where: { id: campaign.id },
-            data: {
-              status: "SENT",
-              recipientCount: userIds.length,
-              sentAt: new Date(),
-            },
-          });
+        // Mark as SENT
+        await app.prisma.notificationCampaign.update({
+          where: { id: campaign.id },
+          data: {
+            status: "SENT",
+            recipientCount: userIds.length,
+            sentAt: new Date(),
+          },
+        });
 
-          app.log.info(`Scheduled campaign ${campaign.id} sent to ${userIds.length} users`);
-        } catch (err) {
-          app.log.error(err, `Failed to process scheduled campaign ${campaign.id}`);
-          await app.prisma.notificationCampaign.update({
-            where: { id: campaign.id },
-            data: { status: "FAILED" },
-          });
-        }
+        app.log.info(`Scheduled campaign ${campaign.id} sent to ${userIds.length} users`);
+        return { processed: userIds.length, failed: 0, summary: { recipients: userIds.length } };
+      } catch (err) {
+        await app.prisma.notificationCampaign.update({
+          where: { id: campaign.id },
+          data: { status: "FAILED" },
+        });
+        throw err;
       }
-    } catch (err) {
-      app.log.error(err, "Error processing scheduled campaigns");
-    }
-  }
-
-  let intervalId: ReturnType<typeof setInterval>;
-
-  app.addHook("onReady", () => {
-    intervalId = setInterval(processScheduledCampaigns, INTERVAL_MS);
-    app.log.info("Notification scheduler started (60s interval)");
-  });
-
-  app.addHook("onClose", () => {
-    if (intervalId) clearInterval(intervalId);
+    },
   });
 }
 
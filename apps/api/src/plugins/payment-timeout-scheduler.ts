@@ -0,0 +1,165 @@
+import type { FastifyInstance } from "fastify";
+import fp from "fastify-plugin";
+import { releaseStock } from "../services/stock.js";
+import { createOrderRefunds, sendRefundNotifications } from "../services/refund.js";
+import { sendOrderStatusNotification } from "../services/notification.js";
+import { broadcastOrderUpdate } from "../services/order-broadcast.js";
+import { notifySlotWaitlist, releaseSlotHold } from "../services/slot-capacity.js";
+
+const INTERVAL_MS = 60_000; // 1 minute
+const STARTUP_DELAY_MS = 30_000; // 30 seconds after startup
+const MIN_TIMEOUT_MINUTES = 5; // lower bound accepted for Organization.paymentTimeoutMinutes
+const BATCH_SIZE = 100; // per organization per tick
+
+async function paymentTimeoutSchedulerPlugin(app: FastifyInstance) {
+  async function cancelExpiredOrder(orderId: string) {
+    const result = await app.prisma.$transaction(async (tx) => {
+      // Claim the order — a payment or manual cancel may have landed since the scan
+      const claimed = await tx.order.updateMany({
+        where: {
+          id: orderId,
+          status: "PENDING",
+          paymentStatus: { in: ["PENDING", "FAILED"] },
+        },
+        data: { status: "CANCELLED" },
+      });
+      if (claimed.count === 0) return null;
+
+      const order = await tx.order.findUniqueOrThrow({
+        where: { id: orderId },
+        include: { items: true, store: { select: { organizationId: true } } },
+      });
+
+      await tx.orderStatusLog.create({
+        data: { orderId, status: "CANCELLED", note: "Auto-cancelled: payment timeout" },
+      });
+
+      const releasedSlot = await releaseSlotHold(tx, orderId);
+
+      // Same transaction, so a committed cancel never leaves the stock reserved
+      await releaseStock(
+        tx,
+        order.items.map((i) => ({ storeProductId: i.storeProductId, quantity: i.quantity })),
+        { orderId: order.id, note: "Payment timeout" },
+      );
+
+      // Wallet share was deducted at checkout — nothing was captured online
+      const refundPlan = await createOrderRefunds(tx, order, {
+        amount: Number(order.walletAmountUsed ?? 0),
+        destination: "WALLET",
+        reason: `Refund for unpaid order #${order.id.slice(0, 8)}`,
+      });
+
+      // Loyalty reversal
+      const loyaltyUsed = order.loyaltyPointsUsed ?? 0;
+      if (loyaltyUsed > 0) {
+        const balance = await tx.loyaltyBalance.upsert({
+          where: {
+            userId_organizationId: {
+              userId: order.userId,
+              organizationId: order.store.organizationId,
+            },
+          },
+          create: {
+            userId: order.userId,
+            organizationId: order.store.organizationId,
+            points: loyaltyUsed,
+            totalEarned: 0,
+          },
+          update: {
+            points: { increment: loyaltyUsed },
+            totalRedeemed: { decrement: loyaltyUsed },
+          },
+        });
+        await tx.loyaltyTransaction.create({
+          data: {
+            userId: order.userId,
+            organizationId: order.store.organizationId,
+            orderId: order.id,
+            type: "REVERSAL",
+            points: loyaltyUsed,
+            balanceAfter: balance.points,
+            description: `Reversal for unpaid order #${order.id.slice(0, 8)}`,
+          },
+        });
+      }
+
+      return { order, refundPlan, releasedSlot };
+    });
+
+    if (!result) return false;
+    const { order, refundPlan, releasedSlot } = result;
+
+    sendOrderStatusNotification(app.fcm, app.prisma, order.id, order.userId, "CANCELLED");
+    broadcastOrderUpdate(app.prisma, order.id, "CANCELLED");
+    sendRefundNotifications(app.fcm, app.prisma, order.userId, order.id, refundPlan);
+    if (releasedSlot) {
+      notifySlotWaitlist(app.fcm, app.prisma, releasedSlot.slotId, releasedSlot.date).catch(() => {});
+    }
+
+    return true;
+  }
+
+  async function cancelUnpaidOrders() {
+    try {
+      const now = Date.now();
+      const organizations = await app.prisma.organization.findMany({
+        select: { id: true, paymentTimeoutMinutes: true },
+      });
+
+      let cancelled = 0;
+      for (const org of organizations) {
+        const timeoutMinutes = Math.max(org.paymentTimeoutMinutes, MIN_TIMEOUT_MINUTES);
+
+        const orders = await app.prisma.order.findMany({
+          where: {
+            store: { organizationId: org.id },
+            paymentMethod: "ONLINE",
+            paymentStatus: { in: ["PENDING", "FAILED"] },
+            status: "PENDING",
+            isSubscriptionOrder: false,
+            createdAt: { lt: new Date(now - timeoutMinutes * 60_000) },
+          },
+          select: { id: true },
+          orderBy: { createdAt: "asc" },
+          take: BATCH_SIZE,
+        });
+
+        for (const { id } of orders) {
+          try {
+            if (await cancelExpiredOrder(id)) cancelled++;
+          } catch (err) {
+            app.log.error(err, `Failed to auto-cancel unpaid order ${id}`);
+          }
+        }
+      }
+
+      if (cancelled > 0) {
+        app.log.info(`Payment timeout: auto-cancelled ${cancelled} unpaid order(s)`);
+      }
+    } catch (err) {
+      app.log.error(err, "Payment timeout scheduler: top-level error");
+    }
+  }
+
+  let startupTimer: ReturnType<typeof setTimeout>;
+  let intervalId: ReturnType<typeof setInterval>;
+
+  app.addHook("onReady", () => {
+    startupTimer = setTimeout(() => {
+      cancelUnpaidOrders();
+      intervalId = setInterval(cancelUnpaidOrders, INTERVAL_MS);
+    }, STARTUP_DELAY_MS);
+    app.log.info("Payment timeout scheduler registered (60s interval, 30s startup delay)");
+  });
+
+  app.addHook("onClose", () => {
+    // Closing within the startup delay must not leave the first run scheduled
+    if (startupTimer) clearTimeout(startupTimer);
+    if (intervalId) clearInterval(intervalId);
+  });
+}
+
+export default fp(paymentTimeoutSchedulerPlugin, {
+  name: "payment-timeout-scheduler",
+});
@@ -0,0 +1,57 @@
+import type { FastifyInstance } from "fastify";
+import fp from "fastify-plugin";
+import { MAX_REFUND_ATTEMPTS, processRefund } from "../services/refund.js";
+
+const INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+const STALE_INITIATED_MS = 5 * 60 * 1000; // INITIATED but never sent (e.g. crash after commit)
+
+async function refundRetrySchedulerPlugin(app: FastifyInstance) {
+  async function retryRefunds() {
+    try {
+      const staleBefore = new Date(Date.now() - STALE_INITIATED_MS);
+
+      const refunds = await app.prisma.refund.findMany({
+        where: {
+          destination: "SOURCE",
+          attempts: { lt: MAX_REFUND_ATTEMPTS },
+          providerRefundId: null,
+          OR: [
+            { status: "FAILED" },
+            { status: "INITIATED", updatedAt: { lt: staleBefore } },
+          ],
+        },
+        select: { id: true },
+        orderBy: { createdAt: "asc" },
+        take: 50,
+      });
+
+      for (const { id } of refunds) {
+        try {
+          const refund = await processRefund(app.prisma, id);
+          if (refund?.status === "FAILED") {
+            app.log.error(`Refund ${id} failed (attempt ${refund.attempts}/${MAX_REFUND_ATTEMPTS}): ${refund.lastError}`);
+          } else {
+            app.log.info(`Refund ${id} sent to gateway (${refund?.status})`);
+          }
+        } catch (err) {
+          app.log.error(err, `Failed to retry refund ${id}`);
+        }
+      }
+    } catch (err) {
+      app.log.error(err, "Error retrying refunds");
+    }
+  }
+
+  let intervalId: ReturnType<typeof setInterval>;
+
+  app.addHook("onReady", () => {
+    intervalId = setInterval(retryRefunds, INTERVAL_MS);
+    app.log.info("Refund retry scheduler started (10min interval)");
+  });
+
+  app.addHook("onClose", () => {
+    if (intervalId) clearInterval(intervalId);
+  });
+}
+
+export default fp(refundRetrySchedulerPlugin, { name: "refund-retry-scheduler" });
@@ -1,535 +1,798 @@
 import type { FastifyInstance } from "fastify";
 import fp from "fastify-plugin";
-import { Prisma } from "../../generated/prisma/index.js";
+import { Prisma, type Store } from "../../generated/prisma/index.js";
 import { sendNotification } from "../services/notification.js";
 import { calculateEffectivePrice } from "../services/pricing.js";
+import { reserveStock } from "../services/stock.js";
+import { calculateLineTaxes, isInterState } from "../services/gst.js";
+import { generateDeliveryOtp, requiresDeliveryOtp } from "../services/delivery-proof.js";
 import { advanceNextDeliveryDate, isDeliveryDay } from "../utils/subscription-dates.js";
-import { tomorrowIST, endOfDayUTC, currentISTTime } from "../utils/timezone.js";
+import { getStoreHoursOn } from "../services/store-calendar.js";
+import { chargeSubscriptionMandate, MAX_MANDATE_CHARGE_ATTEMPTS } from "../services/mandate.js";
+import { findVacationOn, VACATION_SKIP_REASON } from "../services/subscription-vacation.js";
+import { recordDelivery, recordMissedDeliveries, type DroppedItem } from "../services/subscription-deliveries.js";
+import type { JobResult, JobUnit } from "../services/job-runner.js";
+import { todayIST, tomorrowIST, endOfDayUTC, currentISTTime, formatDate } from "../utils/timezone.js";
 
 const INTERVAL_MS = 60_000; // 1 minute
 const STARTUP_DELAY_MS = 30_000; // 30 seconds after startup
+const MAX_ATTEMPTS = 3;
 
 async function subscriptionSchedulerPlugin(app: FastifyInstance) {
-  async function processSubscriptions() {
-    try {
-      const now = new Date();
-      const currentTime = currentISTTime();
+  /**
+   * Place one store's subscription orders for a delivery date. Safe to run
+   * again for the same date: subscriptions that already have an order for it
+   * are only moved on to their next delivery.
+   */
+  async function processStore(store: Store, deliveryDate: Date): Promise<JobResult> {
+    const now = new Date();
+    const dayEnd = endOfDayUTC(deliveryDate);
+    const day = deliveryDate.getTime() === todayIST().getTime() ? "today" : "tomorrow";
+    let placed = 0;
+    let skipped = 0;
+    let failed = 0;
+
+    // Deliveries that passed while no run happened can't be made any more —
+    // record them as missed and move those subscriptions on so they're picked up from this date
+    const stale = await app.prisma.subscription.findMany({
+      where: { storeId: store.id, status: "ACTIVE", nextDeliveryDate: { lt: deliveryDate } },
+      select: { id: true, nextDeliveryDate: true, frequency: true, selectedDays: true },
+    });
+    for (const sub of stale) {
+      const missed: Date[] = [];
+      let nextDate = sub.nextDeliveryDate;
+      while (nextDate < deliveryDate) {
+        missed.push(nextDate);
+        nextDate = advanceNextDeliveryDate(nextDate, sub.frequency, sub.selectedDays);
+      }
+      await recordMissedDeliveries(app.prisma, sub.id, missed);
+      await app.prisma.subscription.update({
+        where: { id: sub.id },
+        data: { nextDeliveryDate: nextDate },
+      });
+    }
 
-      // Find stores with subscriptions enabled and matching cutoff time (IST)
-      const stores = await app.prisma.store.findMany({
-        where: {
-          subscriptionEnabled: true,
-          subscriptionCutoffTime: currentTime,
+    const subscriptions = await app.prisma.subscription.findMany({
+      where: {
+        storeId: store.id,
+        status: "ACTIVE",
+        nextDeliveryDate: { gte: deliveryDate, lt: dayEnd },
+        OR: [{ pausedUntil: null }, { pausedUntil: { lt: now } }],
+      },
+      include: {
+        items: {
+          include: {
+            storeProduct: {
+              include: { product: true, variant: true },
+            },
+          },
         },
-      });
+        user: { select: { id: true, walletBalance: true } },
+      },
+    });
 
-      if (stores.length === 0) return;
+    if (subscriptions.length === 0) {
+      return { processed: 0, failed: 0, summary: { deliveryDate: formatDate(deliveryDate), rolledForward: stale.length } };
+    }
+
+    app.log.info(
+      `Store ${store.name}: processing ${subscriptions.length} subscription(s)`,
+    );
 
+    // Store closed that day (holiday, or no hours that day) — skip every delivery
+    const dayHours = await getStoreHoursOn(app.prisma, store.id, deliveryDate);
+    if (!dayHours.open) {
+      const reason = dayHours.note ? `Store closed for ${dayHours.note}` : "Store closed";
+      for (const sub of subscriptions) {
+        const nextDate = advanceNextDeliveryDate(
+          sub.nextDeliveryDate,
+          sub.frequency,
+          sub.selectedDays,
+        );
+        const existingSkip = await app.prisma.subscriptionSkip.findUnique({
+          where: { subscriptionId_date: { subscriptionId: sub.id, date: deliveryDate } },
+        });
+        await app.prisma.$transaction([
+          ...(existingSkip
+            ? []
+            : [app.prisma.subscriptionSkip.create({ data: { subscriptionId: sub.id, date: deliveryDate, reason } })]),
+          app.prisma.subscription.update({
+            where: { id: sub.id },
+            data: { nextDeliveryDate: nextDate },
+          }),
+        ]);
+        await recordDelivery(app.prisma, {
+          subscriptionId: sub.id,
+          deliveryDate,
+          ...(existingSkip
+            ? { outcome: existingSkip.vacationId ? "VACATION" : "SKIPPED", note: existingSkip.reason ?? undefined }
+            : { outcome: "STORE_CLOSED", note: reason }),
+        });
+        // Customers who skipped the day themselves already know
+        if (!existingSkip) {
+          const nextLabel = nextDate.toLocaleDateString("en-IN", {
+            weekday: "short", day: "numeric", month: "short", timeZone: "UTC",
+          });
+          await sendNotification(app.fcm, app.prisma, {
+            userId: sub.userId,
+            type: "GENERAL",
+            title: "Subscription Skipped",
+            body: `${reason} ${day}, so we've skipped ${day}'s delivery. Your next delivery is on ${nextLabel}.`,
+            data: { screen: "subscriptions" },
+          });
+        }
+      }
       app.log.info(
-        `Subscription scheduler: processing ${stores.length} store(s) at ${currentTime} IST`,
+        `Store ${store.name}: closed ${day}, skipped ${subscriptions.length} subscription(s)`,
       );
+      return {
+        processed: subscriptions.length,
+        failed: 0,
+        summary: { deliveryDate: formatDate(deliveryDate), storeClosed: true, skipped: subscriptions.length, rolledForward: stale.length },
+      };
+    }
 
-      // Tomorrow date range (IST-aware, stored as UTC midnight)
-      const tomorrowStart = tomorrowIST();
-      const tomorrowEnd = endOfDayUTC(tomorrowStart);
+    for (const sub of subscriptions) {
+      try {
+        // Already placed by an earlier attempt — just move the subscription on
+        const existingOrder = await app.prisma.order.findFirst({
+          where: { subscriptionId: sub.id, scheduledDate: deliveryDate },
+          select: { id: true },
+        });
+        if (existingOrder) {
+          await app.prisma.subscription.update({
+            where: { id: sub.id },
+            data: { nextDeliveryDate: advanceNextDeliveryDate(sub.nextDeliveryDate, sub.frequency, sub.selectedDays) },
+          });
+          skipped++;
+          continue;
+        }
 
-      for (const store of stores) {
-        try {
-          const subscriptions = await app.prisma.subscription.findMany({
-            where: {
-              storeId: store.id,
-              status: "ACTIVE",
-              nextDeliveryDate: { gte: tomorrowStart, lt: tomorrowEnd },
-              OR: [{ pausedUntil: null }, { pausedUntil: { lt: now } }],
-            },
-            include: {
-              items: {
-                include: {
-                  storeProduct: {
-                    include: { product: true, variant: true },
-                  },
-                },
-              },
-              user: { select: { id: true, walletBalance: true } },
+        // Check if the day has a skip
+        const skip = await app.prisma.subscriptionSkip.findUnique({
+          where: {
+            subscriptionId_date: {
+              subscriptionId: sub.id,
+              date: deliveryDate,
             },
+          },
+        });
+
+        if (skip) {
+          // Advance next delivery date and continue
+          const nextDate = advanceNextDeliveryDate(
+            sub.nextDeliveryDate,
+            sub.frequency,
+            sub.selectedDays,
+          );
+          await app.prisma.subscription.update({
+            where: { id: sub.id },
+            data: { nextDeliveryDate: nextDate },
           });
+          await recordDelivery(app.prisma, {
+            subscriptionId: sub.id,
+            deliveryDate,
+            outcome: skip.vacationId ? "VACATION" : "SKIPPED",
+            note: skip.reason ?? undefined,
+          });
+          app.log.info(
+            `Subscription ${sub.id}: skipped (user requested), next: ${nextDate.toISOString()}`,
+          );
+          skipped++;
+          continue;
+        }
 
-          if (subscriptions.length === 0) continue;
-
+        // Started or resumed after the customer's vacation was planned — skip it the same way
+        const vacation = await findVacationOn(app.prisma, sub.userId, deliveryDate);
+        if (vacation) {
+          const nextDate = advanceNextDeliveryDate(
+            sub.nextDeliveryDate,
+            sub.frequency,
+            sub.selectedDays,
+          );
+          await app.prisma.$transaction([
+            app.prisma.subscriptionSkip.create({
+              data: { subscriptionId: sub.id, date: deliveryDate, reason: VACATION_SKIP_REASON, vacationId: vacation.id },
+            }),
+            app.prisma.subscription.update({
+              where: { id: sub.id },
+              data: { nextDeliveryDate: nextDate },
+            }),
+          ]);
+          await recordDelivery(app.prisma, {
+            subscriptionId: sub.id,
+            deliveryDate,
+            outcome: "VACATION",
+            note: VACATION_SKIP_REASON,
+          });
           app.log.info(
-            `Store ${store.name}: processing ${subscriptions.length} subscription(s)`,
+            `Subscription ${sub.id}: skipped (vacation until ${formatDate(vacation.endDate)}), next: ${nextDate.toISOString()}`,
           );
+          skipped++;
+          continue;
+        }
 
-          for (const sub of subscriptions) {
-            try {
-              // Check if tomorrow has a skip
-              const skip = await app.prisma.subscriptionSkip.findUnique({
-                where: {
-                  subscriptionId_date: {
-                    subscriptionId: sub.id,
-                    date: tomorrowStart,
-                  },
-                },
-              });
+        // Fetch quantity overrides for this subscription + delivery day
+        const itemOverrides = await app.prisma.subscriptionItemOverride.findMany({
+          where: {
+            subscriptionId: sub.id,
+            deliveryDate: { gte: deliveryDate, lt: dayEnd },
+          },
+        });
+        const overrideMap = new Map<string, number>();
+        for (const o of itemOverrides) {
+          overrideMap.set(o.storeProductId, o.quantity);
+        }
 
-              if (skip) {
-                // Advance next delivery date and continue
-                const nextDate = advanceNextDeliveryDate(
-                  sub.nextDeliveryDate,
-                  sub.frequency,
-                  sub.selectedDays,
-                );
-                await app.prisma.subscription.update({
-                  where: { id: sub.id },
-                  data: { nextDeliveryDate: nextDate },
-                });
-                app.log.info(
-                  `Subscription ${sub.id}: skipped (user requested), next: ${nextDate.toISOString()}`,
-                );
-                continue;
-              }
+        // Gather subscription items
+        const orderItems: Array<{
+          storeProductId: string;
+          productId: string;
+          variantId: string;
+          quantity: number;
+          unitPrice: number;
+          totalPrice: number;
+          originalPrice?: number;
+          discountType?: string;
+          discountValue?: number;
+        }> = [];
+
+        // Add subscription base items (applying overrides)
+        for (const item of sub.items) {
+          const qty = overrideMap.has(item.storeProductId)
+            ? overrideMap.get(item.storeProductId)!
+            : item.quantity;
+
+          // Skip items with override quantity = 0
+          if (qty === 0) continue;
+
+          const sp = item.storeProduct;
+          const pricing = calculateEffectivePrice(
+            sp.price as unknown as number,
+            {
+              discountType: sp.variant.discountType,
+              discountValue: sp.variant.discountValue,
+              discountStart: sp.variant.discountStart,
+              discountEnd: sp.variant.discountEnd,
+            },
+            {
+              discountType: sp.discountType,
+              discountValue: sp.discountValue,
+              discountStart: sp.discountStart,
+              discountEnd: sp.discountEnd,
+            },
+            sp.memberPrice,
+          );
+          const unitPrice = pricing.effectivePrice;
+          const totalPrice = unitPrice * qty;
+          orderItems.push({
+            storeProductId: sp.id,
+            productId: sp.productId,
+            variantId: sp.variantId,
+            quantity: qty,
+            unitPrice,
+            totalPrice,
+            originalPrice: pricing.discountActive
+              ? pricing.originalPrice
+              : undefined,
+            discountType: pricing.discountType ?? undefined,
+            discountValue: pricing.discountValue ?? undefined,
+          });
+        }
 
-              // Fetch quantity overrides for this subscription + tomorrow
-              const itemOverrides = await app.prisma.subscriptionItemOverride.findMany({
-                where: {
-                  subscriptionId: sub.id,
-                  deliveryDate: { gte: tomorrowStart, lt: tomorrowEnd },
-                },
-              });
-              const overrideMap = new Map<string, number>();
-              for (const o of itemOverrides) {
-                overrideMap.set(o.storeProductId, o.quantity);
-              }
+        // Fetch BasketAddOn items for this user/store/delivery day
+        const addOns = await app.prisma.basketAddOn.findMany({
+          where: {
+            userId: sub.userId,
+            storeId: store.id,
+            deliveryDate: { gte: deliveryDate, lt: dayEnd },
+          },
+          include: {
+            storeProduct: {
+              include: { product: true, variant: true },
+            },
+          },
+        });
+
+        for (const addOn of addOns) {
+          const sp = addOn.storeProduct;
+          // Check if this storeProduct already exists in order items
+          const existing = orderItems.find(
+            (oi) => oi.storeProductId === sp.id,
+          );
+          const pricing = calculateEffectivePrice(
+            sp.price as unknown as number,
+            {
+              discountType: sp.variant.discountType,
+              discountValue: sp.variant.discountValue,
+              discountStart: sp.variant.discountStart,
+              discountEnd: sp.variant.discountEnd,
+            },
+            {
+              discountType: sp.discountType,
+              discountValue: sp.discountValue,
+              discountStart: sp.discountStart,
+              discountEnd: sp.discountEnd,
+            },
+            sp.memberPrice,
+          );
+          const unitPrice = pricing.effectivePrice;
+
+          if (existing) {
+            existing.quantity += addOn.quantity;
+            existing.totalPrice = existing.unitPrice * existing.quantity;
+          } else {
+            orderItems.push({
+              storeProductId: sp.id,
+              productId: sp.productId,
+              variantId: sp.variantId,
+              quantity: addOn.quantity,
+              unitPrice,
+              totalPrice: unitPrice * addOn.quantity,
+              originalPrice: pricing.discountActive
+                ? pricing.originalPrice
+                : undefined,
+              discountType: pricing.discountType ?? undefined,
+              discountValue: pricing.discountValue ?? undefined,
+            });
+          }
+        }
 
-              // Gather subscription items
-              const orderItems: Array<{
-                storeProductId: string;
-                productId: string;
-                variantId: string;
-                quantity: number;
-                unitPrice: number;
-                totalPrice: number;
-                originalPrice?: number;
-                discountType?: string;
-                discountValue?: number;
-              }> = [];
-
-              // Add subscription base items (applying overrides)
-              for (const item of sub.items) {
-                const qty = overrideMap.has(item.storeProductId)
-                  ? overrideMap.get(item.storeProductId)!
-                  : item.quantity;
-
-                // Skip items with override quantity = 0
-                if (qty === 0) continue;
-
-                const sp = item.storeProduct;
-                const pricing = calculateEffectivePrice(
-                  sp.price as unknown as number,
-                  {
-                    discountType: sp.variant.discountType,
-                    discountValue: sp.variant.discountValue,
-                    discountStart: sp.variant.discountStart,
-                    discountEnd: sp.variant.discountEnd,
-                  },
-                  {
-                    discountType: sp.discountType,
-                    discountValue: sp.discountValue,
-                    discountStart: sp.discountStart,
-                    discountEnd: sp.discountEnd,
-                  },
-                  sp.memberPrice,
-                );
-                const unitPrice = pricing.effectivePrice;
-                const totalPrice = unitPrice * qty;
-                orderItems.push({
-                  storeProductId: sp.id,
-                  productId: sp.productId,
-                  variantId: sp.variantId,
-                  quantity: qty,
-                  unitPrice,
-                  totalPrice,
-                  originalPrice: pricing.discountActive
-                    ? pricing.originalPrice
-                    : undefined,
-                  discountType: pricing.discountType ?? undefined,
-                  discountValue: pricing.discountValue ?? undefined,
-                });
-              }
+        if (orderItems.length === 0) {
+          // Nothing to order — advance and continue
+          const nextDate = advanceNextDeliveryDate(
+            sub.nextDeliveryDate,
+            sub.frequency,
+            sub.selectedDays,
+          );
+          await app.prisma.subscription.update({
+            where: { id: sub.id },
+            data: { nextDeliveryDate: nextDate },
+          });
+          await recordDelivery(app.prisma, { subscriptionId: sub.id, deliveryDate, outcome: "NOTHING_TO_ORDER" });
+          skipped++;
+          continue;
+        }
 
-              // Fetch BasketAddOn items for this user/store/tomorrow
-              const addOns = await app.prisma.basketAddOn.findMany({
-                where: {
-                  userId: sub.userId,
-                  storeId: store.id,
-                  deliveryDate: { gte: tomorrowStart, lt: tomorrowEnd },
-                },
-                include: {
-                  storeProduct: {
-                    include: { product: true, variant: true },
-                  },
-                },
-              });
+        // Validate stock availability — note every short item for the delivery history
+        const outOfStock: DroppedItem[] = [];
+        for (const item of orderItems) {
+          const sp = await app.prisma.storeProduct.findUnique({
+            where: { id: item.storeProductId },
+            select: { stock: true, reservedStock: true, product: { select: { name: true } } },
+          });
+          if (
+            !sp ||
+            sp.stock - sp.reservedStock < item.quantity
+          ) {
+            outOfStock.push({
+              storeProductId: item.storeProductId,
+              name: sp?.product.name ?? "item",
+              quantity: item.quantity,
+              reason: "OUT_OF_STOCK",
+            });
+          }
+        }
 
-              for (const addOn of addOns) {
-                const sp = addOn.storeProduct;
-                // Check if this storeProduct already exists in order items
-                const existing = orderItems.find(
-                  (oi) => oi.storeProductId === sp.id,
-                );
-                const pricing = calculateEffectivePrice(
-                  sp.price as unknown as number,
-                  {
-                    discountType: sp.variant.discountType,
-                    discountValue: sp.variant.discountValue,
-                    discountStart: sp.variant.discountStart,
-                    discountEnd: sp.variant.discountEnd,
-                  },
-                  {
-                    discountType: sp.discountType,
-                    discountValue: sp.discountValue,
-                    discountStart: sp.discountStart,
-                    discountEnd: sp.discountEnd,
-                  },
-                  sp.memberPrice,
-                );
-                const unitPrice = pricing.effectivePrice;
-
-                if (existing) {
-                  existing.quantity += addOn.quantity;
-                  existing.totalPrice = existing.unitPrice * existing.quantity;
-                } else {
-                  orderItems.push({
-                    storeProductId: sp.id,
-                    productId: sp.productId,
-                    variantId: sp.variantId,
-                    quantity: addOn.quantity,
-                    unitPrice,
-                    totalPrice: unitPrice * addOn.quantity,
-                    originalPrice: pricing.discountActive
-                      ? pricing.originalPrice
-                      : undefined,
-                    discountType: pricing.discountType ?? undefined,
-                    discountValue: pricing.discountValue ?? undefined,
-                  });
-                }
-              }
+        if (outOfStock.length > 0) {
+          await sendNotification(app.fcm, app.prisma, {
+            userId: sub.userId,
+            type: "GENERAL",
+            title: "Subscription Skipped",
+            body: "Your subscription order was skipped because some items are out of stock. We'll try again on your next delivery day.",
+            data: { screen: "subscriptions" },
+          });
+          const nextDate = advanceNextDeliveryDate(
+            sub.nextDeliveryDate,
+            sub.frequency,
+            sub.selectedDays,
+          );
+          await app.prisma.subscription.update({
+            where: { id: sub.id },
+            data: { nextDeliveryDate: nextDate },
+          });
+          await recordDelivery(app.prisma, {
+            subscriptionId: sub.id,
+            deliveryDate,
+            outcome: "OUT_OF_STOCK",
+            droppedItems: outOfStock,
+          });
+          app.log.info(
+            `Subscription ${sub.id}: skipped (insufficient stock)`,
+          );
+          skipped++;
+          continue;
+        }
 
-              if (orderItems.length === 0) {
-                // Nothing to order — advance and continue
-                const nextDate = advanceNextDeliveryDate(
-                  sub.nextDeliveryDate,
-                  sub.frequency,
-                  sub.selectedDays,
-                );
-                await app.prisma.subscription.update({
-                  where: { id: sub.id },
-                  data: { nextDeliveryDate: nextDate },
-                });
-                continue;
-              }
+        // Calculate totals
+        const deliveryFee = Number(store.baseDeliveryFee ?? 0);
+        let finalItems = orderItems;
+        let finalItemsTotal = orderItems.reduce(
+          (sum, i) => sum + i.totalPrice,
+          0,
+        );
+        let finalTotal = finalItemsTotal + deliveryFee;
+        let isPartial = false;
+        let droppedItems: DroppedItem[] = [];
+
+        // Check wallet balance
+        const walletBalance = Number(sub.user.walletBalance);
+
+        // Auto-pay mandate covers the order when the wallet can't, or when the
+        // customer turned wallet auto-pay off
+        let mandatePayment: { chargeId: string; provider: string; providerPaymentId: string | null } | null = null;
+        if (walletBalance < finalTotal || !sub.autoPayWithWallet) {
+          const charged = await chargeSubscriptionMandate(app.prisma, sub, deliveryDate, finalTotal);
+          if (charged.status === "captured") {
+            mandatePayment = {
+              chargeId: charged.charge.id,
+              provider: charged.provider,
+              providerPaymentId: charged.charge.providerPaymentId,
+            };
+          } else if (charged.status === "retry") {
+            // Leave the subscription where it is — the job retries this run in a few minutes
+            if (charged.attempts === 1 && !charged.pending) {
+              await sendNotification(app.fcm, app.prisma, {
+                userId: sub.userId,
+                type: "GENERAL",
+                title: "Payment Failed",
+                body: `We couldn't collect \u20B9${finalTotal} for ${day}'s subscription order: ${charged.reason}. We'll retry shortly.`,
+                data: { screen: "subscription", subscriptionId: sub.id },
+              });
+            }
+            app.log.warn(
+              `Subscription ${sub.id}: auto-pay attempt ${charged.attempts}/${MAX_MANDATE_CHARGE_ATTEMPTS} not captured (${charged.reason})`,
+            );
+            failed++;
+            continue;
+          } else if (charged.status === "failed") {
+            await sendNotification(app.fcm, app.prisma, {
+              userId: sub.userId,
+              type: "GENERAL",
+              title: "Payment Failed",
+              body: `Auto-pay for ${day}'s subscription order didn't go through: ${charged.reason}. We'll use your wallet balance instead.`,
+              data: { screen: "subscription", subscriptionId: sub.id },
+            });
+          }
+        }
 
-              // Validate stock availability
-              let stockSufficient = true;
-              for (const item of orderItems) {
-                const sp = await app.prisma.storeProduct.findUnique({
-                  where: { id: item.storeProductId },
-                  select: { stock: true, reservedStock: true },
+        if (!mandatePayment && walletBalance < finalTotal) {
+          // Partial fulfillment: subscription items first, then add-ons
+          // Items are already in priority order (subscription items pushed first, add-ons after)
+          const partialItems: typeof orderItems = [];
+          let runningTotal = deliveryFee;
+          droppedItems = [];
+
+          for (const item of orderItems) {
+            if (runningTotal + item.totalPrice <= walletBalance) {
+              partialItems.push(item);
+              runningTotal += item.totalPrice;
+            } else {
+              // Try to fit a reduced quantity
+              const affordableQty = Math.floor((walletBalance - runningTotal) / item.unitPrice);
+              if (affordableQty > 0) {
+                partialItems.push({
+                  ...item,
+                  quantity: affordableQty,
+                  totalPrice: item.unitPrice * affordableQty,
                 });
-                if (
-                  !sp ||
-                  sp.stock - sp.reservedStock < item.quantity
-                ) {
-                  stockSufficient = false;
-                  break;
-                }
+                runningTotal += item.unitPrice * affordableQty;
               }
+              // Look up product name for skipped notification
+              const sp = await app.prisma.storeProduct.findUnique({
+                where: { id: item.storeProductId },
+                select: { product: { select: { name: true } } },
+              });
+              droppedItems.push({
+                storeProductId: item.storeProductId,
+                name: sp?.product.name ?? "item",
+                quantity: item.quantity - Math.max(affordableQty, 0),
+                reason: "LOW_BALANCE",
+              });
+            }
+          }
 
-              if (!stockSufficient) {
-                await sendNotification(app.fcm, app.prisma, {
-                  userId: sub.userId,
-                  type: "GENERAL",
-                  title: "Subscription Skipped",
-                  body: "Your subscription order was skipped because some items are out of stock. We'll try again on your next delivery day.",
-                  data: { screen: "subscriptions" },
-                });
-                const nextDate = advanceNextDeliveryDate(
-                  sub.nextDeliveryDate,
-                  sub.frequency,
-                  sub.selectedDays,
-                );
-                await app.prisma.subscription.update({
-                  where: { id: sub.id },
-                  data: { nextDeliveryDate: nextDate },
-                });
-                app.log.info(
-                  `Subscription ${sub.id}: skipped (insufficient stock)`,
-                );
-                continue;
-              }
+          if (partialItems.length === 0) {
+            // Can't afford delivery + any item — skip entirely
+            await sendNotification(app.fcm, app.prisma, {
+              userId: sub.userId,
+              type: "GENERAL",
+              title: "Subscription Skipped",
+              body: "Your subscription order was skipped due to insufficient wallet balance. Please top up your wallet.",
+              data: { screen: "wallet" },
+            });
+            const nextDate = advanceNextDeliveryDate(
+              sub.nextDeliveryDate,
+              sub.frequency,
+              sub.selectedDays,
+            );
+            await app.prisma.subscription.update({
+              where: { id: sub.id },
+              data: { nextDeliveryDate: nextDate },
+            });
+            await recordDelivery(app.prisma, {
+              subscriptionId: sub.id,
+              deliveryDate,
+              outcome: "LOW_BALANCE",
+              droppedItems,
+              note: `Wallet balance \u20B9${walletBalance}, order \u20B9${finalTotal}`,
+            });
+            app.log.info(
+              `Subscription ${sub.id}: skipped (insufficient wallet balance: \u20B9${walletBalance} < \u20B9${finalTotal})`,
+            );
+            skipped++;
+            continue;
+          }
 
-              // Calculate totals
-              const deliveryFee = Number(store.baseDeliveryFee ?? 0);
-              let finalItems = orderItems;
-              let finalItemsTotal = orderItems.reduce(
-                (sum, i) => sum + i.totalPrice,
-                0,
-              );
-              let finalTotal = finalItemsTotal + deliveryFee;
-              let isPartial = false;
-              let skippedNames: string[] = [];
-
-              // Check wallet balance
-              const walletBalance = Number(sub.user.walletBalance);
-
-              if (walletBalance < finalTotal) {
-                // Partial fulfillment: subscription items first, then add-ons
-                // Items are already in priority order (subscription items pushed first, add-ons after)
-                const partialItems: typeof orderItems = [];
-                let runningTotal = deliveryFee;
-                skippedNames = [];
-
-                for (const item of orderItems) {
-                  if (runningTotal + item.totalPrice <= walletBalance) {
-                    partialItems.push(item);
-                    runningTotal += item.totalPrice;
-                  } else {
-                    // Try to fit a reduced quantity
-                    const affordableQty = Math.floor((walletBalance - runningTotal) / item.unitPrice);
-                    if (affordableQty > 0) {
-                      partialItems.push({
-                        ...item,
-                        quantity: affordableQty,
-                        totalPrice: item.unitPrice * affordableQty,
-                      });
-                      runningTotal += item.unitPrice * affordableQty;
-                    }
-                    // Look up product name for skipped notification
-                    const sp = await app.prisma.storeProduct.findUnique({
-                      where: { id: item.storeProductId },
-                      select: { product: { select: { name: true } } },
-                    });
-                    skippedNames.push(sp?.product.name ?? "item");
-                  }
-                }
-
-                if (partialItems.length === 0) {
-                  // Can't afford delivery + any item — skip entirely
-                  await sendNotification(app.fcm, app.prisma, {
-                    userId: sub.userId,
-                    type: "GENERAL",
-                    title: "Subscription Skipped",
-                    body: "Your subscription order was skipped due to insufficient wallet balance. Please top up your wallet.",
-                    data: { screen: "wallet" },
-                  });
-                  const nextDate = advanceNextDeliveryDate(
-                    sub.nextDeliveryDate,
-                    sub.frequency,
-                    sub.selectedDays,
-                  );
-                  await app.prisma.subscription.update({
-                    where: { id: sub.id },
-                    data: { nextDeliveryDate: nextDate },
-                  });
-                  app.log.info(
-                    `Subscription ${sub.id}: skipped (insufficient wallet balance: \u20B9${walletBalance} < \u20B9${finalTotal})`,
-                  );
-                  continue;
-                }
-
-                finalItems = partialItems;
-                finalItemsTotal = partialItems.reduce((s, i) => s + i.totalPrice, 0);
-                finalTotal = finalItemsTotal + deliveryFee;
-                isPartial = true;
-              }
+          finalItems = partialItems;
+          finalItemsTotal = partialItems.reduce((s, i) => s + i.totalPrice, 0);
+          finalTotal = finalItemsTotal + deliveryFee;
+          isPartial = true;
+        }
 
-              // Compute delivery window for subscription orders
-              // Window times are in IST — convert to UTC for storage
-              let estimatedDeliveryAt: Date | undefined;
-              if (store.subscriptionWindowStart) {
-                const [h, m] = store.subscriptionWindowStart.split(":").map(Number);
-                estimatedDeliveryAt = new Date(tomorrowStart);
-                // Set IST time, then subtract IST offset to get UTC
-                estimatedDeliveryAt.setUTCHours(h - 5, m - 30, 0, 0);
-              }
+        // Compute delivery window for subscription orders
+        // Window times are in IST — convert to UTC for storage
+        let estimatedDeliveryAt: Date | undefined;
+        if (store.subscriptionWindowStart) {
+          const [h, m] = store.subscriptionWindowStart.split(":").map(Number);
+          estimatedDeliveryAt = new Date(deliveryDate);
+          // Set IST time, then subtract IST offset to get UTC
+          estimatedDeliveryAt.setUTCHours(h - 5, m - 30, 0, 0);
+        }
 
-              // Create order in a transaction
-              const order = await app.prisma.$transaction(async (tx) => {
-                // Reserve stock atomically
-                for (const item of finalItems) {
-                  const res = await tx.$executeRaw`
-                    UPDATE store_products
-                    SET reserved_stock = reserved_stock + ${item.quantity}
-                    WHERE id = ${item.storeProductId}
-                      AND stock - reserved_stock >= ${item.quantity}
-                  `;
-                  if (res === 0) {
-                    throw new Error(
-                      `Stock reservation failed for ${item.storeProductId}`,
-                    );
-                  }
-                }
-
-                // Create order
-                const newOrder = await tx.order.create({
-                  data: {
-                    userId: sub.userId,
-                    storeId: store.id,
-                    isSubscriptionOrder: true,
-                    subscriptionId: sub.id,
+        // GST breakup per line — place of supply from the subscription's saved address
+        const address = sub.addressId
+          ? await app.prisma.userAddress.findUnique({ where: { id: sub.addressId }, select: { stateCode: true } })
+          : null;
+        const placeOfSupply = address?.stateCode ?? store.stateCode;
+        const products = await app.prisma.product.findMany({
+          where: { id: { in: finalItems.map((i) => i.productId) } },
+          select: { id: true, hsnCode: true, gstPercent: true },
+        });
+        const lineTaxes = calculateLineTaxes(
+          finalItems.map((item) => {
+            const product = products.find((p) => p.id === item.productId);
+            return { totalPrice: item.totalPrice, hsnCode: product?.hsnCode ?? null, gstPercent: product?.gstPercent ?? null };
+          }),
+          { interState: isInterState(store.stateCode, placeOfSupply) },
+        );
+
+        const nextDate = advanceNextDeliveryDate(
+          sub.nextDeliveryDate,
+          sub.frequency,
+          sub.selectedDays,
+        );
+
+        // Create order and advance the subscription together, so a retry can't place it twice
+        const order = await app.prisma.$transaction(async (tx) => {
+          // Reserve stock atomically
+          await reserveStock(tx, finalItems);
+
+          // Create order
+          const newOrder = await tx.order.create({
+            data: {
+              userId: sub.userId,
+              storeId: store.id,
+              isSubscriptionOrder: true,
+              subscriptionId: sub.id,
+              status: "CONFIRMED",
+              paymentStatus: "PAID",
+              paymentMethod: "ONLINE",
+              totalAmount: finalTotal,
+              deliveryFee,
+              deliveryAddress: sub.deliveryAddress,
+              deliveryLat: sub.deliveryLat ?? undefined,
+              deliveryLng: sub.deliveryLng ?? undefined,
+              deliveryPincode: sub.deliveryPincode ?? undefined,
+              fulfillmentType: "DELIVERY",
+              scheduledDate: deliveryDate,
+              slotStartTime: store.subscriptionWindowStart,
+              slotEndTime: store.subscriptionWindowEnd,
+              estimatedDeliveryAt,
+              walletAmountUsed: mandatePayment ? 0 : finalTotal,
+              ...(mandatePayment
+                ? { paymentProvider: mandatePayment.provider, providerPaymentId: mandatePayment.providerPaymentId }
+                : {}),
+              placeOfSupply,
+              deliveryProof: requiresDeliveryOtp(store, { fulfillmentType: "DELIVERY", paymentMethod: "ONLINE", totalAmount: finalTotal })
+                ? { create: { otp: generateDeliveryOtp() } }
+                : undefined,
+              items: {
+                create: finalItems.map((item, i) => ({
+                  storeProductId: item.storeProductId,
+                  productId: item.productId,
+                  variantId: item.variantId,
+                  quantity: item.quantity,
+                  unitPrice: item.unitPrice,
+                  totalPrice: item.totalPrice,
+                  originalPrice: item.originalPrice,
+                  discountType: item.discountType,
+                  discountValue: item.discountValue,
+                  ...lineTaxes[i],
+                })) as Prisma.OrderItemUncheckedCreateWithoutOrderInput[],
+              },
+              statusLogs: {
+                create: [
+                  { status: "PENDING" },
+                  {
                     status: "CONFIRMED",
-                    paymentStatus: "PAID",
-                    paymentMethod: "ONLINE",
-                    totalAmount: finalTotal,
-                    deliveryFee,
-                    deliveryAddress: sub.deliveryAddress,
-                    deliveryLat: sub.deliveryLat ?? undefined,
-                    deliveryLng: sub.deliveryLng ?? undefined,
-                    deliveryPincode: sub.deliveryPincode ?? undefined,
-                    fulfillmentType: "DELIVERY",
-                    scheduledDate: tomorrowStart,
-                    slotStartTime: store.subscriptionWindowStart,
-                    slotEndTime: store.subscriptionWindowEnd,
-                    estimatedDeliveryAt,
-                    walletAmountUsed: finalTotal,
-                    items: {
-                      create: finalItems.map((item) => ({
-                        storeProductId: item.storeProductId,
-                        productId: item.productId,
-                        variantId: item.variantId,
-                        quantity: item.quantity,
-                        unitPrice: item.unitPrice,
-                        totalPrice: item.totalPrice,
-                        originalPrice: item.originalPrice,
-                        discountType: item.discountType,
-                        discountValue: item.discountValue,
-                      })) as Prisma.OrderItemUncheckedCreateWithoutOrderInput[],
-                    },
-                    statusLogs: {
-                      create: [
-                        { status: "PENDING" },
-                        {
-                          status: "CONFIRMED",
-                          note: isPartial
-                            ? "Auto-placed subscription order (partial — low wallet balance), paid via wallet"
-                            : "Auto-placed subscription order, paid via wallet",
-                        },
-                      ],
-                    },
+                    note: mandatePayment
+                      ? "Auto-placed subscription order, paid via auto-pay"
+                      : isPartial
+                        ? "Auto-placed subscription order (partial — low wallet balance), paid via wallet"
+                        : "Auto-placed subscription order, paid via wallet",
                   },
-                });
+                ],
+              },
+            },
+          });
 
-                // Deduct wallet balance
-                const updatedUser = await tx.user.update({
-                  where: { id: sub.userId },
-                  data: { walletBalance: { decrement: finalTotal } },
-                });
-                await tx.walletTransaction.create({
-                  data: {
-                    userId: sub.userId,
-                    orderId: newOrder.id,
-                    type: "DEBIT",
-                    amount: finalTotal,
-                    balanceAfter: Number(updatedUser.walletBalance),
-                    description: isPartial
-                      ? `Subscription order #${newOrder.id.slice(0, 8)} (partial)`
-                      : `Subscription order #${newOrder.id.slice(0, 8)}`,
-                  },
-                });
+          if (mandatePayment) {
+            await tx.mandateCharge.update({
+              where: { id: mandatePayment.chargeId },
+              data: { orderId: newOrder.id },
+            });
+          } else {
+            // Deduct wallet balance
+            const updatedUser = await tx.user.update({
+              where: { id: sub.userId },
+              data: { walletBalance: { decrement: finalTotal } },
+            });
+            await tx.walletTransaction.create({
+              data: {
+                userId: sub.userId,
+                orderId: newOrder.id,
+                type: "DEBIT",
+                amount: finalTotal,
+                balanceAfter: Number(updatedUser.walletBalance),
+                description: isPartial
+                  ? `Subscription order #${newOrder.id.slice(0, 8)} (partial)`
+                  : `Subscription order #${newOrder.id.slice(0, 8)}`,
+              },
+            });
+          }
 
-                return newOrder;
-              });
+          await tx.subscription.update({
+            where: { id: sub.id },
+            data: { nextDeliveryDate: nextDate },
+          });
 
-              // Send notification
-              if (isPartial) {
-                const skippedList = skippedNames.length > 0
-                  ? ` Skipped: ${skippedNames.join(", ")}.`
-                  : "";
-                await sendNotification(app.fcm, app.prisma, {
-                  userId: sub.userId,
-                  type: "GENERAL",
-                  title: "Partial Subscription Order",
-                  body: `We placed a partial order of \u20B9${finalTotal} due to low wallet balance.${skippedList} Please top up your wallet.`,
-                  data: { orderId: order.id, screen: "orders" },
-                });
-              } else {
-                await sendNotification(app.fcm, app.prisma, {
-                  userId: sub.userId,
-                  type: "GENERAL",
-                  title: "Subscription Order Placed",
-                  body: `Your daily basket order of \u20B9${finalTotal} has been placed!`,
-                  data: { orderId: order.id, screen: "orders" },
-                });
-              }
+          await recordDelivery(tx, {
+            subscriptionId: sub.id,
+            deliveryDate,
+            outcome: isPartial ? "PARTIAL" : "PLACED",
+            orderId: newOrder.id,
+            amount: finalTotal,
+            autoPay: !!mandatePayment,
+            droppedItems,
+          });
 
-              // Advance next delivery date
-              const nextDate = advanceNextDeliveryDate(
-                sub.nextDeliveryDate,
-                sub.frequency,
-                sub.selectedDays,
-              );
-              await app.prisma.subscription.update({
-                where: { id: sub.id },
-                data: { nextDeliveryDate: nextDate },
-              });
+          return newOrder;
+        });
+
+        // Send notification
+        if (isPartial) {
+          const skippedList = droppedItems.length > 0
+            ? ` Skipped: ${droppedItems.map((i) => i.name).join(", ")}.`
+            : "";
+          await sendNotification(app.fcm, app.prisma, {
+            userId: sub.userId,
+            type: "GENERAL",
+            title: "Partial Subscription Order",
+            body: `We placed a partial order of \u20B9${finalTotal} due to low wallet balance.${skippedList} Please top up your wallet.`,
+            data: { orderId: order.id, screen: "orders" },
+          });
+        } else {
+          await sendNotification(app.fcm, app.prisma, {
+            userId: sub.userId,
+            type: "GENERAL",
+            title: "Subscription Order Placed",
+            body: mandatePayment
+              ? `Your daily basket order of \u20B9${finalTotal} has been placed and paid via auto-pay!`
+              : `Your daily basket order of \u20B9${finalTotal} has been placed!`,
+            data: { orderId: order.id, screen: "orders" },
+          });
+        }
 
-              // Clean up processed BasketAddOn records
-              if (addOns.length > 0) {
-                await app.prisma.basketAddOn.deleteMany({
-                  where: {
-                    userId: sub.userId,
-                    storeId: store.id,
-                    deliveryDate: { gte: tomorrowStart, lt: tomorrowEnd },
-                  },
-                });
-              }
+        // Clean up processed BasketAddOn records
+        if (addOns.length > 0) {
+          await app.prisma.basketAddOn.deleteMany({
+            where: {
+              userId: sub.userId,
+              storeId: store.id,
+              deliveryDate: { gte: deliveryDate, lt: dayEnd },
+            },
+          });
+        }
 
-              // Clean up processed SubscriptionItemOverride records
-              if (itemOverrides.length > 0) {
-                await app.prisma.subscriptionItemOverride.deleteMany({
-                  where: {
-                    subscriptionId: sub.id,
-                    deliveryDate: { gte: tomorrowStart, lt: tomorrowEnd },
-                  },
-                });
-              }
+        // Clean up processed SubscriptionItemOverride records
+        if (itemOverrides.length > 0) {
+          await app.prisma.subscriptionItemOverride.deleteMany({
+            where: {
+              subscriptionId: sub.id,
+              deliveryDate: { gte: deliveryDate, lt: dayEnd },
+            },
+          });
+        }
 
-              app.log.info(
-                `Subscription ${sub.id}: order ${order.id} placed${isPartial ? " (partial)" : ""} (\u20B9${finalTotal}), next: ${nextDate.toISOString()}`,
-              );
-            } catch (err) {
-              app.log.error(
-                err,
-                `Failed to process subscription ${sub.id}`,
-              );
-            }
-          }
-        } catch (err) {
-          app.log.error(
-            err,
-            `Failed to process subscriptions for store ${store.id}`,
-          );
+        placed++;
+        app.log.info(
+          `Subscription ${sub.id}: order ${order.id} placed${isPartial ? " (partial)" : ""} (\u20B9${finalTotal}), next: ${nextDate.toISOString()}`,
+        );
+      } catch (err) {
+        // Another instance placed it first — the unique index stops a duplicate
+        if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+          skipped++;
+          continue;
         }
+        failed++;
+        app.log.error(
+          err,
+          `Failed to process subscription ${sub.id}`,
+        );
       }
-    } catch (err) {
-      app.log.error(err, "Subscription scheduler: top-level error");
     }
+
+    return {
+      processed: placed + skipped,
+      failed,
+      summary: { deliveryDate: formatDate(deliveryDate), ordersPlaced: placed, skipped, rolledForward: stale.length },
+    };
   }
 
-  let intervalId: ReturnType<typeof setInterval>;
+  app.jobs.register({
+    name: "subscription-orders",
+    intervalMs: INTERVAL_MS,
+    startupDelayMs: STARTUP_DELAY_MS,
+    maxAttempts: MAX_ATTEMPTS,
+
+    /**
+     * Tomorrow's run is due from the store's cutoff (IST) onwards, so a run
+     * missed at the cutoff minute is caught up on the next tick. Today's is
+     * only due if it never ran and the delivery window is still open.
+     */
+    async due() {
+      const currentTime = currentISTTime();
+      const today = todayIST();
+      const tomorrow = tomorrowIST();
+      const stores = await app.prisma.store.findMany({
+        where: { subscriptionEnabled: true },
+        select: { id: true, organizationId: true, subscriptionCutoffTime: true, subscriptionWindowEnd: true },
+      });
 
-  app.addHook("onReady", () => {
-    setTimeout(() => {
-      processSubscriptions();
-      intervalId = setInterval(processSubscriptions, INTERVAL_MS);
-    }, STARTUP_DELAY_MS);
-    app.log.info(
-      "Subscription scheduler registered (60s interval, 30s startup delay)",
-    );
-  });
+      const units: JobUnit[] = [];
+      for (const store of stores) {
+        if (currentTime < (store.subscriptionWindowEnd ?? "23:59")) {
+          const pendingToday = await app.prisma.subscription.count({
+            where: { storeId: store.id, status: "ACTIVE", nextDeliveryDate: { gte: today, lt: tomorrow } },
+          });
+          if (pendingToday > 0) {
+            units.push({
+              key: `${store.id}:${formatDate(today)}`,
+              storeId: store.id,
+              organizationId: store.organizationId,
+              runDate: today,
+              catchUp: true,
+            });
+          }
+        }
+        if (currentTime >= store.subscriptionCutoffTime) {
+          units.push({
+            key: `${store.id}:${formatDate(tomorrow)}`,
+            storeId: store.id,
+            organizationId: store.organizationId,
+            runDate: tomorrow,
+            catchUp: currentTime !== store.subscriptionCutoffTime,
+          });
+        }
+      }
+      return units;
+    },
 
-  app.addHook("onClose", () => {
-    if (intervalId) clearInterval(intervalId);
+    async run(unit) {
+      const store = await app.prisma.store.findUniqueOrThrow({ where: { id: unit.storeId! } });
+      return processStore(store, unit.runDate!);
+    },
   });
 }
 
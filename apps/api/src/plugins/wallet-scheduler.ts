@@ -0,0 +1,221 @@
+import type { FastifyInstance } from "fastify";
+import fp from "fastify-plugin";
+import { sendNotification, sendWalletNotification } from "../services/notification.js";
+import { getMandateProvider, type MandateChargeResult } from "../services/mandate.js";
+import { creditWalletTopup } from "../services/payment-settlement.js";
+import { forecastWallet } from "../services/wallet-forecast.js";
+import type { JobResult, JobUnit } from "../services/job-runner.js";
+import { formatDate, istHour, parseDate, startOfDayIST, todayIST } from "../utils/timezone.js";
+
+const TOPUP_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+const TOPUP_STARTUP_DELAY_MS = 2 * 60 * 1000; // 2 minutes after startup
+/** A pending UPI debit may take a while to settle — don't charge again meanwhile */
+const TOPUP_COOLDOWN_MS = 30 * 60 * 1000;
+/** A top-up still pending after this is given up on, so the rule can charge again */
+const PENDING_TOPUP_EXPIRY_MS = 48 * 60 * 60 * 1000;
+
+const ALERT_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+const ALERT_STARTUP_DELAY_MS = 5 * 60 * 1000; // 5 minutes after startup
+const ALERT_HOUR_IST = 18; // early enough to top up before tomorrow's cutoff
+
+async function walletSchedulerPlugin(app: FastifyInstance) {
+  // ── Auto top-up ─────────────────────────────────────
+
+  async function processAutoTopup(unit: JobUnit): Promise<JobResult> {
+    const ruleId = unit.key.split(":")[0];
+    const rule = await app.prisma.walletAutoTopup.findUnique({
+      where: { id: ruleId },
+      include: { user: { select: { walletBalance: true } } },
+    });
+    // Turned off, or already topped up, since the unit was picked
+    if (!rule || !rule.enabled || rule.mandateStatus !== "ACTIVE" || !rule.token) return { processed: 0, failed: 0 };
+    if (Number(rule.user.walletBalance) >= Number(rule.threshold)) return { processed: 0, failed: 0 };
+
+    const amount = Number(rule.topupAmount);
+    // A debit still waiting on the bank, from this unit or an earlier one. Wait for the
+    // webhook rather than debit again.
+    const pendingCharge = await app.prisma.walletTopupCharge.findFirst({
+      where: { autoTopupId: rule.id, status: "PENDING" },
+    });
+    if (pendingCharge) return { processed: 0, failed: 0, summary: { status: "pending", amount } };
+    // This unit's charge captured, but the rule wasn't updated
+    const existing = await app.prisma.walletTopupCharge.findUnique({ where: { key: unit.key } });
+    if (existing && existing.status !== "FAILED") {
+      await app.prisma.walletAutoTopup.update({ where: { id: rule.id }, data: { lastTopupAt: new Date() } });
+      return { processed: 0, failed: 0, summary: { status: existing.status.toLowerCase(), amount } };
+    }
+
+    // Recorded before the debit; the row's id is the receipt for every try of this unit
+    const pending = { amount, status: "PENDING", providerOrderId: null, providerPaymentId: null, failureReason: null } as const;
+    const charge = await app.prisma.walletTopupCharge.upsert({
+      where: { key: unit.key },
+      create: { ...pending, autoTopupId: rule.id, key: unit.key },
+      update: { ...pending, attempts: { increment: 1 } },
+    });
+
+    let result: MandateChargeResult | null = null;
+    let failureReason: string | null = null;
+    try {
+      result = await getMandateProvider(rule.provider).charge(app.prisma, {
+        userId: rule.userId,
+        token: rule.token,
+        amountInPaise: Math.round(amount * 100),
+        receipt: charge.id,
+        // Settled by the wallet branch of the payment webhook when it arrives later
+        notes: { type: "wallet", userId: rule.userId, autoTopup: "1", walletTopupChargeId: charge.id },
+        description: "Wallet auto top-up",
+      });
+      failureReason = result.failureReason ?? null;
+    } catch (err) {
+      failureReason = err instanceof Error ? err.message : "Payment failed";
+    }
+
+    // The webhook may have settled the charge already
+    await app.prisma.walletTopupCharge.updateMany({
+      where: { id: charge.id, status: "PENDING", providerPaymentId: null },
+      data: {
+        status: result?.status === "captured" ? "CAPTURED" : result?.status === "pending" ? "PENDING" : "FAILED",
+        providerOrderId: result?.providerOrderId ?? null,
+        providerPaymentId: result?.providerPaymentId ?? null,
+        failureReason,
+      },
+    });
+
+    if (result?.status === "captured" && result.providerPaymentId) {
+      const credit = await creditWalletTopup(app.prisma, {
+        userId: rule.userId,
+        amountInPaise: Math.round(amount * 100),
+        provider: rule.provider,
+        providerPaymentId: result.providerPaymentId,
+        description: "Auto top-up",
+      });
+      await app.prisma.walletAutoTopup.update({
+        where: { id: rule.id },
+        data: { lastTopupAt: new Date(), lastFailureAt: null, lastFailureReason: null },
+      });
+      if (credit.credited) {
+        await sendWalletNotification(app.fcm, app.prisma, rule.userId, "CREDIT", amount, "Auto top-up from your saved mandate.");
+      }
+      return { processed: 1, failed: 0, summary: { status: "captured", amount } };
+    }
+
+    if (result?.status === "pending") {
+      await app.prisma.walletAutoTopup.update({ where: { id: rule.id }, data: { lastTopupAt: new Date() } });
+      return { processed: 1, failed: 0, summary: { status: "pending", amount } };
+    }
+
+    const reason = failureReason ?? "Payment failed";
+    const firstFailureToday = !rule.lastFailureAt || rule.lastFailureAt < startOfDayIST(todayIST());
+    await app.prisma.walletAutoTopup.update({
+      where: { id: rule.id },
+      data: { lastFailureAt: new Date(), lastFailureReason: reason },
+    });
+    if (firstFailureToday) {
+      await sendNotification(app.fcm, app.prisma, {
+        userId: rule.userId,
+        type: "GENERAL",
+        title: "Auto Top-up Failed",
+        body: `We couldn't add ₹${amount} to your wallet: ${reason}. We'll try again shortly.`,
+        data: { screen: "wallet" },
+      });
+    }
+    app.log.warn(`Wallet auto top-up failed for user ${rule.userId}: ${reason}`);
+    // Failing the run makes the job runner retry it
+    return { processed: 1, failed: 1, summary: { status: "failed", amount, reason } };
+  }
+
+  app.jobs.register({
+    name: "wallet-auto-topup",
+    intervalMs: TOPUP_INTERVAL_MS,
+    startupDelayMs: TOPUP_STARTUP_DELAY_MS,
+    maxAttempts: 3,
+
+    // One unit per rule below its threshold with no top-up still pending. The key changes
+    // with each top-up and each day, so a rule that keeps failing is retried three times a
+    // day at most.
+    async due() {
+      await app.prisma.walletTopupCharge.updateMany({
+        where: { status: "PENDING", createdAt: { lt: new Date(Date.now() - PENDING_TOPUP_EXPIRY_MS) } },
+        data: { status: "ABANDONED", failureReason: "No confirmation from the bank" },
+      });
+      const rules = await app.prisma.walletAutoTopup.findMany({
+        where: {
+          enabled: true,
+          mandateStatus: "ACTIVE",
+          token: { not: null },
+          charges: { none: { status: "PENDING" } },
+          OR: [{ lastTopupAt: null }, { lastTopupAt: { lt: new Date(Date.now() - TOPUP_COOLDOWN_MS) } }],
+        },
+        include: { user: { select: { walletBalance: true } } },
+      });
+      const today = formatDate(todayIST());
+      return rules
+        .filter((rule) => Number(rule.user.walletBalance) < Number(rule.threshold))
+        .map((rule) => ({ key: `${rule.id}:${today}:${rule.lastTopupAt?.getTime() ?? 0}` }));
+    },
+
+    run: (unit) => processAutoTopup(unit),
+  });
+
+  // ── Low-balance alerts ──────────────────────────────
+
+  async function processLowBalanceAlerts(): Promise<JobResult> {
+    const users = await app.prisma.user.findMany({
+      where: {
+        lowBalanceAlertDays: { not: null },
+        subscriptions: { some: { status: "ACTIVE" } },
+      },
+      select: { id: true, lowBalanceAlertDays: true, lowBalanceAlertedFor: true },
+    });
+
+    let sent = 0;
+    let failed = 0;
+    for (const user of users) {
+      try {
+        const forecast = await forecastWallet(app.prisma, user.id, user.lowBalanceAlertDays!);
+        if (!forecast.runsOutOn) continue;
+        // Once per shortfall date — a new date means the picture changed
+        if (user.lowBalanceAlertedFor && formatDate(user.lowBalanceAlertedFor) === forecast.runsOutOn) continue;
+
+        const runsOut = parseDate(forecast.runsOutOn);
+        const day = runsOut.toLocaleDateString("en-IN", { weekday: "long", timeZone: "UTC" });
+        const body = forecast.lastsUntil
+          ? `Your wallet balance lasts until ${parseDate(forecast.lastsUntil).toLocaleDateString("en-IN", { weekday: "long", timeZone: "UTC" })}. Add ₹${Math.ceil(forecast.shortfall)} to cover ${day}'s delivery.`
+          : `Your wallet won't cover ${day}'s delivery. Add ₹${Math.ceil(forecast.shortfall)} to keep your subscription running.`;
+
+        await sendNotification(app.fcm, app.prisma, {
+          userId: user.id,
+          type: "GENERAL",
+          title: "Wallet Running Low",
+          body,
+          data: { screen: "wallet" },
+        });
+        await app.prisma.user.update({ where: { id: user.id }, data: { lowBalanceAlertedFor: runsOut } });
+        sent++;
+      } catch (err) {
+        failed++;
+        app.log.error(err, `Failed to process low-balance alert for user ${user.id}`);
+      }
+    }
+
+    return { processed: users.length, failed, summary: { users: users.length, alertsSent: sent } };
+  }
+
+  app.jobs.register({
+    name: "low-balance-alerts",
+    intervalMs: ALERT_INTERVAL_MS,
+    startupDelayMs: ALERT_STARTUP_DELAY_MS,
+    maxAttempts: 3,
+
+    // One run a day from ALERT_HOUR_IST; a missed day isn't caught up
+    async due() {
+      if (istHour() < ALERT_HOUR_IST) return [];
+      const today = todayIST();
+      return [{ key: formatDate(today), runDate: today }];
+    },
+
+    run: () => processLowBalanceAlerts(),
+  });
+}
+
+export default fp(walletSchedulerPlugin, { name: "wallet-scheduler" });
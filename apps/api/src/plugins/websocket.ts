@@ -3,6 +3,7 @@ import websocket from "@fastify/websocket";
 import type { FastifyInstance } from "fastify";
 import { registerClient, removeClient, subscribeToOrder, unsubscribeFromOrder, subscribeToTrip, unsubscribeFromTrip, broadcastRiderLocation } from "../services/ws-manager.js";
 import { storeRiderLocation } from "../routes/rider-location/index.js";
+import { recordTripPing } from "../services/trip-track.js";
 
 export const websocketPlugin = fp(async (app: FastifyInstance) => {
   await app.register(websocket);
@@ -16,13 +17,18 @@ export const websocketPlugin = fp(async (app: FastifyInstance) => {
       return;
     }
 
-    let payload: { sub: string; role: string; organizationId?: string };
+    let payload: { sub: string; role: string; organizationId?: string; type?: string };
     try {
-      payload = app.jwt.verify<{ sub: string; role: string; organizationId?: string }>(token);
+      payload = app.jwt.verify<{ sub: string; role: string; organizationId?: string; type?: string }>(token);
     } catch {
       socket.close(4001, "Invalid token");
       return;
     }
+    // Only access tokens — refresh and org-select tokens carry a type
+    if (typeof payload.sub !== "string" || payload.type !== undefined) {
+      socket.close(4001, "Invalid token");
+      return;
+    }
 
     const client = registerClient(socket, payload.sub, payload.role, payload.organizationId);
     app.log.info({ userId: payload.sub, role: payload.role }, "WebSocket client connected");
@@ -52,6 +58,12 @@ export const websocketPlugin = fp(async (app: FastifyInstance) => {
                 speed: msg.speed,
                 updatedAt,
               });
+              recordTripPing(app.prisma, msg.tripId, payload.sub, {
+                lat: msg.lat,
+                lng: msg.lng,
+                heading: msg.heading,
+                speed: msg.speed,
+              }).catch(() => {});
               broadcastRiderLocation(msg.tripId, {
                 lat: msg.lat,
                 lng: msg.lng,
@@ -2,7 +2,7 @@ import type { FastifyInstance } from "fastify";
 import bcrypt from "bcryptjs";
 import { loginSchema, registerSchema, selectOrgSchema, updateProfileSchema, sendOtpSchema, verifyOtpSchema } from "@martly/shared/schemas";
 import type { ApiResponse, AuthTokens, LoginResponse, OrgSummary } from "@martly/shared/types";
-import { authenticate } from "../../middleware/auth.js";
+import { authenticate, authenticateOrgSelection } from "../../middleware/auth.js";
 import { sendNotification } from "../../services/notification.js";
 import { ensureReferralCode } from "../../services/referral-code.js";
 
@@ -89,7 +89,7 @@ export async function authRoutes(app: FastifyInstance) {
   });
 
   // Select organization (initial selection or org switching)
-  app.post("/select-org", { preHandler: [authenticate] }, async (request, reply) => {
+  app.post("/select-org", { preHandler: [authenticateOrgSelection] }, async (request, reply) => {
     const { organizationId } = selectOrgSchema.parse(request.body);
     const user = request.user as { sub: string; email: string; role: string };
 
@@ -0,0 +1,280 @@
+import type { FastifyInstance } from "fastify";
+import type { ApiResponse } from "@martly/shared/types";
+import { codHandoverSchema } from "@martly/shared/schemas";
+import { authenticate } from "../../middleware/auth.js";
+import { requireRole } from "../../middleware/authorize.js";
+import { getOrgUser, verifyStoreOrgAccess } from "../../middleware/org-scope.js";
+import {
+  createCodHandover,
+  getCashInHandByRider,
+  getRiderCashLimit,
+  isOverCashLimit,
+} from "../../services/cod-ledger.js";
+import { parseDate, startOfDayIST, todayIST } from "../../utils/timezone.js";
+
+const staffAuth = [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN", "STORE_MANAGER", "STAFF")];
+const riderOnly = [authenticate, requireRole("RIDER")];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** IST dates ("YYYY-MM-DD", both inclusive) → instants. Defaults to the last 7 days. */
+function reportPeriod(from?: string, to?: string) {
+  const last = to ? parseDate(to) : todayIST();
+  const first = from ? parseDate(from) : new Date(last.getTime() - 6 * 86_400_000);
+  return { gte: startOfDayIST(first), lt: startOfDayIST(new Date(last.getTime() + 86_400_000)) };
+}
+
+export async function codRoutes(app: FastifyInstance) {
+  // GET /riders?storeId=X — Cash each rider is holding, against the store's limit
+  app.get("/riders", { preHandler: staffAuth }, async (request, reply) => {
+    const { storeId } = request.query as { storeId?: string };
+    if (!storeId) return reply.badRequest("storeId is required");
+
+    if (!(await verifyStoreOrgAccess(request, app.prisma, storeId))) {
+      return reply.forbidden("Access denied");
+    }
+
+    const [userStores, cash, cashLimit, lastHandovers] = await Promise.all([
+      app.prisma.userStore.findMany({
+        where: { storeId, user: { role: "RIDER" } },
+        include: { user: { select: { id: true, name: true, phone: true } } },
+      }),
+      getCashInHandByRider(app.prisma, storeId),
+      getRiderCashLimit(app.prisma, storeId),
+      app.prisma.codHandover.groupBy({
+        by: ["riderId"],
+        where: { storeId },
+        _max: { createdAt: true },
+      }),
+    ]);
+    const lastHandoverAt = new Map(lastHandovers.map((h) => [h.riderId, h._max.createdAt]));
+
+    const riders = userStores
+      .map((us) => {
+        const held = cash.get(us.user.id) ?? { amount: 0, orders: 0 };
+        return {
+          ...us.user,
+          cashInHand: held.amount,
+          pendingOrders: held.orders,
+          overLimit: isOverCashLimit(held.amount, cashLimit),
+          lastHandoverAt: lastHandoverAt.get(us.user.id) ?? null,
+        };
+      })
+      .sort((a, b) => b.cashInHand - a.cashInHand);
+
+    const data = { cashLimit, riders };
+    const response: ApiResponse<typeof data> = { success: true, data };
+    return response;
+  });
+
+  // GET /riders/:riderId/pending?storeId=X — COD orders whose cash the rider still holds
+  app.get<{ Params: { riderId: string } }>("/riders/:riderId/pending", { preHandler: staffAuth }, async (request, reply) => {
+    const { storeId } = request.query as { storeId?: string };
+    if (!storeId) return reply.badRequest("storeId is required");
+
+    if (!(await verifyStoreOrgAccess(request, app.prisma, storeId))) {
+      return reply.forbidden("Access denied");
+    }
+
+    const collections = await app.prisma.codCollection.findMany({
+      where: { riderId: request.params.riderId, storeId, handoverId: null },
+      include: { order: { select: { id: true, deliveryAddress: true, user: { select: { name: true } } } } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const data = collections.map((c) => ({
+      ...c,
+      expectedAmount: Number(c.expectedAmount),
+      collectedAmount: Number(c.collectedAmount),
+    }));
+    const response: ApiResponse<typeof data> = { success: true, data };
+    return response;
+  });
+
+  // POST /handovers?storeId=X — Rider hands over cash at the counter, counted by denomination
+  app.post("/handovers", { preHandler: staffAuth }, async (request, reply) => {
+    const { storeId } = request.query as { storeId?: string };
+    if (!storeId) return reply.badRequest("storeId is required");
+
+    if (!(await verifyStoreOrgAccess(request, app.prisma, storeId))) {
+      return reply.forbidden("Access denied");
+    }
+
+    const body = codHandoverSchema.parse(request.body);
+    const assignment = await app.prisma.userStore.findUnique({
+      where: { userId_storeId: { userId: body.riderId, storeId } },
+    });
+    if (!assignment) return reply.notFound("Rider not found at this store");
+
+    const handover = await app.prisma.$transaction((tx) =>
+      createCodHandover(tx, {
+        riderId: body.riderId,
+        storeId,
+        denominations: body.denominations,
+        coins: body.coins,
+        note: body.note,
+        receivedById: getOrgUser(request).sub,
+      }),
+    );
+
+    const data = {
+      ...handover,
+      expectedAmount: Number(handover.expectedAmount),
+      countedAmount: Number(handover.countedAmount),
+      variance: Number(handover.variance),
+    };
+    const response: ApiResponse<typeof data> = { success: true, data };
+    return response;
+  });
+
+  // GET /handovers?storeId=X&from=&to=&status= — Handover history (default: last 7 days)
+  app.get("/handovers", { preHandler: staffAuth }, async (request, reply) => {
+    const { storeId, from, to, status } = request.query as { storeId?: string; from?: string; to?: string; status?: string };
+    if (!storeId) return reply.badRequest("storeId is required");
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return reply.badRequest("from and to must be YYYY-MM-DD");
+    }
+    if (status && !["BALANCED", "SHORT", "EXCESS"].includes(status)) {
+      return reply.badRequest("status must be BALANCED, SHORT or EXCESS");
+    }
+
+    if (!(await verifyStoreOrgAccess(request, app.prisma, storeId))) {
+      return reply.forbidden("Access denied");
+    }
+
+    const handovers = await app.prisma.codHandover.findMany({
+      where: {
+        storeId,
+        createdAt: reportPeriod(from, to),
+        ...(status ? { status: status as "BALANCED" | "SHORT" | "EXCESS" } : {}),
+      },
+      include: {
+        rider: { select: { id: true, name: true } },
+        receivedBy: { select: { id: true, name: true } },
+        _count: { select: { collections: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const data = handovers.map(({ _count, ...h }) => ({
+      ...h,
+      expectedAmount: Number(h.expectedAmount),
+      countedAmount: Number(h.countedAmount),
+      variance: Number(h.variance),
+      orders: _count.collections,
+    }));
+    const response: ApiResponse<typeof data> = { success: true, data };
+    return response;
+  });
+
+  // GET /report?storeId=X&from=&to= — Per-rider COD summary: collected, handed over, variance
+  app.get("/report", { preHandler: staffAuth }, async (request, reply) => {
+    const { storeId, from, to } = request.query as { storeId?: string; from?: string; to?: string };
+    if (!storeId) return reply.badRequest("storeId is required");
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return reply.badRequest("from and to must be YYYY-MM-DD");
+    }
+
+    if (!(await verifyStoreOrgAccess(request, app.prisma, storeId))) {
+      return reply.forbidden("Access denied");
+    }
+
+    const createdAt = reportPeriod(from, to);
+    const [collections, handovers] = await Promise.all([
+      app.prisma.codCollection.findMany({
+        where: { storeId, createdAt },
+        select: { riderId: true, expectedAmount: true, collectedAmount: true, rider: { select: { name: true } } },
+      }),
+      app.prisma.codHandover.findMany({
+        where: { storeId, createdAt },
+        select: { riderId: true, countedAmount: true, variance: true, status: true, rider: { select: { name: true } } },
+      }),
+    ]);
+
+    const empty = { orders: 0, expected: 0, collected: 0, doorstepMismatches: 0, handovers: 0, handedOver: 0, variance: 0, flagged: 0 };
+    const byRider = new Map<string, { riderId: string; name: string } & typeof empty>();
+    const row = (riderId: string, name: string) => {
+      let r = byRider.get(riderId);
+      if (!r) byRider.set(riderId, (r = { riderId, name, ...empty }));
+      return r;
+    };
+
+    for (const c of collections) {
+      const r = row(c.riderId, c.rider.name);
+      r.orders++;
+      r.expected += Number(c.expectedAmount);
+      r.collected += Number(c.collectedAmount);
+      if (Number(c.collectedAmount) !== Number(c.expectedAmount)) r.doorstepMismatches++;
+    }
+    for (const h of handovers) {
+      const r = row(h.riderId, h.rider.name);
+      r.handovers++;
+      r.handedOver += Number(h.countedAmount);
+      r.variance += Number(h.variance);
+      if (h.status !== "BALANCED") r.flagged++;
+    }
+
+    const round = (v: number) => Math.round(v * 100) / 100;
+    const riders = [...byRider.values()].map((r) => ({
+      ...r,
+      expected: round(r.expected),
+      collected: round(r.collected),
+      handedOver: round(r.handedOver),
+      variance: round(r.variance),
+    }));
+    const totals = riders.reduce(
+      (t, r) => ({
+        orders: t.orders + r.orders,
+        expected: round(t.expected + r.expected),
+        collected: round(t.collected + r.collected),
+        doorstepMismatches: t.doorstepMismatches + r.doorstepMismatches,
+        handovers: t.handovers + r.handovers,
+        handedOver: round(t.handedOver + r.handedOver),
+        variance: round(t.variance + r.variance),
+        flagged: t.flagged + r.flagged,
+      }),
+      empty,
+    );
+
+    const data = { totals, riders };
+    const response: ApiResponse<typeof data> = { success: true, data };
+    return response;
+  });
+
+  // GET /my-cash — Rider: cash held per store, against each store's limit
+  app.get("/my-cash", { preHandler: riderOnly }, async (request) => {
+    const user = getOrgUser(request);
+
+    const held = await app.prisma.codCollection.groupBy({
+      by: ["storeId"],
+      where: { riderId: user.sub, handoverId: null },
+      _sum: { collectedAmount: true },
+      _count: { id: true },
+    });
+    const stores = await app.prisma.store.findMany({
+      where: { id: { in: held.map((h) => h.storeId) } },
+      select: { id: true, name: true, riderCashLimit: true },
+    });
+    const storeMap = new Map(stores.map((s) => [s.id, s]));
+
+    const byStore = held.map((h) => {
+      const store = storeMap.get(h.storeId);
+      const amount = Number(h._sum.collectedAmount ?? 0);
+      const limit = store?.riderCashLimit != null ? Number(store.riderCashLimit) : null;
+      return {
+        store: { id: h.storeId, name: store?.name ?? "" },
+        cashInHand: amount,
+        orders: h._count.id,
+        limit,
+        overLimit: isOverCashLimit(amount, limit),
+      };
+    });
+
+    const data = {
+      total: Math.round(byStore.reduce((sum, s) => sum + s.cashInHand, 0) * 100) / 100,
+      stores: byStore,
+    };
+    const response: ApiResponse<typeof data> = { success: true, data };
+    return response;
+  });
+}
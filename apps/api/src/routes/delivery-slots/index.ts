@@ -1,9 +1,12 @@
 import type { FastifyInstance } from "fastify";
-import { createDeliverySlotSchema, updateDeliverySlotSchema } from "@martly/shared/schemas";
+import { createDeliverySlotSchema, updateDeliverySlotSchema, slotCapacityOverrideSchema, slotWaitlistSchema } from "@martly/shared/schemas";
 import type { ApiResponse, PaginatedResponse } from "@martly/shared/types";
 import { authenticate } from "../../middleware/auth.js";
 import { requireRole } from "../../middleware/authorize.js";
-import { verifyStoreOrgAccess } from "../../middleware/org-scope.js";
+import { getOrgUser, verifyStoreOrgAccess } from "../../middleware/org-scope.js";
+import { ensureSlotDay, getSlotAvailability, notifySlotWaitlist } from "../../services/slot-capacity.js";
+import { getStoreHoursOn, getStoreOpenStatus, isWithinHours, slotWithinHours, formatClockTime, type StoreOpenStatus } from "../../services/store-calendar.js";
+import { currentISTTime, parseDate } from "../../utils/timezone.js";
 
 const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
 
@@ -109,10 +112,150 @@ export async function deliverySlotRoutes(app: FastifyInstance) {
       data: body,
     });
 
+    // More room on every date without an override — tell anyone waiting
+    if (body.maxOrders != null && body.maxOrders > existing.maxOrders) {
+      const waiting = await app.prisma.deliverySlotWaitlist.findMany({
+        where: { slotId: slot.id, notifiedAt: null },
+        distinct: ["date"],
+        select: { date: true },
+      });
+      for (const { date } of waiting) {
+        notifySlotWaitlist(app.fcm, app.prisma, slot.id, date).catch(() => {});
+      }
+    }
+
     const response: ApiResponse<typeof slot> = { success: true, data: slot };
     return response;
   });
 
+  // GET /overrides?storeId=X&from=YYYY-MM-DD&to=YYYY-MM-DD — Date capacity overrides with bookings and waitlist
+  app.get("/overrides", {
+    preHandler: [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN", "STORE_MANAGER")],
+  }, async (request, reply) => {
+    const { storeId, from, to } = request.query as { storeId?: string; from?: string; to?: string };
+    if (!storeId) return reply.badRequest("storeId is required");
+
+    if (!(await verifyStoreOrgAccess(request, app.prisma, storeId))) {
+      return reply.forbidden("Access denied");
+    }
+
+    const days = await app.prisma.deliverySlotDay.findMany({
+      where: {
+        slot: { storeId },
+        capacity: { not: null },
+        date: { gte: from ?? new Date().toISOString().slice(0, 10), ...(to ? { lte: to } : {}) },
+      },
+      include: { slot: { select: { id: true, dayOfWeek: true, startTime: true, endTime: true, maxOrders: true } } },
+      orderBy: [{ date: "asc" }, { slot: { startTime: "asc" } }],
+    });
+
+    const waitlistCounts = days.length > 0
+      ? await app.prisma.deliverySlotWaitlist.groupBy({
+          by: ["slotId", "date"],
+          where: { slotId: { in: days.map((d) => d.slotId) }, date: { in: days.map((d) => d.date) }, notifiedAt: null },
+          _count: true,
+        })
+      : [];
+    const waitingBy = new Map(waitlistCounts.map((w) => [`${w.slotId}|${w.date}`, w._count]));
+
+    const overrides = days.map((d) => ({
+      id: d.id,
+      slotId: d.slotId,
+      date: d.date,
+      capacity: d.capacity!,
+      note: d.note,
+      booked: d.booked,
+      waiting: waitingBy.get(`${d.slotId}|${d.date}`) ?? 0,
+      slot: d.slot,
+    }));
+
+    const response: ApiResponse<typeof overrides> = { success: true, data: overrides };
+    return response;
+  });
+
+  // PUT /:id/overrides/:date — Set (or clear, with capacity null) a slot's capacity for one date
+  app.put<{ Params: { id: string; date: string } }>("/:id/overrides/:date", {
+    preHandler: [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN", "STORE_MANAGER")],
+  }, async (request, reply) => {
+    const body = slotCapacityOverrideSchema.parse(request.body);
+    const { date } = slotWaitlistSchema.parse({ date: request.params.date });
+
+    const slot = await app.prisma.deliverySlot.findUnique({ where: { id: request.params.id } });
+    if (!slot) return reply.notFound("Delivery slot not found");
+
+    if (!(await verifyStoreOrgAccess(request, app.prisma, slot.storeId))) {
+      return reply.forbidden("Access denied");
+    }
+
+    if (new Date(date + "T00:00:00").getDay() !== slot.dayOfWeek) {
+      return reply.badRequest("Date does not match slot day of week");
+    }
+
+    const day = await ensureSlotDay(app.prisma, slot.id, date);
+    const updated = await app.prisma.deliverySlotDay.update({
+      where: { id: day.id },
+      data: { capacity: body.capacity, note: body.capacity == null ? null : body.note ?? null },
+    });
+
+    // Orders already booked keep their place even if the new capacity is lower
+    const before = day.capacity ?? slot.maxOrders;
+    const after = updated.capacity ?? slot.maxOrders;
+    if (after > before) {
+      notifySlotWaitlist(app.fcm, app.prisma, slot.id, date).catch(() => {});
+    }
+
+    const response: ApiResponse<typeof updated> = { success: true, data: updated };
+    return response;
+  });
+
+  // POST /:id/waitlist — Customer: notify me when this slot has room on a date
+  app.post<{ Params: { id: string } }>("/:id/waitlist", {
+    preHandler: [authenticate],
+  }, async (request, reply) => {
+    const { date } = slotWaitlistSchema.parse(request.body);
+    const user = getOrgUser(request);
+
+    const slot = await app.prisma.deliverySlot.findUnique({ where: { id: request.params.id } });
+    if (!slot || !slot.isActive) return reply.notFound("Delivery slot not found");
+
+    const [availabilityMap, storeHours] = await Promise.all([
+      getSlotAvailability(app.prisma, [slot], date),
+      getStoreHoursOn(app.prisma, slot.storeId, parseDate(date)),
+    ]);
+    const availability = availabilityMap.get(slot.id)!;
+    if (availability.capacity === 0 || !slotWithinHours(storeHours, slot.startTime)) {
+      return reply.badRequest("This slot is closed on this date");
+    }
+    if (availability.available > 0) {
+      return reply.badRequest("This slot still has room — book it now");
+    }
+
+    // Re-joining after a notification that came too late waits for the next opening
+    const entry = await app.prisma.deliverySlotWaitlist.upsert({
+      where: { slotId_date_userId: { slotId: slot.id, date, userId: user.sub } },
+      create: { slotId: slot.id, date, userId: user.sub },
+      update: { notifiedAt: null },
+    });
+
+    const response: ApiResponse<typeof entry> = { success: true, data: entry };
+    return response;
+  });
+
+  // DELETE /:id/waitlist?date=YYYY-MM-DD — Customer: stop waiting
+  app.delete<{ Params: { id: string } }>("/:id/waitlist", {
+    preHandler: [authenticate],
+  }, async (request) => {
+    const { date } = slotWaitlistSchema.parse(request.query);
+    const user = getOrgUser(request);
+
+    await app.prisma.deliverySlotWaitlist.deleteMany({
+      where: { slotId: request.params.id, date, userId: user.sub },
+    });
+
+    const response: ApiResponse<null> = { success: true, data: null };
+    return response;
+  });
+
   // DELETE /:id — Delete a slot
   app.delete<{ Params: { id: string } }>("/:id", {
     preHandler: [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN")],
@@ -167,32 +310,24 @@ export async function deliverySlotRoutes(app: FastifyInstance) {
       orderBy: { startTime: "asc" },
     });
 
-    // Count booked orders per slot for this date
-    const startOfDay = new Date(date + "T00:00:00");
-    const endOfDay = new Date(date + "T23:59:59.999");
-
-    const slotIds = slots.map((s) => s.id);
-    const bookingCounts = slotIds.length > 0
-      ? await app.prisma.order.groupBy({
-          by: ["deliverySlotId"],
-          where: {
-            deliverySlotId: { in: slotIds },
-            scheduledDate: { gte: startOfDay, lte: endOfDay },
-            status: { not: "CANCELLED" },
-          },
-          _count: true,
-        })
-      : [];
-
-    const countMap = new Map(bookingCounts.map((b) => [b.deliverySlotId, b._count]));
+    // Booked places per slot for this date, with any date override applied
+    const user = getOrgUser(request);
+    const [availabilityMap, waitlisted, storeHours] = await Promise.all([
+      getSlotAvailability(app.prisma, slots, date),
+      app.prisma.deliverySlotWaitlist.findMany({
+        where: { slotId: { in: slots.map((s) => s.id) }, date, userId: user.sub, notifiedAt: null },
+        select: { slotId: true },
+      }),
+      getStoreHoursOn(app.prisma, storeId, parseDate(date)),
+    ]);
+    const waitlistedIds = new Set(waitlisted.map((w) => w.slotId));
 
     const now = new Date();
     const currentMinutes = now.getHours() * 60 + now.getMinutes();
 
     const availableSlots = slots
       .map((slot) => {
-        const booked = countMap.get(slot.id) ?? 0;
-        const available = slot.maxOrders - booked;
+        const { capacity, available, note } = availabilityMap.get(slot.id)!;
 
         // Check cutoff: if today, slot start time minus cutoff must be in the future
         if (isToday) {
@@ -203,13 +338,32 @@ export async function deliverySlotRoutes(app: FastifyInstance) {
           }
         }
 
+        // Store holiday, or the slot falls outside the store's hours that day
+        if (!slotWithinHours(storeHours, slot.startTime)) {
+          return {
+            id: slot.id,
+            startTime: slot.startTime,
+            endTime: slot.endTime,
+            maxOrders: capacity,
+            available: 0,
+            full: true,
+            closed: true,
+            note: storeHours.note ?? "Store closed",
+            waitlisted: false,
+          };
+        }
+
         return {
           id: slot.id,
           startTime: slot.startTime,
           endTime: slot.endTime,
-          maxOrders: slot.maxOrders,
+          maxOrders: capacity,
           available,
           full: available <= 0,
+          // Closed for the date by an override — no point joining the waitlist
+          closed: capacity === 0,
+          note,
+          waitlisted: waitlistedIds.has(slot.id),
         };
       })
       .filter(Boolean);
@@ -228,13 +382,14 @@ export async function deliverySlotRoutes(app: FastifyInstance) {
     const { storeId } = request.query as { storeId?: string };
     if (!storeId) return reply.badRequest("storeId is required");
 
-    const [count, expressConfig] = await Promise.all([
+    const [count, expressConfig, storeStatus] = await Promise.all([
       app.prisma.deliverySlot.count({
         where: { storeId, isActive: true },
       }),
       app.prisma.expressDeliveryConfig.findUnique({
         where: { storeId },
       }),
+      getStoreOpenStatus(app.prisma, storeId),
     ]);
 
     // Express availability logic
@@ -250,25 +405,19 @@ export async function deliverySlotRoutes(app: FastifyInstance) {
       if (!expressConfig.isEnabled) {
         expressAvailable = false;
       } else if (expressConfig.operatingStart && expressConfig.operatingEnd) {
-        const now = new Date();
-        const currentMinutes = now.getHours() * 60 + now.getMinutes();
-        const [startH, startM] = expressConfig.operatingStart.split(":").map(Number);
-        const [endH, endM] = expressConfig.operatingEnd.split(":").map(Number);
-        const startMinutes = startH * 60 + startM;
-        const endMinutes = endH * 60 + endM;
-
-        if (currentMinutes < startMinutes || currentMinutes >= endMinutes) {
+        if (!isWithinHours(currentISTTime(), expressConfig.operatingStart, expressConfig.operatingEnd)) {
           expressAvailable = false;
-          const formatTime = (h: number, m: number) => {
-            const ampm = h >= 12 ? "PM" : "AM";
-            const h12 = h % 12 || 12;
-            return `${h12}:${m.toString().padStart(2, "0")} ${ampm}`;
-          };
-          expressReason = `Outside operating hours (${formatTime(startH, startM)} - ${formatTime(endH, endM)})`;
+          expressReason = `Outside operating hours (${formatClockTime(expressConfig.operatingStart)} - ${formatClockTime(expressConfig.operatingEnd)})`;
         }
       }
     }
 
+    // A closed store takes no express orders, whatever the express config says
+    if (expressEnabled && !storeStatus.isOpen) {
+      expressAvailable = false;
+      expressReason = storeStatus.message ?? undefined;
+    }
+
     const response: ApiResponse<{
       hasSlots: boolean;
       express: {
@@ -277,6 +426,7 @@ export async function deliverySlotRoutes(app: FastifyInstance) {
         etaMinutes: number | null;
         reason?: string;
       };
+      store: StoreOpenStatus;
     }> = {
       success: true,
       data: {
@@ -287,6 +437,7 @@ export async function deliverySlotRoutes(app: FastifyInstance) {
           etaMinutes: expressEtaMinutes,
           ...(expressReason ? { reason: expressReason } : {}),
         },
+        store: storeStatus,
       },
     };
     return response;
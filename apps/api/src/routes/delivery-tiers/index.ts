@@ -5,6 +5,8 @@ import { authenticate, authenticateOptional } from "../../middleware/auth.js";
 import { requireRole } from "../../middleware/authorize.js";
 import { verifyStoreOrgAccess } from "../../middleware/org-scope.js";
 import { haversine } from "../../lib/geo.js";
+import { checkoutEtaMinutes, loadEtaModel } from "../../services/eta-model.js";
+import { findPolygonZone } from "../../services/delivery-zone.js";
 
 export async function deliveryTierRoutes(app: FastifyInstance) {
   // GET / — List tiers for a store
@@ -161,6 +163,38 @@ export async function deliveryTierRoutes(app: FastifyInstance) {
       select: { id: true, name: true, address: true, latitude: true, longitude: true, deliveryRadius: true },
     });
 
+    // Polygon zones, when the store has any, decide serviceability instead of radius and tiers
+    if (store) {
+      const { hasPolygons, zone } = await findPolygonZone(app.prisma, store.id, body.latitude, body.longitude);
+      if (hasPolygons) {
+        const distance = store.latitude != null && store.longitude != null
+          ? haversine(body.latitude, body.longitude, store.latitude, store.longitude)
+          : null;
+        return {
+          success: true,
+          data: zone
+            ? {
+                serviceable: true,
+                distance,
+                deliveryFee: zone.deliveryFee,
+                estimatedMinutes: zone.estimatedMinutes,
+                deliveryZone: { id: zone.id, name: zone.name },
+                pickupAvailable: true,
+                storeName: store.name,
+                storeAddress: store.address,
+              }
+            : {
+                serviceable: false,
+                distance,
+                reason: "Outside delivery zones",
+                pickupAvailable: true,
+                storeName: store.name,
+                storeAddress: store.address,
+              },
+        };
+      }
+    }
+
     if (!store || store.latitude == null || store.longitude == null) {
       return {
         success: true,
@@ -214,13 +248,15 @@ export async function deliveryTierRoutes(app: FastifyInstance) {
       };
     }
 
+    const etaModel = await loadEtaModel(app.prisma, body.storeId);
+
     return {
       success: true,
       data: {
         serviceable: true,
         distance,
         deliveryFee: Number(tier.deliveryFee),
-        estimatedMinutes: tier.estimatedMinutes,
+        estimatedMinutes: etaModel.trained ? checkoutEtaMinutes(etaModel, distance) : tier.estimatedMinutes,
         pickupAvailable: true,
         storeName: store.name,
         storeAddress: store.address,
@@ -1,15 +1,19 @@
 import type { FastifyInstance } from "fastify";
 import type { ApiResponse } from "@martly/shared/types";
-import { createDeliveryTripSchema } from "@martly/shared/schemas";
+import { createDeliveryTripSchema, autoPlanTripsSchema } from "@martly/shared/schemas";
 import { authenticate } from "../../middleware/auth.js";
 import { requireRole } from "../../middleware/authorize.js";
 import { getOrgUser, verifyStoreOrgAccess } from "../../middleware/org-scope.js";
 import { broadcastOrderUpdate } from "../../services/order-broadcast.js";
+import { optimizeStopOrder, planTrips, routeDistance } from "../../services/trip-planner.js";
+import { findIdlePeriods, stopArrivals, trackDistance } from "../../services/trip-track.js";
+import { getOnlineRiders } from "../../services/rider-earnings.js";
+import { getCashInHand, getCashInHandByRider, getRiderCashLimit, isOverCashLimit } from "../../services/cod-ledger.js";
 
 const staffAuth = [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN", "STORE_MANAGER", "STAFF", "RIDER")];
 
 export async function deliveryTripRoutes(app: FastifyInstance) {
-  // List riders (staff assigned to a store)
+  // List riders assigned to a store, online (on shift) first
   app.get("/riders", { preHandler: staffAuth }, async (request, reply) => {
     const { storeId } = request.query as { storeId?: string };
     if (!storeId) return reply.badRequest("storeId is required");
@@ -18,12 +22,28 @@ export async function deliveryTripRoutes(app: FastifyInstance) {
       return reply.forbidden("Access denied");
     }
 
-    const userStores = await app.prisma.userStore.findMany({
-      where: { storeId },
-      include: { user: { select: { id: true, name: true, phone: true, email: true } } },
-    });
-
-    const riders = userStores.map((us) => us.user);
+    const [userStores, online, cash, cashLimit] = await Promise.all([
+      app.prisma.userStore.findMany({
+        where: { storeId, user: { role: "RIDER" } },
+        include: { user: { select: { id: true, name: true, phone: true, email: true } } },
+      }),
+      getOnlineRiders(app.prisma, storeId),
+      getCashInHandByRider(app.prisma, storeId),
+      getRiderCashLimit(app.prisma, storeId),
+    ]);
+
+    const riders = userStores
+      .map((us) => {
+        const cashInHand = cash.get(us.user.id)?.amount ?? 0;
+        return {
+          ...us.user,
+          online: online.has(us.user.id),
+          shiftStartedAt: online.get(us.user.id) ?? null,
+          cashInHand,
+          overCashLimit: isOverCashLimit(cashInHand, cashLimit),
+        };
+      })
+      .sort((a, b) => Number(b.online) - Number(a.online));
     return { success: true, data: riders } satisfies ApiResponse<typeof riders>;
   });
 
@@ -42,11 +62,18 @@ export async function deliveryTripRoutes(app: FastifyInstance) {
     if (!riderAssignment) {
       return reply.badRequest("Rider is not assigned to this store");
     }
+    const online = await getOnlineRiders(app.prisma, body.storeId);
+    if (!online.has(body.riderId)) {
+      return reply.badRequest("Rider is offline — they need to clock in before taking a trip");
+    }
 
     // Validate all orders: READY, express (no deliverySlotId), unassigned (no deliveryTripId), belong to store
     const orders = await app.prisma.order.findMany({
       where: { id: { in: body.orderIds } },
-      select: { id: true, status: true, storeId: true, deliverySlotId: true, deliveryTripId: true },
+      select: {
+        id: true, status: true, storeId: true, deliverySlotId: true, deliveryTripId: true,
+        deliveryLat: true, deliveryLng: true, paymentMethod: true,
+      },
     });
 
     if (orders.length !== body.orderIds.length) {
@@ -68,13 +95,40 @@ export async function deliveryTripRoutes(app: FastifyInstance) {
       }
     }
 
+    // Riders holding too much cash hand it over before collecting more
+    if (orders.some((o) => o.paymentMethod === "COD")) {
+      const [cash, cashLimit] = await Promise.all([
+        getCashInHand(app.prisma, body.riderId, body.storeId),
+        getRiderCashLimit(app.prisma, body.storeId),
+      ]);
+      if (isOverCashLimit(cash.amount, cashLimit)) {
+        return reply.badRequest(
+          `Rider is holding \u20B9${cash.amount} in cash (limit \u20B9${cashLimit}) and must hand it over before taking COD orders`,
+        );
+      }
+    }
+
     // Look up organizationId from store
     const store = await app.prisma.store.findUnique({
       where: { id: body.storeId },
-      select: { organizationId: true },
+      select: { organizationId: true, latitude: true, longitude: true },
     });
     if (!store) return reply.notFound("Store not found");
 
+    // Stop order: as given, or computed from the delivery locations.
+    // Orders without coordinates keep their relative order at the end.
+    let sequence = body.orderIds;
+    if (body.optimizeSequence && store.latitude != null && store.longitude != null) {
+      const located = orders
+        .filter((o) => o.deliveryLat != null && o.deliveryLng != null)
+        .map((o) => ({ id: o.id, lat: o.deliveryLat!, lng: o.deliveryLng! }));
+      const locatedIds = new Set(located.map((o) => o.id));
+      sequence = [
+        ...optimizeStopOrder({ lat: store.latitude, lng: store.longitude }, located).map((o) => o.id),
+        ...body.orderIds.filter((id) => !locatedIds.has(id)),
+      ];
+    }
+
     const trip = await app.prisma.$transaction(async (tx) => {
       const created = await tx.deliveryTrip.create({
         data: {
@@ -95,9 +149,9 @@ export async function deliveryTripRoutes(app: FastifyInstance) {
       });
 
       // Link orders to trip with delivery sequence
-      for (let i = 0; i < body.orderIds.length; i++) {
+      for (let i = 0; i < sequence.length; i++) {
         await tx.order.update({
-          where: { id: body.orderIds[i] },
+          where: { id: sequence[i] },
           data: { deliveryTripId: created.id, deliverySequence: i + 1 },
         });
       }
@@ -120,6 +174,100 @@ export async function deliveryTripRoutes(app: FastifyInstance) {
     return { success: true, data: trip } satisfies ApiResponse<typeof trip>;
   });
 
+  // Propose trips for unassigned READY delivery orders. Nothing is saved —
+  // staff accept (or tweak) each proposal via POST / with optimizeSequence.
+  app.post("/auto-plan", { preHandler: staffAuth }, async (request, reply) => {
+    const body = autoPlanTripsSchema.parse(request.body);
+
+    if (!(await verifyStoreOrgAccess(request, app.prisma, body.storeId))) {
+      return reply.forbidden("Access denied");
+    }
+
+    const store = await app.prisma.store.findUnique({
+      where: { id: body.storeId },
+      select: { latitude: true, longitude: true },
+    });
+    if (!store) return reply.notFound("Store not found");
+    if (store.latitude == null || store.longitude == null) {
+      return reply.badRequest("Set the store location before auto-planning trips");
+    }
+    const origin = { lat: store.latitude, lng: store.longitude };
+
+    const orders = await app.prisma.order.findMany({
+      where: {
+        storeId: body.storeId,
+        status: "READY",
+        fulfillmentType: "DELIVERY",
+        deliveryTripId: null,
+        ...(body.orderIds ? { id: { in: body.orderIds } } : {}),
+      },
+      select: {
+        id: true, totalAmount: true, paymentMethod: true, deliveryAddress: true, deliveryPincode: true,
+        deliveryLat: true, deliveryLng: true, slotStartTime: true, slotEndTime: true,
+        user: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    // Riders on shift at the store who aren't already on a trip
+    const userStores = await app.prisma.userStore.findMany({
+      where: { storeId: body.storeId, user: { role: "RIDER" } },
+      include: { user: { select: { id: true, name: true, phone: true } } },
+    });
+    const online = await getOnlineRiders(app.prisma, body.storeId);
+    const busy = await app.prisma.deliveryTrip.findMany({
+      where: { storeId: body.storeId, status: { in: ["CREATED", "IN_PROGRESS"] } },
+      select: { riderId: true },
+    });
+    const busyIds = new Set(busy.map((t) => t.riderId));
+    // Plans mix payment methods, so riders at their cash limit sit out while COD orders are waiting
+    if (orders.some((o) => o.paymentMethod === "COD")) {
+      const [cash, cashLimit] = await Promise.all([
+        getCashInHandByRider(app.prisma, body.storeId),
+        getRiderCashLimit(app.prisma, body.storeId),
+      ]);
+      for (const [riderId, held] of cash) {
+        if (isOverCashLimit(held.amount, cashLimit)) busyIds.add(riderId);
+      }
+    }
+    const riders = userStores.map((us) => us.user).filter((u) => online.has(u.id) && !busyIds.has(u.id));
+
+    const located: { order: (typeof orders)[number]; lat: number; lng: number }[] = [];
+    const unassigned: { order: (typeof orders)[number]; reason: string }[] = [];
+    for (const order of orders) {
+      if (order.deliveryLat == null || order.deliveryLng == null) {
+        unassigned.push({ order, reason: "No delivery location" });
+      } else {
+        located.push({ order, lat: order.deliveryLat, lng: order.deliveryLng });
+      }
+    }
+
+    const plan = planTrips(origin, located, {
+      maxStops: body.maxStops,
+      maxDistanceKm: body.maxDistanceKm,
+      maxTrips: riders.length,
+    });
+
+    const trips = plan.trips.map((trip, i) => ({
+      rider: riders[i],
+      distanceKm: trip.distanceKm,
+      orders: trip.stops.map((stop, index) => ({
+        ...stop.order,
+        sequence: index + 1,
+        legKm: routeDistance(index === 0 ? origin : trip.stops[index - 1], [stop]),
+      })),
+    }));
+    for (const { order } of plan.tooFar) {
+      unassigned.push({ order, reason: `More than ${body.maxDistanceKm} km from the store` });
+    }
+    for (const { order } of plan.unplanned) {
+      unassigned.push({ order, reason: "No rider available" });
+    }
+
+    const result = { trips, unassigned, maxStops: body.maxStops, maxDistanceKm: body.maxDistanceKm };
+    return { success: true, data: result } satisfies ApiResponse<typeof result>;
+  });
+
   // List trips for a store on a date
   app.get("/", { preHandler: staffAuth }, async (request, reply) => {
     const { storeId, date } = request.query as { storeId?: string; date?: string };
@@ -158,6 +306,79 @@ export async function deliveryTripRoutes(app: FastifyInstance) {
     return { success: true, data: trips } satisfies ApiResponse<typeof trips>;
   });
 
+  // Recorded GPS track of a trip — polyline, distance driven, idle periods and stop arrivals
+  app.get<{ Params: { id: string } }>("/:id/track", { preHandler: staffAuth }, async (request, reply) => {
+    const trip = await app.prisma.deliveryTrip.findUnique({
+      where: { id: request.params.id },
+      include: {
+        rider: { select: { id: true, name: true, phone: true } },
+        store: { select: { id: true, name: true, latitude: true, longitude: true } },
+        pings: { orderBy: { recordedAt: "asc" }, select: { lat: true, lng: true, speed: true, recordedAt: true } },
+        orders: {
+          orderBy: { deliverySequence: "asc" },
+          select: {
+            id: true, status: true, deliverySequence: true, deliveryAddress: true,
+            deliveryLat: true, deliveryLng: true, scheduledDate: true, slotStartTime: true, slotEndTime: true,
+            user: { select: { id: true, name: true } },
+            statusLogs: { where: { status: "DELIVERED" }, orderBy: { createdAt: "asc" }, take: 1, select: { createdAt: true } },
+          },
+        },
+      },
+    });
+    if (!trip) return reply.notFound("Trip not found");
+
+    const user = getOrgUser(request);
+    if (user.role === "RIDER" && trip.riderId !== user.sub) return reply.forbidden("Not your trip");
+    if (!(await verifyStoreOrgAccess(request, app.prisma, trip.storeId))) {
+      return reply.forbidden("Access denied");
+    }
+
+    const points = trip.pings.map((p) => ({ lat: p.lat, lng: p.lng, speed: p.speed, at: p.recordedAt }));
+    const stops = trip.orders.map((o) => ({
+      orderId: o.id,
+      lat: o.deliveryLat,
+      lng: o.deliveryLng,
+      deliveredAt: o.statusLogs[0]?.createdAt ?? null,
+    }));
+    const storePoint = trip.store.latitude != null && trip.store.longitude != null
+      ? { lat: trip.store.latitude, lng: trip.store.longitude }
+      : null;
+    const arrivals = stopArrivals(points, stops);
+    const idlePeriods = findIdlePeriods(points, storePoint, stops);
+
+    const endedAt = trip.completedAt ?? points[points.length - 1]?.at ?? null;
+    const result = {
+      trip: {
+        id: trip.id,
+        status: trip.status,
+        startedAt: trip.startedAt,
+        completedAt: trip.completedAt,
+        rider: trip.rider,
+        store: trip.store,
+      },
+      polyline: points,
+      distanceKm: trackDistance(points),
+      durationMinutes: trip.startedAt && endedAt ? Math.round((endedAt.getTime() - trip.startedAt.getTime()) / 60_000) : null,
+      idleMinutes: idlePeriods.reduce((sum, p) => sum + p.minutes, 0),
+      idlePeriods,
+      stops: trip.orders.map((o, i) => ({
+        id: o.id,
+        status: o.status,
+        deliverySequence: o.deliverySequence,
+        deliveryAddress: o.deliveryAddress,
+        deliveryLat: o.deliveryLat,
+        deliveryLng: o.deliveryLng,
+        scheduledDate: o.scheduledDate,
+        slotStartTime: o.slotStartTime,
+        slotEndTime: o.slotEndTime,
+        user: o.user,
+        ...arrivals[i],
+      })),
+    };
+
+    return { success: true, data: result } satisfies ApiResponse<typeof result>;
+  });
+
   // Start a trip
   app.patch<{ Params: { id: string } }>("/:id/start", { preHandler: staffAuth }, async (request, reply) => {
     const trip = await app.prisma.deliveryTrip.findUnique({
@@ -1,9 +1,11 @@
 import type { FastifyInstance } from "fastify";
+import { Prisma } from "../../../generated/prisma/index.js";
 import { createDeliveryZoneSchema, updateDeliveryZoneSchema } from "@martly/shared/schemas";
 import type { ApiResponse, PaginatedResponse } from "@martly/shared/types";
 import { authenticate, authenticateOptional } from "../../middleware/auth.js";
 import { requireRole } from "../../middleware/authorize.js";
 import { getOrgUser } from "../../middleware/org-scope.js";
+import { findPolygonZone } from "../../services/delivery-zone.js";
 
 export async function deliveryZoneRoutes(app: FastifyInstance) {
   // GET / - List zones (org-scoped)
@@ -57,11 +59,12 @@ export async function deliveryZoneRoutes(app: FastifyInstance) {
     preHandler: [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN")],
   }, async (request) => {
     const body = createDeliveryZoneSchema.parse(request.body);
-    const { storeIds, ...zoneData } = body;
+    const { storeIds, polygon, ...zoneData } = body;
 
     const zone = await app.prisma.deliveryZone.create({
       data: {
         ...zoneData,
+        polygon: (polygon ?? undefined) as Prisma.InputJsonValue | undefined,
         stores: storeIds?.length ? {
           create: storeIds.map((storeId) => ({ storeId })),
         } : undefined,
@@ -78,7 +81,7 @@ export async function deliveryZoneRoutes(app: FastifyInstance) {
     preHandler: [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN")],
   }, async (request, reply) => {
     const body = updateDeliveryZoneSchema.parse(request.body);
-    const { storeIds, ...zoneData } = body;
+    const { storeIds, polygon, ...zoneData } = body;
 
     const existing = await app.prisma.deliveryZone.findUnique({ where: { id: request.params.id } });
     if (!existing) return reply.notFound("Delivery zone not found");
@@ -95,7 +98,10 @@ export async function deliveryZoneRoutes(app: FastifyInstance) {
 
       return tx.deliveryZone.update({
         where: { id: request.params.id },
-        data: zoneData,
+        data: {
+          ...zoneData,
+          polygon: polygon === null ? Prisma.DbNull : polygon as Prisma.InputJsonValue | undefined,
+        },
         include: { stores: { include: { store: { select: { id: true, name: true } } } } },
       });
     });
@@ -120,15 +126,27 @@ export async function deliveryZoneRoutes(app: FastifyInstance) {
     return response;
   });
 
-  // GET /lookup?storeId=X&pincode=Y - Public: find zone for store + pincode
+  // GET /lookup?storeId=X&pincode=Y[&lat=..&lng=..] - Public: find zone for store + pincode, or by polygon
   app.get("/lookup", { preHandler: [authenticateOptional] }, async (request) => {
-    const { storeId, pincode } = request.query as { storeId?: string; pincode?: string };
+    const { storeId, pincode, lat, lng } = request.query as { storeId?: string; pincode?: string; lat?: string; lng?: string };
 
     if (!storeId) {
       const response: ApiResponse<null> = { success: true, data: null };
       return response;
     }
 
+    // A point inside one of the store's polygons decides the zone; outside them all, there is none
+    if (lat && lng && !isNaN(parseFloat(lat)) && !isNaN(parseFloat(lng))) {
+      const { hasPolygons, zone } = await findPolygonZone(app.prisma, storeId, parseFloat(lat), parseFloat(lng));
+      if (hasPolygons) {
+        const response: ApiResponse<{ deliveryFee: number; estimatedMinutes: number } | null> = {
+          success: true,
+          data: zone ? { deliveryFee: zone.deliveryFee, estimatedMinutes: zone.estimatedMinutes } : null,
+        };
+        return response;
+      }
+    }
+
     const storeZones = await app.prisma.storeDeliveryZone.findMany({
       where: { storeId },
       include: { deliveryZone: true },
@@ -0,0 +1,90 @@
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import type { ApiResponse, PaginatedResponse } from "@martly/shared/types";
+import type { JobRunStatus, Prisma } from "../../../generated/prisma/index.js";
+import { authenticate } from "../../middleware/auth.js";
+import { requireRole } from "../../middleware/authorize.js";
+import { getOrgUser } from "../../middleware/org-scope.js";
+
+const adminAuth = [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN")];
+
+const JOB_RUN_STATUSES: JobRunStatus[] = ["RUNNING", "SUCCEEDED", "FAILED"];
+
+/** Org admins only see runs for their own organization; platform-wide runs are SUPER_ADMIN only */
+function orgRunFilter(request: FastifyRequest): Prisma.JobRunWhereInput {
+  const user = getOrgUser(request);
+  if (user.role === "SUPER_ADMIN") return {};
+  return { organizationId: user.organizationId ?? "" };
+}
+
+export async function jobRoutes(app: FastifyInstance) {
+  // GET /runs?job=&status=&storeId=&page=&pageSize= — Run history, newest first
+  app.get("/runs", { preHandler: adminAuth }, async (request, reply) => {
+    const { page = 1, pageSize = 20, job, status, storeId } = request.query as {
+      page?: number; pageSize?: number; job?: string; status?: string; storeId?: string;
+    };
+    if (status && !JOB_RUN_STATUSES.includes(status as JobRunStatus)) {
+      return reply.badRequest(`status must be one of ${JOB_RUN_STATUSES.join(", ")}`);
+    }
+    const skip = (Number(page) - 1) * Number(pageSize);
+
+    const where: Prisma.JobRunWhereInput = {
+      ...orgRunFilter(request),
+      ...(job ? { job } : {}),
+      ...(status ? { status: status as JobRunStatus } : {}),
+      ...(storeId ? { storeId } : {}),
+    };
+
+    const [runs, total] = await Promise.all([
+      app.prisma.jobRun.findMany({
+        where,
+        include: { store: { select: { id: true, name: true } } },
+        orderBy: { startedAt: "desc" },
+        skip,
+        take: Number(pageSize),
+      }),
+      app.prisma.jobRun.count({ where }),
+    ]);
+
+    const response: PaginatedResponse<(typeof runs)[0]> = {
+      success: true,
+      data: runs,
+      meta: { total, page: Number(page), pageSize: Number(pageSize), totalPages: Math.ceil(total / Number(pageSize)) },
+    };
+    return response;
+  });
+
+  // GET /summary — Per job: last run, last success, failures in the last 7 days and runs in progress
+  app.get("/summary", { preHandler: adminAuth }, async (request) => {
+    const scope = orgRunFilter(request);
+    const since = new Date(Date.now() - 7 * 86_400_000);
+
+    const data = await Promise.all(
+      app.jobs.names().map(async (job) => {
+        const [lastRun, lastSuccess, recentFailures, running] = await Promise.all([
+          app.prisma.jobRun.findFirst({
+            where: { ...scope, job },
+            orderBy: { startedAt: "desc" },
+            include: { store: { select: { id: true, name: true } } },
+          }),
+          app.prisma.jobRun.findFirst({
+            where: { ...scope, job, status: "SUCCEEDED" },
+            orderBy: { finishedAt: "desc" },
+            select: { finishedAt: true },
+          }),
+          app.prisma.jobRun.count({ where: { ...scope, job, status: "FAILED", startedAt: { gte: since } } }),
+          app.prisma.jobRun.count({ where: { ...scope, job, status: "RUNNING" } }),
+        ]);
+        return {
+          job,
+          lastRun,
+          lastSucceededAt: lastSuccess?.finishedAt ?? null,
+          recentFailures,
+          running,
+        };
+      }),
+    );
+
+    const response: ApiResponse<typeof data> = { success: true, data };
+    return response;
+  });
+}
@@ -8,20 +8,10 @@ import {
   upgradeMembershipSchema,
   verifyPaymentSchema,
 } from "@martly/shared/schemas";
-import {
-  createRazorpayOrder,
-  getRazorpayKeyId,
-  verifyRazorpaySignature,
-  ensureRazorpayCustomer,
-} from "../../services/payment.js";
+import { createCheckoutIntent, getCheckoutIntent, getPaymentProvider, toCheckoutResponse } from "../../services/payment.js";
+import { activatePaidMembership, MEMBERSHIP_DURATION_DAYS } from "../../services/payment-settlement.js";
 import type { ApiResponse, PaginatedResponse } from "@martly/shared/types";
 
-const DURATION_DAYS: Record<string, number> = {
-  MONTHLY: 30,
-  QUARTERLY: 90,
-  ANNUAL: 365,
-};
-
 export async function membershipRoutes(app: FastifyInstance) {
   // ── Customer: list plans + active membership ───────
   app.get("/", { preHandler: [authenticate] }, async (request) => {
@@ -55,7 +45,7 @@ export async function membershipRoutes(app: FastifyInstance) {
     if (activeMembership) {
       const now = new Date();
       const daysLeft = Math.max(0, Math.ceil((activeMembership.endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)));
-      const totalDays = DURATION_DAYS[activeMembership.plan.duration] ?? 30;
+      const totalDays = MEMBERSHIP_DURATION_DAYS[activeMembership.plan.duration] ?? 30;
       const pricePaid = Number(activeMembership.pricePaid);
       const credit = Math.round((daysLeft / totalDays) * pricePaid * 100) / 100;
 
@@ -154,18 +144,18 @@ export async function membershipRoutes(app: FastifyInstance) {
     const amountInPaise = Math.round(Number(plan.price) * 100);
     const receiptId = `mem_${user.sub.slice(0, 8)}_${Date.now()}`;
 
-    const customerId = await ensureRazorpayCustomer(app.prisma, user.sub);
-    const rpOrder = await createRazorpayOrder(amountInPaise, receiptId, customerId);
+    const intent = await createCheckoutIntent(app.prisma, "MEMBERSHIP", {
+      amountInPaise,
+      receipt: receiptId,
+      userId: user.sub,
+      notes: { type: "membership", userId: user.sub, planId: plan.id },
+    });
 
     return {
       success: true,
       data: {
-        razorpay_order_id: rpOrder.id,
-        amount: amountInPaise,
-        currency: "INR",
-        key_id: getRazorpayKeyId(),
+        ...toCheckoutResponse(intent),
         planId: plan.id,
-        ...(customerId ? { customer_id: customerId } : {}),
       },
     } satisfies ApiResponse<unknown>;
   });
@@ -203,14 +193,14 @@ export async function membershipRoutes(app: FastifyInstance) {
     // Compute proration
     const now = new Date();
     const daysLeft = Math.max(0, Math.ceil((activeMembership.endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)));
-    const totalDays = DURATION_DAYS[activeMembership.plan.duration] ?? 30;
+    const totalDays = MEMBERSHIP_DURATION_DAYS[activeMembership.plan.duration] ?? 30;
     const pricePaid = Number(activeMembership.pricePaid);
     const credit = Math.round((daysLeft / totalDays) * pricePaid * 100) / 100;
     const upgradeCharge = Math.max(0, Math.round((Number(targetPlan.price) - credit) * 100) / 100);
 
     if (upgradeCharge < 1) {
       // Free upgrade — activate directly
-      const days = DURATION_DAYS[targetPlan.duration] ?? 30;
+      const days = MEMBERSHIP_DURATION_DAYS[targetPlan.duration] ?? 30;
       const endDate = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
 
       const membership = await app.prisma.$transaction(async (tx) => {
@@ -246,24 +236,30 @@ export async function membershipRoutes(app: FastifyInstance) {
       } satisfies ApiResponse<unknown>;
     }
 
-    // Paid upgrade — create Razorpay order
+    // Paid upgrade — create payment intent
     const amountInPaise = Math.round(upgradeCharge * 100);
     const receiptId = `mem_upg_${user.sub.slice(0, 8)}_${Date.now()}`;
-    const customerId = await ensureRazorpayCustomer(app.prisma, user.sub);
-    const rpOrder = await createRazorpayOrder(amountInPaise, receiptId, customerId);
+    const intent = await createCheckoutIntent(app.prisma, "MEMBERSHIP", {
+      amountInPaise,
+      receipt: receiptId,
+      userId: user.sub,
+      notes: {
+        type: "membership",
+        userId: user.sub,
+        planId: targetPlan.id,
+        previousMembershipId: activeMembership.id,
+        amountPaid: String(upgradeCharge),
+      },
+    });
 
     return {
       success: true,
       data: {
         upgraded: false,
-        razorpay_order_id: rpOrder.id,
-        amount: amountInPaise,
-        currency: "INR",
-        key_id: getRazorpayKeyId(),
+        ...toCheckoutResponse(intent),
         planId: targetPlan.id,
         previousMembershipId: activeMembership.id,
         amountPaid: upgradeCharge,
-        ...(customerId ? { customer_id: customerId } : {}),
       },
     } satisfies ApiResponse<unknown>;
   });
@@ -273,75 +269,28 @@ export async function membershipRoutes(app: FastifyInstance) {
     const body = verifyPaymentSchema.parse(request.body);
     const user = getOrgUser(request);
 
-    const isValid = verifyRazorpaySignature(
-      body.razorpay_order_id,
-      body.razorpay_payment_id,
-      body.razorpay_signature,
-    );
+    // Verify with the provider the intent was created with; the plan comes from the intent too
+    const checkout = await getCheckoutIntent(app.prisma, user.sub, "MEMBERSHIP", body.providerOrderId);
+    const provider = getPaymentProvider(checkout.provider);
+    const isValid = provider.verifyPayment(body);
     if (!isValid) throw Object.assign(new Error("Payment verification failed"), { statusCode: 400 });
 
-    const { planId, previousMembershipId, amountPaid } = request.query as {
-      planId?: string;
-      previousMembershipId?: string;
-      amountPaid?: string;
-    };
-    if (!planId) throw Object.assign(new Error("planId query param required"), { statusCode: 400 });
-
-    const plan = await app.prisma.membershipPlan.findUnique({ where: { id: planId } });
-    if (!plan) throw Object.assign(new Error("Plan not found"), { statusCode: 404 });
-
-    const now = new Date();
-    const days = DURATION_DAYS[plan.duration] ?? 30;
-    const endDate = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
-
-    if (previousMembershipId) {
-      // Upgrade path — cancel previous, create new with link
-      const membership = await app.prisma.$transaction(async (tx) => {
-        await tx.userMembership.update({
-          where: { id: previousMembershipId },
-          data: { status: "CANCELLED" },
-        });
-        return tx.userMembership.create({
-          data: {
-            userId: user.sub,
-            planId: plan.id,
-            organizationId: plan.organizationId,
-            status: "ACTIVE",
-            startDate: now,
-            endDate,
-            pricePaid: amountPaid ? Number(amountPaid) : plan.price,
-            razorpayOrderId: body.razorpay_order_id,
-            razorpayPaymentId: body.razorpay_payment_id,
-            previousMembershipId,
-          },
-          include: { plan: true },
-        });
-      });
-
-      return {
-        success: true,
-        data: {
-          ...membership,
-          pricePaid: Number(membership.pricePaid),
-          plan: { ...membership.plan, price: Number(membership.plan.price) },
-        },
-      } satisfies ApiResponse<unknown>;
+    const payment = await provider.capturePayment(body.providerPaymentId, checkout.amountInPaise);
+    if (payment.status !== "captured" || payment.providerOrderId !== checkout.providerOrderId) {
+      throw Object.assign(new Error("Payment has not been captured"), { statusCode: 400 });
     }
 
-    // New purchase path
-    const membership = await app.prisma.userMembership.create({
-      data: {
-        userId: user.sub,
-        planId: plan.id,
-        organizationId: plan.organizationId,
-        status: "ACTIVE",
-        startDate: now,
-        endDate,
-        pricePaid: plan.price,
-        razorpayOrderId: body.razorpay_order_id,
-        razorpayPaymentId: body.razorpay_payment_id,
-      },
-      include: { plan: true },
+    const { planId, previousMembershipId, amountPaid } = checkout.notes;
+
+    // Shared with the provider webhook — idempotent on the payment id
+    const membership = await activatePaidMembership(app.prisma, {
+      userId: user.sub,
+      planId,
+      previousMembershipId: previousMembershipId || undefined,
+      amountPaid: amountPaid ? Number(amountPaid) : undefined,
+      provider: provider.name,
+      providerOrderId: checkout.providerOrderId,
+      providerPaymentId: payment.id,
     });
 
     return {
@@ -1,6 +1,6 @@
-import type { FastifyInstance } from "fastify";
+import type { FastifyInstance, FastifyRequest } from "fastify";
 import { Prisma } from "../../../generated/prisma/index.js";
-import { createOrderSchema, updateOrderStatusSchema, updatePaymentStatusSchema, verifyPaymentSchema, bulkUpdateOrderStatusSchema } from "@martly/shared/schemas";
+import { createOrderSchema, cancelOrderSchema, updateOrderStatusSchema, updatePaymentStatusSchema, verifyPaymentSchema, bulkUpdateOrderStatusSchema, editOrderItemsSchema, pickupCheckInSchema } from "@martly/shared/schemas";
 import type { ApiResponse, PaginatedResponse } from "@martly/shared/types";
 import { authenticate } from "../../middleware/auth.js";
 import { requireRole } from "../../middleware/authorize.js";
@@ -10,8 +10,25 @@ import { sendOrderStatusNotification, sendWalletNotification, sendLoyaltyNotific
 import { calculateEffectivePrice } from "../../services/pricing.js";
 import { reserveStock, releaseStock, deductStock } from "../../services/stock.js";
 import { formatVariantUnit } from "../../services/units.js";
-import { createRazorpayOrder, verifyRazorpaySignature, isRazorpayConfigured, getRazorpayKeyId, ensureRazorpayCustomer } from "../../services/payment.js";
+import { createCheckoutIntent, getPaymentProvider, toCheckoutResponse, type CheckoutResponse } from "../../services/payment.js";
 import { broadcastOrderUpdate } from "../../services/order-broadcast.js";
+import { broadcastPickupArrival } from "../../services/ws-manager.js";
+import { markOrderPaid, markOrderPaymentFailed } from "../../services/payment-settlement.js";
+import { createOrderRefunds, processRefund, sendRefundNotifications, type RefundPlan } from "../../services/refund.js";
+import { calculateLineTaxes, isInterState } from "../../services/gst.js";
+import { issueInvoice, renderInvoicePdf } from "../../services/invoice.js";
+import { signDownloadToken, verifyDownloadToken } from "../../services/download-link.js";
+import { editOrderItems } from "../../services/order-edit.js";
+import { generateDeliveryOtp, requiresDeliveryOtp } from "../../services/delivery-proof.js";
+import { forgetTripPings } from "../../services/trip-track.js";
+import { recordTripEarning } from "../../services/rider-earnings.js";
+import { recordCodCollection } from "../../services/cod-ledger.js";
+import { PICKUP_CHECK_IN_STATUSES, checkInPickup, issuePickupCode, verifyPickupCode } from "../../services/pickup.js";
+import { checkoutEtaMinutes, loadEtaModel } from "../../services/eta-model.js";
+import { findPolygonZone } from "../../services/delivery-zone.js";
+import { getSlotAvailability, holdSlotCapacity, notifySlotWaitlist, releaseSlotHold } from "../../services/slot-capacity.js";
+import { getStoreHoursOn, getStoreOpenStatus, isWithinHours, slotWithinHours } from "../../services/store-calendar.js";
+import { currentISTTime, parseDate } from "../../utils/timezone.js";
 
 // Valid status transitions
 const DELIVERY_TRANSITIONS: Record<string, string[]> = {
@@ -48,6 +65,14 @@ function formatOrderUnits<T extends { items?: { variant?: { unitType: string } }
 }
 
 export async function orderRoutes(app: FastifyInstance) {
+  // Customers see their own orders; staff need access to the order's store
+  async function canViewOrder(request: FastifyRequest, order: { userId: string; storeId: string }) {
+    const user = getOrgUser(request);
+    if (user.role === "CUSTOMER") return order.userId === user.sub;
+    if (user.role === "SUPER_ADMIN") return true;
+    return verifyStoreOrgAccess(request, app.prisma, order.storeId);
+  }
+
   // List orders (scoped by role + org)
   app.get("/", { preHandler: [authenticate] }, async (request) => {
     const {
@@ -132,6 +157,9 @@ export async function orderRoutes(app: FastifyInstance) {
         items: { include: { product: true, variant: true } },
         statusLogs: { orderBy: { createdAt: "asc" } },
         returnRequest: { select: { id: true, status: true, requestedAmount: true, approvedAmount: true } },
+        refunds: { orderBy: { createdAt: "asc" } },
+        deliveryProof: { include: { rider: { select: { id: true, name: true } } } },
+        pickup: { include: { verifiedBy: { select: { id: true, name: true } } } },
       },
     });
     if (!order) return reply.notFound("Order not found");
@@ -144,11 +172,73 @@ export async function orderRoutes(app: FastifyInstance) {
         return reply.forbidden("Access denied");
       }
     }
+    // The handoff code is the customer's to share — staff only see whether it was verified
+    if (order.deliveryProof && (user.role !== "CUSTOMER" || order.deliveryProof.otpVerifiedAt)) {
+      order.deliveryProof.otp = null;
+    }
+    if (order.pickup && (user.role !== "CUSTOMER" || order.pickup.verifiedAt)) {
+      order.pickup.code = null;
+    }
 
     const response: ApiResponse<typeof order> = { success: true, data: formatOrderUnits(order) };
     return response;
   });
 
+  // Download GST tax invoice (PDF) for a delivered order.
+  // Accepts a signed ?token= from /invoice-link so the mobile app can open it in the browser.
+  app.get<{ Params: { id: string }; Querystring: { token?: string } }>("/:id/invoice", async (request, reply) => {
+    const { token } = request.query;
+    if (token) {
+      let payload: { orderId?: string; type?: string };
+      try {
+        payload = verifyDownloadToken<{ orderId: string; type: "invoice" }>(app, token);
+      } catch {
+        return reply.unauthorized("Invalid or expired link");
+      }
+      if (payload.type !== "invoice" || payload.orderId !== request.params.id) {
+        return reply.forbidden("Access denied");
+      }
+    } else {
+      await authenticate(request, reply);
+      if (reply.sent) return reply;
+    }
+
+    const order = await app.prisma.order.findUnique({
+      where: { id: request.params.id },
+      select: { id: true, userId: true, storeId: true, status: true, invoiceNumber: true },
+    });
+    if (!order) return reply.notFound("Order not found");
+    if (!token && !(await canViewOrder(request, order))) return reply.forbidden("Access denied");
+    if (order.status !== "DELIVERED") return reply.badRequest("Invoice is available once the order is delivered");
+
+    // Orders delivered before invoicing was introduced get their number on first download
+    const invoiceNumber = order.invoiceNumber ?? (await app.prisma.$transaction((tx) => issueInvoice(tx, order.id)));
+    const pdf = await renderInvoicePdf(app.prisma, order.id);
+
+    return reply
+      .type("application/pdf")
+      .header("Content-Disposition", `attachment; filename="${invoiceNumber.replace(/[^A-Za-z0-9-]/g, "_")}.pdf"`)
+      .send(pdf);
+  });
+
+  // Short-lived signed invoice URL for clients that can't send auth headers
+  app.post<{ Params: { id: string } }>("/:id/invoice-link", { preHandler: [authenticate] }, async (request, reply) => {
+    const order = await app.prisma.order.findUnique({
+      where: { id: request.params.id },
+      select: { id: true, userId: true, storeId: true, status: true },
+    });
+    if (!order) return reply.notFound("Order not found");
+    if (!(await canViewOrder(request, order))) return reply.forbidden("Access denied");
+    if (order.status !== "DELIVERED") return reply.badRequest("Invoice is available once the order is delivered");
+
+    const token = signDownloadToken(app, { orderId: order.id, type: "invoice" });
+    const response: ApiResponse<{ url: string }> = {
+      success: true,
+      data: { url: `/api/v1/orders/${order.id}/invoice?token=${encodeURIComponent(token)}` },
+    };
+    return response;
+  });
+
   // Create order (authenticated) — reserve stock + create order in one transaction
   app.post("/", { preHandler: [authenticate] }, async (request, reply) => {
     const body = createOrderSchema.parse(request.body);
@@ -159,7 +249,7 @@ export async function orderRoutes(app: FastifyInstance) {
     // Fetch store for both pickup and delivery
     const store = await app.prisma.store.findUnique({
       where: { id: body.storeId },
-      select: { name: true, address: true, latitude: true, longitude: true, deliveryRadius: true, minOrderAmount: true, freeDeliveryThreshold: true, baseDeliveryFee: true },
+      select: { name: true, address: true, latitude: true, longitude: true, deliveryRadius: true, minOrderAmount: true, freeDeliveryThreshold: true, baseDeliveryFee: true, stateCode: true, deliveryOtpMinAmount: true, deliveryOtpOnlinePaid: true },
     });
 
     // Resolve delivery address from addressId or direct input
@@ -167,6 +257,7 @@ export async function orderRoutes(app: FastifyInstance) {
     let deliveryPincode: string | null = null;
     let deliveryLat: number | null = null;
     let deliveryLng: number | null = null;
+    let deliveryStateCode: string | null = null;
     if (isPickup) {
       // For pickup, store the store address for the record
       deliveryAddress = store?.address ?? null;
@@ -181,6 +272,7 @@ export async function orderRoutes(app: FastifyInstance) {
         deliveryPincode = addr.pincode ?? null;
         deliveryLat = addr.latitude ?? null;
         deliveryLng = addr.longitude ?? null;
+        deliveryStateCode = addr.stateCode ?? null;
       }
     }
 
@@ -197,7 +289,7 @@ export async function orderRoutes(app: FastifyInstance) {
 
     const storeProducts = await app.prisma.storeProduct.findMany({
       where: { id: { in: body.items.map((i) => i.storeProductId) } },
-      include: { variant: true },
+      include: { variant: true, product: { select: { hsnCode: true, gstPercent: true } } },
     });
 
     let itemsTotal = 0;
@@ -281,6 +373,7 @@ export async function orderRoutes(app: FastifyInstance) {
     let deliveryFee = 0;
     let deliveryDistance: number | undefined;
     let estimatedMinutes: number | undefined;
+    let usedPolygonZone = false;
 
     if (isPickup) {
       // Pickup: no delivery fee, estimated 30 min prep time
@@ -300,11 +393,33 @@ export async function orderRoutes(app: FastifyInstance) {
         }
       }
 
+      // Stores with polygon zones deliver exactly inside them — no radius or tier check
+      if (deliveryLat != null && deliveryLng != null) {
+        const polygonMatch = await findPolygonZone(app.prisma, body.storeId, deliveryLat, deliveryLng);
+        if (polygonMatch.hasPolygons) {
+          if (!polygonMatch.zone) {
+            return reply.status(400).send({
+              success: false,
+              error: "Not Serviceable",
+              message: "Delivery address is outside the store's delivery zones",
+              statusCode: 400,
+            });
+          }
+          deliveryFee = polygonMatch.zone.deliveryFee;
+          estimatedMinutes = polygonMatch.zone.estimatedMinutes;
+          usedPolygonZone = true;
+        }
+      }
+
+      // Distance is recorded for polygon zones too — it feeds the ETA model
+      if (store?.latitude != null && store?.longitude != null && deliveryLat != null && deliveryLng != null) {
+        deliveryDistance = haversine(deliveryLat, deliveryLng, store.latitude, store.longitude);
+      }
+
       // Try distance-based delivery tier lookup
       let usedDistanceTier = false;
-      if (store?.latitude != null && store?.longitude != null && deliveryLat != null && deliveryLng != null) {
-        const dist = haversine(deliveryLat, deliveryLng, store.latitude, store.longitude);
-        deliveryDistance = dist;
+      if (!usedPolygonZone && store && deliveryDistance != null) {
+        const dist = deliveryDistance;
 
         if (dist > store.deliveryRadius) {
           return reply.status(400).send({
@@ -331,8 +446,8 @@ export async function orderRoutes(app: FastifyInstance) {
         }
       }
 
-      // Fallback to zone-based delivery fee if no distance tier matched
-      if (!usedDistanceTier) {
+      // Fallback to zone-based delivery fee if no polygon or distance tier matched
+      if (!usedPolygonZone && !usedDistanceTier) {
         const storeZones = await app.prisma.storeDeliveryZone.findMany({
           where: { storeId: body.storeId },
           include: { deliveryZone: true },
@@ -345,11 +460,20 @@ export async function orderRoutes(app: FastifyInstance) {
       }
 
       // Store-level base delivery fee as final fallback
-      if (deliveryFee === 0 && store?.baseDeliveryFee) {
+      if (!usedPolygonZone && deliveryFee === 0 && store?.baseDeliveryFee) {
         deliveryFee = Number(store.baseDeliveryFee);
       }
     }
 
+    // Once the store has history, its learned prep + travel time replaces the static tier/zone ETA.
+    // A polygon zone's ETA is set per area on purpose and is kept.
+    if (!body.deliverySlotId && !usedPolygonZone && (isPickup || deliveryDistance != null)) {
+      const etaModel = await loadEtaModel(app.prisma, body.storeId);
+      if (etaModel.trained) {
+        estimatedMinutes = checkoutEtaMinutes(etaModel, isPickup ? null : deliveryDistance!);
+      }
+    }
+
     // Free delivery threshold override
     if (!isPickup && store?.freeDeliveryThreshold && itemsTotal >= Number(store.freeDeliveryThreshold)) {
       deliveryFee = 0;
@@ -360,6 +484,19 @@ export async function orderRoutes(app: FastifyInstance) {
       deliveryFee = 0;
     }
 
+    // Express and pickup orders are for now, so the store has to be open
+    if (!body.deliverySlotId) {
+      const openStatus = await getStoreOpenStatus(app.prisma, body.storeId);
+      if (!openStatus.isOpen) {
+        return reply.status(400).send({
+          success: false,
+          error: "Store Closed",
+          message: openStatus.message,
+          statusCode: 400,
+        });
+      }
+    }
+
     // Express delivery validation (orders without a delivery slot)
     if (!body.deliverySlotId && !isPickup) {
       const expressConfig = await app.prisma.expressDeliveryConfig.findUnique({
@@ -377,14 +514,7 @@ export async function orderRoutes(app: FastifyInstance) {
         }
 
         if (expressConfig.operatingStart && expressConfig.operatingEnd) {
-          const now = new Date();
-          const currentMinutes = now.getHours() * 60 + now.getMinutes();
-          const [startH, startM] = expressConfig.operatingStart.split(":").map(Number);
-          const [endH, endM] = expressConfig.operatingEnd.split(":").map(Number);
-          const startMinutes = startH * 60 + startM;
-          const endMinutes = endH * 60 + endM;
-
-          if (currentMinutes < startMinutes || currentMinutes >= endMinutes) {
+          if (!isWithinHours(currentISTTime(), expressConfig.operatingStart, expressConfig.operatingEnd)) {
             return reply.status(400).send({
               success: false,
               error: "Express Unavailable",
@@ -403,6 +533,7 @@ export async function orderRoutes(app: FastifyInstance) {
 
     // Delivery slot validation
     let deliverySlotId: string | undefined;
+    let slotToHold: { id: string; maxOrders: number; date: string } | undefined;
     let scheduledDate: Date | undefined;
     let slotStartTime: string | undefined;
     let slotEndTime: string | undefined;
@@ -431,6 +562,13 @@ export async function orderRoutes(app: FastifyInstance) {
         return reply.badRequest("Scheduled date does not match slot day of week");
       }
 
+      const storeHours = await getStoreHoursOn(app.prisma, body.storeId, parseDate(body.scheduledDate));
+      if (!slotWithinHours(storeHours, slot.startTime)) {
+        return reply.badRequest(storeHours.open
+          ? "The store is not open during this slot on this date"
+          : `The store is closed on this date${storeHours.note ? ` (${storeHours.note})` : ""}`);
+      }
+
       // Check cutoff for today
       const isToday = parsedDate.toDateString() === new Date().toDateString();
       if (isToday) {
@@ -442,21 +580,17 @@ export async function orderRoutes(app: FastifyInstance) {
         }
       }
 
-      // Check capacity
-      const startOfDay = new Date(body.scheduledDate + "T00:00:00");
-      const endOfDay = new Date(body.scheduledDate + "T23:59:59.999");
-      const bookedCount = await app.prisma.order.count({
-        where: {
-          deliverySlotId: body.deliverySlotId,
-          scheduledDate: { gte: startOfDay, lte: endOfDay },
-          status: { not: "CANCELLED" },
-        },
-      });
-      if (bookedCount >= slot.maxOrders) {
+      // Fail fast on capacity — the hold taken with the order is what actually reserves the place
+      const availability = (await getSlotAvailability(app.prisma, [slot], body.scheduledDate)).get(slot.id)!;
+      if (availability.capacity === 0) {
+        return reply.badRequest(`This delivery slot is closed on this date${availability.note ? ` (${availability.note})` : ""}`);
+      }
+      if (availability.available <= 0) {
         return reply.badRequest("This delivery slot is full");
       }
 
       deliverySlotId = slot.id;
+      slotToHold = { id: slot.id, maxOrders: slot.maxOrders, date: body.scheduledDate };
       scheduledDate = parsedDate;
       slotStartTime = slot.startTime;
       slotEndTime = slot.endTime;
@@ -468,6 +602,16 @@ export async function orderRoutes(app: FastifyInstance) {
 
     const totalAmount = itemsTotal - couponDiscount + deliveryFee;
 
+    // GST breakup per line — place of supply is the delivery state (the store's own state for pickup)
+    const placeOfSupply = isPickup ? store?.stateCode ?? null : deliveryStateCode ?? store?.stateCode ?? null;
+    const lineTaxes = calculateLineTaxes(
+      itemsData.map((item) => {
+        const sp = storeProducts.find((sp) => sp.id === item.storeProductId)!;
+        return { totalPrice: Number(item.totalPrice), hsnCode: sp.product.hsnCode, gstPercent: sp.product.gstPercent };
+      }),
+      { interState: isInterState(store?.stateCode, placeOfSupply), discount: couponDiscount },
+    );
+
     const stockItems = body.items.map((item) => ({
       storeProductId: item.storeProductId,
       quantity: item.quantity,
@@ -477,26 +621,7 @@ export async function orderRoutes(app: FastifyInstance) {
     try {
       const result = await app.prisma.$transaction(async (tx) => {
         // Reserve stock atomically
-        for (const item of stockItems) {
-          const res = await tx.$executeRaw`
-            UPDATE store_products
-            SET reserved_stock = reserved_stock + ${item.quantity}
-            WHERE id = ${item.storeProductId}
-              AND stock - reserved_stock >= ${item.quantity}
-          `;
-          if (res === 0) {
-            const sp = await tx.storeProduct.findUnique({
-              where: { id: item.storeProductId },
-              include: { product: true },
-            });
-            const name = sp?.product?.name ?? item.storeProductId;
-            const available = sp ? sp.stock - sp.reservedStock : 0;
-            throw Object.assign(
-              new Error(`Insufficient stock for "${name}" (available: ${available}, requested: ${item.quantity})`),
-              { statusCode: 409 },
-            );
-          }
-        }
+        await reserveStock(tx, stockItems, { actorId: user.sub });
 
         // Wallet deduction
         let walletDeduction = 0;
@@ -591,7 +716,11 @@ export async function orderRoutes(app: FastifyInstance) {
             scheduledDate: scheduledDate ?? undefined,
             slotStartTime: slotStartTime ?? undefined,
             slotEndTime: slotEndTime ?? undefined,
-            items: { create: itemsData },
+            placeOfSupply,
+            items: { create: itemsData.map((item, i) => ({ ...item, ...lineTaxes[i] })) },
+            deliveryProof: store && requiresDeliveryOtp(store, { fulfillmentType, paymentMethod: body.paymentMethod, totalAmount })
+              ? { create: { otp: generateDeliveryOtp() } }
+              : undefined,
             statusLogs: {
               create: walletFullyCovered
                 ? [
@@ -604,6 +733,8 @@ export async function orderRoutes(app: FastifyInstance) {
           include: { items: { include: { variant: true } } },
         });
 
+        if (slotToHold) await holdSlotCapacity(tx, slotToHold, slotToHold.date, newOrder.id);
+
         // Deduct wallet balance
         if (walletDeduction > 0) {
           const updatedUser = await tx.user.update({
@@ -688,6 +819,8 @@ export async function orderRoutes(app: FastifyInstance) {
           statusCode: 409,
         });
       }
+      // Lost the last place in the slot to a concurrent checkout
+      if (e.statusCode === 400) return reply.badRequest(e.message);
       throw err;
     }
   });
@@ -736,11 +869,21 @@ export async function orderRoutes(app: FastifyInstance) {
         quantity: i.quantity,
       }));
 
+      // Pickup handover needs the customer's code. Outside the transaction so wrong attempts are counted.
+      if (body.status === "DELIVERED" && existing.fulfillmentType === "PICKUP") {
+        const actor = getOrgUser(request);
+        await verifyPickupCode(app.prisma, existing.id, body.pickupCode, {
+          id: actor.sub,
+          isManager: ["SUPER_ADMIN", "ORG_ADMIN", "STORE_MANAGER"].includes(actor.role),
+        });
+      }
+
       // Perform stock operation + status update together
+      const stockContext = { orderId: existing.id, actorId: (request.user as { sub: string }).sub };
       if (body.status === "DELIVERED") {
-        await deductStock(app.prisma, stockItems);
+        await deductStock(app.prisma, stockItems, stockContext);
       } else if (body.status === "CANCELLED") {
-        await releaseStock(app.prisma, stockItems);
+        await releaseStock(app.prisma, stockItems, stockContext);
       }
 
       const txResult = await app.prisma.$transaction(async (tx) => {
@@ -893,18 +1036,18 @@ export async function orderRoutes(app: FastifyInstance) {
           }
         }
 
-        // Wallet refund on admin cancel
-        let refundAmount = 0;
+        // Refund on admin cancel — full amount if paid online, else the wallet share
+        let refundPlan: RefundPlan | null = null;
         if (body.status === "CANCELLED") {
-          const walletUsed = Number(existing.walletAmountUsed ?? 0);
-          const isOnlinePaid = existing.paymentMethod === "ONLINE" && existing.paymentStatus === "PAID";
-
-          if (isOnlinePaid) {
-            refundAmount = Number(existing.totalAmount);
-            updateData.paymentStatus = "REFUNDED";
-          } else if (walletUsed > 0) {
-            refundAmount = walletUsed;
-          }
+          const isOnlinePaid = existing.paymentMethod === "ONLINE"
+            && (existing.paymentStatus === "PAID" || existing.paymentStatus === "PARTIALLY_REFUNDED");
+          const refundAmount = isOnlinePaid ? Number(existing.totalAmount) : Number(existing.walletAmountUsed ?? 0);
+
+          refundPlan = await createOrderRefunds(tx, existing, {
+            amount: refundAmount,
+            destination: body.refundDestination ?? "WALLET",
+            reason: `Refund for cancelled order #${existing.id.slice(0, 8)}`,
+          });
         }
 
         // Loyalty reversal on CANCELLED
@@ -978,6 +1121,18 @@ export async function orderRoutes(app: FastifyInstance) {
           }
         }
 
+        if (body.status === "DELIVERED") {
+          await issueInvoice(tx, existing.id);
+          // Cash on a trip stays with the rider until handed over at the store
+          await recordCodCollection(tx, existing.id);
+        }
+
+        if (body.status === "READY" && existing.fulfillmentType === "PICKUP") {
+          await issuePickupCode(tx, existing.id);
+        }
+
+        const releasedSlot = body.status === "CANCELLED" ? await releaseSlotHold(tx, existing.id) : null;
+
         const updated = await tx.order.update({
           where: { id: request.params.id },
           data: updateData,
@@ -990,41 +1145,24 @@ export async function orderRoutes(app: FastifyInstance) {
           data: { orderId: request.params.id, status: body.status, note: logNote },
         });
 
-        // Refund to wallet
-        if (refundAmount > 0) {
-          const updatedUser = await tx.user.update({
-            where: { id: existing.userId },
-            data: { walletBalance: { increment: refundAmount } },
-          });
-          await tx.walletTransaction.create({
-            data: {
-              userId: existing.userId,
-              orderId: existing.id,
-              type: "CREDIT",
-              amount: refundAmount,
-              balanceAfter: Number(updatedUser.walletBalance),
-              description: `Refund for cancelled order #${existing.id.slice(0, 8)}`,
-            },
-          });
-        }
-
-        return { updated, referralCompleted, referralReferrerId, referralReferrerReward, referralRefereeReward };
+        return { updated, refundPlan, referralCompleted, referralReferrerId, referralReferrerReward, referralRefereeReward, releasedSlot };
       });
 
       const order = txResult.updated;
-      const { referralCompleted, referralReferrerId, referralReferrerReward, referralRefereeReward } = txResult;
+      const { refundPlan, referralCompleted, referralReferrerId, referralReferrerReward, referralRefereeReward, releasedSlot } = txResult;
 
       sendOrderStatusNotification(app.fcm, app.prisma, order.id, existing.userId, body.status);
       broadcastOrderUpdate(app.prisma, order.id, body.status);
+      if (releasedSlot) {
+        notifySlotWaitlist(app.fcm, app.prisma, releasedSlot.slotId, releasedSlot.date).catch(() => {});
+      }
 
-      // Fire-and-forget: wallet refund notification on cancel
-      if (body.status === "CANCELLED") {
-        const walletUsed = Number(existing.walletAmountUsed ?? 0);
-        const isOnlinePaid = existing.paymentMethod === "ONLINE" && existing.paymentStatus === "PAID";
-        const refundAmt = isOnlinePaid ? Number(existing.totalAmount) : walletUsed;
-        if (refundAmt > 0) {
-          sendWalletNotification(app.fcm, app.prisma, existing.userId, "CREDIT", refundAmt, `Refund for order #${existing.id.slice(0, 8)}`);
+      // Push source refunds to the gateway after commit; failures are retried by the refund scheduler
+      if (refundPlan) {
+        for (const refund of refundPlan.refunds) {
+          if (refund.destination === "SOURCE") await processRefund(app.prisma, refund.id);
         }
+        sendRefundNotifications(app.fcm, app.prisma, existing.userId, existing.id, refundPlan);
       }
 
       // Fire-and-forget: loyalty earned + review request on delivery
@@ -1065,6 +1203,8 @@ export async function orderRoutes(app: FastifyInstance) {
             where: { id: existing.deliveryTripId },
             data: { status: "COMPLETED", completedAt: new Date() },
           });
+          await recordTripEarning(app.prisma, existing.deliveryTripId);
+          forgetTripPings(existing.deliveryTripId);
         }
       }
 
@@ -1073,6 +1213,112 @@ export async function orderRoutes(app: FastifyInstance) {
     },
   );
 
+  // Customer "I'm here" for a pickup order — alerts the store's staff
+  app.post<{ Params: { id: string } }>("/:id/pickup/check-in", { preHandler: [authenticate] }, async (request, reply) => {
+    const body = pickupCheckInSchema.parse(request.body ?? {});
+    const order = await app.prisma.order.findUnique({
+      where: { id: request.params.id },
+      include: { user: { select: { name: true } }, store: { select: { organizationId: true } } },
+    });
+    if (!order) return reply.notFound("Order not found");
+
+    const user = getOrgUser(request);
+    if (order.userId !== user.sub) return reply.forbidden("Access denied");
+    if (order.fulfillmentType !== "PICKUP") return reply.badRequest("Only pickup orders can be checked in");
+    if (!PICKUP_CHECK_IN_STATUSES.includes(order.status)) {
+      return reply.badRequest(order.status === "PENDING" ? "The store hasn't confirmed this order yet" : `Order is already ${order.status}`);
+    }
+
+    const pickup = await checkInPickup(app.prisma, order.id, body.parkingNote);
+    broadcastPickupArrival(order.store.organizationId, {
+      orderId: order.id,
+      storeId: order.storeId,
+      customerName: order.user.name,
+      parkingNote: pickup.parkingNote,
+      arrivedAt: pickup.arrivedAt!.toISOString(),
+    });
+    broadcastOrderUpdate(app.prisma, order.id, order.status);
+
+    const data = { arrivedAt: pickup.arrivedAt, parkingNote: pickup.parkingNote };
+    const response: ApiResponse<typeof data> = { success: true, data };
+    return response;
+  });
+
+  // Add, remove, re-quantity or substitute items on an open order.
+  // Customers can edit until CONFIRMED; staff also while PREPARING (e.g. out-of-stock substitutions).
+  app.patch<{ Params: { id: string } }>(
+    "/:id/items",
+    { preHandler: [authenticate] },
+    async (request, reply) => {
+      const user = getOrgUser(request);
+      const body = editOrderItemsSchema.parse(request.body);
+      const existing = await app.prisma.order.findUnique({
+        where: { id: request.params.id },
+        select: { id: true, userId: true, storeId: true },
+      });
+      if (!existing) return reply.notFound("Order not found");
+
+      const isCustomer = user.role === "CUSTOMER";
+      if (user.role === "RIDER") return reply.forbidden("Access denied");
+      if (!(await canViewOrder(request, existing))) return reply.forbidden("Access denied");
+
+      let result: Awaited<ReturnType<typeof editOrderItems>>;
+      try {
+        result = await app.prisma.$transaction((tx) =>
+          editOrderItems(tx, existing.id, body, { userId: user.sub, isCustomer }),
+        );
+      } catch (err) {
+        const amountDue = (err as { amountDue?: number }).amountDue;
+        if (!amountDue || !getPaymentProvider().isConfigured()) throw err;
+
+        // Collect the extra into the wallet; the app resends the edit once it's paid
+        const intent = await createCheckoutIntent(app.prisma, "WALLET", {
+          amountInPaise: Math.round(amountDue * 100),
+          receipt: `oe_${existing.id.slice(0, 8)}_${Date.now()}`,
+          userId: user.sub,
+          notes: { type: "wallet", userId: user.sub, orderId: existing.id },
+        });
+        return reply.status(402).send({
+          success: false,
+          error: "Payment Required",
+          message: (err as Error).message,
+          statusCode: 402,
+          data: { amountDue, checkout: toCheckoutResponse(intent) },
+        });
+      }
+
+      const order = await app.prisma.order.findUniqueOrThrow({
+        where: { id: existing.id },
+        include: {
+          items: { include: { product: true, variant: true } },
+          statusLogs: { orderBy: { createdAt: "asc" } },
+        },
+      });
+
+      broadcastOrderUpdate(app.prisma, order.id, order.status);
+      const shortId = order.id.slice(0, 8);
+      for (const refund of result.refundPlan.refunds) {
+        if (refund.destination === "SOURCE") await processRefund(app.prisma, refund.id);
+      }
+      sendRefundNotifications(app.fcm, app.prisma, order.userId, order.id, result.refundPlan);
+      if (result.walletDebit > 0) {
+        sendWalletNotification(app.fcm, app.prisma, order.userId, "DEBIT", result.walletDebit, `Items added to order #${shortId}`);
+      }
+      if (!isCustomer) {
+        sendNotification(app.fcm, app.prisma, {
+          userId: order.userId,
+          type: "GENERAL",
+          title: "Your order was updated",
+          body: `The store changed the items in order #${shortId}. New total: ₹${result.newTotal.toFixed(2)}`,
+          data: { orderId: order.id },
+        });
+      }
+
+      const response: ApiResponse<typeof order> = { success: true, data: formatOrderUnits(order) };
+      return response;
+    },
+  );
+
   // Update payment status (admin override)
   app.patch<{ Params: { id: string } }>(
     "/:id/payment-status",
@@ -1088,7 +1334,7 @@ export async function orderRoutes(app: FastifyInstance) {
         return reply.forbidden("Access denied");
       }
 
-      if (existing.paymentStatus === "REFUNDED") {
+      if (existing.paymentStatus === "REFUNDED" || existing.paymentStatus === "PARTIALLY_REFUNDED") {
         return reply.status(400).send({
           success: false,
           error: "Invalid Update",
@@ -1132,6 +1378,7 @@ export async function orderRoutes(app: FastifyInstance) {
     { preHandler: [authenticate] },
     async (request, reply) => {
       const user = getOrgUser(request);
+      const body = cancelOrderSchema.parse(request.body ?? {});
       const existing = await app.prisma.order.findUnique({
         where: { id: request.params.id },
         include: { items: true },
@@ -1158,28 +1405,23 @@ export async function orderRoutes(app: FastifyInstance) {
         quantity: i.quantity,
       }));
 
-      await releaseStock(app.prisma, stockItems);
+      await releaseStock(app.prisma, stockItems, { orderId: existing.id, actorId: user.sub, note: "Cancelled by customer" });
 
-      const order = await app.prisma.$transaction(async (tx) => {
-        // Determine refund amount
-        let refundAmount = 0;
-        const walletUsed = Number(existing.walletAmountUsed ?? 0);
-        const isOnlinePaid = existing.paymentMethod === "ONLINE" && existing.paymentStatus === "PAID";
-
-        if (isOnlinePaid) {
-          refundAmount = Number(existing.totalAmount);
-        } else if (walletUsed > 0) {
-          refundAmount = walletUsed;
-        }
+      const { order, refundPlan, releasedSlot } = await app.prisma.$transaction(async (tx) => {
+        // Full amount if paid online, else just the wallet share
+        const isOnlinePaid = existing.paymentMethod === "ONLINE"
+          && (existing.paymentStatus === "PAID" || existing.paymentStatus === "PARTIALLY_REFUNDED");
+        const refundAmount = isOnlinePaid ? Number(existing.totalAmount) : Number(existing.walletAmountUsed ?? 0);
 
-        const updateData: Record<string, unknown> = { status: "CANCELLED" };
-        if (isOnlinePaid) {
-          updateData.paymentStatus = "REFUNDED";
-        }
+        const refundPlan = await createOrderRefunds(tx, existing, {
+          amount: refundAmount,
+          destination: body.refundDestination,
+          reason: `Refund for cancelled order #${existing.id.slice(0, 8)}`,
+        });
 
         const updated = await tx.order.update({
           where: { id: request.params.id },
-          data: updateData,
+          data: { status: "CANCELLED" },
           include: { items: true },
         });
 
@@ -1187,23 +1429,7 @@ export async function orderRoutes(app: FastifyInstance) {
           data: { orderId: request.params.id, status: "CANCELLED", note: "Cancelled by customer" },
         });
 
-        // Refund to wallet
-        if (refundAmount > 0) {
-          const updatedUser = await tx.user.update({
-            where: { id: existing.userId },
-            data: { walletBalance: { increment: refundAmount } },
-          });
-          await tx.walletTransaction.create({
-            data: {
-              userId: existing.userId,
-              orderId: existing.id,
-              type: "CREDIT",
-              amount: refundAmount,
-              balanceAfter: Number(updatedUser.walletBalance),
-              description: `Refund for cancelled order #${existing.id.slice(0, 8)}`,
-            },
-          });
-        }
+        const releasedSlot = await releaseSlotHold(tx, existing.id);
 
         // Loyalty reversal on customer cancel
         const loyaltyUsed = existing.loyaltyPointsUsed ?? 0;
@@ -1245,31 +1471,33 @@ export async function orderRoutes(app: FastifyInstance) {
           }
         }
 
-        return updated;
+        return { order: updated, refundPlan, releasedSlot };
       });
 
       sendOrderStatusNotification(app.fcm, app.prisma, order.id, existing.userId, "CANCELLED");
       broadcastOrderUpdate(app.prisma, order.id, "CANCELLED");
+      if (releasedSlot) {
+        notifySlotWaitlist(app.fcm, app.prisma, releasedSlot.slotId, releasedSlot.date).catch(() => {});
+      }
 
-      // Fire-and-forget: wallet refund notification
-      const walletUsed = Number(existing.walletAmountUsed ?? 0);
-      const isOnlinePaid = existing.paymentMethod === "ONLINE" && existing.paymentStatus === "PAID";
-      const custRefundAmt = isOnlinePaid ? Number(existing.totalAmount) : walletUsed;
-      if (custRefundAmt > 0) {
-        sendWalletNotification(app.fcm, app.prisma, existing.userId, "CREDIT", custRefundAmt, `Refund for order #${existing.id.slice(0, 8)}`);
+      // Push source refunds to the gateway after commit; failures are retried by the refund scheduler
+      for (const refund of refundPlan.refunds) {
+        if (refund.destination === "SOURCE") await processRefund(app.prisma, refund.id);
       }
+      sendRefundNotifications(app.fcm, app.prisma, existing.userId, existing.id, refundPlan);
 
       const response: ApiResponse<typeof order> = { success: true, data: order };
       return response;
     },
   );
 
-  // Create Razorpay payment order
+  // Create payment intent with the configured provider
   app.post<{ Params: { id: string } }>(
     "/:id/payment",
     { preHandler: [authenticate] },
     async (request, reply) => {
-      if (!isRazorpayConfigured()) {
+      const provider = getPaymentProvider();
+      if (!provider.isConfigured()) {
         return reply.status(503).send({
           success: false,
           error: "Payment Gateway Unavailable",
@@ -1284,53 +1512,40 @@ export async function orderRoutes(app: FastifyInstance) {
       const user = request.user as { sub: string };
       if (order.userId !== user.sub) return reply.forbidden("Access denied");
 
-      if (order.paymentStatus === "PAID") {
+      if (order.paymentStatus === "PAID" || order.paymentStatus === "PARTIALLY_REFUNDED") {
         return reply.badRequest("Order is already paid");
       }
+      if (order.status === "CANCELLED") {
+        return reply.badRequest("Order has been cancelled");
+      }
 
       const walletUsed = Number(order.walletAmountUsed ?? 0);
       const chargeAmount = Number(order.totalAmount) - walletUsed;
       if (chargeAmount <= 0) {
         return reply.badRequest("Order is fully covered by wallet");
       }
-      const amountInPaise = Math.round(chargeAmount * 100);
-
-      // Create/retrieve Razorpay customer for saved payment instruments
-      let customerId: string | undefined;
-      try {
-        customerId = await ensureRazorpayCustomer(app.prisma, user.sub);
-      } catch {
-        // Non-fatal — proceed without customer_id (no saved cards)
-      }
 
-      const rpOrder = await createRazorpayOrder(amountInPaise, order.id, customerId);
+      const intent = await provider.createIntent(app.prisma, {
+        amountInPaise: Math.round(chargeAmount * 100),
+        receipt: order.id,
+        userId: user.sub,
+        notes: { type: "order", orderId: order.id },
+      });
 
       await app.prisma.order.update({
         where: { id: order.id },
-        data: { razorpayOrderId: rpOrder.id },
+        data: { paymentProvider: intent.provider, providerOrderId: intent.providerOrderId },
       });
 
-      const response: ApiResponse<{
-        razorpay_order_id: string;
-        amount: number;
-        currency: string;
-        key_id: string;
-        customer_id?: string;
-      }> = {
+      const response: ApiResponse<CheckoutResponse> = {
         success: true,
-        data: {
-          razorpay_order_id: rpOrder.id,
-          amount: amountInPaise,
-          currency: "INR",
-          key_id: getRazorpayKeyId(),
-          ...(customerId ? { customer_id: customerId } : {}),
-        },
+        data: toCheckoutResponse(intent),
       };
       return response;
     },
   );
 
-  // Verify Razorpay payment
+  // Verify payment returned by the client checkout
   app.post<{ Params: { id: string } }>(
     "/:id/payment/verify",
     { preHandler: [authenticate] },
@@ -1343,49 +1558,23 @@ export async function orderRoutes(app: FastifyInstance) {
       const user = request.user as { sub: string };
       if (order.userId !== user.sub) return reply.forbidden("Access denied");
 
-      const isValid = verifyRazorpaySignature(
-        body.razorpay_order_id,
-        body.razorpay_payment_id,
-        body.razorpay_signature,
-      );
+      // Verify with the provider the intent was created with, and only for this order's intent
+      const provider = getPaymentProvider(order.paymentProvider);
+      const isValid = body.providerOrderId === order.providerOrderId && provider.verifyPayment(body);
 
       if (isValid) {
-        const updated = await app.prisma.$transaction(async (tx) => {
-          const ord = await tx.order.update({
-            where: { id: order.id },
-            data: {
-              paymentStatus: "PAID",
-              razorpayPaymentId: body.razorpay_payment_id,
-              // Auto-confirm on successful payment
-              ...(order.status === "PENDING" ? { status: "CONFIRMED" } : {}),
-            },
-          });
-          // Log the status transition
-          if (order.status === "PENDING") {
-            await tx.orderStatusLog.create({
-              data: { orderId: order.id, status: "CONFIRMED", note: "Payment verified" },
-            });
-          }
-          // Save preferred payment method
-          await tx.user.update({
-            where: { id: user.sub },
-            data: { preferredPaymentMethod: "ONLINE" },
-          });
-          return ord;
-        });
-
-        if (order.status === "PENDING") {
-          sendOrderStatusNotification(app.fcm, app.prisma, order.id, order.userId, "CONFIRMED");
-        }
-        broadcastOrderUpdate(app.prisma, order.id, updated.status);
+        // The provider webhook may have already settled this payment
+        const updated =
+          (await markOrderPaid(app.fcm, app.prisma, order.id, {
+            provider: provider.name,
+            providerPaymentId: body.providerPaymentId,
+          })) ??
+          (await app.prisma.order.findUniqueOrThrow({ where: { id: order.id } }));
 
         const response: ApiResponse<typeof updated> = { success: true, data: updated };
         return response;
       } else {
-        await app.prisma.order.update({
-          where: { id: order.id },
-          data: { paymentStatus: "FAILED" },
-        });
+        await markOrderPaymentFailed(app.prisma, order.id);
 
         return reply.badRequest("Payment verification failed");
       }
@@ -1414,6 +1603,7 @@ export async function orderRoutes(app: FastifyInstance) {
       const orderInclude = {
         user: { select: { id: true, name: true, email: true } },
         items: { include: { product: { select: { name: true } } } },
+        pickup: { select: { arrivedAt: true, parkingNote: true, verifiedAt: true } },
         deliveryTrip: {
           select: {
             id: true,
@@ -1566,6 +1756,16 @@ export async function orderRoutes(app: FastifyInstance) {
         }
       }
 
+      // Pickup orders still waiting on the customer's code can't be handed over in bulk
+      const pendingPickupCodes = new Set(
+        body.status === "DELIVERED"
+          ? (await app.prisma.orderPickup.findMany({
+              where: { orderId: { in: body.orderIds }, code: { not: null }, verifiedAt: null },
+              select: { orderId: true },
+            })).map((p) => p.orderId)
+          : [],
+      );
+
       const errors: { orderId: string; reason: string }[] = [];
       const validOrders: typeof orders = [];
 
@@ -1586,6 +1786,10 @@ export async function orderRoutes(app: FastifyInstance) {
           errors.push({ orderId, reason: `Cannot transition from ${order.status} to ${body.status}` });
           continue;
         }
+        if (pendingPickupCodes.has(orderId)) {
+          errors.push({ orderId, reason: "Needs the customer's pickup code" });
+          continue;
+        }
         validOrders.push(order);
       }
 
@@ -1598,7 +1802,8 @@ export async function orderRoutes(app: FastifyInstance) {
       }
 
       // Process valid orders in a transaction
-      await app.prisma.$transaction(async (tx) => {
+      const releasedSlots = await app.prisma.$transaction(async (tx) => {
+        const released: { slotId: string; date: string }[] = [];
         for (const order of validOrders) {
           // Stock operations
           const stockItems = order.items.map((i) => ({
@@ -1606,24 +1811,13 @@ export async function orderRoutes(app: FastifyInstance) {
             quantity: i.quantity,
           }));
 
+          const stockContext = { orderId: order.id, actorId: (request.user as { sub: string }).sub, note: "Bulk status update" };
           if (body.status === "DELIVERED") {
-            for (const item of stockItems) {
-              await tx.$executeRaw`
-                UPDATE store_products
-                SET stock = stock - ${item.quantity},
-                    reserved_stock = reserved_stock - ${item.quantity}
-                WHERE id = ${item.storeProductId}
-              `;
-            }
+            await deductStock(tx, stockItems, stockContext);
           } else if (body.status === "CANCELLED") {
-            for (const item of stockItems) {
-              await tx.$executeRaw`
-                UPDATE store_products
-                SET reserved_stock = reserved_stock - ${item.quantity}
-                WHERE id = ${item.storeProductId}
-                  AND reserved_stock >= ${item.quantity}
-              `;
-            }
+            await releaseStock(tx, stockItems, stockContext);
+            const slot = await releaseSlotHold(tx, order.id);
+            if (slot) released.push(slot);
           }
 
           const updateData: Record<string, unknown> = { status: body.status };
@@ -1637,17 +1831,29 @@ export async function orderRoutes(app: FastifyInstance) {
             where: { id: order.id },
             data: updateData,
           });
+          if (body.status === "DELIVERED") {
+            await issueInvoice(tx, order.id);
+            await recordCodCollection(tx, order.id);
+          }
+          if (body.status === "READY" && order.fulfillmentType === "PICKUP") {
+            await issuePickupCode(tx, order.id);
+          }
 
           await tx.orderStatusLog.create({
             data: { orderId: order.id, status: body.status, note: "Bulk status update" },
           });
         }
+        return released;
       });
 
       // Broadcast updates outside transaction
       for (const order of validOrders) {
         broadcastOrderUpdate(app.prisma, order.id, body.status);
       }
+      const reopened = new Map(releasedSlots.map((s) => [`${s.slotId}|${s.date}`, s]));
+      for (const slot of reopened.values()) {
+        notifySlotWaitlist(app.fcm, app.prisma, slot.slotId, slot.date).catch(() => {});
+      }
 
       const response: ApiResponse<{ updated: number; skipped: number; errors: typeof errors }> = {
         success: true,
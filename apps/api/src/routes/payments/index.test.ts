@@ -0,0 +1,301 @@
+import { before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import Fastify, { type FastifyInstance } from "fastify";
+import sensible from "@fastify/sensible";
+import type { PrismaClient } from "../../../generated/prisma/index.js";
+
+const WEBHOOK_SECRET = "whsec_test";
+
+interface StoredEvent {
+  provider: string;
+  eventId: string;
+  status: string;
+}
+
+interface FakeOrder {
+  id: string;
+  userId: string;
+  status: string;
+  paymentStatus: string;
+  paymentProvider: string | null;
+  providerOrderId: string | null;
+  providerPaymentId: string | null;
+  totalAmount: number;
+  walletAmountUsed: number | null;
+}
+
+interface FakeRefund {
+  id: string;
+  orderId: string | null;
+  status: string;
+  providerRefundId: string | null;
+}
+
+function sign(body: string, secret = WEBHOOK_SECRET) {
+  return crypto.createHmac("sha256", secret).update(body).digest("hex");
+}
+
+function paymentFailedBody(paymentId: string) {
+  return JSON.stringify({
+    event: "payment.failed",
+    created_at: 1767225600,
+    payload: {
+      payment: { entity: { id: paymentId, order_id: "order_rp_1", amount: 25000, notes: [] } },
+    },
+  });
+}
+
+function paymentCapturedBody(
+  paymentId: string,
+  notes: Record<string, string> = {},
+  { event = "payment.captured", amount = 25000 } = {},
+) {
+  const payment = { id: paymentId, order_id: "order_rp_1", amount, notes };
+  return JSON.stringify({
+    event,
+    created_at: 1767225600,
+    payload: {
+      payment: { entity: payment },
+      ...(event === "order.paid" ? { order: { entity: { id: "order_rp_1", notes } } } : {}),
+    },
+  });
+}
+
+describe("POST /payments/razorpay/webhook", () => {
+  let app: FastifyInstance;
+  let events: Map<string, StoredEvent>;
+  let failedOrders: string[];
+  let order: FakeOrder;
+  let users: Map<string, { walletBalance: number; preferredPaymentMethod: string | null }>;
+  let statusLogs: { orderId: string; status: string; note: string }[];
+  let memberships: Record<string, unknown>[];
+  let walletTransactions: Record<string, unknown>[];
+  let refunds: FakeRefund[];
+
+  const deliver = (body: string, eventId: string) =>
+    app.inject({
+      method: "POST",
+      url: "/payments/razorpay/webhook",
+      headers: {
+        "content-type": "application/json",
+        "x-razorpay-signature": sign(body),
+        "x-razorpay-event-id": eventId,
+      },
+      payload: body,
+    });
+
+  before(async () => {
+    // The provider reads its secrets when the module loads
+    process.env.RAZORPAY_WEBHOOK_SECRET = WEBHOOK_SECRET;
+    const { paymentRoutes } = await import("./index.js");
+
+    const prisma = {
+      paymentWebhookEvent: {
+        findUnique: async ({ where }: { where: { provider_eventId: { provider: string; eventId: string } } }) =>
+          events.get(`${where.provider_eventId.provider}:${where.provider_eventId.eventId}`) ?? null,
+        upsert: async ({ create, update }: { create: StoredEvent; update: Partial<StoredEvent> }) => {
+          const key = `${create.provider}:${create.eventId}`;
+          const row = { ...(events.get(key) ?? create), ...(events.has(key) ? update : {}) };
+          events.set(key, row);
+          return row;
+        },
+      },
+      order: {
+        findFirst: async () => ({ id: order.id }),
+        findUnique: async () => ({ ...order }),
+        findUniqueOrThrow: async () => ({ ...order }),
+        updateMany: async ({ where, data }: { where: { id: string; paymentStatus: { in: string[] } }; data: Partial<FakeOrder> }) => {
+          if (!where.paymentStatus.in.includes(order.paymentStatus)) return { count: 0 };
+          if (data.paymentStatus === "FAILED") failedOrders.push(where.id);
+          Object.assign(order, data);
+          return { count: 1 };
+        },
+      },
+      orderStatusLog: {
+        create: async ({ data }: { data: { orderId: string; status: string; note: string } }) => {
+          statusLogs.push(data);
+          return data;
+        },
+      },
+      user: {
+        update: async ({ where, data }: {
+          where: { id: string };
+          data: { preferredPaymentMethod?: string; walletBalance?: { increment: number } };
+        }) => {
+          const user = users.get(where.id)!;
+          if (data.preferredPaymentMethod) user.preferredPaymentMethod = data.preferredPaymentMethod;
+          if (data.walletBalance) user.walletBalance += data.walletBalance.increment;
+          return { ...user };
+        },
+        findUniqueOrThrow: async ({ where }: { where: { id: string } }) => ({ ...users.get(where.id)! }),
+      },
+      membershipPlan: {
+        findUnique: async ({ where }: { where: { id: string } }) =>
+          ({ id: where.id, duration: "MONTHLY", price: 199, organizationId: "org-1" }),
+      },
+      userMembership: {
+        findUnique: async ({ where }: { where: { providerPaymentId: string } }) =>
+          memberships.find((m) => m.providerPaymentId === where.providerPaymentId) ?? null,
+        create: async ({ data }: { data: Record<string, unknown> }) => {
+          memberships.push(data);
+          return data;
+        },
+      },
+      walletTransaction: {
+        findUnique: async ({ where }: { where: { providerPaymentId: string } }) =>
+          walletTransactions.find((t) => t.providerPaymentId === where.providerPaymentId) ?? null,
+        create: async ({ data }: { data: Record<string, unknown> }) => {
+          walletTransactions.push(data);
+          return data;
+        },
+      },
+      refund: {
+        findFirst: async ({ where }: { where: { OR: { providerRefundId?: string; id?: string }[] } }) =>
+          refunds.find((r) => where.OR.some((c) => (c.id ? r.id === c.id : r.providerRefundId === c.providerRefundId))) ?? null,
+        update: async ({ where, data }: { where: { id: string }; data: Partial<FakeRefund> }) =>
+          Object.assign(refunds.find((r) => r.id === where.id)!, data),
+      },
+      // Notifications and broadcasts are best-effort; the missing models just make them no-ops
+      $transaction: async (arg: unknown) =>
+        Array.isArray(arg) ? Promise.all(arg) : (arg as (tx: unknown) => Promise<unknown>)(prisma),
+    };
+
+    app = Fastify();
+    await app.register(sensible);
+    app.decorate("prisma", prisma as unknown as PrismaClient);
+    app.decorate("fcm", null);
+    await app.register(paymentRoutes, { prefix: "/payments" });
+    await app.ready();
+  });
+
+  beforeEach(() => {
+    events = new Map();
+    failedOrders = [];
+    order = {
+      id: "order-1",
+      userId: "user-1",
+      status: "PENDING",
+      paymentStatus: "PENDING",
+      paymentProvider: "razorpay",
+      providerOrderId: "order_rp_1",
+      providerPaymentId: null,
+      totalAmount: 250,
+      walletAmountUsed: null,
+    };
+    users = new Map([["user-1", { walletBalance: 100, preferredPaymentMethod: null }]]);
+    statusLogs = [];
+    memberships = [];
+    walletTransactions = [];
+    refunds = [];
+  });
+
+  it("rejects a payload with a bad signature", async () => {
+    const body = paymentFailedBody("pay_1");
+    const res = await app.inject({
+      method: "POST",
+      url: "/payments/razorpay/webhook",
+      headers: { "content-type": "application/json", "x-razorpay-signature": sign(body, "wrong") },
+      payload: body,
+    });
+
+    assert.equal(res.statusCode, 400);
+    assert.equal(events.size, 0);
+    assert.deepEqual(failedOrders, []);
+  });
+
+  it("rejects a payload changed after signing", async () => {
+    const body = paymentFailedBody("pay_1");
+    const res = await app.inject({
+      method: "POST",
+      url: "/payments/razorpay/webhook",
+      headers: { "content-type": "application/json", "x-razorpay-signature": sign(body) },
+      payload: body.replace("25000", "1"),
+    });
+
+    assert.equal(res.statusCode, 400);
+    assert.deepEqual(failedOrders, []);
+  });
+
+  it("processes a signed event once and acknowledges redeliveries as duplicates", async () => {
+    const body = paymentFailedBody("pay_1");
+
+    const first = await deliver(body, "evt_1");
+    assert.equal(first.statusCode, 200);
+    assert.deepEqual(first.json().data, { eventId: "evt_1", status: "PROCESSED", duplicate: false });
+    assert.deepEqual(failedOrders, ["order-1"]);
+
+    const second = await deliver(body, "evt_1");
+    assert.equal(second.statusCode, 200);
+    assert.deepEqual(second.json().data, { eventId: "evt_1", status: "PROCESSED", duplicate: true });
+    assert.deepEqual(failedOrders, ["order-1"]);
+  });
+
+  it("marks the order paid and confirms it on payment.captured", async () => {
+    const res = await deliver(paymentCapturedBody("pay_1", { orderId: "order-1" }), "evt_1");
+
+    assert.equal(res.statusCode, 200);
+    assert.equal(res.json().data.status, "PROCESSED");
+    assert.equal(order.paymentStatus, "PAID");
+    assert.equal(order.status, "CONFIRMED");
+    assert.equal(order.providerPaymentId, "pay_1");
+    assert.deepEqual(statusLogs, [{ orderId: "order-1", status: "CONFIRMED", note: "Payment captured" }]);
+    assert.equal(users.get("user-1")!.preferredPaymentMethod, "ONLINE");
+  });
+
+  it("treats order.paid for the same payment as already settled", async () => {
+    await deliver(paymentCapturedBody("pay_1"), "evt_1");
+    const res = await deliver(paymentCapturedBody("pay_1", {}, { event: "order.paid" }), "evt_2");
+
+    assert.equal(res.statusCode, 200);
+    assert.equal(order.paymentStatus, "PAID");
+    assert.equal(statusLogs.length, 1);
+  });
+
+  it("activates a membership once per payment", async () => {
+    const notes = { type: "membership", userId: "user-1", planId: "plan-1", amountPaid: "199" };
+    await deliver(paymentCapturedBody("pay_1", notes), "evt_1");
+    // Same payment under a different event, e.g. order.paid after payment.captured
+    const res = await deliver(paymentCapturedBody("pay_1", notes, { event: "order.paid" }), "evt_2");
+
+    assert.equal(res.json().data.status, "PROCESSED");
+    assert.equal(memberships.length, 1);
+    assert.equal(memberships[0].status, "ACTIVE");
+    assert.equal(memberships[0].planId, "plan-1");
+    assert.equal(memberships[0].pricePaid, 199);
+    assert.equal(memberships[0].providerPaymentId, "pay_1");
+    assert.equal(order.paymentStatus, "PENDING");
+  });
+
+  it("credits a wallet top-up once per payment", async () => {
+    const body = paymentCapturedBody("pay_1", { type: "wallet", userId: "user-1" }, { amount: 50000 });
+    await deliver(body, "evt_1");
+    await deliver(paymentCapturedBody("pay_1", { type: "wallet", userId: "user-1" }, { event: "order.paid", amount: 50000 }), "evt_2");
+
+    assert.equal(users.get("user-1")!.walletBalance, 600);
+    assert.equal(walletTransactions.length, 1);
+    assert.equal(walletTransactions[0].type, "CREDIT");
+    assert.equal(walletTransactions[0].amount, 500);
+    assert.equal(walletTransactions[0].providerPaymentId, "pay_1");
+    assert.equal(order.paymentStatus, "PENDING");
+  });
+
+  it("marks a refund processed on refund.processed", async () => {
+    refunds.push({ id: "refund-1", orderId: "order-1", status: "INITIATED", providerRefundId: null });
+    order.status = "CANCELLED";
+    const body = JSON.stringify({
+      event: "refund.processed",
+      created_at: 1767225600,
+      payload: {
+        refund: { entity: { id: "rfnd_1", payment_id: "pay_1", amount: 10000, notes: { refundId: "refund-1" } } },
+      },
+    });
+
+    const res = await deliver(body, "evt_1");
+
+    assert.equal(res.json().data.status, "PROCESSED");
+    assert.equal(refunds[0].status, "PROCESSED");
+    assert.equal(refunds[0].providerRefundId, "rfnd_1");
+    assert.deepEqual(statusLogs, [{ orderId: "order-1", status: "CANCELLED", note: "Refund of ₹100.00 processed (rfnd_1)" }]);
+  });
+});
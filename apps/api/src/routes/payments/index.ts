@@ -0,0 +1,286 @@
+import type { FastifyInstance } from "fastify";
+import type { Prisma, WebhookEventStatus } from "../../../generated/prisma/index.js";
+import type { ApiResponse } from "@martly/shared/types";
+import { authenticate } from "../../middleware/auth.js";
+import {
+  getPaymentProvider,
+  isPaymentProviderName,
+  type PaymentProvider,
+  type PaymentWebhookEvent,
+} from "../../services/payment.js";
+import { mockMandateProvider, mockPaymentProvider } from "../../services/mock-payment-provider.js";
+import { settleMandateCharge } from "../../services/mandate.js";
+import {
+  markOrderPaid,
+  markOrderPaymentFailed,
+  activatePaidMembership,
+  creditWalletTopup,
+} from "../../services/payment-settlement.js";
+import { applyGatewayRefundProcessed, applyGatewayRefundFailed } from "../../services/refund.js";
+
+interface RawJsonBody<T> {
+  raw: string;
+  json: T;
+}
+
+/**
+ * Apply a normalized webhook event. Returns false when the event does not map to
+ * anything we track (e.g. an unknown order).
+ */
+async function handlePaymentEvent(app: FastifyInstance, provider: PaymentProvider, evt: PaymentWebhookEvent): Promise<boolean> {
+  const payment = evt.payment;
+
+  switch (evt.type) {
+    case "payment.captured": {
+      if (!payment?.providerOrderId) return false;
+      const { notes } = payment;
+
+      if (notes.type === "membership") {
+        if (!notes.userId || !notes.planId) return false;
+        await activatePaidMembership(app.prisma, {
+          userId: notes.userId,
+          planId: notes.planId,
+          previousMembershipId: notes.previousMembershipId || undefined,
+          amountPaid: notes.amountPaid ? Number(notes.amountPaid) : undefined,
+          provider: provider.name,
+          providerOrderId: payment.providerOrderId,
+          providerPaymentId: payment.id,
+        });
+        return true;
+      }
+
+      if (notes.type === "subscription-mandate") {
+        return settleMandateCharge(app.prisma, provider.name, payment, "captured");
+      }
+
+      if (notes.type === "wallet") {
+        if (!notes.userId) return false;
+        await creditWalletTopup(app.prisma, {
+          userId: notes.userId,
+          amountInPaise: payment.amountInPaise,
+          provider: provider.name,
+          providerPaymentId: payment.id,
+          ...(notes.autoTopup ? { description: "Auto top-up" } : {}),
+        });
+        if (notes.walletTopupChargeId) {
+          // An abandoned top-up that captures after all is still credited
+          await app.prisma.walletTopupCharge.updateMany({
+            where: { id: notes.walletTopupChargeId, status: { in: ["PENDING", "ABANDONED"] } },
+            data: { status: "CAPTURED", providerPaymentId: payment.id, failureReason: null },
+          });
+        }
+        return true;
+      }
+
+      const order = await app.prisma.order.findFirst({
+        where: notes.orderId
+          ? { id: notes.orderId }
+          : { paymentProvider: provider.name, providerOrderId: payment.providerOrderId },
+        select: { id: true },
+      });
+      if (!order) return false;
+      await markOrderPaid(
+        app.fcm,
+        app.prisma,
+        order.id,
+        { provider: provider.name, providerPaymentId: payment.id },
+        "Payment captured",
+      );
+      return true;
+    }
+
+    case "payment.failed": {
+      if (!payment?.providerOrderId) return false;
+      if (payment.notes.type === "subscription-mandate") {
+        return settleMandateCharge(app.prisma, provider.name, payment, "failed");
+      }
+      if (payment.notes.type === "wallet") {
+        // Only auto top-ups have a record; a failed checkout recharge has nothing to update
+        if (!payment.notes.walletTopupChargeId) return false;
+        await app.prisma.walletTopupCharge.updateMany({
+          where: { id: payment.notes.walletTopupChargeId, status: "PENDING" },
+          data: { status: "FAILED", providerPaymentId: payment.id, failureReason: "Payment failed" },
+        });
+        return true;
+      }
+      const order = await app.prisma.order.findFirst({
+        where: { paymentProvider: provider.name, providerOrderId: payment.providerOrderId },
+        select: { id: true },
+      });
+      if (!order) return false;
+      await markOrderPaymentFailed(app.prisma, order.id);
+      return true;
+    }
+
+    case "refund.processed":
+    case "refund.failed": {
+      const refund = evt.refund;
+      if (!refund) return false;
+      const refundEvent = {
+        provider: provider.name,
+        id: refund.id,
+        providerPaymentId: refund.providerPaymentId,
+        amountInPaise: refund.amountInPaise,
+        refundId: refund.notes.refundId,
+      };
+      if (evt.type === "refund.failed") {
+        return applyGatewayRefundFailed(app.prisma, refundEvent);
+      }
+      return applyGatewayRefundProcessed(app.prisma, refundEvent);
+    }
+
+    default:
+      return false;
+  }
+}
+
+export async function paymentRoutes(app: FastifyInstance) {
+  // Webhook signatures are computed over the exact bytes the provider sent, so keep the
+  // raw body alongside the parsed JSON. Scoped to this plugin only.
+  app.removeContentTypeParser("application/json");
+  app.addContentTypeParser("application/json", { parseAs: "string" }, (_request, body, done) => {
+    try {
+      done(null, { raw: body as string, json: JSON.parse(body as string) });
+    } catch (err) {
+      done(Object.assign(err as Error, { statusCode: 400 }), undefined);
+    }
+  });
+
+  // ── Provider webhooks ──────────────────────────────
+  // Razorpay posts to /payments/razorpay/webhook, the mock provider to /payments/mock/webhook
+  app.post<{ Params: { provider: string } }>("/:provider/webhook", async (request, reply) => {
+    if (!isPaymentProviderName(request.params.provider)) {
+      return reply.notFound("Unknown payment provider");
+    }
+    const provider = getPaymentProvider(request.params.provider);
+    if (!provider.isWebhookConfigured()) {
+      return reply.status(503).send({
+        success: false,
+        error: "Payment Gateway Unavailable",
+        message: `${provider.name} webhooks are not configured`,
+        statusCode: 503,
+      });
+    }
+
+    const { raw } = request.body as RawJsonBody<unknown>;
+    let evt: PaymentWebhookEvent;
+    try {
+      evt = provider.parseWebhook(raw, request.headers);
+    } catch (err) {
+      return reply.badRequest(err instanceof Error ? err.message : "Invalid webhook");
+    }
+    const { eventId } = evt;
+
+    // Providers retry deliveries until they get a 2xx, reusing the same event id
+    const existing = await app.prisma.paymentWebhookEvent.findUnique({
+      where: { provider_eventId: { provider: provider.name, eventId } },
+    });
+    if (existing && existing.status !== "FAILED") {
+      return { success: true, data: { eventId, status: existing.status, duplicate: true } } satisfies ApiResponse<unknown>;
+    }
+
+    let status: WebhookEventStatus;
+    let error: string | null = null;
+    try {
+      status = (await handlePaymentEvent(app, provider, evt)) ? "PROCESSED" : "IGNORED";
+    } catch (err) {
+      status = "FAILED";
+      error = err instanceof Error ? err.message : String(err);
+      app.log.error({ err, provider: provider.name, eventId, event: evt.event }, "Payment webhook processing failed");
+    }
+
+    await app.prisma.paymentWebhookEvent.upsert({
+      where: { provider_eventId: { provider: provider.name, eventId } },
+      create: {
+        provider: provider.name,
+        eventId,
+        event: evt.event,
+        status,
+        error,
+        payload: evt.payload as Prisma.InputJsonValue,
+        processedAt: new Date(),
+      },
+      update: { status, error, processedAt: new Date() },
+    });
+
+    // Non-2xx makes the provider redeliver the event later
+    if (status === "FAILED") {
+      return reply.status(500).send({
+        success: false,
+        error: "Internal Server Error",
+        message: "Webhook processing failed",
+        statusCode: 500,
+      });
+    }
+
+    return { success: true, data: { eventId, status, duplicate: false } } satisfies ApiResponse<unknown>;
+  });
+
+  // ── Mock provider checkout (dev/tests only) ────────
+  // Stands in for the client checkout sheet: returns the fields the app posts to verify
+  app.post(
+    "/mock/checkout",
+    { preHandler: [authenticate] },
+    async (request, reply) => {
+      if (!mockPaymentProvider.isConfigured()) return reply.notFound("Route not found");
+
+      const { providerOrderId, outcome } =
+        (request.body as RawJsonBody<{ providerOrderId?: string; outcome?: "success" | "failure" }> | undefined)?.json ?? {};
+      if (!providerOrderId) return reply.badRequest("providerOrderId is required");
+
+      const confirmation = mockPaymentProvider.simulateCheckout(providerOrderId, outcome);
+      return {
+        success: true,
+        data: {
+          provider: "mock",
+          provider_order_id: confirmation.providerOrderId,
+          provider_payment_id: confirmation.providerPaymentId,
+          signature: confirmation.signature,
+        },
+      } satisfies ApiResponse<unknown>;
+    },
+  );
+
+  // ── Mock mandate authorization (dev/tests only) ────
+  // Stands in for the UPI AutoPay / card mandate sheet: returns the fields the app posts to confirm
+  app.post(
+    "/mock/mandate",
+    { preHandler: [authenticate] },
+    async (request, reply) => {
+      if (!mockMandateProvider.isConfigured()) return reply.notFound("Route not found");
+
+      const { setupOrderId } =
+        (request.body as RawJsonBody<{ setupOrderId?: string }> | undefined)?.json ?? {};
+      if (!setupOrderId) return reply.badRequest("setupOrderId is required");
+
+      const confirmation = mockMandateProvider.simulateAuthorization(setupOrderId);
+      return {
+        success: true,
+        data: {
+          provider: "mock",
+          provider_order_id: confirmation.providerOrderId,
+          provider_payment_id: confirmation.providerPaymentId,
+          signature: confirmation.signature,
+        },
+      } satisfies ApiResponse<unknown>;
+    },
+  );
+
+  // Make the next charges on a mock mandate token succeed, fail or stay pending
+  app.post(
+    "/mock/mandate/outcome",
+    { preHandler: [authenticate] },
+    async (request, reply) => {
+      if (!mockMandateProvider.isConfigured()) return reply.notFound("Route not found");
+
+      const { token, outcome } =
+        (request.body as RawJsonBody<{ token?: string; outcome?: "success" | "failure" | "pending" }> | undefined)?.json ?? {};
+      if (!token || !outcome || !["success", "failure", "pending"].includes(outcome)) {
+        return reply.badRequest("token and outcome (success, failure or pending) are required");
+      }
+
+      mockMandateProvider.setChargeOutcome(token, outcome);
+      return { success: true, data: { token, outcome } } satisfies ApiResponse<unknown>;
+    },
+  );
+}
@@ -1,5 +1,6 @@
 import type { FastifyInstance } from "fastify";
 import { authenticate } from "../../middleware/auth.js";
+import { gstStateCode } from "../../services/gst.js";
 
 const GOOGLE_API_KEY = process.env.GOOGLE_MAPS_API_KEY ?? "";
 
@@ -41,6 +42,7 @@ export async function placesRoutes(app: FastifyInstance) {
 
     const result = data.result;
     const pinComp = result.address_components.find((c) => c.types.includes("postal_code"));
+    const stateComp = result.address_components.find((c) => c.types.includes("administrative_area_level_1"));
 
     return {
       success: true,
@@ -49,6 +51,7 @@ export async function placesRoutes(app: FastifyInstance) {
         latitude: result.geometry.location.lat,
         longitude: result.geometry.location.lng,
         pincode: pinComp?.long_name ?? null,
+        stateCode: gstStateCode(stateComp?.long_name),
       },
     };
   });
@@ -79,6 +82,7 @@ export async function placesRoutes(app: FastifyInstance) {
       c.types.includes("sublocality_level_1") || c.types.includes("neighborhood"),
     );
     const locality = result.address_components.find((c) => c.types.includes("locality"));
+    const stateComp = result.address_components.find((c) => c.types.includes("administrative_area_level_1"));
 
     return {
       success: true,
@@ -87,6 +91,7 @@ export async function placesRoutes(app: FastifyInstance) {
         latitude: Number(lat),
         longitude: Number(lng),
         pincode: pinComp?.long_name ?? null,
+        stateCode: gstStateCode(stateComp?.long_name),
         placeName: neighborhood?.long_name ?? locality?.long_name ?? null,
       },
     };
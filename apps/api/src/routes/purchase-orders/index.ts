@@ -0,0 +1,429 @@
+import type { FastifyInstance } from "fastify";
+import {
+  createPurchaseOrderSchema,
+  updatePurchaseOrderSchema,
+  draftPurchaseOrderSchema,
+  receivePurchaseOrderSchema,
+} from "@martly/shared/schemas";
+import type { ApiResponse, PaginatedResponse } from "@martly/shared/types";
+import type { Prisma, PurchaseOrderStatus } from "../../../generated/prisma/index.js";
+import { authenticate } from "../../middleware/auth.js";
+import { requireRole } from "../../middleware/authorize.js";
+import { getOrgUser, getOrgStoreIds, verifyStoreOrgAccess } from "../../middleware/org-scope.js";
+import { getReorderSuggestions } from "../../services/demand.js";
+import { adjustStock } from "../../services/stock.js";
+import { createBatch } from "../../services/batches.js";
+
+const OPEN_STATUSES: PurchaseOrderStatus[] = ["DRAFT", "SENT", "PARTIALLY_RECEIVED"];
+
+const poInclude = {
+  store: { select: { id: true, name: true } },
+  supplier: { select: { id: true, name: true, phone: true, email: true } },
+  createdBy: { select: { id: true, name: true } },
+  items: {
+    include: {
+      storeProduct: {
+        select: {
+          id: true,
+          price: true,
+          stock: true,
+          product: { select: { name: true, imageUrl: true } },
+          variant: { select: { name: true, sku: true } },
+        },
+      },
+    },
+  },
+  receipts: {
+    orderBy: { createdAt: "desc" },
+    include: {
+      receivedBy: { select: { id: true, name: true } },
+      items: { select: { purchaseOrderItemId: true, quantity: true } },
+    },
+  },
+} satisfies Prisma.PurchaseOrderInclude;
+
+type PurchaseOrderWithItems = Prisma.PurchaseOrderGetPayload<{ include: typeof poInclude }>;
+
+/** Decimal → number, plus per-line selling price and margin at the current store price */
+function formatPurchaseOrder(po: PurchaseOrderWithItems) {
+  return {
+    ...po,
+    totalCost: Number(po.totalCost),
+    items: po.items.map((item) => {
+      const costPrice = Number(item.costPrice);
+      const sellingPrice = Number(item.storeProduct.price);
+      return {
+        ...item,
+        costPrice,
+        sellingPrice,
+        lineTotal: Math.round(costPrice * item.quantityOrdered * 100) / 100,
+        marginPercent: sellingPrice > 0 ? Math.round(((sellingPrice - costPrice) / sellingPrice) * 1000) / 10 : null,
+        storeProduct: { ...item.storeProduct, price: sellingPrice },
+      };
+    }),
+  };
+}
+
+function totalCostOf(items: { quantity: number; costPrice: number }[]) {
+  return Math.round(items.reduce((sum, i) => sum + i.quantity * i.costPrice, 0) * 100) / 100;
+}
+
+export async function purchaseOrderRoutes(app: FastifyInstance) {
+  const preHandler = [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN", "STORE_MANAGER")];
+
+  /** Check every storeProductId belongs to the PO's store */
+  async function assertStoreProducts(storeId: string, storeProductIds: string[]) {
+    const unique = [...new Set(storeProductIds)];
+    if (unique.length !== storeProductIds.length) {
+      throw Object.assign(new Error("Each product can only appear once per purchase order"), { statusCode: 400 });
+    }
+    const count = await app.prisma.storeProduct.count({ where: { id: { in: unique }, storeId } });
+    if (count !== unique.length) {
+      throw Object.assign(new Error("All products must belong to the purchase order's store"), { statusCode: 400 });
+    }
+  }
+
+  async function assertSupplier(supplierId: string, organizationId: string) {
+    const supplier = await app.prisma.supplier.findUnique({ where: { id: supplierId } });
+    if (!supplier || supplier.organizationId !== organizationId) {
+      throw Object.assign(new Error("Supplier not found"), { statusCode: 404 });
+    }
+    if (!supplier.isActive) {
+      throw Object.assign(new Error("Supplier is inactive"), { statusCode: 400 });
+    }
+  }
+
+  // ── GET / — List purchase orders (org-scoped) ────────
+  app.get("/", { preHandler }, async (request) => {
+    const { page = 1, pageSize = 20, status, storeId, supplierId } = request.query as {
+      page?: number; pageSize?: number; status?: PurchaseOrderStatus; storeId?: string; supplierId?: string;
+    };
+    const skip = (Number(page) - 1) * Number(pageSize);
+
+    const where: Prisma.PurchaseOrderWhereInput = {};
+    const storeIds = await getOrgStoreIds(request, app.prisma);
+    if (storeIds !== undefined) where.storeId = { in: storeIds };
+    if (storeId) where.storeId = storeIds === undefined || storeIds.includes(storeId) ? storeId : { in: [] };
+    if (status) where.status = status;
+    if (supplierId) where.supplierId = supplierId;
+
+    const [purchaseOrders, total] = await Promise.all([
+      app.prisma.purchaseOrder.findMany({
+        where,
+        skip,
+        take: Number(pageSize),
+        orderBy: { createdAt: "desc" },
+        include: {
+          store: { select: { id: true, name: true } },
+          supplier: { select: { id: true, name: true } },
+          _count: { select: { items: true } },
+        },
+      }),
+      app.prisma.purchaseOrder.count({ where }),
+    ]);
+
+    const response: PaginatedResponse<unknown> = {
+      success: true,
+      data: purchaseOrders.map((po) => ({ ...po, totalCost: Number(po.totalCost) })),
+      meta: { total, page: Number(page), pageSize: Number(pageSize), totalPages: Math.ceil(total / Number(pageSize)) },
+    };
+    return response;
+  });
+
+  // ── GET /:id — Purchase order with lines and receipts ─
+  app.get<{ Params: { id: string } }>("/:id", { preHandler }, async (request, reply) => {
+    const po = await app.prisma.purchaseOrder.findUnique({
+      where: { id: request.params.id },
+      include: poInclude,
+    });
+    if (!po) return reply.notFound("Purchase order not found");
+    if (!(await verifyStoreOrgAccess(request, app.prisma, po.storeId))) {
+      return reply.forbidden("Access denied");
+    }
+
+    const response: ApiResponse<ReturnType<typeof formatPurchaseOrder>> = { success: true, data: formatPurchaseOrder(po) };
+    return response;
+  });
+
+  // ── POST / — Create a draft purchase order ───────────
+  app.post("/", { preHandler }, async (request, reply) => {
+    const user = getOrgUser(request);
+    const body = createPurchaseOrderSchema.parse(request.body);
+
+    const store = await app.prisma.store.findUnique({ where: { id: body.storeId } });
+    if (!store) return reply.notFound("Store not found");
+    if (!(await verifyStoreOrgAccess(request, app.prisma, store.id))) {
+      return reply.forbidden("Access denied to this store");
+    }
+    await assertSupplier(body.supplierId, store.organizationId);
+    await assertStoreProducts(store.id, body.items.map((i) => i.storeProductId));
+
+    const po = await app.prisma.purchaseOrder.create({
+      data: {
+        organizationId: store.organizationId,
+        storeId: store.id,
+        supplierId: body.supplierId,
+        expectedDate: body.expectedDate,
+        notes: body.notes,
+        createdById: user.sub,
+        totalCost: totalCostOf(body.items),
+        items: {
+          create: body.items.map((i) => ({
+            storeProductId: i.storeProductId,
+            quantityOrdered: i.quantity,
+            costPrice: i.costPrice,
+          })),
+        },
+      },
+      include: poInclude,
+    });
+
+    const response: ApiResponse<ReturnType<typeof formatPurchaseOrder>> = { success: true, data: formatPurchaseOrder(po) };
+    return response;
+  });
+
+  // ── POST /from-suggestions — Draft a PO from reorder suggestions ──
+  app.post("/from-suggestions", { preHandler }, async (request, reply) => {
+    const user = getOrgUser(request);
+    const body = draftPurchaseOrderSchema.parse(request.body);
+
+    const store = await app.prisma.store.findUnique({ where: { id: body.storeId } });
+    if (!store) return reply.notFound("Store not found");
+    if (!(await verifyStoreOrgAccess(request, app.prisma, store.id))) {
+      return reply.forbidden("Access denied to this store");
+    }
+    await assertSupplier(body.supplierId, store.organizationId);
+
+    const suggestions = await getReorderSuggestions(app.prisma, store.id, body.threshold);
+
+    // Skip products already on an open PO for this store
+    const onOrder = await app.prisma.purchaseOrderItem.findMany({
+      where: {
+        storeProductId: { in: suggestions.map((s) => s.storeProductId) },
+        purchaseOrder: { storeId: store.id, status: { in: OPEN_STATUSES } },
+      },
+      select: { storeProductId: true },
+    });
+    const onOrderIds = new Set(onOrder.map((i) => i.storeProductId));
+    const lines = suggestions.filter((s) => s.suggestedReorderQty > 0 && !onOrderIds.has(s.storeProductId));
+    if (lines.length === 0) return reply.badRequest("No products need reordering");
+
+    // Default each line's cost to the last price paid
+    const storeProducts = await app.prisma.storeProduct.findMany({
+      where: { id: { in: lines.map((l) => l.storeProductId) } },
+      select: { id: true, costPrice: true },
+    });
+    const lastCost = new Map(storeProducts.map((sp) => [sp.id, Number(sp.costPrice ?? 0)]));
+    const items = lines.map((l) => ({
+      storeProductId: l.storeProductId,
+      quantity: l.suggestedReorderQty,
+      costPrice: lastCost.get(l.storeProductId) ?? 0,
+    }));
+
+    const po = await app.prisma.purchaseOrder.create({
+      data: {
+        organizationId: store.organizationId,
+        storeId: store.id,
+        supplierId: body.supplierId,
+        createdById: user.sub,
+        notes: `Drafted from reorder suggestions (${body.threshold}-day threshold)`,
+        totalCost: totalCostOf(items),
+        items: {
+          create: items.map((i) => ({
+            storeProductId: i.storeProductId,
+            quantityOrdered: i.quantity,
+            costPrice: i.costPrice,
+          })),
+        },
+      },
+      include: poInclude,
+    });
+
+    const response: ApiResponse<ReturnType<typeof formatPurchaseOrder>> = { success: true, data: formatPurchaseOrder(po) };
+    return response;
+  });
+
+  // ── PUT /:id — Edit a draft ──────────────────────────
+  app.put<{ Params: { id: string } }>("/:id", { preHandler }, async (request, reply) => {
+    const body = updatePurchaseOrderSchema.parse(request.body);
+    const existing = await app.prisma.purchaseOrder.findUnique({ where: { id: request.params.id } });
+    if (!existing) return reply.notFound("Purchase order not found");
+    if (!(await verifyStoreOrgAccess(request, app.prisma, existing.storeId))) {
+      return reply.forbidden("Access denied");
+    }
+    if (existing.status !== "DRAFT") return reply.badRequest("Only draft purchase orders can be edited");
+
+    if (body.supplierId) await assertSupplier(body.supplierId, existing.organizationId);
+    if (body.items) await assertStoreProducts(existing.storeId, body.items.map((i) => i.storeProductId));
+
+    const po = await app.prisma.$transaction(async (tx) => {
+      if (body.items) {
+        await tx.purchaseOrderItem.deleteMany({ where: { purchaseOrderId: existing.id } });
+        await tx.purchaseOrderItem.createMany({
+          data: body.items.map((i) => ({
+            purchaseOrderId: existing.id,
+            storeProductId: i.storeProductId,
+            quantityOrdered: i.quantity,
+            costPrice: i.costPrice,
+          })),
+        });
+      }
+      return tx.purchaseOrder.update({
+        where: { id: existing.id },
+        data: {
+          supplierId: body.supplierId,
+          expectedDate: body.expectedDate,
+          notes: body.notes,
+          ...(body.items ? { totalCost: totalCostOf(body.items) } : {}),
+        },
+        include: poInclude,
+      });
+    });
+
+    const response: ApiResponse<ReturnType<typeof formatPurchaseOrder>> = { success: true, data: formatPurchaseOrder(po) };
+    return response;
+  });
+
+  // ── POST /:id/send — Mark as sent to the supplier ────
+  app.post<{ Params: { id: string } }>("/:id/send", { preHandler }, async (request, reply) => {
+    const existing = await app.prisma.purchaseOrder.findUnique({ where: { id: request.params.id } });
+    if (!existing) return reply.notFound("Purchase order not found");
+    if (!(await verifyStoreOrgAccess(request, app.prisma, existing.storeId))) {
+      return reply.forbidden("Access denied");
+    }
+    if (existing.status !== "DRAFT") return reply.badRequest(`Cannot send a ${existing.status} purchase order`);
+
+    const po = await app.prisma.purchaseOrder.update({
+      where: { id: existing.id },
+      data: { status: "SENT", sentAt: new Date() },
+      include: poInclude,
+    });
+
+    const response: ApiResponse<ReturnType<typeof formatPurchaseOrder>> = { success: true, data: formatPurchaseOrder(po) };
+    return response;
+  });
+
+  // ── POST /:id/receive — Record a goods receipt ───────
+  app.post<{ Params: { id: string } }>("/:id/receive", { preHandler }, async (request, reply) => {
+    const user = getOrgUser(request);
+    const body = receivePurchaseOrderSchema.parse(request.body);
+
+    const existing = await app.prisma.purchaseOrder.findUnique({
+      where: { id: request.params.id },
+      include: { items: true },
+    });
+    if (!existing) return reply.notFound("Purchase order not found");
+    if (!(await verifyStoreOrgAccess(request, app.prisma, existing.storeId))) {
+      return reply.forbidden("Access denied");
+    }
+    if (existing.status !== "SENT" && existing.status !== "PARTIALLY_RECEIVED") {
+      return reply.badRequest(`Cannot receive a ${existing.status} purchase order`);
+    }
+
+    const lineMap = new Map(existing.items.map((i) => [i.id, i]));
+    const seen = new Set<string>();
+    for (const item of body.items) {
+      const line = lineMap.get(item.purchaseOrderItemId);
+      if (!line) return reply.badRequest(`Item ${item.purchaseOrderItemId} is not on this purchase order`);
+      if (seen.has(line.id)) return reply.badRequest("Each line can only appear once per receipt");
+      seen.add(line.id);
+    }
+
+    const po = await app.prisma.$transaction(async (tx) => {
+      // Re-check under the row lock — the PO may have been cancelled or closed since it was read
+      const open = await tx.purchaseOrder.updateMany({
+        where: { id: existing.id, status: { in: ["SENT", "PARTIALLY_RECEIVED"] } },
+        data: { status: "PARTIALLY_RECEIVED" },
+      });
+      if (open.count === 0) {
+        throw Object.assign(new Error("Purchase order is no longer open for receiving"), { statusCode: 409 });
+      }
+
+      const receipt = await tx.goodsReceipt.create({
+        data: {
+          purchaseOrderId: existing.id,
+          receivedById: user.sub,
+          invoiceNumber: body.invoiceNumber,
+          note: body.note,
+          items: {
+            create: body.items.map((i) => ({ purchaseOrderItemId: i.purchaseOrderItemId, quantity: i.quantity })),
+          },
+        },
+      });
+
+      for (const item of body.items) {
+        const line = lineMap.get(item.purchaseOrderItemId)!;
+
+        // Conditional increment — a concurrent receipt can't push a line past what was ordered
+        const updated = await tx.purchaseOrderItem.updateMany({
+          where: { id: line.id, quantityReceived: { lte: line.quantityOrdered - item.quantity } },
+          data: { quantityReceived: { increment: item.quantity } },
+        });
+        if (updated.count === 0) {
+          throw Object.assign(
+            new Error(`Receiving ${item.quantity} would exceed the ordered quantity for line ${line.id}`),
+            { statusCode: 409 },
+          );
+        }
+
+        await adjustStock(
+          tx,
+          { storeProductId: line.storeProductId, type: "RECEIPT", delta: item.quantity },
+          { goodsReceiptId: receipt.id, actorId: user.sub, note: `PO #${existing.id.slice(0, 8)}` },
+        );
+        await createBatch(tx, {
+          storeProductId: line.storeProductId,
+          quantity: item.quantity,
+          lotNumber: item.lotNumber,
+          expiryDate: item.expiryDate,
+          goodsReceiptId: receipt.id,
+        });
+        await tx.storeProduct.update({
+          where: { id: line.storeProductId },
+          data: { costPrice: line.costPrice },
+        });
+      }
+
+      const lines = await tx.purchaseOrderItem.findMany({
+        where: { purchaseOrderId: existing.id },
+        select: { quantityOrdered: true, quantityReceived: true },
+      });
+      const complete = lines.every((l) => l.quantityReceived >= l.quantityOrdered);
+
+      return tx.purchaseOrder.update({
+        where: { id: existing.id },
+        data: complete
+          ? { status: "RECEIVED", receivedAt: new Date() }
+          : { status: "PARTIALLY_RECEIVED" },
+        include: poInclude,
+      });
+    });
+
+    const response: ApiResponse<ReturnType<typeof formatPurchaseOrder>> = { success: true, data: formatPurchaseOrder(po) };
+    return response;
+  });
+
+  // ── POST /:id/cancel — Cancel (or short-close a partially received PO) ──
+  app.post<{ Params: { id: string } }>("/:id/cancel", { preHandler }, async (request, reply) => {
+    const existing = await app.prisma.purchaseOrder.findUnique({ where: { id: request.params.id } });
+    if (!existing) return reply.notFound("Purchase order not found");
+    if (!(await verifyStoreOrgAccess(request, app.prisma, existing.storeId))) {
+      return reply.forbidden("Access denied");
+    }
+    if (!OPEN_STATUSES.includes(existing.status)) {
+      return reply.badRequest(`Cannot cancel a ${existing.status} purchase order`);
+    }
+
+    // Conditional so a receipt committed in the meantime isn't overwritten
+    const cancelled = await app.prisma.purchaseOrder.updateMany({
+      where: { id: existing.id, status: { in: OPEN_STATUSES } },
+      data: { status: "CANCELLED", cancelledAt: new Date() },
+    });
+    if (cancelled.count === 0) return reply.conflict("Purchase order is no longer open");
+
+    const po = await app.prisma.purchaseOrder.findUniqueOrThrow({ where: { id: existing.id }, include: poInclude });
+
+    const response: ApiResponse<ReturnType<typeof formatPurchaseOrder>> = { success: true, data: formatPurchaseOrder(po) };
+    return response;
+  });
+}
@@ -5,7 +5,8 @@ import type { ApiResponse, PaginatedResponse } from "@martly/shared/types";
 import { authenticate } from "../../middleware/auth.js";
 import { requireRole } from "../../middleware/authorize.js";
 import { getOrgUser, getOrgStoreIds } from "../../middleware/org-scope.js";
-import { sendWalletNotification } from "../../services/notification.js";
+import { createOrderRefunds, processRefund, sendRefundNotifications } from "../../services/refund.js";
+import { returnStock } from "../../services/stock.js";
 
 export async function returnRequestRoutes(app: FastifyInstance) {
   // ── POST / — Customer creates a return request ─────────────
@@ -171,8 +172,20 @@ export async function returnRequestRoutes(app: FastifyInstance) {
     const returnRequest = await app.prisma.returnRequest.findUnique({
       where: { id: request.params.id },
       include: {
-        order: { select: { id: true, totalAmount: true, createdAt: true, status: true } },
+        order: {
+          select: {
+            id: true, totalAmount: true, createdAt: true, status: true, paymentMethod: true, paymentStatus: true,
+            // Handoff evidence for "not received" / "wrong item" claims
+            deliveryProof: {
+              select: {
+                otpVerifiedAt: true, photoUrl: true, deliveredAt: true, deliveredLat: true, deliveredLng: true,
+                rider: { select: { id: true, name: true } },
+              },
+            },
+          },
+        },
         user: { select: { id: true, name: true, email: true, phone: true } },
+        refunds: { orderBy: { createdAt: "asc" } },
         store: { select: { id: true, name: true } },
         items: { include: { orderItem: { include: { product: true, variant: true } } } },
       },
@@ -191,7 +204,7 @@ export async function returnRequestRoutes(app: FastifyInstance) {
 
     const returnRequest = await app.prisma.returnRequest.findUnique({
       where: { id: request.params.id },
-      include: { order: true },
+      include: { order: true, items: { include: { orderItem: { select: { storeProductId: true } } } } },
     });
 
     if (!returnRequest) return reply.notFound("Return request not found");
@@ -207,9 +220,10 @@ export async function returnRequestRoutes(app: FastifyInstance) {
     if (body.status === "APPROVED") {
       const approvedAmount = body.approvedAmount ?? Number(returnRequest.requestedAmount);
 
-      const result = await app.prisma.$transaction(async (tx) => {
-        const updated = await tx.returnRequest.update({
-          where: { id: request.params.id },
+      const { updated: result, refundPlan } = await app.prisma.$transaction(async (tx) => {
+        // Claim the request, so a concurrent resolve can't refund it a second time
+        const claimed = await tx.returnRequest.updateMany({
+          where: { id: request.params.id, status: "PENDING" },
           data: {
             status: "APPROVED",
             approvedAmount,
@@ -218,43 +232,45 @@ export async function returnRequestRoutes(app: FastifyInstance) {
             resolvedBy: user.sub,
           },
         });
-
-        // Wallet refund
-        const updatedUser = await tx.user.update({
-          where: { id: returnRequest.userId },
-          data: { walletBalance: { increment: approvedAmount } },
-        });
-        await tx.walletTransaction.create({
-          data: {
-            userId: returnRequest.userId,
-            orderId: returnRequest.orderId,
-            type: "CREDIT",
-            amount: approvedAmount,
-            balanceAfter: Number(updatedUser.walletBalance),
-            description: `Refund for return request on order #${returnRequest.orderId.slice(0, 8)}`,
-          },
+        if (claimed.count === 0) {
+          throw Object.assign(new Error("Return request has already been resolved"), { statusCode: 409 });
+        }
+        const updated = await tx.returnRequest.findUniqueOrThrow({ where: { id: request.params.id } });
+
+        const refundPlan = await createOrderRefunds(tx, returnRequest.order, {
+          amount: approvedAmount,
+          destination: body.refundDestination,
+          reason: `Refund for return request on order #${returnRequest.orderId.slice(0, 8)}`,
+          returnRequestId: returnRequest.id,
         });
 
-        return updated;
+        // Returned goods the store can sell again go back on the shelf
+        if (body.restock) {
+          await returnStock(
+            tx,
+            returnRequest.items.map((i) => ({ storeProductId: i.orderItem.storeProductId, quantity: i.quantity })),
+            { orderId: returnRequest.orderId, returnRequestId: returnRequest.id, actorId: user.sub, note: "Returned by customer" },
+          );
+        }
+
+        return { updated, refundPlan };
       });
 
+      // Source refunds go to the gateway after commit; failures are retried by the refund scheduler
+      for (const refund of refundPlan.refunds) {
+        if (refund.destination === "SOURCE") await processRefund(app.prisma, refund.id);
+      }
+
       // Fire-and-forget notification
-      sendWalletNotification(
-        app.fcm,
-        app.prisma,
-        returnRequest.userId,
-        "CREDIT",
-        approvedAmount,
-        `Refund approved for order #${returnRequest.orderId.slice(0, 8)}`,
-      );
+      sendRefundNotifications(app.fcm, app.prisma, returnRequest.userId, returnRequest.orderId, refundPlan);
 
       return { success: true, data: result } satisfies ApiResponse<typeof result>;
     } else {
       // REJECTED
       if (!body.adminNote) return reply.badRequest("Admin note is required when rejecting");
 
-      const updated = await app.prisma.returnRequest.update({
-        where: { id: request.params.id },
+      const claimed = await app.prisma.returnRequest.updateMany({
+        where: { id: request.params.id, status: "PENDING" },
         data: {
           status: "REJECTED",
           adminNote: body.adminNote,
@@ -262,6 +278,8 @@ export async function returnRequestRoutes(app: FastifyInstance) {
           resolvedBy: user.sub,
         },
       });
+      if (claimed.count === 0) return reply.conflict("Return request has already been resolved");
+      const updated = await app.prisma.returnRequest.findUniqueOrThrow({ where: { id: request.params.id } });
 
       return { success: true, data: updated } satisfies ApiResponse<typeof updated>;
     }
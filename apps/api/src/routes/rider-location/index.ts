@@ -1,10 +1,18 @@
 import type { FastifyInstance } from "fastify";
 import type { ApiResponse } from "@martly/shared/types";
+import { deliverOrderSchema } from "@martly/shared/schemas";
 import { authenticate } from "../../middleware/auth.js";
 import { requireRole } from "../../middleware/authorize.js";
 import { getOrgUser } from "../../middleware/org-scope.js";
 import { broadcastRiderLocation, broadcastToTripSubscribers } from "../../services/ws-manager.js";
 import { haversine, getDirectionsRoute, type DirectionsResult } from "../../lib/geo.js";
+import { deductStock } from "../../services/stock.js";
+import { issueInvoice } from "../../services/invoice.js";
+import { verifyDeliveryOtp, recordDeliveryProof } from "../../services/delivery-proof.js";
+import { recordTripPing, forgetTripPings, getLatestTripPing } from "../../services/trip-track.js";
+import { loadEtaModel, estimateRoute } from "../../services/eta-model.js";
+import { recordTripEarning } from "../../services/rider-earnings.js";
+import { recordCodCollection } from "../../services/cod-ledger.js";
 
 // In-memory store for rider locations (keyed by tripId)
 const riderLocations = new Map<string, {
@@ -30,9 +38,11 @@ export function storeRiderLocation(tripId: string, data: { riderId?: string; lat
   });
 }
 
+const LOCATION_TTL_MS = 10 * 60 * 1000;
+
 /** Clean up stale locations older than 10 minutes */
 setInterval(() => {
-  const cutoff = Date.now() - 10 * 60 * 1000;
+  const cutoff = Date.now() - LOCATION_TTL_MS;
   for (const [tripId, loc] of riderLocations) {
     if (new Date(loc.updatedAt).getTime() < cutoff) {
       riderLocations.delete(tripId);
@@ -40,9 +50,14 @@ setInterval(() => {
   }
 }, 60_000);
 
+interface RouteEstimate extends DirectionsResult {
+  /** GOOGLE when from Directions, MODEL when estimated from the store's trip history */
+  source: "GOOGLE" | "MODEL";
+}
+
 // In-memory route cache (keyed by tripId)
 interface RouteCacheEntry {
-  result: DirectionsResult;
+  result: RouteEstimate;
   originLat: number;
   originLng: number;
   stopCount: number;
@@ -63,6 +78,27 @@ setInterval(() => {
 const riderAuth = [authenticate, requireRole("RIDER", "STAFF", "STORE_MANAGER", "ORG_ADMIN", "SUPER_ADMIN")];
 
 export async function riderLocationRoutes(app: FastifyInstance) {
+  /**
+   * Live location from memory, falling back to the last stored breadcrumb when
+   * this instance hasn't seen the rider (after a restart, or pings landing elsewhere).
+   */
+  const getRiderLocation = async (tripId: string) => {
+    const live = riderLocations.get(tripId);
+    if (live) return live;
+    const ping = await getLatestTripPing(app.prisma, tripId, LOCATION_TTL_MS);
+    if (!ping) return undefined;
+    const trip = await app.prisma.deliveryTrip.findUnique({ where: { id: tripId }, select: { riderId: true } });
+    return {
+      riderId: trip?.riderId ?? "",
+      tripId,
+      lat: ping.lat,
+      lng: ping.lng,
+      heading: ping.heading,
+      speed: ping.speed,
+      updatedAt: ping.recordedAt.toISOString(),
+    };
+  };
+
   /**
    * POST /rider-location
    * Rider pushes GPS update for their active trip.
@@ -103,8 +139,9 @@ export async function riderLocationRoutes(app: FastifyInstance) {
       updatedAt: new Date().toISOString(),
     };
 
-    // Store in memory
+    // Store in memory, and as a breadcrumb for replay
     riderLocations.set(tripId, location);
+    recordTripPing(app.prisma, tripId, user.sub, { lat, lng, heading, speed }).catch(() => {});
 
     // Broadcast to subscribed customers via WebSocket
     broadcastRiderLocation(tripId, {
@@ -135,7 +172,7 @@ export async function riderLocationRoutes(app: FastifyInstance) {
       if (!orderInTrip) return reply.forbidden("Access denied");
     }
 
-    const location = riderLocations.get(tripId);
+    const location = await getRiderLocation(tripId);
     if (!location) {
       return { success: true, data: null } satisfies ApiResponse<null>;
     }
@@ -166,6 +203,7 @@ export async function riderLocationRoutes(app: FastifyInstance) {
           deliveryLat: true,
           deliveryLng: true,
           deliverySequence: true,
+          deliveryProof: { select: { otp: true, otpVerifiedAt: true } },
           store: { select: { name: true, latitude: true, longitude: true } },
           deliveryTrip: {
             select: {
@@ -198,7 +236,7 @@ export async function riderLocationRoutes(app: FastifyInstance) {
         return { success: true, data: null } satisfies ApiResponse<null>;
       }
 
-      const location = riderLocations.get(order.deliveryTripId);
+      const location = await getRiderLocation(order.deliveryTripId);
 
       // Build anonymized remaining stops
       const tripOrders = order.deliveryTrip.orders;
@@ -229,6 +267,10 @@ export async function riderLocationRoutes(app: FastifyInstance) {
           deliveryAddress: order.deliveryAddress,
           deliveryLat: order.deliveryLat,
           deliveryLng: order.deliveryLng,
+          // Only the customer sees the handoff code; staff confirm through the rider
+          deliveryOtp: order.userId === user.sub && !order.deliveryProof?.otpVerifiedAt
+            ? order.deliveryProof?.otp ?? null
+            : null,
           remainingStops,
           customerStopNumber,
           totalStops: remainingStops.length,
@@ -240,7 +282,9 @@ export async function riderLocationRoutes(app: FastifyInstance) {
   /**
    * GET /rider-location/route/by-order/:orderId
    * Customer fetches the driving route polyline for their delivery.
-   * Returns polyline coordinates, legs with duration/distance, and totals.
+   * Returns polyline coordinates, legs with duration/distance, and totals, plus
+   * customerEtaSeconds up to this order's stop. Without Google Maps the legs are
+   * timed by the store's ETA model and there is no polyline.
    * Cached in-memory: reuses cache if <60s old, rider moved <500m, same stop count.
    */
   app.get<{ Params: { orderId: string } }>(
@@ -262,6 +306,7 @@ export async function riderLocationRoutes(app: FastifyInstance) {
           deliveryTrip: {
             select: {
               id: true,
+              storeId: true,
               status: true,
               orders: {
                 where: { status: "OUT_FOR_DELIVERY" },
@@ -287,7 +332,7 @@ export async function riderLocationRoutes(app: FastifyInstance) {
       }
 
       const tripId = order.deliveryTrip.id;
-      const riderLoc = riderLocations.get(tripId);
+      const riderLoc = await getRiderLocation(tripId);
       if (!riderLoc) {
         return { success: true, data: null } satisfies ApiResponse<null>;
       }
@@ -306,20 +351,34 @@ export async function riderLocationRoutes(app: FastifyInstance) {
         ? stops.slice(0, -1).map((s) => ({ lat: s.deliveryLat!, lng: s.deliveryLng! }))
         : undefined;
 
+      // ETA to this customer's stop; stops after it don't delay them
+      const customerStop = stops.findIndex((s) => s.id === order.id);
+      const withCustomerEta = (result: RouteEstimate) => ({
+        ...result,
+        customerEtaSeconds: customerStop >= 0
+          ? result.legs.slice(0, customerStop + 1).reduce((sum, l) => sum + l.durationSeconds, 0)
+          : null,
+      });
+
       // Check route cache
       const cached = routeCache.get(tripId);
       if (cached) {
         const age = Date.now() - cached.cachedAt;
         const riderMoved = haversine(cached.originLat, cached.originLng, origin.lat, origin.lng);
         if (age < 60_000 && riderMoved < 0.5 && cached.stopCount === stops.length) {
-          return { success: true, data: cached.result };
+          return { success: true, data: withCustomerEta(cached.result) };
         }
       }
 
-      // Fetch fresh route from Google Directions
-      const result = await getDirectionsRoute(origin, destination, waypoints);
-      if (!result) {
-        return { success: true, data: null } satisfies ApiResponse<null>;
+      // Fetch fresh route from Google Directions, or estimate it from trip history
+      const directions = await getDirectionsRoute(origin, destination, waypoints);
+      let result: RouteEstimate;
+      if (directions) {
+        result = { ...directions, source: "GOOGLE" };
+      } else {
+        const model = await loadEtaModel(app.prisma, order.deliveryTrip.storeId);
+        const points = [origin, ...stops.map((s) => ({ lat: s.deliveryLat!, lng: s.deliveryLng! }))];
+        result = { ...estimateRoute(model, points), source: "MODEL" };
       }
 
       // Cache the result
@@ -331,7 +390,7 @@ export async function riderLocationRoutes(app: FastifyInstance) {
         cachedAt: Date.now(),
       });
 
-      return { success: true, data: result };
+      return { success: true, data: withCustomerEta(result) };
     },
   );
 
@@ -371,6 +430,7 @@ export async function riderLocationRoutes(app: FastifyInstance) {
             paymentMethod: true,
             paymentStatus: true,
             createdAt: true,
+            deliveryProof: { select: { otp: true, photoUrl: true } },
             user: { select: { id: true, name: true, phone: true } },
             items: {
               select: {
@@ -386,12 +446,23 @@ export async function riderLocationRoutes(app: FastifyInstance) {
       orderBy: { createdAt: "desc" },
     });
 
-    return { success: true, data: trips };
+    // Riders learn whether a code is needed, never the code itself
+    const data = trips.map((trip) => ({
+      ...trip,
+      orders: trip.orders.map(({ deliveryProof, ...o }) => ({
+        ...o,
+        otpRequired: !!deliveryProof?.otp,
+        proofPhotoUrl: deliveryProof?.photoUrl ?? null,
+      })),
+    }));
+
+    return { success: true, data };
   });
 
   /**
    * PATCH /rider-location/trips/:tripId/deliver/:orderId
    * Rider marks a single order in their trip as DELIVERED.
+   * Orders with a delivery OTP need the customer's code; a photo is optional.
    * If all orders in the trip are delivered, completes the trip.
    */
   app.patch<{ Params: { tripId: string; orderId: string } }>(
@@ -400,11 +471,11 @@ export async function riderLocationRoutes(app: FastifyInstance) {
     async (request, reply) => {
       const { tripId, orderId } = request.params;
       const user = getOrgUser(request);
-      const body = (request.body ?? {}) as { collectedAmount?: number; codNote?: string };
+      const body = deliverOrderSchema.parse(request.body ?? {});
 
       const trip = await app.prisma.deliveryTrip.findUnique({
         where: { id: tripId },
-        include: { orders: { select: { id: true, status: true } } },
+        include: { orders: { select: { id: true, status: true, paymentMethod: true, paymentStatus: true } } },
       });
       if (!trip) return reply.notFound("Trip not found");
       if (trip.riderId !== user.sub) return reply.forbidden("Not your trip");
@@ -416,19 +487,45 @@ export async function riderLocationRoutes(app: FastifyInstance) {
         return reply.badRequest(`Order is ${order.status}, expected OUT_FOR_DELIVERY`);
       }
 
+      // Outside the transaction so wrong attempts are counted even though delivery fails
+      const otpVerified = await verifyDeliveryOtp(app.prisma, orderId, body.otp);
+      const location = await getRiderLocation(tripId);
+
       const result = await app.prisma.$transaction(async (tx) => {
-        await tx.order.update({
+        const isCod = order.paymentMethod === "COD";
+        const delivered = await tx.order.update({
           where: { id: orderId },
-          data: { status: "DELIVERED" },
+          data: {
+            status: "DELIVERED",
+            ...(isCod && order.paymentStatus === "PENDING" ? { paymentStatus: "PAID" as const } : {}),
+          },
+          include: { items: { select: { storeProductId: true, quantity: true } } },
         });
+        if (isCod) {
+          await recordCodCollection(tx, orderId, {
+            riderId: user.sub,
+            collectedAmount: body.collectedAmount,
+            note: body.codNote,
+          });
+        }
+        await deductStock(tx, delivered.items, { orderId, actorId: user.sub, note: "Delivered by rider" });
+        await issueInvoice(tx, orderId);
         // Build delivery note with COD info if applicable
         const noteParts = ["Delivered by rider"];
         if (body.collectedAmount != null) {
           noteParts.push(`COD collected: \u20B9${body.collectedAmount}`);
         }
+        if (otpVerified) noteParts.push("OTP verified");
+        if (body.photoUrl) noteParts.push("Photo attached");
         if (body.codNote) {
           noteParts.push(`Note: ${body.codNote}`);
         }
+        await recordDeliveryProof(tx, orderId, {
+          riderId: user.sub,
+          photoUrl: body.photoUrl,
+          lat: location?.lat,
+          lng: location?.lng,
+        });
         await tx.orderStatusLog.create({
           data: { orderId, status: "DELIVERED", note: noteParts.join(". ") },
         });
@@ -440,8 +537,10 @@ export async function riderLocationRoutes(app: FastifyInstance) {
             where: { id: tripId },
             data: { status: "COMPLETED", completedAt: new Date() },
           });
+          await recordTripEarning(tx, tripId);
           // Clean up location
           riderLocations.delete(tripId);
+          forgetTripPings(tripId);
         }
 
         return { allDelivered: remaining.length === 0 };
@@ -0,0 +1,94 @@
+import type { FastifyInstance } from "fastify";
+import type { ApiResponse } from "@martly/shared/types";
+import { riderClockInSchema } from "@martly/shared/schemas";
+import { authenticate } from "../../middleware/auth.js";
+import { requireRole } from "../../middleware/authorize.js";
+import { getOrgUser } from "../../middleware/org-scope.js";
+import { getOpenShift, getRiderStatement, statementPeriod } from "../../services/rider-earnings.js";
+
+const riderOnly = [authenticate, requireRole("RIDER")];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function riderShiftRoutes(app: FastifyInstance) {
+  // GET /current — The rider's open shift, null when offline
+  app.get("/current", { preHandler: riderOnly }, async (request) => {
+    const user = getOrgUser(request);
+    const shift = await getOpenShift(app.prisma, user.sub);
+    const response: ApiResponse<typeof shift> = { success: true, data: shift };
+    return response;
+  });
+
+  // POST /clock-in — Go online at one of the rider's stores
+  app.post("/clock-in", { preHandler: riderOnly }, async (request, reply) => {
+    const user = getOrgUser(request);
+    const body = riderClockInSchema.parse(request.body ?? {});
+
+    const existing = await getOpenShift(app.prisma, user.sub);
+    if (existing) {
+      const response: ApiResponse<typeof existing> = { success: true, data: existing };
+      return response;
+    }
+
+    const assignments = await app.prisma.userStore.findMany({
+      where: { userId: user.sub },
+      select: { storeId: true },
+    });
+    let storeId = body.storeId;
+    if (storeId) {
+      if (!assignments.some((a) => a.storeId === storeId)) return reply.forbidden("You are not assigned to this store");
+    } else {
+      if (assignments.length === 0) return reply.badRequest("You are not assigned to a store");
+      if (assignments.length > 1) return reply.badRequest("storeId is required");
+      storeId = assignments[0].storeId;
+    }
+
+    const shift = await app.prisma.riderShift.create({
+      data: { riderId: user.sub, storeId },
+      include: { store: { select: { id: true, name: true } } },
+    });
+
+    const response: ApiResponse<typeof shift> = { success: true, data: shift };
+    return response;
+  });
+
+  // POST /clock-out — Go offline. Not allowed with a trip still to finish.
+  app.post("/clock-out", { preHandler: riderOnly }, async (request, reply) => {
+    const user = getOrgUser(request);
+
+    const shift = await getOpenShift(app.prisma, user.sub);
+    if (!shift) return reply.badRequest("You are not clocked in");
+
+    const activeTrips = await app.prisma.deliveryTrip.count({
+      where: { riderId: user.sub, status: { in: ["CREATED", "IN_PROGRESS"] } },
+    });
+    if (activeTrips > 0) {
+      throw Object.assign(
+        new Error(`You have ${activeTrips} active trip(s). Finish them before clocking out.`),
+        { statusCode: 409 },
+      );
+    }
+
+    const ended = await app.prisma.riderShift.update({
+      where: { id: shift.id },
+      data: { endedAt: new Date() },
+      include: { store: { select: { id: true, name: true } } },
+    });
+
+    const response: ApiResponse<typeof ended> = { success: true, data: ended };
+    return response;
+  });
+
+  // GET /earnings?from=YYYY-MM-DD&to=YYYY-MM-DD — The rider's own statement (default: last 7 days)
+  app.get("/earnings", { preHandler: riderOnly }, async (request, reply) => {
+    const user = getOrgUser(request);
+    const { from, to } = request.query as { from?: string; to?: string };
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return reply.badRequest("from and to must be YYYY-MM-DD");
+    }
+
+    const statement = await getRiderStatement(app.prisma, user.sub, statementPeriod(from, to));
+    const response: ApiResponse<typeof statement> = { success: true, data: statement };
+    return response;
+  });
+}
@@ -1,15 +1,20 @@
 import type { FastifyInstance } from "fastify";
 import type { ApiResponse } from "@martly/shared/types";
-import { createRiderSchema, updateRiderSchema } from "@martly/shared/schemas";
+import { createRiderPayoutSchema, createRiderSchema, riderEarningsRuleSchema, updateRiderSchema } from "@martly/shared/schemas";
 import bcrypt from "bcryptjs";
 import { authenticate } from "../../middleware/auth.js";
 import { requireRole } from "../../middleware/authorize.js";
 import { getOrgUser, verifyStoreOrgAccess } from "../../middleware/org-scope.js";
+import { getEarningsRule, getOnlineRiders, getRiderStatement, statementPeriod } from "../../services/rider-earnings.js";
+import { endOfDayUTC, parseDate, startOfDayIST } from "../../utils/timezone.js";
 
 const auth = [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN", "STORE_MANAGER")];
+const payAuth = [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN")];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
 export async function riderRoutes(app: FastifyInstance) {
-  // List riders for a store (with trip stats)
+  // List riders for a store (with trip stats, shift status and unpaid earnings)
   app.get("/", { preHandler: auth }, async (request, reply) => {
     const { storeId } = request.query as { storeId?: string };
     if (!storeId) return reply.badRequest("storeId is required");
@@ -19,7 +24,7 @@ export async function riderRoutes(app: FastifyInstance) {
     }
 
     const userStores = await app.prisma.userStore.findMany({
-      where: { storeId },
+      where: { storeId, user: { role: "RIDER" } },
       include: {
         user: {
           select: { id: true, name: true, phone: true, email: true, createdAt: true },
@@ -51,6 +56,16 @@ export async function riderRoutes(app: FastifyInstance) {
       }
     }
 
+    const [online, unpaid] = await Promise.all([
+      getOnlineRiders(app.prisma, storeId),
+      app.prisma.riderTripEarning.groupBy({
+        by: ["riderId"],
+        where: { riderId: { in: riderIds }, storeId, payoutId: null },
+        _sum: { totalAmount: true },
+      }),
+    ]);
+    const unpaidMap = new Map(unpaid.map((row) => [row.riderId, Number(row._sum.totalAmount ?? 0)]));
+
     const riders = userStores.map((us) => ({
       id: us.user.id,
       name: us.user.name,
@@ -58,11 +73,118 @@ export async function riderRoutes(app: FastifyInstance) {
       email: us.user.email,
       createdAt: us.user.createdAt,
       tripStats: statsMap[us.user.id] ?? { total: 0, active: 0, completed: 0 },
+      online: online.has(us.user.id),
+      shiftStartedAt: online.get(us.user.id) ?? null,
+      unpaidEarnings: unpaidMap.get(us.user.id) ?? 0,
     }));
 
     return { success: true, data: riders } satisfies ApiResponse<typeof riders>;
   });
 
+  // Per-trip earnings rule for a store (zeros until set)
+  app.get("/earnings-rule", { preHandler: auth }, async (request, reply) => {
+    const { storeId } = request.query as { storeId?: string };
+    if (!storeId) return reply.badRequest("storeId is required");
+
+    if (!(await verifyStoreOrgAccess(request, app.prisma, storeId))) {
+      return reply.forbidden("Access denied");
+    }
+
+    const rule = await getEarningsRule(app.prisma, storeId);
+    return { success: true, data: rule } satisfies ApiResponse<typeof rule>;
+  });
+
+  // Set the earnings rule — applies to trips completed from now on
+  app.put("/earnings-rule", { preHandler: payAuth }, async (request, reply) => {
+    const { storeId } = request.query as { storeId?: string };
+    if (!storeId) return reply.badRequest("storeId is required");
+
+    if (!(await verifyStoreOrgAccess(request, app.prisma, storeId))) {
+      return reply.forbidden("Access denied");
+    }
+
+    const body = riderEarningsRuleSchema.parse(request.body);
+    await app.prisma.riderEarningsRule.upsert({
+      where: { storeId },
+      create: { storeId, ...body },
+      update: body,
+    });
+
+    const rule = await getEarningsRule(app.prisma, storeId);
+    return { success: true, data: rule } satisfies ApiResponse<typeof rule>;
+  });
+
+  // Payout statement: shifts, trip earnings and payouts over a period (default: last 7 days)
+  app.get<{ Params: { id: string } }>("/:id/statement", { preHandler: auth }, async (request, reply) => {
+    const { storeId, from, to } = request.query as { storeId?: string; from?: string; to?: string };
+    if (!storeId) return reply.badRequest("storeId is required");
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return reply.badRequest("from and to must be YYYY-MM-DD");
+    }
+
+    if (!(await verifyStoreOrgAccess(request, app.prisma, storeId))) {
+      return reply.forbidden("Access denied");
+    }
+
+    const rider = await app.prisma.user.findFirst({
+      where: { id: request.params.id, userStores: { some: { storeId } } },
+      select: { id: true, name: true, phone: true, email: true },
+    });
+    if (!rider) return reply.notFound("Rider not found at this store");
+
+    const statement = await getRiderStatement(app.prisma, rider.id, { ...statementPeriod(from, to), storeId });
+    const data = { rider, ...statement };
+    return { success: true, data } satisfies ApiResponse<typeof data>;
+  });
+
+  // Pay out a rider's unpaid trip earnings at a store
+  app.post<{ Params: { id: string } }>("/:id/payouts", { preHandler: payAuth }, async (request, reply) => {
+    const { storeId } = request.query as { storeId?: string };
+    if (!storeId) return reply.badRequest("storeId is required");
+
+    if (!(await verifyStoreOrgAccess(request, app.prisma, storeId))) {
+      return reply.forbidden("Access denied");
+    }
+
+    const assignment = await app.prisma.userStore.findUnique({
+      where: { userId_storeId: { userId: request.params.id, storeId } },
+    });
+    if (!assignment) return reply.notFound("Rider not found at this store");
+
+    const body = createRiderPayoutSchema.parse(request.body);
+    const upTo = body.upTo ? startOfDayIST(endOfDayUTC(parseDate(body.upTo))) : new Date();
+
+    const payout = await app.prisma.$transaction(async (tx) => {
+      const unpaid = await tx.riderTripEarning.findMany({
+        where: { riderId: request.params.id, storeId, payoutId: null, createdAt: { lte: upTo } },
+        select: { id: true, totalAmount: true },
+      });
+      if (unpaid.length === 0) {
+        throw Object.assign(new Error("No unpaid earnings to pay out"), { statusCode: 400 });
+      }
+
+      const amount = Math.round(unpaid.reduce((sum, e) => sum + Number(e.totalAmount), 0) * 100) / 100;
+      const created = await tx.riderPayout.create({
+        data: {
+          riderId: request.params.id,
+          storeId,
+          amount,
+          reference: body.reference,
+          note: body.note,
+          paidById: getOrgUser(request).sub,
+        },
+      });
+      await tx.riderTripEarning.updateMany({
+        where: { id: { in: unpaid.map((e) => e.id) } },
+        data: { payoutId: created.id },
+      });
+
+      return { ...created, amount, trips: unpaid.length };
+    });
+
+    return { success: true, data: payout } satisfies ApiResponse<typeof payout>;
+  });
+
   // Add a new rider
   app.post("/", { preHandler: auth }, async (request, reply) => {
     const body = createRiderSchema.parse(request.body);
@@ -0,0 +1,307 @@
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import { createStockTransferSchema } from "@martly/shared/schemas";
+import type { ApiResponse, PaginatedResponse } from "@martly/shared/types";
+import type { Prisma, StockTransferStatus } from "../../../generated/prisma/index.js";
+import { authenticate } from "../../middleware/auth.js";
+import { requireRole } from "../../middleware/authorize.js";
+import { getOrgUser, getOrgStoreIds, verifyStoreOrgAccess } from "../../middleware/org-scope.js";
+import { transferInStock, transferOutStock } from "../../services/stock.js";
+import { createBatch } from "../../services/batches.js";
+
+const transferInclude = {
+  sourceStore: { select: { id: true, name: true } },
+  destinationStore: { select: { id: true, name: true } },
+  requestedBy: { select: { id: true, name: true } },
+  dispatchedBy: { select: { id: true, name: true } },
+  receivedBy: { select: { id: true, name: true } },
+  items: {
+    include: {
+      variant: { select: { id: true, name: true, sku: true } },
+      sourceStoreProduct: {
+        select: {
+          id: true,
+          stock: true,
+          reservedStock: true,
+          product: { select: { name: true, imageUrl: true } },
+        },
+      },
+      destinationStoreProduct: { select: { id: true, stock: true } },
+    },
+  },
+} satisfies Prisma.StockTransferInclude;
+
+type StockTransferWithItems = Prisma.StockTransferGetPayload<{ include: typeof transferInclude }>;
+
+export async function stockTransferRoutes(app: FastifyInstance) {
+  const preHandler = [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN", "STORE_MANAGER")];
+
+  /** Either side of the transfer is enough to view, request or cancel it */
+  async function canAccessTransfer(
+    request: FastifyRequest,
+    transfer: { sourceStoreId: string; destinationStoreId: string },
+  ) {
+    return (
+      (await verifyStoreOrgAccess(request, app.prisma, transfer.sourceStoreId)) ||
+      (await verifyStoreOrgAccess(request, app.prisma, transfer.destinationStoreId))
+    );
+  }
+
+  // ── GET / — List transfers touching the user's stores ─
+  app.get("/", { preHandler }, async (request) => {
+    const { page = 1, pageSize = 20, status, storeId, direction } = request.query as {
+      page?: number; pageSize?: number; status?: StockTransferStatus; storeId?: string; direction?: "in" | "out";
+    };
+    const skip = (Number(page) - 1) * Number(pageSize);
+
+    const conditions: Prisma.StockTransferWhereInput[] = [];
+    const storeIds = await getOrgStoreIds(request, app.prisma);
+    if (storeIds !== undefined) {
+      conditions.push({ OR: [{ sourceStoreId: { in: storeIds } }, { destinationStoreId: { in: storeIds } }] });
+    }
+    if (storeId) {
+      if (direction === "out") conditions.push({ sourceStoreId: storeId });
+      else if (direction === "in") conditions.push({ destinationStoreId: storeId });
+      else conditions.push({ OR: [{ sourceStoreId: storeId }, { destinationStoreId: storeId }] });
+    }
+    const where: Prisma.StockTransferWhereInput = { AND: conditions };
+    if (status) where.status = status;
+
+    const [transfers, total] = await Promise.all([
+      app.prisma.stockTransfer.findMany({
+        where,
+        skip,
+        take: Number(pageSize),
+        orderBy: { createdAt: "desc" },
+        include: {
+          sourceStore: { select: { id: true, name: true } },
+          destinationStore: { select: { id: true, name: true } },
+          requestedBy: { select: { id: true, name: true } },
+          _count: { select: { items: true } },
+        },
+      }),
+      app.prisma.stockTransfer.count({ where }),
+    ]);
+
+    const response: PaginatedResponse<(typeof transfers)[0]> = {
+      success: true,
+      data: transfers,
+      meta: { total, page: Number(page), pageSize: Number(pageSize), totalPages: Math.ceil(total / Number(pageSize)) },
+    };
+    return response;
+  });
+
+  // ── GET /:id — Transfer with lines ───────────────────
+  app.get<{ Params: { id: string } }>("/:id", { preHandler }, async (request, reply) => {
+    const transfer = await app.prisma.stockTransfer.findUnique({
+      where: { id: request.params.id },
+      include: transferInclude,
+    });
+    if (!transfer) return reply.notFound("Stock transfer not found");
+    if (!(await canAccessTransfer(request, transfer))) {
+      return reply.forbidden("Access denied");
+    }
+
+    const response: ApiResponse<StockTransferWithItems> = { success: true, data: transfer };
+    return response;
+  });
+
+  // ── POST / — Request a transfer ──────────────────────
+  app.post("/", { preHandler }, async (request, reply) => {
+    const user = getOrgUser(request);
+    const body = createStockTransferSchema.parse(request.body);
+
+    const [source, destination] = await Promise.all([
+      app.prisma.store.findUnique({ where: { id: body.sourceStoreId } }),
+      app.prisma.store.findUnique({ where: { id: body.destinationStoreId } }),
+    ]);
+    if (!source) return reply.notFound("Source store not found");
+    if (!destination) return reply.notFound("Destination store not found");
+    if (source.organizationId !== destination.organizationId) {
+      return reply.badRequest("Stores must belong to the same organization");
+    }
+    if (!(await canAccessTransfer(request, { sourceStoreId: source.id, destinationStoreId: destination.id }))) {
+      return reply.forbidden("Access denied to these stores");
+    }
+
+    const variantIds = body.items.map((i) => i.variantId);
+    if (new Set(variantIds).size !== variantIds.length) {
+      return reply.badRequest("Each variant can only appear once per transfer");
+    }
+    const sourceProducts = await app.prisma.storeProduct.findMany({
+      where: { storeId: source.id, variantId: { in: variantIds } },
+      select: { id: true, variantId: true },
+    });
+    const sourceByVariant = new Map(sourceProducts.map((sp) => [sp.variantId, sp.id]));
+    const missing = variantIds.filter((id) => !sourceByVariant.has(id));
+    if (missing.length > 0) {
+      return reply.badRequest(`Source store does not stock variant(s): ${missing.join(", ")}`);
+    }
+
+    const transfer = await app.prisma.stockTransfer.create({
+      data: {
+        organizationId: source.organizationId,
+        sourceStoreId: source.id,
+        destinationStoreId: destination.id,
+        note: body.note,
+        requestedById: user.sub,
+        items: {
+          create: body.items.map((i) => ({
+            variantId: i.variantId,
+            sourceStoreProductId: sourceByVariant.get(i.variantId)!,
+            quantity: i.quantity,
+          })),
+        },
+      },
+      include: transferInclude,
+    });
+
+    const response: ApiResponse<StockTransferWithItems> = { success: true, data: transfer };
+    return response;
+  });
+
+  // ── POST /:id/dispatch — Source store sends the goods ─
+  app.post<{ Params: { id: string } }>("/:id/dispatch", { preHandler }, async (request, reply) => {
+    const user = getOrgUser(request);
+    const existing = await app.prisma.stockTransfer.findUnique({
+      where: { id: request.params.id },
+      include: { items: true },
+    });
+    if (!existing) return reply.notFound("Stock transfer not found");
+    if (!(await verifyStoreOrgAccess(request, app.prisma, existing.sourceStoreId))) {
+      return reply.forbidden("Only the source store can dispatch a transfer");
+    }
+    if (existing.status !== "REQUESTED") {
+      return reply.badRequest(`Cannot dispatch a ${existing.status} transfer`);
+    }
+
+    const transfer = await app.prisma.$transaction(async (tx) => {
+      // Claim the transfer — a concurrent dispatch or cancel may have landed since the read
+      const claimed = await tx.stockTransfer.updateMany({
+        where: { id: existing.id, status: "REQUESTED" },
+        data: { status: "DISPATCHED", dispatchedById: user.sub, dispatchedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        throw Object.assign(new Error("Transfer is no longer in REQUESTED status"), { statusCode: 409 });
+      }
+
+      const allocations = await transferOutStock(
+        tx,
+        existing.items.map((i) => ({ storeProductId: i.sourceStoreProductId, quantity: i.quantity })),
+        { stockTransferId: existing.id, actorId: user.sub, note: `Transfer #${existing.id.slice(0, 8)} out` },
+      );
+
+      // Carry the earliest expiry of what left the source, so the destination never sells it later
+      for (const [index, item] of existing.items.entries()) {
+        const dated = allocations[index]
+          .filter((a) => a.expiryDate)
+          .sort((a, b) => a.expiryDate!.getTime() - b.expiryDate!.getTime());
+        const earliest = dated[0] ?? allocations[index][0];
+        if (!earliest) continue;
+        await tx.stockTransferItem.update({
+          where: { id: item.id },
+          data: { lotNumber: earliest.lotNumber, expiryDate: earliest.expiryDate },
+        });
+      }
+
+      return tx.stockTransfer.findUniqueOrThrow({ where: { id: existing.id }, include: transferInclude });
+    });
+
+    const response: ApiResponse<StockTransferWithItems> = { success: true, data: transfer };
+    return response;
+  });
+
+  // ── POST /:id/receive — Destination store books the goods in ─
+  app.post<{ Params: { id: string } }>("/:id/receive", { preHandler }, async (request, reply) => {
+    const user = getOrgUser(request);
+    const existing = await app.prisma.stockTransfer.findUnique({
+      where: { id: request.params.id },
+      include: { items: { include: { sourceStoreProduct: { select: { productId: true, price: true } } } } },
+    });
+    if (!existing) return reply.notFound("Stock transfer not found");
+    if (!(await verifyStoreOrgAccess(request, app.prisma, existing.destinationStoreId))) {
+      return reply.forbidden("Only the destination store can receive a transfer");
+    }
+    if (existing.status !== "DISPATCHED") {
+      return reply.badRequest(`Cannot receive a ${existing.status} transfer`);
+    }
+
+    const transfer = await app.prisma.$transaction(async (tx) => {
+      const claimed = await tx.stockTransfer.updateMany({
+        where: { id: existing.id, status: "DISPATCHED" },
+        data: { status: "RECEIVED", receivedById: user.sub, receivedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        throw Object.assign(new Error("Transfer is no longer in DISPATCHED status"), { statusCode: 409 });
+      }
+
+      const stockItems = [];
+      for (const item of existing.items) {
+        // List the variant at the destination (at the source price) if it isn't carried there yet
+        const destination = await tx.storeProduct.upsert({
+          where: { storeId_variantId: { storeId: existing.destinationStoreId, variantId: item.variantId } },
+          create: {
+            storeId: existing.destinationStoreId,
+            productId: item.sourceStoreProduct.productId,
+            variantId: item.variantId,
+            price: item.sourceStoreProduct.price,
+          },
+          update: {},
+          select: { id: true },
+        });
+        await tx.stockTransferItem.update({
+          where: { id: item.id },
+          data: { destinationStoreProductId: destination.id },
+        });
+        stockItems.push({ storeProductId: destination.id, quantity: item.quantity });
+      }
+
+      await transferInStock(tx, stockItems, {
+        stockTransferId: existing.id,
+        actorId: user.sub,
+        note: `Transfer #${existing.id.slice(0, 8)} in`,
+      });
+
+      for (const [index, item] of existing.items.entries()) {
+        await createBatch(tx, {
+          storeProductId: stockItems[index].storeProductId,
+          quantity: item.quantity,
+          lotNumber: item.lotNumber,
+          // Untracked source stock stays undated rather than getting a fresh shelf life
+          expiryDate: item.expiryDate,
+          stockTransferId: existing.id,
+        });
+      }
+
+      return tx.stockTransfer.findUniqueOrThrow({ where: { id: existing.id }, include: transferInclude });
+    });
+
+    const response: ApiResponse<StockTransferWithItems> = { success: true, data: transfer };
+    return response;
+  });
+
+  // ── POST /:id/cancel — Withdraw a request before dispatch ─
+  app.post<{ Params: { id: string } }>("/:id/cancel", { preHandler }, async (request, reply) => {
+    const existing = await app.prisma.stockTransfer.findUnique({ where: { id: request.params.id } });
+    if (!existing) return reply.notFound("Stock transfer not found");
+    if (!(await canAccessTransfer(request, existing))) {
+      return reply.forbidden("Access denied");
+    }
+    if (existing.status !== "REQUESTED") {
+      return reply.badRequest(`Cannot cancel a ${existing.status} transfer`);
+    }
+
+    // Conditional so a dispatch racing this cancel can't leave stock out with a cancelled transfer
+    const cancelled = await app.prisma.stockTransfer.updateMany({
+      where: { id: existing.id, status: "REQUESTED" },
+      data: { status: "CANCELLED", cancelledAt: new Date() },
+    });
+    if (cancelled.count === 0) return reply.conflict("Transfer is no longer in REQUESTED status");
+
+    const transfer = await app.prisma.stockTransfer.findUniqueOrThrow({
+      where: { id: existing.id },
+      include: transferInclude,
+    });
+    const response: ApiResponse<StockTransferWithItems> = { success: true, data: transfer };
+    return response;
+  });
+}
@@ -1,8 +1,10 @@
 import type { FastifyInstance } from "fastify";
-import type { ApiResponse } from "@martly/shared/types";
+import type { ApiResponse, PaginatedResponse } from "@martly/shared/types";
+import type { Prisma, StockMovementType } from "../../../generated/prisma/index.js";
 import { authenticate } from "../../middleware/auth.js";
 import { requireRole } from "../../middleware/authorize.js";
-import { getOrgStoreIds, getOrgUser } from "../../middleware/org-scope.js";
+import { getOrgStoreIds, getOrgUser, verifyStoreOrgAccess } from "../../middleware/org-scope.js";
+import { adjustStock } from "../../services/stock.js";
 
 const LOW_STOCK_THRESHOLD = 5;
 
@@ -31,6 +33,41 @@ interface StockSummary {
   recentChanges: RecentChange[];
 }
 
+interface StockMovementEntry {
+  id: string;
+  storeProductId: string;
+  productName: string;
+  storeId: string;
+  storeName: string;
+  type: StockMovementType;
+  quantity: number;
+  stockBefore: number;
+  stockAfter: number;
+  reservedBefore: number;
+  reservedAfter: number;
+  orderId: string | null;
+  returnRequestId: string | null;
+  actor: { id: string; name: string } | null;
+  note: string | null;
+  createdAt: string;
+}
+
+interface InventoryBatchEntry {
+  id: string;
+  storeProductId: string;
+  productName: string;
+  storeId: string;
+  storeName: string;
+  lotNumber: string | null;
+  receivedAt: string;
+  expiryDate: string | null;
+  quantityReceived: number;
+  quantity: number;
+  goodsReceiptId: string | null;
+  stockTransferId: string | null;
+  nearExpiryFlaggedAt: string | null;
+}
+
 export async function stockRoutes(app: FastifyInstance) {
   app.get(
     "/summary",
@@ -140,4 +177,206 @@ export async function stockRoutes(app: FastifyInstance) {
       return response;
     },
   );
+
+  // Stock ledger — append-only history of every stock change
+  app.get(
+    "/movements",
+    { preHandler: [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN", "STORE_MANAGER")] },
+    async (request, reply) => {
+      const { page = 1, pageSize = 20, storeId, organizationId, storeProductId, orderId, type, from, to } = request.query as {
+        page?: number;
+        pageSize?: number;
+        storeId?: string;
+        organizationId?: string;
+        storeProductId?: string;
+        orderId?: string;
+        type?: StockMovementType;
+        from?: string;
+        to?: string;
+      };
+      const skip = (Number(page) - 1) * Number(pageSize);
+
+      const where: Prisma.StockMovementWhereInput = {};
+
+      // Scope to org's stores
+      let orgStoreIds = await getOrgStoreIds(request, app.prisma);
+
+      // SUPER_ADMIN: optionally filter by organizationId
+      if (getOrgUser(request).role === "SUPER_ADMIN" && organizationId) {
+        const orgStores = await app.prisma.store.findMany({
+          where: { organizationId },
+          select: { id: true },
+        });
+        orgStoreIds = orgStores.map((s: { id: string }) => s.id);
+      }
+
+      if (storeId) {
+        if (orgStoreIds !== undefined && !orgStoreIds.includes(storeId)) {
+          return reply.forbidden("Access denied to this store");
+        }
+        where.storeId = storeId;
+      } else if (orgStoreIds !== undefined) {
+        where.storeId = { in: orgStoreIds };
+      }
+
+      if (storeProductId) where.storeProductId = storeProductId;
+      if (orderId) where.orderId = orderId;
+      if (type) where.type = type;
+      if (from || to) {
+        where.createdAt = {
+          ...(from ? { gte: new Date(from) } : {}),
+          ...(to ? { lte: new Date(to) } : {}),
+        };
+      }
+
+      const [movements, total] = await Promise.all([
+        app.prisma.stockMovement.findMany({
+          where,
+          skip,
+          take: Number(pageSize),
+          orderBy: { createdAt: "desc" },
+          include: {
+            store: { select: { name: true } },
+            storeProduct: { select: { product: { select: { name: true } }, variant: { select: { name: true } } } },
+            actor: { select: { id: true, name: true } },
+          },
+        }),
+        app.prisma.stockMovement.count({ where }),
+      ]);
+
+      const response: PaginatedResponse<StockMovementEntry> = {
+        success: true,
+        data: movements.map((m) => ({
+          id: m.id,
+          storeProductId: m.storeProductId,
+          productName: m.storeProduct.variant.name
+            ? `${m.storeProduct.product.name} — ${m.storeProduct.variant.name}`
+            : m.storeProduct.product.name,
+          storeId: m.storeId,
+          storeName: m.store.name,
+          type: m.type,
+          quantity: m.quantity,
+          stockBefore: m.stockBefore,
+          stockAfter: m.stockAfter,
+          reservedBefore: m.reservedBefore,
+          reservedAfter: m.reservedAfter,
+          orderId: m.orderId,
+          returnRequestId: m.returnRequestId,
+          actor: m.actor,
+          note: m.note,
+          createdAt: m.createdAt.toISOString(),
+        })),
+        meta: { total, page: Number(page), pageSize: Number(pageSize), totalPages: Math.ceil(total / Number(pageSize)) },
+      };
+      return response;
+    },
+  );
+
+  // Inventory batches with stock left, earliest expiry first
+  app.get(
+    "/batches",
+    { preHandler: [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN", "STORE_MANAGER")] },
+    async (request, reply) => {
+      const { page = 1, pageSize = 20, storeId, organizationId, storeProductId, expiringWithinDays, includeEmpty } = request.query as {
+        page?: number;
+        pageSize?: number;
+        storeId?: string;
+        organizationId?: string;
+        storeProductId?: string;
+        expiringWithinDays?: string;
+        includeEmpty?: string;
+      };
+      const skip = (Number(page) - 1) * Number(pageSize);
+
+      const where: Prisma.InventoryBatchWhereInput = {};
+      let orgStoreIds = await getOrgStoreIds(request, app.prisma);
+      if (getOrgUser(request).role === "SUPER_ADMIN" && organizationId) {
+        const orgStores = await app.prisma.store.findMany({
+          where: { organizationId },
+          select: { id: true },
+        });
+        orgStoreIds = orgStores.map((s: { id: string }) => s.id);
+      }
+
+      if (storeId) {
+        if (orgStoreIds !== undefined && !orgStoreIds.includes(storeId)) {
+          return reply.forbidden("Access denied to this store");
+        }
+        where.storeId = storeId;
+      } else if (orgStoreIds !== undefined) {
+        where.storeId = { in: orgStoreIds };
+      }
+
+      if (storeProductId) where.storeProductId = storeProductId;
+      if (includeEmpty !== "true") where.quantity = { gt: 0 };
+      if (expiringWithinDays !== undefined) {
+        where.expiryDate = { lte: new Date(Date.now() + Number(expiringWithinDays) * 24 * 60 * 60 * 1000) };
+      }
+
+      const [batches, total] = await Promise.all([
+        app.prisma.inventoryBatch.findMany({
+          where,
+          skip,
+          take: Number(pageSize),
+          orderBy: [{ expiryDate: { sort: "asc", nulls: "last" } }, { receivedAt: "asc" }],
+          include: {
+            store: { select: { name: true } },
+            storeProduct: { select: { product: { select: { name: true } }, variant: { select: { name: true } } } },
+          },
+        }),
+        app.prisma.inventoryBatch.count({ where }),
+      ]);
+
+      const response: PaginatedResponse<InventoryBatchEntry> = {
+        success: true,
+        data: batches.map((b) => ({
+          id: b.id,
+          storeProductId: b.storeProductId,
+          productName: b.storeProduct.variant.name
+            ? `${b.storeProduct.product.name} — ${b.storeProduct.variant.name}`
+            : b.storeProduct.product.name,
+          storeId: b.storeId,
+          storeName: b.store.name,
+          lotNumber: b.lotNumber,
+          receivedAt: b.receivedAt.toISOString(),
+          expiryDate: b.expiryDate?.toISOString() ?? null,
+          quantityReceived: b.quantityReceived,
+          quantity: b.quantity,
+          goodsReceiptId: b.goodsReceiptId,
+          stockTransferId: b.stockTransferId,
+          nearExpiryFlaggedAt: b.nearExpiryFlaggedAt?.toISOString() ?? null,
+        })),
+        meta: { total, page: Number(page), pageSize: Number(pageSize), totalPages: Math.ceil(total / Number(pageSize)) },
+      };
+      return response;
+    },
+  );
+
+  // Write off what's left of a batch as EXPIRY
+  app.post<{ Params: { id: string } }>(
+    "/batches/:id/write-off",
+    { preHandler: [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN", "STORE_MANAGER")] },
+    async (request, reply) => {
+      const { note } = (request.body ?? {}) as { note?: string };
+      const batch = await app.prisma.inventoryBatch.findUnique({ where: { id: request.params.id } });
+      if (!batch) return reply.notFound("Batch not found");
+      if (!(await verifyStoreOrgAccess(request, app.prisma, batch.storeId))) {
+        return reply.forbidden("Access denied");
+      }
+      if (batch.quantity === 0) return reply.badRequest("Batch has no stock left");
+
+      const lot = batch.lotNumber ? `lot ${batch.lotNumber}` : `batch ${batch.id.slice(0, 8)}`;
+      const movement = await adjustStock(
+        app.prisma,
+        { storeProductId: batch.storeProductId, type: "EXPIRY", delta: -batch.quantity, batchId: batch.id },
+        { actorId: getOrgUser(request).sub, note: note ? `Write-off ${lot}: ${note}` : `Write-off ${lot}` },
+      );
+
+      const response: ApiResponse<{ quantity: number }> = {
+        success: true,
+        data: { quantity: movement ? -movement.quantity : 0 },
+      };
+      return response;
+    },
+  );
 }
@@ -0,0 +1,123 @@
+import type { FastifyInstance } from "fastify";
+import { storeWeeklyHoursSchema, storeHoursOverrideSchema } from "@martly/shared/schemas";
+import type { ApiResponse } from "@martly/shared/types";
+import { authenticate, authenticateOptional } from "../../middleware/auth.js";
+import { requireRole } from "../../middleware/authorize.js";
+import { verifyStoreOrgAccess } from "../../middleware/org-scope.js";
+import { getStoreOpenStatus, type StoreOpenStatus } from "../../services/store-calendar.js";
+import { parseDate, todayIST } from "../../utils/timezone.js";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function storeCalendarRoutes(app: FastifyInstance) {
+  // GET /?storeId=X — Weekly hours, upcoming date overrides and whether the store is open now
+  app.get("/", {
+    preHandler: [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN", "STORE_MANAGER")],
+  }, async (request, reply) => {
+    const { storeId } = request.query as { storeId?: string };
+    if (!storeId) return reply.badRequest("storeId is required");
+
+    if (!(await verifyStoreOrgAccess(request, app.prisma, storeId))) {
+      return reply.forbidden("Access denied");
+    }
+
+    const [weekly, overrides, status] = await Promise.all([
+      app.prisma.storeHours.findMany({ where: { storeId }, orderBy: { dayOfWeek: "asc" } }),
+      app.prisma.storeHoursOverride.findMany({
+        where: { storeId, date: { gte: todayIST() } },
+        orderBy: { date: "asc" },
+      }),
+      getStoreOpenStatus(app.prisma, storeId),
+    ]);
+
+    const data = { weekly, overrides, status };
+    const response: ApiResponse<typeof data> = { success: true, data };
+    return response;
+  });
+
+  // GET /status?storeId=X — Customer: is the store open, and when does it open next
+  app.get("/status", { preHandler: [authenticateOptional] }, async (request, reply) => {
+    const { storeId } = request.query as { storeId?: string };
+    if (!storeId) return reply.badRequest("storeId is required");
+
+    const store = await app.prisma.store.findUnique({ where: { id: storeId }, select: { id: true } });
+    if (!store) return reply.notFound("Store not found");
+
+    const status = await getStoreOpenStatus(app.prisma, storeId);
+    const response: ApiResponse<StoreOpenStatus> = { success: true, data: status };
+    return response;
+  });
+
+  // PUT /hours?storeId=X — Replace the weekly hours (an empty list means open around the clock)
+  app.put("/hours", {
+    preHandler: [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN", "STORE_MANAGER")],
+  }, async (request, reply) => {
+    const { storeId } = request.query as { storeId?: string };
+    if (!storeId) return reply.badRequest("storeId is required");
+
+    if (!(await verifyStoreOrgAccess(request, app.prisma, storeId))) {
+      return reply.forbidden("Access denied");
+    }
+
+    const body = storeWeeklyHoursSchema.parse(request.body);
+
+    const weekly = await app.prisma.$transaction(async (tx) => {
+      await tx.storeHours.deleteMany({ where: { storeId } });
+      await tx.storeHours.createMany({ data: body.days.map((d) => ({ storeId, ...d })) });
+      return tx.storeHours.findMany({ where: { storeId }, orderBy: { dayOfWeek: "asc" } });
+    });
+
+    const response: ApiResponse<typeof weekly> = { success: true, data: weekly };
+    return response;
+  });
+
+  // PUT /overrides/:date?storeId=X — Close the store or set special hours on one date
+  app.put<{ Params: { date: string } }>("/overrides/:date", {
+    preHandler: [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN", "STORE_MANAGER")],
+  }, async (request, reply) => {
+    const { storeId } = request.query as { storeId?: string };
+    if (!storeId) return reply.badRequest("storeId is required");
+
+    if (!(await verifyStoreOrgAccess(request, app.prisma, storeId))) {
+      return reply.forbidden("Access denied");
+    }
+
+    if (!DATE_PATTERN.test(request.params.date)) return reply.badRequest("date must be YYYY-MM-DD");
+    const body = storeHoursOverrideSchema.parse(request.body);
+    const date = parseDate(request.params.date);
+    if (date < todayIST()) return reply.badRequest("Date is in the past");
+
+    const data = {
+      isClosed: body.isClosed,
+      openTime: body.isClosed ? null : body.openTime!,
+      closeTime: body.isClosed ? null : body.closeTime!,
+      note: body.note ?? null,
+    };
+    const override = await app.prisma.storeHoursOverride.upsert({
+      where: { storeId_date: { storeId, date } },
+      create: { storeId, date, ...data },
+      update: data,
+    });
+
+    const response: ApiResponse<typeof override> = { success: true, data: override };
+    return response;
+  });
+
+  // DELETE /overrides/:date?storeId=X — Back to the weekly hours for the date
+  app.delete<{ Params: { date: string } }>("/overrides/:date", {
+    preHandler: [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN", "STORE_MANAGER")],
+  }, async (request, reply) => {
+    const { storeId } = request.query as { storeId?: string };
+    if (!storeId) return reply.badRequest("storeId is required");
+
+    if (!(await verifyStoreOrgAccess(request, app.prisma, storeId))) {
+      return reply.forbidden("Access denied");
+    }
+
+    if (!DATE_PATTERN.test(request.params.date)) return reply.badRequest("date must be YYYY-MM-DD");
+    await app.prisma.storeHoursOverride.deleteMany({ where: { storeId, date: parseDate(request.params.date) } });
+
+    const response: ApiResponse<null> = { success: true, data: null };
+    return response;
+  });
+}
@@ -3,85 +3,8 @@ import Anthropic from "@anthropic-ai/sdk";
 import { authenticate } from "../../middleware/auth.js";
 import { requireRole } from "../../middleware/authorize.js";
 import { verifyStoreOrgAccess } from "../../middleware/org-scope.js";
-
-// ── Shared demand calculation ───────────────────────
-interface DemandRow {
-  storeProductId: string;
-  productName: string;
-  variantName: string;
-  imageUrl: string | null;
-  currentStock: number;
-  avgDailyDemand: number;
-  daysOfStockLeft: number;
-  totalQuantitySold: number;
-  totalOrders: number;
-  lastOrderDate: string;
-}
-
-async function computeDemand(
-  prisma: FastifyInstance["prisma"],
-  storeId: string,
-  days: number,
-): Promise<DemandRow[]> {
-  const since = new Date();
-  since.setDate(since.getDate() - days);
-
-  const rows = await prisma.$queryRaw<
-    Array<{
-      store_product_id: string;
-      product_name: string;
-      variant_name: string;
-      image_url: string | null;
-      current_stock: number;
-      total_quantity: bigint;
-      total_orders: bigint;
-      distinct_days: bigint;
-      last_order_date: Date;
-    }>
-  >`
-    SELECT
-      sp.id AS store_product_id,
-      p.name AS product_name,
-      pv.name AS variant_name,
-      COALESCE(p.image_url, pv.image_url) AS image_url,
-      (sp.stock - sp.reserved_stock) AS current_stock,
-      SUM(oi.quantity) AS total_quantity,
-      COUNT(DISTINCT oi.order_id) AS total_orders,
-      COUNT(DISTINCT DATE(o.created_at)) AS distinct_days,
-      MAX(o.created_at) AS last_order_date
-    FROM order_items oi
-    JOIN orders o ON o.id = oi.order_id
-    JOIN store_products sp ON sp.id = oi.store_product_id
-    JOIN products p ON p.id = sp.product_id
-    JOIN product_variants pv ON pv.id = sp.variant_id
-    WHERE o.store_id = ${storeId}
-      AND o.status = 'DELIVERED'
-      AND o.created_at >= ${since}
-    GROUP BY sp.id, p.name, pv.name, p.image_url, pv.image_url, sp.stock, sp.reserved_stock
-    ORDER BY total_quantity DESC
-  `;
-
-  return rows.map((r) => {
-    const distinctDays = Number(r.distinct_days) || 1;
-    const totalQty = Number(r.total_quantity);
-    const avgDaily = totalQty / distinctDays;
-    const availableStock = Math.max(r.current_stock, 0);
-    const daysLeft = avgDaily > 0 ? availableStock / avgDaily : Infinity;
-
-    return {
-      storeProductId: r.store_product_id,
-      productName: r.product_name,
-      variantName: r.variant_name,
-      imageUrl: r.image_url,
-      currentStock: r.current_stock,
-      avgDailyDemand: Math.round(avgDaily * 100) / 100,
-      daysOfStockLeft: daysLeft === Infinity ? -1 : Math.round(daysLeft * 10) / 10,
-      totalQuantitySold: totalQty,
-      totalOrders: Number(r.total_orders),
-      lastOrderDate: r.last_order_date.toISOString(),
-    };
-  });
-}
+import { computeDemand, getReorderSuggestions } from "../../services/demand.js";
+import { isDiscountActive } from "../../services/pricing.js";
 
 // ── Route registration ──────────────────────────────
 export async function storeIntelligenceRoutes(app: FastifyInstance) {
@@ -122,23 +45,7 @@ export async function storeIntelligenceRoutes(app: FastifyInstance) {
     if (!hasAccess) return reply.forbidden("No access to this store");
 
     const thresholdDays = Math.min(Math.max(Number(threshold) || 7, 1), 60);
-    const demand = await computeDemand(app.prisma, storeId, 30);
-
-    const suggestions = demand
-      .filter((d) => d.daysOfStockLeft >= 0 && d.daysOfStockLeft <= thresholdDays)
-      .map((d) => {
-        let urgency: "critical" | "warning" | "info";
-        if (d.daysOfStockLeft <= 2) urgency = "critical";
-        else if (d.daysOfStockLeft <= 5) urgency = "warning";
-        else urgency = "info";
-
-        return {
-          ...d,
-          suggestedReorderQty: Math.ceil(d.avgDailyDemand * 14),
-          urgency,
-        };
-      })
-      .sort((a, b) => a.daysOfStockLeft - b.daysOfStockLeft);
+    const suggestions = await getReorderSuggestions(app.prisma, storeId, thresholdDays);
 
     const criticalCount = suggestions.filter((s) => s.urgency === "critical").length;
     const warningCount = suggestions.filter((s) => s.urgency === "warning").length;
@@ -161,7 +68,7 @@ export async function storeIntelligenceRoutes(app: FastifyInstance) {
     const periodDays = Math.min(Math.max(Number(days) || 30, 7), 365);
 
     interface Anomaly {
-      type: "demand_spike" | "demand_drop" | "stock_mismatch" | "dead_stock";
+      type: "demand_spike" | "demand_drop" | "stock_mismatch" | "dead_stock" | "near_expiry" | "expired_stock";
       severity: "high" | "medium" | "low";
       storeProductId: string;
       productName: string;
@@ -349,6 +256,69 @@ export async function storeIntelligenceRoutes(app: FastifyInstance) {
       });
     }
 
+    // ── Expiring batches ──
+    const store = await app.prisma.store.findUnique({
+      where: { id: storeId },
+      select: { organization: { select: { nearExpiryDays: true } } },
+    });
+    const nearExpiryDays = store?.organization.nearExpiryDays ?? 2;
+    const expiringBatches = await app.prisma.inventoryBatch.findMany({
+      where: {
+        storeId,
+        quantity: { gt: 0 },
+        expiryDate: { lte: new Date(now.getTime() + nearExpiryDays * 24 * 60 * 60 * 1000) },
+      },
+      include: {
+        storeProduct: {
+          select: {
+            discountType: true,
+            discountValue: true,
+            discountStart: true,
+            discountEnd: true,
+            product: { select: { name: true } },
+            variant: { select: { name: true } },
+          },
+        },
+      },
+      orderBy: { expiryDate: "asc" },
+    });
+
+    for (const batch of expiringBatches) {
+      const expiryDate = batch.expiryDate!;
+      const sp = batch.storeProduct;
+      const lot = batch.lotNumber ? ` (lot ${batch.lotNumber})` : "";
+      const details = {
+        batchId: batch.id,
+        lotNumber: batch.lotNumber,
+        expiryDate: expiryDate.toISOString(),
+        quantity: batch.quantity,
+        discountActive: isDiscountActive(sp, now),
+      };
+
+      if (expiryDate <= now) {
+        anomalies.push({
+          type: "expired_stock",
+          severity: "high",
+          storeProductId: batch.storeProductId,
+          productName: sp.product.name,
+          variantName: sp.variant.name,
+          message: `${batch.quantity} unit(s) of ${sp.product.name}${lot} expired on ${expiryDate.toISOString().slice(0, 10)}`,
+          details,
+        });
+      } else {
+        const daysLeft = Math.ceil((expiryDate.getTime() - now.getTime()) / (24 * 60 * 60 * 1000));
+        anomalies.push({
+          type: "near_expiry",
+          severity: daysLeft <= 1 ? "medium" : "low",
+          storeProductId: batch.storeProductId,
+          productName: sp.product.name,
+          variantName: sp.variant.name,
+          message: `${batch.quantity} unit(s) of ${sp.product.name}${lot} expire in ${daysLeft} day(s)`,
+          details: { ...details, daysLeft },
+        });
+      }
+    }
+
     // Sort: high severity first
     const severityOrder = { high: 0, medium: 1, low: 2 };
     anomalies.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
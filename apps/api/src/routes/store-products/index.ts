@@ -6,6 +6,8 @@ import { requireRole } from "../../middleware/authorize.js";
 import { requireOrgContext, getOrgStoreIds, getOrgUser, verifyStoreOrgAccess } from "../../middleware/org-scope.js";
 import { calculateEffectivePrice } from "../../services/pricing.js";
 import { formatVariantUnit } from "../../services/units.js";
+import { adjustStock, recordOpeningStock } from "../../services/stock.js";
+import { createBatch } from "../../services/batches.js";
 
 function withPricing(sp: { stock: number; reservedStock: number; price: unknown; memberPrice?: unknown; discountType: unknown; discountValue: unknown; discountStart: unknown; discountEnd: unknown; variant: { unitType: string; discountType: unknown; discountValue: unknown; discountStart: unknown; discountEnd: unknown } }) {
   const pricing = calculateEffectivePrice(
@@ -151,6 +153,7 @@ export async function storeProductRoutes(app: FastifyInstance) {
         },
         include: spInclude,
       });
+      await recordOpeningStock(app.prisma, [storeProduct], { actorId: getOrgUser(request).sub });
 
       const response: ApiResponse<ReturnType<typeof withPricing>> = { success: true, data: withPricing(storeProduct) };
       return response;
@@ -197,8 +200,12 @@ export async function storeProductRoutes(app: FastifyInstance) {
 
       let created = 0;
       if (toCreate.length > 0) {
-        const result = await app.prisma.storeProduct.createMany({ data: toCreate });
-        created = result.count;
+        const result = await app.prisma.storeProduct.createManyAndReturn({
+          data: toCreate,
+          select: { id: true, storeId: true, stock: true },
+        });
+        created = result.length;
+        await recordOpeningStock(app.prisma, result, { actorId: getOrgUser(request).sub });
       }
 
       const response: ApiResponse<{ created: number; skipped: number }> = {
@@ -219,10 +226,31 @@ export async function storeProductRoutes(app: FastifyInstance) {
       return reply.forbidden("Access denied");
     }
 
-    const storeProduct = await app.prisma.storeProduct.update({
-      where: { id: request.params.id },
-      data: body,
-      include: spInclude,
+    const { stockReason, stockNote, stockLotNumber, stockExpiryDate, stock, ...data } = body;
+
+    // Stock changes go through the ledger so every edit has a reason and an actor
+    const storeProduct = await app.prisma.$transaction(async (tx) => {
+      if (stock !== undefined && stock !== existing.stock) {
+        const movement = await adjustStock(
+          tx,
+          { storeProductId: existing.id, type: stockReason, setStock: stock },
+          { actorId: getOrgUser(request).sub, note: stockNote },
+        );
+        // Received goods become a batch so they're sold first-expiry-first-out
+        if (movement && stockReason === "RECEIPT" && movement.quantity > 0) {
+          await createBatch(tx, {
+            storeProductId: existing.id,
+            quantity: movement.quantity,
+            lotNumber: stockLotNumber,
+            expiryDate: stockExpiryDate,
+          });
+        }
+      }
+      return tx.storeProduct.update({
+        where: { id: request.params.id },
+        data,
+        include: spInclude,
+      });
     });
 
     const response: ApiResponse<ReturnType<typeof withPricing>> = { success: true, data: withPricing(storeProduct) };
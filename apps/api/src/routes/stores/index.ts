@@ -7,7 +7,9 @@ import { requireOrgContext, orgScopedStoreFilter, getOrgUser, getOrgStoreIds, ve
 import { calculateEffectivePrice } from "../../services/pricing.js";
 import { formatVariantUnit } from "../../services/units.js";
 import { haversine } from "../../lib/geo.js";
+import { loadPolygonZones, matchPolygonZone } from "../../services/delivery-zone.js";
 import { searchProducts } from "../../services/search.js";
+import { recordOpeningStock } from "../../services/stock.js";
 
 export async function storeRoutes(app: FastifyInstance) {
   // List stores (scoped to user's org; guests see all active stores)
@@ -100,13 +102,22 @@ export async function storeRoutes(app: FastifyInstance) {
       include: { organization: { select: { subscriptionEnabled: true } } },
     });
 
+    // Stores that draw polygon zones are only listed when the point falls inside one
+    const polygonZones = await loadPolygonZones(app.prisma, stores.map((s) => s.id));
+
     const nearbyStores = stores
-      .map(({ organization, ...store }) => ({
-        ...store,
-        subscriptionEnabled: store.subscriptionEnabled && organization.subscriptionEnabled,
-        distance: haversine(userLat, userLng, store.latitude!, store.longitude!),
-      }))
-      .filter((s) => s.distance <= maxRadius)
+      .map(({ organization, ...store }) => {
+        const zone = matchPolygonZone(polygonZones.get(store.id) ?? [], userLat, userLng);
+        return {
+          ...store,
+          subscriptionEnabled: store.subscriptionEnabled && organization.subscriptionEnabled,
+          distance: haversine(userLat, userLng, store.latitude!, store.longitude!),
+          deliveryZone: zone
+            ? { id: zone.id, name: zone.name, deliveryFee: zone.deliveryFee, estimatedMinutes: zone.estimatedMinutes }
+            : null,
+        };
+      })
+      .filter((s) => s.distance <= maxRadius && (!polygonZones.has(s.id) || s.deliveryZone))
       .sort((a, b) => a.distance - b.distance);
 
     return { success: true, data: nearbyStores };
@@ -200,6 +211,7 @@ export async function storeRoutes(app: FastifyInstance) {
         data: { storeId: request.params.id, productId: variant.productId, variantId, price, stock },
         include: { product: true, variant: true },
       });
+      await recordOpeningStock(app.prisma, [storeProduct], { actorId: getOrgUser(request).sub });
 
       const response: ApiResponse<typeof storeProduct> = {
         success: true,
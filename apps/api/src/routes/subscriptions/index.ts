@@ -8,14 +8,21 @@ import {
   subscriptionItemOverrideSchema,
   subscriptionConfigSchema,
   orgSubscriptionConfigSchema,
+  createSubscriptionMandateSchema,
+  verifyPaymentSchema,
+  createVacationSchema,
 } from "@martly/shared/schemas";
 import { authenticate } from "../../middleware/auth.js";
 import { requireRole } from "../../middleware/authorize.js";
 import { getOrgUser, getOrgStoreIds, verifyStoreOrgAccess } from "../../middleware/org-scope.js";
 import { calculateEffectivePrice } from "../../services/pricing.js";
 import { sendNotification } from "../../services/notification.js";
+import { getMandateProvider } from "../../services/mandate.js";
+import { applyVacation, findVacationOn, releaseVacation, MAX_VACATION_DAYS } from "../../services/subscription-vacation.js";
+import { getDeliveryCalendar, parseMonth, renderDeliveryStatementPdf } from "../../services/subscription-deliveries.js";
+import { signDownloadToken, verifyDownloadToken } from "../../services/download-link.js";
 import { calculateNextDeliveryDate, advanceNextDeliveryDate, isDeliveryDay } from "../../utils/subscription-dates.js";
-import { todayIST, tomorrowIST, endOfDayUTC, parseDate, formatDate } from "../../utils/timezone.js";
+import { todayIST, tomorrowIST, endOfDayUTC, parseDate, formatDate, currentISTTime } from "../../utils/timezone.js";
 
 const STORE_PRODUCT_INCLUDE = {
   storeProduct: {
@@ -157,6 +164,15 @@ export async function subscriptionRoutes(app: FastifyInstance) {
         items: { include: STORE_PRODUCT_INCLUDE },
         store: { select: { id: true, name: true } },
         skippedDates: { orderBy: { date: "asc" } },
+        mandates: {
+          where: { status: "ACTIVE" },
+          select: { id: true, method: true, status: true, label: true, maxAmount: true, authorizedAt: true },
+        },
+        mandateCharges: {
+          orderBy: { deliveryDate: "desc" },
+          take: 5,
+          select: { id: true, deliveryDate: true, amount: true, status: true, attempts: true, failureReason: true, orderId: true },
+        },
       },
     });
     if (!subscription) return reply.notFound("Subscription not found");
@@ -179,10 +195,13 @@ export async function subscriptionRoutes(app: FastifyInstance) {
       : 7;
 
     const today = todayIST();
-    const calendar: { date: string; scheduled: boolean; skipped: boolean }[] = [];
+    const calendar: { date: string; scheduled: boolean; skipped: boolean; vacation: boolean }[] = [];
     const skippedDateSet = new Set(
       subscription.skippedDates.map((s) => formatDate(s.date)),
     );
+    const vacationDateSet = new Set(
+      subscription.skippedDates.filter((s) => s.vacationId).map((s) => formatDate(s.date)),
+    );
 
     for (let i = 1; i <= calendarDays; i++) {
       const day = new Date(today);
@@ -193,6 +212,7 @@ export async function subscriptionRoutes(app: FastifyInstance) {
         date: dateStr,
         scheduled,
         skipped: skippedDateSet.has(dateStr),
+        vacation: vacationDateSet.has(dateStr),
       });
     }
 
@@ -209,8 +229,10 @@ export async function subscriptionRoutes(app: FastifyInstance) {
       },
     });
 
+    const { mandates, ...rest } = subscription;
     const data = {
-      ...subscription,
+      ...rest,
+      mandate: mandates[0] ?? null,
       items: itemsWithPricing,
       calendar,
       recentOrders,
@@ -391,6 +413,9 @@ export async function subscriptionRoutes(app: FastifyInstance) {
         },
       });
       if (!existing) return reply.notFound("Skip not found for this date");
+      if (existing.vacationId) {
+        return reply.badRequest("This day is part of your vacation. End the vacation early to get it back.");
+      }
 
       await app.prisma.subscriptionSkip.delete({
         where: { id: existing.id },
@@ -401,6 +426,191 @@ export async function subscriptionRoutes(app: FastifyInstance) {
     },
   );
 
+  // ── Customer: Delivery history ───────────────────────
+  // Month calendar of what the scheduler did each delivery day, plus the days still to come
+  app.get<{ Params: { id: string }; Querystring: { month?: string } }>(
+    "/:id/deliveries",
+    { preHandler: [authenticate] },
+    async (request, reply) => {
+      const user = request.user as { sub: string };
+      const month = request.query.month ?? formatDate(todayIST()).slice(0, 7);
+      if (!parseMonth(month)) return reply.badRequest("month must be YYYY-MM");
+
+      const subscription = await app.prisma.subscription.findUnique({
+        where: { id: request.params.id },
+      });
+      if (!subscription) return reply.notFound("Subscription not found");
+      if (subscription.userId !== user.sub) return reply.forbidden("Access denied");
+
+      const data = await getDeliveryCalendar(app.prisma, subscription, month);
+      const response: ApiResponse<typeof data> = { success: true, data };
+      return response;
+    },
+  );
+
+  // Monthly statement PDF. Accepts a signed ?token= from /statement-link so the
+  // mobile app can open it in the browser.
+  app.get<{ Params: { id: string }; Querystring: { month?: string; token?: string } }>(
+    "/:id/statement",
+    async (request, reply) => {
+      const { month, token } = request.query;
+      if (!month || !parseMonth(month)) return reply.badRequest("month must be YYYY-MM");
+      if (token) {
+        let payload: { subscriptionId?: string; month?: string; type?: string };
+        try {
+          payload = verifyDownloadToken<{ subscriptionId: string; month: string; type: "subscription-statement" }>(app, token);
+        } catch {
+          return reply.unauthorized("Invalid or expired link");
+        }
+        if (
+          payload.type !== "subscription-statement" ||
+          payload.subscriptionId !== request.params.id ||
+          payload.month !== month
+        ) {
+          return reply.forbidden("Access denied");
+        }
+      } else {
+        await authenticate(request, reply);
+        if (reply.sent) return reply;
+      }
+
+      const subscription = await app.prisma.subscription.findUnique({
+        where: { id: request.params.id },
+        select: { id: true, userId: true },
+      });
+      if (!subscription) return reply.notFound("Subscription not found");
+      if (!token && subscription.userId !== (request.user as { sub: string }).sub) {
+        return reply.forbidden("Access denied");
+      }
+
+      const pdf = await renderDeliveryStatementPdf(app.prisma, subscription.id, month);
+      return reply
+        .type("application/pdf")
+        .header("Content-Disposition", `attachment; filename="subscription-${subscription.id.slice(0, 8)}-${month}.pdf"`)
+        .send(pdf);
+    },
+  );
+
+  // Short-lived signed statement URL for clients that can't send auth headers
+  app.post<{ Params: { id: string }; Querystring: { month?: string } }>(
+    "/:id/statement-link",
+    { preHandler: [authenticate] },
+    async (request, reply) => {
+      const user = request.user as { sub: string };
+      const { month } = request.query;
+      if (!month || !parseMonth(month)) return reply.badRequest("month must be YYYY-MM");
+
+      const subscription = await app.prisma.subscription.findUnique({
+        where: { id: request.params.id },
+        select: { id: true, userId: true },
+      });
+      if (!subscription) return reply.notFound("Subscription not found");
+      if (subscription.userId !== user.sub) return reply.forbidden("Access denied");
+
+      const token = signDownloadToken(app, { subscriptionId: subscription.id, month, type: "subscription-statement" });
+      const response: ApiResponse<{ url: string }> = {
+        success: true,
+        data: {
+          url: `/api/v1/subscriptions/${subscription.id}/statement?month=${month}&token=${encodeURIComponent(token)}`,
+        },
+      };
+      return response;
+    },
+  );
+
+  // ── Customer: Vacations ──────────────────────────────
+  app.get("/vacations", { preHandler: [authenticate] }, async (request) => {
+    const user = request.user as { sub: string };
+
+    const vacations = await app.prisma.customerVacation.findMany({
+      where: { userId: user.sub, cancelledAt: null, endDate: { gte: todayIST() } },
+      orderBy: { startDate: "asc" },
+      include: { _count: { select: { skips: true } } },
+    });
+
+    const response: ApiResponse<typeof vacations> = { success: true, data: vacations };
+    return response;
+  });
+
+  // Pause every subscription for a date range and clear add-ons in it
+  app.post("/vacations", { preHandler: [authenticate] }, async (request, reply) => {
+    const user = request.user as { sub: string };
+    const body = createVacationSchema.parse(request.body);
+
+    const startDate = parseDate(body.startDate);
+    const endDate = parseDate(body.endDate);
+    if (startDate <= todayIST()) {
+      return reply.badRequest("Vacation must start after today");
+    }
+    if ((endDate.getTime() - startDate.getTime()) / 86_400_000 + 1 > MAX_VACATION_DAYS) {
+      return reply.badRequest(`A vacation can be at most ${MAX_VACATION_DAYS} days`);
+    }
+
+    // From a store's cutoff, tomorrow's subscription orders are being placed and charged
+    const tomorrow = tomorrowIST();
+    if (startDate.getTime() === tomorrow.getTime()) {
+      const now = currentISTTime();
+      const subscriptions = await app.prisma.subscription.findMany({
+        where: { userId: user.sub, status: "ACTIVE" },
+        select: { store: { select: { subscriptionCutoffTime: true } } },
+      });
+      if (subscriptions.some((s) => now >= s.store.subscriptionCutoffTime)) {
+        const dayAfter = new Date(tomorrow.getTime() + 86_400_000);
+        return reply.badRequest(
+          `Tomorrow's subscription orders have already been placed — start the vacation on ${formatDate(dayAfter)} or later`,
+        );
+      }
+    }
+
+    const overlapping = await app.prisma.customerVacation.findFirst({
+      where: { userId: user.sub, cancelledAt: null, startDate: { lte: endDate }, endDate: { gte: startDate } },
+    });
+    if (overlapping) {
+      return reply.conflict(
+        `You already have a vacation from ${formatDate(overlapping.startDate)} to ${formatDate(overlapping.endDate)}`,
+      );
+    }
+
+    const result = await app.prisma.$transaction(async (tx) => {
+      const vacation = await tx.customerVacation.create({
+        data: { userId: user.sub, startDate, endDate, note: body.note },
+      });
+      const applied = await applyVacation(tx, vacation);
+      return { ...vacation, ...applied };
+    });
+
+    const response: ApiResponse<typeof result> = { success: true, data: result };
+    return response;
+  });
+
+  // Cancel a planned vacation, or end one in progress so deliveries resume from tomorrow
+  app.delete<{ Params: { vacationId: string } }>(
+    "/vacations/:vacationId",
+    { preHandler: [authenticate] },
+    async (request, reply) => {
+      const user = request.user as { sub: string };
+
+      const vacation = await app.prisma.customerVacation.findUnique({ where: { id: request.params.vacationId } });
+      if (!vacation || vacation.userId !== user.sub || vacation.cancelledAt) return reply.notFound("Vacation not found");
+
+      const today = todayIST();
+      if (vacation.endDate < today) return reply.badRequest("This vacation is already over");
+      const started = vacation.startDate <= today;
+
+      const result = await app.prisma.$transaction(async (tx) => {
+        const releasedDeliveries = await releaseVacation(tx, vacation.id, tomorrowIST());
+        const updated = await tx.customerVacation.update({
+          where: { id: vacation.id },
+          data: started ? { endDate: today } : { cancelledAt: new Date() },
+        });
+        return { ...updated, releasedDeliveries };
+      });
+
+      const response: ApiResponse<typeof result> = { success: true, data: result };
+      return response;
+    },
+  );
+
   // ── Basket: Tomorrow's basket ────────────────────────
   app.get("/basket", { preHandler: [authenticate] }, async (request, reply) => {
     const user = request.user as { sub: string };
@@ -557,6 +767,23 @@ export async function subscriptionRoutes(app: FastifyInstance) {
     const totalAmount = itemsTotal + deliveryFee;
     const cutoffTime = store?.subscriptionCutoffTime ?? "22:00";
 
+    // The current or next vacation, and the coming week for the calendar strip
+    const weekEnd = new Date(tomorrow);
+    weekEnd.setUTCDate(weekEnd.getUTCDate() + 6);
+    const vacations = await app.prisma.customerVacation.findMany({
+      where: { userId: user.sub, cancelledAt: null, endDate: { gte: tomorrow } },
+      orderBy: { startDate: "asc" },
+      select: { id: true, startDate: true, endDate: true, note: true },
+    });
+    const calendar: { date: string; delivery: boolean; vacation: boolean }[] = [];
+    for (const day = new Date(tomorrow); day <= weekEnd; day.setUTCDate(day.getUTCDate() + 1)) {
+      calendar.push({
+        date: formatDate(day),
+        delivery: subscriptions.some((sub) => isDeliveryDay(day, sub.frequency, sub.selectedDays, sub.createdAt)),
+        vacation: vacations.some((v) => v.startDate <= day && v.endDate >= day),
+      });
+    }
+
     // Merge into unified items array with source field
     const items = [
       ...subscriptionItems.map((item) => ({
@@ -591,6 +818,8 @@ export async function subscriptionRoutes(app: FastifyInstance) {
       total: Math.round(totalAmount * 100) / 100,
       walletBalance,
       hasActiveSubscriptions: subscriptions.length > 0,
+      vacation: vacations[0] ?? null,
+      calendar,
     };
 
     const response: ApiResponse<typeof data> = { success: true, data };
@@ -605,6 +834,11 @@ export async function subscriptionRoutes(app: FastifyInstance) {
     const tomorrow = tomorrowIST();
     const deliveryDate = body.deliveryDate ? parseDate(body.deliveryDate) : tomorrow;
 
+    const vacation = await findVacationOn(app.prisma, user.sub, deliveryDate);
+    if (vacation) {
+      return reply.badRequest(`You're on vacation until ${formatDate(vacation.endDate)}, so there's no delivery that day`);
+    }
+
     // Validate store product
     const sp = await app.prisma.storeProduct.findUnique({
       where: { id: body.storeProductId },
@@ -867,6 +1101,86 @@ export async function subscriptionRoutes(app: FastifyInstance) {
     },
   );
 
+  // ── Admin: Upcoming vacations (demand planning) ──────
+  app.get(
+    "/admin/vacations",
+    { preHandler: [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN", "STORE_MANAGER")] },
+    async (request) => {
+      const { storeId, days = 14 } = request.query as { storeId?: string; days?: number };
+      const user = getOrgUser(request);
+
+      const subscriptionWhere: Record<string, unknown> = {};
+      if (user.role !== "SUPER_ADMIN") {
+        const orgStoreIds = await getOrgStoreIds(request, app.prisma);
+        if (orgStoreIds !== undefined) {
+          subscriptionWhere.storeId = storeId && orgStoreIds.includes(storeId)
+            ? storeId
+            : { in: orgStoreIds };
+        }
+      } else if (storeId) {
+        subscriptionWhere.storeId = storeId;
+      }
+
+      const from = tomorrowIST();
+      const to = new Date(from);
+      to.setUTCDate(to.getUTCDate() + Math.min(Math.max(Number(days) || 14, 1), 60) - 1);
+
+      // Skipped deliveries are what the stores won't be packing
+      const skips = await app.prisma.subscriptionSkip.findMany({
+        where: {
+          vacationId: { not: null },
+          date: { gte: from, lte: to },
+          subscription: subscriptionWhere,
+        },
+        select: {
+          date: true,
+          vacation: {
+            select: {
+              id: true,
+              startDate: true,
+              endDate: true,
+              note: true,
+              user: { select: { id: true, name: true, phone: true } },
+            },
+          },
+          subscription: { select: { store: { select: { id: true, name: true } } } },
+        },
+        orderBy: { date: "asc" },
+      });
+
+      const byVacation = new Map<string, {
+        id: string;
+        startDate: Date;
+        endDate: Date;
+        note: string | null;
+        user: { id: string; name: string; phone: string | null };
+        stores: { id: string; name: string }[];
+        skippedDeliveries: number;
+      }>();
+      const byDate = new Map<string, number>();
+      for (const skip of skips) {
+        const v = skip.vacation!;
+        const entry = byVacation.get(v.id) ?? { ...v, stores: [], skippedDeliveries: 0 };
+        entry.skippedDeliveries++;
+        const store = skip.subscription.store;
+        if (!entry.stores.some((s) => s.id === store.id)) entry.stores.push(store);
+        byVacation.set(v.id, entry);
+
+        const date = formatDate(skip.date);
+        byDate.set(date, (byDate.get(date) ?? 0) + 1);
+      }
+
+      const data = {
+        from: formatDate(from),
+        to: formatDate(to),
+        vacations: [...byVacation.values()].sort((a, b) => a.startDate.getTime() - b.startDate.getTime()),
+        daily: [...byDate.entries()].map(([date, skippedDeliveries]) => ({ date, skippedDeliveries })),
+      };
+      const response: ApiResponse<typeof data> = { success: true, data };
+      return response;
+    },
+  );
+
   // ── Admin: Subscription detail ───────────────────────
   app.get<{ Params: { id: string } }>(
     "/admin/:id",
@@ -879,6 +1193,16 @@ export async function subscriptionRoutes(app: FastifyInstance) {
           store: { select: { id: true, name: true } },
           items: { include: STORE_PRODUCT_INCLUDE },
           skippedDates: { orderBy: { date: "desc" } },
+          mandates: {
+            where: { status: "ACTIVE" },
+            select: { id: true, provider: true, method: true, label: true, maxAmount: true, authorizedAt: true },
+          },
+          mandateCharges: {
+            orderBy: { deliveryDate: "desc" },
+            take: 10,
+            select: { id: true, deliveryDate: true, amount: true, status: true, attempts: true, failureReason: true, orderId: true },
+          },
+          deliveries: { orderBy: { deliveryDate: "desc" }, take: 14 },
         },
       });
       if (!subscription) return reply.notFound("Subscription not found");
@@ -1169,4 +1493,134 @@ export async function subscriptionRoutes(app: FastifyInstance) {
       return response;
     },
   );
+  // ── Customer: Set up auto-pay mandate ───────────────
+  // Returns checkout params for the UPI AutoPay / card mandate authorization
+  app.post<{ Params: { id: string } }>("/:id/mandate", { preHandler: [authenticate] }, async (request, reply) => {
+    const user = request.user as { sub: string };
+    const body = createSubscriptionMandateSchema.parse(request.body);
+
+    const subscription = await app.prisma.subscription.findUnique({
+      where: { id: request.params.id },
+      include: { items: { include: { storeProduct: { select: { price: true } } } }, store: { select: { baseDeliveryFee: true } } },
+    });
+    if (!subscription) return reply.notFound("Subscription not found");
+    if (subscription.userId !== user.sub) return reply.forbidden("Access denied");
+    if (subscription.status === "CANCELLED") return reply.badRequest("Subscription is cancelled");
+
+    const provider = getMandateProvider();
+    if (!provider.isConfigured()) {
+      throw Object.assign(new Error("Payment gateway not configured"), { statusCode: 503 });
+    }
+
+    // Default limit: twice today's basket, so add-ons and price changes still fit
+    const basketTotal =
+      subscription.items.reduce((sum, i) => sum + Number(i.storeProduct.price) * i.quantity, 0) +
+      Number(subscription.store.baseDeliveryFee ?? 0);
+    const maxAmount = body.maxAmount ?? Math.min(15000, Math.max(1000, Math.ceil((basketTotal * 2) / 100) * 100));
+
+    const setup = await provider.createMandate(app.prisma, {
+      userId: user.sub,
+      reference: subscription.id,
+      method: body.method,
+      maxAmountInPaise: Math.round(maxAmount * 100),
+    });
+    const mandate = await app.prisma.subscriptionMandate.create({
+      data: {
+        subscriptionId: subscription.id,
+        userId: user.sub,
+        provider: setup.provider,
+        method: body.method,
+        setupOrderId: setup.setupOrderId,
+        maxAmount,
+      },
+    });
+
+    const data = {
+      mandateId: mandate.id,
+      method: mandate.method,
+      maxAmount,
+      provider: setup.provider,
+      provider_order_id: setup.setupOrderId,
+      amount: setup.amountInPaise,
+      currency: "INR",
+      ...setup.checkout,
+    };
+    const response: ApiResponse<typeof data> = { success: true, data };
+    return response;
+  });
+
+  // ── Customer: Confirm auto-pay mandate ──────────────
+  // Body is what the checkout sheet returned; replaces any mandate already active
+  app.post<{ Params: { id: string } }>("/:id/mandate/confirm", { preHandler: [authenticate] }, async (request, reply) => {
+    const user = request.user as { sub: string };
+    const body = verifyPaymentSchema.parse(request.body);
+
+    const mandate = await app.prisma.subscriptionMandate.findUnique({
+      where: { setupOrderId: body.providerOrderId },
+    });
+    if (!mandate || mandate.subscriptionId !== request.params.id) return reply.notFound("Mandate not found");
+    if (mandate.userId !== user.sub) return reply.forbidden("Access denied");
+    if (mandate.status !== "PENDING") return reply.badRequest("Mandate is already confirmed or cancelled");
+
+    const provider = getMandateProvider(mandate.provider);
+    const authorization = await provider.confirmMandate(body);
+
+    const previous = await app.prisma.subscriptionMandate.findMany({
+      where: { subscriptionId: mandate.subscriptionId, status: "ACTIVE" },
+    });
+    const [activated] = await app.prisma.$transaction([
+      app.prisma.subscriptionMandate.update({
+        where: { id: mandate.id },
+        data: { status: "ACTIVE", token: authorization.token, label: authorization.label, authorizedAt: new Date() },
+      }),
+      app.prisma.subscriptionMandate.updateMany({
+        where: { id: { in: previous.map((m) => m.id) } },
+        data: { status: "CANCELLED", cancelledAt: new Date() },
+      }),
+    ]);
+    for (const old of previous) {
+      if (!old.token) continue;
+      await getMandateProvider(old.provider)
+        .cancel(app.prisma, old.userId, old.token)
+        .catch((err) => app.log.warn(err, `Failed to revoke replaced mandate ${old.id}`));
+    }
+
+    const data = {
+      id: activated.id,
+      method: activated.method,
+      status: activated.status,
+      label: activated.label,
+      maxAmount: activated.maxAmount,
+      authorizedAt: activated.authorizedAt,
+    };
+    const response: ApiResponse<typeof data> = { success: true, data };
+    return response;
+  });
+
+  // ── Customer: Cancel auto-pay mandate ───────────────
+  app.delete<{ Params: { id: string } }>("/:id/mandate", { preHandler: [authenticate] }, async (request, reply) => {
+    const user = request.user as { sub: string };
+
+    const subscription = await app.prisma.subscription.findUnique({ where: { id: request.params.id } });
+    if (!subscription) return reply.notFound("Subscription not found");
+    if (subscription.userId !== user.sub) return reply.forbidden("Access denied");
+
+    const mandates = await app.prisma.subscriptionMandate.findMany({
+      where: { subscriptionId: subscription.id, status: { in: ["PENDING", "ACTIVE"] } },
+    });
+    if (mandates.length === 0) return reply.notFound("No auto-pay mandate on this subscription");
+
+    for (const mandate of mandates) {
+      if (mandate.token) {
+        await getMandateProvider(mandate.provider).cancel(app.prisma, mandate.userId, mandate.token);
+      }
+    }
+    await app.prisma.subscriptionMandate.updateMany({
+      where: { id: { in: mandates.map((m) => m.id) } },
+      data: { status: "CANCELLED", cancelledAt: new Date() },
+    });
+
+    const response: ApiResponse<{ cancelled: number }> = { success: true, data: { cancelled: mandates.length } };
+    return response;
+  });
 }
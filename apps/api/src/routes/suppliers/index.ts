@@ -0,0 +1,140 @@
+import type { FastifyInstance } from "fastify";
+import { createSupplierSchema, updateSupplierSchema } from "@martly/shared/schemas";
+import type { ApiResponse, PaginatedResponse } from "@martly/shared/types";
+import type { Prisma, Supplier } from "../../../generated/prisma/index.js";
+import { authenticate } from "../../middleware/auth.js";
+import { requireRole } from "../../middleware/authorize.js";
+import { getOrgUser } from "../../middleware/org-scope.js";
+
+export async function supplierRoutes(app: FastifyInstance) {
+  // ── GET / — List suppliers (org-scoped) ──────────────
+  app.get(
+    "/",
+    { preHandler: [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN", "STORE_MANAGER")] },
+    async (request) => {
+      const user = getOrgUser(request);
+      const { page = 1, pageSize = 20, q, isActive, organizationId } = request.query as {
+        page?: number; pageSize?: number; q?: string; isActive?: string; organizationId?: string;
+      };
+      const skip = (Number(page) - 1) * Number(pageSize);
+
+      const where: Prisma.SupplierWhereInput = {};
+      if (user.role === "SUPER_ADMIN") {
+        if (organizationId) where.organizationId = organizationId;
+      } else {
+        where.organizationId = user.organizationId;
+      }
+      if (isActive === "true") where.isActive = true;
+      else if (isActive === "false") where.isActive = false;
+      if (q) {
+        where.OR = [
+          { name: { contains: q, mode: "insensitive" } },
+          { contactName: { contains: q, mode: "insensitive" } },
+          { phone: { contains: q } },
+        ];
+      }
+
+      const [suppliers, total] = await Promise.all([
+        app.prisma.supplier.findMany({
+          where,
+          skip,
+          take: Number(pageSize),
+          orderBy: { name: "asc" },
+          include: {
+            organization: { select: { name: true } },
+            _count: { select: { purchaseOrders: true } },
+          },
+        }),
+        app.prisma.supplier.count({ where }),
+      ]);
+
+      const response: PaginatedResponse<(typeof suppliers)[0]> = {
+        success: true,
+        data: suppliers,
+        meta: { total, page: Number(page), pageSize: Number(pageSize), totalPages: Math.ceil(total / Number(pageSize)) },
+      };
+      return response;
+    },
+  );
+
+  // ── GET /:id — Supplier detail ───────────────────────
+  app.get<{ Params: { id: string } }>(
+    "/:id",
+    { preHandler: [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN", "STORE_MANAGER")] },
+    async (request, reply) => {
+      const user = getOrgUser(request);
+      const supplier = await app.prisma.supplier.findUnique({ where: { id: request.params.id } });
+      if (!supplier) return reply.notFound("Supplier not found");
+      if (user.role !== "SUPER_ADMIN" && supplier.organizationId !== user.organizationId) {
+        return reply.forbidden("Access denied");
+      }
+
+      const response: ApiResponse<Supplier> = { success: true, data: supplier };
+      return response;
+    },
+  );
+
+  // ── POST / — Create supplier ─────────────────────────
+  app.post(
+    "/",
+    { preHandler: [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN")] },
+    async (request, reply) => {
+      const user = getOrgUser(request);
+      const { organizationId: bodyOrgId, ...body } = createSupplierSchema.parse(request.body);
+      const organizationId = user.role === "SUPER_ADMIN" ? bodyOrgId : user.organizationId;
+      if (!organizationId) return reply.badRequest("organizationId required");
+
+      const supplier = await app.prisma.supplier.create({
+        data: { ...body, organizationId },
+      });
+
+      const response: ApiResponse<Supplier> = { success: true, data: supplier };
+      return response;
+    },
+  );
+
+  // ── PUT /:id — Update supplier ───────────────────────
+  app.put<{ Params: { id: string } }>(
+    "/:id",
+    { preHandler: [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN")] },
+    async (request, reply) => {
+      const user = getOrgUser(request);
+      const body = updateSupplierSchema.parse(request.body);
+      const existing = await app.prisma.supplier.findUnique({ where: { id: request.params.id } });
+      if (!existing) return reply.notFound("Supplier not found");
+      if (user.role !== "SUPER_ADMIN" && existing.organizationId !== user.organizationId) {
+        return reply.forbidden("Access denied");
+      }
+
+      const supplier = await app.prisma.supplier.update({
+        where: { id: existing.id },
+        data: body,
+      });
+
+      const response: ApiResponse<Supplier> = { success: true, data: supplier };
+      return response;
+    },
+  );
+
+  // ── DELETE /:id — Deactivate supplier (kept for PO history) ──
+  app.delete<{ Params: { id: string } }>(
+    "/:id",
+    { preHandler: [authenticate, requireRole("SUPER_ADMIN", "ORG_ADMIN")] },
+    async (request, reply) => {
+      const user = getOrgUser(request);
+      const existing = await app.prisma.supplier.findUnique({ where: { id: request.params.id } });
+      if (!existing) return reply.notFound("Supplier not found");
+      if (user.role !== "SUPER_ADMIN" && existing.organizationId !== user.organizationId) {
+        return reply.forbidden("Access denied");
+      }
+
+      await app.prisma.supplier.update({
+        where: { id: existing.id },
+        data: { isActive: false },
+      });
+
+      const response: ApiResponse<null> = { success: true, data: null };
+      return response;
+    },
+  );
+}
@@ -3,13 +3,39 @@ import type { ApiResponse } from "@martly/shared/types";
 import { authenticate } from "../../middleware/auth.js";
 import { requireRole } from "../../middleware/authorize.js";
 import {
-  createRazorpayOrder,
-  ensureRazorpayCustomer,
-  getRazorpayKeyId,
-  isRazorpayConfigured,
-  verifyRazorpaySignature,
+  verifyPaymentSchema,
+  walletAlertSettingsSchema,
+  createWalletAutoTopupSchema,
+  updateWalletAutoTopupSchema,
+  type VerifyPaymentInput,
+} from "@martly/shared/schemas";
+import {
+  createCheckoutIntent,
+  getCheckoutIntent,
+  getPaymentProvider,
+  toCheckoutResponse,
+  type CheckoutResponse,
 } from "../../services/payment.js";
+import { creditWalletTopup } from "../../services/payment-settlement.js";
 import { sendWalletNotification } from "../../services/notification.js";
+import { getMandateProvider } from "../../services/mandate.js";
+import { forecastWallet, DEFAULT_FORECAST_DAYS } from "../../services/wallet-forecast.js";
+
+// Never return the recurring token to clients
+const AUTO_TOPUP_SELECT = {
+  id: true,
+  enabled: true,
+  threshold: true,
+  topupAmount: true,
+  method: true,
+  mandateStatus: true,
+  label: true,
+  maxAmount: true,
+  authorizedAt: true,
+  lastTopupAt: true,
+  lastFailureAt: true,
+  lastFailureReason: true,
+} as const;
 
 export async function walletRoutes(app: FastifyInstance) {
   // Get wallet balance + recent transactions
@@ -50,7 +76,7 @@ export async function walletRoutes(app: FastifyInstance) {
     return response;
   });
 
-  // Create Razorpay order for wallet recharge
+  // Create payment intent for wallet recharge
   app.post<{ Body: { amount: number } }>(
     "/recharge",
     { preHandler: [authenticate] },
@@ -62,87 +88,238 @@ export async function walletRoutes(app: FastifyInstance) {
         throw Object.assign(new Error("Amount must be between 1 and 50000"), { statusCode: 400 });
       }
 
-      if (!isRazorpayConfigured()) {
+      const provider = getPaymentProvider();
+      if (!provider.isConfigured()) {
         throw Object.assign(new Error("Payment gateway not configured"), { statusCode: 503 });
       }
 
-      const customerId = await ensureRazorpayCustomer(app.prisma, user.sub);
-      const amountInPaise = Math.round(amount * 100);
-      const receipt = `w_${user.sub.slice(0, 8)}_${Date.now()}`;
-      const rpOrder = await createRazorpayOrder(amountInPaise, receipt, customerId);
+      const intent = await createCheckoutIntent(app.prisma, "WALLET", {
+        amountInPaise: Math.round(amount * 100),
+        receipt: `w_${user.sub.slice(0, 8)}_${Date.now()}`,
+        userId: user.sub,
+        notes: { type: "wallet", userId: user.sub },
+      });
 
       return {
         success: true,
-        data: {
-          razorpay_order_id: rpOrder.id,
-          amount: amountInPaise,
-          currency: "INR",
-          key_id: getRazorpayKeyId(),
-          customer_id: customerId,
-        },
-      } satisfies ApiResponse<{
-        razorpay_order_id: string;
-        amount: number;
-        currency: string;
-        key_id: string;
-        customer_id: string;
-      }>;
+        data: toCheckoutResponse(intent),
+      } satisfies ApiResponse<CheckoutResponse>;
     },
   );
 
-  // Verify Razorpay payment and credit wallet
-  app.post<{
-    Body: {
-      razorpay_payment_id: string;
-      razorpay_order_id: string;
-      razorpay_signature: string;
-      amount: number;
-    };
-  }>(
+  // Verify recharge payment and credit wallet
+  app.post<{ Body: VerifyPaymentInput }>(
     "/recharge/verify",
     { preHandler: [authenticate] },
     async (request, reply) => {
       const user = request.user as { sub: string };
-      const { razorpay_payment_id, razorpay_order_id, razorpay_signature, amount } = request.body;
-
-      if (!razorpay_payment_id || !razorpay_order_id || !razorpay_signature || !amount) {
-        throw Object.assign(new Error("Missing payment verification fields"), { statusCode: 400 });
-      }
+      const body = verifyPaymentSchema.parse(request.body);
 
-      const valid = verifyRazorpaySignature(razorpay_order_id, razorpay_payment_id, razorpay_signature);
-      if (!valid) {
+      // Verify with the provider and amount the recharge was opened with
+      const checkout = await getCheckoutIntent(app.prisma, user.sub, "WALLET", body.providerOrderId);
+      const provider = getPaymentProvider(checkout.provider);
+      if (!provider.verifyPayment(body)) {
         throw Object.assign(new Error("Invalid payment signature"), { statusCode: 400 });
       }
 
-      const creditAmount = amount / 100; // paise → rupees
-
-      const updated = await app.prisma.$transaction(async (tx) => {
-        const updatedUser = await tx.user.update({
-          where: { id: user.sub },
-          data: { walletBalance: { increment: creditAmount } },
-          select: { walletBalance: true },
-        });
-
-        await tx.walletTransaction.create({
-          data: {
-            userId: user.sub,
-            type: "CREDIT",
-            amount: creditAmount,
-            balanceAfter: updatedUser.walletBalance,
-            description: `Wallet recharge via Razorpay`,
-          },
-        });
+      // Credit what the provider actually captured, not what the client reports
+      const payment = await provider.capturePayment(body.providerPaymentId, checkout.amountInPaise);
+      if (payment.status !== "captured" || payment.providerOrderId !== checkout.providerOrderId) {
+        throw Object.assign(new Error("Payment has not been captured"), { statusCode: 400 });
+      }
 
-        return updatedUser;
+      // Shared with the provider webhook — idempotent on the payment id
+      const { balance } = await creditWalletTopup(app.prisma, {
+        userId: user.sub,
+        amountInPaise: payment.amountInPaise,
+        provider: provider.name,
+        providerPaymentId: payment.id,
       });
 
       return {
         success: true,
-        data: { balance: Number(updated.walletBalance) },
+        data: { balance },
       } satisfies ApiResponse<{ balance: number }>;
     },
   );
 
+  // Project the balance over the next days from subscriptions, overrides and add-ons
+  app.get<{ Querystring: { days?: number } }>(
+    "/forecast",
+    { preHandler: [authenticate] },
+    async (request) => {
+      const user = request.user as { sub: string };
+      const days = Number(request.query.days ?? DEFAULT_FORECAST_DAYS) || DEFAULT_FORECAST_DAYS;
+
+      const [forecast, settings] = await Promise.all([
+        forecastWallet(app.prisma, user.sub, days),
+        app.prisma.user.findUniqueOrThrow({ where: { id: user.sub }, select: { lowBalanceAlertDays: true } }),
+      ]);
+
+      const data = { ...forecast, lowBalanceAlertDays: settings.lowBalanceAlertDays };
+      return { success: true, data } satisfies ApiResponse<typeof data>;
+    },
+  );
+
+  // Low-balance push alerts: how many days ahead to warn, or null for off
+  app.put(
+    "/alerts",
+    { preHandler: [authenticate] },
+    async (request) => {
+      const user = request.user as { sub: string };
+      const body = walletAlertSettingsSchema.parse(request.body);
+
+      const updated = await app.prisma.user.update({
+        where: { id: user.sub },
+        // A new setting deserves a fresh alert
+        data: { lowBalanceAlertDays: body.lowBalanceAlertDays, lowBalanceAlertedFor: null },
+        select: { lowBalanceAlertDays: true },
+      });
+
+      return { success: true, data: updated } satisfies ApiResponse<typeof updated>;
+    },
+  );
+
+  // ── Auto top-up ─────────────────────────────────────
+  app.get(
+    "/auto-topup",
+    { preHandler: [authenticate] },
+    async (request) => {
+      const user = request.user as { sub: string };
+      const rule = await app.prisma.walletAutoTopup.findUnique({
+        where: { userId: user.sub },
+        select: AUTO_TOPUP_SELECT,
+      });
+      return { success: true, data: rule } satisfies ApiResponse<typeof rule>;
+    },
+  );
+
+  // Start setting up a rule — returns checkout params for the UPI / card mandate authorization
+  app.post(
+    "/auto-topup",
+    { preHandler: [authenticate] },
+    async (request, reply) => {
+      const user = request.user as { sub: string };
+      const body = createWalletAutoTopupSchema.parse(request.body);
+
+      const existing = await app.prisma.walletAutoTopup.findUnique({ where: { userId: user.sub } });
+      if (existing?.mandateStatus === "ACTIVE") {
+        return reply.conflict("Auto top-up is already set up. Change it, or turn it off first.");
+      }
+
+      const provider = getMandateProvider();
+      if (!provider.isConfigured()) {
+        throw Object.assign(new Error("Payment gateway not configured"), { statusCode: 503 });
+      }
+
+      // Room for raising the top-up later without authorizing again
+      const maxAmount = Math.min(15000, Math.ceil((body.topupAmount * 2) / 100) * 100);
+      const setup = await provider.createMandate(app.prisma, {
+        userId: user.sub,
+        reference: user.sub,
+        method: body.method,
+        maxAmountInPaise: Math.round(maxAmount * 100),
+      });
+
+      const fields = {
+        threshold: body.threshold,
+        topupAmount: body.topupAmount,
+        provider: setup.provider,
+        method: body.method,
+        mandateStatus: "PENDING" as const,
+        setupOrderId: setup.setupOrderId,
+        maxAmount,
+      };
+      await app.prisma.walletAutoTopup.upsert({
+        where: { userId: user.sub },
+        create: { userId: user.sub, ...fields },
+        update: fields,
+      });
+
+      const data = {
+        maxAmount,
+        provider: setup.provider,
+        provider_order_id: setup.setupOrderId,
+        amount: setup.amountInPaise,
+        currency: "INR",
+        ...setup.checkout,
+      };
+      return { success: true, data } satisfies ApiResponse<typeof data>;
+    },
+  );
+
+  // Body is what the checkout sheet returned
+  app.post<{ Body: VerifyPaymentInput }>(
+    "/auto-topup/confirm",
+    { preHandler: [authenticate] },
+    async (request, reply) => {
+      const user = request.user as { sub: string };
+      const body = verifyPaymentSchema.parse(request.body);
+
+      const rule = await app.prisma.walletAutoTopup.findUnique({ where: { userId: user.sub } });
+      if (!rule || rule.setupOrderId !== body.providerOrderId) return reply.notFound("Auto top-up setup not found");
+      if (rule.mandateStatus !== "PENDING") return reply.badRequest("Auto top-up is already confirmed");
+
+      const authorization = await getMandateProvider(rule.provider).confirmMandate(body);
+      const updated = await app.prisma.walletAutoTopup.update({
+        where: { id: rule.id },
+        data: {
+          mandateStatus: "ACTIVE",
+          enabled: true,
+          token: authorization.token,
+          label: authorization.label,
+          authorizedAt: new Date(),
+        },
+        select: AUTO_TOPUP_SELECT,
+      });
+
+      return { success: true, data: updated } satisfies ApiResponse<typeof updated>;
+    },
+  );
+
+  app.patch(
+    "/auto-topup",
+    { preHandler: [authenticate] },
+    async (request, reply) => {
+      const user = request.user as { sub: string };
+      const body = updateWalletAutoTopupSchema.parse(request.body);
+
+      const rule = await app.prisma.walletAutoTopup.findUnique({ where: { userId: user.sub } });
+      if (!rule) return reply.notFound("Auto top-up is not set up");
+      if (body.topupAmount !== undefined && body.topupAmount > Number(rule.maxAmount)) {
+        return reply.badRequest(
+          `Top-up amount is above your mandate limit of \u20B9${Number(rule.maxAmount)}. Turn auto top-up off and set it up again to raise it.`,
+        );
+      }
+
+      const updated = await app.prisma.walletAutoTopup.update({
+        where: { id: rule.id },
+        data: body,
+        select: AUTO_TOPUP_SELECT,
+      });
+      return { success: true, data: updated } satisfies ApiResponse<typeof updated>;
+    },
+  );
+
+  // Revoke the mandate and remove the rule
+  app.delete(
+    "/auto-topup",
+    { preHandler: [authenticate] },
+    async (request, reply) => {
+      const user = request.user as { sub: string };
+
+      const rule = await app.prisma.walletAutoTopup.findUnique({ where: { userId: user.sub } });
+      if (!rule) return reply.notFound("Auto top-up is not set up");
+
+      if (rule.token) {
+        await getMandateProvider(rule.provider).cancel(app.prisma, user.sub, rule.token);
+      }
+      await app.prisma.walletAutoTopup.delete({ where: { id: rule.id } });
+
+      return { success: true, data: { deleted: true } } satisfies ApiResponse<{ deleted: boolean }>;
+    },
+  );
+
   // Admin: Get wallet balance + transactions for a specific user
   app.get<{ Params: { userId: string } }>(
     "/admin/:userId",
@@ -0,0 +1,97 @@
+import { Prisma, type PrismaClient } from "../../generated/prisma/client.js";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+/** Units taken from one batch by a stock decrease */
+export interface BatchAllocation {
+  batchId: string;
+  lotNumber: string | null;
+  expiryDate: Date | null;
+  quantity: number;
+}
+
+export interface NewBatch {
+  storeProductId: string;
+  quantity: number;
+  lotNumber?: string | null;
+  /** undefined = derive from Product.shelfLifeDays; null = expiry unknown */
+  expiryDate?: Date | null;
+  goodsReceiptId?: string;
+  stockTransferId?: string;
+}
+
+interface BatchRow {
+  id: string;
+  lotNumber: string | null;
+  expiryDate: Date | null;
+  quantity: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Record a received batch for a store product.
+ */
+export async function createBatch(db: Db, batch: NewBatch) {
+  const sp = await db.storeProduct.findUniqueOrThrow({
+    where: { id: batch.storeProductId },
+    select: { storeId: true, product: { select: { shelfLifeDays: true } } },
+  });
+
+  const receivedAt = new Date();
+  let expiryDate = batch.expiryDate;
+  if (expiryDate === undefined) {
+    const shelfLifeDays = sp.product.shelfLifeDays;
+    expiryDate = shelfLifeDays ? new Date(receivedAt.getTime() + shelfLifeDays * DAY_MS) : null;
+  }
+
+  return db.inventoryBatch.create({
+    data: {
+      storeProductId: batch.storeProductId,
+      storeId: sp.storeId,
+      lotNumber: batch.lotNumber,
+      receivedAt,
+      expiryDate,
+      quantityReceived: batch.quantity,
+      quantity: batch.quantity,
+      goodsReceiptId: batch.goodsReceiptId,
+      stockTransferId: batch.stockTransferId,
+    },
+  });
+}
+
+/**
+ * Take units out of a store product's batches, first-expiry-first-out.
+ * Undated batches go after dated ones, oldest received first. A preferred batch
+ * (e.g. the one being written off) is consumed before the rest.
+ * Returns what was taken — anything beyond that came from untracked stock.
+ */
+export async function consumeBatches(
+  tx: Prisma.TransactionClient,
+  storeProductId: string,
+  quantity: number,
+  preferBatchId?: string,
+): Promise<BatchAllocation[]> {
+  const prefer = preferBatchId ? Prisma.sql`(id = ${preferBatchId}) DESC,` : Prisma.empty;
+  const batches = await tx.$queryRaw<BatchRow[]>`
+    SELECT id, lot_number AS "lotNumber", expiry_date AS "expiryDate", quantity
+    FROM inventory_batches
+    WHERE store_product_id = ${storeProductId} AND quantity > 0
+    ORDER BY ${prefer} expiry_date ASC NULLS LAST, received_at ASC
+    FOR UPDATE
+  `;
+
+  const allocations: BatchAllocation[] = [];
+  let remaining = quantity;
+  for (const batch of batches) {
+    if (remaining <= 0) break;
+    const take = Math.min(batch.quantity, remaining);
+    await tx.inventoryBatch.update({
+      where: { id: batch.id },
+      data: { quantity: { decrement: take } },
+    });
+    allocations.push({ batchId: batch.id, lotNumber: batch.lotNumber, expiryDate: batch.expiryDate, quantity: take });
+    remaining -= take;
+  }
+  return allocations;
+}
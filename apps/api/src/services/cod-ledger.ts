@@ -0,0 +1,147 @@
+import type { Prisma, PrismaClient } from "../../generated/prisma/client.js";
+import { CASH_NOTE_DENOMINATIONS } from "@martly/shared/constants";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export type HandoverStatus = "BALANCED" | "SHORT" | "EXCESS";
+
+export interface RiderCash {
+  /** Collected and not yet handed over */
+  amount: number;
+  orders: number;
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Record the cash a rider collected for a delivered COD order. The rider is the
+ * order's trip rider unless given; orders without one (store pickup) aren't
+ * tracked — that cash is already at the counter. Safe to call twice.
+ */
+export async function recordCodCollection(
+  db: Db,
+  orderId: string,
+  opts: { riderId?: string; collectedAmount?: number; note?: string } = {},
+) {
+  const existing = await db.codCollection.findUnique({ where: { orderId } });
+  if (existing) return existing;
+
+  const order = await db.order.findUnique({
+    where: { id: orderId },
+    select: {
+      paymentMethod: true, totalAmount: true, storeId: true, deliveryTripId: true,
+      deliveryTrip: { select: { riderId: true } },
+    },
+  });
+  if (!order || order.paymentMethod !== "COD") return null;
+
+  const riderId = opts.riderId ?? order.deliveryTrip?.riderId;
+  if (!riderId) return null;
+
+  const expectedAmount = Number(order.totalAmount);
+  return db.codCollection.create({
+    data: {
+      orderId,
+      riderId,
+      storeId: order.storeId,
+      tripId: order.deliveryTripId,
+      expectedAmount,
+      collectedAmount: opts.collectedAmount ?? expectedAmount,
+      note: opts.note,
+    },
+  });
+}
+
+/** Cash each rider is holding at a store */
+export async function getCashInHandByRider(db: Db, storeId: string): Promise<Map<string, RiderCash>> {
+  const rows = await db.codCollection.groupBy({
+    by: ["riderId"],
+    where: { storeId, handoverId: null },
+    _sum: { collectedAmount: true },
+    _count: { id: true },
+  });
+  return new Map(rows.map((r) => [r.riderId, { amount: Number(r._sum.collectedAmount ?? 0), orders: r._count.id }]));
+}
+
+/** Cash one rider is holding at a store */
+export async function getCashInHand(db: Db, riderId: string, storeId: string): Promise<RiderCash> {
+  const row = await db.codCollection.aggregate({
+    where: { riderId, storeId, handoverId: null },
+    _sum: { collectedAmount: true },
+    _count: { id: true },
+  });
+  return { amount: Number(row._sum.collectedAmount ?? 0), orders: row._count.id };
+}
+
+/** The store's rider cash limit, null when riders can hold any amount */
+export async function getRiderCashLimit(db: Db, storeId: string): Promise<number | null> {
+  const store = await db.store.findUnique({ where: { id: storeId }, select: { riderCashLimit: true } });
+  return store?.riderCashLimit != null ? Number(store.riderCashLimit) : null;
+}
+
+/** At or over the limit — no more COD orders until the rider hands over */
+export function isOverCashLimit(cashInHand: number, limit: number | null): boolean {
+  return limit != null && cashInHand >= limit;
+}
+
+/** Total of a denomination count: note counts keyed by face value, plus loose coins */
+export function countCash(denominations: Record<string, number>, coins: number): number {
+  const notes = CASH_NOTE_DENOMINATIONS.reduce((sum, value) => sum + value * (denominations[String(value)] ?? 0), 0);
+  return roundMoney(notes + coins);
+}
+
+export function handoverStatus(variance: number): HandoverStatus {
+  if (variance < 0) return "SHORT";
+  if (variance > 0) return "EXCESS";
+  return "BALANCED";
+}
+
+/**
+ * Settle everything a rider is holding at a store against the cash counted at
+ * the counter. Throws 400 when the rider has nothing to hand over.
+ */
+export async function createCodHandover(
+  db: Db,
+  input: {
+    riderId: string;
+    storeId: string;
+    denominations: Record<string, number>;
+    coins: number;
+    note?: string;
+    receivedById: string;
+  },
+) {
+  const pending = await db.codCollection.findMany({
+    where: { riderId: input.riderId, storeId: input.storeId, handoverId: null },
+    select: { id: true, collectedAmount: true },
+  });
+  if (pending.length === 0) {
+    throw Object.assign(new Error("Rider has no cash to hand over"), { statusCode: 400 });
+  }
+
+  const expectedAmount = roundMoney(pending.reduce((sum, c) => sum + Number(c.collectedAmount), 0));
+  const countedAmount = countCash(input.denominations, input.coins);
+  const variance = roundMoney(countedAmount - expectedAmount);
+
+  const handover = await db.codHandover.create({
+    data: {
+      riderId: input.riderId,
+      storeId: input.storeId,
+      expectedAmount,
+      countedAmount,
+      variance,
+      status: handoverStatus(variance),
+      denominations: { ...input.denominations, coins: input.coins },
+      note: input.note,
+      receivedById: input.receivedById,
+    },
+  });
+  await db.codCollection.updateMany({
+    where: { id: { in: pending.map((c) => c.id) } },
+    data: { handoverId: handover.id },
+  });
+
+  return { ...handover, orders: pending.length };
+}
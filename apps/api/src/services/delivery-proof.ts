@@ -0,0 +1,97 @@
+import { randomInt } from "crypto";
+import type { Prisma, PrismaClient } from "../../generated/prisma/client.js";
+import type { Decimal } from "../../generated/prisma/runtime/library.js";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+/** Wrong codes allowed before the rider has to ask the store to confirm the delivery */
+export const MAX_DELIVERY_OTP_ATTEMPTS = 5;
+
+interface OtpPolicy {
+  deliveryOtpMinAmount: Decimal | number | null;
+  deliveryOtpOnlinePaid: boolean;
+}
+
+interface OtpOrder {
+  fulfillmentType: string;
+  paymentMethod: string;
+  totalAmount: Decimal | number;
+}
+
+export function generateDeliveryOtp(): string {
+  return randomInt(0, 10000).toString().padStart(4, "0");
+}
+
+/** Whether the store's policy requires an OTP handoff for this order */
+export function requiresDeliveryOtp(store: OtpPolicy, order: OtpOrder): boolean {
+  if (order.fulfillmentType !== "DELIVERY") return false;
+  if (store.deliveryOtpOnlinePaid && order.paymentMethod === "ONLINE") return true;
+  return store.deliveryOtpMinAmount != null && Number(order.totalAmount) >= Number(store.deliveryOtpMinAmount);
+}
+
+/**
+ * Issue an OTP for an existing order if policy now requires one (e.g. an edit
+ * pushed the total over the store's threshold). Existing codes are kept.
+ */
+export async function ensureDeliveryOtp(db: Db, orderId: string, store: OtpPolicy, order: OtpOrder) {
+  if (!requiresDeliveryOtp(store, order)) return;
+  const proof = await db.deliveryProof.findUnique({ where: { orderId }, select: { otp: true } });
+  if (proof?.otp) return;
+  await db.deliveryProof.upsert({
+    where: { orderId },
+    create: { orderId, otp: generateDeliveryOtp() },
+    update: { otp: generateDeliveryOtp() },
+  });
+}
+
+/**
+ * Check the code a rider entered. Returns whether the order had an OTP to verify.
+ * Wrong attempts are counted on the spot, so call this outside the delivery
+ * transaction — a failed check must not be rolled back.
+ */
+export async function verifyDeliveryOtp(db: Db, orderId: string, otp: string | undefined): Promise<boolean> {
+  const proof = await db.deliveryProof.findUnique({ where: { orderId } });
+  if (!proof?.otp) return false;
+  if (proof.otpVerifiedAt) return true;
+
+  if (proof.otpAttempts >= MAX_DELIVERY_OTP_ATTEMPTS) {
+    throw Object.assign(new Error("Too many incorrect codes — ask the store to confirm this delivery"), { statusCode: 429 });
+  }
+  if (!otp) {
+    throw Object.assign(new Error("Ask the customer for their 4-digit delivery code"), { statusCode: 400 });
+  }
+  if (otp !== proof.otp) {
+    const updated = await db.deliveryProof.update({
+      where: { orderId },
+      data: { otpAttempts: { increment: 1 } },
+    });
+    const left = MAX_DELIVERY_OTP_ATTEMPTS - updated.otpAttempts;
+    throw Object.assign(
+      new Error(left > 0 ? `Incorrect delivery code — ${left} attempt${left === 1 ? "" : "s"} left` : "Incorrect delivery code — ask the store to confirm this delivery"),
+      { statusCode: 400 },
+    );
+  }
+
+  await db.deliveryProof.update({ where: { orderId }, data: { otpVerifiedAt: new Date() } });
+  return true;
+}
+
+/** Store the rider's evidence when an order is handed over */
+export async function recordDeliveryProof(
+  db: Db,
+  orderId: string,
+  evidence: { riderId: string; photoUrl?: string; lat?: number; lng?: number },
+) {
+  const data = {
+    riderId: evidence.riderId,
+    photoUrl: evidence.photoUrl,
+    deliveredLat: evidence.lat,
+    deliveredLng: evidence.lng,
+    deliveredAt: new Date(),
+  };
+  await db.deliveryProof.upsert({
+    where: { orderId },
+    create: { orderId, ...data },
+    update: data,
+  });
+}
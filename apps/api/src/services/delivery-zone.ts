@@ -0,0 +1,79 @@
+import type { PrismaClient } from "../../generated/prisma/client.js";
+
+/** GeoJSON Polygon as stored on DeliveryZone.polygon — rings of [lng, lat] */
+export interface GeoJsonPolygon {
+  type: "Polygon";
+  coordinates: number[][][];
+}
+
+export interface PolygonZone {
+  id: string;
+  name: string;
+  deliveryFee: number;
+  estimatedMinutes: number;
+  priority: number;
+  polygon: GeoJsonPolygon;
+}
+
+/** Ray casting against one ring; points exactly on an edge may land either side */
+function inRing(lat: number, lng: number, ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Inside the outer ring and outside every hole */
+export function pointInPolygon(lat: number, lng: number, polygon: GeoJsonPolygon): boolean {
+  const [outer, ...holes] = polygon.coordinates;
+  if (!outer || !inRing(lat, lng, outer)) return false;
+  return !holes.some((hole) => inRing(lat, lng, hole));
+}
+
+/**
+ * Active polygon zones per store, highest priority first (oldest first on a
+ * tie, so overlaps resolve the same way every time).
+ */
+export async function loadPolygonZones(prisma: PrismaClient, storeIds: string[]): Promise<Map<string, PolygonZone[]>> {
+  const links = await prisma.storeDeliveryZone.findMany({
+    where: { storeId: { in: storeIds }, deliveryZone: { isActive: true } },
+    include: { deliveryZone: true },
+    orderBy: [{ deliveryZone: { priority: "desc" } }, { deliveryZone: { createdAt: "asc" } }],
+  });
+
+  const byStore = new Map<string, PolygonZone[]>();
+  for (const { storeId, deliveryZone: zone } of links) {
+    if (!zone.polygon) continue;
+    byStore.set(storeId, [
+      ...(byStore.get(storeId) ?? []),
+      {
+        id: zone.id,
+        name: zone.name,
+        deliveryFee: Number(zone.deliveryFee),
+        estimatedMinutes: zone.estimatedMinutes,
+        priority: zone.priority,
+        polygon: zone.polygon as unknown as GeoJsonPolygon,
+      },
+    ]);
+  }
+  return byStore;
+}
+
+/** The winning zone containing the point, or null when it falls outside them all */
+export function matchPolygonZone(zones: PolygonZone[], lat: number, lng: number): PolygonZone | null {
+  return zones.find((zone) => pointInPolygon(lat, lng, zone.polygon)) ?? null;
+}
+
+/**
+ * Polygon serviceability for one store. `hasPolygons` is false when the store
+ * has no active polygon zones, and callers fall back to radius and tiers.
+ */
+export async function findPolygonZone(prisma: PrismaClient, storeId: string, lat: number, lng: number) {
+  const zones = (await loadPolygonZones(prisma, [storeId])).get(storeId) ?? [];
+  return { hasPolygons: zones.length > 0, zone: matchPolygonZone(zones, lat, lng) };
+}
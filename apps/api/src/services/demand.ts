@@ -0,0 +1,112 @@
+import type { PrismaClient } from "../../generated/prisma/client.js";
+
+export interface DemandRow {
+  storeProductId: string;
+  productName: string;
+  variantName: string;
+  imageUrl: string | null;
+  currentStock: number;
+  avgDailyDemand: number;
+  daysOfStockLeft: number;
+  totalQuantitySold: number;
+  totalOrders: number;
+  lastOrderDate: string;
+}
+
+export async function computeDemand(
+  prisma: PrismaClient,
+  storeId: string,
+  days: number,
+): Promise<DemandRow[]> {
+  const since = new Date();
+  since.setDate(since.getDate() - days);
+
+  const rows = await prisma.$queryRaw<
+    Array<{
+      store_product_id: string;
+      product_name: string;
+      variant_name: string;
+      image_url: string | null;
+      current_stock: number;
+      total_quantity: bigint;
+      total_orders: bigint;
+      distinct_days: bigint;
+      last_order_date: Date;
+    }>
+  >`
+    SELECT
+      sp.id AS store_product_id,
+      p.name AS product_name,
+      pv.name AS variant_name,
+      COALESCE(p.image_url, pv.image_url) AS image_url,
+      (sp.stock - sp.reserved_stock) AS current_stock,
+      SUM(oi.quantity) AS total_quantity,
+      COUNT(DISTINCT oi.order_id) AS total_orders,
+      COUNT(DISTINCT DATE(o.created_at)) AS distinct_days,
+      MAX(o.created_at) AS last_order_date
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    JOIN store_products sp ON sp.id = oi.store_product_id
+    JOIN products p ON p.id = sp.product_id
+    JOIN product_variants pv ON pv.id = sp.variant_id
+    WHERE o.store_id = ${storeId}
+      AND o.status = 'DELIVERED'
+      AND o.created_at >= ${since}
+    GROUP BY sp.id, p.name, pv.name, p.image_url, pv.image_url, sp.stock, sp.reserved_stock
+    ORDER BY total_quantity DESC
+  `;
+
+  return rows.map((r) => {
+    const distinctDays = Number(r.distinct_days) || 1;
+    const totalQty = Number(r.total_quantity);
+    const avgDaily = totalQty / distinctDays;
+    const availableStock = Math.max(r.current_stock, 0);
+    const daysLeft = avgDaily > 0 ? availableStock / avgDaily : Infinity;
+
+    return {
+      storeProductId: r.store_product_id,
+      productName: r.product_name,
+      variantName: r.variant_name,
+      imageUrl: r.image_url,
+      currentStock: r.current_stock,
+      avgDailyDemand: Math.round(avgDaily * 100) / 100,
+      daysOfStockLeft: daysLeft === Infinity ? -1 : Math.round(daysLeft * 10) / 10,
+      totalQuantitySold: totalQty,
+      totalOrders: Number(r.total_orders),
+      lastOrderDate: r.last_order_date.toISOString(),
+    };
+  });
+}
+
+export interface ReorderSuggestion extends DemandRow {
+  suggestedReorderQty: number;
+  urgency: "critical" | "warning" | "info";
+}
+
+/**
+ * Products that will run out within thresholdDays at the last 30 days' pace,
+ * most urgent first. Suggested quantity covers two weeks of demand.
+ */
+export async function getReorderSuggestions(
+  prisma: PrismaClient,
+  storeId: string,
+  thresholdDays: number,
+): Promise<ReorderSuggestion[]> {
+  const demand = await computeDemand(prisma, storeId, 30);
+
+  return demand
+    .filter((d) => d.daysOfStockLeft >= 0 && d.daysOfStockLeft <= thresholdDays)
+    .map((d) => {
+      let urgency: "critical" | "warning" | "info";
+      if (d.daysOfStockLeft <= 2) urgency = "critical";
+      else if (d.daysOfStockLeft <= 5) urgency = "warning";
+      else urgency = "info";
+
+      return {
+        ...d,
+        suggestedReorderQty: Math.ceil(d.avgDailyDemand * 14),
+        urgency,
+      };
+    })
+    .sort((a, b) => a.daysOfStockLeft - b.daysOfStockLeft);
+}
@@ -0,0 +1,26 @@
+import crypto from "crypto";
+import type { FastifyInstance } from "fastify";
+
+/**
+ * Short-lived signed URLs for documents the apps open in a browser, which can't send the
+ * bearer token. They are signed with their own key (DOWNLOAD_LINK_SECRET, or one derived
+ * from JWT_SECRET), so a link token never passes authenticate and an access token never
+ * opens a download.
+ */
+
+const key =
+  process.env.DOWNLOAD_LINK_SECRET ??
+  crypto.createHmac("sha256", process.env.JWT_SECRET ?? "dev-secret-change-me").update("download-link").digest("hex");
+
+const EXPIRES_IN = "5m";
+
+export type DownloadTokenPayload = { type: string } & Record<string, string>;
+
+export function signDownloadToken(app: FastifyInstance, payload: DownloadTokenPayload) {
+  return app.jwt.sign(payload, { key, expiresIn: EXPIRES_IN });
+}
+
+/** Throws if the token is malformed, expired or wasn't signed as a download link */
+export function verifyDownloadToken<T extends DownloadTokenPayload>(app: FastifyInstance, token: string) {
+  return app.jwt.verify<Partial<T>>(token, { key });
+}
@@ -0,0 +1,224 @@
+import type { PrismaClient } from "../../generated/prisma/client.js";
+import { haversine, type DirectionsResult } from "../lib/geo.js";
+import { istHour } from "../utils/timezone.js";
+
+/** History window the model learns from */
+const LOOKBACK_DAYS = 30;
+/** Fewer samples than this for an hour and the store-wide figure is used instead */
+const MIN_SAMPLES = 5;
+/** Samples longer than these are abandoned or stuck orders, not signal */
+const MAX_PREP_MINUTES = 180;
+const MAX_LEG_MINUTES = 120;
+
+// Used until a store has enough history
+const DEFAULT_PREP_MINUTES = 15;
+const DEFAULT_MINUTES_PER_KM = 3; // ~20 km/h city riding
+const DEFAULT_STOP_MINUTES = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface EtaModel {
+  prepMinutes: number;
+  minutesPerKm: number;
+  stopMinutes: number;
+  /** Prep and/or travel figures come from the store's history rather than defaults */
+  trained: boolean;
+}
+
+interface TravelSample {
+  hour: number;
+  km: number;
+  minutes: number;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Least-squares fit of leg minutes = stopMinutes + minutesPerKm × km. When the
+ * fit is degenerate (all legs about the same length, or a negative term) all
+ * the time is put on distance instead.
+ */
+function fitTravel(samples: TravelSample[]): { minutesPerKm: number; stopMinutes: number } | null {
+  if (samples.length < MIN_SAMPLES) return null;
+  const totalKm = samples.reduce((sum, s) => sum + s.km, 0);
+  if (totalKm <= 0) return null;
+
+  const meanKm = totalKm / samples.length;
+  const meanMin = samples.reduce((sum, s) => sum + s.minutes, 0) / samples.length;
+  let sxx = 0;
+  let sxy = 0;
+  for (const s of samples) {
+    sxx += (s.km - meanKm) ** 2;
+    sxy += (s.km - meanKm) * (s.minutes - meanMin);
+  }
+
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const intercept = meanMin - slope * meanKm;
+  if (slope <= 0 || intercept < 0) {
+    return { minutesPerKm: (meanMin * samples.length) / totalKm, stopMinutes: 0 };
+  }
+  return { minutesPerKm: slope, stopMinutes: intercept };
+}
+
+/**
+ * Recompute a store's per-hour ETA stats from the last LOOKBACK_DAYS:
+ * - prep: confirmation (or placement) → READY, for orders not booked into a slot
+ * - travel: each leg of a completed trip, from the store or the previous drop-off
+ *   to the next DELIVERED log, against the straight-line distance of the leg
+ */
+export async function rebuildEtaModel(prisma: PrismaClient, storeId: string) {
+  const since = new Date(Date.now() - LOOKBACK_DAYS * DAY_MS);
+
+  const orders = await prisma.order.findMany({
+    where: { storeId, createdAt: { gte: since }, deliverySlotId: null, status: { not: "CANCELLED" } },
+    select: {
+      createdAt: true,
+      statusLogs: { where: { status: { in: ["CONFIRMED", "READY"] } }, select: { status: true, createdAt: true } },
+    },
+  });
+  const prepByHour = new Map<number, number[]>();
+  for (const order of orders) {
+    const ready = order.statusLogs.find((l) => l.status === "READY");
+    if (!ready) continue;
+    const start = order.statusLogs.find((l) => l.status === "CONFIRMED")?.createdAt ?? order.createdAt;
+    const minutes = (ready.createdAt.getTime() - start.getTime()) / 60_000;
+    if (minutes <= 0 || minutes > MAX_PREP_MINUTES) continue;
+    const hour = istHour(order.createdAt);
+    prepByHour.set(hour, [...(prepByHour.get(hour) ?? []), minutes]);
+  }
+
+  const store = await prisma.store.findUniqueOrThrow({ where: { id: storeId }, select: { latitude: true, longitude: true } });
+  const travelByHour = new Map<number, TravelSample[]>();
+  if (store.latitude != null && store.longitude != null) {
+    const trips = await prisma.deliveryTrip.findMany({
+      where: { storeId, status: "COMPLETED", startedAt: { gte: since } },
+      select: {
+        startedAt: true,
+        orders: {
+          select: {
+            deliveryLat: true,
+            deliveryLng: true,
+            statusLogs: { where: { status: "DELIVERED" }, take: 1, select: { createdAt: true } },
+          },
+        },
+      },
+    });
+    for (const trip of trips) {
+      const drops = trip.orders
+        .filter((o) => o.deliveryLat != null && o.deliveryLng != null && o.statusLogs.length > 0)
+        .map((o) => ({ lat: o.deliveryLat!, lng: o.deliveryLng!, at: o.statusLogs[0].createdAt }))
+        .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+      let prev = { lat: store.latitude, lng: store.longitude, at: trip.startedAt! };
+      for (const drop of drops) {
+        const km = haversine(prev.lat, prev.lng, drop.lat, drop.lng);
+        const minutes = (drop.at.getTime() - prev.at.getTime()) / 60_000;
+        if (minutes > 0 && minutes <= MAX_LEG_MINUTES) {
+          const hour = istHour(prev.at);
+          travelByHour.set(hour, [...(travelByHour.get(hour) ?? []), { hour, km, minutes }]);
+        }
+        prev = drop;
+      }
+    }
+  }
+
+  const hours = new Set([...prepByHour.keys(), ...travelByHour.keys()]);
+  for (const hour of hours) {
+    const prep = prepByHour.get(hour) ?? [];
+    const travel = travelByHour.get(hour) ?? [];
+    const fit = fitTravel(travel);
+    const data = {
+      prepMinutes: prep.length > 0 ? median(prep) : null,
+      prepSamples: prep.length,
+      minutesPerKm: fit?.minutesPerKm ?? null,
+      stopMinutes: fit?.stopMinutes ?? null,
+      travelSamples: travel.length,
+    };
+    await prisma.storeEtaStat.upsert({
+      where: { storeId_hour: { storeId, hour } },
+      create: { storeId, hour, ...data },
+      update: data,
+    });
+  }
+  // Hours with no recent history shouldn't keep stale figures
+  await prisma.storeEtaStat.deleteMany({ where: { storeId, hour: { notIn: [...hours] } } });
+
+  return {
+    prepSamples: [...prepByHour.values()].reduce((sum, v) => sum + v.length, 0),
+    travelSamples: [...travelByHour.values()].reduce((sum, v) => sum + v.length, 0),
+  };
+}
+
+/**
+ * The store's ETA figures for the hour of `at`, falling back to the store-wide
+ * sample-weighted average when that hour is thin, then to defaults.
+ */
+export async function loadEtaModel(prisma: PrismaClient, storeId: string, at: Date = new Date()): Promise<EtaModel> {
+  const stats = await prisma.storeEtaStat.findMany({ where: { storeId } });
+  const hour = istHour(at);
+  const current = stats.find((s) => s.hour === hour);
+
+  let prepMinutes: number | null = null;
+  if (current?.prepMinutes != null && current.prepSamples >= MIN_SAMPLES) {
+    prepMinutes = current.prepMinutes;
+  } else {
+    const rows = stats.filter((s) => s.prepMinutes != null);
+    const samples = rows.reduce((sum, s) => sum + s.prepSamples, 0);
+    if (samples >= MIN_SAMPLES) {
+      prepMinutes = rows.reduce((sum, s) => sum + s.prepMinutes! * s.prepSamples, 0) / samples;
+    }
+  }
+
+  let travel: { minutesPerKm: number; stopMinutes: number } | null = null;
+  if (current?.minutesPerKm != null && current.travelSamples >= MIN_SAMPLES) {
+    travel = { minutesPerKm: current.minutesPerKm, stopMinutes: current.stopMinutes ?? 0 };
+  } else {
+    const rows = stats.filter((s) => s.minutesPerKm != null);
+    const samples = rows.reduce((sum, s) => sum + s.travelSamples, 0);
+    if (samples >= MIN_SAMPLES) {
+      travel = {
+        minutesPerKm: rows.reduce((sum, s) => sum + s.minutesPerKm! * s.travelSamples, 0) / samples,
+        stopMinutes: rows.reduce((sum, s) => sum + (s.stopMinutes ?? 0) * s.travelSamples, 0) / samples,
+      };
+    }
+  }
+
+  return {
+    prepMinutes: prepMinutes ?? DEFAULT_PREP_MINUTES,
+    minutesPerKm: travel?.minutesPerKm ?? DEFAULT_MINUTES_PER_KM,
+    stopMinutes: travel?.stopMinutes ?? DEFAULT_STOP_MINUTES,
+    trained: prepMinutes != null || travel != null,
+  };
+}
+
+/** Minutes for one leg of `km` straight-line distance, including the handoff */
+export function legMinutes(model: EtaModel, km: number): number {
+  return model.stopMinutes + model.minutesPerKm * km;
+}
+
+/** Minutes from placing an order to the door (or to READY for pickup) */
+export function checkoutEtaMinutes(model: EtaModel, distanceKm: number | null): number {
+  const minutes = distanceKm == null ? model.prepMinutes : model.prepMinutes + legMinutes(model, distanceKm);
+  return Math.max(1, Math.round(minutes));
+}
+
+/**
+ * Route timing from the model along straight-line legs through `points`
+ * (rider position first), shaped like a Directions result but without a polyline.
+ */
+export function estimateRoute(model: EtaModel, points: Array<{ lat: number; lng: number }>): DirectionsResult {
+  const legs = points.slice(1).map((point, i) => {
+    const km = haversine(points[i].lat, points[i].lng, point.lat, point.lng);
+    return { durationSeconds: Math.round(legMinutes(model, km) * 60), distanceMeters: Math.round(km * 1000) };
+  });
+  return {
+    polyline: [],
+    legs,
+    totalDurationSeconds: legs.reduce((sum, l) => sum + l.durationSeconds, 0),
+    totalDistanceMeters: legs.reduce((sum, l) => sum + l.distanceMeters, 0),
+  };
+}
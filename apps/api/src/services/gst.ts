@@ -0,0 +1,69 @@
+import { GST_STATES } from "@martly/shared/constants";
+import type { Decimal } from "../../generated/prisma/runtime/library.js";
+
+interface GstLine {
+  totalPrice: number;
+  hsnCode: string | null;
+  gstPercent: Decimal | number | null;
+}
+
+export interface LineTax {
+  hsnCode: string | null;
+  gstPercent: number | null;
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** GST state code for a state name as returned by geocoding (e.g. "Maharashtra" → "27") */
+export function gstStateCode(stateName: string | null | undefined): string | null {
+  if (!stateName) return null;
+  const name = stateName.trim().toLowerCase();
+  const match = Object.entries(GST_STATES).find(([, n]) => n.toLowerCase() === name);
+  return match ? match[0] : null;
+}
+
+/**
+ * IGST applies when goods are supplied to another state. If either state is
+ * unknown the supply is treated as intra-state (CGST + SGST).
+ */
+export function isInterState(storeStateCode: string | null | undefined, placeOfSupply: string | null | undefined): boolean {
+  return !!storeStateCode && !!placeOfSupply && storeStateCode !== placeOfSupply;
+}
+
+/**
+ * Split tax-inclusive line totals into taxable value and GST.
+ * An order-level discount (coupon) lowers the value of supply, so it is
+ * apportioned across lines by value before tax is backed out.
+ * Lines whose product has no GST rate are untaxed.
+ */
+export function calculateLineTaxes(
+  lines: GstLine[],
+  options: { interState: boolean; discount?: number },
+): LineTax[] {
+  const gross = lines.reduce((sum, l) => sum + l.totalPrice, 0);
+  const discount = options.discount ?? 0;
+
+  return lines.map((line) => {
+    const share = gross > 0 ? (discount * line.totalPrice) / gross : 0;
+    const value = Math.max(0, line.totalPrice - share);
+    const rate = line.gstPercent != null ? Number(line.gstPercent) : 0;
+    const taxableValue = round2(value / (1 + rate / 100));
+    const tax = round2(value - taxableValue);
+    const cgstAmount = options.interState ? 0 : round2(tax / 2);
+
+    return {
+      hsnCode: line.hsnCode,
+      gstPercent: line.gstPercent != null ? rate : null,
+      taxableValue,
+      cgstAmount,
+      sgstAmount: options.interState ? 0 : round2(tax - cgstAmount),
+      igstAmount: options.interState ? tax : 0,
+    };
+  });
+}
@@ -0,0 +1,213 @@
+import { GST_STATES } from "@martly/shared/constants";
+import type { Prisma, PrismaClient } from "../../generated/prisma/client.js";
+import { renderPdf, textWidth, PAGE_WIDTH, type PdfOp } from "../lib/pdf.js";
+import { isInterState } from "./gst.js";
+
+const DEFAULT_INVOICE_PREFIX = "INV";
+const MARGIN = 40;
+const ROWS_BOTTOM = 760;
+
+export function formatInvoiceNumber(prefix: string | null, sequence: number): string {
+  return `${prefix ?? DEFAULT_INVOICE_PREFIX}-${String(sequence).padStart(6, "0")}`;
+}
+
+/**
+ * Assign the next invoice number of the order's store. Call inside the
+ * transaction that marks the order delivered, so numbers are gap-free and
+ * follow delivery order. Idempotent — an invoiced order keeps its number.
+ */
+export async function issueInvoice(tx: Prisma.TransactionClient, orderId: string): Promise<string> {
+  // Lock the order so concurrent callers can't both draw a number for it
+  await tx.$queryRaw`SELECT id FROM orders WHERE id = ${orderId} FOR UPDATE`;
+  const order = await tx.order.findUniqueOrThrow({
+    where: { id: orderId },
+    select: { storeId: true, invoiceNumber: true },
+  });
+  if (order.invoiceNumber) return order.invoiceNumber;
+
+  const store = await tx.store.update({
+    where: { id: order.storeId },
+    data: { invoiceSequence: { increment: 1 } },
+    select: { invoicePrefix: true, invoiceSequence: true },
+  });
+  const invoiceNumber = formatInvoiceNumber(store.invoicePrefix, store.invoiceSequence);
+  await tx.order.update({
+    where: { id: orderId },
+    data: { invoiceNumber, invoicedAt: new Date() },
+  });
+  return invoiceNumber;
+}
+
+function money(n: number): string {
+  return n.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function stateLabel(code: string | null): string {
+  if (!code) return "-";
+  return GST_STATES[code] ? `${GST_STATES[code]} (${code})` : code;
+}
+
+function truncate(text: string, width: number, size: number, bold = false): string {
+  if (textWidth(text, size, bold) <= width) return text;
+  let out = text;
+  while (out.length > 1 && textWidth(`${out}...`, size, bold) > width) out = out.slice(0, -1);
+  return `${out}...`;
+}
+
+/**
+ * Render the tax invoice of an invoiced order as a PDF.
+ */
+export async function renderInvoicePdf(db: PrismaClient, orderId: string): Promise<Buffer> {
+  const order = await db.order.findUniqueOrThrow({
+    where: { id: orderId },
+    include: {
+      store: { include: { organization: { select: { name: true } } } },
+      user: { select: { name: true, phone: true } },
+      items: {
+        include: {
+          product: { select: { name: true } },
+          variant: { select: { name: true } },
+        },
+      },
+    },
+  });
+
+  const interState = isInterState(order.store.stateCode, order.placeOfSupply);
+  const pages: PdfOp[][] = [];
+  let ops: PdfOp[] = [];
+  let y = 0;
+
+  const text = (x: number, value: string, opts: { size?: number; bold?: boolean; align?: "left" | "right" } = {}) =>
+    ops.push({ type: "text", x, y, text: value, ...opts });
+  const rule = (width = 0.5) => ops.push({ type: "line", x1: MARGIN, y1: y, x2: PAGE_WIDTH - MARGIN, y2: y, width });
+
+  // Table columns: right-aligned numbers, GST split as CGST + SGST or IGST
+  const right = PAGE_WIDTH - MARGIN;
+  const columns = { qty: 290, price: 340, taxable: 400, rate: 435, cgst: 475, sgst: 515, igst: 515 };
+
+  const tableHeader = () => {
+    rule(1);
+    y += 12;
+    text(MARGIN, "#", { size: 8, bold: true });
+    text(MARGIN + 16, "Item", { size: 8, bold: true });
+    text(220, "HSN", { size: 8, bold: true });
+    text(columns.qty, "Qty", { size: 8, bold: true, align: "right" });
+    text(columns.price, "Price", { size: 8, bold: true, align: "right" });
+    text(columns.taxable, "Taxable", { size: 8, bold: true, align: "right" });
+    text(columns.rate, "GST %", { size: 8, bold: true, align: "right" });
+    if (interState) {
+      text(columns.igst, "IGST", { size: 8, bold: true, align: "right" });
+    } else {
+      text(columns.cgst, "CGST", { size: 8, bold: true, align: "right" });
+      text(columns.sgst, "SGST", { size: 8, bold: true, align: "right" });
+    }
+    text(right, "Amount", { size: 8, bold: true, align: "right" });
+    y += 6;
+    rule();
+    y += 12;
+  };
+
+  const newPage = () => {
+    ops = [];
+    pages.push(ops);
+    y = MARGIN + 10;
+  };
+
+  // ── Header ──
+  newPage();
+  text(MARGIN, order.store.organization.name, { size: 14, bold: true });
+  text(right, "TAX INVOICE", { size: 14, bold: true, align: "right" });
+  y += 16;
+  text(MARGIN, order.store.name, { size: 9 });
+  text(right, `Invoice No: ${order.invoiceNumber ?? "-"}`, { size: 9, align: "right" });
+  y += 12;
+  text(MARGIN, truncate(order.store.address, 280, 9), { size: 9 });
+  text(right, `Invoice Date: ${(order.invoicedAt ?? new Date()).toLocaleDateString("en-IN")}`, { size: 9, align: "right" });
+  y += 12;
+  text(MARGIN, `GSTIN: ${order.store.gstin ?? "-"}`, { size: 9 });
+  text(right, `Order: #${order.id.slice(0, 8)}`, { size: 9, align: "right" });
+  y += 12;
+  text(MARGIN, `State: ${stateLabel(order.store.stateCode)}`, { size: 9 });
+  text(right, `Place of Supply: ${stateLabel(order.placeOfSupply)}`, { size: 9, align: "right" });
+  y += 20;
+
+  text(MARGIN, "Bill To", { size: 9, bold: true });
+  y += 12;
+  text(MARGIN, order.user.phone ? `${order.user.name} (${order.user.phone})` : order.user.name, { size: 9 });
+  y += 12;
+  if (order.deliveryAddress) {
+    text(MARGIN, truncate(order.deliveryAddress, PAGE_WIDTH - 2 * MARGIN, 9), { size: 9 });
+    y += 12;
+  }
+  y += 8;
+
+  // ── Lines ──
+  tableHeader();
+  let taxableTotal = 0;
+  let cgstTotal = 0;
+  let sgstTotal = 0;
+  let igstTotal = 0;
+  order.items.forEach((item, index) => {
+    if (y > ROWS_BOTTOM) {
+      newPage();
+      tableHeader();
+    }
+    const taxable = Number(item.taxableValue ?? item.totalPrice);
+    const cgst = Number(item.cgstAmount ?? 0);
+    const sgst = Number(item.sgstAmount ?? 0);
+    const igst = Number(item.igstAmount ?? 0);
+    taxableTotal += taxable;
+    cgstTotal += cgst;
+    sgstTotal += sgst;
+    igstTotal += igst;
+
+    text(MARGIN, String(index + 1), { size: 8 });
+    text(MARGIN + 16, truncate(`${item.product.name} (${item.variant.name})`, 160, 8), { size: 8 });
+    text(220, item.hsnCode ?? "-", { size: 8 });
+    text(columns.qty, String(item.quantity), { size: 8, align: "right" });
+    text(columns.price, money(Number(item.unitPrice)), { size: 8, align: "right" });
+    text(columns.taxable, money(taxable), { size: 8, align: "right" });
+    text(columns.rate, item.gstPercent != null ? String(Number(item.gstPercent)) : "-", { size: 8, align: "right" });
+    if (interState) {
+      text(columns.igst, money(igst), { size: 8, align: "right" });
+    } else {
+      text(columns.cgst, money(cgst), { size: 8, align: "right" });
+      text(columns.sgst, money(sgst), { size: 8, align: "right" });
+    }
+    text(right, money(taxable + cgst + sgst + igst), { size: 8, align: "right" });
+    y += 14;
+  });
+
+  // ── Totals ──
+  if (y > ROWS_BOTTOM - 100) newPage();
+  rule();
+  y += 14;
+  const deliveryFee = Number(order.deliveryFee);
+  const couponDiscount = Number(order.couponDiscount ?? 0);
+  const totals: [string, number][] = [["Taxable Value", taxableTotal]];
+  if (interState) {
+    totals.push(["IGST", igstTotal]);
+  } else {
+    totals.push(["CGST", cgstTotal], ["SGST", sgstTotal]);
+  }
+  totals.push(["Delivery Charges", deliveryFee]);
+  for (const [label, amount] of totals) {
+    text(430, label, { size: 9 });
+    text(right, money(amount), { size: 9, align: "right" });
+    y += 13;
+  }
+  y += 2;
+  text(430, "Grand Total (Rs.)", { size: 10, bold: true });
+  text(right, money(Number(order.totalAmount)), { size: 10, bold: true, align: "right" });
+  y += 20;
+
+  if (couponDiscount > 0) {
+    text(MARGIN, `Line values are after coupon ${order.couponCode ?? ""} discount of Rs. ${money(couponDiscount)}.`, { size: 8 });
+    y += 12;
+  }
+  text(MARGIN, `Payment: ${order.paymentMethod} (${order.paymentStatus})`, { size: 8 });
+  y += 12;
+  text(MARGIN, "This is a computer-generated invoice and does not require a signature.", { size: 8 });
+
+  return renderPdf(pages);
+}
@@ -0,0 +1,137 @@
+import { PrismaClient, type Prisma } from "../../generated/prisma/client.js";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+/** Wait before a failed unit is tried again */
+const RETRY_DELAY_MS = 10 * 60_000;
+
+/** A unit of scheduled work. Its key must be stable, e.g. "<storeId>:2026-03-22". */
+export interface JobUnit {
+  key: string;
+  organizationId?: string | null;
+  storeId?: string | null;
+  runDate?: Date;
+  /** Due earlier and picked up late */
+  catchUp?: boolean;
+}
+
+export interface JobResult {
+  processed: number;
+  /** Items that failed; any failure marks the run FAILED so it's retried */
+  failed: number;
+  summary?: Record<string, unknown>;
+}
+
+export interface JobDefinition {
+  name: string;
+  /** How often this instance checks for due work */
+  intervalMs: number;
+  startupDelayMs: number;
+  /** Runs of one unit before it is left for someone to look at */
+  maxAttempts: number;
+  /** Every unit due now, including missed ones */
+  due(): Promise<JobUnit[]>;
+  run(unit: JobUnit): Promise<JobResult>;
+}
+
+/**
+ * A client with a single connection of its own, for the job locks. A session
+ * lock belongs to the connection that took it, so taking and releasing it must
+ * go over the same one. It is released too if that connection or this process dies.
+ */
+export function createJobLockClient() {
+  if (!process.env.DATABASE_URL) throw new Error("DATABASE_URL is not set");
+  const url = new URL(process.env.DATABASE_URL);
+  url.searchParams.set("connection_limit", "1");
+  return new PrismaClient({ datasourceUrl: url.toString(), log: ["error"] });
+}
+
+/**
+ * Run `fn` while holding the job's Postgres advisory lock, so only one API
+ * instance works a job at a time. Returns `undefined` when another instance
+ * holds it. `lockClient` comes from createJobLockClient(); `fn` does its work
+ * through the app's own client, so a long run doesn't hold a transaction open.
+ */
+export async function withJobLock<T>(lockClient: PrismaClient, job: string, fn: () => Promise<T>): Promise<T | undefined> {
+  const lockKey = `job:${job}`;
+  const [{ locked }] = await lockClient.$queryRaw<{ locked: boolean }[]>`
+    SELECT pg_try_advisory_lock(hashtext(${lockKey})) AS locked
+  `;
+  if (!locked) return undefined;
+  try {
+    return await fn();
+  } finally {
+    // If the connection dropped, the lock went with it
+    await lockClient.$queryRaw`SELECT pg_advisory_unlock(hashtext(${lockKey}))`.catch(() => undefined);
+  }
+}
+
+/**
+ * Start a run of a unit, or return null when it shouldn't run now: it already
+ * succeeded, used up its attempts, or failed too recently. A RUNNING row was left
+ * by an instance that stopped mid-run (the caller holds the job's lock), so it is
+ * recorded as FAILED first and only taken over if it has attempts left.
+ */
+export async function claimJobRun(db: Db, job: string, unit: JobUnit, maxAttempts: number) {
+  let existing = await db.jobRun.findUnique({ where: { job_key: { job, key: unit.key } } });
+  if (!existing) {
+    return db.jobRun.create({
+      data: {
+        job,
+        key: unit.key,
+        organizationId: unit.organizationId ?? null,
+        storeId: unit.storeId ?? null,
+        runDate: unit.runDate,
+        catchUp: unit.catchUp ?? false,
+      },
+    });
+  }
+
+  const interrupted = existing.status === "RUNNING";
+  if (interrupted) {
+    existing = await db.jobRun.update({
+      where: { id: existing.id },
+      data: { status: "FAILED", error: "Interrupted before it finished", finishedAt: new Date() },
+    });
+  }
+
+  if (existing.status === "SUCCEEDED" || existing.attempts >= maxAttempts) return null;
+  // An interrupted run never got to fail on its own, so it doesn't wait out the retry delay
+  if (!interrupted && existing.finishedAt && Date.now() - existing.finishedAt.getTime() < RETRY_DELAY_MS) return null;
+
+  return db.jobRun.update({
+    where: { id: existing.id },
+    data: {
+      status: "RUNNING",
+      attempts: { increment: 1 },
+      startedAt: new Date(),
+      finishedAt: null,
+      error: null,
+    },
+  });
+}
+
+export async function finishJobRun(db: Db, runId: string, result: JobResult) {
+  return db.jobRun.update({
+    where: { id: runId },
+    data: {
+      status: result.failed > 0 ? "FAILED" : "SUCCEEDED",
+      processed: result.processed,
+      failed: result.failed,
+      summary: (result.summary ?? undefined) as Prisma.InputJsonValue | undefined,
+      error: result.failed > 0 ? `${result.failed} item(s) failed` : null,
+      finishedAt: new Date(),
+    },
+  });
+}
+
+export async function failJobRun(db: Db, runId: string, err: unknown) {
+  return db.jobRun.update({
+    where: { id: runId },
+    data: {
+      status: "FAILED",
+      error: (err instanceof Error ? err.message : String(err)).slice(0, 2000),
+      finishedAt: new Date(),
+    },
+  });
+}
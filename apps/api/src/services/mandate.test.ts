@@ -0,0 +1,295 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Prisma, type MandateCharge, type PrismaClient, type Refund } from "../../generated/prisma/index.js";
+import { registerPaymentProvider, type GatewayRefund, type PaymentProvider } from "./payment.js";
+import {
+  MAX_MANDATE_CHARGE_ATTEMPTS,
+  chargeSubscriptionMandate,
+  registerMandateProvider,
+  settleMandateCharge,
+  type MandateChargeInput,
+  type MandateChargeResult,
+  type MandateProvider,
+} from "./mandate.js";
+
+type FakeCharge = Omit<MandateCharge, "amount"> & { amount: number };
+type FakeRefund = Omit<Refund, "amount"> & { amount: number };
+
+const sub = { id: "sub-1", userId: "user-1" };
+const deliveryDate = new Date("2026-04-02T00:00:00.000Z");
+
+function matches(row: Record<string, unknown>, where: Record<string, unknown>) {
+  return Object.entries(where).every(([field, cond]) =>
+    cond && typeof cond === "object" && "in" in cond
+      ? (cond.in as unknown[]).includes(row[field])
+      : cond instanceof Date
+        ? (row[field] as Date).getTime() === cond.getTime()
+        : row[field] === cond,
+  );
+}
+
+function fakeDb() {
+  const charges: FakeCharge[] = [];
+  const refunds: FakeRefund[] = [];
+  let nextId = 1;
+
+  const findCharge = (where: Record<string, unknown>) => {
+    const { subscriptionId_deliveryDate: key, ...rest } = where as { subscriptionId_deliveryDate?: object };
+    return charges.find((c) => matches(c, key ?? rest)) ?? null;
+  };
+
+  const db = {
+    charges,
+    refunds,
+    subscriptionMandate: {
+      findFirst: async () => ({ id: "mandate-1", userId: sub.userId, provider: "mock", token: "token_1", maxAmount: 1000 }),
+    },
+    mandateCharge: {
+      findUnique: async ({ where }: { where: Record<string, unknown> }) => {
+        const charge = findCharge(where);
+        return charge && { ...charge };
+      },
+      findUniqueOrThrow: async ({ where }: { where: Record<string, unknown> }) => findCharge(where)!,
+      findFirst: async ({ where }: { where: Record<string, unknown> }) => {
+        const charge = findCharge(where);
+        return charge && { ...charge, mandate: { userId: sub.userId } };
+      },
+      upsert: async ({ where, create, update }: { where: Record<string, unknown>; create: object; update: object }) => {
+        const existing = findCharge(where);
+        if (existing) return Object.assign(existing, update);
+        const row = { id: `charge-${nextId++}`, orderId: null, ...create } as FakeCharge;
+        charges.push(row);
+        return row;
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) => {
+        const row = findCharge(where)!;
+        const { attempts, ...rest } = data as { attempts?: { increment: number } };
+        if (attempts) row.attempts += attempts.increment;
+        return Object.assign(row, rest);
+      },
+      updateMany: async ({ where, data }: { where: Record<string, unknown>; data: object }) => {
+        const rows = charges.filter((c) => matches(c, where));
+        for (const row of rows) Object.assign(row, data);
+        return { count: rows.length };
+      },
+    },
+    order: { count: async () => 0 },
+    refund: {
+      create: async ({ data }: { data: Partial<FakeRefund> }) => {
+        if (refunds.some((r) => r.mandateChargeId === data.mandateChargeId && r.providerPaymentId === data.providerPaymentId)) {
+          throw new Prisma.PrismaClientKnownRequestError("Unique constraint failed", { code: "P2002", clientVersion: "6" });
+        }
+        const row = { id: `refund-${nextId++}`, orderId: null, attempts: 0, providerRefundId: null, lastError: null, ...data };
+        refunds.push(row as FakeRefund);
+        return row;
+      },
+      findUnique: async ({ where }: { where: { id: string } }) => refunds.find((r) => r.id === where.id) ?? null,
+      updateMany: async ({ where }: { where: { id: string; attempts: number } }) => {
+        const row = refunds.find((r) => r.id === where.id && r.attempts === where.attempts && !r.providerRefundId);
+        if (!row) return { count: 0 };
+        row.attempts++;
+        return { count: 1 };
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<FakeRefund> }) =>
+        Object.assign(refunds.find((r) => r.id === where.id)!, data),
+    },
+  };
+  return db;
+}
+
+describe("chargeSubscriptionMandate", () => {
+  let charged: MandateChargeInput[];
+  let nextResult: (input: MandateChargeInput) => MandateChargeResult;
+
+  registerMandateProvider({
+    name: "mock",
+    async charge(_prisma: PrismaClient, input: MandateChargeInput) {
+      charged.push(input);
+      return nextResult(input);
+    },
+  } as unknown as MandateProvider);
+
+  const failed = (): MandateChargeResult => ({
+    providerOrderId: `order_${charged.length}`,
+    providerPaymentId: `pay_${charged.length}`,
+    status: "failed",
+    failureReason: "Insufficient funds",
+  });
+
+  beforeEach(() => {
+    charged = [];
+    nextResult = failed;
+  });
+
+  it("retries a failed charge with the same receipt until it runs out of attempts", async () => {
+    const db = fakeDb();
+    const prisma = db as unknown as PrismaClient;
+
+    for (let attempt = 1; attempt < MAX_MANDATE_CHARGE_ATTEMPTS; attempt++) {
+      const outcome = await chargeSubscriptionMandate(prisma, sub, deliveryDate, 250);
+      assert.deepEqual(outcome, { status: "retry", reason: "Insufficient funds", attempts: attempt, pending: false });
+    }
+    const last = await chargeSubscriptionMandate(prisma, sub, deliveryDate, 250);
+    assert.deepEqual(last, { status: "failed", reason: "Insufficient funds" });
+
+    const [charge] = db.charges;
+    assert.equal(db.charges.length, 1);
+    assert.equal(charge.attempts, MAX_MANDATE_CHARGE_ATTEMPTS);
+    assert.deepEqual(new Set(charged.map((c) => c.receipt)), new Set([charge.id]));
+
+    // Out of attempts: nothing more is charged
+    await chargeSubscriptionMandate(prisma, sub, deliveryDate, 250);
+    assert.equal(charged.length, MAX_MANDATE_CHARGE_ATTEMPTS);
+  });
+
+  it("waits on a pending charge instead of charging again", async () => {
+    nextResult = () => ({ providerOrderId: "order_1", providerPaymentId: null, status: "pending" });
+    const db = fakeDb();
+    const prisma = db as unknown as PrismaClient;
+
+    for (let attempt = 1; attempt <= MAX_MANDATE_CHARGE_ATTEMPTS; attempt++) {
+      const outcome = await chargeSubscriptionMandate(prisma, sub, deliveryDate, 250);
+      assert.deepEqual(outcome, {
+        status: "retry",
+        reason: "Waiting for the bank to confirm the payment",
+        attempts: attempt,
+        pending: true,
+      });
+    }
+    assert.equal(charged.length, 1);
+
+    const last = await chargeSubscriptionMandate(prisma, sub, deliveryDate, 250);
+    assert.deepEqual(last, { status: "failed", reason: "No confirmation from the bank" });
+    assert.equal(db.charges[0].status, "ABANDONED");
+    assert.equal(charged.length, 1);
+  });
+
+  it("waits on a charge whose answer never came back", async () => {
+    nextResult = () => {
+      throw new Error("process stopped");
+    };
+    const db = fakeDb();
+    const prisma = db as unknown as PrismaClient;
+    // The row is written before the gateway call; simulate a crash right after it
+    const pendingCharge = await db.mandateCharge.upsert({
+      where: { subscriptionId_deliveryDate: { subscriptionId: sub.id, deliveryDate } },
+      create: { mandateId: "mandate-1", subscriptionId: sub.id, deliveryDate, amount: 250, status: "PENDING", attempts: 1 },
+      update: {},
+    });
+
+    const outcome = await chargeSubscriptionMandate(prisma, sub, deliveryDate, 250);
+    assert.equal(outcome.status, "retry");
+    assert.equal(charged.length, 0);
+    assert.equal(pendingCharge.attempts, 2);
+  });
+
+  it("reuses a captured charge", async () => {
+    nextResult = () => ({ providerOrderId: "order_1", providerPaymentId: "pay_1", status: "captured" });
+    const db = fakeDb();
+    const prisma = db as unknown as PrismaClient;
+
+    const first = await chargeSubscriptionMandate(prisma, sub, deliveryDate, 250);
+    const second = await chargeSubscriptionMandate(prisma, sub, deliveryDate, 250);
+    assert.equal(first.status, "captured");
+    assert.equal(second.status, "captured");
+    assert.equal(charged.length, 1);
+  });
+});
+
+describe("settleMandateCharge", () => {
+  let refundsSent: { providerPaymentId: string; amountInPaise: number; receipt: string }[];
+  let failWith: unknown;
+
+  registerPaymentProvider({
+    name: "mock",
+    async refund(providerPaymentId: string, amountInPaise: number, { receipt }: { receipt: string }) {
+      if (failWith) throw failWith;
+      refundsSent.push({ providerPaymentId, amountInPaise, receipt });
+      return { id: `rfnd_${refundsSent.length}`, status: "pending" } satisfies GatewayRefund;
+    },
+    async findRefund() {
+      return null;
+    },
+  } as unknown as PaymentProvider);
+
+  beforeEach(() => {
+    refundsSent = [];
+    failWith = undefined;
+  });
+
+  function chargeRow(db: ReturnType<typeof fakeDb>, overrides: Partial<FakeCharge>) {
+    const row = {
+      id: "charge-1",
+      mandateId: "mandate-1",
+      subscriptionId: sub.id,
+      deliveryDate,
+      amount: 250,
+      status: "PENDING",
+      attempts: 1,
+      providerOrderId: null,
+      providerPaymentId: null,
+      failureReason: null,
+      orderId: null,
+      ...overrides,
+    } as FakeCharge;
+    db.charges.push(row);
+    return row;
+  }
+
+  const payment = (id: string) => ({
+    id,
+    providerOrderId: `order_${id}`,
+    amountInPaise: 25000,
+    notes: { type: "subscription-mandate", mandateChargeId: "charge-1" },
+  });
+
+  it("refunds a captured payment from an earlier attempt", async () => {
+    const db = fakeDb();
+    const charge = chargeRow(db, { status: "CAPTURED", attempts: 2, providerPaymentId: "pay_2" });
+
+    assert.equal(await settleMandateCharge(db as unknown as PrismaClient, "mock", payment("pay_1"), "captured"), true);
+    assert.equal(charge.status, "CAPTURED");
+    assert.equal(charge.providerPaymentId, "pay_2");
+    assert.deepEqual(
+      db.refunds.map((r) => [r.mandateChargeId, r.orderId, r.providerPaymentId, r.amount]),
+      [["charge-1", null, "pay_1", 250]],
+    );
+    assert.deepEqual(refundsSent, [{ providerPaymentId: "pay_1", amountInPaise: 25000, receipt: db.refunds[0].id }]);
+  });
+
+  it("refunds a late capture once the charge was given up, and only once", async () => {
+    const db = fakeDb();
+    const charge = chargeRow(db, { status: "ABANDONED", attempts: MAX_MANDATE_CHARGE_ATTEMPTS });
+    const prisma = db as unknown as PrismaClient;
+
+    await settleMandateCharge(prisma, "mock", payment("pay_1"), "captured");
+    await settleMandateCharge(prisma, "mock", payment("pay_1"), "captured");
+
+    assert.equal(charge.status, "REFUNDED");
+    assert.equal(db.refunds.length, 1);
+    assert.equal(db.refunds[0].providerRefundId, "rfnd_1");
+    assert.equal(refundsSent.length, 1);
+  });
+
+  it("keeps the refund for the retry scheduler when the gateway call fails", async () => {
+    const db = fakeDb();
+    chargeRow(db, { status: "ABANDONED", attempts: MAX_MANDATE_CHARGE_ATTEMPTS });
+    failWith = Object.assign(new Error("connect ETIMEDOUT"), { code: "ETIMEDOUT" });
+
+    await settleMandateCharge(db as unknown as PrismaClient, "mock", payment("pay_1"), "captured");
+
+    assert.equal(db.refunds.length, 1);
+    assert.equal(db.refunds[0].status, "FAILED");
+    assert.equal(db.refunds[0].attempts, 1);
+  });
+
+  it("captures a pending charge", async () => {
+    const db = fakeDb();
+    const charge = chargeRow(db, {});
+
+    await settleMandateCharge(db as unknown as PrismaClient, "mock", payment("pay_1"), "captured");
+    assert.equal(charge.status, "CAPTURED");
+    assert.equal(charge.providerPaymentId, "pay_1");
+    assert.equal(db.refunds.length, 0);
+  });
+});
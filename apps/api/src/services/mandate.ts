@@ -0,0 +1,326 @@
+import { Prisma, type MandateCharge, type MandateMethod, type PrismaClient } from "../../generated/prisma/index.js";
+import type { PaymentConfirmation, PaymentProviderName, WebhookPayment } from "./payment.js";
+import { processRefund } from "./refund.js";
+import { razorpayMandateProvider } from "./razorpay-provider.js";
+import { mockMandateProvider } from "./mock-payment-provider.js";
+import { formatDate, parseDate } from "../utils/timezone.js";
+
+/** Charges per delivery before the scheduler gives up and falls back to the wallet */
+export const MAX_MANDATE_CHARGE_ATTEMPTS = 3;
+
+export interface CreateMandateInput {
+  userId: string;
+  /** What the mandate pays for — a subscription id, or the user id for wallet auto top-up */
+  reference: string;
+  method: MandateMethod;
+  /** Most a single charge on the mandate may take */
+  maxAmountInPaise: number;
+}
+
+export interface MandateSetup {
+  provider: PaymentProviderName;
+  /** Provider order the customer authorizes the mandate against */
+  setupOrderId: string;
+  /** Amount of the authorization payment (refunded or ₹0, depending on the method) */
+  amountInPaise: number;
+  /** Extra params the client SDK needs to open the authorization (e.g. recurring: "1") */
+  checkout: Record<string, string>;
+}
+
+export interface MandateAuthorization {
+  token: string;
+  /** What the customer sees, e.g. their UPI ID or card's last four digits */
+  label: string | null;
+}
+
+export interface MandateChargeInput {
+  userId: string;
+  token: string;
+  amountInPaise: number;
+  receipt: string;
+  /** Echoed back in webhook payloads so a late result can be matched to the charge */
+  notes: Record<string, string>;
+  /** Shown on the customer's bank / UPI statement. Defaults to "Subscription order". */
+  description?: string;
+}
+
+export interface MandateChargeResult {
+  providerOrderId: string;
+  providerPaymentId: string | null;
+  /** Pending charges are settled later by the payment webhook */
+  status: "captured" | "failed" | "pending";
+  failureReason?: string;
+}
+
+export interface MandateProvider {
+  readonly name: PaymentProviderName;
+  isConfigured(): boolean;
+  createMandate(prisma: PrismaClient, input: CreateMandateInput): Promise<MandateSetup>;
+  /** Check what the client received from the authorization flow and return the recurring token */
+  confirmMandate(confirmation: PaymentConfirmation): Promise<MandateAuthorization>;
+  charge(prisma: PrismaClient, input: MandateChargeInput): Promise<MandateChargeResult>;
+  cancel(prisma: PrismaClient, userId: string, token: string): Promise<void>;
+}
+
+const providers = new Map<PaymentProviderName, MandateProvider>([
+  [razorpayMandateProvider.name, razorpayMandateProvider],
+  [mockMandateProvider.name, mockMandateProvider],
+]);
+
+const defaultProviderName = (process.env.PAYMENT_PROVIDER ?? "razorpay") as PaymentProviderName;
+
+/** Provider a mandate was set up with, or the default (PAYMENT_PROVIDER) for new mandates */
+export function getMandateProvider(name?: string | null): MandateProvider {
+  const provider = providers.get((name ?? defaultProviderName) as PaymentProviderName);
+  if (!provider) {
+    throw Object.assign(new Error(`Unknown mandate provider: ${name ?? defaultProviderName}`), { statusCode: 400 });
+  }
+  return provider;
+}
+
+/** Replace a provider implementation, e.g. with a fake in tests */
+export function registerMandateProvider(provider: MandateProvider) {
+  providers.set(provider.name, provider);
+}
+
+export type MandateChargeOutcome =
+  /** No active mandate on the subscription */
+  | { status: "none" }
+  | { status: "captured"; charge: MandateCharge; provider: string }
+  /** Failed or still pending — the scheduler tries the delivery again later */
+  | { status: "retry"; reason: string; attempts: number; pending: boolean }
+  /** Out of attempts (or over the mandate limit) — pay from the wallet or skip */
+  | { status: "failed"; reason: string };
+
+/**
+ * Charge a subscription's active mandate for one delivery. One MandateCharge row is
+ * kept per (subscription, delivery date), so calling this again for the same delivery
+ * reuses a captured charge, waits on a pending one and retries a failed one.
+ */
+export async function chargeSubscriptionMandate(
+  prisma: PrismaClient,
+  sub: { id: string; userId: string },
+  deliveryDate: Date,
+  amount: number,
+): Promise<MandateChargeOutcome> {
+  const mandate = await prisma.subscriptionMandate.findFirst({
+    where: { subscriptionId: sub.id, status: "ACTIVE", token: { not: null } },
+    orderBy: { authorizedAt: "desc" },
+  });
+  if (!mandate?.token) return { status: "none" };
+
+  const key = { subscriptionId_deliveryDate: { subscriptionId: sub.id, deliveryDate } };
+  const existing = await prisma.mandateCharge.findUnique({ where: key });
+
+  if (existing) {
+    if (existing.status === "CAPTURED" && !existing.orderId) {
+      return { status: "captured", charge: existing, provider: mandate.provider };
+    }
+    if (existing.status === "PENDING") {
+      // The bank hasn't answered the last charge yet — never charge twice for a delivery
+      if (existing.attempts >= MAX_MANDATE_CHARGE_ATTEMPTS) {
+        await prisma.mandateCharge.update({
+          where: { id: existing.id },
+          data: { status: "ABANDONED", failureReason: "No confirmation from the bank" },
+        });
+        return { status: "failed", reason: "No confirmation from the bank" };
+      }
+      await prisma.mandateCharge.update({ where: { id: existing.id }, data: { attempts: { increment: 1 } } });
+      return { status: "retry", reason: "Waiting for the bank to confirm the payment", attempts: existing.attempts + 1, pending: true };
+    }
+    if (existing.status !== "FAILED" || existing.attempts >= MAX_MANDATE_CHARGE_ATTEMPTS) {
+      return { status: "failed", reason: existing.failureReason ?? "Auto-pay unavailable for this delivery" };
+    }
+  }
+
+  const attempts = (existing?.attempts ?? 0) + 1;
+
+  if (amount > Number(mandate.maxAmount)) {
+    const reason = `Order total \u20B9${amount} is above your auto-pay limit of \u20B9${Number(mandate.maxAmount)}`;
+    await prisma.mandateCharge.upsert({
+      where: key,
+      create: { mandateId: mandate.id, subscriptionId: sub.id, deliveryDate, amount, status: "FAILED", attempts: MAX_MANDATE_CHARGE_ATTEMPTS, failureReason: reason },
+      update: { mandateId: mandate.id, amount, status: "FAILED", attempts: MAX_MANDATE_CHARGE_ATTEMPTS, failureReason: reason },
+    });
+    return { status: "failed", reason };
+  }
+
+  // Recorded before the gateway is called, so a charge whose answer never comes back is
+  // waited on instead of charged again. The row's id is the receipt for every attempt.
+  const pending = {
+    mandateId: mandate.id,
+    amount,
+    status: "PENDING",
+    attempts,
+    providerOrderId: null,
+    providerPaymentId: null,
+    failureReason: null,
+  } as const;
+  const charge = await prisma.mandateCharge.upsert({
+    where: key,
+    create: { ...pending, subscriptionId: sub.id, deliveryDate },
+    update: pending,
+  });
+
+  let result: MandateChargeResult | null = null;
+  let failureReason: string | null = null;
+  try {
+    result = await getMandateProvider(mandate.provider).charge(prisma, {
+      userId: sub.userId,
+      token: mandate.token,
+      amountInPaise: Math.round(amount * 100),
+      receipt: charge.id,
+      notes: {
+        type: "subscription-mandate",
+        mandateChargeId: charge.id,
+        subscriptionId: sub.id,
+        deliveryDate: formatDate(deliveryDate),
+      },
+    });
+    failureReason = result.failureReason ?? null;
+  } catch (err) {
+    failureReason = err instanceof Error ? err.message : "Payment failed";
+  }
+
+  const status = result?.status === "captured" ? "CAPTURED" : result?.status === "pending" ? "PENDING" : "FAILED";
+  const settled = await prisma.mandateCharge.updateMany({
+    where: { id: charge.id, status: "PENDING", providerPaymentId: null },
+    data: {
+      status,
+      providerOrderId: result?.providerOrderId ?? null,
+      providerPaymentId: result?.providerPaymentId ?? null,
+      failureReason,
+    },
+  });
+  if (settled.count === 0) {
+    // A webhook for an earlier attempt settled the delivery while this one was in flight
+    const current = await prisma.mandateCharge.findUniqueOrThrow({ where: { id: charge.id } });
+    if (status === "CAPTURED" && result?.providerPaymentId && result.providerPaymentId !== current.providerPaymentId) {
+      await refundMandatePayment(prisma, current, {
+        userId: sub.userId,
+        provider: mandate.provider,
+        providerPaymentId: result.providerPaymentId,
+        amountInPaise: Math.round(amount * 100),
+      });
+    }
+    if (current.status === "CAPTURED") return { status: "captured", charge: current, provider: mandate.provider };
+    return { status: "failed", reason: current.failureReason ?? "Auto-pay unavailable for this delivery" };
+  }
+
+  if (status === "CAPTURED") {
+    return {
+      status: "captured",
+      charge: await prisma.mandateCharge.findUniqueOrThrow({ where: { id: charge.id } }),
+      provider: mandate.provider,
+    };
+  }
+
+  const reason = failureReason ?? "Waiting for the bank to confirm the payment";
+  if (attempts < MAX_MANDATE_CHARGE_ATTEMPTS) return { status: "retry", reason, attempts, pending: status === "PENDING" };
+
+  if (status === "PENDING") {
+    await prisma.mandateCharge.update({ where: { id: charge.id }, data: { status: "ABANDONED" } });
+  }
+  return { status: "failed", reason };
+}
+
+/**
+ * Refund a captured mandate payment that doesn't pay for its delivery. A Refund row is
+ * recorded first and sent through processRefund(), so a refund the gateway doesn't take
+ * is retried by the refund scheduler. Each payment is refunded once per charge.
+ */
+async function refundMandatePayment(
+  prisma: PrismaClient,
+  charge: MandateCharge,
+  payment: { userId: string; provider: string; providerPaymentId: string; amountInPaise: number },
+) {
+  try {
+    const refund = await prisma.refund.create({
+      data: {
+        mandateChargeId: charge.id,
+        userId: payment.userId,
+        amount: payment.amountInPaise / 100,
+        destination: "SOURCE",
+        status: "INITIATED",
+        reason: `Auto-pay charge for ${formatDate(charge.deliveryDate)} not used`,
+        paymentProvider: payment.provider,
+        providerPaymentId: payment.providerPaymentId,
+      },
+    });
+    await processRefund(prisma, refund.id);
+  } catch (err) {
+    // Already recorded by an earlier delivery of the same webhook
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") return;
+    throw err;
+  }
+}
+
+/**
+ * Apply a webhook result to a mandate charge that was still pending. A charge the
+ * scheduler already gave up on is refunded if it captures after all — by then that
+ * delivery was paid from the wallet or skipped. So is a captured payment from an attempt
+ * the charge has since moved on from. Returns false for an unknown charge.
+ */
+export async function settleMandateCharge(
+  prisma: PrismaClient,
+  provider: PaymentProviderName,
+  payment: WebhookPayment,
+  outcome: "captured" | "failed",
+) {
+  const { mandateChargeId, subscriptionId, deliveryDate } = payment.notes;
+  const charge = await prisma.mandateCharge.findFirst({
+    where: mandateChargeId
+      ? { id: mandateChargeId }
+      : subscriptionId && deliveryDate
+        ? { subscriptionId, deliveryDate: parseDate(deliveryDate) }
+        : { providerPaymentId: payment.id },
+    include: { mandate: { select: { userId: true } } },
+  });
+  if (!charge) return false;
+
+  const refundPayment = () =>
+    refundMandatePayment(prisma, charge, {
+      userId: charge.mandate.userId,
+      provider,
+      providerPaymentId: payment.id,
+      amountInPaise: payment.amountInPaise,
+    });
+
+  // A later attempt replaced this payment, so it can't pay for the delivery as well
+  if (charge.providerPaymentId && charge.providerPaymentId !== payment.id) {
+    if (outcome === "captured") await refundPayment();
+    return true;
+  }
+
+  if (outcome === "failed") {
+    await prisma.mandateCharge.updateMany({
+      where: { id: charge.id, status: "PENDING" },
+      data: { status: "FAILED", providerPaymentId: payment.id, failureReason: "Payment failed" },
+    });
+    return true;
+  }
+
+  const paidElsewhere = await prisma.order.count({
+    where: { subscriptionId: charge.subscriptionId, scheduledDate: charge.deliveryDate, mandateCharge: null },
+  });
+  const givenUp =
+    charge.status === "ABANDONED" ||
+    charge.status === "REFUNDED" ||
+    (charge.status === "FAILED" && charge.attempts >= MAX_MANDATE_CHARGE_ATTEMPTS) ||
+    paidElsewhere > 0;
+  if (givenUp) {
+    await refundPayment();
+    // The Refund row tracks the gateway refund from here
+    await prisma.mandateCharge.updateMany({
+      where: { id: charge.id, status: { in: ["PENDING", "FAILED", "ABANDONED"] } },
+      data: { status: "REFUNDED", providerPaymentId: payment.id },
+    });
+    return true;
+  }
+
+  await prisma.mandateCharge.updateMany({
+    where: { id: charge.id, status: { in: ["PENDING", "FAILED"] } },
+    data: { status: "CAPTURED", providerPaymentId: payment.id, failureReason: null },
+  });
+  return true;
+}
@@ -0,0 +1,225 @@
+import crypto from "crypto";
+import type {
+  CapturedPayment,
+  GatewayRefund,
+  PaymentConfirmation,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  WebhookPayment,
+  WebhookRefund,
+} from "./payment.js";
+import type { MandateProvider } from "./mandate.js";
+
+/**
+ * Deterministic in-process payment provider for local development and tests.
+ * Ids and signatures are derived from the inputs, so the same flow always produces
+ * the same values. Anyone holding the secret can sign payments and webhooks, so it is
+ * off unless PAYMENT_PROVIDER_MOCK=1 and MOCK_PAYMENT_SECRET are both set.
+ */
+
+const secret = process.env.MOCK_PAYMENT_SECRET ?? "";
+
+function isEnabled() {
+  return process.env.PAYMENT_PROVIDER_MOCK === "1" && Boolean(secret);
+}
+
+interface MockIntent {
+  amountInPaise: number;
+  notes: Record<string, string>;
+}
+
+interface MockPayment {
+  providerOrderId: string;
+  amountInPaise: number;
+  status: CapturedPayment["status"];
+}
+
+// In-memory only — restarting the API forgets intents, which is fine for dev
+const intents = new Map<string, MockIntent>();
+const payments = new Map<string, MockPayment>();
+/** Keyed by `${providerPaymentId}|${receipt}` */
+const refunds = new Map<string, GatewayRefund>();
+
+function digest(value: string) {
+  return crypto.createHash("sha256").update(value).digest("hex").slice(0, 14);
+}
+
+function sign(body: string) {
+  return crypto.createHmac("sha256", secret).update(body).digest("hex");
+}
+
+interface MockWebhookBody {
+  id: string;
+  event: PaymentWebhookEvent["type"];
+  payment?: WebhookPayment;
+  refund?: WebhookRefund;
+}
+
+export const mockPaymentProvider: PaymentProvider & {
+  simulateCheckout(providerOrderId: string, outcome?: "success" | "failure"): PaymentConfirmation;
+} = {
+  name: "mock",
+
+  isConfigured() {
+    return isEnabled();
+  },
+
+  isWebhookConfigured() {
+    return isEnabled();
+  },
+
+  async createIntent(_prisma, input) {
+    const providerOrderId = `mock_order_${digest(`${input.receipt}|${input.amountInPaise}`)}`;
+    intents.set(providerOrderId, { amountInPaise: input.amountInPaise, notes: input.notes ?? {} });
+    return {
+      provider: "mock",
+      providerOrderId,
+      amountInPaise: input.amountInPaise,
+      currency: "INR",
+      checkout: {},
+    };
+  },
+
+  /** Stand-in for the client checkout sheet: returns what the app would post to verify */
+  simulateCheckout(providerOrderId, outcome = "success") {
+    const intent = intents.get(providerOrderId);
+    if (!intent) throw Object.assign(new Error("Unknown mock payment intent"), { statusCode: 404 });
+
+    const providerPaymentId = `mock_pay_${digest(providerOrderId)}`;
+    payments.set(providerPaymentId, {
+      providerOrderId,
+      amountInPaise: intent.amountInPaise,
+      status: outcome === "success" ? "captured" : "failed",
+    });
+    return {
+      providerOrderId,
+      providerPaymentId,
+      signature: outcome === "success" ? sign(`${providerOrderId}|${providerPaymentId}`) : "",
+    };
+  },
+
+  verifyPayment({ providerOrderId, providerPaymentId, signature }) {
+    return isEnabled() && Boolean(signature) && sign(`${providerOrderId}|${providerPaymentId}`) === signature;
+  },
+
+  async capturePayment(providerPaymentId, amountInPaise) {
+    const payment = payments.get(providerPaymentId);
+    return {
+      id: providerPaymentId,
+      providerOrderId: payment?.providerOrderId ?? null,
+      amountInPaise: payment?.amountInPaise ?? amountInPaise,
+      status: payment?.status ?? "captured",
+    };
+  },
+
+  async refund(providerPaymentId, amountInPaise, { receipt }) {
+    const refund: GatewayRefund = {
+      id: `mock_rfnd_${digest(`${providerPaymentId}|${amountInPaise}|${receipt}`)}`,
+      status: "processed",
+    };
+    refunds.set(`${providerPaymentId}|${receipt}`, refund);
+    return refund;
+  },
+
+  async findRefund(providerPaymentId, receipt) {
+    return refunds.get(`${providerPaymentId}|${receipt}`) ?? null;
+  },
+
+  /** Body is already in the normalized shape, signed with X-Mock-Signature */
+  parseWebhook(rawBody, headers) {
+    const signature = headers["x-mock-signature"];
+    if (!isEnabled() || typeof signature !== "string" || sign(rawBody) !== signature) {
+      throw Object.assign(new Error("Invalid webhook signature"), { statusCode: 400 });
+    }
+    const body = JSON.parse(rawBody) as MockWebhookBody;
+    return {
+      eventId: body.id,
+      event: body.event,
+      type: body.event,
+      ...(body.payment ? { payment: { ...body.payment, notes: body.payment.notes ?? {} } } : {}),
+      ...(body.refund ? { refund: { ...body.refund, notes: body.refund.notes ?? {} } } : {}),
+      payload: body,
+    };
+  },
+};
+
+// ── Mandates ────────────────────────────────────────
+
+type MockChargeOutcome = "success" | "failure" | "pending";
+
+interface MockMandate {
+  userId: string;
+  maxAmountInPaise: number;
+  chargeOutcome: MockChargeOutcome;
+}
+
+const mandateSetups = new Map<string, MockMandate>();
+const mandateTokens = new Map<string, MockMandate>();
+
+export const mockMandateProvider: MandateProvider & {
+  simulateAuthorization(setupOrderId: string): PaymentConfirmation;
+  setChargeOutcome(token: string, outcome: MockChargeOutcome): void;
+} = {
+  name: "mock",
+
+  isConfigured() {
+    return isEnabled();
+  },
+
+  async createMandate(_prisma, input) {
+    const setupOrderId = `mock_mandate_${digest(`${input.reference}|${input.method}|${Date.now()}`)}`;
+    mandateSetups.set(setupOrderId, { userId: input.userId, maxAmountInPaise: input.maxAmountInPaise, chargeOutcome: "success" });
+    return { provider: "mock", setupOrderId, amountInPaise: 0, checkout: {} };
+  },
+
+  /** Stand-in for the client authorization sheet: returns what the app would post to confirm */
+  simulateAuthorization(setupOrderId) {
+    if (!mandateSetups.has(setupOrderId)) {
+      throw Object.assign(new Error("Unknown mock mandate"), { statusCode: 404 });
+    }
+    const providerPaymentId = `mock_pay_${digest(setupOrderId)}`;
+    return { providerOrderId: setupOrderId, providerPaymentId, signature: sign(`${setupOrderId}|${providerPaymentId}`) };
+  },
+
+  async confirmMandate({ providerOrderId, providerPaymentId, signature }) {
+    const setup = mandateSetups.get(providerOrderId);
+    if (!isEnabled() || !setup || !signature || sign(`${providerOrderId}|${providerPaymentId}`) !== signature) {
+      throw Object.assign(new Error("Invalid payment signature"), { statusCode: 400 });
+    }
+    const token = `mock_token_${digest(providerOrderId)}`;
+    mandateTokens.set(token, setup);
+    return { token, label: "mock@upi" };
+  },
+
+  /** Drive what the next charges on a token return, e.g. to exercise retries */
+  setChargeOutcome(token, outcome) {
+    const mandate = mandateTokens.get(token);
+    if (!mandate) throw Object.assign(new Error("Unknown mock mandate token"), { statusCode: 404 });
+    mandate.chargeOutcome = outcome;
+  },
+
+  async charge(_prisma, input) {
+    const providerOrderId = `mock_order_${digest(`${input.receipt}|${input.amountInPaise}|${Date.now()}`)}`;
+    // Tokens from before a restart are forgotten — treat them as healthy
+    const mandate = mandateTokens.get(input.token);
+    if (mandate && input.amountInPaise > mandate.maxAmountInPaise) {
+      return { providerOrderId, providerPaymentId: null, status: "failed", failureReason: "Amount exceeds the mandate limit" };
+    }
+
+    const outcome = mandate?.chargeOutcome ?? "success";
+    const providerPaymentId = `mock_pay_${digest(providerOrderId)}`;
+    payments.set(providerPaymentId, {
+      providerOrderId,
+      amountInPaise: input.amountInPaise,
+      status: outcome === "success" ? "captured" : outcome === "failure" ? "failed" : "pending",
+    });
+    if (outcome === "failure") {
+      return { providerOrderId, providerPaymentId, status: "failed", failureReason: "Insufficient balance in the customer's account" };
+    }
+    return { providerOrderId, providerPaymentId, status: outcome === "success" ? "captured" : "pending" };
+  },
+
+  async cancel(_prisma, _userId, token) {
+    mandateTokens.delete(token);
+  },
+};
@@ -0,0 +1,388 @@
+import type { EditOrderItemsInput } from "@martly/shared/schemas";
+import type { DiscountType, Prisma } from "../../generated/prisma/client.js";
+import type { Decimal } from "../../generated/prisma/runtime/library.js";
+import { calculateEffectivePrice } from "./pricing.js";
+import { reserveStock, releaseStock } from "./stock.js";
+import { calculateLineTaxes, isInterState } from "./gst.js";
+import { ensureDeliveryOtp } from "./delivery-proof.js";
+import { createOrderRefunds, type RefundPlan } from "./refund.js";
+
+/** Customers can edit until the store starts picking; staff can edit while picking */
+export const CUSTOMER_EDITABLE_STATUSES = ["PENDING", "CONFIRMED"];
+export const STAFF_EDITABLE_STATUSES = ["PENDING", "CONFIRMED", "PREPARING"];
+
+export interface OrderEditActor {
+  userId: string;
+  isCustomer: boolean;
+}
+
+export interface OrderEditResult {
+  /** Human-readable summary, also written to the status log */
+  summary: string;
+  previousTotal: number;
+  newTotal: number;
+  /** A lower total, refunded like a cancel or return; SOURCE rows still need processRefund() */
+  refundPlan: RefundPlan;
+  walletDebit: number;
+}
+
+interface Line {
+  id?: string;
+  storeProductId: string;
+  productId: string;
+  variantId: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  originalPrice: number | null;
+  discountType: DiscountType | null;
+  discountValue: number | null;
+  hsnCode: string | null;
+  gstPercent: Decimal | number | null;
+  changed: boolean;
+}
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function editError(message: string, statusCode = 400) {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+/**
+ * Apply item changes to an open order inside the caller's transaction.
+ *
+ * Added and substituted lines are priced fresh (discounts + member price, as at
+ * checkout); quantity changes keep the line's original unit price. Reserved stock
+ * follows the quantity deltas, the coupon discount and GST breakup are recomputed,
+ * and the total difference is settled:
+ * - paid orders get decreases refunded to the wallet or the original payment, and
+ *   increases debited from the wallet. If the wallet doesn't cover an increase, a
+ *   customer edit fails with a 402 carrying `amountDue` so the app can collect it
+ * - COD orders just owe a different amount; if it drops below the wallet share
+ *   already taken, the excess goes back to the wallet
+ */
+export async function editOrderItems(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  input: EditOrderItemsInput,
+  actor: OrderEditActor,
+): Promise<OrderEditResult> {
+  // Lock the order so concurrent edits and status changes serialize
+  await tx.$queryRaw`SELECT id FROM orders WHERE id = ${orderId} FOR UPDATE`;
+  const order = await tx.order.findUniqueOrThrow({
+    where: { id: orderId },
+    include: {
+      items: {
+        include: {
+          product: { select: { name: true } },
+          variant: { select: { name: true } },
+        },
+      },
+      store: {
+        select: {
+          organizationId: true, stateCode: true, minOrderAmount: true,
+          deliveryOtpMinAmount: true, deliveryOtpOnlinePaid: true,
+        },
+      },
+      coupon: true,
+    },
+  });
+
+  const editable = actor.isCustomer ? CUSTOMER_EDITABLE_STATUSES : STAFF_EDITABLE_STATUSES;
+  if (!editable.includes(order.status)) {
+    throw editError(`Order can no longer be edited (status: ${order.status})`);
+  }
+  // An earlier edit's refund leaves a paid order PARTIALLY_REFUNDED
+  const paid = order.paymentStatus === "PAID" || order.paymentStatus === "PARTIALLY_REFUNDED";
+  if (order.paymentMethod === "ONLINE" && !paid) {
+    throw editError("Complete the payment before editing this order");
+  }
+  if (!paid && order.paymentStatus !== "PENDING") {
+    throw editError(`Order can't be edited with payment status ${order.paymentStatus}`);
+  }
+
+  const membership = await tx.userMembership.findFirst({
+    where: { userId: order.userId, organizationId: order.store.organizationId, status: "ACTIVE", endDate: { gt: new Date() } },
+  });
+
+  // Same pricing as checkout: active discount, then member price if lower
+  const priceLine = async (storeProductId: string, quantity: number): Promise<Line> => {
+    const sp = await tx.storeProduct.findUnique({
+      where: { id: storeProductId },
+      include: { variant: true, product: { select: { name: true, hsnCode: true, gstPercent: true } } },
+    });
+    if (!sp || sp.storeId !== order.storeId || !sp.isActive) {
+      throw editError("Product is not available at this store");
+    }
+    const pricing = calculateEffectivePrice(
+      sp.price,
+      sp.variant as Parameters<typeof calculateEffectivePrice>[1],
+      sp as unknown as Parameters<typeof calculateEffectivePrice>[2],
+    );
+    let unitPrice = pricing.effectivePrice;
+    if (membership && sp.memberPrice != null && Number(sp.memberPrice) < unitPrice) {
+      unitPrice = Number(sp.memberPrice);
+    }
+    return {
+      storeProductId: sp.id,
+      productId: sp.productId,
+      variantId: sp.variantId,
+      name: `${sp.product.name} (${sp.variant.name})`,
+      quantity,
+      unitPrice,
+      originalPrice: pricing.discountActive ? pricing.originalPrice : null,
+      discountType: (pricing.discountType as DiscountType | null) ?? null,
+      discountValue: pricing.discountValue,
+      hsnCode: sp.product.hsnCode,
+      gstPercent: sp.product.gstPercent,
+      changed: true,
+    };
+  };
+
+  const lines: Line[] = order.items.map((item) => ({
+    id: item.id,
+    storeProductId: item.storeProductId,
+    productId: item.productId,
+    variantId: item.variantId,
+    name: `${item.product.name} (${item.variant.name})`,
+    quantity: item.quantity,
+    unitPrice: Number(item.unitPrice),
+    originalPrice: item.originalPrice != null ? Number(item.originalPrice) : null,
+    discountType: item.discountType,
+    discountValue: item.discountValue != null ? Number(item.discountValue) : null,
+    hsnCode: item.hsnCode,
+    gstPercent: item.gstPercent,
+    changed: false,
+  }));
+
+  // Each existing line may be touched by one remove / update / substitute
+  const touched = new Set<string>();
+  const existingLine = (orderItemId: string) => {
+    const line = lines.find((l) => l.id === orderItemId);
+    if (!line) throw editError(`Item ${orderItemId} is not part of this order`);
+    if (touched.has(orderItemId)) throw editError("Each order item can only be changed once per edit");
+    touched.add(orderItemId);
+    return line;
+  };
+
+  const changes: string[] = [];
+
+  for (const orderItemId of input.remove) {
+    const line = existingLine(orderItemId);
+    changes.push(`removed ${line.name} ×${line.quantity}`);
+    line.quantity = 0;
+    line.changed = true;
+  }
+
+  for (const { orderItemId, quantity } of input.update) {
+    const line = existingLine(orderItemId);
+    if (line.quantity === quantity) continue;
+    changes.push(`${line.name} ×${line.quantity} → ×${quantity}`);
+    line.quantity = quantity;
+    line.changed = true;
+  }
+
+  for (const sub of input.substitute) {
+    const line = existingLine(sub.orderItemId);
+    const replacement = await priceLine(sub.storeProductId, sub.quantity ?? line.quantity);
+    if (replacement.storeProductId === line.storeProductId) {
+      throw editError("A substitute must be a different product");
+    }
+    changes.push(`substituted ${line.name} ×${line.quantity} with ${replacement.name} ×${replacement.quantity}`);
+    line.quantity = 0;
+    line.changed = true;
+    lines.push(replacement);
+  }
+
+  for (const add of input.add) {
+    // Adding more of something already in the order tops up that line at its price
+    const current = lines.find((l) => l.storeProductId === add.storeProductId && l.quantity > 0);
+    if (current) {
+      changes.push(`added ${current.name} ×${add.quantity}`);
+      current.quantity += add.quantity;
+      current.changed = true;
+    } else {
+      const line = await priceLine(add.storeProductId, add.quantity);
+      changes.push(`added ${line.name} ×${add.quantity}`);
+      lines.push(line);
+    }
+  }
+
+  const remaining = lines.filter((l) => l.quantity > 0);
+  if (remaining.length === 0) {
+    throw editError("An order needs at least one item — cancel the order instead");
+  }
+  if (changes.length === 0) throw editError("No changes to apply");
+
+  // ── Totals ──
+  const itemsTotal = round2(remaining.reduce((sum, l) => sum + l.unitPrice * l.quantity, 0));
+  if (order.store.minOrderAmount && itemsTotal < Number(order.store.minOrderAmount)) {
+    throw editError(`Minimum order amount is ₹${Number(order.store.minOrderAmount).toFixed(0)}`);
+  }
+
+  let couponDiscount = 0;
+  const coupon = order.coupon;
+  if (coupon) {
+    if (coupon.minOrderAmount && itemsTotal < Number(coupon.minOrderAmount)) {
+      throw editError(
+        `Coupon ${coupon.code} needs a minimum of ₹${Number(coupon.minOrderAmount).toFixed(0)} — this edit brings the items to ₹${itemsTotal.toFixed(0)}`,
+      );
+    }
+    couponDiscount = coupon.discountType === "FLAT"
+      ? Number(coupon.discountValue)
+      : (itemsTotal * Number(coupon.discountValue)) / 100;
+    if (coupon.maxDiscount && couponDiscount > Number(coupon.maxDiscount)) {
+      couponDiscount = Number(coupon.maxDiscount);
+    }
+    couponDiscount = round2(Math.min(couponDiscount, itemsTotal));
+  }
+
+  const previousTotal = Number(order.totalAmount);
+  const newTotal = round2(itemsTotal - couponDiscount + Number(order.deliveryFee));
+  const walletUsed = Number(order.walletAmountUsed ?? 0);
+  const loyaltyUsed = order.loyaltyPointsUsed ?? 0;
+
+  // ── Settlement ──
+  let refundAmount = 0;
+  let walletDebit = 0;
+  if (paid) {
+    if (newTotal < previousTotal) {
+      refundAmount = round2(previousTotal - newTotal);
+    } else if (newTotal > previousTotal) {
+      walletDebit = round2(newTotal - previousTotal);
+    }
+  } else {
+    // Unpaid COD: only the wallet share taken at checkout may need returning
+    const due = newTotal - walletUsed - loyaltyUsed;
+    if (due < 0) {
+      refundAmount = round2(Math.min(walletUsed, -due));
+      if (newTotal < loyaltyUsed) {
+        throw editError(`Order total can't drop below the ${loyaltyUsed} loyalty points redeemed`);
+      }
+    }
+  }
+
+  let walletAmountUsed = walletUsed;
+  if (walletDebit > 0) {
+    const user = await tx.user.findUniqueOrThrow({ where: { id: order.userId }, select: { walletBalance: true } });
+    if (Number(user.walletBalance) < walletDebit) {
+      if (!actor.isCustomer) {
+        throw editError(
+          `The customer's wallet doesn't cover the extra ₹${walletDebit.toFixed(2)} — they can make this change from the app and pay the difference`,
+        );
+      }
+      // The route opens a payment into the wallet for this; the app retries the edit once it's paid
+      throw Object.assign(editError(`Pay the extra ₹${walletDebit.toFixed(2)} to save these changes`, 402), {
+        amountDue: walletDebit,
+      });
+    }
+    const updatedUser = await tx.user.update({
+      where: { id: order.userId },
+      data: { walletBalance: { decrement: walletDebit } },
+    });
+    await tx.walletTransaction.create({
+      data: {
+        userId: order.userId,
+        orderId: order.id,
+        type: "DEBIT",
+        amount: walletDebit,
+        balanceAfter: Number(updatedUser.walletBalance),
+        description: `Items added to order #${order.id.slice(0, 8)}`,
+      },
+    });
+    walletAmountUsed = round2(walletUsed + walletDebit);
+  }
+  // COD orders always get theirs back in the wallet
+  const refundPlan = await createOrderRefunds(tx, order, {
+    amount: refundAmount,
+    destination: input.refundDestination,
+    reason: `Refund for changes to order #${order.id.slice(0, 8)}`,
+    orderEdit: true,
+  });
+  // A wallet refund comes out of the wallet share first, a source refund out of the
+  // online share, so a later cancel never sends the source more than is left of the capture
+  if (refundPlan.walletAmount > 0) {
+    walletAmountUsed = round2(Math.max(0, walletUsed - refundPlan.walletAmount));
+  }
+
+  // ── Stock ──
+  const deltas = new Map<string, number>();
+  for (const item of order.items) {
+    deltas.set(item.storeProductId, (deltas.get(item.storeProductId) ?? 0) - item.quantity);
+  }
+  for (const line of remaining) {
+    deltas.set(line.storeProductId, (deltas.get(line.storeProductId) ?? 0) + line.quantity);
+  }
+  const stockContext = { orderId: order.id, actorId: actor.userId, note: "Order edited" };
+  const toRelease = [...deltas].filter(([, d]) => d < 0).map(([storeProductId, d]) => ({ storeProductId, quantity: -d }));
+  const toReserve = [...deltas].filter(([, d]) => d > 0).map(([storeProductId, d]) => ({ storeProductId, quantity: d }));
+  if (toRelease.length > 0) await releaseStock(tx, toRelease, stockContext);
+  if (toReserve.length > 0) await reserveStock(tx, toReserve, stockContext);
+
+  // ── Lines + GST ──
+  const taxes = calculateLineTaxes(
+    remaining.map((l) => ({ totalPrice: l.unitPrice * l.quantity, hsnCode: l.hsnCode, gstPercent: l.gstPercent })),
+    { interState: isInterState(order.store.stateCode, order.placeOfSupply), discount: couponDiscount },
+  );
+
+  const removedIds = lines.filter((l) => l.id && l.quantity === 0).map((l) => l.id!);
+  if (removedIds.length > 0) {
+    await tx.orderItem.deleteMany({ where: { id: { in: removedIds } } });
+  }
+  for (const [i, line] of remaining.entries()) {
+    const data = {
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      totalPrice: round2(line.unitPrice * line.quantity),
+      ...taxes[i],
+    };
+    if (line.id) {
+      await tx.orderItem.update({ where: { id: line.id }, data });
+    } else {
+      await tx.orderItem.create({
+        data: {
+          ...data,
+          orderId: order.id,
+          storeProductId: line.storeProductId,
+          productId: line.productId,
+          variantId: line.variantId,
+          originalPrice: line.originalPrice ?? undefined,
+          discountType: line.discountType ?? undefined,
+          discountValue: line.discountValue ?? undefined,
+        },
+      });
+    }
+  }
+
+  await tx.order.update({
+    where: { id: order.id },
+    data: {
+      totalAmount: newTotal,
+      couponDiscount: coupon ? couponDiscount : undefined,
+      walletAmountUsed: walletAmountUsed > 0 ? walletAmountUsed : null,
+    },
+  });
+  // A bigger order may now cross the store's OTP threshold
+  await ensureDeliveryOtp(tx, order.id, order.store, { ...order, totalAmount: newTotal });
+
+  // ── Log ──
+  const parts = [`Order edited by ${actor.isCustomer ? "customer" : "store"}: ${changes.join("; ")}`];
+  if (newTotal !== previousTotal) {
+    parts.push(`total ₹${previousTotal.toFixed(2)} → ₹${newTotal.toFixed(2)}`);
+  }
+  if (refundPlan.walletAmount > 0) parts.push(`₹${refundPlan.walletAmount.toFixed(2)} refunded to wallet`);
+  if (refundPlan.sourceAmount > 0) {
+    parts.push(`₹${refundPlan.sourceAmount.toFixed(2)} refunded to the original payment method`);
+  }
+  if (walletDebit > 0) parts.push(`₹${walletDebit.toFixed(2)} charged to wallet`);
+  if (input.note) parts.push(`Note: ${input.note}`);
+  const summary = parts.join(". ");
+
+  await tx.orderStatusLog.create({
+    data: { orderId: order.id, status: order.status, note: summary },
+  });
+
+  return { summary, previousTotal, newTotal, refundPlan, walletDebit };
+}
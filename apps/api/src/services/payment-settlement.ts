@@ -0,0 +1,232 @@
+import type { Messaging } from "firebase-admin/messaging";
+import { Prisma, type PrismaClient } from "../../generated/prisma/index.js";
+import { sendOrderStatusNotification } from "./notification.js";
+import { broadcastOrderUpdate } from "./order-broadcast.js";
+import { createOrderRefunds, processRefund, sendRefundNotifications } from "./refund.js";
+
+export const MEMBERSHIP_DURATION_DAYS: Record<string, number> = {
+  MONTHLY: 30,
+  QUARTERLY: 90,
+  ANNUAL: 365,
+};
+
+export interface ProviderPayment {
+  provider: string;
+  providerPaymentId: string;
+}
+
+/**
+ * Mark an order as paid and auto-confirm it if still PENDING.
+ * Shared by the client-side verify endpoint and the provider webhook, so whichever
+ * arrives first wins and the other becomes a no-op. Only an unpaid (PENDING / FAILED)
+ * order is claimed; returns null otherwise, including a repeat of the payment already
+ * recorded on the order. A payment for an order that was already cancelled is refunded
+ * to its source.
+ */
+export async function markOrderPaid(
+  fcm: Messaging | null,
+  prisma: PrismaClient,
+  orderId: string,
+  payment: ProviderPayment,
+  note = "Payment verified",
+) {
+  const result = await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({ where: { id: orderId } });
+    if (!order || order.providerPaymentId === payment.providerPaymentId) return null;
+    if (order.paymentStatus !== "PENDING" && order.paymentStatus !== "FAILED") return null;
+
+    const confirm = order.status === "PENDING";
+    const claimed = await tx.order.updateMany({
+      where: { id: orderId, paymentStatus: { in: ["PENDING", "FAILED"] } },
+      data: {
+        paymentStatus: "PAID",
+        paymentProvider: payment.provider,
+        providerPaymentId: payment.providerPaymentId,
+        // Auto-confirm on successful payment
+        ...(confirm ? { status: "CONFIRMED" } : {}),
+      },
+    });
+    if (claimed.count === 0) return null;
+
+    // Paid after the order was cancelled (e.g. payment timeout) — send the money straight back.
+    // The wallet share was already returned when the order was cancelled.
+    if (order.status === "CANCELLED") {
+      const refundPlan = await createOrderRefunds(
+        tx,
+        { ...order, paymentStatus: "PAID", paymentProvider: payment.provider, providerPaymentId: payment.providerPaymentId },
+        {
+          amount: Number(order.totalAmount) - Number(order.walletAmountUsed ?? 0),
+          destination: "SOURCE",
+          reason: `Refund for payment received after order #${order.id.slice(0, 8)} was cancelled`,
+        },
+      );
+      await tx.orderStatusLog.create({
+        data: { orderId, status: "CANCELLED", note: "Payment received after cancellation — refunded" },
+      });
+      const updated = await tx.order.findUniqueOrThrow({ where: { id: orderId } });
+      return { order: updated, confirmed: false, refundPlan };
+    }
+
+    // Log the status transition
+    if (confirm) {
+      await tx.orderStatusLog.create({
+        data: { orderId, status: "CONFIRMED", note },
+      });
+    }
+    // Save preferred payment method
+    await tx.user.update({
+      where: { id: order.userId },
+      data: { preferredPaymentMethod: "ONLINE" },
+    });
+
+    const updated = await tx.order.findUniqueOrThrow({ where: { id: orderId } });
+    return { order: updated, confirmed: confirm, refundPlan: null };
+  });
+
+  if (!result) return null;
+
+  if (result.refundPlan) {
+    for (const refund of result.refundPlan.refunds) {
+      if (refund.destination === "SOURCE") await processRefund(prisma, refund.id);
+    }
+    sendRefundNotifications(fcm, prisma, result.order.userId, orderId, result.refundPlan);
+    return result.order;
+  }
+
+  if (result.confirmed) {
+    sendOrderStatusNotification(fcm, prisma, orderId, result.order.userId, "CONFIRMED");
+  }
+  broadcastOrderUpdate(prisma, orderId, result.order.status);
+
+  return result.order;
+}
+
+/**
+ * Record a failed payment attempt. Never downgrades an order that is already paid.
+ */
+export async function markOrderPaymentFailed(prisma: PrismaClient, orderId: string) {
+  const result = await prisma.order.updateMany({
+    where: { id: orderId, paymentStatus: { in: ["PENDING", "FAILED"] } },
+    data: { paymentStatus: "FAILED" },
+  });
+  return result.count > 0;
+}
+
+interface MembershipPayment extends ProviderPayment {
+  userId: string;
+  planId: string;
+  previousMembershipId?: string;
+  amountPaid?: number;
+  providerOrderId: string;
+}
+
+/**
+ * Activate a membership for a captured payment. Idempotent on the provider payment id —
+ * a second call for the same payment returns the membership created by the first.
+ */
+export async function activatePaidMembership(prisma: PrismaClient, payment: MembershipPayment) {
+  const existing = await prisma.userMembership.findUnique({
+    where: { providerPaymentId: payment.providerPaymentId },
+    include: { plan: true },
+  });
+  if (existing) return existing;
+
+  const plan = await prisma.membershipPlan.findUnique({ where: { id: payment.planId } });
+  if (!plan) throw Object.assign(new Error("Plan not found"), { statusCode: 404 });
+
+  const now = new Date();
+  const days = MEMBERSHIP_DURATION_DAYS[plan.duration] ?? 30;
+  const endDate = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      // Upgrade path — cancel previous, create new with link
+      if (payment.previousMembershipId) {
+        await tx.userMembership.update({
+          where: { id: payment.previousMembershipId },
+          data: { status: "CANCELLED" },
+        });
+      }
+      return tx.userMembership.create({
+        data: {
+          userId: payment.userId,
+          planId: plan.id,
+          organizationId: plan.organizationId,
+          status: "ACTIVE",
+          startDate: now,
+          endDate,
+          pricePaid: payment.amountPaid ?? plan.price,
+          paymentProvider: payment.provider,
+          providerOrderId: payment.providerOrderId,
+          providerPaymentId: payment.providerPaymentId,
+          ...(payment.previousMembershipId ? { previousMembershipId: payment.previousMembershipId } : {}),
+        },
+        include: { plan: true },
+      });
+    });
+  } catch (err) {
+    // Lost the race against a concurrent verify/webhook for the same payment
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      return prisma.userMembership.findUniqueOrThrow({
+        where: { providerPaymentId: payment.providerPaymentId },
+        include: { plan: true },
+      });
+    }
+    throw err;
+  }
+}
+
+interface WalletTopupPayment extends ProviderPayment {
+  userId: string;
+  amountInPaise: number;
+  /** Wallet transaction description, "Wallet recharge" unless given */
+  description?: string;
+}
+
+/**
+ * Credit a captured wallet top-up. Idempotent on the provider payment id, so the
+ * verify endpoint and the webhook can both call it. Returns the new balance.
+ */
+export async function creditWalletTopup(prisma: PrismaClient, payment: WalletTopupPayment) {
+  const existing = await prisma.walletTransaction.findUnique({
+    where: { providerPaymentId: payment.providerPaymentId },
+    select: { userId: true },
+  });
+  if (existing) {
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: existing.userId }, select: { walletBalance: true } });
+    return { balance: Number(user.walletBalance), credited: false };
+  }
+
+  const creditAmount = payment.amountInPaise / 100; // paise → rupees
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const updatedUser = await tx.user.update({
+        where: { id: payment.userId },
+        data: { walletBalance: { increment: creditAmount } },
+        select: { walletBalance: true },
+      });
+
+      await tx.walletTransaction.create({
+        data: {
+          userId: payment.userId,
+          type: "CREDIT",
+          amount: creditAmount,
+          balanceAfter: updatedUser.walletBalance,
+          description: payment.description ?? "Wallet recharge",
+          paymentProvider: payment.provider,
+          providerPaymentId: payment.providerPaymentId,
+        },
+      });
+
+      return { balance: Number(updatedUser.walletBalance), credited: true };
+    });
+  } catch (err) {
+    // Lost the race against a concurrent verify/webhook for the same payment
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      const user = await prisma.user.findUniqueOrThrow({ where: { id: payment.userId }, select: { walletBalance: true } });
+      return { balance: Number(user.walletBalance), credited: false };
+    }
+    throw err;
+  }
+}
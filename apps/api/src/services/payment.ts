@@ -1,72 +1,179 @@
-import crypto from "crypto";
-import Razorpay from "razorpay";
-import type { PrismaClient } from "../../generated/prisma/index.js";
+import type { CheckoutIntent, CheckoutPurpose, PrismaClient } from "../../generated/prisma/index.js";
+import { razorpayProvider } from "./razorpay-provider.js";
+import { mockPaymentProvider } from "./mock-payment-provider.js";
 
-const keyId = process.env.RAZORPAY_KEY_ID ?? "";
-const keySecret = process.env.RAZORPAY_KEY_SECRET ?? "";
+export type PaymentProviderName = "razorpay" | "mock";
 
-let razorpayInstance: Razorpay | null = null;
+export interface CreateIntentInput {
+  amountInPaise: number;
+  /** Our reference for the payment (order id, or a generated receipt for top-ups / memberships) */
+  receipt: string;
+  /** Customer paying — lets providers attach saved payment instruments */
+  userId?: string;
+  /** Echoed back in webhook payloads so the handler can resolve what a payment was for */
+  notes?: Record<string, string>;
+}
+
+export interface PaymentIntent {
+  provider: PaymentProviderName;
+  providerOrderId: string;
+  amountInPaise: number;
+  currency: string;
+  /** Extra params the client SDK needs to open checkout (e.g. Razorpay key_id) */
+  checkout: Record<string, string>;
+}
+
+export interface PaymentConfirmation {
+  providerOrderId: string;
+  providerPaymentId: string;
+  signature: string;
+}
+
+export interface CapturedPayment {
+  id: string;
+  providerOrderId: string | null;
+  amountInPaise: number;
+  status: "captured" | "failed" | "pending";
+}
+
+export interface GatewayRefund {
+  id: string;
+  status: "pending" | "processed" | "failed";
+}
+
+export interface RefundRequest {
+  /** Our refund id — lets a retry find a refund an earlier attempt already created */
+  receipt: string;
+  notes?: Record<string, string>;
+}
+
+export interface WebhookPayment {
+  id: string;
+  providerOrderId: string | null;
+  amountInPaise: number;
+  notes: Record<string, string>;
+}
+
+export interface WebhookRefund {
+  id: string;
+  providerPaymentId: string;
+  amountInPaise: number;
+  notes: Record<string, string>;
+}
+
+/** Provider webhook normalized to the events we act on; anything else is "other" */
+export interface PaymentWebhookEvent {
+  eventId: string;
+  /** Provider's own event name, e.g. payment.captured */
+  event: string;
+  type: "payment.captured" | "payment.failed" | "refund.processed" | "refund.failed" | "other";
+  payment?: WebhookPayment;
+  refund?: WebhookRefund;
+  payload: unknown;
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  isConfigured(): boolean;
+  isWebhookConfigured(): boolean;
+  createIntent(prisma: PrismaClient, input: CreateIntentInput): Promise<PaymentIntent>;
+  /** Check the signature the client received from checkout */
+  verifyPayment(confirmation: PaymentConfirmation): boolean;
+  /** Fetch a payment, capturing it first if it was only authorized */
+  capturePayment(providerPaymentId: string, amountInPaise: number): Promise<CapturedPayment>;
+  refund(providerPaymentId: string, amountInPaise: number, request: RefundRequest): Promise<GatewayRefund>;
+  /** Refund created on a payment with this receipt, or null if none reached the gateway */
+  findRefund(providerPaymentId: string, receipt: string): Promise<GatewayRefund | null>;
+  /** Verify and normalize a webhook delivery. Throws a 400 error on a bad signature. */
+  parseWebhook(rawBody: string, headers: Record<string, string | string[] | undefined>): PaymentWebhookEvent;
+}
+
+const providers = new Map<PaymentProviderName, PaymentProvider>([
+  [razorpayProvider.name, razorpayProvider],
+  [mockPaymentProvider.name, mockPaymentProvider],
+]);
 
-function getRazorpay(): Razorpay {
-  if (!razorpayInstance) {
-    if (!keyId || !keySecret) {
-      throw Object.assign(new Error("Razorpay is not configured"), { statusCode: 503 });
-    }
-    razorpayInstance = new Razorpay({ key_id: keyId, key_secret: keySecret });
+const defaultProviderName = (process.env.PAYMENT_PROVIDER ?? "razorpay") as PaymentProviderName;
+
+export function isPaymentProviderName(name: string): name is PaymentProviderName {
+  return providers.has(name as PaymentProviderName);
+}
+
+/**
+ * Provider that took a payment, or the default (PAYMENT_PROVIDER) for new payments.
+ * Records created before providers were tracked are Razorpay payments.
+ */
+export function getPaymentProvider(name?: string | null): PaymentProvider {
+  const provider = providers.get((name ?? defaultProviderName) as PaymentProviderName);
+  if (!provider) {
+    throw Object.assign(new Error(`Unknown payment provider: ${name ?? defaultProviderName}`), { statusCode: 400 });
   }
-  return razorpayInstance;
+  return provider;
 }
 
-export function isRazorpayConfigured(): boolean {
-  return Boolean(keyId && keySecret);
+/**
+ * True when a gateway call failed without a definite answer — connection errors, timeouts,
+ * rate limits and 5xx responses. Anything else is the gateway rejecting the request.
+ */
+export function isTransientGatewayError(err: unknown) {
+  const statusCode = (err as { statusCode?: unknown } | null)?.statusCode;
+  return typeof statusCode !== "number" || statusCode === 429 || statusCode >= 500;
 }
 
-export function getRazorpayKeyId(): string {
-  return keyId;
+/** Replace a provider implementation, e.g. with a fake in tests */
+export function registerPaymentProvider(provider: PaymentProvider) {
+  providers.set(provider.name, provider);
 }
 
-export async function createRazorpayOrder(amountInPaise: number, orderId: string, customerId?: string) {
-  const rp = getRazorpay();
-  return rp.orders.create({
-    amount: amountInPaise,
-    currency: "INR",
-    receipt: orderId,
-    ...(customerId ? { customer_id: customerId } : {}),
-  });
+/**
+ * Checkout params returned to the client. Razorpay's own keys (razorpay_order_id,
+ * key_id, customer_id) stay at the top level for existing app versions.
+ */
+export function toCheckoutResponse(intent: PaymentIntent) {
+  return {
+    provider: intent.provider,
+    provider_order_id: intent.providerOrderId,
+    amount: intent.amountInPaise,
+    currency: intent.currency,
+    ...intent.checkout,
+  };
 }
 
-export async function ensureRazorpayCustomer(
-  prisma: PrismaClient,
-  userId: string,
-): Promise<string> {
-  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
-  if (user.razorpayCustomerId) return user.razorpayCustomerId;
-
-  const rp = getRazorpay();
-  const customer = await (rp.customers as { create: (opts: Record<string, unknown>) => Promise<{ id: string }> }).create({
-    name: user.name,
-    email: user.email,
-    ...(user.phone ? { contact: user.phone } : {}),
-    fail_existing: 0,
-  });
+export type CheckoutResponse = ReturnType<typeof toCheckoutResponse>;
 
-  await prisma.user.update({
-    where: { id: userId },
-    data: { razorpayCustomerId: customer.id },
+/**
+ * Open a wallet recharge or membership checkout with the default provider and record it,
+ * so verify can use the provider, amount and notes the intent was created with.
+ */
+export async function createCheckoutIntent(
+  prisma: PrismaClient,
+  purpose: CheckoutPurpose,
+  input: CreateIntentInput & { userId: string },
+) {
+  const intent = await getPaymentProvider().createIntent(prisma, input);
+  await prisma.checkoutIntent.create({
+    data: {
+      userId: input.userId,
+      purpose,
+      provider: intent.provider,
+      providerOrderId: intent.providerOrderId,
+      amountInPaise: intent.amountInPaise,
+      notes: input.notes ?? {},
+    },
   });
-
-  return customer.id;
+  return intent;
 }
 
-export function verifyRazorpaySignature(
-  razorpayOrderId: string,
-  razorpayPaymentId: string,
-  signature: string,
-): boolean {
-  const body = `${razorpayOrderId}|${razorpayPaymentId}`;
-  const expected = crypto
-    .createHmac("sha256", keySecret)
-    .update(body)
-    .digest("hex");
-  return expected === signature;
+/** The customer's own recorded checkout for a provider order id. Throws 400 if there is none. */
+export async function getCheckoutIntent(
+  prisma: PrismaClient,
+  userId: string,
+  purpose: CheckoutPurpose,
+  providerOrderId: string,
+): Promise<CheckoutIntent & { notes: Record<string, string> }> {
+  const checkout = await prisma.checkoutIntent.findUnique({ where: { providerOrderId } });
+  if (!checkout || checkout.userId !== userId || checkout.purpose !== purpose) {
+    throw Object.assign(new Error("Unknown payment"), { statusCode: 400 });
+  }
+  return { ...checkout, notes: checkout.notes as Record<string, string> };
 }
@@ -0,0 +1,74 @@
+import { randomInt } from "crypto";
+import type { Prisma, PrismaClient } from "../../generated/prisma/client.js";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+/** Wrong codes allowed before only a store manager can hand the order over */
+export const MAX_PICKUP_CODE_ATTEMPTS = 5;
+
+/** Order statuses in which a customer can tell the store they've arrived */
+export const PICKUP_CHECK_IN_STATUSES = ["CONFIRMED", "PREPARING", "READY"];
+
+export function generatePickupCode(): string {
+  return randomInt(0, 10000).toString().padStart(4, "0");
+}
+
+/** Issue the customer's pickup code once the order is READY. Existing codes are kept. */
+export async function issuePickupCode(db: Db, orderId: string) {
+  const pickup = await db.orderPickup.findUnique({ where: { orderId }, select: { code: true } });
+  if (pickup?.code) return;
+  await db.orderPickup.upsert({
+    where: { orderId },
+    create: { orderId, code: generatePickupCode() },
+    update: { code: generatePickupCode() },
+  });
+}
+
+/**
+ * Check the code shown at the counter. Returns whether the order had a code to
+ * verify — orders made ready before codes existed have none. Once the attempts
+ * run out, a manager can hand the order over without it. Wrong attempts are
+ * counted on the spot, so call this outside the status transaction.
+ */
+export async function verifyPickupCode(
+  db: Db,
+  orderId: string,
+  code: string | undefined,
+  staff: { id: string; isManager: boolean },
+): Promise<boolean> {
+  const pickup = await db.orderPickup.findUnique({ where: { orderId } });
+  if (!pickup?.code) return false;
+  if (pickup.verifiedAt) return true;
+
+  if (pickup.codeAttempts >= MAX_PICKUP_CODE_ATTEMPTS) {
+    if (staff.isManager) return true;
+    throw Object.assign(new Error("Too many incorrect codes — a store manager must hand this order over"), { statusCode: 429 });
+  }
+  if (!code) {
+    throw Object.assign(new Error("Ask the customer for their 4-digit pickup code"), { statusCode: 400 });
+  }
+  if (code !== pickup.code) {
+    const updated = await db.orderPickup.update({
+      where: { orderId },
+      data: { codeAttempts: { increment: 1 } },
+    });
+    const left = MAX_PICKUP_CODE_ATTEMPTS - updated.codeAttempts;
+    throw Object.assign(
+      new Error(left > 0 ? `Incorrect pickup code — ${left} attempt${left === 1 ? "" : "s"} left` : "Incorrect pickup code — a store manager must hand this order over"),
+      { statusCode: 400 },
+    );
+  }
+
+  await db.orderPickup.update({ where: { orderId }, data: { verifiedAt: new Date(), verifiedById: staff.id } });
+  return true;
+}
+
+/** Record the customer's arrival. Checking in again updates the time and parking note. */
+export async function checkInPickup(db: Db, orderId: string, parkingNote?: string) {
+  const data = { arrivedAt: new Date(), parkingNote: parkingNote?.trim() || null };
+  return db.orderPickup.upsert({
+    where: { orderId },
+    create: { orderId, ...data },
+    update: data,
+  });
+}
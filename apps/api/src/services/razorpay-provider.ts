@@ -0,0 +1,353 @@
+import crypto from "crypto";
+import Razorpay from "razorpay";
+import type { PrismaClient } from "../../generated/prisma/index.js";
+import type { CapturedPayment, GatewayRefund, PaymentProvider, PaymentWebhookEvent } from "./payment.js";
+import type { MandateChargeResult, MandateProvider } from "./mandate.js";
+
+const keyId = process.env.RAZORPAY_KEY_ID ?? "";
+const keySecret = process.env.RAZORPAY_KEY_SECRET ?? "";
+const webhookSecret = process.env.RAZORPAY_WEBHOOK_SECRET ?? "";
+
+let razorpayInstance: Razorpay | null = null;
+
+function getRazorpay(): Razorpay {
+  if (!razorpayInstance) {
+    if (!keyId || !keySecret) {
+      throw Object.assign(new Error("Razorpay is not configured"), { statusCode: 503 });
+    }
+    razorpayInstance = new Razorpay({ key_id: keyId, key_secret: keySecret });
+  }
+  return razorpayInstance;
+}
+
+export async function ensureRazorpayCustomer(
+  prisma: PrismaClient,
+  userId: string,
+): Promise<string> {
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+  if (user.razorpayCustomerId) return user.razorpayCustomerId;
+
+  const rp = getRazorpay();
+  const customer = await (rp.customers as { create: (opts: Record<string, unknown>) => Promise<{ id: string }> }).create({
+    name: user.name,
+    email: user.email,
+    ...(user.phone ? { contact: user.phone } : {}),
+    fail_existing: 0,
+  });
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { razorpayCustomerId: customer.id },
+  });
+
+  return customer.id;
+}
+
+function hmacHex(secret: string, body: string) {
+  return crypto.createHmac("sha256", secret).update(body).digest("hex");
+}
+
+function safeEqual(expected: string, actual: string) {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// ── Webhook payloads ────────────────────────────────
+
+// Razorpay sends `notes: []` when no notes were set on the order
+type RazorpayNotes = Record<string, string> | [];
+
+interface RazorpayWebhookBody {
+  event: string;
+  created_at: number;
+  payload: {
+    payment?: {
+      entity: { id: string; order_id: string | null; amount: number; notes?: RazorpayNotes };
+    };
+    order?: { entity: { id: string; amount: number; notes?: RazorpayNotes } };
+    refund?: { entity: { id: string; payment_id: string; amount: number; notes?: RazorpayNotes } };
+  };
+}
+
+function normalizeNotes(notes?: RazorpayNotes): Record<string, string> {
+  return notes && !Array.isArray(notes) ? notes : {};
+}
+
+const EVENT_TYPES: Record<string, PaymentWebhookEvent["type"]> = {
+  "payment.captured": "payment.captured",
+  "order.paid": "payment.captured",
+  "payment.failed": "payment.failed",
+  "refund.processed": "refund.processed",
+  "refund.failed": "refund.failed",
+};
+
+export const razorpayProvider: PaymentProvider = {
+  name: "razorpay",
+
+  isConfigured() {
+    return Boolean(keyId && keySecret);
+  },
+
+  isWebhookConfigured() {
+    return Boolean(webhookSecret);
+  },
+
+  async createIntent(prisma, input) {
+    const rp = getRazorpay();
+
+    // Create/retrieve Razorpay customer for saved payment instruments
+    let customerId: string | undefined;
+    if (input.userId) {
+      try {
+        customerId = await ensureRazorpayCustomer(prisma, input.userId);
+      } catch {
+        // Non-fatal — proceed without customer_id (no saved cards)
+      }
+    }
+
+    const rpOrder = await rp.orders.create({
+      amount: input.amountInPaise,
+      currency: "INR",
+      receipt: input.receipt,
+      ...(customerId ? { customer_id: customerId } : {}),
+      ...(input.notes ? { notes: input.notes } : {}),
+    });
+
+    return {
+      provider: "razorpay",
+      providerOrderId: rpOrder.id,
+      amountInPaise: input.amountInPaise,
+      currency: "INR",
+      checkout: {
+        razorpay_order_id: rpOrder.id,
+        key_id: keyId,
+        ...(customerId ? { customer_id: customerId } : {}),
+      },
+    };
+  },
+
+  verifyPayment({ providerOrderId, providerPaymentId, signature }) {
+    if (!keySecret || !signature) return false;
+    return safeEqual(hmacHex(keySecret, `${providerOrderId}|${providerPaymentId}`), signature);
+  },
+
+  async capturePayment(providerPaymentId, amountInPaise): Promise<CapturedPayment> {
+    const rp = getRazorpay();
+    let payment = await rp.payments.fetch(providerPaymentId);
+    if (payment.status === "authorized") {
+      payment = await rp.payments.capture(providerPaymentId, amountInPaise, "INR");
+    }
+    return {
+      id: payment.id,
+      providerOrderId: payment.order_id ?? null,
+      amountInPaise: Number(payment.amount),
+      status: payment.status === "captured" ? "captured" : payment.status === "failed" ? "failed" : "pending",
+    };
+  },
+
+  async refund(providerPaymentId, amountInPaise, { receipt, notes }): Promise<GatewayRefund> {
+    const rp = getRazorpay();
+    try {
+      const refund = await rp.payments.refund(providerPaymentId, {
+        amount: amountInPaise,
+        speed: "normal",
+        receipt,
+        ...(notes ? { notes } : {}),
+      });
+      return { id: refund.id, status: refund.status as GatewayRefund["status"] };
+    } catch (err) {
+      // Keep the HTTP status so callers can tell a rejection from a network failure
+      throw Object.assign(new Error(razorpayErrorMessage(err)), { statusCode: (err as { statusCode?: number }).statusCode });
+    }
+  },
+
+  async findRefund(providerPaymentId, receipt): Promise<GatewayRefund | null> {
+    const rp = getRazorpay();
+    const { items } = await rp.payments.fetchMultipleRefund(providerPaymentId, { count: 100 });
+    const matches = items.filter((r) => r.receipt === receipt || (r.notes as Record<string, unknown> | undefined)?.refundId === receipt);
+    const refund = matches.find((r) => r.status !== "failed") ?? matches[0];
+    return refund ? { id: refund.id, status: refund.status as GatewayRefund["status"] } : null;
+  },
+
+  /**
+   * Webhooks are signed over the raw request body with the webhook secret
+   * configured in the Razorpay dashboard (not the API key secret).
+   */
+  parseWebhook(rawBody, headers) {
+    const signature = headers["x-razorpay-signature"];
+    if (!webhookSecret || typeof signature !== "string" || !safeEqual(hmacHex(webhookSecret, rawBody), signature)) {
+      throw Object.assign(new Error("Invalid webhook signature"), { statusCode: 400 });
+    }
+
+    const body = JSON.parse(rawBody) as RazorpayWebhookBody;
+    const payment = body.payload.payment?.entity;
+    const order = body.payload.order?.entity;
+    const refund = body.payload.refund?.entity;
+
+    // Razorpay retries deliveries until it gets a 2xx, reusing the same event id
+    const headerEventId = headers["x-razorpay-event-id"];
+    const eventId = typeof headerEventId === "string" && headerEventId
+      ? headerEventId
+      : `${body.event}:${refund?.id ?? payment?.id ?? body.created_at}`;
+
+    return {
+      eventId,
+      event: body.event,
+      type: EVENT_TYPES[body.event] ?? "other",
+      ...(payment
+        ? {
+            payment: {
+              id: payment.id,
+              providerOrderId: payment.order_id ?? order?.id ?? null,
+              amountInPaise: payment.amount,
+              notes: { ...normalizeNotes(order?.notes), ...normalizeNotes(payment.notes) },
+            },
+          }
+        : {}),
+      ...(refund
+        ? {
+            refund: {
+              id: refund.id,
+              providerPaymentId: refund.payment_id,
+              amountInPaise: refund.amount,
+              notes: normalizeNotes(refund.notes),
+            },
+          }
+        : {}),
+      payload: body,
+    };
+  },
+};
+
+// ── Recurring payments (UPI AutoPay / card mandates) ─
+
+/** Authorization payment taken when the customer approves a mandate; refunded straight after */
+const MANDATE_AUTH_AMOUNT_IN_PAISE = 100;
+/** Mandates stay valid for five years unless cancelled */
+const MANDATE_VALIDITY_SECONDS = 5 * 365 * 24 * 60 * 60;
+
+type OrderCreateBody = Parameters<Razorpay["orders"]["create"]>[0];
+
+/** Razorpay rejects API calls with `{ error: { description } }` */
+function razorpayErrorMessage(err: unknown) {
+  const e = err as { error?: { description?: string }; message?: string };
+  return e?.error?.description ?? e?.message ?? "Payment failed";
+}
+
+export const razorpayMandateProvider: MandateProvider = {
+  name: "razorpay",
+
+  isConfigured() {
+    return Boolean(keyId && keySecret);
+  },
+
+  async createMandate(prisma, input) {
+    const rp = getRazorpay();
+    // Recurring tokens belong to a Razorpay customer, so unlike checkout this isn't optional
+    const customerId = await ensureRazorpayCustomer(prisma, input.userId);
+
+    const rpOrder = await rp.orders.create({
+      amount: MANDATE_AUTH_AMOUNT_IN_PAISE,
+      currency: "INR",
+      method: input.method === "UPI" ? "upi" : "card",
+      receipt: `m_${input.reference.slice(0, 8)}_${Date.now()}`,
+      notes: { type: "mandate-authorization", reference: input.reference, userId: input.userId },
+      customer_id: customerId,
+      payment_capture: true,
+      token: {
+        max_amount: input.maxAmountInPaise,
+        expire_at: Math.floor(Date.now() / 1000) + MANDATE_VALIDITY_SECONDS,
+        frequency: "as_presented",
+      },
+    } as OrderCreateBody);
+
+    return {
+      provider: "razorpay",
+      setupOrderId: rpOrder.id,
+      amountInPaise: MANDATE_AUTH_AMOUNT_IN_PAISE,
+      checkout: {
+        razorpay_order_id: rpOrder.id,
+        key_id: keyId,
+        customer_id: customerId,
+        recurring: "1",
+      },
+    };
+  },
+
+  async confirmMandate({ providerOrderId, providerPaymentId, signature }) {
+    if (!keySecret || !signature || !safeEqual(hmacHex(keySecret, `${providerOrderId}|${providerPaymentId}`), signature)) {
+      throw Object.assign(new Error("Invalid payment signature"), { statusCode: 400 });
+    }
+    const rp = getRazorpay();
+    const payment = await rp.payments.fetch(providerPaymentId);
+    if (payment.order_id !== providerOrderId || !payment.token_id) {
+      throw Object.assign(new Error("The mandate was not authorized"), { statusCode: 400 });
+    }
+
+    try {
+      await rp.payments.refund(providerPaymentId, {
+        amount: MANDATE_AUTH_AMOUNT_IN_PAISE,
+        speed: "normal",
+        notes: { type: "mandate-authorization" },
+      });
+    } catch {
+      // Non-fatal — the mandate is authorized either way
+    }
+
+    const card = payment.card as { network?: string; last4?: string } | undefined;
+    return {
+      token: payment.token_id,
+      label: payment.vpa ?? (card?.last4 ? `${card.network ?? "Card"} •••• ${card.last4}` : null),
+    };
+  },
+
+  async charge(prisma, input): Promise<MandateChargeResult> {
+    const rp = getRazorpay();
+    const customerId = await ensureRazorpayCustomer(prisma, input.userId);
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: input.userId }, select: { email: true, phone: true } });
+
+    const rpOrder = await rp.orders.create({
+      amount: input.amountInPaise,
+      currency: "INR",
+      receipt: input.receipt,
+      notes: input.notes,
+      payment_capture: true,
+    } as OrderCreateBody);
+
+    let providerPaymentId: string | null = null;
+    try {
+      const created = await rp.payments.createRecurringPayment({
+        email: user.email,
+        contact: user.phone ?? "",
+        amount: input.amountInPaise,
+        currency: "INR",
+        order_id: rpOrder.id,
+        customer_id: customerId,
+        token: input.token,
+        recurring: "1",
+        notes: input.notes,
+        description: input.description ?? "Subscription order",
+      });
+      providerPaymentId = created.razorpay_payment_id ?? null;
+    } catch (err) {
+      return { providerOrderId: rpOrder.id, providerPaymentId: null, status: "failed", failureReason: razorpayErrorMessage(err) };
+    }
+
+    // Card debits usually settle at once; UPI AutoPay debits are confirmed later by webhook
+    if (!providerPaymentId) return { providerOrderId: rpOrder.id, providerPaymentId: null, status: "pending" };
+    const payment = await rp.payments.fetch(providerPaymentId);
+    return {
+      providerOrderId: rpOrder.id,
+      providerPaymentId,
+      status: payment.status === "captured" ? "captured" : payment.status === "failed" ? "failed" : "pending",
+      ...(payment.status === "failed" ? { failureReason: payment.error_description ?? "Payment failed" } : {}),
+    };
+  },
+
+  async cancel(prisma, userId, token) {
+    const rp = getRazorpay();
+    const customerId = await ensureRazorpayCustomer(prisma, userId);
+    await rp.customers.deleteToken(customerId, token);
+  },
+};
@@ -0,0 +1,217 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Prisma, PrismaClient, Refund } from "../../generated/prisma/index.js";
+import { registerPaymentProvider, type GatewayRefund, type PaymentProvider } from "./payment.js";
+import { MAX_REFUND_ATTEMPTS, createOrderRefunds, processRefund } from "./refund.js";
+
+type FakeRefund = Pick<
+  Refund,
+  "id" | "orderId" | "destination" | "status" | "paymentProvider" | "providerPaymentId" | "providerRefundId" | "attempts" | "lastError"
+> & { amount: number; orderEdit?: boolean };
+
+function fakeDb(refunds: FakeRefund[] = []) {
+  const walletCredits: number[] = [];
+  let nextId = refunds.length + 1;
+
+  const db = {
+    refunds,
+    walletCredits,
+    refund: {
+      aggregate: async ({ where }: { where: { orderId: string; destination?: string; orderEdit?: boolean } }) => ({
+        _sum: {
+          amount: refunds
+            .filter((r) => r.orderId === where.orderId && (!where.destination || r.destination === where.destination))
+            .filter((r) => where.orderEdit === undefined || !!r.orderEdit === where.orderEdit)
+            .reduce((sum, r) => sum + r.amount, 0),
+        },
+      }),
+      create: async ({ data }: { data: Omit<FakeRefund, "id" | "attempts" | "lastError" | "providerRefundId"> }) => {
+        const row = { id: `refund-${nextId++}`, attempts: 0, lastError: null, providerRefundId: null, ...data };
+        refunds.push(row as FakeRefund);
+        return row;
+      },
+      findUnique: async ({ where }: { where: { id: string } }) => refunds.find((r) => r.id === where.id) ?? null,
+      updateMany: async ({ where, data }: { where: { id: string; attempts: number }; data: unknown }) => {
+        const row = refunds.find((r) => r.id === where.id && r.attempts === where.attempts && !r.providerRefundId);
+        if (!row) return { count: 0 };
+        row.attempts += (data as { attempts: { increment: number } }).attempts.increment;
+        return { count: 1 };
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<FakeRefund> }) => {
+        const row = refunds.find((r) => r.id === where.id)!;
+        Object.assign(row, data);
+        return row;
+      },
+    },
+    user: {
+      update: async ({ data }: { data: { walletBalance: { increment: number } } }) => {
+        walletCredits.push(data.walletBalance.increment);
+        return { walletBalance: data.walletBalance.increment };
+      },
+    },
+    walletTransaction: { create: async () => ({}) },
+    order: { update: async () => ({}) },
+  };
+  return db;
+}
+
+const paidOrder = {
+  id: "order-1",
+  userId: "user-1",
+  totalAmount: 500,
+  walletAmountUsed: 200,
+  paymentMethod: "ONLINE",
+  paymentStatus: "PAID",
+  paymentProvider: "mock",
+  providerPaymentId: "pay_1",
+} as unknown as Parameters<typeof createOrderRefunds>[1];
+
+describe("createOrderRefunds", () => {
+  it("sends the online share to the source and the wallet share back to the wallet", async () => {
+    const db = fakeDb();
+    const plan = await createOrderRefunds(db as unknown as Prisma.TransactionClient, paidOrder, {
+      amount: 500,
+      destination: "SOURCE",
+      reason: "Order cancelled",
+    });
+
+    assert.equal(plan.sourceAmount, 300);
+    assert.equal(plan.walletAmount, 200);
+    assert.deepEqual(
+      plan.refunds.map((r) => [r.destination, Number(r.amount), r.status]),
+      [
+        ["WALLET", 200, "PROCESSED"],
+        ["SOURCE", 300, "INITIATED"],
+      ],
+    );
+    assert.deepEqual(db.walletCredits, [200]);
+  });
+
+  it("caps the source share at what hasn't been refunded to the source yet", async () => {
+    const db = fakeDb();
+    const tx = db as unknown as Prisma.TransactionClient;
+    await createOrderRefunds(tx, paidOrder, { amount: 250, destination: "SOURCE", reason: "Return" });
+    const plan = await createOrderRefunds(tx, paidOrder, { amount: 100, destination: "SOURCE", reason: "Return" });
+
+    assert.equal(plan.sourceAmount, 50);
+    assert.equal(plan.walletAmount, 50);
+  });
+
+  it("doesn't count an edit's source refund against the captured share twice", async () => {
+    const db = fakeDb();
+    const tx = db as unknown as Prisma.TransactionClient;
+    await createOrderRefunds(tx, paidOrder, { amount: 100, destination: "SOURCE", reason: "Edit", orderEdit: true });
+    // The edit lowered the total by what it refunded
+    const edited = { ...paidOrder, totalAmount: 400 } as unknown as typeof paidOrder;
+    const plan = await createOrderRefunds(tx, edited, { amount: 400, destination: "SOURCE", reason: "Order cancelled" });
+
+    assert.equal(plan.sourceAmount, 200);
+    assert.equal(plan.walletAmount, 200);
+  });
+
+  it("refunds cash on delivery orders to the wallet", async () => {
+    const db = fakeDb();
+    const plan = await createOrderRefunds(
+      db as unknown as Prisma.TransactionClient,
+      { ...paidOrder, paymentMethod: "COD", providerPaymentId: null },
+      { amount: 120, destination: "SOURCE", reason: "Return" },
+    );
+
+    assert.equal(plan.sourceAmount, 0);
+    assert.equal(plan.walletAmount, 120);
+    assert.deepEqual(plan.refunds.map((r) => r.destination), ["WALLET"]);
+  });
+
+  it("keeps everything in the wallet when asked to", async () => {
+    const db = fakeDb();
+    const plan = await createOrderRefunds(db as unknown as Prisma.TransactionClient, paidOrder, {
+      amount: 500,
+      destination: "WALLET",
+      reason: "Order cancelled",
+    });
+
+    assert.equal(plan.sourceAmount, 0);
+    assert.equal(plan.walletAmount, 500);
+  });
+});
+
+describe("processRefund", () => {
+  let sent: { providerPaymentId: string; amountInPaise: number; receipt: string }[];
+  let gateway: Map<string, GatewayRefund>;
+  let failWith: unknown;
+
+  const provider = {
+    name: "mock",
+    async refund(providerPaymentId: string, amountInPaise: number, { receipt }: { receipt: string }) {
+      if (failWith) throw failWith;
+      sent.push({ providerPaymentId, amountInPaise, receipt });
+      const refund: GatewayRefund = { id: `rfnd_${sent.length}`, status: "pending" };
+      gateway.set(receipt, refund);
+      return refund;
+    },
+    async findRefund(_providerPaymentId: string, receipt: string) {
+      return gateway.get(receipt) ?? null;
+    },
+  } as unknown as PaymentProvider;
+  registerPaymentProvider(provider);
+
+  function sourceRefund(overrides: Partial<FakeRefund> = {}): FakeRefund {
+    return {
+      id: "refund-1",
+      orderId: "order-1",
+      destination: "SOURCE",
+      status: "INITIATED",
+      amount: 300,
+      paymentProvider: "mock",
+      providerPaymentId: "pay_1",
+      providerRefundId: null,
+      attempts: 0,
+      lastError: null,
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    sent = [];
+    gateway = new Map();
+    failWith = undefined;
+  });
+
+  it("sends the refund id as the receipt", async () => {
+    const db = fakeDb([sourceRefund()]);
+    const refund = await processRefund(db as unknown as PrismaClient, "refund-1");
+
+    assert.deepEqual(sent, [{ providerPaymentId: "pay_1", amountInPaise: 30000, receipt: "refund-1" }]);
+    assert.equal(refund?.providerRefundId, "rfnd_1");
+    assert.equal(refund?.status, "INITIATED");
+  });
+
+  it("picks up a refund an earlier attempt created instead of sending another", async () => {
+    gateway.set("refund-1", { id: "rfnd_earlier", status: "processed" });
+    const db = fakeDb([sourceRefund({ status: "FAILED", attempts: 1, lastError: "socket hang up" })]);
+    const refund = await processRefund(db as unknown as PrismaClient, "refund-1");
+
+    assert.deepEqual(sent, []);
+    assert.equal(refund?.providerRefundId, "rfnd_earlier");
+    assert.equal(refund?.status, "PROCESSED");
+  });
+
+  it("leaves network failures for the retry scheduler", async () => {
+    failWith = Object.assign(new Error("connect ETIMEDOUT"), { code: "ETIMEDOUT" });
+    const db = fakeDb([sourceRefund()]);
+    const refund = await processRefund(db as unknown as PrismaClient, "refund-1");
+
+    assert.equal(refund?.status, "FAILED");
+    assert.equal(refund?.attempts, 1);
+  });
+
+  it("doesn't retry a refund the gateway rejected", async () => {
+    failWith = Object.assign(new Error("The refund amount is greater than the amount captured"), { statusCode: 400 });
+    const db = fakeDb([sourceRefund()]);
+    const refund = await processRefund(db as unknown as PrismaClient, "refund-1");
+
+    assert.equal(refund?.status, "FAILED");
+    assert.equal(refund?.attempts, MAX_REFUND_ATTEMPTS);
+    assert.equal(refund?.lastError, "The refund amount is greater than the amount captured");
+  });
+});
@@ -0,0 +1,330 @@
+import type { Messaging } from "firebase-admin/messaging";
+import type { Order, Prisma, PrismaClient, Refund, RefundDestination } from "../../generated/prisma/index.js";
+import { getPaymentProvider, isTransientGatewayError } from "./payment.js";
+import { sendNotification, sendWalletNotification } from "./notification.js";
+
+export const MAX_REFUND_ATTEMPTS = 5;
+
+type RefundableOrder = Pick<
+  Order,
+  | "id"
+  | "userId"
+  | "totalAmount"
+  | "walletAmountUsed"
+  | "paymentMethod"
+  | "paymentStatus"
+  | "paymentProvider"
+  | "providerPaymentId"
+>;
+
+interface CreateRefundsOptions {
+  amount: number;
+  destination: RefundDestination;
+  /** Shown on the wallet transaction and stored on the refund */
+  reason: string;
+  returnRequestId?: string;
+  /** The order total has already been lowered by this amount (item edits) */
+  orderEdit?: boolean;
+}
+
+export interface RefundPlan {
+  refunds: Refund[];
+  walletAmount: number;
+  sourceAmount: number;
+}
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Record refunds for an order inside the caller's transaction.
+ *
+ * WALLET refunds are credited immediately. SOURCE refunds are capped at what was
+ * captured online and not yet refunded — anything beyond that (the wallet share of a
+ * split payment, COD orders) goes back to the wallet. SOURCE rows are left INITIATED;
+ * call processRefund() for them once the transaction commits.
+ *
+ * Item edits lower totalAmount/walletAmountUsed along with their refund, so their
+ * SOURCE refunds are already out of the captured share and aren't subtracted again.
+ */
+export async function createOrderRefunds(
+  tx: Prisma.TransactionClient,
+  order: RefundableOrder,
+  options: CreateRefundsOptions,
+): Promise<RefundPlan> {
+  const amount = round2(options.amount);
+  if (amount <= 0) return { refunds: [], walletAmount: 0, sourceAmount: 0 };
+
+  let sourceAmount = 0;
+  if (options.destination === "SOURCE" && order.paymentMethod === "ONLINE" && order.providerPaymentId) {
+    const capturedOnline = Number(order.totalAmount) - Number(order.walletAmountUsed ?? 0);
+    const prior = await tx.refund.aggregate({
+      where: { orderId: order.id, destination: "SOURCE", orderEdit: false },
+      _sum: { amount: true },
+    });
+    const remaining = round2(capturedOnline - Number(prior._sum.amount ?? 0));
+    sourceAmount = Math.max(0, Math.min(amount, remaining));
+  }
+  const walletAmount = round2(amount - sourceAmount);
+
+  const refunds: Refund[] = [];
+
+  if (walletAmount > 0) {
+    const updatedUser = await tx.user.update({
+      where: { id: order.userId },
+      data: { walletBalance: { increment: walletAmount } },
+    });
+    await tx.walletTransaction.create({
+      data: {
+        userId: order.userId,
+        orderId: order.id,
+        type: "CREDIT",
+        amount: walletAmount,
+        balanceAfter: Number(updatedUser.walletBalance),
+        description: options.reason,
+      },
+    });
+    refunds.push(
+      await tx.refund.create({
+        data: {
+          orderId: order.id,
+          returnRequestId: options.returnRequestId,
+          orderEdit: options.orderEdit,
+          userId: order.userId,
+          amount: walletAmount,
+          destination: "WALLET",
+          status: "PROCESSED",
+          reason: options.reason,
+          processedAt: new Date(),
+        },
+      }),
+    );
+  }
+
+  if (sourceAmount > 0) {
+    refunds.push(
+      await tx.refund.create({
+        data: {
+          orderId: order.id,
+          returnRequestId: options.returnRequestId,
+          orderEdit: options.orderEdit,
+          userId: order.userId,
+          amount: sourceAmount,
+          destination: "SOURCE",
+          status: "INITIATED",
+          reason: options.reason,
+          paymentProvider: order.paymentProvider,
+          providerPaymentId: order.providerPaymentId,
+        },
+      }),
+    );
+  }
+
+  await syncRefundedPaymentStatus(tx, order);
+
+  return { refunds, walletAmount, sourceAmount };
+}
+
+/**
+ * Move a settled order to PARTIALLY_REFUNDED / REFUNDED based on its refund total.
+ * An unpaid order getting its wallet share back keeps its payment status. Edit refunds
+ * count towards both sides, since they already came off the order total.
+ */
+async function syncRefundedPaymentStatus(tx: Prisma.TransactionClient, order: RefundableOrder) {
+  if (order.paymentStatus !== "PAID" && order.paymentStatus !== "PARTIALLY_REFUNDED") return;
+
+  const [total, edits] = await Promise.all([
+    tx.refund.aggregate({ where: { orderId: order.id }, _sum: { amount: true } }),
+    tx.refund.aggregate({ where: { orderId: order.id, orderEdit: true }, _sum: { amount: true } }),
+  ]);
+  const refunded = Number(total._sum.amount ?? 0);
+  const paid = Number(order.totalAmount) + Number(edits._sum.amount ?? 0);
+  await tx.order.update({
+    where: { id: order.id },
+    data: { paymentStatus: refunded >= paid ? "REFUNDED" : "PARTIALLY_REFUNDED" },
+  });
+}
+
+/**
+ * Push a SOURCE refund to the payment gateway. Safe to call repeatedly: refunds that
+ * are processed or already accepted by the gateway are returned untouched, and the
+ * attempts counter doubles as an optimistic lock against concurrent callers.
+ *
+ * The refund id goes to the gateway as the receipt. A retry looks it up first, so an
+ * attempt that reached the gateway but never got its answer back isn't refunded twice.
+ * Only failures without a definite answer are left for the retry scheduler; a refund
+ * the gateway rejects is marked FAILED with its attempts used up.
+ */
+export async function processRefund(prisma: PrismaClient, refundId: string) {
+  const refund = await prisma.refund.findUnique({ where: { id: refundId } });
+  if (!refund || refund.destination !== "SOURCE") return refund;
+  if (refund.status === "PROCESSED" || refund.providerRefundId) return refund;
+
+  const claimed = await prisma.refund.updateMany({
+    where: { id: refund.id, attempts: refund.attempts, providerRefundId: null },
+    data: { attempts: { increment: 1 } },
+  });
+  if (claimed.count === 0) return prisma.refund.findUnique({ where: { id: refundId } });
+
+  if (!refund.providerPaymentId) {
+    return prisma.refund.update({
+      where: { id: refund.id },
+      data: { status: "FAILED", lastError: "Order has no captured payment to refund", attempts: MAX_REFUND_ATTEMPTS },
+    });
+  }
+
+  const provider = getPaymentProvider(refund.paymentProvider);
+  try {
+    // A refund the gateway failed (refund.failed webhook) is replaced by a fresh one
+    const sent = refund.attempts > 0 ? await provider.findRefund(refund.providerPaymentId, refund.id) : null;
+    const result = sent && sent.status !== "failed"
+      ? sent
+      : await provider.refund(refund.providerPaymentId, Math.round(Number(refund.amount) * 100), {
+          receipt: refund.id,
+          notes: { refundId: refund.id, ...(refund.orderId ? { orderId: refund.orderId } : {}) },
+        });
+
+    if (result.status === "failed") {
+      return prisma.refund.update({
+        where: { id: refund.id },
+        data: { status: "FAILED", lastError: `Gateway rejected refund ${result.id}`, attempts: MAX_REFUND_ATTEMPTS },
+      });
+    }
+
+    return prisma.refund.update({
+      where: { id: refund.id },
+      data: {
+        providerRefundId: result.id,
+        status: result.status === "processed" ? "PROCESSED" : "INITIATED",
+        lastError: null,
+        ...(result.status === "processed" ? { processedAt: new Date() } : {}),
+      },
+    });
+  } catch (err) {
+    return prisma.refund.update({
+      where: { id: refund.id },
+      data: {
+        status: "FAILED",
+        lastError: err instanceof Error ? err.message : String(err),
+        ...(isTransientGatewayError(err) ? {} : { attempts: MAX_REFUND_ATTEMPTS }),
+      },
+    });
+  }
+}
+
+/**
+ * Fire-and-forget customer notifications for a refund plan.
+ */
+export async function sendRefundNotifications(
+  fcm: Messaging | null,
+  prisma: PrismaClient,
+  userId: string,
+  orderId: string,
+  plan: RefundPlan,
+) {
+  if (plan.walletAmount > 0) {
+    sendWalletNotification(fcm, prisma, userId, "CREDIT", plan.walletAmount, `Refund for order #${orderId.slice(0, 8)}`);
+  }
+  if (plan.sourceAmount > 0) {
+    sendNotification(fcm, prisma, {
+      userId,
+      type: "GENERAL",
+      title: "Refund Initiated",
+      body: `₹${plan.sourceAmount} for order #${orderId.slice(0, 8)} is being refunded to your original payment method. It may take 5-7 business days to reflect.`,
+      data: { orderId },
+    });
+  }
+}
+
+interface GatewayRefundEvent {
+  provider: string;
+  id: string;
+  providerPaymentId: string;
+  amountInPaise: number;
+  /** Our refund id, passed as a note when the refund was created */
+  refundId?: string;
+}
+
+async function findRefundForGatewayEvent(prisma: PrismaClient, evt: GatewayRefundEvent) {
+  return prisma.refund.findFirst({
+    where: {
+      OR: [{ providerRefundId: evt.id }, ...(evt.refundId ? [{ id: evt.refundId }] : [])],
+    },
+  });
+}
+
+/**
+ * Apply a refund.processed webhook. Refunds we initiated are matched by gateway id, or by
+ * the refundId note if the webhook beats our own update. Refunds issued straight from the
+ * provider dashboard are recorded as new SOURCE refunds. Returns false if neither a refund
+ * nor an order matches.
+ */
+export async function applyGatewayRefundProcessed(prisma: PrismaClient, evt: GatewayRefundEvent) {
+  const amount = evt.amountInPaise / 100;
+  const note = `Refund of ₹${amount.toFixed(2)} processed (${evt.id})`;
+
+  const existing = await findRefundForGatewayEvent(prisma, evt);
+  if (existing) {
+    if (existing.status === "PROCESSED") return true;
+    const processed = prisma.refund.update({
+      where: { id: existing.id },
+      data: { status: "PROCESSED", providerRefundId: evt.id, lastError: null, processedAt: new Date() },
+    });
+    // Mandate charge refunds have no order to log against
+    if (!existing.orderId) {
+      await processed;
+      return true;
+    }
+    const order = await prisma.order.findUniqueOrThrow({ where: { id: existing.orderId }, select: { status: true } });
+    await prisma.$transaction([
+      processed,
+      prisma.orderStatusLog.create({
+        data: { orderId: existing.orderId, status: order.status, note },
+      }),
+    ]);
+    return true;
+  }
+
+  const order = await prisma.order.findFirst({ where: { paymentProvider: evt.provider, providerPaymentId: evt.providerPaymentId } });
+  if (!order) return false;
+
+  await prisma.$transaction(async (tx) => {
+    await tx.refund.create({
+      data: {
+        orderId: order.id,
+        userId: order.userId,
+        amount,
+        destination: "SOURCE",
+        status: "PROCESSED",
+        reason: "Refunded from payment provider dashboard",
+        paymentProvider: evt.provider,
+        providerPaymentId: evt.providerPaymentId,
+        providerRefundId: evt.id,
+        attempts: 1,
+        processedAt: new Date(),
+      },
+    });
+    await syncRefundedPaymentStatus(tx, order);
+    await tx.orderStatusLog.create({
+      data: { orderId: order.id, status: order.status, note },
+    });
+  });
+
+  return true;
+}
+
+/**
+ * Apply a refund.failed webhook. The gateway id is cleared so the retry scheduler
+ * creates a fresh refund on the next attempt.
+ */
+export async function applyGatewayRefundFailed(prisma: PrismaClient, evt: GatewayRefundEvent) {
+  const existing = await findRefundForGatewayEvent(prisma, evt);
+  if (!existing || existing.status === "PROCESSED") return false;
+
+  await prisma.refund.update({
+    where: { id: existing.id },
+    data: { status: "FAILED", providerRefundId: null, lastError: `Refund ${evt.id} failed at gateway` },
+  });
+  return true;
+}
@@ -0,0 +1,179 @@
+import type { Prisma, PrismaClient } from "../../generated/prisma/client.js";
+import { routeDistance } from "./trip-planner.js";
+import { trackDistance } from "./trip-track.js";
+import { parseDate, startOfDayIST, todayIST } from "../utils/timezone.js";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export interface EarningsRule {
+  baseFee: number;
+  perKm: number;
+  perDrop: number;
+}
+
+export interface StatementPeriod {
+  /** Inclusive start instant */
+  from: Date;
+  /** Exclusive end instant */
+  to: Date;
+  /** Limit to one store; all the rider's stores when omitted */
+  storeId?: string;
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/** IST dates ("YYYY-MM-DD", both inclusive) → statement instants. Defaults to the last 7 days. */
+export function statementPeriod(from?: string, to?: string): { from: Date; to: Date } {
+  const last = to ? parseDate(to) : todayIST();
+  const first = from ? parseDate(from) : new Date(last.getTime() - 6 * 86_400_000);
+  return { from: startOfDayIST(first), to: startOfDayIST(new Date(last.getTime() + 86_400_000)) };
+}
+
+/** A store's earnings rule, or zero for everything when none is set */
+export async function getEarningsRule(db: Db, storeId: string): Promise<EarningsRule> {
+  const rule = await db.riderEarningsRule.findUnique({ where: { storeId } });
+  return {
+    baseFee: Number(rule?.baseFee ?? 0),
+    perKm: Number(rule?.perKm ?? 0),
+    perDrop: Number(rule?.perDrop ?? 0),
+  };
+}
+
+/** Rider's open shift, if any — an open shift means the rider is online */
+export async function getOpenShift(db: Db, riderId: string) {
+  return db.riderShift.findFirst({
+    where: { riderId, endedAt: null },
+    include: { store: { select: { id: true, name: true } } },
+  });
+}
+
+/** Riders on shift at a store, with when each shift started */
+export async function getOnlineRiders(db: Db, storeId: string): Promise<Map<string, Date>> {
+  const shifts = await db.riderShift.findMany({
+    where: { storeId, endedAt: null },
+    select: { riderId: true, startedAt: true },
+  });
+  return new Map(shifts.map((s) => [s.riderId, s.startedAt]));
+}
+
+/**
+ * Price a completed trip with the store's current rule and record it against the
+ * rider. Distance is what the GPS track shows, or the straight-line route through
+ * the delivered stops when there's no usable track. Safe to call twice.
+ */
+export async function recordTripEarning(db: Db, tripId: string) {
+  const existing = await db.riderTripEarning.findUnique({ where: { tripId } });
+  if (existing) return existing;
+
+  const trip = await db.deliveryTrip.findUnique({
+    where: { id: tripId },
+    include: {
+      store: { select: { latitude: true, longitude: true } },
+      pings: { orderBy: { recordedAt: "asc" }, select: { lat: true, lng: true, recordedAt: true } },
+      orders: {
+        where: { status: "DELIVERED" },
+        orderBy: { deliverySequence: "asc" },
+        select: { deliveryLat: true, deliveryLng: true },
+      },
+    },
+  });
+  if (!trip || trip.status !== "COMPLETED") return null;
+
+  let distanceKm = trackDistance(trip.pings.map((p) => ({ lat: p.lat, lng: p.lng, at: p.recordedAt })));
+  if (distanceKm === 0 && trip.store.latitude != null && trip.store.longitude != null) {
+    const stops = trip.orders
+      .filter((o) => o.deliveryLat != null && o.deliveryLng != null)
+      .map((o) => ({ lat: o.deliveryLat!, lng: o.deliveryLng! }));
+    distanceKm = routeDistance({ lat: trip.store.latitude, lng: trip.store.longitude }, stops);
+  }
+
+  const rule = await getEarningsRule(db, trip.storeId);
+  const drops = trip.orders.length;
+  const baseAmount = roundMoney(rule.baseFee);
+  const distanceAmount = roundMoney(rule.perKm * distanceKm);
+  const dropAmount = roundMoney(rule.perDrop * drops);
+
+  return db.riderTripEarning.create({
+    data: {
+      tripId,
+      riderId: trip.riderId,
+      storeId: trip.storeId,
+      distanceKm,
+      drops,
+      baseAmount,
+      distanceAmount,
+      dropAmount,
+      totalAmount: roundMoney(baseAmount + distanceAmount + dropAmount),
+    },
+  });
+}
+
+/** Shifts, per-trip earnings and payouts for a rider over a period, plus the all-time unpaid balance */
+export async function getRiderStatement(db: Db, riderId: string, period: StatementPeriod) {
+  const store = period.storeId ? { storeId: period.storeId } : {};
+
+  const [shifts, earnings, payouts, unpaid] = await Promise.all([
+    db.riderShift.findMany({
+      where: { riderId, ...store, startedAt: { lt: period.to }, OR: [{ endedAt: null }, { endedAt: { gte: period.from } }] },
+      include: { store: { select: { id: true, name: true } } },
+      orderBy: { startedAt: "desc" },
+    }),
+    db.riderTripEarning.findMany({
+      where: { riderId, ...store, createdAt: { gte: period.from, lt: period.to } },
+      include: {
+        store: { select: { id: true, name: true } },
+        trip: { select: { id: true, startedAt: true, completedAt: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    }),
+    db.riderPayout.findMany({
+      where: { riderId, ...store, createdAt: { gte: period.from, lt: period.to } },
+      include: { paidBy: { select: { id: true, name: true } } },
+      orderBy: { createdAt: "desc" },
+    }),
+    db.riderTripEarning.aggregate({
+      where: { riderId, ...store, payoutId: null },
+      _sum: { totalAmount: true },
+    }),
+  ]);
+
+  // Only the part of a shift inside the period counts
+  const now = new Date();
+  const shiftRows = shifts.map((s) => {
+    const start = Math.max(s.startedAt.getTime(), period.from.getTime());
+    const end = Math.min((s.endedAt ?? now).getTime(), period.to.getTime());
+    return { ...s, minutes: Math.max(0, Math.round((end - start) / 60_000)) };
+  });
+
+  const trips = earnings.map((e) => ({
+    id: e.id,
+    tripId: e.tripId,
+    store: e.store,
+    startedAt: e.trip.startedAt,
+    completedAt: e.trip.completedAt,
+    distanceKm: e.distanceKm,
+    drops: e.drops,
+    baseAmount: Number(e.baseAmount),
+    distanceAmount: Number(e.distanceAmount),
+    dropAmount: Number(e.dropAmount),
+    totalAmount: Number(e.totalAmount),
+    paid: e.payoutId != null,
+  }));
+
+  return {
+    shifts: shiftRows,
+    trips,
+    payouts: payouts.map((p) => ({ ...p, amount: Number(p.amount) })),
+    totals: {
+      onlineMinutes: shiftRows.reduce((sum, s) => sum + s.minutes, 0),
+      trips: trips.length,
+      drops: trips.reduce((sum, t) => sum + t.drops, 0),
+      distanceKm: Math.round(trips.reduce((sum, t) => sum + t.distanceKm, 0) * 100) / 100,
+      earned: roundMoney(trips.reduce((sum, t) => sum + t.totalAmount, 0)),
+      paidOut: roundMoney(payouts.reduce((sum, p) => sum + Number(p.amount), 0)),
+      unpaidBalance: Number(unpaid._sum.totalAmount ?? 0),
+    },
+  };
+}
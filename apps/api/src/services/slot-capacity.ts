@@ -0,0 +1,162 @@
+import type { Messaging } from "firebase-admin/messaging";
+import type { Prisma, PrismaClient } from "../../generated/prisma/client.js";
+import { sendNotification } from "./notification.js";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export interface SlotAvailability {
+  capacity: number;
+  booked: number;
+  available: number;
+  /** Capacity comes from a date override rather than the slot's maxOrders */
+  overridden: boolean;
+  note: string | null;
+}
+
+/** Orders for a slot date, bounded the same way checkout parses scheduledDate */
+function scheduledDateRange(date: string) {
+  return { gte: new Date(date + "T00:00:00"), lte: new Date(date + "T23:59:59.999") };
+}
+
+/**
+ * The slot's row for a date, created on first use. Orders booked before holds
+ * existed have no hold, so a new row starts with them already counted.
+ */
+export async function ensureSlotDay(db: Db, slotId: string, date: string) {
+  const existing = await db.deliverySlotDay.findUnique({ where: { slotId_date: { slotId, date } } });
+  if (existing) return existing;
+
+  const legacy = await db.order.count({
+    where: {
+      deliverySlotId: slotId,
+      scheduledDate: scheduledDateRange(date),
+      status: { not: "CANCELLED" },
+      slotHold: { is: null },
+    },
+  });
+  // skipDuplicates: a concurrent checkout may have just created it
+  await db.deliverySlotDay.createMany({ data: [{ slotId, date, booked: legacy }], skipDuplicates: true });
+  return db.deliverySlotDay.findUniqueOrThrow({ where: { slotId_date: { slotId, date } } });
+}
+
+/** Capacity and bookings per slot on a date, without creating rows */
+export async function getSlotAvailability(
+  db: Db,
+  slots: { id: string; maxOrders: number }[],
+  date: string,
+): Promise<Map<string, SlotAvailability>> {
+  const slotIds = slots.map((s) => s.id);
+  const days = await db.deliverySlotDay.findMany({ where: { slotId: { in: slotIds }, date } });
+  const dayBySlot = new Map(days.map((d) => [d.slotId, d]));
+
+  // Slots nobody has booked through a hold yet — count orders the old way
+  const untracked = slotIds.filter((id) => !dayBySlot.has(id));
+  const legacyCounts = untracked.length > 0
+    ? await db.order.groupBy({
+        by: ["deliverySlotId"],
+        where: { deliverySlotId: { in: untracked }, scheduledDate: scheduledDateRange(date), status: { not: "CANCELLED" } },
+        _count: true,
+      })
+    : [];
+  const legacyBySlot = new Map(legacyCounts.map((c) => [c.deliverySlotId, c._count]));
+
+  return new Map(
+    slots.map((slot) => {
+      const day = dayBySlot.get(slot.id);
+      const capacity = day?.capacity ?? slot.maxOrders;
+      const booked = day?.booked ?? legacyBySlot.get(slot.id) ?? 0;
+      return [slot.id, {
+        capacity,
+        booked,
+        available: Math.max(capacity - booked, 0),
+        overridden: day?.capacity != null,
+        note: day?.note ?? null,
+      }];
+    }),
+  );
+}
+
+/**
+ * Take one place in the slot for the order. The conditional increment is the
+ * capacity check, so two checkouts racing for the last place can't both win.
+ * Throws 400 when the slot is full.
+ */
+export async function holdSlotCapacity(
+  tx: Prisma.TransactionClient,
+  slot: { id: string; maxOrders: number },
+  date: string,
+  orderId: string,
+) {
+  const day = await ensureSlotDay(tx, slot.id, date);
+  const capacity = day.capacity ?? slot.maxOrders;
+
+  const claimed = await tx.deliverySlotDay.updateMany({
+    where: { id: day.id, booked: { lt: capacity } },
+    data: { booked: { increment: 1 } },
+  });
+  if (claimed.count === 0) {
+    throw Object.assign(new Error("This delivery slot is full"), { statusCode: 400 });
+  }
+
+  await tx.deliverySlotHold.create({ data: { slotDayId: day.id, orderId } });
+}
+
+/**
+ * Give back the order's place in its slot. Safe to call on every cancellation
+ * path — only the first call releases. Returns the slot date that gained room.
+ */
+export async function releaseSlotHold(db: Db, orderId: string) {
+  const released = await db.deliverySlotHold.updateMany({
+    where: { orderId, releasedAt: null },
+    data: { releasedAt: new Date() },
+  });
+  if (released.count === 0) return null;
+
+  const hold = await db.deliverySlotHold.findUniqueOrThrow({
+    where: { orderId },
+    select: { slotDay: { select: { id: true, slotId: true, date: true } } },
+  });
+  await db.deliverySlotDay.update({
+    where: { id: hold.slotDay.id },
+    data: { booked: { decrement: 1 } },
+  });
+  return { slotId: hold.slotDay.slotId, date: hold.slotDay.date };
+}
+
+/**
+ * Tell everyone waiting on a slot date that it has room again. Each customer is
+ * notified once; whoever books first gets the place.
+ */
+export async function notifySlotWaitlist(fcm: Messaging | null, prisma: PrismaClient, slotId: string, date: string) {
+  const slot = await prisma.deliverySlot.findUnique({
+    where: { id: slotId },
+    select: { id: true, maxOrders: true, startTime: true, endTime: true, storeId: true, store: { select: { name: true } } },
+  });
+  if (!slot) return 0;
+
+  const availability = (await getSlotAvailability(prisma, [slot], date)).get(slot.id);
+  if (!availability || availability.available <= 0) return 0;
+
+  const waiting = await prisma.deliverySlotWaitlist.findMany({
+    where: { slotId, date, notifiedAt: null },
+    orderBy: { createdAt: "asc" },
+  });
+  if (waiting.length === 0) return 0;
+
+  await prisma.deliverySlotWaitlist.updateMany({
+    where: { id: { in: waiting.map((w) => w.id) } },
+    data: { notifiedAt: new Date() },
+  });
+
+  const day = new Date(date + "T00:00:00").toLocaleDateString("en-IN", { weekday: "short", day: "numeric", month: "short" });
+  for (const entry of waiting) {
+    sendNotification(fcm, prisma, {
+      userId: entry.userId,
+      type: "SLOT_AVAILABLE",
+      title: "A delivery slot opened up",
+      body: `${slot.startTime}–${slot.endTime} on ${day} at ${slot.store.name} has room again. Book before it fills up.`,
+      data: { slotId, date, storeId: slot.storeId },
+    });
+  }
+  return waiting.length;
+}
@@ -1,37 +1,144 @@
-import type { PrismaClient } from "../../generated/prisma/client.js";
+import { Prisma, type PrismaClient, type StockMovementType } from "../../generated/prisma/client.js";
+import { consumeBatches, type BatchAllocation } from "./batches.js";
+
+type Db = PrismaClient | Prisma.TransactionClient;
 
 interface StockItem {
   storeProductId: string;
   quantity: number;
 }
 
+/** Who and what caused a stock change — stored on every StockMovement */
+export interface StockMovementContext {
+  orderId?: string;
+  returnRequestId?: string;
+  goodsReceiptId?: string;
+  stockTransferId?: string;
+  actorId?: string;
+  note?: string;
+}
+
+interface StockChange {
+  storeProductId: string;
+  type: StockMovementType;
+  /** Change to on-hand stock. Ignored when setStock is given. */
+  stockDelta?: number;
+  /** Overwrite on-hand stock with this value (manual adjustments) */
+  setStock?: number;
+  reservedDelta?: number;
+  /** Only apply if at least this many units are available (stock - reserved) */
+  requireAvailable?: number;
+  /** Take a decrease from this batch before falling back to FEFO order */
+  batchId?: string;
+}
+
+interface StockRow {
+  storeId: string;
+  stockBefore: number;
+  stockAfter: number;
+  reservedBefore: number;
+  reservedAfter: number;
+}
+
+/** Run fn in a transaction, reusing the caller's if it already has one. */
+async function inTransaction<T>(db: Db, fn: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+  return "$transaction" in db ? db.$transaction(fn) : fn(db);
+}
+
+/**
+ * Apply a single stock change under a row lock and append it to the ledger.
+ * The ledger tracks on-hand stock: a change that leaves it as it was (reserving or
+ * releasing stock for an order) only updates the row and records no movement.
+ * Decreases to on-hand stock consume inventory batches first-expiry-first-out.
+ * Returns null when the requireAvailable guard fails.
+ */
+async function applyStockChange(
+  tx: Prisma.TransactionClient,
+  change: StockChange,
+  context: StockMovementContext,
+) {
+  const stockExpr = change.setStock !== undefined
+    ? Prisma.sql`${change.setStock}`
+    : Prisma.sql`GREATEST(old.stock + ${change.stockDelta ?? 0}, 0)`;
+  const guard = change.requireAvailable !== undefined
+    ? Prisma.sql`AND old.stock - old.reserved_stock >= ${change.requireAvailable}`
+    : Prisma.empty;
+
+  const rows = await tx.$queryRaw<StockRow[]>`
+    UPDATE store_products sp
+    SET stock = ${stockExpr},
+        reserved_stock = GREATEST(old.reserved_stock + ${change.reservedDelta ?? 0}, 0)
+    FROM (
+      SELECT id, stock, reserved_stock FROM store_products WHERE id = ${change.storeProductId} FOR UPDATE
+    ) old
+    WHERE sp.id = old.id ${guard}
+    RETURNING sp.store_id AS "storeId",
+              old.stock AS "stockBefore", sp.stock AS "stockAfter",
+              old.reserved_stock AS "reservedBefore", sp.reserved_stock AS "reservedAfter"
+  `;
+  const row = rows[0];
+  if (!row) return null;
+
+  if (row.stockAfter === row.stockBefore) return { movement: null, batches: [] };
+
+  const batches = row.stockAfter < row.stockBefore
+    ? await consumeBatches(tx, change.storeProductId, row.stockBefore - row.stockAfter, change.batchId)
+    : [];
+
+  const movement = await tx.stockMovement.create({
+    data: {
+      storeProductId: change.storeProductId,
+      storeId: row.storeId,
+      type: change.type,
+      quantity: row.stockAfter - row.stockBefore,
+      stockBefore: row.stockBefore,
+      stockAfter: row.stockAfter,
+      reservedBefore: row.reservedBefore,
+      reservedAfter: row.reservedAfter,
+      orderId: context.orderId,
+      returnRequestId: context.returnRequestId,
+      goodsReceiptId: context.goodsReceiptId,
+      stockTransferId: context.stockTransferId,
+      actorId: context.actorId,
+      note: context.note,
+    },
+  });
+  return { movement, batches };
+}
+
+/** 409 with the product name and what is actually available */
+async function insufficientStockError(tx: Prisma.TransactionClient, item: StockItem) {
+  const sp = await tx.storeProduct.findUnique({
+    where: { id: item.storeProductId },
+    include: { product: true },
+  });
+  const name = sp?.product?.name ?? item.storeProductId;
+  const available = sp ? sp.stock - sp.reservedStock : 0;
+  return Object.assign(
+    new Error(`Insufficient stock for "${name}" (available: ${available}, requested: ${item.quantity})`),
+    { statusCode: 409 },
+  );
+}
+
 /**
  * Atomically reserve stock for order items.
- * Uses raw SQL with a WHERE guard to prevent overselling.
+ * Locks each row and guards on available stock to prevent overselling.
  * Throws if any item has insufficient available stock.
  */
-export async function reserveStock(prisma: PrismaClient, items: StockItem[]) {
-  await prisma.$transaction(async (tx) => {
+export async function reserveStock(db: Db, items: StockItem[], context: StockMovementContext = {}) {
+  await inTransaction(db, async (tx) => {
     for (const item of items) {
-      const result = await tx.$executeRaw`
-        UPDATE store_products
-        SET reserved_stock = reserved_stock + ${item.quantity}
-        WHERE id = ${item.storeProductId}
-          AND stock - reserved_stock >= ${item.quantity}
-      `;
-      if (result === 0) {
-        // Fetch product name for a helpful error message
-        const sp = await tx.storeProduct.findUnique({
-          where: { id: item.storeProductId },
-          include: { product: true },
-        });
-        const name = sp?.product?.name ?? item.storeProductId;
-        const available = sp ? sp.stock - sp.reservedStock : 0;
-        throw Object.assign(
-          new Error(`Insufficient stock for "${name}" (available: ${available}, requested: ${item.quantity})`),
-          { statusCode: 409 },
-        );
-      }
+      const result = await applyStockChange(
+        tx,
+        {
+          storeProductId: item.storeProductId,
+          type: "RESERVATION",
+          reservedDelta: item.quantity,
+          requireAvailable: item.quantity,
+        },
+        context,
+      );
+      if (!result) throw await insufficientStockError(tx, item);
     }
   });
 }
@@ -39,30 +146,141 @@ export async function reserveStock(prisma: PrismaClient, items: StockItem[]) {
 /**
  * Release reserved stock (e.g. on order cancellation).
  */
-export async function releaseStock(prisma: PrismaClient, items: StockItem[]) {
-  await prisma.$transaction(async (tx) => {
+export async function releaseStock(db: Db, items: StockItem[], context: StockMovementContext = {}) {
+  await inTransaction(db, async (tx) => {
+    for (const item of items) {
+      await applyStockChange(
+        tx,
+        { storeProductId: item.storeProductId, type: "RELEASE", reservedDelta: -item.quantity },
+        context,
+      );
+    }
+  });
+}
+
+/**
+ * Deduct stock on order delivery — decrements both stock and reservedStock,
+ * consuming the earliest-expiring batches first.
+ */
+export async function deductStock(db: Db, items: StockItem[], context: StockMovementContext = {}) {
+  await inTransaction(db, async (tx) => {
+    for (const item of items) {
+      await applyStockChange(
+        tx,
+        {
+          storeProductId: item.storeProductId,
+          type: "SALE",
+          stockDelta: -item.quantity,
+          reservedDelta: -item.quantity,
+        },
+        context,
+      );
+    }
+  });
+}
+
+/**
+ * Put returned items back on the shelf (approved return requests the store restocks).
+ */
+export async function returnStock(db: Db, items: StockItem[], context: StockMovementContext = {}) {
+  await inTransaction(db, async (tx) => {
+    for (const item of items) {
+      await applyStockChange(
+        tx,
+        { storeProductId: item.storeProductId, type: "RETURN", stockDelta: item.quantity },
+        context,
+      );
+    }
+  });
+}
+
+/**
+ * Take stock out of the source store when a transfer is dispatched.
+ * Guards on available stock like reserveStock — units already reserved by orders can't leave.
+ * Returns the batches each item was taken from, in item order.
+ */
+export async function transferOutStock(db: Db, items: StockItem[], context: StockMovementContext = {}) {
+  return inTransaction(db, async (tx) => {
+    const allocations: BatchAllocation[][] = [];
     for (const item of items) {
-      await tx.$executeRaw`
-        UPDATE store_products
-        SET reserved_stock = GREATEST(reserved_stock - ${item.quantity}, 0)
-        WHERE id = ${item.storeProductId}
-      `;
+      const result = await applyStockChange(
+        tx,
+        {
+          storeProductId: item.storeProductId,
+          type: "TRANSFER",
+          stockDelta: -item.quantity,
+          requireAvailable: item.quantity,
+        },
+        context,
+      );
+      if (!result) throw await insufficientStockError(tx, item);
+      allocations.push(result.batches);
     }
+    return allocations;
   });
 }
 
 /**
- * Deduct stock on order delivery — decrements both stock and reservedStock.
+ * Add transferred stock at the destination store on receipt.
  */
-export async function deductStock(prisma: PrismaClient, items: StockItem[]) {
-  await prisma.$transaction(async (tx) => {
+export async function transferInStock(db: Db, items: StockItem[], context: StockMovementContext = {}) {
+  await inTransaction(db, async (tx) => {
     for (const item of items) {
-      await tx.$executeRaw`
-        UPDATE store_products
-        SET stock = GREATEST(stock - ${item.quantity}, 0),
-            reserved_stock = GREATEST(reserved_stock - ${item.quantity}, 0)
-        WHERE id = ${item.storeProductId}
-      `;
+      await applyStockChange(
+        tx,
+        { storeProductId: item.storeProductId, type: "TRANSFER", stockDelta: item.quantity },
+        context,
+      );
     }
   });
 }
+
+/**
+ * Manual stock change from the admin (receiving goods, write-offs, corrections).
+ * Pass either a delta or the new absolute stock level, and optionally the batch a write-off comes from.
+ */
+export async function adjustStock(
+  db: Db,
+  change: { storeProductId: string; type: StockMovementType; delta?: number; setStock?: number; batchId?: string },
+  context: StockMovementContext = {},
+) {
+  return inTransaction(db, async (tx) => {
+    const result = await applyStockChange(
+      tx,
+      {
+        storeProductId: change.storeProductId,
+        type: change.type,
+        stockDelta: change.delta,
+        setStock: change.setStock,
+        batchId: change.batchId,
+      },
+      context,
+    );
+    return result?.movement ?? null;
+  });
+}
+
+/**
+ * Ledger entries for store-products created with an opening stock level.
+ */
+export async function recordOpeningStock(
+  db: Db,
+  storeProducts: { id: string; storeId: string; stock: number }[],
+  context: StockMovementContext = {},
+) {
+  const data = storeProducts
+    .filter((sp) => sp.stock > 0)
+    .map((sp) => ({
+      storeProductId: sp.id,
+      storeId: sp.storeId,
+      type: "RECEIPT" as const,
+      quantity: sp.stock,
+      stockBefore: 0,
+      stockAfter: sp.stock,
+      reservedBefore: 0,
+      reservedAfter: 0,
+      actorId: context.actorId,
+      note: context.note ?? "Opening stock",
+    }));
+  if (data.length > 0) await db.stockMovement.createMany({ data });
+}
@@ -0,0 +1,134 @@
+import type { Prisma, PrismaClient } from "../../generated/prisma/client.js";
+import { currentISTTime, formatDate, todayIST } from "../utils/timezone.js";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+/** How far ahead to look for the next opening — covers a long festival closure */
+const LOOKAHEAD_DAYS = 14;
+
+export interface DayHours {
+  open: boolean;
+  /** null with open = true: no weekly hours set, open around the clock */
+  openTime: string | null;
+  closeTime: string | null;
+  /** Holiday name or reason from a date override */
+  note: string | null;
+}
+
+export interface StoreCalendar {
+  weekly: Map<number, { openTime: string; closeTime: string }>;
+  overrides: Map<string, { isClosed: boolean; openTime: string | null; closeTime: string | null; note: string | null }>;
+}
+
+export interface StoreOpenStatus {
+  isOpen: boolean;
+  /** Today's closing time ("HH:MM") while open */
+  closesAt: string | null;
+  /** Next opening while closed, null when nothing is open within two weeks */
+  nextOpen: { date: string; time: string } | null;
+  note: string | null;
+  /** Customer-facing, e.g. "Store closed, opens at 7 AM" */
+  message: string | null;
+}
+
+/** Weekly hours plus date overrides from `from` (UTC midnight) for `days` days */
+export async function loadStoreCalendar(db: Db, storeId: string, from: Date, days = 1): Promise<StoreCalendar> {
+  const to = new Date(from);
+  to.setUTCDate(to.getUTCDate() + days);
+
+  const [weekly, overrides] = await Promise.all([
+    db.storeHours.findMany({ where: { storeId } }),
+    db.storeHoursOverride.findMany({ where: { storeId, date: { gte: from, lt: to } } }),
+  ]);
+
+  return {
+    weekly: new Map(weekly.map((h) => [h.dayOfWeek, { openTime: h.openTime, closeTime: h.closeTime }])),
+    overrides: new Map(overrides.map((o) => [formatDate(o.date), o])),
+  };
+}
+
+/** Hours on a date (UTC midnight). A date override replaces the weekly hours. */
+export function hoursOn(calendar: StoreCalendar, date: Date): DayHours {
+  const override = calendar.overrides.get(formatDate(date));
+  if (override) {
+    return override.isClosed
+      ? { open: false, openTime: null, closeTime: null, note: override.note }
+      : { open: true, openTime: override.openTime, closeTime: override.closeTime, note: override.note };
+  }
+
+  if (calendar.weekly.size === 0) return { open: true, openTime: null, closeTime: null, note: null };
+
+  const day = calendar.weekly.get(date.getUTCDay());
+  return day
+    ? { open: true, openTime: day.openTime, closeTime: day.closeTime, note: null }
+    : { open: false, openTime: null, closeTime: null, note: null };
+}
+
+/** A store's hours on one date (UTC midnight) */
+export async function getStoreHoursOn(db: Db, storeId: string, date: Date): Promise<DayHours> {
+  return hoursOn(await loadStoreCalendar(db, storeId, date), date);
+}
+
+/** "HH:MM" within [start, end) — zero-padded times compare as strings */
+export function isWithinHours(time: string, start: string, end: string): boolean {
+  return time >= start && time < end;
+}
+
+/** A delivery slot can be booked when it starts while the store is open that day */
+export function slotWithinHours(hours: DayHours, slotStartTime: string): boolean {
+  if (!hours.open) return false;
+  if (hours.openTime == null || hours.closeTime == null) return true;
+  return isWithinHours(slotStartTime, hours.openTime, hours.closeTime);
+}
+
+/** "07:00" → "7 AM", "18:30" → "6:30 PM" */
+export function formatClockTime(time: string): string {
+  const [h, m] = time.split(":").map(Number);
+  const ampm = h >= 12 ? "PM" : "AM";
+  const h12 = h % 12 || 12;
+  return m === 0 ? `${h12} ${ampm}` : `${h12}:${String(m).padStart(2, "0")} ${ampm}`;
+}
+
+/** Whether the store is open right now (IST), and if not, when it opens next */
+export async function getStoreOpenStatus(db: Db, storeId: string): Promise<StoreOpenStatus> {
+  const today = todayIST();
+  const now = currentISTTime();
+  const calendar = await loadStoreCalendar(db, storeId, today, LOOKAHEAD_DAYS);
+  const todayHours = hoursOn(calendar, today);
+
+  if (todayHours.open && (todayHours.openTime == null || isWithinHours(now, todayHours.openTime, todayHours.closeTime!))) {
+    return { isOpen: true, closesAt: todayHours.closeTime, nextOpen: null, note: todayHours.note, message: null };
+  }
+
+  let nextOpen: { date: Date; time: string } | null = null;
+  if (todayHours.open && now < todayHours.openTime!) {
+    nextOpen = { date: today, time: todayHours.openTime! };
+  } else {
+    for (let i = 1; i < LOOKAHEAD_DAYS && !nextOpen; i++) {
+      const date = new Date(today);
+      date.setUTCDate(date.getUTCDate() + i);
+      const hours = hoursOn(calendar, date);
+      if (hours.open) nextOpen = { date, time: hours.openTime ?? "00:00" };
+    }
+  }
+
+  // Only a closure override explains itself; past closing time on a normal day needs no reason
+  const note = todayHours.open ? null : todayHours.note;
+  const closed = note ? `Store closed for ${note}` : "Store closed";
+  let message = closed;
+  if (nextOpen) {
+    const daysAway = Math.round((nextOpen.date.getTime() - today.getTime()) / 86_400_000);
+    const day = daysAway === 0 ? ""
+      : daysAway === 1 ? "tomorrow "
+      : `${nextOpen.date.toLocaleDateString("en-IN", { weekday: "short", timeZone: "UTC" })} `;
+    message = `${closed}, opens ${day}at ${formatClockTime(nextOpen.time)}`;
+  }
+
+  return {
+    isOpen: false,
+    closesAt: null,
+    nextOpen: nextOpen ? { date: formatDate(nextOpen.date), time: nextOpen.time } : null,
+    note,
+    message,
+  };
+}
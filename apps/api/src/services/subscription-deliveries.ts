@@ -0,0 +1,328 @@
+import type { Prisma, PrismaClient, Subscription, SubscriptionDeliveryOutcome } from "../../generated/prisma/index.js";
+import { renderPdf, textWidth, PAGE_WIDTH, type PdfOp } from "../lib/pdf.js";
+import { advanceNextDeliveryDate } from "../utils/subscription-dates.js";
+import { formatDate, parseDate, todayIST } from "../utils/timezone.js";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+const MARGIN = 40;
+const ROWS_BOTTOM = 760;
+
+export interface DroppedItem {
+  storeProductId: string;
+  name: string;
+  quantity: number;
+  reason: "LOW_BALANCE" | "OUT_OF_STOCK";
+}
+
+export interface RecordDeliveryInput {
+  subscriptionId: string;
+  deliveryDate: Date;
+  outcome: SubscriptionDeliveryOutcome;
+  orderId?: string;
+  amount?: number;
+  autoPay?: boolean;
+  droppedItems?: DroppedItem[];
+  note?: string;
+}
+
+export interface DeliveryCalendarDay {
+  date: string;
+  /** The scheduler's outcome, or for a day it hasn't reached yet: SCHEDULED, PAUSED or a planned skip */
+  status: SubscriptionDeliveryOutcome | "SCHEDULED" | "PAUSED";
+  upcoming: boolean;
+  orderId: string | null;
+  orderStatus: string | null;
+  amount: number | null;
+  autoPay: boolean;
+  droppedItems: DroppedItem[];
+  note: string | null;
+}
+
+export interface DeliveryCalendar {
+  month: string;
+  /** Scheduled days only */
+  days: DeliveryCalendarDay[];
+  summary: {
+    delivered: number;
+    partial: number;
+    skipped: number;
+    lowBalance: number;
+    outOfStock: number;
+    /** Charged for orders that weren't cancelled */
+    totalCharged: number;
+  };
+}
+
+/**
+ * Record what happened to a subscription's delivery. One row per delivery
+ * date — a later run for the same date (a retry, or an order placed after a
+ * skip was recorded) replaces it.
+ */
+export async function recordDelivery(db: Db, input: RecordDeliveryInput) {
+  const data = {
+    outcome: input.outcome,
+    orderId: input.orderId ?? null,
+    amount: input.amount ?? null,
+    autoPay: input.autoPay ?? false,
+    droppedItems: (input.droppedItems ?? []) as unknown as Prisma.InputJsonValue,
+    note: input.note ?? null,
+  };
+  return db.subscriptionDelivery.upsert({
+    where: { subscriptionId_deliveryDate: { subscriptionId: input.subscriptionId, deliveryDate: input.deliveryDate } },
+    create: { subscriptionId: input.subscriptionId, deliveryDate: input.deliveryDate, ...data },
+    update: data,
+  });
+}
+
+/** Deliveries that passed without a scheduler run. Dates already recorded are kept. */
+export async function recordMissedDeliveries(db: Db, subscriptionId: string, dates: Date[]) {
+  if (dates.length === 0) return 0;
+  const created = await db.subscriptionDelivery.createMany({
+    data: dates.map((deliveryDate) => ({
+      subscriptionId,
+      deliveryDate,
+      outcome: "MISSED" as const,
+      note: "No scheduler run for this date",
+    })),
+    skipDuplicates: true,
+  });
+  return created.count;
+}
+
+/** First day of a "YYYY-MM" month and the first day of the next, or null if malformed */
+export function parseMonth(month: string): { from: Date; to: Date } | null {
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) return null;
+  const from = parseDate(`${month}-01`);
+  const to = new Date(from);
+  to.setUTCMonth(to.getUTCMonth() + 1);
+  return { from, to };
+}
+
+/**
+ * A subscription's deliveries in one month: what the scheduler recorded for
+ * the days it has run, and the delivery days still to come, with planned skips
+ * and pauses, walked the same way the scheduler walks them.
+ */
+export async function getDeliveryCalendar(db: Db, subscription: Subscription, month: string): Promise<DeliveryCalendar> {
+  const range = parseMonth(month);
+  if (!range) throw new Error(`Invalid month: ${month}`);
+  const { from, to } = range;
+
+  const [deliveries, skips] = await Promise.all([
+    db.subscriptionDelivery.findMany({
+      where: { subscriptionId: subscription.id, deliveryDate: { gte: from, lt: to } },
+      include: { order: { select: { status: true } } },
+      orderBy: { deliveryDate: "asc" },
+    }),
+    db.subscriptionSkip.findMany({
+      where: { subscriptionId: subscription.id, date: { gte: from, lt: to } },
+      select: { date: true, reason: true, vacationId: true },
+    }),
+  ]);
+
+  const byDate = new Map<string, DeliveryCalendarDay>();
+  for (const d of deliveries) {
+    byDate.set(formatDate(d.deliveryDate), {
+      date: formatDate(d.deliveryDate),
+      status: d.outcome,
+      upcoming: false,
+      orderId: d.orderId,
+      orderStatus: d.order?.status ?? null,
+      amount: d.amount != null ? Number(d.amount) : null,
+      autoPay: d.autoPay,
+      droppedItems: d.droppedItems as unknown as DroppedItem[],
+      note: d.note,
+    });
+  }
+
+  if (subscription.status === "ACTIVE") {
+    const today = todayIST();
+    const now = new Date();
+    const skipMap = new Map(skips.map((s) => [formatDate(s.date), s]));
+    let date = subscription.nextDeliveryDate;
+    while (date < today || date < from) {
+      date = advanceNextDeliveryDate(date, subscription.frequency, subscription.selectedDays);
+    }
+    for (; date < to; date = advanceNextDeliveryDate(date, subscription.frequency, subscription.selectedDays)) {
+      const dateStr = formatDate(date);
+      if (byDate.has(dateStr)) continue;
+      const skip = skipMap.get(dateStr);
+      const paused = subscription.pausedUntil && subscription.pausedUntil > now && date < subscription.pausedUntil;
+      byDate.set(dateStr, {
+        date: dateStr,
+        status: skip ? (skip.vacationId ? "VACATION" : "SKIPPED") : paused ? "PAUSED" : "SCHEDULED",
+        upcoming: true,
+        orderId: null,
+        orderStatus: null,
+        amount: null,
+        autoPay: false,
+        droppedItems: [],
+        note: skip?.reason ?? null,
+      });
+    }
+  }
+
+  const days = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+  const recorded = days.filter((d) => !d.upcoming);
+  const count = (...statuses: DeliveryCalendarDay["status"][]) =>
+    recorded.filter((d) => statuses.includes(d.status)).length;
+  const totalCharged = recorded
+    .filter((d) => d.amount != null && d.orderStatus !== "CANCELLED")
+    .reduce((sum, d) => sum + d.amount!, 0);
+
+  return {
+    month,
+    days,
+    summary: {
+      delivered: count("PLACED"),
+      partial: count("PARTIAL"),
+      skipped: count("SKIPPED", "VACATION", "STORE_CLOSED", "NOTHING_TO_ORDER", "MISSED"),
+      lowBalance: count("LOW_BALANCE"),
+      outOfStock: count("OUT_OF_STOCK"),
+      totalCharged: Math.round(totalCharged * 100) / 100,
+    },
+  };
+}
+
+const OUTCOME_LABELS: Record<DeliveryCalendarDay["status"], string> = {
+  PLACED: "Delivered",
+  PARTIAL: "Partial order",
+  SKIPPED: "Skipped",
+  VACATION: "Vacation",
+  STORE_CLOSED: "Store closed",
+  LOW_BALANCE: "Low balance",
+  OUT_OF_STOCK: "Out of stock",
+  NOTHING_TO_ORDER: "Nothing to order",
+  MISSED: "Missed",
+  SCHEDULED: "Scheduled",
+  PAUSED: "Paused",
+};
+
+function money(n: number): string {
+  return n.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function truncate(text: string, width: number, size: number, bold = false): string {
+  if (textWidth(text, size, bold) <= width) return text;
+  let out = text;
+  while (out.length > 1 && textWidth(`${out}...`, size, bold) > width) out = out.slice(0, -1);
+  return `${out}...`;
+}
+
+/**
+ * Render a subscription's monthly statement as a PDF: every delivery day the
+ * scheduler has handled that month, what was charged and which items were
+ * dropped.
+ */
+export async function renderDeliveryStatementPdf(db: PrismaClient, subscriptionId: string, month: string): Promise<Buffer> {
+  const subscription = await db.subscription.findUniqueOrThrow({
+    where: { id: subscriptionId },
+    include: {
+      store: { include: { organization: { select: { name: true } } } },
+      user: { select: { name: true, phone: true } },
+    },
+  });
+  const calendar = await getDeliveryCalendar(db, subscription, month);
+  const recorded = calendar.days.filter((d) => !d.upcoming);
+  const monthLabel = parseDate(`${month}-01`).toLocaleDateString("en-IN", { month: "long", year: "numeric", timeZone: "UTC" });
+
+  const pages: PdfOp[][] = [];
+  let ops: PdfOp[] = [];
+  let y = 0;
+
+  const text = (x: number, value: string, opts: { size?: number; bold?: boolean; align?: "left" | "right" } = {}) =>
+    ops.push({ type: "text", x, y, text: value, ...opts });
+  const rule = (width = 0.5) => ops.push({ type: "line", x1: MARGIN, y1: y, x2: PAGE_WIDTH - MARGIN, y2: y, width });
+
+  const right = PAGE_WIDTH - MARGIN;
+  const columns = { outcome: 120, order: 215, amount: 330, notes: 345 };
+
+  const tableHeader = () => {
+    rule(1);
+    y += 12;
+    text(MARGIN, "Date", { size: 8, bold: true });
+    text(columns.outcome, "Outcome", { size: 8, bold: true });
+    text(columns.order, "Order", { size: 8, bold: true });
+    text(columns.amount, "Amount", { size: 8, bold: true, align: "right" });
+    text(columns.notes, "Notes", { size: 8, bold: true });
+    y += 6;
+    rule();
+    y += 12;
+  };
+
+  const newPage = () => {
+    ops = [];
+    pages.push(ops);
+    y = MARGIN + 10;
+  };
+
+  // ── Header ──
+  newPage();
+  text(MARGIN, subscription.store.organization.name, { size: 14, bold: true });
+  text(right, "SUBSCRIPTION STATEMENT", { size: 14, bold: true, align: "right" });
+  y += 16;
+  text(MARGIN, subscription.store.name, { size: 9 });
+  text(right, monthLabel, { size: 9, align: "right" });
+  y += 12;
+  text(MARGIN, truncate(subscription.store.address, 280, 9), { size: 9 });
+  text(right, `Subscription: #${subscription.id.slice(0, 8)}`, { size: 9, align: "right" });
+  y += 20;
+
+  text(MARGIN, "Customer", { size: 9, bold: true });
+  y += 12;
+  text(MARGIN, subscription.user.phone ? `${subscription.user.name} (${subscription.user.phone})` : subscription.user.name, { size: 9 });
+  y += 12;
+  text(MARGIN, truncate(subscription.deliveryAddress, PAGE_WIDTH - 2 * MARGIN, 9), { size: 9 });
+  y += 20;
+
+  // ── Deliveries ──
+  tableHeader();
+  if (recorded.length === 0) {
+    text(MARGIN, "No deliveries recorded this month.", { size: 8 });
+    y += 14;
+  }
+  for (const day of recorded) {
+    const notes = day.droppedItems.length > 0
+      ? `Dropped: ${day.droppedItems.map((i) => `${i.name} x${i.quantity} (${i.reason === "OUT_OF_STOCK" ? "out of stock" : "low balance"})`).join(", ")}`
+      : day.note ?? "";
+    const cancelled = day.orderStatus === "CANCELLED";
+    if (y > ROWS_BOTTOM) {
+      newPage();
+      tableHeader();
+    }
+    text(MARGIN, parseDate(day.date).toLocaleDateString("en-IN", { weekday: "short", day: "numeric", month: "short", timeZone: "UTC" }), { size: 8 });
+    text(columns.outcome, OUTCOME_LABELS[day.status] + (day.autoPay ? " (auto-pay)" : ""), { size: 8 });
+    text(columns.order, day.orderId ? `#${day.orderId.slice(0, 8)}${cancelled ? " cancelled" : ""}` : "-", { size: 8 });
+    text(columns.amount, day.amount != null ? money(day.amount) : "-", { size: 8, align: "right" });
+    text(columns.notes, truncate(notes, right - columns.notes, 8), { size: 8 });
+    y += 14;
+  }
+
+  // ── Summary ──
+  if (y > ROWS_BOTTOM - 100) newPage();
+  rule();
+  y += 14;
+  const summary: [string, number][] = [
+    ["Delivered", calendar.summary.delivered],
+    ["Partial orders", calendar.summary.partial],
+    ["Skipped for low balance", calendar.summary.lowBalance],
+    ["Skipped for out of stock", calendar.summary.outOfStock],
+    ["Other skips", calendar.summary.skipped],
+  ];
+  for (const [label, value] of summary) {
+    text(380, label, { size: 9 });
+    text(right, String(value), { size: 9, align: "right" });
+    y += 13;
+  }
+  y += 2;
+  text(380, "Total Charged (Rs.)", { size: 10, bold: true });
+  text(right, money(calendar.summary.totalCharged), { size: 10, bold: true, align: "right" });
+  y += 20;
+
+  text(MARGIN, "Cancelled orders are refunded and left out of the total. Tax invoices are issued per order on delivery.", { size: 8 });
+  y += 12;
+  text(MARGIN, "This is a computer-generated statement and does not require a signature.", { size: 8 });
+
+  return renderPdf(pages);
+}
@@ -0,0 +1,56 @@
+import type { CustomerVacation, Prisma, PrismaClient } from "../../generated/prisma/index.js";
+import { isDeliveryDay } from "../utils/subscription-dates.js";
+import { tomorrowIST } from "../utils/timezone.js";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export const MAX_VACATION_DAYS = 60;
+export const VACATION_SKIP_REASON = "Vacation";
+
+/** The customer's vacation covering `date`, if any */
+export async function findVacationOn(db: Db, userId: string, date: Date) {
+  return db.customerVacation.findFirst({
+    where: { userId, cancelledAt: null, startDate: { lte: date }, endDate: { gte: date } },
+  });
+}
+
+/**
+ * Skip every delivery of the customer's active subscriptions inside the
+ * vacation and clear their add-ons for those days. Dates the customer had
+ * already skipped are left alone. Only days from tomorrow on are touched —
+ * today's orders are already out. The subscription scheduler applies the same
+ * rule to subscriptions started or resumed mid-vacation.
+ */
+export async function applyVacation(db: Db, vacation: CustomerVacation) {
+  const from = new Date(Math.max(vacation.startDate.getTime(), tomorrowIST().getTime()));
+
+  const subscriptions = await db.subscription.findMany({
+    where: { userId: vacation.userId, status: "ACTIVE" },
+    select: { id: true, frequency: true, selectedDays: true, createdAt: true },
+  });
+
+  const skips: Prisma.SubscriptionSkipCreateManyInput[] = [];
+  for (const sub of subscriptions) {
+    for (const day = new Date(from); day <= vacation.endDate; day.setUTCDate(day.getUTCDate() + 1)) {
+      if (!isDeliveryDay(day, sub.frequency, sub.selectedDays, sub.createdAt)) continue;
+      skips.push({ subscriptionId: sub.id, date: new Date(day), reason: VACATION_SKIP_REASON, vacationId: vacation.id });
+    }
+  }
+
+  const [created, addOns] = await Promise.all([
+    db.subscriptionSkip.createMany({ data: skips, skipDuplicates: true }),
+    db.basketAddOn.deleteMany({
+      where: { userId: vacation.userId, deliveryDate: { gte: from, lte: vacation.endDate } },
+    }),
+  ]);
+
+  return { skippedDeliveries: created.count, addOnsCleared: addOns.count };
+}
+
+/** Give back the vacation's deliveries from `from` on */
+export async function releaseVacation(db: Db, vacationId: string, from: Date) {
+  const released = await db.subscriptionSkip.deleteMany({
+    where: { vacationId, date: { gte: from } },
+  });
+  return released.count;
+}
@@ -0,0 +1,141 @@
+import { haversine } from "../lib/geo.js";
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface TripPlanOptions {
+  maxStops: number;
+  /** Upper bound on the route from the store through every stop (return leg not counted) */
+  maxDistanceKm: number;
+  /** Number of riders available — at most one trip each */
+  maxTrips: number;
+}
+
+export interface TripPlan<T extends GeoPoint> {
+  trips: { stops: T[]; distanceKm: number }[];
+  /** Stops that are out of range on their own */
+  tooFar: T[];
+  /** Stops left over once every rider has a trip */
+  unplanned: T[];
+}
+
+const MAX_TWO_OPT_PASSES = 50;
+
+/** Length of the route origin → stops[0] → … → stops[n-1] in km */
+export function routeDistance(origin: GeoPoint, stops: GeoPoint[]): number {
+  let total = 0;
+  let prev = origin;
+  for (const stop of stops) {
+    total += haversine(prev.lat, prev.lng, stop.lat, stop.lng);
+    prev = stop;
+  }
+  return Math.round(total * 100) / 100;
+}
+
+/**
+ * Order stops for a rider leaving the store: nearest-neighbour tour, then 2-opt
+ * (reverse any segment that shortens the route) until no reversal helps.
+ */
+export function optimizeStopOrder<T extends GeoPoint>(origin: GeoPoint, stops: T[]): T[] {
+  if (stops.length < 2) return [...stops];
+
+  // Nearest neighbour
+  const remaining = [...stops];
+  const route: T[] = [];
+  let current: GeoPoint = origin;
+  while (remaining.length > 0) {
+    let best = 0;
+    let bestDist = Infinity;
+    for (let i = 0; i < remaining.length; i++) {
+      const d = haversine(current.lat, current.lng, remaining[i].lat, remaining[i].lng);
+      if (d < bestDist) {
+        bestDist = d;
+        best = i;
+      }
+    }
+    current = remaining.splice(best, 1)[0];
+    route.push(current as T);
+  }
+
+  // 2-opt on an open path starting at the store: reversing route[i..k] swaps
+  // edges (prev→route[i], route[k]→next) for (prev→route[k], route[i]→next)
+  const dist = (a: GeoPoint, b: GeoPoint | undefined) => (b ? haversine(a.lat, a.lng, b.lat, b.lng) : 0);
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < route.length - 1; i++) {
+      const prev = i === 0 ? origin : route[i - 1];
+      for (let k = i + 1; k < route.length; k++) {
+        const next = route[k + 1];
+        const delta = dist(prev, route[k]) + dist(route[i], next) - dist(prev, route[i]) - dist(route[k], next);
+        if (delta < -1e-9) {
+          const reversed = route.slice(i, k + 1).reverse();
+          route.splice(i, reversed.length, ...reversed);
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return route;
+}
+
+/**
+ * Group stops into trips and order each one.
+ *
+ * Each trip is seeded with the farthest unplanned stop from the store (so far-out
+ * stops don't end up as stragglers), then grows by the unplanned stop closest to
+ * any stop already in it, for as long as it stays within maxStops and maxDistanceKm.
+ */
+export function planTrips<T extends GeoPoint>(origin: GeoPoint, stops: T[], options: TripPlanOptions): TripPlan<T> {
+  const tooFar: T[] = [];
+  const remaining = stops.filter((s) => {
+    if (haversine(origin.lat, origin.lng, s.lat, s.lng) > options.maxDistanceKm) {
+      tooFar.push(s);
+      return false;
+    }
+    return true;
+  });
+
+  const trips: TripPlan<T>["trips"] = [];
+  while (remaining.length > 0 && trips.length < options.maxTrips) {
+    let seedIndex = 0;
+    let seedDist = -1;
+    for (let i = 0; i < remaining.length; i++) {
+      const d = haversine(origin.lat, origin.lng, remaining[i].lat, remaining[i].lng);
+      if (d > seedDist) {
+        seedDist = d;
+        seedIndex = i;
+      }
+    }
+    let route = [remaining.splice(seedIndex, 1)[0]];
+
+    while (route.length < options.maxStops && remaining.length > 0) {
+      // Candidates by distance to the nearest stop already in the trip
+      const candidates = remaining
+        .map((s, index) => ({
+          index,
+          dist: Math.min(...route.map((r) => haversine(r.lat, r.lng, s.lat, s.lng))),
+        }))
+        .sort((a, b) => a.dist - b.dist);
+
+      let added = false;
+      for (const candidate of candidates) {
+        const tentative = optimizeStopOrder(origin, [...route, remaining[candidate.index]]);
+        if (routeDistance(origin, tentative) <= options.maxDistanceKm) {
+          route = tentative;
+          remaining.splice(candidate.index, 1);
+          added = true;
+          break;
+        }
+      }
+      if (!added) break;
+    }
+
+    trips.push({ stops: route, distanceKm: routeDistance(origin, route) });
+  }
+
+  return { trips, tooFar, unplanned: remaining };
+}
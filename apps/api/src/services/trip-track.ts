@@ -0,0 +1,182 @@
+import type { PrismaClient } from "../../generated/prisma/client.js";
+import { haversine } from "../lib/geo.js";
+
+/** Persist a ping once the rider has moved this far since the last stored one… */
+const PING_MIN_DISTANCE_KM = 0.03;
+/** …but never more often than this */
+const PING_MIN_INTERVAL_MS = 10_000;
+/** Standing still still stores a ping this often, so idle time shows up in replay */
+const PING_HEARTBEAT_MS = 60_000;
+
+/** Staying within this radius for IDLE_MIN_MINUTES counts as idle */
+const IDLE_RADIUS_KM = 0.05;
+const IDLE_MIN_MINUTES = 3;
+/** Within this distance of a drop-off the rider has arrived */
+const ARRIVAL_RADIUS_KM = 0.1;
+/** Jumps implying more than this are GPS glitches and don't count toward distance */
+const MAX_PLAUSIBLE_SPEED_KMH = 150;
+
+interface PingState {
+  riderId: string;
+  lat: number;
+  lng: number;
+  at: number;
+}
+
+// Last persisted ping per trip, for downsampling (keyed by tripId)
+const lastPings = new Map<string, PingState>();
+
+// Forget trips with no pings for 10 minutes
+setInterval(() => {
+  const cutoff = Date.now() - 10 * 60 * 1000;
+  for (const [tripId, state] of lastPings) {
+    if (state.at < cutoff) lastPings.delete(tripId);
+  }
+}, 60_000);
+
+export interface TrackPoint {
+  lat: number;
+  lng: number;
+  at: Date;
+}
+
+export interface TrackStop {
+  orderId: string;
+  lat: number | null;
+  lng: number | null;
+  deliveredAt: Date | null;
+}
+
+export interface IdlePeriod {
+  startedAt: Date;
+  endedAt: Date;
+  minutes: number;
+  lat: number;
+  lng: number;
+  /** Where the rider was waiting — at the store, at a drop-off, or somewhere on the road */
+  location: "STORE" | "STOP" | "EN_ROUTE";
+  orderId: string | null;
+}
+
+/**
+ * Store a rider's GPS update as a breadcrumb, skipping pings that add nothing
+ * (too soon, or barely moved). Pings for trips the rider doesn't own or that
+ * aren't in progress are ignored.
+ */
+export async function recordTripPing(
+  prisma: PrismaClient,
+  tripId: string,
+  riderId: string,
+  point: { lat: number; lng: number; heading?: number | null; speed?: number | null },
+) {
+  const now = Date.now();
+  const last = lastPings.get(tripId);
+
+  if (last) {
+    if (last.riderId !== riderId) return;
+    const elapsed = now - last.at;
+    const moved = haversine(last.lat, last.lng, point.lat, point.lng);
+    if (elapsed < PING_MIN_INTERVAL_MS) return;
+    if (moved < PING_MIN_DISTANCE_KM && elapsed < PING_HEARTBEAT_MS) return;
+  } else {
+    // First ping this process has seen for the trip — the WebSocket path doesn't check ownership
+    const trip = await prisma.deliveryTrip.findUnique({ where: { id: tripId }, select: { riderId: true, status: true } });
+    if (!trip || trip.riderId !== riderId || trip.status !== "IN_PROGRESS") return;
+  }
+
+  lastPings.set(tripId, { riderId, lat: point.lat, lng: point.lng, at: now });
+  await prisma.tripLocationPing.create({
+    data: {
+      tripId,
+      lat: point.lat,
+      lng: point.lng,
+      heading: point.heading ?? null,
+      speed: point.speed ?? null,
+      recordedAt: new Date(now),
+    },
+  });
+}
+
+/** Drop downsampling state once a trip ends */
+export function forgetTripPings(tripId: string) {
+  lastPings.delete(tripId);
+}
+
+/** Latest stored ping for a trip, if recent — the fallback when this instance has no live location */
+export async function getLatestTripPing(prisma: PrismaClient, tripId: string, maxAgeMs: number) {
+  return prisma.tripLocationPing.findFirst({
+    where: { tripId, recordedAt: { gte: new Date(Date.now() - maxAgeMs) } },
+    orderBy: { recordedAt: "desc" },
+  });
+}
+
+/** Distance driven along the breadcrumbs, ignoring GPS jumps */
+export function trackDistance(points: TrackPoint[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    const km = haversine(points[i - 1].lat, points[i - 1].lng, points[i].lat, points[i].lng);
+    const hours = (points[i].at.getTime() - points[i - 1].at.getTime()) / 3_600_000;
+    if (hours > 0 && km / hours > MAX_PLAUSIBLE_SPEED_KMH) continue;
+    total += km;
+  }
+  return Math.round(total * 100) / 100;
+}
+
+/**
+ * Stretches where the rider stayed within IDLE_RADIUS_KM of one spot for at
+ * least IDLE_MIN_MINUTES, labelled by whether that spot is the store or a drop-off.
+ */
+export function findIdlePeriods(points: TrackPoint[], store: { lat: number; lng: number } | null, stops: TrackStop[]): IdlePeriod[] {
+  const periods: IdlePeriod[] = [];
+  let start = 0;
+  while (start < points.length) {
+    const anchor = points[start];
+    let end = start;
+    while (
+      end + 1 < points.length &&
+      haversine(anchor.lat, anchor.lng, points[end + 1].lat, points[end + 1].lng) <= IDLE_RADIUS_KM
+    ) {
+      end++;
+    }
+
+    const minutes = (points[end].at.getTime() - anchor.at.getTime()) / 60_000;
+    if (minutes >= IDLE_MIN_MINUTES) {
+      const stop = stops.find(
+        (s) => s.lat != null && s.lng != null && haversine(anchor.lat, anchor.lng, s.lat, s.lng) <= ARRIVAL_RADIUS_KM,
+      );
+      const atStore = !!store && haversine(anchor.lat, anchor.lng, store.lat, store.lng) <= ARRIVAL_RADIUS_KM;
+      periods.push({
+        startedAt: anchor.at,
+        endedAt: points[end].at,
+        minutes: Math.round(minutes),
+        lat: anchor.lat,
+        lng: anchor.lng,
+        location: stop ? "STOP" : atStore ? "STORE" : "EN_ROUTE",
+        orderId: stop?.orderId ?? null,
+      });
+    }
+    start = end + 1;
+  }
+  return periods;
+}
+
+/**
+ * When the rider first came within ARRIVAL_RADIUS_KM of each drop-off, and how
+ * long they stayed before marking it delivered.
+ */
+export function stopArrivals(points: TrackPoint[], stops: TrackStop[]) {
+  return stops.map((stop) => {
+    let arrivedAt: Date | null = null;
+    if (stop.lat != null && stop.lng != null) {
+      const until = stop.deliveredAt?.getTime() ?? Infinity;
+      const hit = points.find(
+        (p) => p.at.getTime() <= until && haversine(p.lat, p.lng, stop.lat!, stop.lng!) <= ARRIVAL_RADIUS_KM,
+      );
+      arrivedAt = hit?.at ?? null;
+    }
+    const dwellMinutes = arrivedAt && stop.deliveredAt
+      ? Math.round((stop.deliveredAt.getTime() - arrivedAt.getTime()) / 60_000)
+      : null;
+    return { orderId: stop.orderId, arrivedAt, deliveredAt: stop.deliveredAt, dwellMinutes };
+  });
+}
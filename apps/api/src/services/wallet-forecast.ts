@@ -0,0 +1,197 @@
+import type { Prisma, PrismaClient } from "../../generated/prisma/index.js";
+import { calculateEffectivePrice } from "./pricing.js";
+import { advanceNextDeliveryDate } from "../utils/subscription-dates.js";
+import { formatDate, todayIST } from "../utils/timezone.js";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export const DEFAULT_FORECAST_DAYS = 14;
+export const MAX_FORECAST_DAYS = 60;
+
+export interface ForecastDelivery {
+  subscriptionId: string;
+  storeName: string;
+  amount: number;
+  /** Paid from a UPI / card mandate instead of the wallet */
+  autoPay: boolean;
+}
+
+export interface ForecastDay {
+  date: string;
+  spend: number;
+  deliveries: ForecastDelivery[];
+  /** Auto top-up expected before this day's orders are placed */
+  topup: number;
+  balanceAfter: number;
+  /** False from the first delivery the wallet can't pay in full */
+  covered: boolean;
+}
+
+export interface WalletForecast {
+  balance: number;
+  horizonDays: number;
+  /** Delivery days only */
+  days: ForecastDay[];
+  /** Last delivery day the balance pays for in full; null if it can't pay the next one */
+  lastsUntil: string | null;
+  /** First delivery day the balance can't pay for; null if it lasts the whole window */
+  runsOutOn: string | null;
+  /** Top-up needed to cover runsOutOn */
+  shortfall: number;
+  averageDailySpend: number;
+  autoTopup: { threshold: number; topupAmount: number } | null;
+}
+
+function unitPrice(sp: Prisma.StoreProductGetPayload<{ include: { variant: true } }>) {
+  return calculateEffectivePrice(
+    sp.price,
+    {
+      discountType: sp.variant.discountType,
+      discountValue: sp.variant.discountValue,
+      discountStart: sp.variant.discountStart,
+      discountEnd: sp.variant.discountEnd,
+    },
+    {
+      discountType: sp.discountType,
+      discountValue: sp.discountValue,
+      discountStart: sp.discountStart,
+      discountEnd: sp.discountEnd,
+    },
+    sp.memberPrice,
+  ).effectivePrice;
+}
+
+/**
+ * Project a customer's wallet over the next `days` days from their active
+ * subscriptions, quantity overrides and basket add-ons, priced the way the
+ * subscription scheduler prices them today. Store closures aren't taken into
+ * account, so the forecast errs on the side of running out early.
+ */
+export async function forecastWallet(prisma: Db, userId: string, days = DEFAULT_FORECAST_DAYS): Promise<WalletForecast> {
+  const horizonDays = Math.min(Math.max(1, Math.floor(days)), MAX_FORECAST_DAYS);
+  const today = todayIST();
+  const end = new Date(today);
+  end.setUTCDate(end.getUTCDate() + horizonDays);
+  const now = new Date();
+
+  const [user, rule, subscriptions, addOns] = await Promise.all([
+    prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { walletBalance: true } }),
+    prisma.walletAutoTopup.findUnique({ where: { userId } }),
+    prisma.subscription.findMany({
+      where: { userId, status: "ACTIVE" },
+      include: {
+        items: { include: { storeProduct: { include: { variant: true } } } },
+        store: { select: { id: true, name: true, baseDeliveryFee: true } },
+        skippedDates: { where: { date: { gte: today, lt: end } }, select: { date: true } },
+        itemOverrides: { where: { deliveryDate: { gte: today, lt: end } } },
+        mandates: { where: { status: "ACTIVE" }, select: { id: true } },
+      },
+    }),
+    prisma.basketAddOn.findMany({
+      where: { userId, deliveryDate: { gte: today, lt: end } },
+      include: { storeProduct: { include: { variant: true } } },
+    }),
+  ]);
+
+  const autoTopup = rule?.enabled && rule.mandateStatus === "ACTIVE"
+    ? { threshold: Number(rule.threshold), topupAmount: Number(rule.topupAmount) }
+    : null;
+
+  // Add-ons ride along with the first subscription order for that store and day
+  const addOnTotals = new Map<string, number>();
+  for (const addOn of addOns) {
+    const key = `${addOn.storeId}:${formatDate(addOn.deliveryDate)}`;
+    addOnTotals.set(key, (addOnTotals.get(key) ?? 0) + unitPrice(addOn.storeProduct) * addOn.quantity);
+  }
+
+  const byDate = new Map<string, ForecastDelivery[]>();
+  for (const sub of subscriptions) {
+    const skipped = new Set(sub.skippedDates.map((s) => formatDate(s.date)));
+    let date = sub.nextDeliveryDate;
+    // A run that never happened — the scheduler rolls these forward too
+    while (date < today) date = advanceNextDeliveryDate(date, sub.frequency, sub.selectedDays);
+
+    for (; date < end; date = advanceNextDeliveryDate(date, sub.frequency, sub.selectedDays)) {
+      const dateStr = formatDate(date);
+      if (skipped.has(dateStr)) continue;
+      if (sub.pausedUntil && sub.pausedUntil > now && date < sub.pausedUntil) continue;
+
+      let amount = 0;
+      for (const item of sub.items) {
+        const override = sub.itemOverrides.find(
+          (o) => o.storeProductId === item.storeProductId && formatDate(o.deliveryDate) === dateStr,
+        );
+        amount += unitPrice(item.storeProduct) * (override ? override.quantity : item.quantity);
+      }
+      const addOnKey = `${sub.storeId}:${dateStr}`;
+      amount += addOnTotals.get(addOnKey) ?? 0;
+      addOnTotals.delete(addOnKey);
+      if (amount === 0) continue;
+      amount += Number(sub.store.baseDeliveryFee ?? 0);
+
+      const deliveries = byDate.get(dateStr) ?? [];
+      deliveries.push({
+        subscriptionId: sub.id,
+        storeName: sub.store.name,
+        amount: Math.round(amount * 100) / 100,
+        autoPay: sub.mandates.length > 0,
+      });
+      byDate.set(dateStr, deliveries);
+    }
+  }
+
+  let balance = Number(user.walletBalance);
+  let runsOutOn: string | null = null;
+  let lastsUntil: string | null = null;
+  let shortfall = 0;
+  let totalSpend = 0;
+  const forecastDays: ForecastDay[] = [];
+
+  for (const date of [...byDate.keys()].sort()) {
+    const deliveries = byDate.get(date)!;
+    let topup = 0;
+    if (!runsOutOn && autoTopup && balance < autoTopup.threshold) {
+      topup = autoTopup.topupAmount;
+      balance += topup;
+    }
+
+    let spend = 0;
+    let covered = !runsOutOn;
+    for (const delivery of deliveries) {
+      spend += delivery.amount;
+      if (runsOutOn) continue;
+      // Mandates only step in when the wallet is short
+      if (balance >= delivery.amount) {
+        balance -= delivery.amount;
+      } else if (!delivery.autoPay) {
+        // The scheduler spends what's left on a partial order
+        covered = false;
+        shortfall += delivery.amount - balance;
+        balance = 0;
+      }
+    }
+    totalSpend += spend;
+    if (!covered && !runsOutOn) runsOutOn = date;
+    if (covered) lastsUntil = date;
+
+    forecastDays.push({
+      date,
+      spend: Math.round(spend * 100) / 100,
+      deliveries,
+      topup,
+      balanceAfter: Math.round(balance * 100) / 100,
+      covered,
+    });
+  }
+
+  return {
+    balance: Number(user.walletBalance),
+    horizonDays,
+    days: forecastDays,
+    lastsUntil,
+    runsOutOn,
+    shortfall: Math.round(shortfall * 100) / 100,
+    averageDailySpend: Math.round((totalSpend / horizonDays) * 100) / 100,
+    autoTopup,
+  };
+}
@@ -159,3 +159,17 @@ export function broadcastToAdmins(organizationId: string | null, orderId: string
     }
   }
 }
+
+/** Tell an org's staff that a pickup customer is at the store */
+export function broadcastPickupArrival(
+  organizationId: string,
+  arrival: { orderId: string; storeId: string; customerName: string; parkingNote: string | null; arrivedAt: string },
+) {
+  const message = { type: "pickup:arrived", data: arrival };
+  for (const client of clients.values()) {
+    if (client.role === "CUSTOMER" || client.role === "RIDER") continue;
+    if (client.role === "SUPER_ADMIN" || client.organizationId === organizationId) {
+      send(client, message);
+    }
+  }
+}
@@ -59,3 +59,13 @@ export function currentISTTime(): string {
   const { hours, minutes } = getISTComponents();
   return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
 }
+
+/** Hour of day (0–23) in IST for a UTC Date. */
+export function istHour(d: Date = new Date()): number {
+  return getISTComponents(d).hours;
+}
+
+/** The instant an IST calendar date (UTC midnight) begins, e.g. March 4 → 2026-03-03T18:30:00.000Z */
+export function startOfDayIST(d: Date): Date {
+  return new Date(d.getTime() - IST_OFFSET_MS);
+}
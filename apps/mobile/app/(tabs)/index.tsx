@@ -35,7 +35,7 @@ import { FeaturedProductCard, FEATURED_CARD_WIDTH } from "../../components/Featu
 import { FloatingCart } from "../../components/FloatingCart";
 import { ConfirmSheet } from "../../components/ConfirmSheet";
 import { HomeScreenSkeleton } from "../../components/SkeletonLoader";
-import type { Store, StoreProduct, HomeFeed, Banner } from "../../lib/types";
+import type { Store, StoreProduct, HomeFeed, Banner, StoreOpenStatus } from "../../lib/types";
 
 const SCREEN_WIDTH = Dimensions.get("window").width;
 const H_PADDING = 16;
@@ -66,12 +66,14 @@ export default function HomeScreen() {
   const [replaceCartConfirm, setReplaceCartConfirm] = useState<{ pending: () => void } | null>(null);
   const [memberStatus, setMemberStatus] = useState<{ isMember: boolean; membership: { planName: string; endDate: string; daysLeft: number } | null } | null>(null);
   const [hasSubscriptions, setHasSubscriptions] = useState(false);
+  const [storeStatus, setStoreStatus] = useState<StoreOpenStatus | null>(null);
   const { unreadCount } = useNotifications();
 
   const fetchHomeFeed = useCallback(() => {
     if (!selectedStore) {
       setHomeFeed(null);
       setMemberStatus(null);
+      setStoreStatus(null);
       return;
     }
     setLoadingFeed(true);
@@ -89,6 +91,10 @@ export default function HomeScreen() {
         setMemberStatus({ isMember: res.data.isMember, membership: m ? { ...m, daysLeft } : null });
       })
       .catch(() => setMemberStatus(null));
+    api
+      .get<StoreOpenStatus>(`/api/v1/store-calendar/status?storeId=${selectedStore.id}`)
+      .then((res) => setStoreStatus(res.data))
+      .catch(() => setStoreStatus(null));
     // Check for active subscriptions (only if store has subscriptions enabled)
     if (selectedStore.subscriptionEnabled) {
       api
@@ -352,6 +358,17 @@ export default function HomeScreen() {
         }
       >
 
+        {/* ── Store Closed ── */}
+        {selectedStore && storeStatus && !storeStatus.isOpen && (
+          <View style={styles.storeClosedBanner}>
+            <Ionicons name="time-outline" size={18} color="#b45309" />
+            <View style={{ flex: 1 }}>
+              <Text style={styles.storeClosedTitle}>{storeStatus.message ?? "Store closed"}</Text>
+              <Text style={styles.storeClosedSub}>You can still browse and plan your order.</Text>
+            </View>
+          </View>
+        )}
+
         {/* ── Quick Access Chips (Mart Plus + Tomorrow's Basket) ── */}
         {selectedStore && (memberStatus || hasSubscriptions) && (
           <ScrollView
@@ -1037,6 +1054,30 @@ const styles = StyleSheet.create({
   // ── Scroll Content ──
   scrollContent: { paddingBottom: 8 },
 
+  // ── Store Closed ──
+  storeClosedBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    marginHorizontal: 16,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: "#fffbeb",
+    borderWidth: 1,
+    borderColor: "#fde68a",
+  },
+  storeClosedTitle: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: "#92400e",
+  },
+  storeClosedSub: {
+    fontSize: 11,
+    color: "#b45309",
+    marginTop: 2,
+  },
+
   // ── Greeting ──
   // ── Quick Access Chips ──
   quickChipsRow: {
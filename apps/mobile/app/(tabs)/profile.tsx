@@ -61,6 +61,7 @@ export default function ProfileScreen() {
   const [addrLat, setAddrLat] = useState<number | null>(null);
   const [addrLng, setAddrLng] = useState<number | null>(null);
   const [addrPincode, setAddrPincode] = useState<string | null>(null);
+  const [addrStateCode, setAddrStateCode] = useState<string | null>(null);
   const [addrDefault, setAddrDefault] = useState(false);
   const [savingAddress, setSavingAddress] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState<UserAddress | null>(null);
@@ -135,6 +136,7 @@ export default function ProfileScreen() {
     setAddrLat(null);
     setAddrLng(null);
     setAddrPincode(null);
+    setAddrStateCode(null);
     setAddrDefault(false);
     setShowAddressModal(true);
   };
@@ -147,6 +149,7 @@ export default function ProfileScreen() {
     setAddrLat(addr.latitude ?? null);
     setAddrLng(addr.longitude ?? null);
     setAddrPincode(addr.pincode ?? null);
+    setAddrStateCode(addr.stateCode ?? null);
     setAddrDefault(addr.isDefault);
     setShowAddressModal(true);
   };
@@ -165,6 +168,7 @@ export default function ProfileScreen() {
         isDefault: addrDefault,
         ...(addrLat != null && addrLng != null ? { latitude: addrLat, longitude: addrLng } : {}),
         ...(addrPincode ? { pincode: addrPincode } : {}),
+        ...(addrStateCode ? { stateCode: addrStateCode } : {}),
       };
       if (editingAddress) {
         await api.put(`/api/v1/addresses/${editingAddress.id}`, payload);
@@ -490,6 +494,7 @@ export default function ProfileScreen() {
                 setAddrLat(result.latitude || null);
                 setAddrLng(result.longitude || null);
                 setAddrPincode(result.pincode ?? null);
+                setAddrStateCode(result.stateCode ?? null);
                 if (result.placeName) setAddrPlaceName(result.placeName);
               }}
             />
@@ -25,7 +25,7 @@ import { Switch } from "react-native";
 import { RazorpayCheckout } from "../components/RazorpayCheckout";
 import { ProfileGate } from "../components/ProfileGate";
 import { ConfirmSheet } from "../components/ConfirmSheet";
-import type { FulfillmentType, UserAddress, CouponValidation, DeliveryZoneInfo, DeliveryLookupResult, LoyaltyData, MembershipStatus } from "../lib/types";
+import type { FulfillmentType, UserAddress, CouponValidation, DeliveryZoneInfo, DeliveryLookupResult, LoyaltyData, MembershipStatus, StoreOpenStatus } from "../lib/types";
 
 type PaymentMethod = "ONLINE" | "COD";
 type DeliveryMode = "express" | "scheduled";
@@ -40,6 +40,10 @@ interface AvailableSlot {
   maxOrders: number;
   available: number;
   full: boolean;
+  /** Closed for the date by the store (capacity 0) — no waitlist */
+  closed: boolean;
+  note: string | null;
+  waitlisted: boolean;
 }
 
 interface RazorpayData {
@@ -96,10 +100,12 @@ export default function CheckoutScreen() {
   const [expressConfig, setExpressConfig] = useState<{
     enabled: boolean; available: boolean; etaMinutes: number | null; reason?: string;
   } | null>(null);
+  const [storeStatus, setStoreStatus] = useState<StoreOpenStatus | null>(null);
   const [selectedDate, setSelectedDate] = useState<string>("");
   const [selectedSlot, setSelectedSlot] = useState<AvailableSlot | null>(null);
   const [availableSlots, setAvailableSlots] = useState<AvailableSlot[]>([]);
   const [loadingSlots, setLoadingSlots] = useState(false);
+  const [waitlistSlotId, setWaitlistSlotId] = useState<string | null>(null);
   const [basketTotal, setBasketTotal] = useState(0);
   const [basketWarningVisible, setBasketWarningVisible] = useState(false);
 
@@ -192,10 +198,12 @@ export default function CheckoutScreen() {
     api.get<{
       hasSlots: boolean;
       express: { enabled: boolean; available: boolean; etaMinutes: number | null; reason?: string };
+      store: StoreOpenStatus;
     }>(`/api/v1/delivery-slots/check?storeId=${storeId}`)
       .then((res) => {
         setHasSlots(res.data.hasSlots);
         setExpressConfig(res.data.express);
+        setStoreStatus(res.data.store);
       })
       .catch(() => {});
   }, [storeId]);
@@ -216,6 +224,24 @@ export default function CheckoutScreen() {
       .finally(() => setLoadingSlots(false));
   }, [storeId, selectedDate, deliveryMode]);
 
+  // Join or leave the waitlist for a full slot; the API notifies when a place frees up
+  const toggleWaitlist = async (slot: AvailableSlot) => {
+    setWaitlistSlotId(slot.id);
+    try {
+      if (slot.waitlisted) {
+        await api.delete(`/api/v1/delivery-slots/${slot.id}/waitlist?date=${selectedDate}`);
+      } else {
+        await api.post(`/api/v1/delivery-slots/${slot.id}/waitlist`, { date: selectedDate });
+        toast.show("We'll notify you if a place opens up", "success");
+      }
+      setAvailableSlots((prev) => prev.map((s) => (s.id === slot.id ? { ...s, waitlisted: !slot.waitlisted } : s)));
+    } catch (error: unknown) {
+      toast.show(error instanceof Error ? error.message : "Could not update the waitlist", "error");
+    } finally {
+      setWaitlistSlotId(null);
+    }
+  };
+
   // Auto-select delivery mode based on express availability
   useEffect(() => {
     if (!expressConfig) return;
@@ -346,7 +372,9 @@ export default function CheckoutScreen() {
   const amountToPay = afterWallet - loyaltyDeduction;
   const walletCoversAll = amountToPay === 0 && (walletDeduction > 0 || loyaltyDeduction > 0);
   // Order can proceed for pickup always; for delivery only if serviceable (or no lookup done)
-  const orderDisabled = submitting || (!isPickup && isNotServiceable) || belowMinimum;
+  // Pickup and express orders are for now; a scheduled slot can be booked while the store is closed
+  const storeClosedNow = storeStatus != null && !storeStatus.isOpen && (isPickup || deliveryMode !== "scheduled");
+  const orderDisabled = submitting || (!isPickup && isNotServiceable) || belowMinimum || storeClosedNow;
 
   const navigateToSuccess = (orderId: string, params: Record<string, string> = {}) => {
     router.replace({
@@ -814,6 +842,18 @@ export default function CheckoutScreen() {
           </View>
         )}
 
+        {/* Store closed — nothing to schedule instead */}
+        {storeStatus && !storeStatus.isOpen && (isPickup || !hasSlots) && (
+          <View style={styles.section}>
+            <View style={styles.expressUnavailableBanner}>
+              <Ionicons name="time-outline" size={18} color="#b45309" />
+              <Text style={styles.expressUnavailableText}>
+                {storeStatus.message ?? "Store closed"}. {isPickup ? "Pickup orders" : "Orders"} can be placed once it opens.
+              </Text>
+            </View>
+          </View>
+        )}
+
         {/* Delivery Schedule */}
         {(hasSlots || (expressConfig && !expressConfig.enabled)) && !isPickup && (
           <View style={styles.section}>
@@ -980,8 +1020,21 @@ export default function CheckoutScreen() {
                           <Text style={[styles.slotTime, isSelected && styles.slotTimeActive, slot.full && styles.slotTimeFull]}>
                             {formatTime(slot.startTime)} – {formatTime(slot.endTime)}
                           </Text>
-                          {slot.full ? (
-                            <Text style={styles.slotFullText}>Full</Text>
+                          {slot.closed ? (
+                            <Text style={styles.slotFullText}>Closed{slot.note ? ` · ${slot.note}` : ""}</Text>
+                          ) : slot.full ? (
+                            <>
+                              <Text style={styles.slotFullText}>Full</Text>
+                              <TouchableOpacity
+                                onPress={() => toggleWaitlist(slot)}
+                                disabled={waitlistSlotId === slot.id}
+                                hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+                              >
+                                <Text style={styles.slotWaitlist}>
+                                  {slot.waitlisted ? "✓ On waitlist · Leave" : "Notify me"}
+                                </Text>
+                              </TouchableOpacity>
+                            </>
                           ) : (
                             <Text style={[styles.slotAvailable, isSelected && styles.slotAvailableActive]}>
                               {slot.available} slot{slot.available !== 1 ? "s" : ""} left
@@ -2065,6 +2118,12 @@ const styles = StyleSheet.create({
     color: "#dc2626",
     marginTop: 2,
   },
+  slotWaitlist: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: colors.primary,
+    marginTop: 4,
+  },
   slotCheck: {
     position: "absolute",
     top: 6,
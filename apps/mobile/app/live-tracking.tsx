@@ -45,6 +45,8 @@ interface TrackingData {
   deliveryAddress: string | null;
   deliveryLat: number | null;
   deliveryLng: number | null;
+  /** Code to read out to the rider at the door; null when not required */
+  deliveryOtp: string | null;
   remainingStops: RemainingStop[];
   customerStopNumber: number | null;
   totalStops: number;
@@ -55,6 +57,10 @@ interface RouteData {
   legs: Array<{ durationSeconds: number; distanceMeters: number }>;
   totalDurationSeconds: number;
   totalDistanceMeters: number;
+  /** Time to this order's stop, skipping stops after it */
+  customerEtaSeconds: number | null;
+  /** MODEL routes are estimated from store history and have no polyline */
+  source: "GOOGLE" | "MODEL";
 }
 
 export default function LiveTrackingScreen() {
@@ -226,16 +232,16 @@ export default function LiveTrackingScreen() {
     });
   }, [routeData, tracking?.location, tracking?.remainingStops]);
 
-  // Animate map to rider location when it changes (only if no route)
+  // Animate map to rider location when it changes (only if there is no route polyline)
   useEffect(() => {
-    if (!tracking?.location || !mapRef.current || routeData) return;
+    if (!tracking?.location || !mapRef.current || routeData?.polyline?.length) return;
     mapRef.current.animateToRegion({
       latitude: tracking.location.lat,
       longitude: tracking.location.lng,
       latitudeDelta: 0.01,
       longitudeDelta: 0.01,
     }, 1000);
-  }, [tracking?.location?.lat, tracking?.location?.lng, routeData]);
+  }, [tracking?.location?.lat, tracking?.location?.lng, routeData?.polyline?.length]);
 
   const callRider = () => {
     if (tracking?.rider?.phone) {
@@ -297,9 +303,8 @@ export default function LiveTrackingScreen() {
     ? new Date(tracking.location.updatedAt).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit", second: "2-digit" })
     : null;
 
-  const etaMinutes = routeData?.totalDurationSeconds
-    ? Math.ceil(routeData.totalDurationSeconds / 60)
-    : null;
+  const etaSeconds = routeData ? routeData.customerEtaSeconds ?? routeData.totalDurationSeconds : null;
+  const etaMinutes = etaSeconds ? Math.ceil(etaSeconds / 60) : null;
 
   const polylineCoords = routeData?.polyline?.map((p) => ({
     latitude: p.lat,
@@ -402,6 +407,15 @@ export default function LiveTrackingScreen() {
           </View>
         )}
 
+        {/* Delivery code */}
+        {tracking.deliveryOtp && (
+          <View style={styles.otpRow}>
+            <Ionicons name="keypad-outline" size={18} color={colors.primary} />
+            <Text style={styles.otpLabel}>Share this code with your rider</Text>
+            <Text style={styles.otpCode}>{tracking.deliveryOtp}</Text>
+          </View>
+        )}
+
         {/* Rider info */}
         <View style={styles.riderRow}>
           <View style={styles.riderAvatar}>
@@ -564,6 +578,27 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: colors.textSecondary,
   },
+  otpRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.sm,
+    backgroundColor: colors.primary + "12",
+    borderRadius: 12,
+    paddingHorizontal: spacing.md,
+    paddingVertical: 10,
+    marginBottom: spacing.md,
+  },
+  otpLabel: {
+    flex: 1,
+    fontSize: fontSize.sm,
+    color: colors.text,
+  },
+  otpCode: {
+    fontSize: fontSize.xl,
+    fontWeight: "800",
+    letterSpacing: 4,
+    color: colors.primary,
+  },
   riderRow: {
     flexDirection: "row",
     alignItems: "center",
@@ -7,20 +7,26 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   TextInput,
+  Linking,
+  Image,
 } from "react-native";
 import { useLocalSearchParams, useRouter, useFocusEffect } from "expo-router";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
-import { api } from "../../lib/api";
+import { api, getApiUrl, type ApiError } from "../../lib/api";
+import { useAuth } from "../../lib/auth-context";
 import { useOrderWebSocket } from "../../lib/useOrderWebSocket";
 import { useToast } from "../../lib/toast-context";
 import { colors, spacing, fontSize } from "../../constants/theme";
 import { ConfirmSheet } from "../../components/ConfirmSheet";
+import { RazorpayCheckout } from "../../components/RazorpayCheckout";
+import type { StoreProduct } from "../../lib/types";
 import { OrderDetailSkeleton } from "../../components/SkeletonLoader";
 
 interface OrderItemData {
   id: string;
   productId: string;
+  storeProductId: string;
   quantity: number;
   unitPrice: string;
   totalPrice: string;
@@ -74,10 +80,24 @@ interface OrderData {
   scheduledDate?: string | null;
   slotStartTime?: string | null;
   slotEndTime?: string | null;
+  deliveryProof?: {
+    otp: string | null;
+    otpVerifiedAt: string | null;
+    photoUrl: string | null;
+    deliveredAt: string | null;
+  } | null;
+  pickup?: {
+    code: string | null;
+    arrivedAt: string | null;
+    parkingNote: string | null;
+    verifiedAt: string | null;
+  } | null;
 }
 
 const DELIVERY_STATUSES = ["PENDING", "CONFIRMED", "PREPARING", "READY", "OUT_FOR_DELIVERY", "DELIVERED"] as const;
 const PICKUP_STATUSES = ["PENDING", "CONFIRMED", "PREPARING", "READY", "DELIVERED"] as const;
+// Statuses in which a pickup customer can tell the store they've arrived
+const PICKUP_CHECK_IN_STATUSES = ["CONFIRMED", "PREPARING", "READY"];
 
 const STATUS_LABELS: Record<string, string> = {
   PENDING: "Pending",
@@ -109,7 +129,8 @@ const PAYMENT_STATUS_LABELS: Record<string, string> = {
   PENDING: "Pending",
   PAID: "Paid",
   FAILED: "Failed",
-  REFUNDED: "Refunded to Wallet",
+  REFUNDED: "Refunded",
+  PARTIALLY_REFUNDED: "Partially Refunded",
 };
 
 const PAYMENT_STATUS_COLORS: Record<string, string> = {
@@ -117,6 +138,7 @@ const PAYMENT_STATUS_COLORS: Record<string, string> = {
   PAID: "#22c55e",
   FAILED: "#ef4444",
   REFUNDED: "#3b82f6",
+  PARTIALLY_REFUNDED: "#6366f1",
 };
 
 const RETURN_STATUS_COLORS: Record<string, string> = {
@@ -131,14 +153,24 @@ const RETURN_STATUS_LABELS: Record<string, string> = {
   REJECTED: "Rejected",
 };
 
+interface CheckoutData {
+  razorpay_order_id: string;
+  amount: number;
+  currency: string;
+  key_id: string;
+  customer_id?: string;
+}
+
 export default function OrderDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
   const toast = useToast();
+  const { user } = useAuth();
   const insets = useSafeAreaInsets();
   const [order, setOrder] = useState<OrderData | null>(null);
   const [loading, setLoading] = useState(true);
   const [cancelling, setCancelling] = useState(false);
+  const [refundDestination, setRefundDestination] = useState<"WALLET" | "SOURCE">("WALLET");
   const [showCancelConfirm, setShowCancelConfirm] = useState(false);
 
   // Rating state
@@ -150,6 +182,8 @@ export default function OrderDetailScreen() {
   const [storeComment, setStoreComment] = useState("");
   const [submittingRating, setSubmittingRating] = useState(false);
   const [returnRequest, setReturnRequest] = useState<any>(null);
+  const [parkingNote, setParkingNote] = useState("");
+  const [checkingIn, setCheckingIn] = useState(false);
 
   const fetchOrder = useCallback(async () => {
     try {
@@ -223,18 +257,133 @@ export default function OrderDetailScreen() {
     return () => clearInterval(interval);
   }, [isActive, fetchOrder]);
 
+  // An earlier edit's refund leaves it PARTIALLY_REFUNDED
+  const isOnlinePaid = order?.paymentMethod === "ONLINE"
+    && (order?.paymentStatus === "PAID" || order?.paymentStatus === "PARTIALLY_REFUNDED");
   const cancelMessage = (() => {
-    const isOnlinePaid = order?.paymentMethod === "ONLINE" && order?.paymentStatus === "PAID";
     const hasWalletUsed = Number(order?.walletAmountUsed ?? 0) > 0;
     let msg = "Are you sure you want to cancel this order?";
     if (isOnlinePaid) {
-      msg += "\n\nThe amount will be refunded to your Martly wallet.";
+      msg += "\n\nChoose where you'd like your refund.";
     } else if (hasWalletUsed) {
       msg += "\n\nThe wallet amount used will be refunded to your Martly wallet.";
     }
     return msg;
   })();
 
+  const [downloadingInvoice, setDownloadingInvoice] = useState(false);
+  const handleDownloadInvoice = useCallback(async () => {
+    setDownloadingInvoice(true);
+    try {
+      // The browser can't send our auth header, so fetch a short-lived signed link
+      const res = await api.post<{ url: string }>(`/api/v1/orders/${id}/invoice-link`, {});
+      await Linking.openURL(`${getApiUrl()}${res.data.url}`);
+    } catch (err: any) {
+      toast.show(err?.message ?? "Failed to download invoice", "error");
+    } finally {
+      setDownloadingInvoice(false);
+    }
+  }, [id, toast]);
+
+  // Item edits — customers can change the order until the store starts preparing it
+  const [editingItems, setEditingItems] = useState(false);
+  const [editQuantities, setEditQuantities] = useState<Record<string, number>>({});
+  const [addedItems, setAddedItems] = useState<Record<string, { storeProduct: StoreProduct; quantity: number }>>({});
+  const [addQuery, setAddQuery] = useState("");
+  const [addResults, setAddResults] = useState<StoreProduct[]>([]);
+  const [savingItems, setSavingItems] = useState(false);
+  // Set when the edit costs more than the wallet holds; paid into the wallet, then the edit is resent
+  const [editCheckout, setEditCheckout] = useState<CheckoutData | null>(null);
+  const canEditItems = (order?.status === "PENDING" || order?.status === "CONFIRMED")
+    && !(order?.paymentMethod === "ONLINE" && !isOnlinePaid);
+
+  const startEditingItems = useCallback(() => {
+    if (!order) return;
+    setEditQuantities(Object.fromEntries(order.items.map((i) => [i.id, i.quantity])));
+    setAddedItems({});
+    setAddQuery("");
+    setAddResults([]);
+    setEditingItems(true);
+  }, [order]);
+
+  useEffect(() => {
+    if (!editingItems || !order || addQuery.trim().length < 2) {
+      setAddResults([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      api
+        .getList<StoreProduct>(`/api/v1/stores/${order.storeId}/products?q=${encodeURIComponent(addQuery.trim())}&pageSize=10`)
+        .then((res) => setAddResults(res.data))
+        .catch(() => setAddResults([]));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [editingItems, addQuery, order]);
+
+  const addItem = useCallback((sp: StoreProduct) => {
+    setAddedItems((prev) => ({
+      ...prev,
+      [sp.id]: { storeProduct: sp, quantity: (prev[sp.id]?.quantity ?? 0) + 1 },
+    }));
+  }, []);
+
+  const changeAddedQuantity = useCallback((storeProductId: string, delta: number) => {
+    setAddedItems((prev) => {
+      const current = prev[storeProductId];
+      if (!current) return prev;
+      const quantity = current.quantity + delta;
+      if (quantity <= 0) {
+        const rest = { ...prev };
+        delete rest[storeProductId];
+        return rest;
+      }
+      return { ...prev, [storeProductId]: { ...current, quantity } };
+    });
+  }, []);
+
+  const handleSaveItems = useCallback(async () => {
+    if (!order) return;
+    const remove = order.items.filter((i) => editQuantities[i.id] === 0).map((i) => i.id);
+    const update = order.items
+      .filter((i) => editQuantities[i.id] > 0 && editQuantities[i.id] !== i.quantity)
+      .map((i) => ({ orderItemId: i.id, quantity: editQuantities[i.id] }));
+    const add = Object.values(addedItems).map((a) => ({ storeProductId: a.storeProduct.id, quantity: a.quantity }));
+    if (remove.length + update.length + add.length === 0) {
+      setEditingItems(false);
+      return;
+    }
+    setSavingItems(true);
+    try {
+      await api.patch(`/api/v1/orders/${id}/items`, { add, remove, update, ...(isOnlinePaid ? { refundDestination } : {}) });
+      setEditingItems(false);
+      toast.show("Order updated", "success");
+      await fetchOrder();
+    } catch (err) {
+      const { status, data } = err as ApiError;
+      if (status === 402 && data) {
+        setEditCheckout((data as { checkout: CheckoutData }).checkout);
+        return;
+      }
+      toast.show(err instanceof Error ? err.message : "Failed to update order", "error");
+    } finally {
+      setSavingItems(false);
+    }
+  }, [id, order, editQuantities, addedItems, fetchOrder, toast, isOnlinePaid, refundDestination]);
+
+  const handleEditPaymentSuccess = useCallback(async (result: { razorpay_payment_id: string; razorpay_order_id: string; razorpay_signature: string }) => {
+    const checkout = editCheckout;
+    setEditCheckout(null);
+    if (!checkout) return;
+    try {
+      await api.post("/api/v1/wallet/recharge/verify", { ...result, amount: checkout.amount });
+    } catch {
+      toast.show("Payment verification pending — the amount will reach your wallet shortly", "error");
+      return;
+    }
+    // The extra is in the wallet now, so the same edit goes through
+    await handleSaveItems();
+  }, [editCheckout, handleSaveItems, toast]);
+
   const handleCancel = useCallback(() => {
     setShowCancelConfirm(true);
   }, []);
@@ -242,7 +391,7 @@ export default function OrderDetailScreen() {
   const handleCancelConfirm = useCallback(async () => {
     setCancelling(true);
     try {
-      await api.post(`/api/v1/orders/${id}/cancel`, {});
+      await api.post(`/api/v1/orders/${id}/cancel`, isOnlinePaid ? { refundDestination } : {});
       setShowCancelConfirm(false);
       await fetchOrder();
     } catch (err: any) {
@@ -250,7 +399,20 @@ export default function OrderDetailScreen() {
     } finally {
       setCancelling(false);
     }
-  }, [id, fetchOrder, toast]);
+  }, [id, fetchOrder, toast, isOnlinePaid, refundDestination]);
+
+  const handleCheckIn = useCallback(async () => {
+    setCheckingIn(true);
+    try {
+      await api.post(`/api/v1/orders/${id}/pickup/check-in`, parkingNote.trim() ? { parkingNote: parkingNote.trim() } : {});
+      toast.show("The store knows you're here", "success");
+      await fetchOrder();
+    } catch (err: any) {
+      toast.show(err?.message ?? "Failed to check in", "error");
+    } finally {
+      setCheckingIn(false);
+    }
+  }, [id, parkingNote, fetchOrder, toast]);
 
   const submitStoreRating = useCallback(async () => {
     if (storeOverall === 0 || !order) return;
@@ -286,6 +448,32 @@ export default function OrderDetailScreen() {
   }
 
   const isCancelled = order.status === "CANCELLED";
+  // Where a cancelled or reduced online-paid order is refunded
+  const refundOptions = isOnlinePaid && (
+    <View style={styles.refundOptions}>
+      {([
+        { value: "WALLET", label: "Martly Wallet", hint: "Instant" },
+        { value: "SOURCE", label: "Original payment method", hint: "5-7 business days" },
+      ] as const).map((opt) => (
+        <TouchableOpacity
+          key={opt.value}
+          style={[styles.refundOption, refundDestination === opt.value && styles.refundOptionActive]}
+          onPress={() => setRefundDestination(opt.value)}
+          activeOpacity={0.7}
+        >
+          <Ionicons
+            name={refundDestination === opt.value ? "radio-button-on" : "radio-button-off"}
+            size={20}
+            color={refundDestination === opt.value ? colors.primary : "#94a3b8"}
+          />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.refundOptionLabel}>{opt.label}</Text>
+            <Text style={styles.refundOptionHint}>{opt.hint}</Text>
+          </View>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
   const isPickup = order.fulfillmentType === "PICKUP";
   const STATUSES = isPickup ? PICKUP_STATUSES : DELIVERY_STATUSES;
   const labels = isPickup ? PICKUP_STATUS_LABELS : STATUS_LABELS;
@@ -379,6 +567,90 @@ export default function OrderDetailScreen() {
         </TouchableOpacity>
       )}
 
+      {/* Delivery code — read out to the rider at handoff */}
+      {order.deliveryProof?.otp && (order.status === "READY" || order.status === "OUT_FOR_DELIVERY") && (
+        <View style={styles.otpCard}>
+          <Ionicons name="keypad-outline" size={22} color={colors.primary} />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.otpLabel}>Delivery code</Text>
+            <Text style={styles.otpHint}>Share only when your order reaches you</Text>
+          </View>
+          <Text style={styles.otpCode}>{order.deliveryProof.otp}</Text>
+        </View>
+      )}
+
+      {/* Pickup code — shown at the counter */}
+      {isPickup && order.pickup?.code && order.status === "READY" && (
+        <View style={styles.otpCard}>
+          <Ionicons name="qr-code-outline" size={22} color={colors.primary} />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.otpLabel}>Pickup code</Text>
+            <Text style={styles.otpHint}>Show this at the counter to collect your order</Text>
+          </View>
+          <Text style={styles.otpCode}>{order.pickup.code}</Text>
+        </View>
+      )}
+
+      {/* I'm here — tells the store the customer has arrived */}
+      {isPickup && PICKUP_CHECK_IN_STATUSES.includes(order.status) && (
+        <View style={styles.section}>
+          {order.pickup?.arrivedAt ? (
+            <View style={styles.proofRow}>
+              <Ionicons name="checkmark-circle" size={18} color="#16a34a" />
+              <Text style={styles.proofText}>
+                You checked in at{" "}
+                {new Date(order.pickup.arrivedAt).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })}
+                {order.pickup.parkingNote ? ` · ${order.pickup.parkingNote}` : ""}
+                {"\n"}The store has been told you're here.
+              </Text>
+            </View>
+          ) : (
+            <>
+              <Text style={styles.sectionTitle}>At the store?</Text>
+              <TextInput
+                style={styles.checkInInput}
+                value={parkingNote}
+                onChangeText={setParkingNote}
+                placeholder="Where are you? e.g. Parked at gate 2, white Swift (optional)"
+                placeholderTextColor="#94a3b8"
+                maxLength={200}
+              />
+              <TouchableOpacity style={styles.checkInBtn} onPress={handleCheckIn} disabled={checkingIn} activeOpacity={0.7}>
+                {checkingIn ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <>
+                    <Ionicons name="hand-right-outline" size={18} color="#fff" />
+                    <Text style={styles.checkInBtnText}>I'm Here</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      )}
+
+      {/* Proof of delivery */}
+      {order.status === "DELIVERED" && (order.deliveryProof?.photoUrl || order.deliveryProof?.otpVerifiedAt) && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Proof of Delivery</Text>
+          {order.deliveryProof.otpVerifiedAt && (
+            <View style={styles.proofRow}>
+              <Ionicons name="shield-checkmark" size={16} color="#16a34a" />
+              <Text style={styles.proofText}>
+                Handed over with your code at{" "}
+                {new Date(order.deliveryProof.otpVerifiedAt).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })}
+              </Text>
+            </View>
+          )}
+          {order.deliveryProof.photoUrl && (
+            <TouchableOpacity onPress={() => Linking.openURL(order.deliveryProof!.photoUrl!)} activeOpacity={0.8}>
+              <Image source={{ uri: order.deliveryProof.photoUrl }} style={styles.proofPhoto} />
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
       {/* Delivery Address / Pickup Location */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>{isPickup ? "Pickup Location" : "Delivery Address"}</Text>
@@ -412,8 +684,99 @@ export default function OrderDetailScreen() {
 
       {/* Items */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Items</Text>
-        {order.items.map((item) => (
+        <View style={styles.itemsHeader}>
+          <Text style={styles.sectionTitle}>Items</Text>
+          {canEditItems && !editingItems && (
+            <TouchableOpacity onPress={startEditingItems} activeOpacity={0.7}>
+              <Text style={styles.editItemsLink}>Edit</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {editingItems ? (
+          <>
+            {order.items.map((item) => (
+              <View key={item.id} style={styles.itemRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.itemName, editQuantities[item.id] === 0 && styles.itemRemoved]}>{item.product.name}</Text>
+                  {item.variant && <Text style={styles.itemVariant}>{item.variant.name}</Text>}
+                  <Text style={styles.itemQty}>{"\u20B9"}{Number(item.unitPrice).toFixed(0)} each</Text>
+                </View>
+                <View style={styles.stepper}>
+                  <TouchableOpacity
+                    onPress={() => setEditQuantities((prev) => ({ ...prev, [item.id]: Math.max(0, (prev[item.id] ?? 0) - 1) }))}
+                    style={styles.stepperBtn}
+                  >
+                    <Ionicons name={editQuantities[item.id] === 1 ? "trash-outline" : "remove"} size={16} color={colors.primary} />
+                  </TouchableOpacity>
+                  <Text style={styles.stepperQty}>{editQuantities[item.id] ?? 0}</Text>
+                  <TouchableOpacity
+                    onPress={() => setEditQuantities((prev) => ({ ...prev, [item.id]: (prev[item.id] ?? 0) + 1 }))}
+                    style={styles.stepperBtn}
+                  >
+                    <Ionicons name="add" size={16} color={colors.primary} />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+            {Object.values(addedItems).map(({ storeProduct, quantity }) => (
+              <View key={storeProduct.id} style={styles.itemRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.itemName}>{storeProduct.product.name}</Text>
+                  <Text style={styles.itemVariant}>{storeProduct.variant.name} · New</Text>
+                </View>
+                <View style={styles.stepper}>
+                  <TouchableOpacity onPress={() => changeAddedQuantity(storeProduct.id, -1)} style={styles.stepperBtn}>
+                    <Ionicons name={quantity === 1 ? "trash-outline" : "remove"} size={16} color={colors.primary} />
+                  </TouchableOpacity>
+                  <Text style={styles.stepperQty}>{quantity}</Text>
+                  <TouchableOpacity onPress={() => changeAddedQuantity(storeProduct.id, 1)} style={styles.stepperBtn}>
+                    <Ionicons name="add" size={16} color={colors.primary} />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+            <TextInput
+              style={styles.addItemInput}
+              placeholder="Forgot something? Search to add"
+              placeholderTextColor={colors.textSecondary}
+              value={addQuery}
+              onChangeText={setAddQuery}
+            />
+            {addResults.map((sp) => (
+              <TouchableOpacity key={sp.id} style={styles.addResultRow} onPress={() => addItem(sp)} activeOpacity={0.7}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.itemName}>{sp.product.name}</Text>
+                  <Text style={styles.itemVariant}>
+                    {sp.variant.name} · {"\u20B9"}{Number(sp.pricing?.effectivePrice ?? sp.price).toFixed(0)}
+                  </Text>
+                </View>
+                <Ionicons name="add-circle" size={24} color={sp.availableStock > 0 ? colors.primary : colors.border} />
+              </TouchableOpacity>
+            ))}
+            <Text style={styles.editItemsHint}>
+              Prices and stock are checked when you save. Anything extra comes from your Martly wallet, and you pay
+              the difference if it's short. {isOnlinePaid ? "If the total goes down, refund it to:" : "Anything less goes back to your wallet."}
+            </Text>
+            {refundOptions}
+            <View style={styles.editItemsActions}>
+              <TouchableOpacity
+                style={[styles.editItemsBtn, styles.editItemsBtnSecondary]}
+                onPress={() => setEditingItems(false)}
+                disabled={savingItems}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.editItemsBtnSecondaryText}>Discard</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.editItemsBtn} onPress={handleSaveItems} disabled={savingItems} activeOpacity={0.7}>
+                {savingItems ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.editItemsBtnText}>Save Changes</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </>
+        ) : order.items.map((item) => (
           <View key={item.id} style={styles.itemRow}>
             <View style={{ flex: 1 }}>
               <Text style={styles.itemName}>{item.product.name}</Text>
@@ -681,6 +1044,20 @@ export default function OrderDetailScreen() {
               })}
             </View>
           </View>
+          <TouchableOpacity
+            style={styles.invoiceBtn}
+            onPress={handleDownloadInvoice}
+            disabled={downloadingInvoice}
+            activeOpacity={0.7}
+          >
+            {downloadingInvoice ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <Ionicons name="document-text-outline" size={18} color={colors.primary} />
+            )}
+            <Text style={styles.invoiceBtnText}>Download Invoice</Text>
+          </TouchableOpacity>
+
           {/* Return Request Section */}
           {returnRequest ? (
             <View style={styles.returnCard}>
@@ -761,7 +1138,29 @@ export default function OrderDetailScreen() {
       loading={cancelling}
       onConfirm={handleCancelConfirm}
       onCancel={() => { if (!cancelling) setShowCancelConfirm(false); }}
-    />
+    >
+      {refundOptions}
+    </ConfirmSheet>
+
+    {editCheckout && (
+      <RazorpayCheckout
+        visible
+        keyId={editCheckout.key_id}
+        orderId={editCheckout.razorpay_order_id}
+        amount={editCheckout.amount}
+        currency={editCheckout.currency}
+        customerId={editCheckout.customer_id}
+        name="Martly"
+        description={`Changes to order #${order.id.slice(0, 8)}`}
+        prefill={{
+          email: user?.email ?? "",
+          contact: user?.phone ?? "",
+          name: user?.name ?? "",
+        }}
+        onSuccess={handleEditPaymentSuccess}
+        onCancel={() => setEditCheckout(null)}
+      />
+    )}
     </View>
   );
 }
@@ -923,6 +1322,19 @@ const styles = StyleSheet.create({
     marginBottom: spacing.xl,
   },
   cancelBtnText: { color: "#fff", fontSize: fontSize.md, fontWeight: "700" },
+  refundOptions: { width: "100%", gap: 8, marginBottom: 20 },
+  refundOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+  },
+  refundOptionActive: { borderColor: colors.primary, backgroundColor: colors.primary + "0D" },
+  refundOptionLabel: { fontSize: fontSize.md, fontWeight: "600", color: colors.text },
+  refundOptionHint: { fontSize: 12, color: "#64748b", marginTop: 2 },
   paymentBreakdownCard: {
     backgroundColor: colors.surface,
     borderRadius: 10,
@@ -1170,6 +1582,74 @@ const styles = StyleSheet.create({
     fontWeight: "700",
     color: "#fff",
   },
+  otpCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: colors.primary + "10",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.primary + "30",
+    padding: 14,
+    marginBottom: spacing.lg,
+  },
+  otpLabel: {
+    fontSize: fontSize.md,
+    fontWeight: "700",
+    color: colors.text,
+  },
+  otpHint: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  otpCode: {
+    fontSize: fontSize.xxl,
+    fontWeight: "800",
+    letterSpacing: 6,
+    color: colors.primary,
+  },
+  checkInInput: {
+    backgroundColor: "#fff",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 10,
+    fontSize: fontSize.md,
+    color: colors.text,
+  },
+  checkInBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: colors.primary,
+    borderRadius: 10,
+    paddingVertical: 12,
+    marginTop: spacing.sm,
+  },
+  checkInBtnText: {
+    fontSize: fontSize.md,
+    fontWeight: "700",
+    color: "#fff",
+  },
+  proofRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 10,
+  },
+  proofText: {
+    flex: 1,
+    fontSize: fontSize.md,
+    color: colors.text,
+  },
+  proofPhoto: {
+    width: "100%",
+    height: 180,
+    borderRadius: 10,
+    backgroundColor: colors.border,
+  },
   returnBtn: {
     flexDirection: "row",
     alignItems: "center",
@@ -1188,4 +1668,64 @@ const styles = StyleSheet.create({
     fontSize: fontSize.md,
     fontWeight: "600",
   },
+  invoiceBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    borderRadius: 10,
+    paddingVertical: 14,
+    marginTop: spacing.md,
+    borderWidth: 1.5,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  invoiceBtnText: {
+    color: colors.primary,
+    fontSize: fontSize.md,
+    fontWeight: "600",
+  },
+  itemsHeader: { flexDirection: "row", justifyContent: "space-between", alignItems: "center" },
+  editItemsLink: { color: colors.primary, fontSize: fontSize.md, fontWeight: "600", marginBottom: spacing.sm },
+  itemRemoved: { textDecorationLine: "line-through", color: colors.textSecondary },
+  stepper: { flexDirection: "row", alignItems: "center", gap: 10 },
+  stepperBtn: {
+    width: 30,
+    height: 30,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  stepperQty: { fontSize: fontSize.md, fontWeight: "600", color: colors.text, minWidth: 18, textAlign: "center" },
+  addItemInput: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 10,
+    paddingHorizontal: spacing.md,
+    paddingVertical: 10,
+    marginTop: spacing.md,
+    fontSize: fontSize.md,
+    color: colors.text,
+  },
+  addResultRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  editItemsHint: { fontSize: fontSize.sm, color: colors.textSecondary, marginTop: spacing.md },
+  editItemsActions: { flexDirection: "row", gap: spacing.sm, marginTop: spacing.md },
+  editItemsBtn: {
+    flex: 1,
+    backgroundColor: colors.primary,
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  editItemsBtnText: { color: "#fff", fontSize: fontSize.md, fontWeight: "700" },
+  editItemsBtnSecondary: { backgroundColor: colors.surface, borderWidth: 1.5, borderColor: colors.border },
+  editItemsBtnSecondaryText: { color: colors.text, fontSize: fontSize.md, fontWeight: "600" },
 });
@@ -9,11 +9,14 @@ import {
   Alert,
   Image,
   RefreshControl,
+  Linking,
 } from "react-native";
 import { useLocalSearchParams, useRouter, useFocusEffect } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
-import { api } from "../../lib/api";
+import { api, getApiUrl } from "../../lib/api";
+import { useAuth } from "../../lib/auth-context";
 import { useToast } from "../../lib/toast-context";
+import { RazorpayCheckout } from "../../components/RazorpayCheckout";
 import { colors, spacing, fontSize, fonts } from "../../constants/theme";
 import type { Subscription, Pricing } from "../../lib/types";
 
@@ -38,22 +41,125 @@ interface CalendarDay {
   date: string;
   scheduled: boolean;
   skipped: boolean;
+  /** Skipped as part of a vacation — changed from Tomorrow's Basket, not here */
+  vacation: boolean;
+}
+
+interface SubscriptionMandate {
+  id: string;
+  method: "UPI" | "CARD";
+  status: "PENDING" | "ACTIVE" | "CANCELLED";
+  label: string | null;
+  maxAmount: string;
+  authorizedAt: string | null;
+}
+
+interface MandateCharge {
+  id: string;
+  deliveryDate: string;
+  amount: string;
+  status: "PENDING" | "CAPTURED" | "FAILED" | "ABANDONED" | "REFUNDED";
+  attempts: number;
+  failureReason: string | null;
+  orderId: string | null;
+}
+
+interface MandateSetup {
+  mandateId: string;
+  razorpay_order_id: string;
+  amount: number;
+  currency: string;
+  key_id: string;
+  customer_id?: string;
+}
+
+type DeliveryStatus =
+  | "PLACED"
+  | "PARTIAL"
+  | "SKIPPED"
+  | "VACATION"
+  | "STORE_CLOSED"
+  | "LOW_BALANCE"
+  | "OUT_OF_STOCK"
+  | "NOTHING_TO_ORDER"
+  | "MISSED"
+  | "SCHEDULED"
+  | "PAUSED";
+
+const DELIVERY_STATUS: Record<DeliveryStatus, { label: string; color: string }> = {
+  PLACED: { label: "Delivered", color: colors.success },
+  PARTIAL: { label: "Partial order", color: colors.warning },
+  SKIPPED: { label: "Skipped", color: colors.textSecondary },
+  VACATION: { label: "Vacation", color: colors.secondary },
+  STORE_CLOSED: { label: "Store closed", color: colors.textSecondary },
+  LOW_BALANCE: { label: "Skipped — low balance", color: colors.error },
+  OUT_OF_STOCK: { label: "Skipped — out of stock", color: colors.error },
+  NOTHING_TO_ORDER: { label: "Nothing to order", color: colors.textSecondary },
+  MISSED: { label: "Missed", color: colors.textSecondary },
+  SCHEDULED: { label: "Scheduled", color: colors.primary },
+  PAUSED: { label: "Paused", color: colors.warning },
+};
+
+interface DeliveryHistoryDay {
+  date: string;
+  status: DeliveryStatus;
+  /** Not reached by the scheduler yet — status is what's planned */
+  upcoming: boolean;
+  orderId: string | null;
+  orderStatus: string | null;
+  amount: number | null;
+  autoPay: boolean;
+  droppedItems: { storeProductId: string; name: string; quantity: number; reason: "LOW_BALANCE" | "OUT_OF_STOCK" }[];
+  note: string | null;
+}
+
+interface DeliveryHistory {
+  month: string;
+  days: DeliveryHistoryDay[];
+  summary: {
+    delivered: number;
+    partial: number;
+    skipped: number;
+    lowBalance: number;
+    outOfStock: number;
+    totalCharged: number;
+  };
+}
+
+/** "YYYY-MM" of a local date */
+function monthOf(d: Date) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+
+/** "YYYY-MM" of the month `delta` months from `month` */
+function shiftMonth(month: string, delta: number) {
+  const [y, m] = month.split("-").map(Number);
+  return monthOf(new Date(y, m - 1 + delta, 1));
 }
 
 interface SubscriptionDetail extends Subscription {
   calendar?: CalendarDay[];
   recentOrders?: { id: string; status: string; totalAmount: string; createdAt: string }[];
+  mandate?: SubscriptionMandate | null;
+  mandateCharges?: MandateCharge[];
 }
 
 export default function SubscriptionDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
+  const { user } = useAuth();
   const { show } = useToast();
 
   const [subscription, setSubscription] = useState<SubscriptionDetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [updating, setUpdating] = useState(false);
+  const [mandateSetup, setMandateSetup] = useState<MandateSetup | null>(null);
+  const [mandateVisible, setMandateVisible] = useState(false);
+  const [historyMonth, setHistoryMonth] = useState(() => monthOf(new Date()));
+  const [history, setHistory] = useState<DeliveryHistory | null>(null);
+  const [selectedHistoryDay, setSelectedHistoryDay] = useState<string | null>(null);
+  const [downloadingStatement, setDownloadingStatement] = useState(false);
 
   const fetchSubscription = useCallback(async () => {
     if (!id) {
@@ -71,16 +177,33 @@ export default function SubscriptionDetailScreen() {
     }
   }, [id, show]);
 
+  const fetchHistory = useCallback(async () => {
+    if (!id) return;
+    try {
+      const res = await api.get<DeliveryHistory>(`/api/v1/subscriptions/${id}/deliveries?month=${historyMonth}`);
+      setHistory(res.data);
+    } catch {
+      show("Failed to load delivery history", "error");
+    }
+  }, [id, historyMonth, show]);
+
   useFocusEffect(
     useCallback(() => {
       fetchSubscription();
     }, [fetchSubscription]),
   );
 
+  useFocusEffect(
+    useCallback(() => {
+      fetchHistory();
+    }, [fetchHistory]),
+  );
+
   const handleRefresh = useCallback(() => {
     setRefreshing(true);
     fetchSubscription();
-  }, [fetchSubscription]);
+    fetchHistory();
+  }, [fetchSubscription, fetchHistory]);
 
   const patchSubscription = async (body: Record<string, unknown>) => {
     if (!id) return;
@@ -202,6 +325,98 @@ export default function SubscriptionDetailScreen() {
     );
   };
 
+  // ── Auto-pay mandate ──────────────────────────────────
+  const startAutoPay = async (method: SubscriptionMandate["method"]) => {
+    if (!id) return;
+    setUpdating(true);
+    try {
+      const res = await api.post<MandateSetup>(`/api/v1/subscriptions/${id}/mandate`, { method });
+      setMandateSetup(res.data);
+      setMandateVisible(true);
+    } catch (e: any) {
+      show(e.message || "Could not set up auto-pay", "error");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleSetUpAutoPay = () => {
+    Alert.alert(
+      "Set Up Auto-Pay",
+      "When your wallet can't cover a delivery, we'll charge your UPI or card instead. You can cancel anytime.",
+      [
+        { text: "Not Now", style: "cancel" },
+        { text: "Card", onPress: () => startAutoPay("CARD") },
+        { text: "UPI AutoPay", onPress: () => startAutoPay("UPI") },
+      ],
+    );
+  };
+
+  const handleMandateSuccess = async (data: { razorpay_payment_id: string; razorpay_order_id: string; razorpay_signature: string }) => {
+    setMandateVisible(false);
+    if (!id) return;
+    setUpdating(true);
+    try {
+      await api.post(`/api/v1/subscriptions/${id}/mandate/confirm`, data);
+      await fetchSubscription();
+      show("Auto-pay is on", "success");
+    } catch (e: any) {
+      show(e.message || "Could not confirm auto-pay", "error");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleCancelAutoPay = () => {
+    Alert.alert(
+      "Turn Off Auto-Pay",
+      "Deliveries will only be paid from your wallet. If it runs low, they'll be skipped or placed partially.",
+      [
+        { text: "Keep Auto-Pay", style: "cancel" },
+        {
+          text: "Turn Off",
+          style: "destructive",
+          onPress: async () => {
+            if (!id) return;
+            setUpdating(true);
+            try {
+              await api.delete(`/api/v1/subscriptions/${id}/mandate`);
+              await fetchSubscription();
+              show("Auto-pay turned off", "success");
+            } catch (e: any) {
+              show(e.message || "Failed to turn off auto-pay", "error");
+            } finally {
+              setUpdating(false);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  // ── Delivery history ───────────────────────────────────
+  const handleHistoryMonthChange = (delta: number) => {
+    setHistoryMonth((month) => shiftMonth(month, delta));
+    setSelectedHistoryDay(null);
+  };
+
+  const handleDownloadStatement = async () => {
+    if (!id) return;
+    setDownloadingStatement(true);
+    try {
+      // The browser can't send our auth header, so fetch a short-lived signed link
+      const res = await api.post<{ url: string }>(
+        `/api/v1/subscriptions/${id}/statement-link?month=${historyMonth}`,
+        {},
+      );
+      await Linking.openURL(`${getApiUrl()}${res.data.url}`);
+    } catch (e: any) {
+      show(e.message || "Failed to download statement", "error");
+    } finally {
+      setDownloadingStatement(false);
+    }
+  };
+
   // ── Helpers ────────────────────────────────────────────
   const formatPrice = (amount: number) =>
     `\u20B9${Math.round(amount).toLocaleString("en-IN")}`;
@@ -238,6 +453,13 @@ export default function SubscriptionDetailScreen() {
   }
 
   const isCancelled = subscription.status === "CANCELLED";
+  const [historyYear, historyMonthIndex] = historyMonth.split("-").map(Number);
+  const historyFirstWeekday = new Date(historyYear, historyMonthIndex - 1, 1).getDay();
+  const historyDaysInMonth = new Date(historyYear, historyMonthIndex, 0).getDate();
+  const historyByDate = new Map((history?.month === historyMonth ? history.days : []).map((d) => [d.date, d]));
+  const selectedHistory = selectedHistoryDay ? historyByDate.get(selectedHistoryDay) : undefined;
+  const lastCharge = subscription.mandateCharges?.[0];
+  const lastChargeFailed = lastCharge && !lastCharge.orderId && lastCharge.status !== "CAPTURED";
 
   return (
     <ScrollView
@@ -398,7 +620,7 @@ export default function SubscriptionDetailScreen() {
             const { day: dayLabel, date } = getCalendarDayLabel(day.date);
             const isScheduled = day.scheduled && !day.skipped;
             const isSkipped = day.scheduled && day.skipped;
-            const tappable = day.scheduled && !isCancelled;
+            const tappable = day.scheduled && !day.vacation && !isCancelled;
             return (
               <TouchableOpacity
                 key={day.date}
@@ -430,9 +652,11 @@ export default function SubscriptionDetailScreen() {
                   {date}
                 </Text>
                 {isScheduled && <View style={styles.scheduledDot} />}
-                {isSkipped && (
+                {isSkipped && (day.vacation ? (
+                  <Ionicons name="airplane" size={10} color={colors.textSecondary} style={{ marginTop: 3 }} />
+                ) : (
                   <View style={styles.skippedLine} />
-                )}
+                ))}
               </TouchableOpacity>
             );
           })}
@@ -450,6 +674,106 @@ export default function SubscriptionDetailScreen() {
         </View>
       </View>
 
+      {/* ── Delivery History ──────────────────────────── */}
+      <View style={styles.section}>
+        <View style={styles.historyHeader}>
+          <Text style={[styles.sectionTitle, { marginBottom: 0 }]}>Delivery History</Text>
+          <View style={styles.historyMonthNav}>
+            <TouchableOpacity onPress={() => handleHistoryMonthChange(-1)} hitSlop={8}>
+              <Ionicons name="chevron-back" size={20} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.historyMonthLabel}>
+              {new Date(historyYear, historyMonthIndex - 1, 1).toLocaleDateString("en-IN", { month: "short", year: "numeric" })}
+            </Text>
+            <TouchableOpacity onPress={() => handleHistoryMonthChange(1)} hitSlop={8}>
+              <Ionicons name="chevron-forward" size={20} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.historyGrid}>
+          {DAY_LABELS.map((label) => (
+            <Text key={label} style={styles.historyWeekday}>{label.charAt(0)}</Text>
+          ))}
+          {Array.from({ length: historyFirstWeekday }, (_, i) => (
+            <View key={`blank-${i}`} style={styles.historyCell} />
+          ))}
+          {Array.from({ length: historyDaysInMonth }, (_, i) => {
+            const date = `${historyMonth}-${String(i + 1).padStart(2, "0")}`;
+            const entry = historyByDate.get(date);
+            const status = entry ? DELIVERY_STATUS[entry.status] : null;
+            const isSelected = selectedHistoryDay === date;
+            return (
+              <TouchableOpacity
+                key={date}
+                style={[
+                  styles.historyCell,
+                  entry && !entry.upcoming && status && { backgroundColor: status.color + "18" },
+                  isSelected && styles.historyCellSelected,
+                ]}
+                onPress={() => setSelectedHistoryDay(isSelected ? null : date)}
+                disabled={!entry}
+                activeOpacity={0.6}
+              >
+                <Text style={[styles.historyCellText, !entry && { color: colors.border }]}>{i + 1}</Text>
+                {status && <View style={[styles.historyDot, { backgroundColor: status.color }]} />}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {history && history.month === historyMonth && (
+          <Text style={styles.historySummary}>
+            {history.summary.delivered} delivered · {history.summary.partial} partial ·{" "}
+            {history.summary.skipped + history.summary.lowBalance + history.summary.outOfStock} skipped ·{" "}
+            {formatPrice(history.summary.totalCharged)} charged
+          </Text>
+        )}
+
+        {selectedHistory && (
+          <View style={styles.historyDetail}>
+            <View style={styles.historyDetailRow}>
+              <View style={[styles.legendDot, { backgroundColor: DELIVERY_STATUS[selectedHistory.status].color }]} />
+              <Text style={styles.historyDetailTitle}>
+                {formatDate(selectedHistory.date)} · {DELIVERY_STATUS[selectedHistory.status].label}
+              </Text>
+            </View>
+            {selectedHistory.amount != null && (
+              <Text style={styles.historyDetailText}>
+                {formatPrice(selectedHistory.amount)} {selectedHistory.autoPay ? "charged via auto-pay" : "paid from wallet"}
+                {selectedHistory.orderStatus === "CANCELLED" ? " · cancelled and refunded" : ""}
+              </Text>
+            )}
+            {selectedHistory.droppedItems.map((item) => (
+              <Text key={item.storeProductId} style={styles.historyDetailText}>
+                {item.name} ×{item.quantity} dropped — {item.reason === "OUT_OF_STOCK" ? "out of stock" : "low wallet balance"}
+              </Text>
+            ))}
+            {selectedHistory.note && selectedHistory.droppedItems.length === 0 && (
+              <Text style={styles.historyDetailText}>{selectedHistory.note}</Text>
+            )}
+            {selectedHistory.orderId && (
+              <TouchableOpacity onPress={() => router.push(`/order/${selectedHistory.orderId}`)}>
+                <Text style={styles.historyDetailLink}>View order</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.actionBtn, { backgroundColor: colors.primary + "15", marginTop: spacing.md, marginBottom: 0 }]}
+          onPress={handleDownloadStatement}
+          disabled={downloadingStatement}
+        >
+          {downloadingStatement ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : (
+            <Ionicons name="document-text-outline" size={22} color={colors.primary} />
+          )}
+          <Text style={[styles.actionBtnText, { color: colors.primary }]}>Download Monthly Statement</Text>
+        </TouchableOpacity>
+      </View>
+
       {/* ── Delivery Address ──────────────────────────── */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Delivery Address</Text>
@@ -459,6 +783,54 @@ export default function SubscriptionDetailScreen() {
         </View>
       </View>
 
+      {/* ── Auto-Pay ──────────────────────────────────── */}
+      {!isCancelled && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Auto-Pay</Text>
+          {subscription.mandate ? (
+            <>
+              <View style={styles.addressCard}>
+                <Ionicons
+                  name={subscription.mandate.method === "UPI" ? "phone-portrait-outline" : "card-outline"}
+                  size={20}
+                  color={colors.primary}
+                />
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.addressText}>
+                    {subscription.mandate.label || (subscription.mandate.method === "UPI" ? "UPI AutoPay" : "Card")}
+                  </Text>
+                  <Text style={styles.autoPayHint}>
+                    Used when your wallet is short · up to {formatPrice(Number(subscription.mandate.maxAmount))} per delivery
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={handleCancelAutoPay} disabled={updating}>
+                  <Text style={styles.autoPayCancel}>Turn off</Text>
+                </TouchableOpacity>
+              </View>
+              {lastChargeFailed && (
+                <View style={styles.autoPayAlert}>
+                  <Ionicons name="alert-circle" size={18} color={colors.error} />
+                  <Text style={styles.autoPayAlertText}>
+                    {lastCharge.status === "PENDING"
+                      ? `Waiting for your bank to confirm ${formatPrice(Number(lastCharge.amount))} for ${formatDate(lastCharge.deliveryDate)}`
+                      : `Payment of ${formatPrice(Number(lastCharge.amount))} for ${formatDate(lastCharge.deliveryDate)} failed${lastCharge.failureReason ? `: ${lastCharge.failureReason}` : ""}`}
+                  </Text>
+                </View>
+              )}
+            </>
+          ) : (
+            <TouchableOpacity
+              style={[styles.actionBtn, { backgroundColor: colors.primary + "15", marginBottom: 0 }]}
+              onPress={handleSetUpAutoPay}
+              disabled={updating}
+            >
+              <Ionicons name="repeat-outline" size={22} color={colors.primary} />
+              <Text style={[styles.actionBtnText, { color: colors.primary }]}>Set Up UPI / Card Auto-Pay</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
       {/* ── Actions ───────────────────────────────────── */}
       {!isCancelled && (
         <View style={styles.section}>
@@ -503,6 +875,28 @@ export default function SubscriptionDetailScreen() {
       )}
 
       <View style={{ height: spacing.xl }} />
+
+      {/* Mandate authorization */}
+      {mandateSetup && (
+        <RazorpayCheckout
+          visible={mandateVisible}
+          keyId={mandateSetup.key_id}
+          orderId={mandateSetup.razorpay_order_id}
+          amount={mandateSetup.amount}
+          currency={mandateSetup.currency}
+          customerId={mandateSetup.customer_id}
+          recurring
+          name="Martly"
+          description="Subscription Auto-Pay"
+          prefill={{
+            email: user?.email ?? "",
+            contact: user?.phone ?? "",
+            name: user?.name ?? "",
+          }}
+          onSuccess={handleMandateSuccess}
+          onCancel={() => setMandateVisible(false)}
+        />
+      )}
     </ScrollView>
   );
 }
@@ -842,6 +1236,95 @@ const styles = StyleSheet.create({
     fontStyle: "italic",
   },
 
+  // ── Delivery History ──────────────────────────────
+  historyHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: spacing.sm,
+  },
+  historyMonthNav: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.sm,
+  },
+  historyMonthLabel: {
+    fontFamily: fonts.semibold,
+    fontSize: fontSize.md,
+    color: colors.text,
+    minWidth: 72,
+    textAlign: "center",
+  },
+  historyGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  historyWeekday: {
+    width: "14.28%",
+    textAlign: "center",
+    fontFamily: fonts.medium,
+    fontSize: 11,
+    color: colors.textSecondary,
+    marginBottom: 4,
+  },
+  historyCell: {
+    width: "14.28%",
+    aspectRatio: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "transparent",
+  },
+  historyCellSelected: {
+    borderColor: colors.primary,
+  },
+  historyCellText: {
+    fontFamily: fonts.medium,
+    fontSize: fontSize.md,
+    color: colors.text,
+  },
+  historyDot: {
+    width: 5,
+    height: 5,
+    borderRadius: 2.5,
+    marginTop: 2,
+  },
+  historySummary: {
+    fontFamily: fonts.regular,
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginTop: spacing.sm,
+  },
+  historyDetail: {
+    backgroundColor: colors.surface,
+    borderRadius: 10,
+    padding: spacing.sm + 4,
+    marginTop: spacing.sm,
+    gap: 4,
+  },
+  historyDetailRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  historyDetailTitle: {
+    fontFamily: fonts.semibold,
+    fontSize: fontSize.md,
+    color: colors.text,
+  },
+  historyDetailText: {
+    fontFamily: fonts.regular,
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+  },
+  historyDetailLink: {
+    fontFamily: fonts.semibold,
+    fontSize: fontSize.sm,
+    color: colors.primary,
+    marginTop: 2,
+  },
+
   // ── Address ───────────────────────────────────────
   addressCard: {
     flexDirection: "row",
@@ -856,6 +1339,35 @@ const styles = StyleSheet.create({
     lineHeight: 20,
   },
 
+  // ── Auto-Pay ──────────────────────────────────────
+  autoPayHint: {
+    fontFamily: fonts.regular,
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  autoPayCancel: {
+    fontFamily: fonts.semibold,
+    fontSize: fontSize.sm,
+    color: colors.error,
+  },
+  autoPayAlert: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+    padding: spacing.sm,
+    borderRadius: 8,
+    backgroundColor: colors.error + "10",
+  },
+  autoPayAlertText: {
+    flex: 1,
+    fontFamily: fonts.regular,
+    fontSize: fontSize.sm,
+    color: colors.error,
+    lineHeight: 18,
+  },
+
   // ── Actions ───────────────────────────────────────
   actionBtn: {
     flexDirection: "row",
@@ -11,6 +11,7 @@ import {
   Modal,
   Pressable,
   TextInput,
+  Alert,
 } from "react-native";
 import { useRouter, useFocusEffect } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
@@ -24,6 +25,20 @@ import { colors, spacing, fontSize, fonts } from "../constants/theme";
 import { RazorpayCheckout } from "../components/RazorpayCheckout";
 import type { TomorrowsBasket, BasketItem } from "../lib/types";
 
+/** How far ahead the vacation picker reaches */
+const VACATION_PICKER_DAYS = 42;
+
+/** "YYYY-MM-DD" → "Mon, 12 Apr"; dates are calendar days, so read them as UTC */
+function formatDay(date: string, opts: Intl.DateTimeFormatOptions = { weekday: "short", day: "numeric", month: "short" }) {
+  return new Date(date + "T00:00:00Z").toLocaleDateString(undefined, { ...opts, timeZone: "UTC" });
+}
+
+function addDays(date: string, days: number) {
+  const d = new Date(date + "T00:00:00Z");
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
 interface RazorpayData {
   razorpay_order_id: string;
   amount: number;
@@ -56,6 +71,12 @@ export default function TomorrowsBasketScreen() {
   const [razorpayVisible, setRazorpayVisible] = useState(false);
   const [razorpayData, setRazorpayData] = useState<RazorpayData | null>(null);
 
+  // Vacation state
+  const [vacationSheetVisible, setVacationSheetVisible] = useState(false);
+  const [vacationStart, setVacationStart] = useState<string | null>(null);
+  const [vacationEnd, setVacationEnd] = useState<string | null>(null);
+  const [savingVacation, setSavingVacation] = useState(false);
+
   const fetchBasket = useCallback(async () => {
     if (!storeId) {
       setLoading(false);
@@ -240,6 +261,73 @@ export default function TomorrowsBasketScreen() {
     setRazorpayVisible(false);
   };
 
+  // ── Vacation ─────────────────────────────────────────
+  const openVacationSheet = () => {
+    setVacationStart(null);
+    setVacationEnd(null);
+    setVacationSheetVisible(true);
+  };
+
+  // First tap picks the start, second the end; tapping before the start starts over
+  const handleVacationDayPress = (date: string) => {
+    if (!vacationStart || vacationEnd || date < vacationStart) {
+      setVacationStart(date);
+      setVacationEnd(null);
+    } else {
+      setVacationEnd(date);
+    }
+  };
+
+  const handleSaveVacation = async () => {
+    if (!vacationStart) return;
+    setSavingVacation(true);
+    try {
+      const res = await api.post<{ skippedDeliveries: number; addOnsCleared: number }>(
+        "/api/v1/subscriptions/vacations",
+        { startDate: vacationStart, endDate: vacationEnd ?? vacationStart },
+      );
+      setVacationSheetVisible(false);
+      toast.show(
+        `Deliveries paused · ${res.data.skippedDeliveries} skipped${res.data.addOnsCleared ? `, ${res.data.addOnsCleared} add-ons removed` : ""}`,
+        "success",
+      );
+      fetchBasket();
+    } catch (e: any) {
+      toast.show(e.message || "Could not plan vacation", "error");
+    } finally {
+      setSavingVacation(false);
+    }
+  };
+
+  const handleEndVacation = () => {
+    if (!basket?.vacation) return;
+    const vacation = basket.vacation;
+    // Started before tomorrow, i.e. the customer is away now
+    const started = vacation.startDate < basket.deliveryDate;
+    Alert.alert(
+      started ? "End Vacation Early" : "Cancel Vacation",
+      started
+        ? "Deliveries resume from the next delivery day you haven't skipped."
+        : `Your deliveries from ${formatDay(vacation.startDate)} to ${formatDay(vacation.endDate)} will go ahead as usual.`,
+      [
+        { text: "Keep", style: "cancel" },
+        {
+          text: started ? "End Vacation" : "Cancel Vacation",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await api.delete(`/api/v1/subscriptions/vacations/${vacation.id}`);
+              toast.show(started ? "Welcome back! Deliveries resumed" : "Vacation cancelled", "success");
+              fetchBasket();
+            } catch (e: any) {
+              toast.show(e.message || "Could not update vacation", "error");
+            }
+          },
+        },
+      ],
+    );
+  };
+
   if (loading) {
     return (
       <View style={styles.center}>
@@ -307,6 +395,8 @@ export default function TomorrowsBasketScreen() {
   })();
 
   const walletSufficient = basket.walletBalance >= basket.total;
+  const onVacation = !!basket.vacation && basket.vacation.startDate <= basket.deliveryDate;
+  const pickerDays = Array.from({ length: VACATION_PICKER_DAYS }, (_, i) => addDays(basket.deliveryDate, i));
 
   const renderItem = (item: BasketItem, isAddon: boolean) => (
     <View
@@ -433,8 +523,60 @@ export default function TomorrowsBasketScreen() {
             <Text style={styles.dateText}>Delivery on {formattedDate}{deliveryWindow ? ` \u00B7 ${deliveryWindow}` : ""}</Text>
           </View>
           <Text style={styles.dateSubtext}>
-            Items will be ordered automatically at {cutoffHour}
+            {onVacation
+              ? "No delivery — you're on vacation"
+              : `Items will be ordered automatically at ${cutoffHour}`}
           </Text>
+
+          {/* Week ahead */}
+          <View style={styles.weekStrip}>
+            {basket.calendar.map((day) => (
+              <View
+                key={day.date}
+                style={[
+                  styles.weekDay,
+                  day.delivery && !day.vacation && styles.weekDayDelivery,
+                  day.vacation && styles.weekDayVacation,
+                ]}
+              >
+                <Text style={[styles.weekDayLabel, day.vacation && styles.weekDayLabelVacation]}>
+                  {formatDay(day.date, { weekday: "narrow" })}
+                </Text>
+                <Text style={[styles.weekDayDate, day.vacation && styles.weekDayDateVacation]}>
+                  {formatDay(day.date, { day: "numeric" })}
+                </Text>
+                {day.vacation ? (
+                  <Ionicons name="airplane" size={10} color={colors.secondary} style={{ marginTop: 3 }} />
+                ) : day.delivery ? (
+                  <View style={styles.weekDayDot} />
+                ) : (
+                  <View style={styles.weekDayDotEmpty} />
+                )}
+              </View>
+            ))}
+          </View>
+
+          {basket.vacation ? (
+            <View style={styles.vacationBanner}>
+              <Ionicons name="airplane-outline" size={18} color={colors.secondary} />
+              <View style={{ flex: 1 }}>
+                <Text style={styles.vacationTitle}>
+                  {onVacation ? "On vacation" : "Vacation planned"} {"·"} {formatDay(basket.vacation.startDate)} {"–"} {formatDay(basket.vacation.endDate)}
+                </Text>
+                <Text style={styles.vacationSubtitle}>
+                  All subscriptions are paused. Deliveries resume on {formatDay(addDays(basket.vacation.endDate, 1))}.
+                </Text>
+              </View>
+              <TouchableOpacity onPress={handleEndVacation} activeOpacity={0.7}>
+                <Text style={styles.vacationAction}>{onVacation ? "End" : "Cancel"}</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <TouchableOpacity style={styles.vacationLink} onPress={openVacationSheet} activeOpacity={0.7}>
+              <Ionicons name="airplane-outline" size={16} color={colors.primary} />
+              <Text style={styles.vacationLinkText}>Going away? Pause all deliveries</Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Subscription Items */}
@@ -542,6 +684,67 @@ export default function TomorrowsBasketScreen() {
         )}
       </View>
 
+      {/* Vacation Sheet */}
+      <Modal
+        visible={vacationSheetVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setVacationSheetVisible(false)}
+      >
+        <Pressable style={styles.sheetOverlay} onPress={() => setVacationSheetVisible(false)}>
+          <Pressable style={[styles.sheetContent, { paddingBottom: Math.max(insets.bottom, 16) + 8 }]} onPress={() => {}}>
+            <View style={styles.sheetHandle} />
+            <Text style={styles.sheetTitle}>Plan a Vacation</Text>
+            <Text style={styles.sheetSubtitle}>
+              {!vacationStart
+                ? "Tap the day you leave"
+                : !vacationEnd
+                  ? "Now tap the last day you're away"
+                  : `${formatDay(vacationStart)} – ${formatDay(vacationEnd)}`}
+            </Text>
+
+            <View style={styles.vacationGrid}>
+              {pickerDays.map((date) => {
+                const selected = date === vacationStart || date === vacationEnd;
+                const inRange = !!vacationStart && !!vacationEnd && date > vacationStart && date < vacationEnd;
+                return (
+                  <TouchableOpacity
+                    key={date}
+                    style={[styles.vacationGridDay, inRange && styles.vacationGridDayInRange, selected && styles.vacationGridDaySelected]}
+                    onPress={() => handleVacationDayPress(date)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.vacationGridLabel, selected && styles.vacationGridTextSelected]}>
+                      {formatDay(date, { weekday: "narrow" })}
+                    </Text>
+                    <Text style={[styles.vacationGridDate, selected && styles.vacationGridTextSelected]}>
+                      {formatDay(date, { day: "numeric" })}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={styles.vacationSheetHint}>
+              Every subscription is skipped and add-ons for those days are removed. Deliveries resume on their own afterwards.
+            </Text>
+
+            <TouchableOpacity
+              style={[styles.proceedButton, (!vacationStart || savingVacation) && styles.proceedButtonDisabled]}
+              activeOpacity={0.8}
+              onPress={handleSaveVacation}
+              disabled={!vacationStart || savingVacation}
+            >
+              {savingVacation ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.proceedButtonText}>Pause Deliveries</Text>
+              )}
+            </TouchableOpacity>
+          </Pressable>
+        </Pressable>
+      </Modal>
+
       {/* Recharge Amount Sheet */}
       <Modal
         visible={rechargeSheetVisible}
@@ -706,6 +909,126 @@ const styles = StyleSheet.create({
     marginLeft: 28,
   },
 
+  // Week strip & vacation
+  weekStrip: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: spacing.md,
+  },
+  weekDay: {
+    alignItems: "center",
+    width: 38,
+    paddingVertical: 6,
+    borderRadius: 10,
+  },
+  weekDayDelivery: {
+    backgroundColor: colors.primary + "12",
+  },
+  weekDayVacation: {
+    backgroundColor: colors.secondary + "14",
+  },
+  weekDayLabel: {
+    fontSize: 11,
+    fontFamily: fonts.medium,
+    color: colors.textSecondary,
+  },
+  weekDayLabelVacation: {
+    color: colors.secondary,
+  },
+  weekDayDate: {
+    fontSize: fontSize.md,
+    fontFamily: fonts.semibold,
+    color: colors.text,
+    marginTop: 2,
+  },
+  weekDayDateVacation: {
+    color: colors.textSecondary,
+  },
+  weekDayDot: {
+    width: 5,
+    height: 5,
+    borderRadius: 3,
+    backgroundColor: colors.primary,
+    marginTop: 5,
+  },
+  weekDayDotEmpty: {
+    height: 5,
+    marginTop: 5,
+  },
+  vacationBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    marginTop: spacing.md,
+    padding: 12,
+    borderRadius: 10,
+    backgroundColor: colors.secondary + "10",
+  },
+  vacationTitle: {
+    fontSize: fontSize.sm,
+    fontFamily: fonts.semibold,
+    color: colors.text,
+  },
+  vacationSubtitle: {
+    fontSize: 12,
+    fontFamily: fonts.regular,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  vacationAction: {
+    fontSize: fontSize.sm,
+    fontFamily: fonts.semibold,
+    color: colors.error,
+  },
+  vacationLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: spacing.md,
+  },
+  vacationLinkText: {
+    fontSize: fontSize.sm,
+    fontFamily: fonts.medium,
+    color: colors.primary,
+  },
+  vacationGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: spacing.md,
+  },
+  vacationGridDay: {
+    width: `${100 / 7}%`,
+    alignItems: "center",
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  vacationGridDayInRange: {
+    backgroundColor: colors.secondary + "14",
+  },
+  vacationGridDaySelected: {
+    backgroundColor: colors.secondary,
+  },
+  vacationGridLabel: {
+    fontSize: 10,
+    fontFamily: fonts.medium,
+    color: colors.textSecondary,
+  },
+  vacationGridDate: {
+    fontSize: fontSize.md,
+    fontFamily: fonts.semibold,
+    color: colors.text,
+  },
+  vacationGridTextSelected: {
+    color: "#fff",
+  },
+  vacationSheetHint: {
+    fontSize: 12,
+    fontFamily: fonts.regular,
+    color: colors.textSecondary,
+    marginTop: spacing.md,
+    lineHeight: 17,
+  },
+
   // Sections
   section: {
     marginTop: spacing.md,
@@ -7,11 +7,16 @@ import {
   ActivityIndicator,
   TouchableOpacity,
   RefreshControl,
+  Switch,
+  Alert,
 } from "react-native";
 import { useRouter } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import { api } from "../lib/api";
-import { colors, spacing, fontSize } from "../constants/theme";
+import { useAuth } from "../lib/auth-context";
+import { useToast } from "../lib/toast-context";
+import { colors, spacing } from "../constants/theme";
+import { RazorpayCheckout } from "../components/RazorpayCheckout";
 
 interface WalletTransaction {
   id: string;
@@ -28,17 +33,82 @@ interface WalletData {
   transactions: WalletTransaction[];
 }
 
+interface ForecastDay {
+  date: string;
+  spend: number;
+  topup: number;
+  balanceAfter: number;
+  covered: boolean;
+}
+
+interface WalletForecast {
+  balance: number;
+  horizonDays: number;
+  days: ForecastDay[];
+  lastsUntil: string | null;
+  runsOutOn: string | null;
+  shortfall: number;
+  averageDailySpend: number;
+  lowBalanceAlertDays: number | null;
+}
+
+interface AutoTopupRule {
+  id: string;
+  enabled: boolean;
+  threshold: string;
+  topupAmount: string;
+  method: "UPI" | "CARD";
+  mandateStatus: "PENDING" | "ACTIVE" | "CANCELLED";
+  label: string | null;
+  maxAmount: string;
+  lastTopupAt: string | null;
+  lastFailureAt: string | null;
+  lastFailureReason: string | null;
+}
+
+interface CheckoutData {
+  razorpay_order_id: string;
+  amount: number;
+  currency: string;
+  key_id: string;
+  customer_id?: string;
+}
+
+const ALERT_DAY_OPTIONS: (number | null)[] = [null, 1, 2, 3, 7];
+
+/** "Thursday" within the coming week, "12 Apr" after that */
+function formatForecastDay(date: string) {
+  const d = new Date(date + "T00:00:00");
+  const daysAway = (d.getTime() - new Date().setHours(0, 0, 0, 0)) / 86_400_000;
+  return daysAway < 7
+    ? d.toLocaleDateString(undefined, { weekday: "long" })
+    : d.toLocaleDateString(undefined, { day: "numeric", month: "short" });
+}
+
 export default function WalletScreen() {
   const router = useRouter();
+  const { user } = useAuth();
+  const { show } = useToast();
   const [data, setData] = useState<WalletData | null>(null);
+  const [forecast, setForecast] = useState<WalletForecast | null>(null);
+  const [autoTopup, setAutoTopup] = useState<AutoTopupRule | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [updating, setUpdating] = useState(false);
   const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [checkout, setCheckout] = useState<{ kind: "recharge" | "auto-topup"; data: CheckoutData } | null>(null);
+  const [checkoutVisible, setCheckoutVisible] = useState(false);
 
   const fetchWallet = useCallback(async () => {
     try {
-      const res = await api.get<WalletData>("/api/v1/wallet");
-      setData(res.data);
+      const [walletRes, forecastRes, autoTopupRes] = await Promise.all([
+        api.get<WalletData>("/api/v1/wallet"),
+        api.get<WalletForecast>("/api/v1/wallet/forecast").catch(() => null),
+        api.get<AutoTopupRule | null>("/api/v1/wallet/auto-topup").catch(() => null),
+      ]);
+      setData(walletRes.data);
+      setForecast(forecastRes?.data ?? null);
+      setAutoTopup(autoTopupRes?.data ?? null);
     } catch {
       // silently fail
     } finally {
@@ -56,6 +126,125 @@ export default function WalletScreen() {
     fetchWallet();
   };
 
+  // ── Top up ─────────────────────────────────────────────
+  const handleTopUp = async (amount: number) => {
+    setUpdating(true);
+    try {
+      const res = await api.post<CheckoutData>("/api/v1/wallet/recharge", { amount });
+      setCheckout({ kind: "recharge", data: res.data });
+      setCheckoutVisible(true);
+    } catch {
+      show("Could not initiate recharge", "error");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleCheckoutSuccess = async (result: { razorpay_payment_id: string; razorpay_order_id: string; razorpay_signature: string }) => {
+    setCheckoutVisible(false);
+    if (!checkout) return;
+    setUpdating(true);
+    try {
+      if (checkout.kind === "recharge") {
+        await api.post("/api/v1/wallet/recharge/verify", { ...result, amount: checkout.data.amount });
+        show("Wallet recharged successfully!", "success");
+      } else {
+        await api.post("/api/v1/wallet/auto-topup/confirm", result);
+        show("Auto top-up is on", "success");
+      }
+      await fetchWallet();
+    } catch (e: any) {
+      if (checkout.kind === "recharge") show("Payment verification pending");
+      else show(e.message || "Could not confirm auto top-up", "error");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  // ── Low-balance alerts ─────────────────────────────────
+  const handleAlertDays = async (lowBalanceAlertDays: number | null) => {
+    if (!forecast || forecast.lowBalanceAlertDays === lowBalanceAlertDays) return;
+    setForecast({ ...forecast, lowBalanceAlertDays });
+    try {
+      await api.put("/api/v1/wallet/alerts", { lowBalanceAlertDays });
+    } catch {
+      show("Could not update alerts", "error");
+      fetchWallet();
+    }
+  };
+
+  // ── Auto top-up ────────────────────────────────────────
+  // Suggest roughly three days' spend as the floor and a week's spend as the top-up
+  const averageDailySpend = forecast?.averageDailySpend ?? 0;
+  const suggestedThreshold = Math.min(10000, Math.max(100, Math.ceil((averageDailySpend * 3) / 50) * 50));
+  const suggestedTopup = Math.min(15000, Math.max(500, Math.ceil((averageDailySpend * 7) / 100) * 100));
+
+  const startAutoTopup = async (method: AutoTopupRule["method"]) => {
+    setUpdating(true);
+    try {
+      const res = await api.post<CheckoutData>("/api/v1/wallet/auto-topup", {
+        method,
+        threshold: suggestedThreshold,
+        topupAmount: suggestedTopup,
+      });
+      setCheckout({ kind: "auto-topup", data: res.data });
+      setCheckoutVisible(true);
+    } catch (e: any) {
+      show(e.message || "Could not set up auto top-up", "error");
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleSetUpAutoTopup = () => {
+    Alert.alert(
+      "Set Up Auto Top-up",
+      `We'll add \u20B9${suggestedTopup} from your UPI or card whenever your wallet falls below \u20B9${suggestedThreshold}. You can turn it off anytime.`,
+      [
+        { text: "Not Now", style: "cancel" },
+        { text: "Card", onPress: () => startAutoTopup("CARD") },
+        { text: "UPI AutoPay", onPress: () => startAutoTopup("UPI") },
+      ],
+    );
+  };
+
+  const handleToggleAutoTopup = async (enabled: boolean) => {
+    if (!autoTopup) return;
+    setAutoTopup({ ...autoTopup, enabled });
+    try {
+      await api.patch("/api/v1/wallet/auto-topup", { enabled });
+    } catch {
+      show("Could not update auto top-up", "error");
+      fetchWallet();
+    }
+  };
+
+  const handleRemoveAutoTopup = () => {
+    Alert.alert(
+      "Turn Off Auto Top-up",
+      "Your UPI / card mandate will be cancelled. You can set it up again later.",
+      [
+        { text: "Keep", style: "cancel" },
+        {
+          text: "Turn Off",
+          style: "destructive",
+          onPress: async () => {
+            setUpdating(true);
+            try {
+              await api.delete("/api/v1/wallet/auto-topup");
+              await fetchWallet();
+              show("Auto top-up turned off", "success");
+            } catch (e: any) {
+              show(e.message || "Failed to turn off auto top-up", "error");
+            } finally {
+              setUpdating(false);
+            }
+          },
+        },
+      ],
+    );
+  };
+
   if (loading) {
     return (
       <View style={styles.center}>
@@ -149,16 +338,128 @@ export default function WalletScreen() {
     );
   };
 
+  const activeRule = autoTopup?.mandateStatus === "ACTIVE" ? autoTopup : null;
+  const lastFailed = activeRule?.lastFailureAt
+    && (!activeRule.lastTopupAt || activeRule.lastFailureAt > activeRule.lastTopupAt);
+
+  const forecastHeadline = !forecast
+    ? ""
+    : !forecast.runsOutOn
+      ? `Your balance covers the next ${forecast.horizonDays} days`
+      : forecast.lastsUntil
+        ? `Your balance lasts until ${formatForecastDay(forecast.lastsUntil)}`
+        : `Your balance won't cover ${formatForecastDay(forecast.runsOutOn)}'s delivery`;
+
   const ListHeader = () => (
-    <View style={styles.balanceCard}>
-      <View style={styles.balanceIconWrap}>
-        <Ionicons name="wallet" size={28} color="#fff" />
+    <View>
+      <View style={styles.balanceCard}>
+        <View style={styles.balanceIconWrap}>
+          <Ionicons name="wallet" size={28} color="#fff" />
+        </View>
+        <Text style={styles.balanceLabel}>Wallet Balance</Text>
+        <Text style={styles.balanceAmount}>{"\u20B9"}{balance.toFixed(2)}</Text>
+        <Text style={styles.balanceHint}>
+          Use your wallet balance at checkout for instant payments
+        </Text>
+      </View>
+
+      {/* ── Forecast ──────────────────────────────────── */}
+      {forecast && forecast.days.length > 0 && (
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons
+              name={forecast.runsOutOn ? "alert-circle-outline" : "calendar-outline"}
+              size={20}
+              color={forecast.runsOutOn ? "#d97706" : colors.primary}
+            />
+            <Text style={styles.cardTitle}>{forecastHeadline}</Text>
+          </View>
+          <Text style={styles.cardHint}>
+            Subscriptions cost about {"\u20B9"}{Math.round(forecast.averageDailySpend)} a day
+            {forecast.days.some((d) => d.topup > 0) ? ", counting auto top-ups" : ""}
+          </Text>
+          {forecast.runsOutOn && forecast.shortfall > 0 && (
+            <TouchableOpacity
+              style={styles.primaryBtn}
+              onPress={() => handleTopUp(Math.ceil(forecast.shortfall))}
+              disabled={updating}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="add-circle-outline" size={16} color="#fff" />
+              <Text style={styles.primaryBtnText}>
+                Add {"\u20B9"}{Math.ceil(forecast.shortfall)} to cover {formatForecastDay(forecast.runsOutOn)}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          <Text style={styles.cardLabel}>Low-balance alerts</Text>
+          <View style={styles.chipRow}>
+            {ALERT_DAY_OPTIONS.map((days) => {
+              const selected = forecast.lowBalanceAlertDays === days;
+              return (
+                <TouchableOpacity
+                  key={days ?? "off"}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => handleAlertDays(days)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {days === null ? "Off" : `${days} day${days > 1 ? "s" : ""} ahead`}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+
+      {/* ── Auto top-up ───────────────────────────────── */}
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Ionicons name="repeat-outline" size={20} color={colors.primary} />
+          <Text style={styles.cardTitle}>Auto Top-up</Text>
+          {activeRule && (
+            <Switch
+              value={activeRule.enabled}
+              onValueChange={handleToggleAutoTopup}
+              trackColor={{ true: colors.primary }}
+            />
+          )}
+        </View>
+        {activeRule ? (
+          <>
+            <Text style={styles.cardHint}>
+              Add {"\u20B9"}{Number(activeRule.topupAmount)} when your balance falls below {"\u20B9"}{Number(activeRule.threshold)}
+              {activeRule.label ? ` \u00B7 ${activeRule.label}` : ""}
+            </Text>
+            {lastFailed && (
+              <View style={styles.failureAlert}>
+                <Ionicons name="alert-circle" size={14} color="#dc2626" />
+                <Text style={styles.failureAlertText}>
+                  Last top-up failed{activeRule.lastFailureReason ? `: ${activeRule.lastFailureReason}` : ""}
+                </Text>
+              </View>
+            )}
+            <TouchableOpacity onPress={handleRemoveAutoTopup} disabled={updating}>
+              <Text style={styles.removeText}>Turn off and cancel mandate</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <Text style={styles.cardHint}>
+              Never miss a delivery — we'll top up your wallet from UPI or card when it runs low.
+            </Text>
+            <TouchableOpacity
+              style={styles.outlineBtn}
+              onPress={handleSetUpAutoTopup}
+              disabled={updating}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.outlineBtnText}>Set Up Auto Top-up</Text>
+            </TouchableOpacity>
+          </>
+        )}
       </View>
-      <Text style={styles.balanceLabel}>Wallet Balance</Text>
-      <Text style={styles.balanceAmount}>{"\u20B9"}{balance.toFixed(2)}</Text>
-      <Text style={styles.balanceHint}>
-        Use your wallet balance at checkout for instant payments
-      </Text>
     </View>
   );
 
@@ -175,24 +476,47 @@ export default function WalletScreen() {
   );
 
   return (
-    <FlatList
-      style={styles.container}
-      contentContainerStyle={styles.content}
-      data={transactions}
-      keyExtractor={(item) => item.id}
-      renderItem={renderTransaction}
-      ListHeaderComponent={ListHeader}
-      ListEmptyComponent={ListEmpty}
-      refreshControl={
-        <RefreshControl
-          refreshing={refreshing}
-          onRefresh={handleRefresh}
-          tintColor={colors.primary}
+    <>
+      <FlatList
+        style={styles.container}
+        contentContainerStyle={styles.content}
+        data={transactions}
+        keyExtractor={(item) => item.id}
+        renderItem={renderTransaction}
+        ListHeaderComponent={ListHeader}
+        ListEmptyComponent={ListEmpty}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor={colors.primary}
+          />
+        }
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+        showsVerticalScrollIndicator={false}
+      />
+
+      {checkout && (
+        <RazorpayCheckout
+          visible={checkoutVisible}
+          keyId={checkout.data.key_id}
+          orderId={checkout.data.razorpay_order_id}
+          amount={checkout.data.amount}
+          currency={checkout.data.currency}
+          customerId={checkout.data.customer_id}
+          recurring={checkout.kind === "auto-topup"}
+          name="Martly"
+          description={checkout.kind === "recharge" ? "Wallet Recharge" : "Wallet Auto Top-up"}
+          prefill={{
+            email: user?.email ?? "",
+            contact: user?.phone ?? "",
+            name: user?.name ?? "",
+          }}
+          onSuccess={handleCheckoutSuccess}
+          onCancel={() => setCheckoutVisible(false)}
         />
-      }
-      ItemSeparatorComponent={() => <View style={styles.separator} />}
-      showsVerticalScrollIndicator={false}
-    />
+      )}
+    </>
   );
 }
 
@@ -256,6 +580,115 @@ const styles = StyleSheet.create({
     textAlign: "center",
   },
 
+  // Forecast & auto top-up
+  card: {
+    backgroundColor: "#fff",
+    marginHorizontal: spacing.md,
+    marginBottom: spacing.md,
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: "#f1f5f9",
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "700",
+    color: colors.text,
+  },
+  cardHint: {
+    fontSize: 13,
+    color: "#64748b",
+    marginTop: 6,
+    lineHeight: 18,
+  },
+  cardLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#94a3b8",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginTop: 16,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+  },
+  chipSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary + "10",
+  },
+  chipText: {
+    fontSize: 12,
+    color: "#64748b",
+  },
+  chipTextSelected: {
+    color: colors.primary,
+    fontWeight: "600",
+  },
+  primaryBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: colors.primary,
+  },
+  primaryBtnText: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#fff",
+  },
+  outlineBtn: {
+    alignItems: "center",
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  outlineBtnText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: colors.primary,
+  },
+  failureAlert: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 10,
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: "#fef2f2",
+  },
+  failureAlertText: {
+    flex: 1,
+    fontSize: 12,
+    color: "#dc2626",
+  },
+  removeText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#ef4444",
+    marginTop: 12,
+  },
+
   // Transactions
   txRow: {
     flexDirection: "row",
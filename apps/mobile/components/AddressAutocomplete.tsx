@@ -19,6 +19,7 @@ interface AddressResult {
   latitude: number;
   longitude: number;
   pincode?: string;
+  stateCode?: string | null;
   placeName?: string;
 }
 
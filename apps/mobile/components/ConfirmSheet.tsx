@@ -1,4 +1,4 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, type ReactNode } from "react";
 import {
   View,
   Text,
@@ -26,6 +26,8 @@ interface ConfirmSheetProps {
   loading?: boolean;
   onConfirm: () => void;
   onCancel: () => void;
+  /** Extra content rendered between the message and the buttons */
+  children?: ReactNode;
 }
 
 export function ConfirmSheet({
@@ -40,6 +42,7 @@ export function ConfirmSheet({
   loading = false,
   onConfirm,
   onCancel,
+  children,
 }: ConfirmSheetProps) {
   const backdropOpacity = useRef(new Animated.Value(0)).current;
   const sheetTranslateY = useRef(new Animated.Value(SCREEN_HEIGHT)).current;
@@ -98,6 +101,8 @@ export function ConfirmSheet({
         <Text style={styles.title}>{title}</Text>
         <Text style={styles.message}>{message}</Text>
 
+        {children}
+
         <View style={styles.buttonRow}>
           <TouchableOpacity
             style={styles.cancelBtn}
@@ -36,6 +36,7 @@ const TYPE_CONFIG: Record<
   GENERAL: { icon: "information-circle", bg: "#f1f5f9", color: "#475569" },
   WELCOME: { icon: "sparkles", bg: "#e0f2fe", color: "#0284c7" },
   REVIEW_REQUEST: { icon: "chatbubble-ellipses", bg: "#fff7ed", color: "#d97706" },
+  SLOT_AVAILABLE: { icon: "calendar", bg: "#ecfccb", color: "#65a30d" },
 };
 
 const DEFAULT_CONFIG = {
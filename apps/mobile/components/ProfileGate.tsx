@@ -35,6 +35,7 @@ export function ProfileGate({ visible, onComplete, onDismiss }: ProfileGateProps
   const [latitude, setLatitude] = useState<number | null>(null);
   const [longitude, setLongitude] = useState<number | null>(null);
   const [pincode, setPincode] = useState<string | null>(null);
+  const [stateCode, setStateCode] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState("");
 
@@ -47,6 +48,7 @@ export function ProfileGate({ visible, onComplete, onDismiss }: ProfileGateProps
       setLatitude(null);
       setLongitude(null);
       setPincode(null);
+      setStateCode(null);
       setSaving(false);
       setError("");
     }
@@ -67,6 +69,7 @@ export function ProfileGate({ visible, onComplete, onDismiss }: ProfileGateProps
         address: address.trim(),
         ...(latitude != null && longitude != null ? { latitude, longitude } : {}),
         ...(pincode ? { pincode } : {}),
+        ...(stateCode ? { stateCode } : {}),
       };
       await api.post("/api/v1/addresses", payload);
       onComplete();
@@ -144,6 +147,7 @@ export function ProfileGate({ visible, onComplete, onDismiss }: ProfileGateProps
                 setLatitude(result.latitude || null);
                 setLongitude(result.longitude || null);
                 setPincode(result.pincode ?? null);
+                setStateCode(result.stateCode ?? null);
                 if (result.placeName) setPlaceName(result.placeName);
                 setError("");
               }}
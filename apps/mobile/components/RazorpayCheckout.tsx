@@ -14,6 +14,8 @@ export interface RazorpayCheckoutProps {
   name?: string;
   description?: string;
   customerId?: string;
+  /** Authorize a UPI AutoPay / card mandate instead of a one-off payment (needs customerId) */
+  recurring?: boolean;
   prefill?: { email?: string; contact?: string; name?: string };
   onSuccess: (data: { razorpay_payment_id: string; razorpay_order_id: string; razorpay_signature: string }) => void;
   onCancel: () => void;
@@ -32,7 +34,7 @@ if (!isExpoGo) {
 }
 
 // ── Native SDK (production / dev client) ──────────────────
-function NativeCheckout({ visible, keyId, orderId, amount, currency, name = "Martly", description = "Order Payment", customerId, prefill, onSuccess, onCancel }: RazorpayCheckoutProps) {
+function NativeCheckout({ visible, keyId, orderId, amount, currency, name = "Martly", description = "Order Payment", customerId, recurring, prefill, onSuccess, onCancel }: RazorpayCheckoutProps) {
   const openedRef = useRef(false);
 
   useEffect(() => {
@@ -47,6 +49,7 @@ function NativeCheckout({ visible, keyId, orderId, amount, currency, name = "Mar
       description,
       order_id: orderId,
       ...(customerId ? { customer_id: customerId } : {}),
+      ...(recurring ? { recurring: "1" } : {}),
       remember_customer: true,
       prefill: {
         email: prefill?.email ?? "",
@@ -74,7 +77,7 @@ function NativeCheckout({ visible, keyId, orderId, amount, currency, name = "Mar
 }
 
 // ── WebView fallback (Expo Go / native SDK unavailable) ───
-function WebViewCheckout({ visible, keyId, orderId, amount, currency, name = "Martly", description = "Order Payment", customerId, prefill, onSuccess, onCancel }: RazorpayCheckoutProps) {
+function WebViewCheckout({ visible, keyId, orderId, amount, currency, name = "Martly", description = "Order Payment", customerId, recurring, prefill, onSuccess, onCancel }: RazorpayCheckoutProps) {
   const html = `
 <!DOCTYPE html>
 <html>
@@ -100,6 +103,7 @@ function WebViewCheckout({ visible, keyId, orderId, amount, currency, name = "Ma
       description: ${JSON.stringify(description)},
       order_id: ${JSON.stringify(orderId)},
       ${customerId ? `customer_id: ${JSON.stringify(customerId)},` : ""}
+      ${recurring ? `recurring: "1",` : ""}
       remember_customer: true,
       prefill: ${JSON.stringify(prefill ?? {})},
       theme: { color: "#0d9488" },
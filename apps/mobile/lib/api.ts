@@ -15,6 +15,12 @@ export function setTokenRefresher(fn: (() => Promise<string | null>) | null) {
   tokenRefresher = fn;
 }
 
+/** Thrown for non-2xx responses; `data` carries any payload the error response included */
+export interface ApiError extends Error {
+  status: number;
+  data?: unknown;
+}
+
 async function request<T>(path: string, options: RequestInit = {}, isRetry = false): Promise<T> {
   const headers: Record<string, string> = {
     ...((options.headers as Record<string, string>) ?? {}),
@@ -47,7 +53,10 @@ async function request<T>(path: string, options: RequestInit = {}, isRetry = fal
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ message: "Request failed" }));
-    throw new Error(error.message ?? `HTTP ${response.status}`);
+    throw Object.assign(new Error(error.message ?? `HTTP ${response.status}`), {
+      status: response.status,
+      data: error.data,
+    }) as ApiError;
   }
 
   return response.json() as Promise<T>;
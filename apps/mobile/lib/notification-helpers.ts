@@ -61,6 +61,8 @@ export function resolveNotificationDeepLink(
         return "/smart-reorder" as Href;
       case "subscriptions":
         return "/subscriptions" as Href;
+      case "subscription":
+        return (data.subscriptionId ? `/subscription/${data.subscriptionId}` : "/subscriptions") as Href;
       case "tomorrows-basket":
         return "/tomorrows-basket" as Href;
     }
@@ -85,6 +85,7 @@ export interface UserAddress {
   latitude?: number | null;
   longitude?: number | null;
   pincode?: string | null;
+  stateCode?: string | null;
   isDefault: boolean;
   createdAt: string;
   updatedAt: string;
@@ -257,6 +258,16 @@ export interface DeliveryZoneInfo {
 
 export type FulfillmentType = "DELIVERY" | "PICKUP";
 
+/** From the store calendar — weekly hours, holidays and special hours */
+export interface StoreOpenStatus {
+  isOpen: boolean;
+  closesAt: string | null;
+  nextOpen: { date: string; time: string } | null;
+  note: string | null;
+  /** e.g. "Store closed, opens at 7 AM" */
+  message: string | null;
+}
+
 export interface DeliveryLookupResult {
   serviceable: boolean;
   distance?: number;
@@ -431,4 +442,21 @@ export interface TomorrowsBasket {
   total: number;
   walletBalance: number;
   hasActiveSubscriptions: boolean;
+  /** Current or next planned vacation */
+  vacation: CustomerVacation | null;
+  /** The week from tomorrow */
+  calendar: BasketCalendarDay[];
+}
+
+export interface CustomerVacation {
+  id: string;
+  startDate: string;
+  endDate: string;
+  note: string | null;
+}
+
+export interface BasketCalendarDay {
+  date: string;
+  delivery: boolean;
+  vacation: boolean;
 }
@@ -7,11 +7,13 @@ import {
   ActivityIndicator,
   RefreshControl,
   StyleSheet,
+  Alert,
 } from "react-native";
 import { useFocusEffect, useRouter } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { api } from "../../lib/api";
+import { useAuth } from "../../lib/auth-context";
 import { colors, spacing, fontSize, borderRadius, fonts } from "../../constants/theme";
 
 interface TripOrder {
@@ -42,6 +44,17 @@ interface Trip {
   orders: TripOrder[];
 }
 
+interface Shift {
+  id: string;
+  startedAt: string;
+  store: { id: string; name: string };
+}
+
+interface MyCash {
+  total: number;
+  stores: { store: { id: string; name: string }; cashInHand: number; orders: number; limit: number | null; overLimit: boolean }[];
+}
+
 interface TripStats {
   total: number;
   active: number;
@@ -87,12 +100,22 @@ export default function DeliveriesScreen() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [period, setPeriod] = useState<Period>("today");
+  const [shift, setShift] = useState<Shift | null>(null);
+  const [shiftBusy, setShiftBusy] = useState(false);
+  const [cash, setCash] = useState<MyCash | null>(null);
+  const { user } = useAuth();
 
   const fetchTrips = useCallback(async (p: Period) => {
     try {
       const query = p === "history" ? "?period=history" : "";
-      const res = await api.get<Trip[]>(`/api/v1/rider-location/my-trips${query}`);
-      setTrips(res.data ?? []);
+      const [tripsRes, shiftRes, cashRes] = await Promise.all([
+        api.get<Trip[]>(`/api/v1/rider-location/my-trips${query}`),
+        api.get<Shift | null>("/api/v1/rider-shifts/current"),
+        api.get<MyCash>("/api/v1/cod/my-cash"),
+      ]);
+      setTrips(tripsRes.data ?? []);
+      setShift(shiftRes.data ?? null);
+      setCash(cashRes.data ?? null);
     } catch {
       // silently fail
     } finally {
@@ -120,7 +143,53 @@ export default function DeliveriesScreen() {
     fetchTrips(p);
   }, [period, fetchTrips]);
 
+  const clockIn = useCallback(async (storeId?: string) => {
+    setShiftBusy(true);
+    try {
+      const res = await api.post<Shift>("/api/v1/rider-shifts/clock-in", storeId ? { storeId } : {});
+      setShift(res.data);
+    } catch (err) {
+      Alert.alert("Error", err instanceof Error ? err.message : "Failed to clock in");
+    } finally {
+      setShiftBusy(false);
+    }
+  }, []);
+
+  const onClockIn = useCallback(() => {
+    const stores = user?.stores ?? [];
+    if (stores.length > 1) {
+      Alert.alert("Clock in", "Which store are you working at?", [
+        ...stores.map((s) => ({ text: s.name, onPress: () => clockIn(s.id) })),
+        { text: "Cancel", style: "cancel" as const },
+      ]);
+    } else {
+      clockIn();
+    }
+  }, [user, clockIn]);
+
+  const onClockOut = useCallback(() => {
+    Alert.alert("Clock out?", "You won't be given new trips until you clock in again.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Clock Out",
+        style: "destructive",
+        onPress: async () => {
+          setShiftBusy(true);
+          try {
+            await api.post("/api/v1/rider-shifts/clock-out", {});
+            setShift(null);
+          } catch (err) {
+            Alert.alert("Error", err instanceof Error ? err.message : "Failed to clock out");
+          } finally {
+            setShiftBusy(false);
+          }
+        },
+      },
+    ]);
+  }, []);
+
   const stats = computeStats(trips);
+  const cashOverLimit = cash?.stores.filter((c) => c.overLimit) ?? [];
 
   const renderTrip = useCallback(({ item }: { item: Trip }) => {
     const statusStyle = getStatusStyle(item.status);
@@ -237,6 +306,53 @@ export default function DeliveriesScreen() {
         </Pressable>
       </View>
 
+      {/* Shift */}
+      <View style={[styles.shiftCard, shift && styles.shiftCardOnline]}>
+        <View style={styles.shiftInfo}>
+          <View style={[styles.shiftDot, shift && styles.shiftDotOnline]} />
+          <View>
+            <Text style={styles.shiftTitle}>{shift ? "Online" : "Offline"}</Text>
+            <Text style={styles.shiftSubtitle} numberOfLines={1}>
+              {shift
+                ? `${shift.store.name} · since ${new Date(shift.startedAt).toLocaleTimeString("en-IN", { hour: "numeric", minute: "2-digit" })}`
+                : "Clock in to get trips"}
+            </Text>
+          </View>
+        </View>
+        <Pressable
+          style={[styles.shiftButton, shift && styles.shiftButtonOut]}
+          onPress={shift ? onClockOut : onClockIn}
+          disabled={shiftBusy}
+        >
+          {shiftBusy ? (
+            <ActivityIndicator size="small" color={shift ? colors.error : "#fff"} />
+          ) : (
+            <Text style={[styles.shiftButtonText, shift && styles.shiftButtonTextOut]}>
+              {shift ? "Clock Out" : "Clock In"}
+            </Text>
+          )}
+        </Pressable>
+      </View>
+
+      {/* Cash in hand */}
+      {cash && cash.total > 0 && (
+        <View style={[styles.cashCard, cashOverLimit.length > 0 && styles.cashCardOver]}>
+          <Ionicons
+            name={cashOverLimit.length > 0 ? "warning-outline" : "cash-outline"}
+            size={20}
+            color={cashOverLimit.length > 0 ? colors.error : colors.textSecondary}
+          />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.cashTitle}>{"\u20B9"}{cash.total.toLocaleString("en-IN")} cash in hand</Text>
+            <Text style={styles.cashSubtitle}>
+              {cashOverLimit.length > 0
+                ? `Over the limit at ${cashOverLimit.map((c) => c.store.name).join(", ")} — hand it over before taking COD orders`
+                : "Hand over at the store counter"}
+            </Text>
+          </View>
+        </View>
+      )}
+
       {/* Period Tabs */}
       <View style={styles.periodTabs}>
         <Pressable
@@ -348,6 +464,101 @@ const styles = StyleSheet.create({
     alignItems: "center",
   },
 
+  // Shift
+  shiftCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.sm,
+    padding: spacing.md,
+    borderRadius: borderRadius.lg,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  shiftCardOnline: {
+    backgroundColor: "#f0fdf4",
+    borderColor: "#bbf7d0",
+  },
+  shiftInfo: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.sm,
+    marginRight: spacing.sm,
+  },
+  shiftDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: "#cbd5e1",
+  },
+  shiftDotOnline: {
+    backgroundColor: colors.success,
+  },
+  shiftTitle: {
+    fontSize: fontSize.body,
+    fontFamily: fonts.semibold,
+    color: colors.text,
+  },
+  shiftSubtitle: {
+    fontSize: fontSize.caption,
+    fontFamily: fonts.regular,
+    color: colors.textSecondary,
+    marginTop: 1,
+  },
+  shiftButton: {
+    minWidth: 96,
+    alignItems: "center",
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.primary,
+  },
+  shiftButtonOut: {
+    backgroundColor: "#fff",
+    borderWidth: 1,
+    borderColor: colors.error,
+  },
+  shiftButtonText: {
+    fontSize: fontSize.sm,
+    fontFamily: fonts.semibold,
+    color: "#fff",
+  },
+  shiftButtonTextOut: {
+    color: colors.error,
+  },
+
+  // Cash in hand
+  cashCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.sm,
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.sm,
+    padding: spacing.md,
+    borderRadius: borderRadius.lg,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  cashCardOver: {
+    backgroundColor: "#fef2f2",
+    borderColor: "#fecaca",
+  },
+  cashTitle: {
+    fontSize: fontSize.body,
+    fontFamily: fonts.semibold,
+    color: colors.text,
+  },
+  cashSubtitle: {
+    fontSize: fontSize.caption,
+    fontFamily: fonts.regular,
+    color: colors.textSecondary,
+    marginTop: 1,
+  },
+
   // Period tabs
   periodTabs: {
     flexDirection: "row",
@@ -1,12 +1,62 @@
-import { View, Text, Pressable, StyleSheet, Alert } from "react-native";
+import { useState, useCallback } from "react";
+import { View, Text, Pressable, StyleSheet, Alert, ScrollView } from "react-native";
+import { useFocusEffect } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { api } from "../../lib/api";
 import { useAuth } from "../../lib/auth-context";
 import { colors, spacing, fontSize, borderRadius, fonts } from "../../constants/theme";
 
+interface EarningsStatement {
+  trips: {
+    id: string;
+    completedAt: string | null;
+    distanceKm: number;
+    drops: number;
+    baseAmount: number;
+    distanceAmount: number;
+    dropAmount: number;
+    totalAmount: number;
+    paid: boolean;
+  }[];
+  payouts: { id: string; amount: number; reference: string | null; createdAt: string }[];
+  totals: {
+    onlineMinutes: number;
+    trips: number;
+    earned: number;
+    unpaidBalance: number;
+  };
+}
+
+const RECENT_TRIPS = 5;
+
+function formatRupees(amount: number) {
+  return `\u20B9${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDay(iso: string) {
+  return new Date(iso).toLocaleDateString("en-IN", { day: "numeric", month: "short" });
+}
+
 export default function ProfileScreen() {
   const insets = useSafeAreaInsets();
   const { user, logout } = useAuth();
+  const [online, setOnline] = useState(false);
+  const [statement, setStatement] = useState<EarningsStatement | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      Promise.all([
+        api.get<{ id: string } | null>("/api/v1/rider-shifts/current"),
+        api.get<EarningsStatement>("/api/v1/rider-shifts/earnings"),
+      ])
+        .then(([shiftRes, earningsRes]) => {
+          setOnline(!!shiftRes.data);
+          setStatement(earningsRes.data);
+        })
+        .catch(() => {});
+    }, [])
+  );
 
   function handleLogout() {
     Alert.alert("Logout", "Are you sure you want to sign out?", [
@@ -23,7 +73,10 @@ export default function ProfileScreen() {
     .slice(0, 2);
 
   return (
-    <View style={[styles.container, { paddingTop: insets.top }]}>
+    <ScrollView
+      style={[styles.container, { paddingTop: insets.top }]}
+      contentContainerStyle={styles.scrollContent}
+    >
       {/* Header */}
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Profile</Text>
@@ -35,7 +88,7 @@ export default function ProfileScreen() {
           <View style={styles.avatar}>
             <Text style={styles.avatarText}>{initials}</Text>
           </View>
-          <View style={styles.onlineDot} />
+          <View style={[styles.onlineDot, !online && styles.offlineDot]} />
         </View>
         <Text style={styles.userName}>{user?.name ?? "Rider"}</Text>
         {user?.phone && (
@@ -50,6 +103,67 @@ export default function ProfileScreen() {
         </View>
       </View>
 
+      {/* Earnings — last 7 days */}
+      {statement && (
+        <View style={styles.section}>
+          <View style={styles.earningsHeader}>
+            <Text style={styles.sectionTitle}>Earnings</Text>
+            <Text style={styles.sectionHint}>Last 7 days</Text>
+          </View>
+          <View style={styles.earningsStats}>
+            <View style={styles.earningsStat}>
+              <Text style={styles.earningsValue}>{formatRupees(statement.totals.earned)}</Text>
+              <Text style={styles.infoLabel}>Earned</Text>
+            </View>
+            <View style={styles.earningsStat}>
+              <Text style={styles.earningsValue}>{statement.totals.trips}</Text>
+              <Text style={styles.infoLabel}>Trips</Text>
+            </View>
+            <View style={styles.earningsStat}>
+              <Text style={styles.earningsValue}>
+                {(statement.totals.onlineMinutes / 60).toFixed(1)}h
+              </Text>
+              <Text style={styles.infoLabel}>Online</Text>
+            </View>
+          </View>
+          <View style={styles.unpaidRow}>
+            <Ionicons name="wallet-outline" size={16} color={colors.primary} />
+            <Text style={styles.unpaidText}>
+              Due to you: <Text style={styles.unpaidAmount}>{formatRupees(statement.totals.unpaidBalance)}</Text>
+            </Text>
+          </View>
+
+          {statement.trips.slice(0, RECENT_TRIPS).map((trip) => (
+            <View key={trip.id} style={styles.earningRow}>
+              <View style={styles.infoContent}>
+                <Text style={styles.earningTitle}>
+                  {trip.completedAt ? formatDay(trip.completedAt) : "Trip"} · {trip.drops} drop{trip.drops === 1 ? "" : "s"} · {trip.distanceKm.toFixed(1)} km
+                </Text>
+                <Text style={styles.earningBreakdown}>
+                  Base {formatRupees(trip.baseAmount)} + Distance {formatRupees(trip.distanceAmount)} + Drops {formatRupees(trip.dropAmount)}
+                </Text>
+              </View>
+              <View style={styles.earningRight}>
+                <Text style={styles.earningTotal}>{formatRupees(trip.totalAmount)}</Text>
+                <Text style={[styles.earningStatus, trip.paid && styles.earningStatusPaid]}>
+                  {trip.paid ? "Paid" : "Unpaid"}
+                </Text>
+              </View>
+            </View>
+          ))}
+
+          {statement.payouts.map((payout) => (
+            <View key={payout.id} style={styles.earningRow}>
+              <View style={styles.infoContent}>
+                <Text style={styles.earningTitle}>Payout · {formatDay(payout.createdAt)}</Text>
+                {payout.reference && <Text style={styles.earningBreakdown}>Ref {payout.reference}</Text>}
+              </View>
+              <Text style={[styles.earningTotal, { color: colors.successDark }]}>{formatRupees(payout.amount)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
       {/* Info Items */}
       <View style={styles.section}>
         <View style={styles.infoRow}>
@@ -107,7 +221,7 @@ export default function ProfileScreen() {
 
       {/* App Version */}
       <Text style={styles.version}>Martly Rider v1.0.0</Text>
-    </View>
+    </ScrollView>
   );
 }
 
@@ -116,6 +230,9 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: colors.background,
   },
+  scrollContent: {
+    paddingBottom: spacing.xl,
+  },
 
   // Header
   header: {
@@ -171,6 +288,9 @@ const styles = StyleSheet.create({
     borderWidth: 3,
     borderColor: colors.surface,
   },
+  offlineDot: {
+    backgroundColor: "#cbd5e1",
+  },
   userName: {
     fontSize: fontSize.title,
     fontFamily: fonts.bold,
@@ -217,6 +337,92 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 2,
   },
+  sectionTitle: {
+    fontSize: fontSize.subtitle,
+    fontFamily: fonts.bold,
+    color: colors.text,
+  },
+  sectionHint: {
+    fontSize: fontSize.caption,
+    fontFamily: fonts.medium,
+    color: colors.textSecondary,
+  },
+
+  // Earnings
+  earningsHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: spacing.sm,
+  },
+  earningsStats: {
+    flexDirection: "row",
+    marginBottom: spacing.sm,
+  },
+  earningsStat: {
+    flex: 1,
+    alignItems: "center",
+  },
+  earningsValue: {
+    fontSize: fontSize.subtitle,
+    fontFamily: fonts.bold,
+    color: colors.text,
+  },
+  unpaidRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "#fff7ed",
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    marginBottom: spacing.xs,
+  },
+  unpaidText: {
+    fontSize: fontSize.sm,
+    fontFamily: fonts.medium,
+    color: colors.text,
+  },
+  unpaidAmount: {
+    fontFamily: fonts.bold,
+    color: colors.primaryDark,
+  },
+  earningRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  earningTitle: {
+    fontSize: fontSize.sm,
+    fontFamily: fonts.semibold,
+    color: colors.text,
+  },
+  earningBreakdown: {
+    fontSize: fontSize.caption,
+    fontFamily: fonts.regular,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  earningRight: {
+    alignItems: "flex-end",
+    marginLeft: spacing.sm,
+  },
+  earningTotal: {
+    fontSize: fontSize.body,
+    fontFamily: fonts.bold,
+    color: colors.text,
+  },
+  earningStatus: {
+    fontSize: fontSize.caption,
+    fontFamily: fonts.medium,
+    color: colors.warning,
+    marginTop: 2,
+  },
+  earningStatusPaid: {
+    color: colors.successDark,
+  },
+
   infoRow: {
     flexDirection: "row",
     alignItems: "center",
@@ -13,12 +13,14 @@ import {
   KeyboardAvoidingView,
   Platform,
   Linking,
+  Image,
 } from "react-native";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import MapView, { Marker, PROVIDER_GOOGLE } from "react-native-maps";
 import * as Location from "expo-location";
+import * as ImagePicker from "expo-image-picker";
 import { api, getAccessToken, getApiUrl } from "../../lib/api";
 import { colors, spacing, fontSize, borderRadius, fonts } from "../../constants/theme";
 
@@ -34,6 +36,9 @@ interface TripOrder {
   deliveryLng: number | null;
   deliveryPincode: string | null;
   createdAt: string;
+  /** Customer must read out their 4-digit code before handoff */
+  otpRequired: boolean;
+  proofPhotoUrl: string | null;
   user: {
     id: string;
     name: string;
@@ -66,6 +71,29 @@ interface Trip {
 
 type GpsStatus = "off" | "acquiring" | "broadcasting" | "error";
 
+async function uploadImage(uri: string): Promise<string> {
+  const filename = uri.split("/").pop() || "photo.jpg";
+  const ext = filename.split(".").pop()?.toLowerCase() || "jpg";
+  const mimeType = ext === "png" ? "image/png" : "image/jpeg";
+
+  const formData = new FormData();
+  formData.append("file", {
+    uri,
+    name: filename,
+    type: mimeType,
+  } as unknown as Blob);
+
+  const res = await fetch(`${getApiUrl()}/api/v1/uploads`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${getAccessToken()}` },
+    body: formData,
+  });
+
+  if (!res.ok) throw new Error("Failed to upload photo");
+  const json = await res.json();
+  return json.data.url;
+}
+
 const formatUnit = (unitType: string, unitValue: number, variantName: string): string => {
   const val = Number(unitValue);
   const unitMap: Record<string, string> = {
@@ -113,13 +141,17 @@ export default function TripScreen() {
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [gpsStatus, setGpsStatus] = useState<GpsStatus>("off");
-  const [codModal, setCodModal] = useState<{
+  const [deliverSheet, setDeliverSheet] = useState<{
     orderId: string;
     customerName: string;
     amount: number;
+    isCod: boolean;
+    otpRequired: boolean;
   } | null>(null);
   const [codCollected, setCodCollected] = useState("");
   const [codNote, setCodNote] = useState("");
+  const [otp, setOtp] = useState("");
+  const [photoUri, setPhotoUri] = useState<string | null>(null);
 
   const wsRef = useRef<WebSocket | null>(null);
   const locationSubRef = useRef<Location.LocationSubscription | null>(null);
@@ -310,56 +342,68 @@ export default function TripScreen() {
     }
   }, [tripId, fetchTrip]);
 
-  // Confirm delivery — shared by COD modal and prepaid alert
-  const confirmDelivery = useCallback(
-    async (orderId: string, codData?: { collectedAmount: number; note: string }) => {
-      setCodModal(null);
-      setActionLoading(orderId);
-      try {
-        const body = codData ? { collectedAmount: codData.collectedAmount, codNote: codData.note || undefined } : undefined;
-        const res = await api.patch<{ allDelivered: boolean }>(
-          `/api/v1/rider-location/trips/${tripId}/deliver/${orderId}`,
-          body
+  // Confirm delivery from the sheet — COD amount, OTP and photo as applicable
+  const confirmDelivery = useCallback(async () => {
+    if (!deliverSheet) return;
+    const { orderId, isCod } = deliverSheet;
+    setActionLoading(orderId);
+    try {
+      const photoUrl = photoUri ? await uploadImage(photoUri) : undefined;
+      const body = {
+        ...(isCod ? { collectedAmount: Number(codCollected), codNote: codNote || undefined } : {}),
+        otp: deliverSheet.otpRequired ? otp : undefined,
+        photoUrl,
+      };
+      const res = await api.patch<{ allDelivered: boolean }>(
+        `/api/v1/rider-location/trips/${tripId}/deliver/${orderId}`,
+        body
+      );
+      setDeliverSheet(null);
+      if (res.data.allDelivered) {
+        stopGpsBroadcasting();
+        Alert.alert(
+          "Trip Complete!",
+          "All orders have been delivered.",
+          [{ text: "Done", onPress: () => router.back() }]
         );
-        if (res.data.allDelivered) {
-          stopGpsBroadcasting();
-          Alert.alert(
-            "Trip Complete!",
-            "All orders have been delivered.",
-            [{ text: "Done", onPress: () => router.back() }]
-          );
-        } else {
-          await fetchTrip();
-        }
-      } catch (err) {
-        Alert.alert("Error", err instanceof Error ? err.message : "Failed to mark delivered");
-      } finally {
-        setActionLoading(null);
+      } else {
+        await fetchTrip();
       }
-    },
-    [tripId, fetchTrip, stopGpsBroadcasting, router]
-  );
+    } catch (err) {
+      // Sheet stays open so the rider can re-enter the code
+      Alert.alert("Error", err instanceof Error ? err.message : "Failed to mark delivered");
+    } finally {
+      setActionLoading(null);
+    }
+  }, [deliverSheet, photoUri, codCollected, codNote, otp, tripId, fetchTrip, stopGpsBroadcasting, router]);
 
-  // Mark order delivered — COD opens modal, prepaid uses simple alert
-  const handleDeliverOrder = useCallback(
-    (orderId: string, customerName: string, isCod: boolean, amount: number) => {
-      if (isCod) {
-        setCodCollected(String(Math.round(amount)));
-        setCodNote("");
-        setCodModal({ orderId, customerName, amount });
-        return;
-      }
-      Alert.alert(
-        "Confirm Delivery",
-        `Mark ${customerName}'s order as delivered?`,
-        [
-          { text: "Cancel", style: "cancel" },
-          { text: "Delivered", onPress: () => confirmDelivery(orderId) },
-        ]
-      );
-    },
-    [confirmDelivery]
-  );
+  const handleTakePhoto = useCallback(async () => {
+    const { status } = await ImagePicker.requestCameraPermissionsAsync();
+    if (status !== "granted") {
+      Alert.alert("Camera needed", "Allow camera access to attach a delivery photo.");
+      return;
+    }
+    const result = await ImagePicker.launchCameraAsync({ mediaTypes: ["images"], quality: 0.6 });
+    if (!result.canceled && result.assets.length > 0) {
+      setPhotoUri(result.assets[0].uri);
+    }
+  }, []);
+
+  // Mark order delivered — opens the delivery sheet
+  const handleDeliverOrder = useCallback((order: TripOrder) => {
+    const isCod = order.paymentMethod === "COD";
+    setCodCollected(isCod ? String(Math.round(Number(order.totalAmount))) : "");
+    setCodNote("");
+    setOtp("");
+    setPhotoUri(null);
+    setDeliverSheet({
+      orderId: order.id,
+      customerName: order.user.name,
+      amount: Number(order.totalAmount),
+      isCod,
+      otpRequired: order.otpRequired,
+    });
+  }, []);
 
   const renderOrder = useCallback(
     ({ item, index }: { item: TripOrder; index: number }) => {
@@ -435,7 +479,7 @@ export default function TripScreen() {
           {!isDelivered && trip?.status === "IN_PROGRESS" && (
             <Pressable
               style={[styles.deliverButton, isCod && styles.deliverButtonCod]}
-              onPress={() => handleDeliverOrder(item.id, item.user.name, isCod, Number(item.totalAmount))}
+              onPress={() => handleDeliverOrder(item)}
               disabled={actionLoading === item.id}
             >
               {actionLoading === item.id ? (
@@ -446,6 +490,7 @@ export default function TripScreen() {
                   <Text style={styles.deliverButtonText}>
                     {isCod ? "Collect & Deliver" : "Mark Delivered"}
                   </Text>
+                  {item.otpRequired && <Ionicons name="keypad" size={14} color="#fff" />}
                 </>
               )}
             </Pressable>
@@ -455,6 +500,7 @@ export default function TripScreen() {
             <View style={styles.deliveredBanner}>
               <Ionicons name="checkmark-circle" size={16} color={colors.successDark} />
               <Text style={styles.deliveredText}>Delivered</Text>
+              {item.proofPhotoUrl && <Ionicons name="camera" size={14} color={colors.successDark} />}
             </View>
           )}
         </View>
@@ -679,82 +725,133 @@ export default function TripScreen() {
         </View>
       )}
 
-      {/* COD Collection Modal */}
-      <Modal visible={!!codModal} transparent animationType="slide" onRequestClose={() => setCodModal(null)}>
+      {/* Delivery Sheet — COD collection, OTP and photo proof */}
+      <Modal visible={!!deliverSheet} transparent animationType="slide" onRequestClose={() => setDeliverSheet(null)}>
         <KeyboardAvoidingView style={styles.modalOverlay} behavior={Platform.OS === "ios" ? "padding" : undefined}>
-          <Pressable style={styles.modalBackdrop} onPress={() => setCodModal(null)} />
+          <Pressable style={styles.modalBackdrop} onPress={() => setDeliverSheet(null)} />
           <View style={[styles.modalSheet, { paddingBottom: Math.max(insets.bottom, spacing.lg) }]}>
             {/* Handle bar */}
             <View style={styles.modalHandle} />
 
-            <Text style={styles.modalTitle}>Collect Cash</Text>
+            <Text style={styles.modalTitle}>{deliverSheet?.isCod ? "Collect Cash" : "Confirm Delivery"}</Text>
             <Text style={styles.modalSubtitle}>
-              Order for {codModal?.customerName}
+              Order for {deliverSheet?.customerName}
             </Text>
 
-            {/* Order amount */}
-            <View style={styles.codAmountRow}>
-              <Text style={styles.codAmountLabel}>Order Total</Text>
-              <Text style={styles.codAmountValue}>
-                {"\u20B9"}{codModal ? Math.round(codModal.amount).toLocaleString("en-IN") : "0"}
-              </Text>
-            </View>
+            {deliverSheet?.isCod && (
+              <>
+                {/* Order amount */}
+                <View style={styles.codAmountRow}>
+                  <Text style={styles.codAmountLabel}>Order Total</Text>
+                  <Text style={styles.codAmountValue}>
+                    {"\u20B9"}{Math.round(deliverSheet.amount).toLocaleString("en-IN")}
+                  </Text>
+                </View>
 
-            {/* Collected amount input */}
+                {/* Collected amount input */}
+                <View style={styles.codInputGroup}>
+                  <Text style={styles.codInputLabel}>Amount Collected ({"\u20B9"})</Text>
+                  <TextInput
+                    style={styles.codInput}
+                    value={codCollected}
+                    onChangeText={setCodCollected}
+                    keyboardType="numeric"
+                    placeholder="Enter amount collected"
+                    placeholderTextColor={colors.textSecondary}
+                    selectTextOnFocus
+                  />
+                  {codCollected && Number(codCollected) !== Math.round(deliverSheet.amount) && (
+                    <Text style={styles.codMismatch}>
+                      {Number(codCollected) < Math.round(deliverSheet.amount)
+                        ? `Short by \u20B9${Math.round(deliverSheet.amount - Number(codCollected)).toLocaleString("en-IN")}`
+                        : `Excess \u20B9${Math.round(Number(codCollected) - deliverSheet.amount).toLocaleString("en-IN")}`}
+                    </Text>
+                  )}
+                </View>
+              </>
+            )}
+
+            {/* Delivery OTP */}
+            {deliverSheet?.otpRequired && (
+              <View style={styles.codInputGroup}>
+                <Text style={styles.codInputLabel}>Delivery Code</Text>
+                <TextInput
+                  style={[styles.codInput, styles.otpInput]}
+                  value={otp}
+                  onChangeText={(v) => setOtp(v.replace(/\D/g, "").slice(0, 4))}
+                  keyboardType="number-pad"
+                  placeholder="0000"
+                  placeholderTextColor={colors.textSecondary}
+                  maxLength={4}
+                />
+                <Text style={styles.otpHint}>Ask the customer for the 4-digit code shown in their app</Text>
+              </View>
+            )}
+
+            {/* Photo proof */}
             <View style={styles.codInputGroup}>
-              <Text style={styles.codInputLabel}>Amount Collected ({"\u20B9"})</Text>
-              <TextInput
-                style={styles.codInput}
-                value={codCollected}
-                onChangeText={setCodCollected}
-                keyboardType="numeric"
-                placeholder="Enter amount collected"
-                placeholderTextColor={colors.textSecondary}
-                selectTextOnFocus
-              />
-              {codCollected && Number(codCollected) !== Math.round(codModal?.amount ?? 0) && (
-                <Text style={styles.codMismatch}>
-                  {Number(codCollected) < Math.round(codModal?.amount ?? 0)
-                    ? `Short by \u20B9${Math.round((codModal?.amount ?? 0) - Number(codCollected)).toLocaleString("en-IN")}`
-                    : `Excess \u20B9${Math.round(Number(codCollected) - (codModal?.amount ?? 0)).toLocaleString("en-IN")}`}
-                </Text>
+              <Text style={styles.codInputLabel}>Photo (optional)</Text>
+              {photoUri ? (
+                <View style={styles.photoRow}>
+                  <Image source={{ uri: photoUri }} style={styles.photoPreview} />
+                  <Pressable onPress={handleTakePhoto} hitSlop={8}>
+                    <Text style={styles.photoAction}>Retake</Text>
+                  </Pressable>
+                  <Pressable onPress={() => setPhotoUri(null)} hitSlop={8}>
+                    <Text style={[styles.photoAction, { color: colors.error }]}>Remove</Text>
+                  </Pressable>
+                </View>
+              ) : (
+                <Pressable style={styles.photoButton} onPress={handleTakePhoto}>
+                  <Ionicons name="camera-outline" size={18} color={colors.textSecondary} />
+                  <Text style={styles.photoButtonText}>Take photo of handoff</Text>
+                </Pressable>
               )}
             </View>
 
             {/* Note input */}
-            <View style={styles.codInputGroup}>
-              <Text style={styles.codInputLabel}>Note (optional)</Text>
-              <TextInput
-                style={[styles.codInput, styles.codNoteInput]}
-                value={codNote}
-                onChangeText={setCodNote}
-                placeholder="e.g. Customer paid exact change"
-                placeholderTextColor={colors.textSecondary}
-                multiline
-              />
-            </View>
+            {deliverSheet?.isCod && (
+              <View style={styles.codInputGroup}>
+                <Text style={styles.codInputLabel}>Note (optional)</Text>
+                <TextInput
+                  style={[styles.codInput, styles.codNoteInput]}
+                  value={codNote}
+                  onChangeText={setCodNote}
+                  placeholder="e.g. Customer paid exact change"
+                  placeholderTextColor={colors.textSecondary}
+                  multiline
+                />
+              </View>
+            )}
 
             {/* Actions */}
-            <View style={styles.codActions}>
-              <Pressable style={styles.codCancelBtn} onPress={() => setCodModal(null)}>
-                <Text style={styles.codCancelText}>Cancel</Text>
-              </Pressable>
-              <Pressable
-                style={[styles.codConfirmBtn, !codCollected && styles.buttonDisabled]}
-                disabled={!codCollected}
-                onPress={() => {
-                  if (codModal) {
-                    confirmDelivery(codModal.orderId, {
-                      collectedAmount: Number(codCollected),
-                      note: codNote,
-                    });
-                  }
-                }}
-              >
-                <Ionicons name="checkmark-circle" size={18} color="#fff" />
-                <Text style={styles.codConfirmText}>Confirm Delivery</Text>
-              </Pressable>
-            </View>
+            {(() => {
+              const canConfirm =
+                (!deliverSheet?.isCod || !!codCollected) &&
+                (!deliverSheet?.otpRequired || otp.length === 4) &&
+                actionLoading !== deliverSheet?.orderId;
+              return (
+                <View style={styles.codActions}>
+                  <Pressable style={styles.codCancelBtn} onPress={() => setDeliverSheet(null)}>
+                    <Text style={styles.codCancelText}>Cancel</Text>
+                  </Pressable>
+                  <Pressable
+                    style={[styles.codConfirmBtn, !canConfirm && styles.buttonDisabled]}
+                    disabled={!canConfirm}
+                    onPress={confirmDelivery}
+                  >
+                    {actionLoading === deliverSheet?.orderId ? (
+                      <ActivityIndicator color="#fff" size="small" />
+                    ) : (
+                      <>
+                        <Ionicons name="checkmark-circle" size={18} color="#fff" />
+                        <Text style={styles.codConfirmText}>Confirm Delivery</Text>
+                      </>
+                    )}
+                  </Pressable>
+                </View>
+              );
+            })()}
           </View>
         </KeyboardAvoidingView>
       </Modal>
@@ -1244,7 +1341,7 @@ const styles = StyleSheet.create({
     opacity: 0.6,
   },
 
-  // COD Collection Modal
+  // Delivery Sheet
   modalOverlay: {
     flex: 1,
     justifyContent: "flex-end",
@@ -1323,6 +1420,50 @@ const styles = StyleSheet.create({
     minHeight: 60,
     textAlignVertical: "top",
   },
+  otpInput: {
+    fontSize: fontSize.title,
+    fontFamily: fonts.bold,
+    letterSpacing: 12,
+    textAlign: "center",
+  },
+  otpHint: {
+    fontSize: fontSize.caption,
+    fontFamily: fonts.regular,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  photoButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: spacing.sm,
+    borderWidth: 1,
+    borderStyle: "dashed",
+    borderColor: colors.border,
+    borderRadius: borderRadius.md,
+    paddingVertical: 12,
+  },
+  photoButtonText: {
+    fontSize: fontSize.sm,
+    fontFamily: fonts.medium,
+    color: colors.textSecondary,
+  },
+  photoRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.md,
+  },
+  photoPreview: {
+    width: 64,
+    height: 64,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.border,
+  },
+  photoAction: {
+    fontSize: fontSize.sm,
+    fontFamily: fonts.semibold,
+    color: colors.primary,
+  },
   codMismatch: {
     fontSize: fontSize.caption,
     fontFamily: fonts.medium,
@@ -9,6 +9,7 @@ interface UserInfo {
   name: string;
   phone: string | null;
   role: string;
+  stores?: { id: string; name: string }[];
 }
 
 interface AuthState {
@@ -32,6 +32,7 @@ export const PaymentStatus = {
   PAID: "PAID",
   FAILED: "FAILED",
   REFUNDED: "REFUNDED",
+  PARTIALLY_REFUNDED: "PARTIALLY_REFUNDED",
 } as const;
 export type PaymentStatus = (typeof PaymentStatus)[keyof typeof PaymentStatus];
 
@@ -195,6 +196,22 @@ export const TripStatusLabels: Record<TripStatus, string> = {
   CANCELLED: "Cancelled",
 };
 
+export const CodHandoverStatus = {
+  BALANCED: "BALANCED",
+  SHORT: "SHORT",
+  EXCESS: "EXCESS",
+} as const;
+export type CodHandoverStatus = (typeof CodHandoverStatus)[keyof typeof CodHandoverStatus];
+
+export const CodHandoverStatusLabels: Record<CodHandoverStatus, string> = {
+  BALANCED: "Balanced",
+  SHORT: "Short",
+  EXCESS: "Excess",
+};
+
+/** Indian rupee notes counted at a COD handover, largest first */
+export const CASH_NOTE_DENOMINATIONS = [500, 200, 100, 50, 20, 10] as const;
+
 export const BannerPlacement = {
   HERO_CAROUSEL: "HERO_CAROUSEL",
   CATEGORY_STRIP: "CATEGORY_STRIP",
@@ -260,6 +277,7 @@ export const NotificationType = {
   GENERAL: "GENERAL",
   WELCOME: "WELCOME",
   REVIEW_REQUEST: "REVIEW_REQUEST",
+  SLOT_AVAILABLE: "SLOT_AVAILABLE",
 } as const;
 export type NotificationType = (typeof NotificationType)[keyof typeof NotificationType];
 
@@ -278,6 +296,7 @@ export const NotificationTypeLabels: Record<NotificationType, string> = {
   GENERAL: "General",
   WELCOME: "Welcome",
   REVIEW_REQUEST: "Review Request",
+  SLOT_AVAILABLE: "Slot Available",
 };
 
 export const CampaignStatus = {
@@ -366,6 +385,130 @@ export const ReturnRequestStatusLabels: Record<ReturnRequestStatus, string> = {
   REJECTED: "Rejected",
 };
 
+export const RefundDestination = {
+  WALLET: "WALLET",
+  SOURCE: "SOURCE",
+} as const;
+export type RefundDestination = (typeof RefundDestination)[keyof typeof RefundDestination];
+
+export const RefundDestinationLabels: Record<RefundDestination, string> = {
+  WALLET: "Martly Wallet",
+  SOURCE: "Original Payment Method",
+};
+
+export const RefundStatus = {
+  INITIATED: "INITIATED",
+  PROCESSED: "PROCESSED",
+  FAILED: "FAILED",
+} as const;
+export type RefundStatus = (typeof RefundStatus)[keyof typeof RefundStatus];
+
+export const RefundStatusLabels: Record<RefundStatus, string> = {
+  INITIATED: "Initiated",
+  PROCESSED: "Processed",
+  FAILED: "Failed",
+};
+
+export const StockMovementType = {
+  RECEIPT: "RECEIPT",
+  SALE: "SALE",
+  RETURN: "RETURN",
+  ADJUSTMENT: "ADJUSTMENT",
+  DAMAGE: "DAMAGE",
+  EXPIRY: "EXPIRY",
+  TRANSFER: "TRANSFER",
+  RESERVATION: "RESERVATION",
+  RELEASE: "RELEASE",
+} as const;
+export type StockMovementType = (typeof StockMovementType)[keyof typeof StockMovementType];
+
+export const StockMovementTypeLabels: Record<StockMovementType, string> = {
+  RECEIPT: "Goods Received",
+  SALE: "Sale",
+  RETURN: "Customer Return",
+  ADJUSTMENT: "Adjustment",
+  DAMAGE: "Damaged",
+  EXPIRY: "Expired",
+  TRANSFER: "Transfer",
+  RESERVATION: "Reserved",
+  RELEASE: "Reservation Released",
+};
+
+// Movement types staff can record by hand; the rest are written by order flows
+export const MANUAL_STOCK_MOVEMENT_TYPES = ["RECEIPT", "RETURN", "ADJUSTMENT", "DAMAGE", "EXPIRY"] as const;
+
+export const PurchaseOrderStatus = {
+  DRAFT: "DRAFT",
+  SENT: "SENT",
+  PARTIALLY_RECEIVED: "PARTIALLY_RECEIVED",
+  RECEIVED: "RECEIVED",
+  CANCELLED: "CANCELLED",
+} as const;
+export type PurchaseOrderStatus = (typeof PurchaseOrderStatus)[keyof typeof PurchaseOrderStatus];
+
+export const PurchaseOrderStatusLabels: Record<PurchaseOrderStatus, string> = {
+  DRAFT: "Draft",
+  SENT: "Sent",
+  PARTIALLY_RECEIVED: "Partially Received",
+  RECEIVED: "Received",
+  CANCELLED: "Cancelled",
+};
+
+export const StockTransferStatus = {
+  REQUESTED: "REQUESTED",
+  DISPATCHED: "DISPATCHED",
+  RECEIVED: "RECEIVED",
+  CANCELLED: "CANCELLED",
+} as const;
+export type StockTransferStatus = (typeof StockTransferStatus)[keyof typeof StockTransferStatus];
+
+export const StockTransferStatusLabels: Record<StockTransferStatus, string> = {
+  REQUESTED: "Requested",
+  DISPATCHED: "Dispatched",
+  RECEIVED: "Received",
+  CANCELLED: "Cancelled",
+};
+
+/** GST state codes (first two digits of a GSTIN) */
+export const GST_STATES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+};
+
 export const MembershipDuration = {
   MONTHLY: "MONTHLY",
   QUARTERLY: "QUARTERLY",
@@ -446,6 +589,17 @@ export const SubscriptionDeliveryModeLabels: Record<SubscriptionDeliveryMode, st
   SLOT_BASED: "Regular Slots",
 };
 
+export const MandateMethod = {
+  UPI: "UPI",
+  CARD: "CARD",
+} as const;
+export type MandateMethod = (typeof MandateMethod)[keyof typeof MandateMethod];
+
+export const MandateMethodLabels: Record<MandateMethod, string> = {
+  UPI: "UPI AutoPay",
+  CARD: "Card",
+};
+
 export const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"] as const;
 
 export const Difficulty = {
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { UserRole, StoreStatus, OrderStatus, PaymentStatus, UnitType, FoodType, ProductType, StorageType, DiscountType, ReviewStatus, BannerPlacement, BannerActionType, MembershipDuration, SubscriptionFrequency, SubscriptionDeliveryMode, Difficulty, SUPPORTED_LANGUAGES } from "../constants/index.js";
+import { UserRole, StoreStatus, OrderStatus, PaymentStatus, UnitType, FoodType, ProductType, StorageType, DiscountType, ReviewStatus, BannerPlacement, BannerActionType, MembershipDuration, RefundDestination, MANUAL_STOCK_MOVEMENT_TYPES, SubscriptionFrequency, SubscriptionDeliveryMode, MandateMethod, Difficulty, SUPPORTED_LANGUAGES, CASH_NOTE_DENOMINATIONS } from "../constants/index.js";
 
 // ── Translations ─────────────────────────────────────
 const languageCodes = Object.keys(SUPPORTED_LANGUAGES) as [string, ...string[]];
@@ -81,10 +81,16 @@ export type CreateOrganizationInput = z.infer<typeof createOrganizationSchema>;
 export const updateOrganizationSchema = z.object({
   name: z.string().min(1).optional(),
   slug: z.string().min(1).regex(/^[a-z0-9-]+$/).optional(),
+  paymentTimeoutMinutes: z.number().int().min(5).max(1440).optional(),
+  nearExpiryDays: z.number().int().min(0).max(30).optional(),
+  nearExpiryDiscountPercent: z.number().int().min(1).max(90).nullish(),
 });
 export type UpdateOrganizationInput = z.infer<typeof updateOrganizationSchema>;
 
 // ── Store ─────────────────────────────────────────────
+const gstStateCode = z.string().regex(/^\d{2}$/, "Must be a 2-digit GST state code");
+const gstin = z.string().regex(/^\d{2}[A-Z0-9]{13}$/, "Invalid GSTIN");
+
 export const storeSchema = z.object({
   id: z.string().uuid(),
   organizationId: z.string().uuid(),
@@ -110,6 +116,12 @@ export const createStoreSchema = z.object({
   minOrderAmount: z.number().min(0).optional(),
   freeDeliveryThreshold: z.number().min(0).optional(),
   baseDeliveryFee: z.number().min(0).optional(),
+  stateCode: gstStateCode.optional(),
+  gstin: gstin.optional(),
+  invoicePrefix: z.string().regex(/^[A-Z0-9/-]{1,8}$/).optional(),
+  deliveryOtpMinAmount: z.number().min(0).optional(),
+  deliveryOtpOnlinePaid: z.boolean().optional(),
+  riderCashLimit: z.number().min(0).optional(),
 });
 export type CreateStoreInput = z.infer<typeof createStoreSchema>;
 
@@ -298,6 +310,12 @@ export const updateStoreProductSchema = z.object({
   discountStart: z.coerce.date().nullish(),
   discountEnd: z.coerce.date().nullish(),
   memberPrice: z.number().positive().nullish(),
+  // Recorded on the stock ledger when `stock` changes
+  stockReason: z.enum(MANUAL_STOCK_MOVEMENT_TYPES).default("ADJUSTMENT"),
+  stockNote: z.string().max(500).optional(),
+  // Batch details when stock is increased with reason RECEIPT
+  stockLotNumber: z.string().max(100).optional(),
+  stockExpiryDate: z.coerce.date().optional(),
 });
 export type UpdateStoreProductInput = z.infer<typeof updateStoreProductSchema>;
 
@@ -309,6 +327,7 @@ export const createUserAddressSchema = z.object({
   latitude: z.number().min(-90).max(90).optional(),
   longitude: z.number().min(-180).max(180).optional(),
   pincode: z.string().optional(),
+  stateCode: gstStateCode.optional(),
   isDefault: z.boolean().optional(),
 });
 export type CreateUserAddressInput = z.infer<typeof createUserAddressSchema>;
@@ -320,6 +339,7 @@ export const updateUserAddressSchema = z.object({
   latitude: z.number().min(-90).max(90).nullish(),
   longitude: z.number().min(-180).max(180).nullish(),
   pincode: z.string().nullish(),
+  stateCode: gstStateCode.nullish(),
   isDefault: z.boolean().optional(),
 });
 export type UpdateUserAddressInput = z.infer<typeof updateUserAddressSchema>;
@@ -332,12 +352,36 @@ export const updateProfileSchema = z.object({
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
 
 // ── Payment Verification ─────────────────────────────
-export const verifyPaymentSchema = z.object({
+const providerPaymentFields = z.object({
+  provider: z.string().optional(),
+  provider_order_id: z.string(),
+  provider_payment_id: z.string(),
+  signature: z.string(),
+});
+// Field names returned by Razorpay checkout — still accepted from existing app versions
+const razorpayPaymentFields = z.object({
   razorpay_order_id: z.string(),
   razorpay_payment_id: z.string(),
   razorpay_signature: z.string(),
 });
-export type VerifyPaymentInput = z.infer<typeof verifyPaymentSchema>;
+export const verifyPaymentSchema = z
+  .union([providerPaymentFields, razorpayPaymentFields])
+  .transform((body) =>
+    "provider_order_id" in body
+      ? {
+          provider: body.provider,
+          providerOrderId: body.provider_order_id,
+          providerPaymentId: body.provider_payment_id,
+          signature: body.signature,
+        }
+      : {
+          provider: "razorpay",
+          providerOrderId: body.razorpay_order_id,
+          providerPaymentId: body.razorpay_payment_id,
+          signature: body.razorpay_signature,
+        },
+  );
+export type VerifyPaymentInput = z.input<typeof verifyPaymentSchema>;
 
 // ── Order ─────────────────────────────────────────────
 export const orderItemSchema = z.object({
@@ -413,6 +457,12 @@ export const updateStoreSchema = z.object({
   subscriptionWindowStart: z.string().regex(/^\d{2}:\d{2}$/).nullish(),
   subscriptionWindowEnd: z.string().regex(/^\d{2}:\d{2}$/).nullish(),
   subscriptionCutoffTime: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+  stateCode: gstStateCode.nullish(),
+  gstin: gstin.nullish(),
+  invoicePrefix: z.string().regex(/^[A-Z0-9/-]{1,8}$/).nullish(),
+  deliveryOtpMinAmount: z.number().min(0).nullish(),
+  deliveryOtpOnlinePaid: z.boolean().optional(),
+  riderCashLimit: z.number().min(0).nullish(),
 });
 export type UpdateStoreInput = z.infer<typeof updateStoreSchema>;
 
@@ -469,9 +519,17 @@ export type UpdateProductInput = z.infer<typeof updateProductSchema>;
 
 export const updateOrderStatusSchema = z.object({
   status: z.nativeEnum(OrderStatus),
+  refundDestination: z.nativeEnum(RefundDestination).optional(),
+  /** Code the customer shows at the counter, required to hand over a pickup order */
+  pickupCode: z.string().regex(/^\d{4}$/, "Enter the 4-digit code").optional(),
 });
 export type UpdateOrderStatusInput = z.infer<typeof updateOrderStatusSchema>;
 
+export const cancelOrderSchema = z.object({
+  refundDestination: z.nativeEnum(RefundDestination).default("WALLET"),
+});
+export type CancelOrderInput = z.infer<typeof cancelOrderSchema>;
+
 export const updatePaymentStatusSchema = z.object({
   paymentStatus: z.enum(["PENDING", "PAID", "FAILED"]),
   note: z.string().max(500).optional(),
@@ -484,6 +542,36 @@ export const bulkUpdateOrderStatusSchema = z.object({
 });
 export type BulkUpdateOrderStatusInput = z.infer<typeof bulkUpdateOrderStatusSchema>;
 
+export const pickupCheckInSchema = z.object({
+  parkingNote: z.string().max(200).optional(),
+});
+export type PickupCheckInInput = z.infer<typeof pickupCheckInSchema>;
+
+export const editOrderItemsSchema = z.object({
+  add: z.array(z.object({
+    storeProductId: z.string().uuid(),
+    quantity: z.number().int().positive(),
+  })).default([]),
+  remove: z.array(z.string().uuid()).default([]),
+  update: z.array(z.object({
+    orderItemId: z.string().uuid(),
+    quantity: z.number().int().positive(),
+  })).default([]),
+  substitute: z.array(z.object({
+    orderItemId: z.string().uuid(),
+    storeProductId: z.string().uuid(),
+    /** Defaults to the substituted line's quantity */
+    quantity: z.number().int().positive().optional(),
+  })).default([]),
+  note: z.string().max(500).optional(),
+  /** Where a lower total on a paid order is refunded */
+  refundDestination: z.nativeEnum(RefundDestination).default("WALLET"),
+}).refine(
+  (data) => data.add.length + data.remove.length + data.update.length + data.substitute.length > 0,
+  { message: "No changes given" },
+);
+export type EditOrderItemsInput = z.infer<typeof editOrderItemsSchema>;
+
 // ── Collection ──────────────────────────────────────
 export const createCollectionSchema = z.object({
   title: z.string().min(1),
@@ -594,12 +682,31 @@ export const toggleWishlistSchema = z.object({
 export type ToggleWishlistInput = z.infer<typeof toggleWishlistSchema>;
 
 // ── Delivery Zone ───────────────────────────────────
+/** GeoJSON Polygon: an outer ring plus optional holes, each a closed ring of [lng, lat] positions */
+export const geoJsonPolygonSchema = z.object({
+  type: z.literal("Polygon"),
+  coordinates: z
+    .array(
+      z
+        .array(z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]))
+        .min(4)
+        .refine(
+          (ring) => ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1],
+          "Polygon rings must be closed (first and last positions equal)",
+        ),
+    )
+    .min(1),
+});
+export type GeoJsonPolygonInput = z.infer<typeof geoJsonPolygonSchema>;
+
 export const createDeliveryZoneSchema = z.object({
   name: z.string().min(1),
   pincodes: z.array(z.string()).default([]),
   deliveryFee: z.number().min(0),
   estimatedMinutes: z.number().int().positive().default(60),
   isActive: z.boolean().default(true),
+  polygon: geoJsonPolygonSchema.nullable().optional(),
+  priority: z.number().int().default(0),
   organizationId: z.string().uuid(),
   storeIds: z.array(z.string().uuid()).optional(),
 });
@@ -611,6 +718,8 @@ export const updateDeliveryZoneSchema = z.object({
   deliveryFee: z.number().min(0).optional(),
   estimatedMinutes: z.number().int().positive().optional(),
   isActive: z.boolean().optional(),
+  polygon: geoJsonPolygonSchema.nullable().optional(),
+  priority: z.number().int().optional(),
   storeIds: z.array(z.string().uuid()).optional(),
 });
 export type UpdateDeliveryZoneInput = z.infer<typeof updateDeliveryZoneSchema>;
@@ -680,6 +789,18 @@ export const createDeliverySlotSchema = z.object({
 });
 export type CreateDeliverySlotInput = z.infer<typeof createDeliverySlotSchema>;
 
+/** Capacity for one slot on one date (festivals, holidays); null goes back to maxOrders */
+export const slotCapacityOverrideSchema = z.object({
+  capacity: z.number().int().min(0).nullable(),
+  note: z.string().max(200).nullish(),
+});
+export type SlotCapacityOverrideInput = z.infer<typeof slotCapacityOverrideSchema>;
+
+export const slotWaitlistSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+});
+export type SlotWaitlistInput = z.infer<typeof slotWaitlistSchema>;
+
 // ── Express Delivery Config ────────────────────────
 export const upsertExpressDeliveryConfigSchema = z.object({
   isEnabled: z.boolean().default(true),
@@ -696,14 +817,51 @@ export const upsertExpressDeliveryConfigSchema = z.object({
 );
 export type UpsertExpressDeliveryConfigInput = z.infer<typeof upsertExpressDeliveryConfigSchema>;
 
+// ── Store Calendar ─────────────────────────────────
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/);
+
+export const storeWeeklyHoursSchema = z.object({
+  /** Days left out are closed; an empty list means open around the clock */
+  days: z.array(z.object({
+    dayOfWeek: z.number().int().min(0).max(6),
+    openTime: clockTime,
+    closeTime: clockTime,
+  }).refine((d) => d.openTime < d.closeTime, { message: "closeTime must be after openTime", path: ["closeTime"] }))
+    .max(7)
+    .refine((days) => new Set(days.map((d) => d.dayOfWeek)).size === days.length, { message: "Each day can only appear once" }),
+});
+export type StoreWeeklyHoursInput = z.infer<typeof storeWeeklyHoursSchema>;
+
+export const storeHoursOverrideSchema = z.object({
+  isClosed: z.boolean(),
+  openTime: clockTime.nullish(),
+  closeTime: clockTime.nullish(),
+  note: z.string().max(200).nullish(),
+}).refine(
+  (data) => data.isClosed || (data.openTime != null && data.closeTime != null && data.openTime < data.closeTime),
+  { message: "Special hours need an openTime before the closeTime", path: ["openTime"] },
+);
+export type StoreHoursOverrideInput = z.infer<typeof storeHoursOverrideSchema>;
+
 // ── Delivery Trip ──────────────────────────────────
 export const createDeliveryTripSchema = z.object({
   storeId: z.string().uuid(),
   riderId: z.string().uuid(),
   orderIds: z.array(z.string().uuid()).min(1).max(30),
+  /** Compute stop order from delivery locations instead of using orderIds order */
+  optimizeSequence: z.boolean().default(false),
 });
 export type CreateDeliveryTripInput = z.infer<typeof createDeliveryTripSchema>;
 
+export const autoPlanTripsSchema = z.object({
+  storeId: z.string().uuid(),
+  /** Plan only these orders; defaults to every unassigned READY delivery order */
+  orderIds: z.array(z.string().uuid()).max(200).optional(),
+  maxStops: z.number().int().min(1).max(30).default(8),
+  maxDistanceKm: z.number().positive().max(100).default(15),
+});
+export type AutoPlanTripsInput = z.infer<typeof autoPlanTripsSchema>;
+
 // ── Rider ─────────────────────────────────────────
 export const createRiderSchema = z.object({
   storeId: z.string().uuid(),
@@ -722,6 +880,48 @@ export const updateRiderSchema = z.object({
 });
 export type UpdateRiderInput = z.infer<typeof updateRiderSchema>;
 
+export const riderClockInSchema = z.object({
+  /** Required when the rider is assigned to more than one store */
+  storeId: z.string().uuid().optional(),
+});
+export type RiderClockInInput = z.infer<typeof riderClockInSchema>;
+
+export const riderEarningsRuleSchema = z.object({
+  baseFee: z.number().min(0).max(10000),
+  perKm: z.number().min(0).max(1000),
+  perDrop: z.number().min(0).max(1000),
+});
+export type RiderEarningsRuleInput = z.infer<typeof riderEarningsRuleSchema>;
+
+export const createRiderPayoutSchema = z.object({
+  /** Settle unpaid earnings from trips completed up to this date (YYYY-MM-DD, IST); defaults to everything unpaid */
+  upTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  reference: z.string().max(100).optional(),
+  note: z.string().max(500).optional(),
+});
+export type CreateRiderPayoutInput = z.infer<typeof createRiderPayoutSchema>;
+
+export const deliverOrderSchema = z.object({
+  collectedAmount: z.number().min(0).optional(),
+  codNote: z.string().max(500).optional(),
+  otp: z.string().regex(/^\d{4}$/, "Enter the 4-digit code").optional(),
+  photoUrl: z.string().url().optional(),
+});
+export type DeliverOrderInput = z.infer<typeof deliverOrderSchema>;
+
+export const codHandoverSchema = z.object({
+  riderId: z.string().uuid(),
+  /** Note counts keyed by face value, e.g. { "500": 3, "100": 2 } */
+  denominations: z.record(
+    z.enum(CASH_NOTE_DENOMINATIONS.map(String) as [string, ...string[]]),
+    z.number().int().min(0).max(10000),
+  ),
+  /** Coins and anything not counted by note, as an amount */
+  coins: z.number().min(0).max(100000).default(0),
+  note: z.string().max(500).optional(),
+});
+export type CodHandoverInput = z.infer<typeof codHandoverSchema>;
+
 // ── Banner ──────────────────────────────────────────
 export const createBannerSchema = z.object({
   title: z.string().min(1),
@@ -867,9 +1067,97 @@ export const resolveReturnRequestSchema = z.object({
   status: z.enum(["APPROVED", "REJECTED"]),
   approvedAmount: z.number().min(0).optional(),
   adminNote: z.string().max(500).optional(),
+  refundDestination: z.nativeEnum(RefundDestination).default("WALLET"),
+  /** Put the returned items back in stock */
+  restock: z.boolean().default(false),
 });
 export type ResolveReturnRequestInput = z.infer<typeof resolveReturnRequestSchema>;
 
+// ── Supplier ────────────────────────────────────────
+export const createSupplierSchema = z.object({
+  name: z.string().min(1).max(200),
+  contactName: z.string().max(200).optional(),
+  phone: z.string().max(20).optional(),
+  email: z.string().email().optional(),
+  gstNumber: z.string().max(20).optional(),
+  address: z.string().max(500).optional(),
+  leadTimeDays: z.number().int().min(0).max(365).optional(),
+  organizationId: z.string().uuid().optional(),
+});
+export type CreateSupplierInput = z.infer<typeof createSupplierSchema>;
+
+export const updateSupplierSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  contactName: z.string().max(200).nullish(),
+  phone: z.string().max(20).nullish(),
+  email: z.string().email().nullish(),
+  gstNumber: z.string().max(20).nullish(),
+  address: z.string().max(500).nullish(),
+  leadTimeDays: z.number().int().min(0).max(365).nullish(),
+  isActive: z.boolean().optional(),
+});
+export type UpdateSupplierInput = z.infer<typeof updateSupplierSchema>;
+
+// ── Purchase Order ──────────────────────────────────
+const purchaseOrderItemSchema = z.object({
+  storeProductId: z.string().uuid(),
+  quantity: z.number().int().positive(),
+  costPrice: z.number().min(0),
+});
+
+export const createPurchaseOrderSchema = z.object({
+  storeId: z.string().uuid(),
+  supplierId: z.string().uuid(),
+  expectedDate: z.coerce.date().optional(),
+  notes: z.string().max(1000).optional(),
+  items: z.array(purchaseOrderItemSchema).min(1),
+});
+export type CreatePurchaseOrderInput = z.infer<typeof createPurchaseOrderSchema>;
+
+export const updatePurchaseOrderSchema = z.object({
+  supplierId: z.string().uuid().optional(),
+  expectedDate: z.coerce.date().nullish(),
+  notes: z.string().max(1000).nullish(),
+  items: z.array(purchaseOrderItemSchema).min(1).optional(),
+});
+export type UpdatePurchaseOrderInput = z.infer<typeof updatePurchaseOrderSchema>;
+
+export const draftPurchaseOrderSchema = z.object({
+  storeId: z.string().uuid(),
+  supplierId: z.string().uuid(),
+  // Include products that run out within this many days
+  threshold: z.number().int().min(1).max(60).default(7),
+});
+export type DraftPurchaseOrderInput = z.infer<typeof draftPurchaseOrderSchema>;
+
+export const receivePurchaseOrderSchema = z.object({
+  invoiceNumber: z.string().max(100).optional(),
+  note: z.string().max(500).optional(),
+  items: z.array(z.object({
+    purchaseOrderItemId: z.string().uuid(),
+    quantity: z.number().int().positive(),
+    lotNumber: z.string().max(100).optional(),
+    // Defaults to received date + the product's shelf life
+    expiryDate: z.coerce.date().optional(),
+  })).min(1),
+});
+export type ReceivePurchaseOrderInput = z.infer<typeof receivePurchaseOrderSchema>;
+
+// ── Stock Transfers ─────────────────────────────────
+export const createStockTransferSchema = z.object({
+  sourceStoreId: z.string().uuid(),
+  destinationStoreId: z.string().uuid(),
+  note: z.string().max(500).optional(),
+  items: z.array(z.object({
+    variantId: z.string().uuid(),
+    quantity: z.number().int().positive(),
+  })).min(1),
+}).refine((d) => d.sourceStoreId !== d.destinationStoreId, {
+  message: "Source and destination stores must differ",
+  path: ["destinationStoreId"],
+});
+export type CreateStockTransferInput = z.infer<typeof createStockTransferSchema>;
+
 // ── Membership ──────────────────────────────────────
 export const createMembershipPlanSchema = z.object({
   name: z.string().min(1).max(200),
@@ -980,6 +1268,13 @@ export const skipSubscriptionDateSchema = z.object({
 });
 export type SkipSubscriptionDateInput = z.infer<typeof skipSubscriptionDateSchema>;
 
+export const createVacationSchema = z.object({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  note: z.string().max(200).optional(),
+}).refine((v) => v.endDate >= v.startDate, { message: "End date must be on or after the start date", path: ["endDate"] });
+export type CreateVacationInput = z.infer<typeof createVacationSchema>;
+
 export const basketAddOnSchema = z.object({
   storeProductId: z.string().uuid(),
   quantity: z.number().int().positive(),
@@ -1008,6 +1303,35 @@ export const subscriptionItemOverrideSchema = z.object({
 });
 export type SubscriptionItemOverrideInput = z.infer<typeof subscriptionItemOverrideSchema>;
 
+export const createSubscriptionMandateSchema = z.object({
+  method: z.nativeEnum(MandateMethod),
+  // Largest single charge the customer allows; UPI AutoPay debits above ₹15,000 need approval each time
+  maxAmount: z.number().positive().max(15000).optional(),
+});
+export type CreateSubscriptionMandateInput = z.infer<typeof createSubscriptionMandateSchema>;
+
+// ── Wallet ──────────────────────────────────────────
+export const walletAlertSettingsSchema = z.object({
+  // Alert when the balance is forecast to run out within this many days; null turns alerts off
+  lowBalanceAlertDays: z.number().int().min(1).max(14).nullable(),
+});
+export type WalletAlertSettingsInput = z.infer<typeof walletAlertSettingsSchema>;
+
+export const createWalletAutoTopupSchema = z.object({
+  method: z.nativeEnum(MandateMethod),
+  // Top up when the balance drops below this
+  threshold: z.number().min(0).max(10000),
+  topupAmount: z.number().min(100).max(15000),
+});
+export type CreateWalletAutoTopupInput = z.infer<typeof createWalletAutoTopupSchema>;
+
+export const updateWalletAutoTopupSchema = z.object({
+  enabled: z.boolean().optional(),
+  threshold: z.number().min(0).max(10000).optional(),
+  topupAmount: z.number().min(100).max(15000).optional(),
+});
+export type UpdateWalletAutoTopupInput = z.infer<typeof updateWalletAutoTopupSchema>;
+
 // ── Recipe ──────────────────────────────────────────
 export const recipeItemSchema = z.object({
   productId: z.string().uuid(),